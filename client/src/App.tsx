@@ -10,10 +10,14 @@ import Members from "@/pages/members";
 import Chat from "@/pages/chat";
 import Vault from "@/pages/vault";
 import Financials from "@/pages/financials";
+import Timesheet from "@/pages/timesheet";
+import AuditLog from "@/pages/audit-log";
 
 import NotFound from "@/pages/not-found";
 import AcceptInvitation from "@/pages/accept-invitation";
 import SimpleAccept from "@/pages/simple-accept";
+import Login from "@/pages/login";
+import ResetPassword from "@/pages/reset-password";
 
 function Router() {
   // Check if current path is invitation - handle without auth
@@ -22,6 +26,14 @@ function Router() {
   if (currentPath.startsWith('/accept-invitation')) {
     return <SimpleAccept />;
   }
+
+  // Signing in happens before there's a session
+  if (currentPath === '/login') {
+    return <Login />;
+  }
+  if (currentPath === '/reset-password') {
+    return <ResetPassword />;
+  }
   
   const { isAuthenticated, isLoading } = useAuth();
 
@@ -82,6 +94,28 @@ function Router() {
           <Financials />
         )}
       </Route>
+      <Route path="/workspace/:workspaceId/timesheet">
+        {isLoading ? (
+          <div className="min-h-screen flex items-center justify-center">
+            <div className="text-center">Loading...</div>
+          </div>
+        ) : !isAuthenticated ? (
+          <Landing />
+        ) : (
+          <Timesheet />
+        )}
+      </Route>
+      <Route path="/workspace/:workspaceId/audit-log">
+        {isLoading ? (
+          <div className="min-h-screen flex items-center justify-center">
+            <div className="text-center">Loading...</div>
+          </div>
+        ) : !isAuthenticated ? (
+          <Landing />
+        ) : (
+          <AuditLog />
+        )}
+      </Route>
 
       <Route>
         <NotFound />
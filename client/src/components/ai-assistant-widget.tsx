@@ -6,8 +6,7 @@ import { Card, CardContent } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
-import ReactMarkdown from 'react-markdown';
-import remarkGfm from 'remark-gfm';
+import { ToolActions, AssistantMarkdown } from '@/components/chat-turn';
 import { 
   MessageCircle, 
   X, 
@@ -26,17 +25,12 @@ import {
   Trash2,
   Settings,
   CheckCircle,
-  Info
+  Info,
+  Square
 } from 'lucide-react';
-import { apiRequest } from '@/lib/queryClient';
-
-interface ChatMessage {
-  id: number;
-  message: string;
-  response: string;
-  createdAt: string;
-  conversationId: string;
-}
+import { apiRequest, getApiErrorMessage } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+import { useChatStream, type ChatTurnData } from '@/hooks/useChatStream';
 
 interface Conversation {
   conversationId: string;
@@ -84,6 +78,7 @@ export function AIAssistantWidget({ workspaceId }: AIAssistantWidgetProps) {
   const inputRef = useRef<HTMLInputElement>(null);
   const widgetRef = useRef<HTMLDivElement>(null);
   const queryClient = useQueryClient();
+  const { toast } = useToast();
 
   // Ensure workspaceId is valid
   const isValidWorkspace = !!(workspaceId && workspaceId > 0);
@@ -95,64 +90,54 @@ export function AIAssistantWidget({ workspaceId }: AIAssistantWidgetProps) {
   });
 
   // Fetch messages for current conversation
-  const { data: currentMessages = [], isLoading } = useQuery<ChatMessage[]>({
+  const { data: currentMessages = [], isLoading } = useQuery<ChatTurnData[]>({
     queryKey: currentConversationId 
       ? [`/api/workspaces/${workspaceId}/conversations/${currentConversationId}/messages`]
       : [`/api/workspaces/${workspaceId}/chat`],
     enabled: Boolean(isValidWorkspace),
   });
 
-  // Send message mutation
-  const sendMessageMutation = useMutation({
-    mutationFn: async (message: string) => {
-      if (!isValidWorkspace) {
-        throw new Error("No valid workspace selected");
+  // Answers stream in; the saved turn replaces the streamed one once the lists are refreshed
+  const chat = useChatStream(workspaceId, {
+    onDone: (turn) => {
+      // Update current conversation ID if this was a new conversation
+      if (!currentConversationId) {
+        setCurrentConversationId(turn.conversationId);
       }
-      
-      const response = await fetch(`/api/workspaces/${workspaceId}/chat`, {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-        },
-        credentials: "include",
-        body: JSON.stringify({ 
-          message,
-          conversationId: currentConversationId 
+      const refreshes = [
+        queryClient.invalidateQueries({ queryKey: [`/api/workspaces/${workspaceId}/conversations`] }),
+        queryClient.invalidateQueries({
+          queryKey: [`/api/workspaces/${workspaceId}/conversations/${turn.conversationId}/messages`]
         }),
-      });
-
-      if (!response.ok) {
-        throw new Error(`Failed to send message: ${response.status}`);
-      }
+        queryClient.invalidateQueries({ queryKey: [`/api/workspaces/${workspaceId}/chat`] }),
+      ];
+      return Promise.all(refreshes);
+    },
+    onError: (description) => {
+      toast({ title: "The assistant couldn't answer", description, variant: "destructive" });
+    },
+  });
 
+  // Confirm or cancel a change the assistant proposed
+  const answerActionMutation = useMutation({
+    mutationFn: async ({ id, approve }: { id: number; approve: boolean }) => {
+      const response = await apiRequest("POST", `/api/workspaces/${workspaceId}/chat/actions/${id}`, { approve });
       return response.json();
     },
-    onSuccess: (data) => {
-      // Update current conversation ID if this was a new conversation
-      if (!currentConversationId && data.conversationId) {
-        setCurrentConversationId(data.conversationId);
-      }
-      
-      // Invalidate relevant queries
-      queryClient.invalidateQueries({ queryKey: [`/api/workspaces/${workspaceId}/conversations`] });
+    onSuccess: (_turn: ChatTurnData, { approve }) => {
       if (currentConversationId) {
-        queryClient.invalidateQueries({ 
-          queryKey: [`/api/workspaces/${workspaceId}/conversations/${currentConversationId}/messages`] 
+        queryClient.invalidateQueries({
+          queryKey: [`/api/workspaces/${workspaceId}/conversations/${currentConversationId}/messages`]
         });
       } else {
         queryClient.invalidateQueries({ queryKey: [`/api/workspaces/${workspaceId}/chat`] });
       }
-      
-      setMessage("");
-      setIsExpanded(true);
-      
-      // Scroll to bottom after new message
-      setTimeout(() => {
-        chatEndRef.current?.scrollIntoView({ behavior: 'smooth' });
-      }, 100);
+      if (approve) {
+        queryClient.invalidateQueries({ queryKey: [`/api/workspaces/${workspaceId}/tasks`] });
+      }
     },
     onError: (error) => {
-      console.error("Failed to send message:", error);
+      toast({ title: "Couldn't answer the assistant", description: getApiErrorMessage(error, "Failed to answer chat action"), variant: "destructive" });
     },
   });
 
@@ -190,34 +175,6 @@ export function AIAssistantWidget({ workspaceId }: AIAssistantWidgetProps) {
     },
   });
 
-  // Quick action mutations
-  const quickActionMutation = useMutation({
-    mutationFn: async (action: string) => {
-      if (!isValidWorkspace) {
-        throw new Error("No valid workspace selected");
-      }
-      
-      const response = await fetch(`/api/workspaces/${workspaceId}/chat`, {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-        },
-        credentials: "include",
-        body: JSON.stringify({ message: action }),
-      });
-
-      if (!response.ok) {
-        throw new Error(`Failed to send message: ${response.status}`);
-      }
-
-      return response.json();
-    },
-    onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: [`/api/workspaces/${workspaceId}/chat`] });
-      setIsExpanded(true);
-    },
-  });
-
   // Drag functionality
   const handleMouseDown = (e: React.MouseEvent) => {
     if (widgetRef.current) {
@@ -270,14 +227,14 @@ export function AIAssistantWidget({ workspaceId }: AIAssistantWidgetProps) {
     handleMouseDown(e);
   };
 
-  // Auto-scroll to bottom of chat when messages change
+  // Auto-scroll to bottom of chat when messages change or an answer grows
   useEffect(() => {
-    if (chatEndRef.current && isExpanded && currentMessages && Array.isArray(currentMessages) && currentMessages.length > 0) {
+    if (chatEndRef.current && isExpanded && ((Array.isArray(currentMessages) && currentMessages.length > 0) || chat.streaming)) {
       setTimeout(() => {
         chatEndRef.current?.scrollIntoView({ behavior: 'smooth' });
       }, 100);
     }
-  }, [currentMessages, isExpanded]);
+  }, [currentMessages, isExpanded, chat.streaming]);
 
   // Focus input when expanded
   useEffect(() => {
@@ -286,19 +243,25 @@ export function AIAssistantWidget({ workspaceId }: AIAssistantWidgetProps) {
     }
   }, [isExpanded]);
 
-  const handleSendMessage = () => {
-    if (!message.trim() || sendMessageMutation.isPending) return;
+  const sendToAssistant = (text: string) => {
+    if (chat.isStreaming) return;
     if (!isValidWorkspace) {
       console.error("No valid workspace selected for chat");
       return;
     }
-    
-    sendMessageMutation.mutate(message.trim());
+
+    chat.send(text, currentConversationId);
     setIsExpanded(true);
   };
 
+  const handleSendMessage = () => {
+    if (!message.trim() || chat.isStreaming) return;
+    sendToAssistant(message.trim());
+    setMessage("");
+  };
+
   const handleQuickAction = (action: string) => {
-    quickActionMutation.mutate(action);
+    sendToAssistant(action);
   };
 
   const handleKeyPress = (e: React.KeyboardEvent) => {
@@ -455,7 +418,7 @@ export function AIAssistantWidget({ workspaceId }: AIAssistantWidgetProps) {
                 <div className="flex items-center justify-center h-full">
                   <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-blue-500"></div>
                 </div>
-              ) : currentMessages.length === 0 ? (
+              ) : currentMessages.length === 0 && !chat.streaming ? (
                 <div className="text-center py-8 text-gray-500">
                   <Bot className="h-12 w-12 mx-auto mb-3 text-gray-300" />
                   <p className="text-sm">Start a conversation with your AI assistant</p>
@@ -463,7 +426,7 @@ export function AIAssistantWidget({ workspaceId }: AIAssistantWidgetProps) {
                 </div>
               ) : (
                 <div className="space-y-4">
-                  {[...(currentMessages as ChatMessage[])].sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime()).map((conv: ChatMessage) => (
+                  {[...(currentMessages as ChatTurnData[])].sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime()).map((conv: ChatTurnData) => (
                     <div key={conv.id} className="space-y-3">
                       {/* User Message */}
                       <div className="flex justify-end items-start space-x-2">
@@ -480,38 +443,57 @@ export function AIAssistantWidget({ workspaceId }: AIAssistantWidgetProps) {
                         </div>
                       </div>
                       
+                      {conv.actions?.length > 0 && (
+                        <ToolActions
+                          actions={conv.actions}
+                          onAnswer={(id, approve) => answerActionMutation.mutate({ id, approve })}
+                          isAnswering={answerActionMutation.isPending}
+                        />
+                      )}
+
                       {/* AI Response */}
-                      <div className="flex justify-start items-start space-x-2">
-                        <div className="mt-2 flex-shrink-0">
-                          {getMessageTypeIcon('ai')}
+                      {conv.response && (
+                        <div className="flex justify-start items-start space-x-2">
+                          <div className="mt-2 flex-shrink-0">
+                            {getMessageTypeIcon('ai')}
+                          </div>
+                          <div className="max-w-xs lg:max-w-md">
+                            <div className="bg-gray-100 text-gray-900 px-4 py-2 rounded-2xl rounded-bl-sm">
+                              <AssistantMarkdown>{conv.response}</AssistantMarkdown>
+                            </div>
+                          </div>
                         </div>
+                      )}
+                    </div>
+                  ))}
+
+                  {/* Answer being written */}
+                  {chat.streaming && (
+                    <div className="space-y-3">
+                      <div className="flex justify-end items-start space-x-2">
                         <div className="max-w-xs lg:max-w-md">
-                          <div className="bg-gray-100 text-gray-900 px-4 py-2 rounded-2xl rounded-bl-sm">
-                            <div className="text-sm prose prose-sm max-w-none">
-                              <ReactMarkdown 
-                                remarkPlugins={[remarkGfm]}
-                                components={{
-                                  ul: ({ children }) => <ul className="list-disc pl-4 mb-2">{children}</ul>,
-                                  ol: ({ children }) => <ol className="list-decimal pl-4 mb-2">{children}</ol>,
-                                  li: ({ children }) => <li className="mb-1">{children}</li>,
-                                  p: ({ children }) => <p className="mb-2 last:mb-0">{children}</p>,
-                                  strong: ({ children }) => <strong className="font-semibold">{children}</strong>,
-                                  em: ({ children }) => <em className="italic">{children}</em>,
-                                  code: ({ children }) => <code className="bg-gray-200 px-1 py-0.5 rounded text-xs font-mono">{children}</code>,
-                                  pre: ({ children }) => <pre className="bg-gray-200 p-2 rounded text-xs font-mono overflow-x-auto">{children}</pre>,
-                                  h1: ({ children }) => <h1 className="text-base font-bold mb-2">{children}</h1>,
-                                  h2: ({ children }) => <h2 className="text-sm font-bold mb-1">{children}</h2>,
-                                  h3: ({ children }) => <h3 className="text-sm font-semibold mb-1">{children}</h3>,
-                                }}
-                              >
-                                {conv.response}
-                              </ReactMarkdown>
-                            </div>
+                          <div className="bg-blue-500 text-white px-4 py-2 rounded-2xl rounded-br-sm">
+                            <p className="text-sm">{chat.streaming.message}</p>
                           </div>
                         </div>
+                        <div className="mt-2 flex-shrink-0">
+                          {getMessageTypeIcon('user')}
+                        </div>
                       </div>
+                      {chat.streaming.response && (
+                        <div className="flex justify-start items-start space-x-2">
+                          <div className="mt-2 flex-shrink-0">
+                            {getMessageTypeIcon('ai')}
+                          </div>
+                          <div className="max-w-xs lg:max-w-md">
+                            <div className="bg-gray-100 text-gray-900 px-4 py-2 rounded-2xl rounded-bl-sm">
+                              <AssistantMarkdown>{chat.streaming.response}</AssistantMarkdown>
+                            </div>
+                          </div>
+                        </div>
+                      )}
                     </div>
-                  ))}
+                  )}
                 </div>
               )}
               <div ref={chatEndRef} />
@@ -542,20 +524,27 @@ export function AIAssistantWidget({ workspaceId }: AIAssistantWidgetProps) {
                 onKeyPress={handleKeyPress}
                 placeholder="Ask your AI assistant anything..."
                 className="w-full pr-12 bg-gray-50 border-gray-200 focus:bg-white transition-colors"
-                disabled={sendMessageMutation.isPending}
               />
-              <Button
-                onClick={handleSendMessage}
-                disabled={!message.trim() || sendMessageMutation.isPending}
-                size="sm"
-                className="absolute right-1 top-1 h-8 w-8 p-0 bg-blue-500 hover:bg-blue-600"
-              >
-                {sendMessageMutation.isPending ? (
-                  <div className="animate-spin rounded-full h-3 w-3 border-b-2 border-white"></div>
-                ) : (
+              {chat.isStreaming ? (
+                <Button
+                  onClick={chat.stop}
+                  disabled={chat.isStopping}
+                  size="sm"
+                  className="absolute right-1 top-1 h-8 w-8 p-0 bg-blue-500 hover:bg-blue-600"
+                  title="Stop generating"
+                >
+                  <Square className="h-3 w-3 fill-current" />
+                </Button>
+              ) : (
+                <Button
+                  onClick={handleSendMessage}
+                  disabled={!message.trim()}
+                  size="sm"
+                  className="absolute right-1 top-1 h-8 w-8 p-0 bg-blue-500 hover:bg-blue-600"
+                >
                   <Send className="h-3 w-3" />
-                )}
-              </Button>
+                </Button>
+              )}
             </div>
 
             {/* Expand/Collapse Button */}
@@ -581,7 +570,7 @@ export function AIAssistantWidget({ workspaceId }: AIAssistantWidgetProps) {
                 variant="outline"
                 size="sm"
                 onClick={() => handleQuickAction(action.action)}
-                disabled={quickActionMutation.isPending}
+                disabled={chat.isStreaming}
                 className="bg-gray-50/80 border-gray-200 hover:bg-white hover:shadow-md transition-all duration-200 text-xs"
               >
                 <action.icon className="h-3 w-3 mr-1" />
@@ -591,7 +580,7 @@ export function AIAssistantWidget({ workspaceId }: AIAssistantWidgetProps) {
           </div>
 
           {/* Status Indicator */}
-          {(sendMessageMutation.isPending || quickActionMutation.isPending) && (
+          {((chat.isStreaming && !chat.streaming?.response) || answerActionMutation.isPending) && (
             <div className="flex items-center justify-center space-x-2 text-xs text-gray-500">
               <div className="animate-pulse w-2 h-2 bg-blue-500 rounded-full"></div>
               <span>AI is thinking...</span>
@@ -0,0 +1,347 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { formatDistanceToNow } from "date-fns";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from "@/components/ui/alert-dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, getApiErrorMessage } from "@/lib/queryClient";
+import { Copy, ExternalLink, KeyRound, Plus, Trash2 } from "lucide-react";
+import { API_TOKEN_RESOURCES, type ApiToken, type ApiTokenResource, type ApiTokenScope } from "@shared/schema";
+
+// Dates arrive as JSON strings, and the hash is never sent
+type ApiTokenData = Omit<ApiToken, 'tokenHash' | 'createdAt' | 'expiresAt' | 'lastUsedAt' | 'revokedAt'> & {
+  createdAt: string | null;
+  expiresAt: string | null;
+  lastUsedAt: string | null;
+};
+
+type Access = 'none' | 'read' | 'write';
+
+const RESOURCE_LABELS: Record<ApiTokenResource, string> = {
+  workspaces: "Workspaces",
+  members: "Members",
+  projects: "Projects",
+  categories: "Categories",
+  tasks: "Tasks and subtasks",
+  comments: "Comments",
+  time: "Time tracking",
+  files: "Files and attachments",
+  finances: "Budgets, expenses and revenue",
+  search: "Search",
+};
+
+const EXPIRY_OPTIONS: { label: string; days: number | null }[] = [
+  { label: "30 days", days: 30 },
+  { label: "90 days", days: 90 },
+  { label: "1 year", days: 365 },
+  { label: "Never", days: null },
+];
+
+const noAccess = () => Object.fromEntries(API_TOKEN_RESOURCES.map(resource => [resource, 'none'])) as Record<ApiTokenResource, Access>;
+
+function accessLabel(scopes: ApiTokenScope[]) {
+  const write = scopes.filter(scope => scope.endsWith(':write')).length;
+  const read = scopes.length - write;
+  return [write > 0 && `${write} read-write`, read > 0 && `${read} read-only`].filter(Boolean).join(', ');
+}
+
+interface ApiTokensSettingsProps {
+  workspaceId: number;
+  canManageWorkspaceTokens: boolean;
+}
+
+// Tokens for the REST API: the caller's own, and for admins the workspace's shared ones
+export default function ApiTokensSettings({ workspaceId, canManageWorkspaceTokens }: ApiTokensSettingsProps) {
+  const [creating, setCreating] = useState<'personal' | 'workspace' | null>(null);
+
+  return (
+    <Card className="mt-8">
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <div>
+          <CardTitle className="text-lg flex items-center">
+            <KeyRound className="h-5 w-5 mr-2" />
+            API tokens
+          </CardTitle>
+          <p className="text-sm text-gray-600 mt-1">
+            Call the REST API from scripts with <span className="font-mono text-xs">Authorization: Bearer &lt;token&gt;</span>.
+          </p>
+        </div>
+        <Button variant="outline" size="sm" asChild>
+          <a href="/api/openapi.json" target="_blank" rel="noreferrer">
+            <ExternalLink className="h-4 w-4 mr-2" />
+            API reference
+          </a>
+        </Button>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <TokenList
+          title="Your tokens"
+          description="Act as you, with your role in each workspace they can reach."
+          listUrl="/api/api-tokens"
+          revokeUrl={(id) => `/api/api-tokens/${id}`}
+          onCreate={() => setCreating('personal')}
+        />
+        {canManageWorkspaceTokens && (
+          <TokenList
+            title="Workspace tokens"
+            description="Shared by this workspace's admins and limited to this workspace."
+            listUrl={`/api/workspaces/${workspaceId}/api-tokens`}
+            revokeUrl={(id) => `/api/workspaces/${workspaceId}/api-tokens/${id}`}
+            onCreate={() => setCreating('workspace')}
+          />
+        )}
+      </CardContent>
+
+      <CreateTokenDialog
+        workspaceId={workspaceId}
+        kind={creating ?? 'personal'}
+        open={!!creating}
+        onOpenChange={(open) => !open && setCreating(null)}
+      />
+    </Card>
+  );
+}
+
+interface TokenListProps {
+  title: string;
+  description: string;
+  listUrl: string;
+  revokeUrl: (id: number) => string;
+  onCreate: () => void;
+}
+
+function TokenList({ title, description, listUrl, revokeUrl, onCreate }: TokenListProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { data: tokens = [], isLoading } = useQuery<ApiTokenData[]>({ queryKey: [listUrl] });
+
+  const revokeMutation = useMutation({
+    mutationFn: async (id: number) => apiRequest("DELETE", revokeUrl(id)),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [listUrl] });
+      toast({ title: "Token revoked" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: getApiErrorMessage(error, "Failed to revoke token"), variant: "destructive" });
+    },
+  });
+
+  return (
+    <div>
+      <div className="flex items-center justify-between">
+        <div>
+          <h3 className="text-sm font-medium">{title}</h3>
+          <p className="text-xs text-gray-500">{description}</p>
+        </div>
+        <Button size="sm" onClick={onCreate}>
+          <Plus className="h-4 w-4 mr-2" />
+          New token
+        </Button>
+      </div>
+
+      {isLoading ? (
+        <p className="text-sm text-gray-500 mt-3">Loading tokens...</p>
+      ) : tokens.length === 0 ? (
+        <p className="text-sm text-gray-500 mt-3">No tokens yet.</p>
+      ) : (
+        <div className="divide-y mt-2">
+          {tokens.map((token) => {
+            const expired = !!token.expiresAt && new Date(token.expiresAt) <= new Date();
+            return (
+              <div key={token.id} className="flex items-center justify-between py-3 gap-4">
+                <div className="min-w-0 flex-1">
+                  <p className="text-sm font-medium truncate">
+                    {token.name}
+                    <span className="font-mono text-xs text-gray-500 ml-2">{token.tokenPrefix}…</span>
+                    {expired && <Badge variant="secondary" className="ml-2">Expired</Badge>}
+                  </p>
+                  <p className="text-xs text-gray-500 mt-1">
+                    {accessLabel(token.scopes)}
+                    {token.kind === 'personal' && !token.workspaceId && ' · all your workspaces'}
+                    {' · '}
+                    {token.lastUsedAt ? `last used ${formatDistanceToNow(new Date(token.lastUsedAt), { addSuffix: true })}` : 'never used'}
+                    {token.expiresAt && !expired && ` · expires ${formatDistanceToNow(new Date(token.expiresAt), { addSuffix: true })}`}
+                  </p>
+                </div>
+                <AlertDialog>
+                  <AlertDialogTrigger asChild>
+                    <Button variant="ghost" size="sm" className="text-red-600" title="Revoke">
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </AlertDialogTrigger>
+                  <AlertDialogContent>
+                    <AlertDialogHeader>
+                      <AlertDialogTitle>Revoke token</AlertDialogTitle>
+                      <AlertDialogDescription>
+                        Anything using "{token.name}" will stop working straight away. This can't be undone.
+                      </AlertDialogDescription>
+                    </AlertDialogHeader>
+                    <AlertDialogFooter>
+                      <AlertDialogCancel>Cancel</AlertDialogCancel>
+                      <AlertDialogAction onClick={() => revokeMutation.mutate(token.id)} className="bg-red-600 hover:bg-red-700">
+                        Revoke
+                      </AlertDialogAction>
+                    </AlertDialogFooter>
+                  </AlertDialogContent>
+                </AlertDialog>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
+
+interface CreateTokenDialogProps {
+  workspaceId: number;
+  kind: 'personal' | 'workspace';
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+function CreateTokenDialog({ workspaceId, kind, open, onOpenChange }: CreateTokenDialogProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const listUrl = kind === 'personal' ? '/api/api-tokens' : `/api/workspaces/${workspaceId}/api-tokens`;
+  const [name, setName] = useState('');
+  const [access, setAccess] = useState<Record<ApiTokenResource, Access>>(noAccess);
+  const [expiresInDays, setExpiresInDays] = useState<number | null>(90);
+  const [allWorkspaces, setAllWorkspaces] = useState(false);
+  const [token, setToken] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    setName('');
+    setAccess(noAccess());
+    setExpiresInDays(90);
+    setAllWorkspaces(false);
+    setToken(null);
+  }, [open]);
+
+  const scopes = API_TOKEN_RESOURCES
+    .filter(resource => access[resource] !== 'none')
+    .map(resource => `${resource}:${access[resource]}` as ApiTokenScope);
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const body = { name, scopes, expiresInDays, ...(kind === 'personal' && { workspaceId: allWorkspaces ? null : workspaceId }) };
+      const response = await apiRequest("POST", listUrl, body);
+      return await response.json();
+    },
+    onSuccess: (created: { token: string }) => {
+      queryClient.invalidateQueries({ queryKey: [listUrl] });
+      // Stay open: this is the only time the token is shown
+      setToken(created.token);
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: getApiErrorMessage(error, "Failed to create token"), variant: "destructive" });
+    },
+  });
+
+  const copyToken = async () => {
+    try {
+      await navigator.clipboard.writeText(token ?? '');
+      toast({ title: "Token copied" });
+    } catch {
+      toast({ title: "Couldn't copy", description: "Select the token and copy it manually.", variant: "destructive" });
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-xl">
+        <DialogHeader>
+          <DialogTitle>{kind === 'personal' ? "New personal token" : "New workspace token"}</DialogTitle>
+          <DialogDescription>
+            {token
+              ? "Copy the token now. It won't be shown again."
+              : "Choose what the token can read and change. Your role in the workspace still applies."}
+          </DialogDescription>
+        </DialogHeader>
+
+        {token ? (
+          <div className="flex space-x-2">
+            <Input value={token} readOnly className="font-mono text-xs" onFocus={(e) => e.target.select()} />
+            <Button variant="outline" size="sm" onClick={copyToken} title="Copy">
+              <Copy className="h-4 w-4" />
+            </Button>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="grid grid-cols-[1fr_10rem] gap-3">
+              <div className="space-y-1">
+                <Label htmlFor="api-token-name">Name</Label>
+                <Input id="api-token-name" value={name} onChange={(e) => setName(e.target.value)} placeholder="e.g. CI sync" />
+              </div>
+              <div className="space-y-1">
+                <Label>Expires</Label>
+                <Select value={String(expiresInDays)} onValueChange={(value) => setExpiresInDays(value === 'null' ? null : Number(value))}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {EXPIRY_OPTIONS.map((option) => (
+                      <SelectItem key={option.label} value={String(option.days)}>{option.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Access</Label>
+              <div className="grid grid-cols-[1fr_9rem] items-center gap-x-4 gap-y-2">
+                {API_TOKEN_RESOURCES.map((resource) => (
+                  <div key={resource} className="contents">
+                    <span className="text-sm">{RESOURCE_LABELS[resource]}</span>
+                    <Select value={access[resource]} onValueChange={(value) => setAccess({ ...access, [resource]: value as Access })}>
+                      <SelectTrigger className="h-8">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="none">No access</SelectItem>
+                        <SelectItem value="read">Read only</SelectItem>
+                        <SelectItem value="write">Read and write</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            {kind === 'personal' && (
+              <div className="flex items-center justify-between border-t pt-4">
+                <div>
+                  <Label htmlFor="api-token-all-workspaces">All my workspaces</Label>
+                  <p className="text-xs text-gray-500">Otherwise the token only works in this workspace.</p>
+                </div>
+                <Switch id="api-token-all-workspaces" checked={allWorkspaces} onCheckedChange={setAllWorkspaces} />
+              </div>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          {token ? (
+            <Button onClick={() => onOpenChange(false)}>Done</Button>
+          ) : (
+            <>
+              <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+              <Button onClick={() => createMutation.mutate()} disabled={!name.trim() || scopes.length === 0 || createMutation.isPending}>
+                {createMutation.isPending ? "Creating..." : "Create token"}
+              </Button>
+            </>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,169 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { formatDistanceToNow } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuSeparator, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, getApiErrorMessage } from "@/lib/queryClient";
+import { CalendarPlus, Copy, Download, RefreshCw, Rss, Trash2 } from "lucide-react";
+
+interface CalendarFeedInfo {
+  url: string;
+  createdAt: string | null;
+  lastAccessedAt: string | null;
+}
+
+interface CalendarSyncProps {
+  workspaceId: number;
+  // The current view's task filters (assignee, projectId, ...) as a query string
+  filters: string;
+}
+
+const withParams = (url: string, params: URLSearchParams) => {
+  const query = params.toString();
+  return query ? `${url}?${query}` : url;
+};
+
+// Calendar menu for the task views: download the current view as an .ics file, or
+// subscribe to the workspace in a calendar app with a private feed URL
+export default function CalendarSync({ workspaceId, filters }: CalendarSyncProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [showSubscribe, setShowSubscribe] = useState(false);
+  const [onlyMine, setOnlyMine] = useState(false);
+  const [asTodos, setAsTodos] = useState(false);
+
+  const feedKey = [`/api/workspaces/${workspaceId}/calendar-feed`];
+  const { data } = useQuery<{ feed: CalendarFeedInfo | null }>({
+    queryKey: feedKey,
+    enabled: showSubscribe,
+  });
+  const feed = data?.feed ?? null;
+
+  const rotateMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/workspaces/${workspaceId}/calendar-feed`);
+      return await response.json();
+    },
+    onSuccess: (result: { feed: CalendarFeedInfo }) => {
+      queryClient.setQueryData(feedKey, result);
+      if (feed) {
+        toast({ title: "Feed URL replaced", description: "Calendars using the old URL will stop updating." });
+      }
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: getApiErrorMessage(error, "Failed to create calendar feed"), variant: "destructive" });
+    },
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: async () => {
+      return await apiRequest("DELETE", `/api/workspaces/${workspaceId}/calendar-feed`);
+    },
+    onSuccess: () => {
+      queryClient.setQueryData(feedKey, { feed: null });
+      toast({ title: "Calendar feed revoked" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: getApiErrorMessage(error, "Failed to revoke calendar feed"), variant: "destructive" });
+    },
+  });
+
+  const feedParams = new URLSearchParams();
+  if (onlyMine) feedParams.set('assignee', 'me');
+  if (asTodos) feedParams.set('component', 'todo');
+  const feedUrl = feed ? withParams(feed.url, feedParams) : '';
+
+  const copyFeedUrl = async () => {
+    try {
+      await navigator.clipboard.writeText(feedUrl);
+      toast({ title: "Feed URL copied" });
+    } catch {
+      toast({ title: "Couldn't copy", description: "Select the URL and copy it manually.", variant: "destructive" });
+    }
+  };
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="outline" size="sm" title="Calendar">
+            <CalendarPlus className="h-4 w-4" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end" className="w-56">
+          <DropdownMenuItem asChild>
+            <a href={withParams(`/api/workspaces/${workspaceId}/tasks.ics`, new URLSearchParams(filters))} download>
+              <Download className="mr-2 h-4 w-4" />
+              Export this view (.ics)
+            </a>
+          </DropdownMenuItem>
+          <DropdownMenuSeparator />
+          <DropdownMenuItem onClick={() => setShowSubscribe(true)}>
+            <Rss className="mr-2 h-4 w-4" />
+            Subscribe in calendar app
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <Dialog open={showSubscribe} onOpenChange={setShowSubscribe}>
+        <DialogContent className="sm:max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Subscribe to tasks</DialogTitle>
+            <DialogDescription>
+              Add this URL to Google Calendar, Outlook or Apple Calendar to see the workspace's dated tasks there.
+              Anyone with the URL can read your tasks, so keep it private.
+            </DialogDescription>
+          </DialogHeader>
+
+          {feed ? (
+            <div className="space-y-4">
+              <div className="flex space-x-2">
+                <Input value={feedUrl} readOnly onFocus={(e) => e.target.select()} className="font-mono text-xs" />
+                <Button variant="outline" size="sm" onClick={copyFeedUrl} title="Copy URL">
+                  <Copy className="h-4 w-4" />
+                </Button>
+              </div>
+
+              <div className="flex items-center justify-between">
+                <Label htmlFor="calendar-only-mine">Only tasks assigned to me</Label>
+                <Switch id="calendar-only-mine" checked={onlyMine} onCheckedChange={setOnlyMine} />
+              </div>
+              <div className="flex items-center justify-between">
+                <Label htmlFor="calendar-as-todos">Show as to-dos instead of events</Label>
+                <Switch id="calendar-as-todos" checked={asTodos} onCheckedChange={setAsTodos} />
+              </div>
+
+              <p className="text-xs text-gray-500">
+                {feed.lastAccessedAt
+                  ? `Last fetched by a calendar ${formatDistanceToNow(new Date(feed.lastAccessedAt), { addSuffix: true })}.`
+                  : "Not fetched by a calendar yet."}
+              </p>
+
+              <div className="flex justify-between">
+                <Button variant="outline" size="sm" onClick={() => rotateMutation.mutate()} disabled={rotateMutation.isPending}>
+                  <RefreshCw className="h-4 w-4 mr-2" />
+                  Replace URL
+                </Button>
+                <Button variant="ghost" size="sm" className="text-red-600" onClick={() => revokeMutation.mutate()} disabled={revokeMutation.isPending}>
+                  <Trash2 className="h-4 w-4 mr-2" />
+                  Revoke
+                </Button>
+              </div>
+            </div>
+          ) : (
+            <div className="flex justify-end">
+              <Button onClick={() => rotateMutation.mutate()} disabled={!data || rotateMutation.isPending}>
+                {rotateMutation.isPending ? "Creating..." : "Create feed URL"}
+              </Button>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -0,0 +1,85 @@
+import ReactMarkdown from 'react-markdown';
+import remarkGfm from 'remark-gfm';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { CheckCircle, Settings } from 'lucide-react';
+import type { ChatToolAction } from '@shared/schema';
+
+// Pieces of an assistant turn shared by the chat page and the assistant widget
+
+const ACTION_STATUS_LABELS: Record<ChatToolAction['status'], string> = {
+  pending: 'Needs confirmation',
+  approved: 'Done',
+  rejected: 'Cancelled',
+  done: 'Done',
+  failed: 'Failed',
+};
+
+// The tool calls behind an answer. Changes wait for the user to confirm them.
+export function ToolActions({ actions, onAnswer, isAnswering }: {
+  actions: ChatToolAction[];
+  onAnswer: (id: number, approve: boolean) => void;
+  isAnswering: boolean;
+}) {
+  return (
+    <div className="space-y-2 pl-6">
+      {actions.map((action) => (
+        <div
+          key={action.id}
+          className={`flex items-center justify-between gap-2 rounded-lg border px-3 py-2 text-xs ${
+            action.status === 'pending' ? 'border-amber-200 bg-amber-50' : 'border-gray-200 bg-white'
+          }`}
+        >
+          <div className="flex items-center space-x-2 min-w-0">
+            {action.status === 'pending'
+              ? <Settings className="h-4 w-4 text-green-600" />
+              : <CheckCircle className="h-4 w-4 text-emerald-600" />}
+            <span className="truncate text-gray-700">{action.summary}</span>
+          </div>
+          {action.status === 'pending' ? (
+            <div className="flex flex-shrink-0 space-x-1">
+              <Button size="sm" className="h-6 px-2 text-xs" onClick={() => onAnswer(action.id, true)} disabled={isAnswering}>
+                Confirm
+              </Button>
+              <Button size="sm" variant="outline" className="h-6 px-2 text-xs" onClick={() => onAnswer(action.id, false)} disabled={isAnswering}>
+                Cancel
+              </Button>
+            </div>
+          ) : (
+            <Badge
+              variant="outline"
+              className={`flex-shrink-0 text-xs ${action.status === 'failed' ? 'text-red-600 border-red-200' : 'text-gray-500'}`}
+            >
+              {ACTION_STATUS_LABELS[action.status]}
+            </Badge>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
+
+export function AssistantMarkdown({ children }: { children: string }) {
+  return (
+    <div className="text-sm prose prose-sm max-w-none">
+      <ReactMarkdown
+        remarkPlugins={[remarkGfm]}
+        components={{
+          ul: ({ children }) => <ul className="list-disc pl-4 mb-2">{children}</ul>,
+          ol: ({ children }) => <ol className="list-decimal pl-4 mb-2">{children}</ol>,
+          li: ({ children }) => <li className="mb-1">{children}</li>,
+          p: ({ children }) => <p className="mb-2 last:mb-0">{children}</p>,
+          strong: ({ children }) => <strong className="font-semibold">{children}</strong>,
+          em: ({ children }) => <em className="italic">{children}</em>,
+          code: ({ children }) => <code className="bg-gray-200 px-1 py-0.5 rounded text-xs font-mono">{children}</code>,
+          pre: ({ children }) => <pre className="bg-gray-200 p-2 rounded text-xs font-mono overflow-x-auto">{children}</pre>,
+          h1: ({ children }) => <h1 className="text-base font-bold mb-2">{children}</h1>,
+          h2: ({ children }) => <h2 className="text-sm font-bold mb-1">{children}</h2>,
+          h3: ({ children }) => <h3 className="text-sm font-semibold mb-1">{children}</h3>,
+        }}
+      >
+        {children}
+      </ReactMarkdown>
+    </div>
+  );
+}
@@ -0,0 +1,136 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, getApiErrorMessage } from "@/lib/queryClient";
+import { Download, History, RotateCcw } from "lucide-react";
+import type { FileVersion } from "@shared/schema";
+
+interface FileVersionsDialogProps {
+  workspaceId: number;
+  file: { id: number; name: string; currentVersion?: number } | null;
+  onClose: () => void;
+}
+
+const formatFileSize = (bytes: number) => {
+  if (!bytes) return '0 B';
+  const k = 1024;
+  const sizes = ['B', 'KB', 'MB', 'GB'];
+  const i = Math.floor(Math.log(bytes) / Math.log(k));
+  return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + ' ' + sizes[i];
+};
+
+export default function FileVersionsDialog({ workspaceId, file, onClose }: FileVersionsDialogProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const versionsKey = [`/api/workspaces/${workspaceId}/files/${file?.id}/versions`];
+
+  const { data: versions = [], isLoading } = useQuery<FileVersion[]>({
+    queryKey: versionsKey,
+    enabled: !!file,
+  });
+
+  const restoreMutation = useMutation({
+    mutationFn: async (version: FileVersion) => {
+      return await apiRequest("POST", `/api/workspaces/${workspaceId}/files/${file!.id}/versions/${version.id}/restore`);
+    },
+    onSuccess: (_, version) => {
+      queryClient.invalidateQueries({ queryKey: [`/api/workspaces/${workspaceId}/files`] });
+      queryClient.invalidateQueries({ queryKey: versionsKey });
+      toast({ title: `Restored version ${version.versionNumber}` });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: getApiErrorMessage(error, "Failed to restore version"),
+        variant: "destructive",
+      });
+    },
+  });
+
+  // The newest row is what the file currently serves
+  const currentVersionNumber = versions[0]?.versionNumber;
+  const versionUrl = (version: FileVersion) =>
+    `/api/workspaces/${workspaceId}/files/${file?.id}/versions/${version.id}/download`;
+
+  return (
+    <Dialog open={!!file} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <History className="h-5 w-5" />
+            Version history
+          </DialogTitle>
+          <DialogDescription>
+            Every upload of "{file?.name}". Restoring a version makes a new copy of it the current version.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="animate-pulse h-24 bg-gray-100 rounded" />
+        ) : versions.length === 0 ? (
+          <p className="text-sm text-gray-500 py-4 text-center">No versions recorded</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Version</TableHead>
+                <TableHead>Uploaded by</TableHead>
+                <TableHead>When</TableHead>
+                <TableHead className="text-right">Size</TableHead>
+                <TableHead />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {versions.map((version) => (
+                <TableRow key={version.id}>
+                  <TableCell className="whitespace-nowrap">
+                    v{version.versionNumber}
+                    {version.versionNumber === currentVersionNumber && (
+                      <Badge variant="outline" className="ml-2 text-xs">Current</Badge>
+                    )}
+                    {version.restoredFromVersion && (
+                      <span className="block text-xs text-gray-500">restored from v{version.restoredFromVersion}</span>
+                    )}
+                  </TableCell>
+                  <TableCell>{version.uploaderName}</TableCell>
+                  <TableCell className="text-sm text-gray-600">
+                    {version.createdAt ? new Date(version.createdAt).toLocaleString() : '—'}
+                  </TableCell>
+                  <TableCell className="text-right">{formatFileSize(version.size)}</TableCell>
+                  <TableCell className="text-right whitespace-nowrap">
+                    <Button variant="ghost" size="sm" className="h-7 w-7 p-0" asChild>
+                      <a href={versionUrl(version)} download={file?.name} title="Download">
+                        <Download className="h-4 w-4" />
+                      </a>
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-7 w-7 p-0"
+                      title="Restore"
+                      disabled={version.versionNumber === currentVersionNumber || restoreMutation.isPending}
+                      onClick={() => restoreMutation.mutate(version)}
+                    >
+                      <RotateCcw className="h-4 w-4" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
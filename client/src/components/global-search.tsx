@@ -1,10 +1,32 @@
-import { useState, useRef, useEffect } from 'react';
-import { Search, X, Calendar, Users, Tag, FolderOpen } from 'lucide-react';
+import { useState, useRef, useEffect, useMemo } from 'react';
+import {
+  Search,
+  X,
+  Calendar,
+  Users,
+  Tag,
+  FolderOpen,
+  CheckSquare,
+  MessageSquare,
+  FileText,
+  File as FileIcon,
+  Lightbulb,
+  TrendingUp,
+  TrendingDown,
+} from 'lucide-react';
 import { Input } from '@/components/ui/input';
 import { Badge } from '@/components/ui/badge';
 import { Card, CardContent } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { useQuery } from '@tanstack/react-query';
+import {
+  SEARCH_RESULT_TYPES,
+  SEARCH_HIGHLIGHT_START,
+  SEARCH_HIGHLIGHT_END,
+  type SearchResponse,
+  type SearchResult,
+  type SearchResultType,
+} from '@shared/schema';
 
 interface GlobalSearchProps {
   workspaceId: number | null;
@@ -14,11 +36,44 @@ interface GlobalSearchProps {
   onCategorySelect?: (categoryId: number) => void;
 }
 
-interface SearchResults {
-  tasks: any[];
-  projects: any[];
-  members: any[];
-  categories: any[];
+const TYPE_LABELS: Record<SearchResultType, { label: string; icon: typeof Search }> = {
+  task: { label: 'Tasks', icon: CheckSquare },
+  project: { label: 'Projects', icon: FolderOpen },
+  member: { label: 'Members', icon: Users },
+  category: { label: 'Categories', icon: Tag },
+  comment: { label: 'Comments', icon: MessageSquare },
+  page: { label: 'Pages', icon: FileText },
+  file: { label: 'Files', icon: FileIcon },
+  brain_dump: { label: 'Brain dump', icon: Lightbulb },
+  inflow: { label: 'Inflows', icon: TrendingUp },
+  outflow: { label: 'Outflows', icon: TrendingDown },
+};
+
+const SEARCH_TIPS = 'Try type:task, assignee:me, status:todo, due:<today, due:overdue, project:name, priority:3, or -word to exclude';
+
+// The server marks matches with private-use characters rather than HTML, so
+// user content is always rendered as text
+function Highlighted({ text }: { text: string }) {
+  const parts: JSX.Element[] = [];
+  let remaining = text;
+  let key = 0;
+  while (remaining) {
+    const start = remaining.indexOf(SEARCH_HIGHLIGHT_START);
+    if (start === -1) {
+      parts.push(<span key={key++}>{remaining}</span>);
+      break;
+    }
+    const end = remaining.indexOf(SEARCH_HIGHLIGHT_END, start);
+    if (start > 0) parts.push(<span key={key++}>{remaining.slice(0, start)}</span>);
+    const stop = end === -1 ? remaining.length : end;
+    parts.push(
+      <mark key={key++} className="bg-yellow-100 text-inherit rounded-sm px-0.5">
+        {remaining.slice(start + 1, stop)}
+      </mark>
+    );
+    remaining = remaining.slice(stop + 1);
+  }
+  return <>{parts}</>;
 }
 
 export default function GlobalSearch({
@@ -29,13 +84,14 @@ export default function GlobalSearch({
   onCategorySelect
 }: GlobalSearchProps) {
   const [searchQuery, setSearchQuery] = useState('');
+  const [typeFilter, setTypeFilter] = useState<SearchResultType | null>(null);
   const [isOpen, setIsOpen] = useState(false);
   const [selectedIndex, setSelectedIndex] = useState(-1);
   const searchRef = useRef<HTMLDivElement>(null);
   const inputRef = useRef<HTMLInputElement>(null);
 
-  // Fetch search results when query changes
-  const { data: searchResults, isLoading } = useQuery<SearchResults>({
+  // Counts for the type chips always come from an unfiltered search
+  const { data: allResults, isLoading } = useQuery<SearchResponse>({
     queryKey: ['/api/search', workspaceId, searchQuery],
     queryFn: async () => {
       const response = await fetch(`/api/search?workspaceId=${workspaceId}&q=${encodeURIComponent(searchQuery)}`);
@@ -46,6 +102,34 @@ export default function GlobalSearch({
     staleTime: 1000 * 30, // 30 seconds
   });
 
+  const { data: filteredResults, isLoading: isFiltering } = useQuery<SearchResponse>({
+    queryKey: ['/api/search', workspaceId, searchQuery, typeFilter],
+    queryFn: async () => {
+      const params = new URLSearchParams({
+        workspaceId: String(workspaceId),
+        q: searchQuery,
+        types: typeFilter!,
+        limit: '50',
+      });
+      const response = await fetch(`/api/search?${params}`);
+      if (!response.ok) throw new Error('Search failed');
+      return response.json();
+    },
+    enabled: !!workspaceId && searchQuery.length >= 2 && isOpen && !!typeFilter,
+    staleTime: 1000 * 30,
+  });
+
+  const searchResults = typeFilter ? filteredResults : allResults;
+
+  // Groups in a fixed order; the flattened list drives keyboard navigation
+  const groups = useMemo(() => {
+    if (!searchResults) return [];
+    return SEARCH_RESULT_TYPES
+      .map(type => ({ type, results: searchResults.results.filter(result => result.type === type) }))
+      .filter(group => group.results.length > 0);
+  }, [searchResults]);
+  const flatResults = useMemo(() => groups.flatMap(group => group.results), [groups]);
+
   // Close search when clicking outside
   useEffect(() => {
     function handleClickOutside(event: MouseEvent) {
@@ -62,28 +146,21 @@ export default function GlobalSearch({
   // Handle keyboard navigation
   useEffect(() => {
     function handleKeyDown(event: KeyboardEvent) {
-      if (!isOpen || !searchResults) return;
-
-      const allResults = [
-        ...searchResults.tasks,
-        ...searchResults.projects,
-        ...searchResults.members,
-        ...searchResults.categories
-      ];
+      if (!isOpen || flatResults.length === 0) return;
 
       switch (event.key) {
         case 'ArrowDown':
           event.preventDefault();
-          setSelectedIndex(prev => (prev + 1) % allResults.length);
+          setSelectedIndex(prev => (prev + 1) % flatResults.length);
           break;
         case 'ArrowUp':
           event.preventDefault();
-          setSelectedIndex(prev => prev <= 0 ? allResults.length - 1 : prev - 1);
+          setSelectedIndex(prev => prev <= 0 ? flatResults.length - 1 : prev - 1);
           break;
         case 'Enter':
           event.preventDefault();
           if (selectedIndex >= 0) {
-            handleResultSelect(allResults[selectedIndex]);
+            handleResultSelect(flatResults[selectedIndex]);
           }
           break;
         case 'Escape':
@@ -96,138 +173,143 @@ export default function GlobalSearch({
 
     document.addEventListener('keydown', handleKeyDown);
     return () => document.removeEventListener('keydown', handleKeyDown);
-  }, [isOpen, searchResults, selectedIndex]);
+  }, [isOpen, flatResults, selectedIndex]);
 
-  const handleResultSelect = (result: any) => {
-    if (result.title) {
-      // It's a task
-      onTaskSelect?.(result.id);
-    } else if (result.name && result.description !== undefined) {
-      // It's a project
-      onProjectSelect?.(result.id);
-    } else if (result.name && result.email) {
-      // It's a member
-      onMemberSelect?.(result.id);
-    } else if (result.name && result.color !== undefined) {
-      // It's a category
-      onCategorySelect?.(result.id);
+  const handleResultSelect = (result: SearchResult) => {
+    switch (result.type) {
+      case 'task':
+        onTaskSelect?.(result.id);
+        break;
+      case 'comment':
+        if (result.taskId) onTaskSelect?.(result.taskId);
+        break;
+      case 'project':
+        onProjectSelect?.(result.id);
+        break;
+      case 'page':
+      case 'inflow':
+      case 'outflow':
+        if (result.projectId) onProjectSelect?.(result.projectId);
+        break;
+      case 'member':
+        onMemberSelect?.(result.id);
+        break;
+      case 'category':
+        onCategorySelect?.(result.id);
+        break;
+      case 'file':
+        window.location.href = '/vault';
+        break;
+      // Brain dump items have no page of their own
     }
-    
+
     setIsOpen(false);
     setSearchQuery('');
+    setTypeFilter(null);
     setSelectedIndex(-1);
   };
 
   const clearSearch = () => {
     setSearchQuery('');
+    setTypeFilter(null);
     setIsOpen(false);
     setSelectedIndex(-1);
     inputRef.current?.focus();
   };
 
-  const getResultIndex = (sectionResults: any[], sectionStartIndex: number, itemIndex: number) => {
-    return sectionStartIndex + itemIndex;
+  const renderMeta = (result: SearchResult) => {
+    const { meta } = result;
+    switch (result.type) {
+      case 'task':
+        return (
+          <>
+            {meta.dueDate && (
+              <span className="flex items-center">
+                <Calendar className="h-3 w-3 mr-1" />
+                {new Date(meta.dueDate).toLocaleDateString()}
+              </span>
+            )}
+            {meta.projectName && (
+              <span className="flex items-center">
+                <FolderOpen className="h-3 w-3 mr-1" />
+                {meta.projectName}
+              </span>
+            )}
+            {meta.assigneeName && (
+              <span className="flex items-center">
+                <Users className="h-3 w-3 mr-1" />
+                {meta.assigneeName}
+              </span>
+            )}
+          </>
+        );
+      case 'member':
+        return meta.email ? <span>{meta.email}</span> : null;
+      case 'comment':
+        return meta.authorName ? <span>Comment by {meta.authorName}</span> : null;
+      case 'file':
+        return <span>{meta.path}</span>;
+      case 'page':
+      case 'inflow':
+      case 'outflow':
+        return (
+          <>
+            {meta.projectName && (
+              <span className="flex items-center">
+                <FolderOpen className="h-3 w-3 mr-1" />
+                {meta.projectName}
+              </span>
+            )}
+            {meta.amount !== undefined && meta.amount !== null && <span>${Number(meta.amount).toLocaleString()}</span>}
+            {meta.date && <span>{new Date(meta.date).toLocaleDateString()}</span>}
+          </>
+        );
+      default:
+        return null;
+    }
   };
 
-  const renderTaskResult = (task: any, index: number, globalIndex: number) => (
+  const renderResult = (result: SearchResult, globalIndex: number) => (
     <div
-      key={`task-${task.id}`}
-      className={`flex items-center justify-between p-3 cursor-pointer transition-colors ${
+      key={`${result.type}-${result.id}`}
+      className={`p-3 cursor-pointer transition-colors ${
         selectedIndex === globalIndex ? 'bg-primary/10 border-l-2 border-primary' : 'hover:bg-gray-50'
       }`}
-      onClick={() => handleResultSelect(task)}
+      onClick={() => handleResultSelect(result)}
+      onMouseEnter={() => setSelectedIndex(globalIndex)}
     >
-      <div className="flex-1 min-w-0">
-        <div className="flex items-center space-x-2">
-          <h4 className="text-sm font-medium text-gray-900 truncate">{task.title}</h4>
-          <Badge variant={task.status === 'completed' ? 'default' : 'secondary'} className="text-xs">
-            {task.status}
+      <div className="flex items-center space-x-2">
+        {result.type === 'category' && result.meta.color && (
+          <span className="h-3 w-3 rounded-full flex-shrink-0" style={{ backgroundColor: String(result.meta.color) }} />
+        )}
+        <h4 className="text-sm font-medium text-gray-900 truncate">
+          <Highlighted text={result.title} />
+        </h4>
+        {result.type === 'task' && result.meta.status && (
+          <Badge variant={result.meta.status === 'completed' ? 'default' : 'secondary'} className="text-xs">
+            {result.meta.status}
           </Badge>
-        </div>
-        {task.description && (
-          <p className="text-xs text-gray-500 mt-1 truncate">{task.description}</p>
         )}
-        <div className="flex items-center space-x-3 mt-2 text-xs text-gray-400">
-          {task.dueDate && (
-            <span className="flex items-center">
-              <Calendar className="h-3 w-3 mr-1" />
-              {new Date(task.dueDate).toLocaleDateString()}
-            </span>
-          )}
-          {task.projectName && (
-            <span className="flex items-center">
-              <FolderOpen className="h-3 w-3 mr-1" />
-              {task.projectName}
-            </span>
-          )}
-        </div>
-      </div>
-    </div>
-  );
-
-  const renderProjectResult = (project: any, index: number, globalIndex: number) => (
-    <div
-      key={`project-${project.id}`}
-      className={`flex items-center justify-between p-3 cursor-pointer transition-colors ${
-        selectedIndex === globalIndex ? 'bg-primary/10 border-l-2 border-primary' : 'hover:bg-gray-50'
-      }`}
-      onClick={() => handleResultSelect(project)}
-    >
-      <div className="flex-1 min-w-0">
-        <div className="flex items-center space-x-2">
-          <FolderOpen className="h-4 w-4 text-blue-500" />
-          <h4 className="text-sm font-medium text-gray-900 truncate">{project.name}</h4>
-        </div>
-        {project.description && (
-          <p className="text-xs text-gray-500 mt-1 truncate">{project.description}</p>
+        {(result.type === 'project' || result.type === 'inflow' || result.type === 'outflow') && result.meta.status && (
+          <Badge variant="outline" className="text-xs">{result.meta.status}</Badge>
         )}
       </div>
-    </div>
-  );
-
-  const renderMemberResult = (member: any, index: number, globalIndex: number) => {
-    const memberName = member.name || member.email;
-    
-    return (
-      <div
-        key={`member-${member.id}`}
-        className={`flex items-center justify-between p-3 cursor-pointer transition-colors ${
-          selectedIndex === globalIndex ? 'bg-primary/10 border-l-2 border-primary' : 'hover:bg-gray-50'
-        }`}
-        onClick={() => handleResultSelect(member)}
-      >
-        <div className="flex items-center space-x-3">
-          <div className="w-8 h-8 bg-gradient-to-br from-blue-500 to-purple-600 rounded-full flex items-center justify-center">
-            <span className="text-white text-xs font-semibold">
-              {memberName.charAt(0).toUpperCase()}
-            </span>
-          </div>
-          <div>
-            <h4 className="text-sm font-medium text-gray-900">{memberName}</h4>
-            {member.email && (
-              <p className="text-xs text-gray-500">{member.email}</p>
-            )}
-          </div>
-        </div>
-      </div>
-    );
-  };
-
-  const renderCategoryResult = (category: any, index: number, globalIndex: number) => (
-    <div
-      key={`category-${category.id}`}
-      className={`flex items-center justify-between p-3 cursor-pointer transition-colors ${
-        selectedIndex === globalIndex ? 'bg-primary/10 border-l-2 border-primary' : 'hover:bg-gray-50'
-      }`}
-      onClick={() => handleResultSelect(category)}
-    >
-      <div className="flex items-center space-x-3">
-        <Tag className="h-4 w-4 text-green-500" />
-        <h4 className="text-sm font-medium text-gray-900">{category.name}</h4>
+      {result.snippet && (
+        <p className="text-xs text-gray-500 mt-1 line-clamp-2">
+          <Highlighted text={result.snippet} />
+        </p>
+      )}
+      <div className="flex items-center space-x-3 mt-1 text-xs text-gray-400 empty:hidden">
+        {renderMeta(result)}
       </div>
     </div>
   );
 
+  const counts = allResults?.counts ?? {};
+  const errors = searchResults?.errors ?? [];
+  const loading = typeFilter ? isFiltering : isLoading;
+  let runningIndex = 0;
+
   return (
     <div ref={searchRef} className="relative">
       <div className="relative">
@@ -235,7 +317,7 @@ export default function GlobalSearch({
         <Input
           ref={inputRef}
           type="text"
-          placeholder="Search tasks, projects, members..."
+          placeholder="Search tasks, projects, files..."
           value={searchQuery}
           onChange={(e) => {
             setSearchQuery(e.target.value);
@@ -265,133 +347,94 @@ export default function GlobalSearch({
       {isOpen && searchQuery.length >= 2 && (
         <Card className="absolute top-full left-0 mt-1 max-h-[600px] overflow-y-auto z-50 border shadow-lg w-[600px]">
           <CardContent className="p-0">
-            {isLoading ? (
+            {/* Type filters */}
+            <div className="flex flex-wrap gap-1 px-3 py-2 border-b bg-gray-50">
+              <Button
+                variant={typeFilter === null ? 'default' : 'outline'}
+                size="sm"
+                className="h-6 px-2 text-xs"
+                onClick={() => {
+                  setTypeFilter(null);
+                  setSelectedIndex(-1);
+                }}
+              >
+                All
+              </Button>
+              {SEARCH_RESULT_TYPES.filter(type => counts[type] || typeFilter === type).map(type => (
+                <Button
+                  key={type}
+                  variant={typeFilter === type ? 'default' : 'outline'}
+                  size="sm"
+                  className="h-6 px-2 text-xs"
+                  onClick={() => {
+                    setTypeFilter(type);
+                    setSelectedIndex(-1);
+                  }}
+                >
+                  {TYPE_LABELS[type].label}
+                  <span className="ml-1 opacity-70">{counts[type] ?? 0}</span>
+                </Button>
+              ))}
+            </div>
+
+            {errors.length > 0 && (
+              <div className="px-3 py-2 text-xs text-amber-700 bg-amber-50 border-b">
+                {errors.join(' · ')}
+              </div>
+            )}
+
+            {loading ? (
               <div className="p-4 text-center text-gray-500">
                 <div className="flex items-center justify-center space-x-2">
                   <div className="w-4 h-4 border-2 border-primary border-t-transparent rounded-full animate-spin"></div>
                   <span>Searching...</span>
                 </div>
               </div>
-            ) : searchResults ? (
-              <div className="grid grid-cols-2 gap-0">
-                {/* Tasks Section */}
-                {searchResults.tasks && searchResults.tasks.length > 0 && (
-                  <div className="border-r border-gray-100">
+            ) : groups.length > 0 ? (
+              groups.map(({ type, results }) => {
+                const { label, icon: Icon } = TYPE_LABELS[type];
+                const startIndex = runningIndex;
+                runningIndex += results.length;
+                const total = searchResults?.counts[type] ?? results.length;
+                return (
+                  <div key={type} className="border-b border-gray-100 last:border-b-0">
                     <div className="px-3 py-2 bg-gray-50 border-b">
                       <div className="flex items-center space-x-2">
-                        <Calendar className="h-4 w-4 text-gray-600" />
+                        <Icon className="h-4 w-4 text-gray-600" />
                         <h3 className="text-sm font-semibold text-gray-700">
-                          Tasks ({searchResults.tasks.length})
+                          {label} ({total})
                         </h3>
                       </div>
                     </div>
-                    <div className="max-h-80 overflow-y-auto">
-                      {searchResults.tasks.slice(0, 6).map((task, index) => 
-                        renderTaskResult(task, index, getResultIndex([], 0, index))
-                      )}
-                      {searchResults.tasks.length > 6 && (
-                        <div className="px-3 py-1 text-xs text-gray-400 bg-gray-25">
-                          +{searchResults.tasks.length - 6} more tasks
-                        </div>
-                      )}
-                    </div>
+                    {results.map((result, index) => renderResult(result, startIndex + index))}
+                    {!typeFilter && total > results.length && (
+                      <button
+                        className="w-full px-3 py-1 text-left text-xs text-primary hover:underline"
+                        onClick={() => {
+                          setTypeFilter(type);
+                          setSelectedIndex(-1);
+                        }}
+                      >
+                        Show all {total} {label.toLowerCase()}
+                      </button>
+                    )}
                   </div>
-                )}
-
-                {/* Projects Section */}
-                {searchResults.projects && searchResults.projects.length > 0 && (
-                  <div className={searchResults.tasks?.length ? "" : "border-r border-gray-100"}>
-                    <div className="px-3 py-2 bg-gray-50 border-b">
-                      <div className="flex items-center space-x-2">
-                        <FolderOpen className="h-4 w-4 text-gray-600" />
-                        <h3 className="text-sm font-semibold text-gray-700">
-                          Projects ({searchResults.projects.length})
-                        </h3>
-                      </div>
-                    </div>
-                    <div className="max-h-80 overflow-y-auto">
-                      {searchResults.projects.slice(0, 6).map((project, index) => 
-                        renderProjectResult(project, index, getResultIndex(searchResults.tasks, searchResults.tasks?.length || 0, index))
-                      )}
-                      {searchResults.projects.length > 6 && (
-                        <div className="px-3 py-1 text-xs text-gray-400 bg-gray-25">
-                          +{searchResults.projects.length - 6} more projects
-                        </div>
-                      )}
-                    </div>
-                  </div>
-                )}
-
-                {/* Members Section */}
-                {searchResults.members && searchResults.members.length > 0 && (
-                  <div className={`${(searchResults.tasks?.length || searchResults.projects?.length) ? "border-t border-gray-100" : ""} border-r border-gray-100`}>
-                    <div className="px-3 py-2 bg-gray-50 border-b">
-                      <div className="flex items-center space-x-2">
-                        <Users className="h-4 w-4 text-gray-600" />
-                        <h3 className="text-sm font-semibold text-gray-700">
-                          Members ({searchResults.members.length})
-                        </h3>
-                      </div>
-                    </div>
-                    <div className="max-h-80 overflow-y-auto">
-                      {searchResults.members.slice(0, 6).map((member, index) => 
-                        renderMemberResult(member, index, getResultIndex(
-                          [...(searchResults.tasks || []), ...(searchResults.projects || [])], 
-                          (searchResults.tasks?.length || 0) + (searchResults.projects?.length || 0), 
-                          index
-                        ))
-                      )}
-                      {searchResults.members.length > 6 && (
-                        <div className="px-3 py-1 text-xs text-gray-400 bg-gray-25">
-                          +{searchResults.members.length - 6} more members
-                        </div>
-                      )}
-                    </div>
-                  </div>
-                )}
-
-                {/* Categories Section */}
-                {searchResults.categories && searchResults.categories.length > 0 && (
-                  <div className={(searchResults.tasks?.length || searchResults.projects?.length) ? "border-t border-gray-100" : ""}>
-                    <div className="px-3 py-2 bg-gray-50 border-b">
-                      <div className="flex items-center space-x-2">
-                        <Tag className="h-4 w-4 text-gray-600" />
-                        <h3 className="text-sm font-semibold text-gray-700">
-                          Categories ({searchResults.categories.length})
-                        </h3>
-                      </div>
-                    </div>
-                    <div className="max-h-80 overflow-y-auto">
-                      {searchResults.categories.slice(0, 6).map((category, index) => 
-                        renderCategoryResult(category, index, getResultIndex(
-                          [...(searchResults.tasks || []), ...(searchResults.projects || []), ...(searchResults.members || [])], 
-                          (searchResults.tasks?.length || 0) + (searchResults.projects?.length || 0) + (searchResults.members?.length || 0), 
-                          index
-                        ))
-                      )}
-                      {searchResults.categories.length > 6 && (
-                        <div className="px-3 py-1 text-xs text-gray-400 bg-gray-25">
-                          +{searchResults.categories.length - 6} more categories
-                        </div>
-                      )}
-                    </div>
-                  </div>
-                )}
-
-                {/* No Results */}
-                {(!searchResults.tasks?.length && !searchResults.projects?.length && 
-                  !searchResults.members?.length && !searchResults.categories?.length) && (
-                  <div className="col-span-2 p-4 text-center text-gray-500">
-                    <Search className="h-8 w-8 mx-auto mb-2 text-gray-300" />
-                    <p className="text-sm">No results found for "{searchQuery}"</p>
-                    <p className="text-xs text-gray-400 mt-1">Try a different search term</p>
-                  </div>
-                )}
+                );
+              })
+            ) : searchResults ? (
+              <div className="p-4 text-center text-gray-500">
+                <Search className="h-8 w-8 mx-auto mb-2 text-gray-300" />
+                <p className="text-sm">No results found for "{searchQuery}"</p>
+                <p className="text-xs text-gray-400 mt-1">{SEARCH_TIPS}</p>
               </div>
             ) : null}
+
+            {groups.length > 0 && (
+              <div className="px-3 py-2 text-[11px] text-gray-400 border-t bg-gray-50">{SEARCH_TIPS}</div>
+            )}
           </CardContent>
         </Card>
       )}
     </div>
   );
-}
\ No newline at end of file
+}
@@ -1,3 +1,4 @@
+import { useState } from "react";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { useMutation, useQueryClient, useQuery } from "@tanstack/react-query";
@@ -10,7 +11,9 @@ import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "
 import { Checkbox } from "@/components/ui/checkbox";
 import { Label } from "@/components/ui/label";
 import { useToast } from "@/hooks/use-toast";
-import { apiRequest } from "@/lib/queryClient";
+import { apiRequest, getApiErrorMessage } from "@/lib/queryClient";
+import { AttachmentDropzone, PendingAttachments, uploadTaskAttachment } from "@/components/task-attachments";
+import RecurrenceRuleBuilder from "@/components/recurrence-rule-builder";
 import { insertTaskSchema } from "@shared/schema";
 import { z } from "zod";
 
@@ -23,15 +26,10 @@ const createTaskSchema = insertTaskSchema.extend({
   status: z.enum(['todo', 'in_progress', 'review', 'completed']).default('todo'),
   dueDate: z.string().optional(),
   timeSlot: z.string().optional(),
-  // Recurrence fields
+  // Recurrence: an RFC 5545 rule anchored on the due date
   hasRecurrence: z.boolean().default(false),
-  recurrenceType: z.enum(['daily', 'weekly', 'monthly', 'yearly', 'custom']).optional(),
-  recurrenceInterval: z.number().min(1).default(1),
-  recurrenceEndType: z.enum(['never', 'after_count', 'on_date']).default('never'),
-  recurrenceEndCount: z.number().min(1).optional(),
-  recurrenceEndDate: z.string().optional(),
-  weeklyDays: z.array(z.number()).optional(), // 0-6 for Sun-Sat
-  monthlyOption: z.enum(['date', 'day']).optional(), // specific date or relative day
+  rrule: z.string().optional(),
+  exdates: z.array(z.string()).default([]),
 });
 
 type CreateTaskForm = z.infer<typeof createTaskSchema>;
@@ -57,6 +55,7 @@ export default function CreateTaskModal({
 }: CreateTaskModalProps) {
   const { toast } = useToast();
   const queryClient = useQueryClient();
+  const [pendingFiles, setPendingFiles] = useState<File[]>([]);
 
   // Fetch categories for the workspace
   const { data: categories = [] } = useQuery({
@@ -80,39 +79,73 @@ export default function CreateTaskModal({
       timeSlot: initialData?.timeSlot || "",
       workspaceId: workspaceId || 0,
       hasRecurrence: false,
-      recurrenceType: "daily",
-      recurrenceInterval: 1,
-      recurrenceEndType: "never",
-      weeklyDays: [],
-      monthlyOption: "date",
+      rrule: "FREQ=DAILY",
+      exdates: [],
     },
   });
 
   const createTaskMutation = useMutation({
     mutationFn: async (data: CreateTaskForm) => {
       if (!workspaceId) throw new Error("No workspace selected");
-      return await apiRequest("POST", `/api/workspaces/${workspaceId}/tasks`, data);
+      const response = await apiRequest("POST", `/api/workspaces/${workspaceId}/tasks`, data);
+      const created = await response.json();
+
+      // Files can only be attached once the task exists; a recurring series gets them on its first task
+      const taskId = created.tasks ? created.tasks[0]?.id : created.id;
+      const failedUploads: string[] = [];
+      if (taskId) {
+        for (const file of pendingFiles) {
+          try {
+            await uploadTaskAttachment(taskId, file);
+          } catch (error) {
+            failedUploads.push(getApiErrorMessage(error as Error, `Failed to attach ${file.name}`));
+          }
+        }
+      }
+      return { failedUploads };
     },
-    onSuccess: () => {
+    onSuccess: ({ failedUploads }) => {
       queryClient.invalidateQueries({ queryKey: [`/api/workspaces/${workspaceId}/tasks`] });
       queryClient.invalidateQueries({ queryKey: [`/api/workspaces/${workspaceId}/tasks/due-today`] });
-      toast({
-        title: "Task created",
-        description: "Your task has been created successfully.",
-      });
+      if (pendingFiles.length > 0) {
+        queryClient.invalidateQueries({ queryKey: [`/api/workspaces/${workspaceId}/attachment-counts`] });
+        queryClient.invalidateQueries({ queryKey: [`/api/workspaces/${workspaceId}/files`] });
+      }
+      if (failedUploads.length > 0) {
+        toast({
+          title: "Task created, but some attachments failed",
+          description: failedUploads.join("\n"),
+          variant: "destructive",
+        });
+      } else {
+        toast({
+          title: "Task created",
+          description: "Your task has been created successfully.",
+        });
+      }
       form.reset();
+      setPendingFiles([]);
       onClose();
     },
     onError: (error: Error) => {
       toast({
         title: "Error",
-        description: "Failed to create task. Please try again.",
+        description: getApiErrorMessage(error, "Failed to create task. Please try again."),
         variant: "destructive",
       });
     },
   });
 
+  const handleClose = () => {
+    setPendingFiles([]);
+    onClose();
+  };
+
   const onSubmit = (data: CreateTaskForm) => {
+    if (data.hasRecurrence && !data.dueDate) {
+      form.setError("dueDate", { message: "A repeating task needs a due date for its first occurrence" });
+      return;
+    }
     createTaskMutation.mutate({
       ...data,
       workspaceId: workspaceId!,
@@ -154,7 +187,7 @@ export default function CreateTaskModal({
   ];
 
   return (
-    <Dialog open={open} onOpenChange={onClose}>
+    <Dialog open={open} onOpenChange={handleClose}>
       <DialogContent className="sm:max-w-[500px]">
         <DialogHeader>
           <DialogTitle>Create New Task</DialogTitle>
@@ -421,7 +454,7 @@ export default function CreateTaskModal({
                     <div className="space-y-1 leading-none">
                       <FormLabel>Task Repeats</FormLabel>
                       <p className="text-[0.8rem] text-muted-foreground">
-                        Create recurring task instances based on schedule
+                        Repeat this task on a schedule, like every weekday or the last Friday of the month
                       </p>
                     </div>
                   </FormItem>
@@ -429,165 +462,38 @@ export default function CreateTaskModal({
               />
 
               {form.watch("hasRecurrence") && (
-                <div className="space-y-4 pl-6 border-l-2 border-muted">
-                  <div className="grid grid-cols-2 gap-4">
-                    <FormField
-                      control={form.control}
-                      name="recurrenceType"
-                      render={({ field }) => (
-                        <FormItem>
-                          <FormLabel>Repeat Pattern</FormLabel>
-                          <Select
-                            onValueChange={field.onChange}
-                            value={field.value || "daily"}
-                            disabled={createTaskMutation.isPending}
-                          >
-                            <FormControl>
-                              <SelectTrigger>
-                                <SelectValue placeholder="Select pattern..." />
-                              </SelectTrigger>
-                            </FormControl>
-                            <SelectContent>
-                              <SelectItem value="daily">Daily</SelectItem>
-                              <SelectItem value="weekly">Weekly</SelectItem>
-                              <SelectItem value="monthly">Monthly</SelectItem>
-                              <SelectItem value="yearly">Yearly</SelectItem>
-                              <SelectItem value="custom">Custom</SelectItem>
-                            </SelectContent>
-                          </Select>
-                          <FormMessage />
-                        </FormItem>
-                      )}
-                    />
-
-                    <FormField
-                      control={form.control}
-                      name="recurrenceInterval"
-                      render={({ field }) => (
-                        <FormItem>
-                          <FormLabel>Every</FormLabel>
-                          <FormControl>
-                            <Input
-                              type="number"
-                              min="1"
-                              placeholder="1"
-                              {...field}
-                              onChange={(e) => field.onChange(parseInt(e.target.value) || 1)}
-                              disabled={createTaskMutation.isPending}
-                            />
-                          </FormControl>
-                          <FormMessage />
-                        </FormItem>
-                      )}
-                    />
-                  </div>
-
-                  {form.watch("recurrenceType") === "weekly" && (
-                    <div className="space-y-2">
-                      <Label>Repeat On</Label>
-                      <div className="flex flex-wrap gap-2">
-                        {["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"].map((day, index) => (
-                          <div key={day} className="flex items-center space-x-2">
-                            <Checkbox
-                              id={`day-${index}`}
-                              checked={form.watch("weeklyDays")?.includes(index) || false}
-                              onCheckedChange={(checked) => {
-                                const currentDays = form.watch("weeklyDays") || [];
-                                if (checked) {
-                                  form.setValue("weeklyDays", [...currentDays, index]);
-                                } else {
-                                  form.setValue("weeklyDays", currentDays.filter(d => d !== index));
-                                }
-                              }}
-                              disabled={createTaskMutation.isPending}
-                            />
-                            <Label htmlFor={`day-${index}`} className="text-sm">{day}</Label>
-                          </div>
-                        ))}
-                      </div>
-                    </div>
-                  )}
-
-                  <div className="space-y-4">
-                    <FormField
-                      control={form.control}
-                      name="recurrenceEndType"
-                      render={({ field }) => (
-                        <FormItem>
-                          <FormLabel>End Condition</FormLabel>
-                          <Select
-                            onValueChange={field.onChange}
-                            value={field.value || "never"}
-                            disabled={createTaskMutation.isPending}
-                          >
-                            <FormControl>
-                              <SelectTrigger>
-                                <SelectValue placeholder="Select end condition..." />
-                              </SelectTrigger>
-                            </FormControl>
-                            <SelectContent>
-                              <SelectItem value="never">Never</SelectItem>
-                              <SelectItem value="after_count">After X occurrences</SelectItem>
-                              <SelectItem value="on_date">On specific date</SelectItem>
-                            </SelectContent>
-                          </Select>
-                          <FormMessage />
-                        </FormItem>
-                      )}
-                    />
-
-                    {form.watch("recurrenceEndType") === "after_count" && (
-                      <FormField
-                        control={form.control}
-                        name="recurrenceEndCount"
-                        render={({ field }) => (
-                          <FormItem>
-                            <FormLabel>Number of Occurrences</FormLabel>
-                            <FormControl>
-                              <Input
-                                type="number"
-                                min="1"
-                                placeholder="10"
-                                {...field}
-                                onChange={(e) => field.onChange(parseInt(e.target.value) || 1)}
-                                disabled={createTaskMutation.isPending}
-                              />
-                            </FormControl>
-                            <FormMessage />
-                          </FormItem>
-                        )}
-                      />
-                    )}
-
-                    {form.watch("recurrenceEndType") === "on_date" && (
-                      <FormField
-                        control={form.control}
-                        name="recurrenceEndDate"
-                        render={({ field }) => (
-                          <FormItem>
-                            <FormLabel>End Date</FormLabel>
-                            <FormControl>
-                              <Input
-                                type="date"
-                                {...field}
-                                disabled={createTaskMutation.isPending}
-                              />
-                            </FormControl>
-                            <FormMessage />
-                          </FormItem>
-                        )}
-                      />
-                    )}
-                  </div>
+                <div className="pl-6 border-l-2 border-muted">
+                  <RecurrenceRuleBuilder
+                    rrule={form.watch("rrule") || "FREQ=DAILY"}
+                    exdates={form.watch("exdates") || []}
+                    startDate={form.watch("dueDate") || undefined}
+                    onChange={(rrule, exdates) => {
+                      form.setValue("rrule", rrule);
+                      form.setValue("exdates", exdates);
+                    }}
+                    disabled={createTaskMutation.isPending}
+                  />
                 </div>
               )}
             </div>
 
+            <div className="space-y-2">
+              <Label>Attachments</Label>
+              <PendingAttachments
+                files={pendingFiles}
+                onRemove={(index) => setPendingFiles(files => files.filter((_, i) => i !== index))}
+              />
+              <AttachmentDropzone
+                onFiles={(files) => setPendingFiles(current => [...current, ...files])}
+                disabled={createTaskMutation.isPending}
+              />
+            </div>
+
             <div className="flex justify-end space-x-2 pt-4">
               <Button 
                 type="button" 
                 variant="outline" 
-                onClick={onClose}
+                onClick={handleClose}
                 disabled={createTaskMutation.isPending}
               >
                 Cancel
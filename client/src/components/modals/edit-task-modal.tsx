@@ -5,12 +5,13 @@ import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
 import { useToast } from "@/hooks/use-toast";
 import { isUnauthorizedError } from "@/lib/authUtils";
-import { apiRequest } from "@/lib/queryClient";
+import { apiRequest, getApiErrorMessage } from "@/lib/queryClient";
 import {
   Dialog,
   DialogContent,
   DialogHeader,
   DialogTitle,
+  DialogFooter,
 } from "@/components/ui/dialog";
 import {
   Form,
@@ -32,6 +33,11 @@ import {
 } from "@/components/ui/select";
 import { Checkbox } from "@/components/ui/checkbox";
 import { Label } from "@/components/ui/label";
+import TaskDependenciesEditor from "@/components/task-dependencies-editor";
+import SubtasksEditor from "@/components/subtasks-editor";
+import TaskAttachmentsEditor from "@/components/task-attachments";
+import RecurrenceScopeOptions from "@/components/recurrence-scope-options";
+import type { RecurrenceScope } from "@shared/schema";
 
 const editTaskSchema = z.object({
   title: z.string().min(1, "Title is required"),
@@ -43,15 +49,6 @@ const editTaskSchema = z.object({
   projectId: z.number().optional(),
   categoryId: z.number().optional(),
   assignedMemberId: z.number().optional(),
-  // Recurrence fields
-  repeatTask: z.boolean().optional(),
-  recurrenceType: z.enum(["daily", "weekly", "monthly", "yearly", "custom"]).optional(),
-  interval: z.number().min(1).optional(),
-  endType: z.enum(["never", "after_count", "on_date"]).optional(),
-  endCount: z.number().min(1).optional(),
-  endDate: z.string().optional(),
-  weeklyDays: z.array(z.number()).optional(),
-  monthlyOption: z.enum(["date", "day"]).optional(),
 });
 
 type EditTaskForm = z.infer<typeof editTaskSchema>;
@@ -77,7 +74,9 @@ export default function EditTaskModal({
 }: EditTaskModalProps) {
   const { toast } = useToast();
   const queryClient = useQueryClient();
-  const [repeatTask, setRepeatTask] = useState(false);
+  // Edits to a recurring instance wait here until the user picks how far they apply
+  const [pendingUpdate, setPendingUpdate] = useState<EditTaskForm | null>(null);
+  const [scope, setScope] = useState<RecurrenceScope>('this');
 
   const form = useForm<EditTaskForm>({
     resolver: zodResolver(editTaskSchema),
@@ -91,14 +90,6 @@ export default function EditTaskModal({
       projectId: undefined,
       categoryId: undefined,
       assignedMemberId: undefined,
-      repeatTask: false,
-      recurrenceType: "daily",
-      interval: 1,
-      endType: "never",
-      endCount: 1,
-      endDate: "",
-      weeklyDays: [],
-      monthlyOption: "date",
     },
   });
 
@@ -120,10 +111,11 @@ export default function EditTaskModal({
   }, [task, open, form]);
 
   const updateTaskMutation = useMutation({
-    mutationFn: async (data: EditTaskForm) => {
-      return await apiRequest("PATCH", `/api/tasks/${task.id}`, data);
+    mutationFn: async ({ data, scope }: { data: EditTaskForm; scope: RecurrenceScope }) => {
+      return await apiRequest("PATCH", `/api/tasks/${task.id}?scope=${scope}`, data);
     },
     onSuccess: () => {
+      setPendingUpdate(null);
       queryClient.invalidateQueries({ queryKey: [`/api/workspaces/${workspaceId}/tasks`] });
       toast({
         title: "Success",
@@ -146,17 +138,23 @@ export default function EditTaskModal({
       }
       toast({
         title: "Error",
-        description: "Failed to update task",
+        description: getApiErrorMessage(error, "Failed to update task"),
         variant: "destructive",
       });
     },
   });
 
   const onSubmit = (data: EditTaskForm) => {
-    updateTaskMutation.mutate(data);
+    if (task.taskRecurrenceId) {
+      setScope('this');
+      setPendingUpdate(data);
+      return;
+    }
+    updateTaskMutation.mutate({ data, scope: 'this' });
   };
 
   return (
+    <>
     <Dialog open={open} onOpenChange={onClose}>
       <DialogContent className="sm:max-w-[425px]">
         <DialogHeader>
@@ -375,6 +373,12 @@ export default function EditTaskModal({
                 </FormItem>
               )}
             />
+
+            {task && <SubtasksEditor task={task} workspaceId={workspaceId} members={members} />}
+
+            {task && <TaskAttachmentsEditor task={task} workspaceId={workspaceId} />}
+
+            {task && <TaskDependenciesEditor task={task} workspaceId={workspaceId} />}
             
             <div className="flex justify-end space-x-2 pt-4">
               <Button type="button" variant="outline" onClick={onClose}>
@@ -388,5 +392,32 @@ export default function EditTaskModal({
         </Form>
       </DialogContent>
     </Dialog>
+
+    <Dialog open={!!pendingUpdate} onOpenChange={(isOpen) => !isOpen && setPendingUpdate(null)}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Edit Recurring Task</DialogTitle>
+        </DialogHeader>
+        <div className="py-2">
+          <p className="text-sm text-gray-600">
+            Which occurrences of <span className="font-semibold">"{task?.title}"</span> should these changes apply to?
+            Status changes only ever apply to this occurrence.
+          </p>
+          <RecurrenceScopeOptions action="edit" value={scope} onChange={setScope} />
+        </div>
+        <DialogFooter className="flex justify-end space-x-2">
+          <Button variant="outline" onClick={() => setPendingUpdate(null)} disabled={updateTaskMutation.isPending}>
+            Cancel
+          </Button>
+          <Button
+            onClick={() => pendingUpdate && updateTaskMutation.mutate({ data: pendingUpdate, scope })}
+            disabled={updateTaskMutation.isPending}
+          >
+            {updateTaskMutation.isPending ? "Updating..." : "Save Changes"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+    </>
   );
 }
\ No newline at end of file
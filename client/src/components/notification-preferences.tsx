@@ -0,0 +1,205 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, getApiErrorMessage } from "@/lib/queryClient";
+import {
+  NOTIFICATION_TYPES,
+  type EmailDeliveryMode,
+  type NotificationChannelPreference,
+  type NotificationType,
+} from "@shared/schema";
+
+interface NotificationPreferencesData {
+  types: Record<NotificationType, NotificationChannelPreference>;
+  quietHoursStart: string | null;
+  quietHoursEnd: string | null;
+  timeZone: string;
+}
+
+const TYPE_LABELS: Record<NotificationType, string> = {
+  task_assigned: "Task assigned to me",
+  task_status_changed: "Task status changed",
+  task_completed: "Task completed",
+  comment_added: "New comment",
+  task_due_soon: "Task due soon",
+  task_overdue: "Task overdue",
+};
+
+const EMAIL_LABELS: Record<EmailDeliveryMode, string> = {
+  instant: "Instantly",
+  digest: "Daily digest",
+  off: "Off",
+};
+
+const browserTimeZone = () => Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+
+interface NotificationPreferencesDialogProps {
+  workspaceId: number;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+// Per-workspace settings for which notifications show in the app, which are emailed
+// (straight away or in the daily digest), and when not to send emails
+export default function NotificationPreferencesDialog({ workspaceId, open, onOpenChange }: NotificationPreferencesDialogProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const queryKey = [`/api/workspaces/${workspaceId}/notification-preferences`];
+  const { data, isLoading } = useQuery<NotificationPreferencesData>({ queryKey, enabled: open });
+
+  const [draft, setDraft] = useState<NotificationPreferencesData | null>(null);
+  const [quietHours, setQuietHours] = useState(false);
+
+  useEffect(() => {
+    if (!open || !data) return;
+    const hasQuietHours = !!data.quietHoursStart && !!data.quietHoursEnd;
+    setQuietHours(hasQuietHours);
+    setDraft({
+      ...data,
+      quietHoursStart: data.quietHoursStart ?? '22:00',
+      quietHoursEnd: data.quietHoursEnd ?? '08:00',
+      // Nothing saved yet: offer the browser's zone rather than UTC
+      timeZone: hasQuietHours ? data.timeZone : browserTimeZone(),
+    });
+  }, [open, data]);
+
+  const saveMutation = useMutation({
+    mutationFn: async (preferences: NotificationPreferencesData) => {
+      const response = await apiRequest("PUT", `/api/workspaces/${workspaceId}/notification-preferences`, preferences);
+      return await response.json();
+    },
+    onSuccess: (saved: NotificationPreferencesData) => {
+      queryClient.setQueryData(queryKey, saved);
+      toast({ title: "Notification settings saved" });
+      onOpenChange(false);
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: getApiErrorMessage(error, "Failed to save notification settings"), variant: "destructive" });
+    },
+  });
+
+  const setChannel = (type: NotificationType, changes: Partial<NotificationChannelPreference>) => {
+    setDraft(current => current && { ...current, types: { ...current.types, [type]: { ...current.types[type], ...changes } } });
+  };
+
+  const handleSave = () => {
+    if (!draft) return;
+    saveMutation.mutate({
+      ...draft,
+      quietHoursStart: quietHours ? draft.quietHoursStart : null,
+      quietHoursEnd: quietHours ? draft.quietHoursEnd : null,
+    });
+  };
+
+  const timeZones = typeof Intl.supportedValuesOf === 'function' ? Intl.supportedValuesOf('timeZone') : [];
+  if (draft && !timeZones.includes(draft.timeZone)) timeZones.unshift(draft.timeZone);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-xl">
+        <DialogHeader>
+          <DialogTitle>Notification settings</DialogTitle>
+          <DialogDescription>
+            Choose how you hear about activity in this workspace. These settings only apply to you.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading || !draft ? (
+          <div className="py-8 text-center text-sm text-muted-foreground">Loading settings...</div>
+        ) : (
+          <div className="space-y-6">
+            <div>
+              <div className="grid grid-cols-[1fr_auto_10rem] items-center gap-x-4 gap-y-3">
+                <span className="text-xs font-medium uppercase text-muted-foreground">Notification</span>
+                <span className="text-xs font-medium uppercase text-muted-foreground">In app</span>
+                <span className="text-xs font-medium uppercase text-muted-foreground">Email</span>
+                {NOTIFICATION_TYPES.map((type) => (
+                  <div key={type} className="contents">
+                    <Label htmlFor={`notify-in-app-${type}`} className="text-sm font-normal">{TYPE_LABELS[type]}</Label>
+                    <Switch
+                      id={`notify-in-app-${type}`}
+                      checked={draft.types[type].inApp}
+                      onCheckedChange={(inApp) => setChannel(type, { inApp })}
+                    />
+                    <Select value={draft.types[type].email} onValueChange={(email) => setChannel(type, { email: email as EmailDeliveryMode })}>
+                      <SelectTrigger className="h-8">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {(Object.keys(EMAIL_LABELS) as EmailDeliveryMode[]).map((mode) => (
+                          <SelectItem key={mode} value={mode}>{EMAIL_LABELS[mode]}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                ))}
+              </div>
+              <p className="mt-3 text-xs text-muted-foreground">
+                The daily digest collects the notifications you chose for it into one email each morning.
+              </p>
+            </div>
+
+            <div className="space-y-3 border-t pt-4">
+              <div className="flex items-center justify-between">
+                <div>
+                  <Label htmlFor="notify-quiet-hours">Quiet hours</Label>
+                  <p className="text-xs text-muted-foreground">Emails are held back and sent when quiet hours end.</p>
+                </div>
+                <Switch id="notify-quiet-hours" checked={quietHours} onCheckedChange={setQuietHours} />
+              </div>
+
+              {quietHours && (
+                <div className="grid grid-cols-3 gap-3">
+                  <div className="space-y-1">
+                    <Label htmlFor="notify-quiet-start" className="text-xs">From</Label>
+                    <Input
+                      id="notify-quiet-start"
+                      type="time"
+                      value={draft.quietHoursStart ?? ''}
+                      onChange={(e) => setDraft({ ...draft, quietHoursStart: e.target.value })}
+                    />
+                  </div>
+                  <div className="space-y-1">
+                    <Label htmlFor="notify-quiet-end" className="text-xs">Until</Label>
+                    <Input
+                      id="notify-quiet-end"
+                      type="time"
+                      value={draft.quietHoursEnd ?? ''}
+                      onChange={(e) => setDraft({ ...draft, quietHoursEnd: e.target.value })}
+                    />
+                  </div>
+                  <div className="space-y-1">
+                    <Label className="text-xs">Time zone</Label>
+                    <Select value={draft.timeZone} onValueChange={(timeZone) => setDraft({ ...draft, timeZone })}>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent className="max-h-72">
+                        {timeZones.map((zone) => (
+                          <SelectItem key={zone} value={zone}>{zone.replace(/_/g, ' ')}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </div>
+              )}
+            </div>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+          <Button onClick={handleSave} disabled={!draft || saveMutation.isPending}>
+            {saveMutation.isPending ? "Saving..." : "Save"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,5 +1,5 @@
 import { useState, useEffect } from "react";
-import { Bell, Check, X } from "lucide-react";
+import { Bell, Check, Settings, X } from "lucide-react";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
@@ -13,6 +13,7 @@ import {
 } from "@/components/ui/dropdown-menu";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { apiRequest } from "@/lib/queryClient";
+import NotificationPreferencesDialog from "@/components/notification-preferences";
 
 interface Notification {
   id: number;
@@ -31,6 +32,7 @@ interface NotificationsDropdownProps {
 export default function NotificationsDropdown({ workspaceId }: NotificationsDropdownProps) {
   const queryClient = useQueryClient();
   const [isOpen, setIsOpen] = useState(false);
+  const [showPreferences, setShowPreferences] = useState(false);
 
   // Fetch unread notification count
   const { data: unreadCountData } = useQuery({
@@ -42,7 +44,6 @@ export default function NotificationsDropdown({ workspaceId }: NotificationsDrop
       return response.json();
     },
     enabled: !!workspaceId,
-    refetchInterval: 30000, // Refetch every 30 seconds
   });
 
   const unreadCount = unreadCountData?.count || 0;
@@ -125,87 +126,106 @@ export default function NotificationsDropdown({ workspaceId }: NotificationsDrop
         return '✅';
       case 'comment_added':
         return '💬';
+      case 'task_due_soon':
+        return '⏰';
+      case 'task_overdue':
+        return '⚠️';
       default:
         return '📢';
     }
   };
 
+  const openPreferences = () => {
+    setIsOpen(false);
+    setShowPreferences(true);
+  };
+
   return (
-    <DropdownMenu open={isOpen} onOpenChange={setIsOpen}>
-      <DropdownMenuTrigger asChild>
-        <Button variant="ghost" size="icon" className="relative">
-          <Bell className="h-5 w-5" />
-          {unreadCount > 0 && (
-            <Badge 
-              variant="destructive" 
-              className="absolute -top-1 -right-1 h-5 w-5 p-0 flex items-center justify-center text-xs"
-            >
-              {unreadCount > 9 ? '9+' : unreadCount}
-            </Badge>
-          )}
-        </Button>
-      </DropdownMenuTrigger>
-      <DropdownMenuContent align="end" className="w-80">
-        <DropdownMenuLabel className="flex items-center justify-between">
-          <span>Notifications</span>
-          {notifications.length > 0 && (
-            <Button
-              variant="ghost"
-              size="sm"
-              onClick={handleMarkAllAsRead}
-              disabled={markAllAsReadMutation.isPending}
-            >
-              <Check className="h-4 w-4 mr-1" />
-              Mark all read
-            </Button>
-          )}
-        </DropdownMenuLabel>
-        <DropdownMenuSeparator />
-        
-        <ScrollArea className="h-96">
-          {isLoading ? (
-            <div className="p-4 text-center text-muted-foreground">
-              Loading notifications...
-            </div>
-          ) : notifications.length === 0 ? (
-            <div className="p-4 text-center text-muted-foreground">
-              No notifications yet
-            </div>
-          ) : (
-            notifications.map((notification: Notification) => (
-              <DropdownMenuItem
-                key={notification.id}
-                className={`p-3 cursor-pointer border-b last:border-b-0 ${
-                  !notification.isRead ? 'bg-blue-50 dark:bg-blue-950/20' : ''
-                }`}
-                onClick={() => handleNotificationClick(notification)}
+    <>
+      <DropdownMenu open={isOpen} onOpenChange={setIsOpen}>
+        <DropdownMenuTrigger asChild>
+          <Button variant="ghost" size="icon" className="relative">
+            <Bell className="h-5 w-5" />
+            {unreadCount > 0 && (
+              <Badge 
+                variant="destructive" 
+                className="absolute -top-1 -right-1 h-5 w-5 p-0 flex items-center justify-center text-xs"
               >
-                <div className="flex items-start space-x-3 w-full">
-                  <div className="text-lg mt-0.5">
-                    {getNotificationIcon(notification.type)}
-                  </div>
-                  <div className="flex-1 min-w-0">
-                    <div className="flex items-center justify-between">
-                      <p className="text-sm font-medium truncate">
-                        {notification.title}
+                {unreadCount > 9 ? '9+' : unreadCount}
+              </Badge>
+            )}
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end" className="w-80">
+          <DropdownMenuLabel className="flex items-center justify-between">
+            <span>Notifications</span>
+            <div className="flex items-center">
+              {notifications.length > 0 && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={handleMarkAllAsRead}
+                  disabled={markAllAsReadMutation.isPending}
+                >
+                  <Check className="h-4 w-4 mr-1" />
+                  Mark all read
+                </Button>
+              )}
+              <Button variant="ghost" size="icon" className="h-8 w-8" onClick={openPreferences} title="Notification settings">
+                <Settings className="h-4 w-4" />
+              </Button>
+            </div>
+          </DropdownMenuLabel>
+          <DropdownMenuSeparator />
+          
+          <ScrollArea className="h-96">
+            {isLoading ? (
+              <div className="p-4 text-center text-muted-foreground">
+                Loading notifications...
+              </div>
+            ) : notifications.length === 0 ? (
+              <div className="p-4 text-center text-muted-foreground">
+                No notifications yet
+              </div>
+            ) : (
+              notifications.map((notification: Notification) => (
+                <DropdownMenuItem
+                  key={notification.id}
+                  className={`p-3 cursor-pointer border-b last:border-b-0 ${
+                    !notification.isRead ? 'bg-blue-50 dark:bg-blue-950/20' : ''
+                  }`}
+                  onClick={() => handleNotificationClick(notification)}
+                >
+                  <div className="flex items-start space-x-3 w-full">
+                    <div className="text-lg mt-0.5">
+                      {getNotificationIcon(notification.type)}
+                    </div>
+                    <div className="flex-1 min-w-0">
+                      <div className="flex items-center justify-between">
+                        <p className="text-sm font-medium truncate">
+                          {notification.title}
+                        </p>
+                        <span className="text-xs text-muted-foreground ml-2">
+                          {formatTimeAgo(notification.createdAt)}
+                        </span>
+                      </div>
+                      <p className="text-xs text-muted-foreground mt-1 line-clamp-2">
+                        {notification.message}
                       </p>
-                      <span className="text-xs text-muted-foreground ml-2">
-                        {formatTimeAgo(notification.createdAt)}
-                      </span>
+                      {!notification.isRead && (
+                        <div className="w-2 h-2 bg-blue-500 rounded-full mt-1"></div>
+                      )}
                     </div>
-                    <p className="text-xs text-muted-foreground mt-1 line-clamp-2">
-                      {notification.message}
-                    </p>
-                    {!notification.isRead && (
-                      <div className="w-2 h-2 bg-blue-500 rounded-full mt-1"></div>
-                    )}
                   </div>
-                </div>
-              </DropdownMenuItem>
-            ))
-          )}
-        </ScrollArea>
-      </DropdownMenuContent>
-    </DropdownMenu>
+                </DropdownMenuItem>
+              ))
+            )}
+          </ScrollArea>
+        </DropdownMenuContent>
+      </DropdownMenu>
+      {workspaceId && (
+        <NotificationPreferencesDialog workspaceId={workspaceId} open={showPreferences} onOpenChange={setShowPreferences} />
+      )}
+    </>
   );
 }
\ No newline at end of file
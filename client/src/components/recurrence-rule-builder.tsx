@@ -0,0 +1,406 @@
+import { useMemo, useState } from "react";
+import { format, parseISO } from "date-fns";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { CalendarX, X } from "lucide-react";
+import {
+  parseRRule,
+  stringifyRRule,
+  describeRRule,
+  listOccurrences,
+  RRuleError,
+  WEEKDAY_NAMES,
+  MONTH_NAMES,
+  type RRule,
+} from "@shared/rrule";
+
+type BuilderFrequency = 'DAILY' | 'WEEKDAYS' | 'WEEKLY' | 'MONTHLY' | 'YEARLY';
+
+interface BuilderState {
+  frequency: BuilderFrequency;
+  interval: number;
+  weekdays: number[];
+  monthlyMode: 'day' | 'weekday';
+  monthDay: number;   // -1 for the last day of the month
+  ordinal: number;    // 1-4, or -1 for last
+  weekday: number;
+  month: number;
+  end: 'never' | 'count' | 'until';
+  count: number;
+  until: string;
+}
+
+const ORDINALS = [
+  { value: 1, label: 'first' },
+  { value: 2, label: 'second' },
+  { value: 3, label: 'third' },
+  { value: 4, label: 'fourth' },
+  { value: -1, label: 'last' },
+];
+
+const UNIT_LABELS: Record<BuilderFrequency, string> = {
+  DAILY: 'day(s)',
+  WEEKDAYS: 'week(s)',
+  WEEKLY: 'week(s)',
+  MONTHLY: 'month(s)',
+  YEARLY: 'year(s)',
+};
+
+const PREVIEW_COUNT = 5;
+
+// Defaults follow the task's due date, e.g. a task due on the 3rd Tuesday
+function initialState(startDate?: string): BuilderState {
+  const start = startDate ? parseISO(startDate) : new Date();
+  return {
+    frequency: 'DAILY',
+    interval: 1,
+    weekdays: [start.getDay()],
+    monthlyMode: 'day',
+    monthDay: start.getDate(),
+    ordinal: Math.min(Math.ceil(start.getDate() / 7), 4),
+    weekday: start.getDay(),
+    month: start.getMonth() + 1,
+    end: 'never',
+    count: 10,
+    until: '',
+  };
+}
+
+function buildRule(state: BuilderState): RRule {
+  const rule: RRule = { freq: 'DAILY', interval: Math.max(1, state.interval || 1) };
+  const monthly = () => {
+    if (state.monthlyMode === 'weekday') {
+      rule.byDay = [{ weekday: state.weekday, n: state.ordinal }];
+    } else {
+      rule.byMonthDay = [state.monthDay];
+    }
+  };
+
+  switch (state.frequency) {
+    case 'WEEKDAYS':
+      rule.freq = 'WEEKLY';
+      rule.byDay = [1, 2, 3, 4, 5].map(weekday => ({ weekday }));
+      break;
+    case 'WEEKLY':
+      rule.freq = 'WEEKLY';
+      if (state.weekdays.length > 0) {
+        rule.byDay = [...state.weekdays].sort((a, b) => a - b).map(weekday => ({ weekday }));
+      }
+      break;
+    case 'MONTHLY':
+      rule.freq = 'MONTHLY';
+      monthly();
+      break;
+    case 'YEARLY':
+      rule.freq = 'YEARLY';
+      rule.byMonth = [state.month];
+      monthly();
+      break;
+  }
+
+  if (state.end === 'count') rule.count = Math.max(1, state.count || 1);
+  if (state.end === 'until' && state.until) rule.until = state.until;
+  return rule;
+}
+
+interface RecurrenceRuleBuilderProps {
+  rrule: string;
+  exdates: string[];
+  startDate?: string;
+  onChange: (rrule: string, exdates: string[]) => void;
+  disabled?: boolean;
+}
+
+export default function RecurrenceRuleBuilder({ rrule, exdates, startDate, onChange, disabled }: RecurrenceRuleBuilderProps) {
+  const [state, setState] = useState<BuilderState>(() => initialState(startDate));
+  const [mode, setMode] = useState<'builder' | 'text'>('builder');
+  const [ruleText, setRuleText] = useState(rrule);
+
+  const update = (patch: Partial<BuilderState>) => {
+    const next = { ...state, ...patch };
+    setState(next);
+    const value = stringifyRRule(buildRule(next));
+    setRuleText(value);
+    onChange(value, exdates);
+  };
+
+  // Parsing errors are shown inline; the last valid rule stays in the form
+  const parsed = useMemo(() => {
+    try {
+      return { rule: parseRRule(mode === 'text' ? ruleText : rrule), error: null };
+    } catch (error) {
+      return { rule: null, error: error instanceof RRuleError ? error.message : 'Invalid rule' };
+    }
+  }, [mode, ruleText, rrule]);
+
+  const preview = useMemo(() => {
+    if (!parsed.rule || !startDate) return [];
+    return listOccurrences(parsed.rule, startDate, { exdates, limit: PREVIEW_COUNT });
+  }, [parsed.rule, startDate, exdates]);
+
+  const setExdates = (next: string[]) => onChange(rrule, Array.from(new Set(next)).sort());
+  const formatDate = (date: string) => format(parseISO(date), 'EEE, MMM d, yyyy');
+
+  const monthlyFields = (
+    <div className="flex flex-wrap items-center gap-2">
+      <Select
+        value={state.monthlyMode}
+        onValueChange={(value) => update({ monthlyMode: value as BuilderState['monthlyMode'] })}
+        disabled={disabled}
+      >
+        <SelectTrigger className="w-40">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value="day">On day</SelectItem>
+          <SelectItem value="weekday">On the</SelectItem>
+        </SelectContent>
+      </Select>
+      {state.monthlyMode === 'day' ? (
+        <Select value={String(state.monthDay)} onValueChange={(value) => update({ monthDay: parseInt(value) })} disabled={disabled}>
+          <SelectTrigger className="w-32">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {Array.from({ length: 31 }, (_, i) => i + 1).map(day => (
+              <SelectItem key={day} value={String(day)}>{day}</SelectItem>
+            ))}
+            <SelectItem value="-1">Last day</SelectItem>
+          </SelectContent>
+        </Select>
+      ) : (
+        <>
+          <Select value={String(state.ordinal)} onValueChange={(value) => update({ ordinal: parseInt(value) })} disabled={disabled}>
+            <SelectTrigger className="w-28">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {ORDINALS.map(({ value, label }) => (
+                <SelectItem key={value} value={String(value)}>{label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={String(state.weekday)} onValueChange={(value) => update({ weekday: parseInt(value) })} disabled={disabled}>
+            <SelectTrigger className="w-32">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {WEEKDAY_NAMES.map((name, index) => (
+                <SelectItem key={name} value={String(index)}>{name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </>
+      )}
+    </div>
+  );
+
+  return (
+    <div className="space-y-4">
+      {mode === 'builder' ? (
+        <>
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Repeat</Label>
+              <Select
+                value={state.frequency}
+                onValueChange={(value) => update({ frequency: value as BuilderFrequency })}
+                disabled={disabled}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="DAILY">Daily</SelectItem>
+                  <SelectItem value="WEEKDAYS">Every weekday (Mon–Fri)</SelectItem>
+                  <SelectItem value="WEEKLY">Weekly</SelectItem>
+                  <SelectItem value="MONTHLY">Monthly</SelectItem>
+                  <SelectItem value="YEARLY">Yearly</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Every</Label>
+              <div className="flex items-center gap-2">
+                <Input
+                  type="number"
+                  min="1"
+                  value={state.interval}
+                  onChange={(e) => update({ interval: parseInt(e.target.value) || 1 })}
+                  disabled={disabled}
+                />
+                <span className="text-sm text-gray-500 whitespace-nowrap">{UNIT_LABELS[state.frequency]}</span>
+              </div>
+            </div>
+          </div>
+
+          {state.frequency === 'WEEKLY' && (
+            <div className="space-y-2">
+              <Label>Repeat on</Label>
+              <div className="flex flex-wrap gap-1">
+                {WEEKDAY_NAMES.map((name, index) => {
+                  const selected = state.weekdays.includes(index);
+                  return (
+                    <Button
+                      key={name}
+                      type="button"
+                      variant={selected ? 'default' : 'outline'}
+                      size="sm"
+                      className="h-8 w-11 px-0"
+                      disabled={disabled}
+                      onClick={() => update({
+                        weekdays: selected ? state.weekdays.filter(day => day !== index) : [...state.weekdays, index],
+                      })}
+                    >
+                      {name.slice(0, 3)}
+                    </Button>
+                  );
+                })}
+              </div>
+            </div>
+          )}
+
+          {state.frequency === 'MONTHLY' && monthlyFields}
+
+          {state.frequency === 'YEARLY' && (
+            <div className="space-y-2">
+              <div className="flex items-center gap-2">
+                <span className="text-sm text-gray-600">In</span>
+                <Select value={String(state.month)} onValueChange={(value) => update({ month: parseInt(value) })} disabled={disabled}>
+                  <SelectTrigger className="w-40">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {MONTH_NAMES.map((name, index) => (
+                      <SelectItem key={name} value={String(index + 1)}>{name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              {monthlyFields}
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label>Ends</Label>
+            <div className="flex flex-wrap items-center gap-2">
+              <Select value={state.end} onValueChange={(value) => update({ end: value as BuilderState['end'] })} disabled={disabled}>
+                <SelectTrigger className="w-40">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="never">Never</SelectItem>
+                  <SelectItem value="count">After</SelectItem>
+                  <SelectItem value="until">On date</SelectItem>
+                </SelectContent>
+              </Select>
+              {state.end === 'count' && (
+                <>
+                  <Input
+                    type="number"
+                    min="1"
+                    className="w-24"
+                    value={state.count}
+                    onChange={(e) => update({ count: parseInt(e.target.value) || 1 })}
+                    disabled={disabled}
+                  />
+                  <span className="text-sm text-gray-500">occurrences</span>
+                </>
+              )}
+              {state.end === 'until' && (
+                <Input
+                  type="date"
+                  className="w-44"
+                  value={state.until}
+                  onChange={(e) => update({ until: e.target.value })}
+                  disabled={disabled}
+                />
+              )}
+            </div>
+          </div>
+        </>
+      ) : (
+        <div className="space-y-2">
+          <Label>RRULE</Label>
+          <Input
+            value={ruleText}
+            placeholder="FREQ=MONTHLY;BYDAY=-1FR"
+            className="font-mono text-sm"
+            onChange={(e) => {
+              setRuleText(e.target.value);
+              try {
+                onChange(stringifyRRule(parseRRule(e.target.value)), exdates);
+              } catch {
+                // Shown below; keep the last valid rule until this one parses
+              }
+            }}
+            disabled={disabled}
+          />
+          <p className="text-xs text-gray-500">iCalendar (RFC 5545) syntax, e.g. FREQ=MONTHLY;BYDAY=2TU or FREQ=WEEKLY;BYDAY=MO,WE,FR</p>
+        </div>
+      )}
+
+      <button
+        type="button"
+        className="text-xs text-primary hover:underline"
+        onClick={() => {
+          // Switching back discards hand-written parts the builder can't show
+          if (mode === 'text') update({});
+          setMode(mode === 'builder' ? 'text' : 'builder');
+        }}
+        disabled={disabled}
+      >
+        {mode === 'builder' ? 'Edit as RRULE' : 'Back to simple editor'}
+      </button>
+
+      <div className="rounded-md bg-gray-50 p-3 space-y-2">
+        {parsed.error ? (
+          <p className="text-sm text-red-600">{parsed.error}</p>
+        ) : parsed.rule && (
+          <p className="text-sm font-medium text-gray-700">{describeRRule(parsed.rule)}</p>
+        )}
+        {!startDate ? (
+          <p className="text-xs text-gray-500">Pick a due date to preview the upcoming occurrences.</p>
+        ) : preview.length === 0 && !parsed.error ? (
+          <p className="text-xs text-gray-500">This rule has no occurrences on or after the due date.</p>
+        ) : (
+          <ul className="space-y-1">
+            {preview.map(date => (
+              <li key={date} className="flex items-center justify-between text-sm text-gray-600">
+                {formatDate(date)}
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  className="h-6 px-2 text-xs"
+                  title="Skip this occurrence"
+                  disabled={disabled}
+                  onClick={() => setExdates([...exdates, date])}
+                >
+                  <CalendarX className="h-3 w-3 mr-1" />
+                  Skip
+                </Button>
+              </li>
+            ))}
+          </ul>
+        )}
+        {exdates.length > 0 && (
+          <div className="flex flex-wrap items-center gap-1 pt-1">
+            <span className="text-xs text-gray-500">Skipped:</span>
+            {exdates.map(date => (
+              <Badge key={date} variant="outline" className="text-xs gap-1">
+                {formatDate(date)}
+                <button type="button" onClick={() => setExdates(exdates.filter(d => d !== date))} disabled={disabled}>
+                  <X className="h-3 w-3" />
+                </button>
+              </Badge>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,47 @@
+import type { RecurrenceScope } from "@shared/schema";
+
+const LABELS: Record<'edit' | 'delete', Record<RecurrenceScope, string>> = {
+  edit: {
+    this: "Only this occurrence",
+    following: "This and all following occurrences",
+    all: "All occurrences in the series",
+  },
+  delete: {
+    this: "Delete only this occurrence",
+    following: "Delete this and all following occurrences",
+    all: "Delete the whole series (past occurrences are kept as ordinary tasks)",
+  },
+};
+
+interface RecurrenceScopeOptionsProps {
+  action: 'edit' | 'delete';
+  value: RecurrenceScope;
+  onChange: (scope: RecurrenceScope) => void;
+}
+
+// "This / this and following / all" choice shown when editing or deleting an
+// instance of a recurring series
+export default function RecurrenceScopeOptions({ action, value, onChange }: RecurrenceScopeOptionsProps) {
+  return (
+    <div className="mt-4 p-3 bg-amber-50 border border-amber-200 rounded-lg">
+      <p className="text-sm font-medium text-amber-800 mb-2">
+        This is a recurring task
+      </p>
+      <div className="space-y-2">
+        {(Object.keys(LABELS[action]) as RecurrenceScope[]).map((scope) => (
+          <label key={scope} className="flex items-center">
+            <input
+              type="radio"
+              name={`recurrenceScope-${action}`}
+              value={scope}
+              checked={value === scope}
+              onChange={() => onChange(scope)}
+              className="mr-2"
+            />
+            <span className="text-sm text-gray-700">{LABELS[action][scope]}</span>
+          </label>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -10,7 +10,8 @@ type ViewMode =
   | "project"
   | "category"
   | "team"
-  | "kanban";
+  | "kanban"
+  | "timeline";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import {
@@ -46,6 +47,7 @@ import {
   Users,
   Edit2,
   Home,
+  Clock,
 } from "lucide-react";
 
 interface SidebarProps {
@@ -126,6 +128,7 @@ export default function Sidebar({
     { id: "home", label: "Home", icon: Home },
     { id: "chat", label: "Chat", icon: MessageSquare },
     { id: "vault", label: "Vault", icon: Archive },
+    { id: "timesheet", label: "Timesheet", icon: Clock },
   ];
 
   return (
@@ -194,6 +197,16 @@ export default function Sidebar({
                         {item.label}
                       </Button>
                     </Link>
+                  ) : item.id === "timesheet" ? (
+                    <Link href={`/workspace/${currentWorkspaceId}/timesheet`}>
+                      <Button
+                        variant="ghost"
+                        className="w-full justify-start text-sm font-medium text-gray-700 hover:bg-gray-100"
+                      >
+                        <Icon className="h-4 w-4 mr-3" />
+                        {item.label}
+                      </Button>
+                    </Link>
                   ) : (
                     <Button
                       variant={isActive ? "default" : "ghost"}
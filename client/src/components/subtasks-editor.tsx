@@ -0,0 +1,195 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, getApiErrorMessage } from "@/lib/queryClient";
+import { ArrowDown, ArrowUp, ListChecks, X } from "lucide-react";
+import type { Subtask } from "@shared/schema";
+
+interface SubtasksEditorProps {
+  task: any;
+  workspaceId: number | null;
+  members: any[];
+}
+
+export default function SubtasksEditor({ task, workspaceId, members }: SubtasksEditorProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [newTitle, setNewTitle] = useState("");
+
+  const subtasksKey = [`/api/tasks/${task.id}/subtasks`];
+
+  const { data: subtasks = [] } = useQuery<Subtask[]>({
+    queryKey: subtasksKey,
+  });
+
+  const completedCount = subtasks.filter(subtask => subtask.status === 'completed').length;
+
+  const invalidateSubtasks = () => {
+    queryClient.invalidateQueries({ queryKey: subtasksKey });
+    queryClient.invalidateQueries({ queryKey: [`/api/workspaces/${workspaceId}/subtask-progress`] });
+  };
+
+  const showError = (fallback: string) => (error: Error) => {
+    toast({
+      title: "Error",
+      description: getApiErrorMessage(error, fallback),
+      variant: "destructive",
+    });
+  };
+
+  const addSubtaskMutation = useMutation({
+    mutationFn: async () => {
+      return await apiRequest("POST", `/api/tasks/${task.id}/subtasks`, { title: newTitle.trim() });
+    },
+    onSuccess: () => {
+      invalidateSubtasks();
+      setNewTitle("");
+    },
+    onError: showError("Failed to add subtask"),
+  });
+
+  const updateSubtaskMutation = useMutation({
+    mutationFn: async ({ id, updates }: { id: number; updates: Partial<Subtask> }) => {
+      return await apiRequest("PATCH", `/api/subtasks/${id}`, updates);
+    },
+    onSuccess: invalidateSubtasks,
+    onError: showError("Failed to update subtask"),
+  });
+
+  const deleteSubtaskMutation = useMutation({
+    mutationFn: async (id: number) => {
+      return await apiRequest("DELETE", `/api/subtasks/${id}`);
+    },
+    onSuccess: invalidateSubtasks,
+    onError: showError("Failed to delete subtask"),
+  });
+
+  const reorderMutation = useMutation({
+    mutationFn: async (subtaskIds: number[]) => {
+      return await apiRequest("PUT", `/api/tasks/${task.id}/subtasks/order`, { subtaskIds });
+    },
+    onSuccess: invalidateSubtasks,
+    onError: showError("Failed to reorder subtasks"),
+  });
+
+  const moveSubtask = (index: number, offset: number) => {
+    const ids = subtasks.map(subtask => subtask.id);
+    const target = index + offset;
+    if (target < 0 || target >= ids.length) return;
+    [ids[index], ids[target]] = [ids[target], ids[index]];
+    reorderMutation.mutate(ids);
+  };
+
+  return (
+    <div className="space-y-2">
+      <Label className="flex items-center gap-1">
+        <ListChecks className="h-4 w-4" />
+        Subtasks
+        {subtasks.length > 0 && (
+          <span className="text-xs text-gray-500 ml-1">{completedCount}/{subtasks.length}</span>
+        )}
+      </Label>
+
+      {subtasks.length > 0 && (
+        <ul className="space-y-1">
+          {subtasks.map((subtask, index) => (
+            <li key={subtask.id} className="flex items-center gap-2 text-sm bg-gray-50 rounded px-2 py-1">
+              <Checkbox
+                checked={subtask.status === 'completed'}
+                onCheckedChange={(checked) => updateSubtaskMutation.mutate({
+                  id: subtask.id,
+                  updates: { status: checked ? 'completed' : 'todo' },
+                })}
+              />
+              <span className={`flex-1 ${subtask.status === 'completed' ? 'line-through text-gray-400' : 'text-gray-700'}`}>
+                {subtask.title}
+              </span>
+              <Select
+                value={subtask.assignedMemberId?.toString() || "none"}
+                onValueChange={(value) => updateSubtaskMutation.mutate({
+                  id: subtask.id,
+                  updates: { assignedMemberId: value === "none" ? null : parseInt(value) },
+                })}
+              >
+                <SelectTrigger className="h-7 w-32 text-xs">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">Unassigned</SelectItem>
+                  {members.map((member) => (
+                    <SelectItem key={member.id} value={member.id.toString()}>
+                      {member.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                className="h-6 w-6 p-0"
+                disabled={index === 0 || reorderMutation.isPending}
+                onClick={() => moveSubtask(index, -1)}
+              >
+                <ArrowUp className="h-3 w-3" />
+              </Button>
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                className="h-6 w-6 p-0"
+                disabled={index === subtasks.length - 1 || reorderMutation.isPending}
+                onClick={() => moveSubtask(index, 1)}
+              >
+                <ArrowDown className="h-3 w-3" />
+              </Button>
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                className="h-6 w-6 p-0"
+                onClick={() => deleteSubtaskMutation.mutate(subtask.id)}
+              >
+                <X className="h-3 w-3" />
+              </Button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="flex gap-2">
+        <Input
+          value={newTitle}
+          placeholder="Add a subtask"
+          onChange={(e) => setNewTitle(e.target.value)}
+          onKeyDown={(e) => {
+            // Enter would otherwise submit the surrounding task form
+            if (e.key === 'Enter') {
+              e.preventDefault();
+              if (newTitle.trim()) addSubtaskMutation.mutate();
+            }
+          }}
+        />
+        <Button
+          type="button"
+          variant="outline"
+          disabled={!newTitle.trim() || addSubtaskMutation.isPending}
+          onClick={() => addSubtaskMutation.mutate()}
+        >
+          Add
+        </Button>
+      </div>
+    </div>
+  );
+}
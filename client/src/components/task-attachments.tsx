@@ -0,0 +1,274 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, getApiErrorMessage } from "@/lib/queryClient";
+import { File as FileIcon, Paperclip, Upload, X } from "lucide-react";
+import { FOLDER_MIME_TYPE, type File as VaultFile, type TaskAttachment } from "@shared/schema";
+
+// Uploads into the vault and links the file to the task, or to one of its comments
+export async function uploadTaskAttachment(taskId: number, file: File, commentId?: number): Promise<TaskAttachment> {
+  const formData = new FormData();
+  formData.append('file', file);
+  if (commentId) formData.append('commentId', commentId.toString());
+
+  const response = await fetch(`/api/tasks/${taskId}/attachments`, {
+    method: 'POST',
+    body: formData,
+    credentials: 'include',
+  });
+  if (!response.ok) {
+    // Same shape as apiRequest errors so getApiErrorMessage can read it
+    throw new Error(`${response.status}: ${await response.text()}`);
+  }
+  return response.json();
+}
+
+export const attachmentDownloadUrl = (workspaceId: number, attachment: TaskAttachment) =>
+  `/api/workspaces/${workspaceId}/files/${attachment.fileId}/download`;
+
+export function useInvalidateAttachments(workspaceId: number | null) {
+  const queryClient = useQueryClient();
+  return (taskId: number) => {
+    queryClient.invalidateQueries({ queryKey: [`/api/tasks/${taskId}/attachments`] });
+    queryClient.invalidateQueries({ queryKey: [`/api/workspaces/${workspaceId}/attachment-counts`] });
+    queryClient.invalidateQueries({ queryKey: [`/api/workspaces/${workspaceId}/files`] });
+  };
+}
+
+interface AttachmentDropzoneProps {
+  onFiles: (files: File[]) => void;
+  disabled?: boolean;
+  compact?: boolean;
+}
+
+export function AttachmentDropzone({ onFiles, disabled, compact }: AttachmentDropzoneProps) {
+  const [isDragging, setIsDragging] = useState(false);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const handleFiles = (fileList: FileList | null) => {
+    if (!disabled && fileList && fileList.length > 0) {
+      onFiles(Array.from(fileList));
+    }
+  };
+
+  return (
+    <div
+      className={`border-2 border-dashed rounded-md text-center text-sm cursor-pointer transition-colors ${
+        compact ? 'px-2 py-1' : 'px-3 py-4'
+      } ${isDragging ? 'border-blue-400 bg-blue-50 text-blue-700' : 'border-gray-200 text-gray-500 hover:border-gray-300'} ${
+        disabled ? 'opacity-50 cursor-not-allowed' : ''
+      }`}
+      onClick={() => !disabled && inputRef.current?.click()}
+      onDragOver={(e) => {
+        e.preventDefault();
+        setIsDragging(true);
+      }}
+      onDragLeave={() => setIsDragging(false)}
+      onDrop={(e) => {
+        e.preventDefault();
+        setIsDragging(false);
+        handleFiles(e.dataTransfer.files);
+      }}
+    >
+      <input
+        ref={inputRef}
+        type="file"
+        multiple
+        className="hidden"
+        onChange={(e) => {
+          handleFiles(e.target.files);
+          e.target.value = '';
+        }}
+      />
+      <span className="inline-flex items-center gap-1">
+        <Upload className="h-4 w-4" />
+        {compact ? 'Attach files' : 'Drop files here or click to attach'}
+      </span>
+    </div>
+  );
+}
+
+interface AttachmentThumbnailProps {
+  name: string;
+  mimeType: string;
+  previewUrl?: string;
+  href?: string;
+  onRemove?: () => void;
+}
+
+export function AttachmentThumbnail({ name, mimeType, previewUrl, href, onRemove }: AttachmentThumbnailProps) {
+  const preview = mimeType.startsWith('image/') && previewUrl ? (
+    <img src={previewUrl} alt={name} className="h-16 w-16 object-cover rounded" />
+  ) : (
+    <div className="h-16 w-16 rounded bg-gray-100 flex items-center justify-center">
+      <FileIcon className="h-6 w-6 text-gray-400" />
+    </div>
+  );
+
+  return (
+    <div className="relative group w-16" title={name}>
+      {href ? (
+        <a href={href} target="_blank" rel="noreferrer">{preview}</a>
+      ) : preview}
+      <p className="text-[10px] text-gray-600 truncate mt-0.5">{name}</p>
+      {onRemove && (
+        <button
+          type="button"
+          className="absolute -top-1.5 -right-1.5 h-4 w-4 rounded-full bg-gray-700 text-white flex items-center justify-center opacity-0 group-hover:opacity-100"
+          onClick={onRemove}
+        >
+          <X className="h-3 w-3" />
+        </button>
+      )}
+    </div>
+  );
+}
+
+// Thumbnails for files picked before the task or comment they belong to exists
+export function PendingAttachments({ files, onRemove }: { files: File[]; onRemove: (index: number) => void }) {
+  const previewUrls = useMemo(() => files.map(file => URL.createObjectURL(file)), [files]);
+
+  useEffect(() => {
+    return () => previewUrls.forEach(url => URL.revokeObjectURL(url));
+  }, [previewUrls]);
+
+  if (files.length === 0) return null;
+
+  return (
+    <div className="flex flex-wrap gap-2">
+      {files.map((file, index) => (
+        <AttachmentThumbnail
+          key={`${file.name}-${index}`}
+          name={file.name}
+          mimeType={file.type}
+          previewUrl={previewUrls[index]}
+          onRemove={() => onRemove(index)}
+        />
+      ))}
+    </div>
+  );
+}
+
+interface AttachmentListProps {
+  attachments: TaskAttachment[];
+  workspaceId: number;
+  onRemove?: (attachment: TaskAttachment) => void;
+}
+
+export function AttachmentList({ attachments, workspaceId, onRemove }: AttachmentListProps) {
+  if (attachments.length === 0) return null;
+
+  return (
+    <div className="flex flex-wrap gap-2">
+      {attachments.map((attachment) => {
+        const url = attachmentDownloadUrl(workspaceId, attachment);
+        return (
+          <AttachmentThumbnail
+            key={attachment.id}
+            name={attachment.fileName}
+            mimeType={attachment.mimeType}
+            previewUrl={`${url}?inline=true`}
+            href={`${url}?inline=true`}
+            onRemove={onRemove && (() => onRemove(attachment))}
+          />
+        );
+      })}
+    </div>
+  );
+}
+
+interface TaskAttachmentsEditorProps {
+  task: any;
+  workspaceId: number | null;
+}
+
+// Attachments on the task itself; comment attachments are shown with their comment
+export default function TaskAttachmentsEditor({ task, workspaceId }: TaskAttachmentsEditorProps) {
+  const { toast } = useToast();
+  const invalidateAttachments = useInvalidateAttachments(workspaceId);
+
+  const { data: attachments = [] } = useQuery<TaskAttachment[]>({
+    queryKey: [`/api/tasks/${task.id}/attachments`],
+  });
+  const taskAttachments = attachments.filter(attachment => !attachment.commentId);
+
+  const { data: vaultFiles = [] } = useQuery<VaultFile[]>({
+    queryKey: [`/api/workspaces/${workspaceId}/files`],
+    enabled: !!workspaceId,
+  });
+  const attachableFiles = vaultFiles.filter(file =>
+    file.mimeType !== FOLDER_MIME_TYPE && !taskAttachments.some(attachment => attachment.fileId === file.id));
+
+  const showError = (fallback: string) => (error: Error) => {
+    toast({
+      title: "Error",
+      description: getApiErrorMessage(error, fallback),
+      variant: "destructive",
+    });
+  };
+
+  const uploadMutation = useMutation({
+    mutationFn: async (files: File[]) => {
+      for (const file of files) {
+        await uploadTaskAttachment(task.id, file);
+      }
+    },
+    onSettled: () => invalidateAttachments(task.id),
+    onError: showError("Failed to upload attachment"),
+  });
+
+  // Links a file that's already in the vault
+  const attachMutation = useMutation({
+    mutationFn: async (fileId: number) => {
+      return await apiRequest("POST", `/api/tasks/${task.id}/attachments`, { fileId });
+    },
+    onSuccess: () => invalidateAttachments(task.id),
+    onError: showError("Failed to attach file"),
+  });
+
+  const removeMutation = useMutation({
+    mutationFn: async (attachment: TaskAttachment) => {
+      return await apiRequest("DELETE", `/api/attachments/${attachment.id}`);
+    },
+    onSuccess: () => invalidateAttachments(task.id),
+    onError: showError("Failed to remove attachment"),
+  });
+
+  return (
+    <div className="space-y-2">
+      <Label className="flex items-center gap-1">
+        <Paperclip className="h-4 w-4" />
+        Attachments
+        {taskAttachments.length > 0 && (
+          <span className="text-xs text-gray-500 ml-1">{taskAttachments.length}</span>
+        )}
+      </Label>
+      {workspaceId && (
+        <AttachmentList
+          attachments={taskAttachments}
+          workspaceId={workspaceId}
+          onRemove={(attachment) => removeMutation.mutate(attachment)}
+        />
+      )}
+      <AttachmentDropzone
+        onFiles={(files) => uploadMutation.mutate(files)}
+        disabled={uploadMutation.isPending}
+      />
+      {attachableFiles.length > 0 && (
+        <Select value="" onValueChange={(fileId) => attachMutation.mutate(parseInt(fileId))} disabled={attachMutation.isPending}>
+          <SelectTrigger className="h-8 text-sm">
+            <SelectValue placeholder="Attach a file from the vault" />
+          </SelectTrigger>
+          <SelectContent>
+            {attachableFiles.map(file => (
+              <SelectItem key={file.id} value={file.id.toString()}>{file.path}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      )}
+      {uploadMutation.isPending && <p className="text-xs text-gray-500">Uploading...</p>}
+    </div>
+  );
+}
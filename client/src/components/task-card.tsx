@@ -3,12 +3,17 @@ import { Checkbox } from "@/components/ui/checkbox";
 import { Avatar, AvatarFallback } from "@/components/ui/avatar";
 import { Button } from "@/components/ui/button";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog";
-import { User, Bot, Edit2, MessageCircle, Trash2 } from "lucide-react";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { User, Bot, Edit2, MessageCircle, Trash2, ListChecks, Play, Square, Clock, Timer, Paperclip } from "lucide-react";
 import TaskCommentsModal from "./task-comments-modal";
-import { useState } from "react";
+import RecurrenceScopeOptions from "./recurrence-scope-options";
+import type { RecurrenceScope } from "@shared/schema";
+import { useState, useEffect } from "react";
 import { useToast } from "@/hooks/use-toast";
-import { apiRequest } from "@/lib/queryClient";
-import { useQueryClient } from "@tanstack/react-query";
+import { apiRequest, getApiErrorMessage } from "@/lib/queryClient";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
 
 interface TaskCardProps {
   task: any;
@@ -31,10 +36,109 @@ export default function TaskCard({
 }: TaskCardProps) {
   const [isDeleting, setIsDeleting] = useState(false);
   const [showDeleteModal, setShowDeleteModal] = useState(false);
-  const [deleteType, setDeleteType] = useState<'single' | 'all'>('single');
+  const [deleteScope, setDeleteScope] = useState<RecurrenceScope>('this');
   const { toast } = useToast();
   const queryClient = useQueryClient();
 
+  // One request per workspace, shared by every card through the query cache
+  const { data: subtaskProgress = {} } = useQuery<Record<number, { total: number; completed: number }>>({
+    queryKey: [`/api/workspaces/${workspaceId}/subtask-progress`],
+    enabled: !!workspaceId,
+  });
+  const subtasks = subtaskProgress[task.id];
+
+  const { data: attachmentCounts = {} } = useQuery<Record<number, number>>({
+    queryKey: [`/api/workspaces/${workspaceId}/attachment-counts`],
+    enabled: !!workspaceId,
+  });
+  const attachmentCount = attachmentCounts[task.id] || 0;
+
+  // The caller's running timer, likewise shared by every card in the workspace
+  const { data: runningTimer } = useQuery<any>({
+    queryKey: [`/api/workspaces/${workspaceId}/timer`],
+    enabled: !!workspaceId,
+  });
+  const isTiming = runningTimer?.taskId === task.id;
+  const [now, setNow] = useState(() => Date.now());
+  const [isTimerPending, setIsTimerPending] = useState(false);
+  const [showLogTimeModal, setShowLogTimeModal] = useState(false);
+  const [logMinutes, setLogMinutes] = useState("");
+  const [logDate, setLogDate] = useState(() => new Date().toISOString().split('T')[0]);
+  const [logNote, setLogNote] = useState("");
+
+  useEffect(() => {
+    if (!isTiming) return;
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [isTiming]);
+
+  const formatElapsed = (startedAt: string) => {
+    const seconds = Math.max(Math.floor((now - new Date(startedAt).getTime()) / 1000), 0);
+    const hours = Math.floor(seconds / 3600);
+    const minutes = Math.floor((seconds % 3600) / 60);
+    const secs = seconds % 60;
+    const pad = (value: number) => value.toString().padStart(2, '0');
+    return hours > 0 ? `${hours}:${pad(minutes)}:${pad(secs)}` : `${minutes}:${pad(secs)}`;
+  };
+
+  const refreshTimeTracking = () => {
+    queryClient.invalidateQueries({ queryKey: [`/api/workspaces/${workspaceId}/timer`] });
+    queryClient.invalidateQueries({ queryKey: [`/api/workspaces/${workspaceId}/tasks`] });
+    queryClient.invalidateQueries({ queryKey: [`/api/tasks/${task.id}/time-entries`] });
+  };
+
+  const handleTimerClick = async (e: React.MouseEvent) => {
+    e.stopPropagation();
+    setIsTimerPending(true);
+    try {
+      if (isTiming) {
+        await apiRequest('POST', `/api/time-entries/${runningTimer.id}/stop`);
+      } else {
+        await apiRequest('POST', `/api/tasks/${task.id}/timer/start`);
+        setNow(Date.now());
+      }
+      refreshTimeTracking();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: getApiErrorMessage(error as Error, isTiming ? "Failed to stop timer" : "Failed to start timer"),
+        variant: "destructive",
+      });
+    } finally {
+      setIsTimerPending(false);
+    }
+  };
+
+  const submitLoggedTime = async () => {
+    const minutes = parseInt(logMinutes);
+    if (!minutes || minutes <= 0) return;
+
+    try {
+      await apiRequest('POST', `/api/tasks/${task.id}/time-entries`, {
+        minutes,
+        date: logDate,
+        note: logNote.trim() || undefined,
+      });
+      toast({
+        title: "Time logged",
+        description: `${minutes} min logged on "${task.title}".`,
+      });
+      refreshTimeTracking();
+      setShowLogTimeModal(false);
+      setLogMinutes("");
+      setLogNote("");
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: getApiErrorMessage(error as Error, "Failed to log time"),
+        variant: "destructive",
+      });
+    }
+  };
+
+  const actualHours = task.actualHours ? parseFloat(task.actualHours) : 0;
+  const estimatedHours = task.estimatedHours ? parseFloat(task.estimatedHours) : 0;
+
   const handleEditClick = (e: React.MouseEvent) => {
     e.stopPropagation();
     if (onEdit) {
@@ -60,13 +164,14 @@ export default function TaskCard({
     setIsDeleting(true);
     
     try {
-      if (task.taskRecurrenceId && deleteType === 'all') {
-        // Delete all future recurring tasks
-        await apiRequest('DELETE', `/api/task-recurrences/${task.taskRecurrenceId}`);
+      if (task.taskRecurrenceId && deleteScope !== 'this') {
+        await apiRequest('DELETE', `/api/tasks/${task.id}?scope=${deleteScope}`);
         
         toast({
           title: "Recurring tasks deleted",
-          description: `This instance and all future recurring instances of "${task.title}" have been deleted.`,
+          description: deleteScope === 'all'
+            ? `The recurring series "${task.title}" has been deleted.`
+            : `This and all following occurrences of "${task.title}" have been deleted.`,
         });
       } else {
         // Delete single task
@@ -140,6 +245,14 @@ export default function TaskCard({
               {task.description}
             </p>
           )}
+          {subtasks && subtasks.total > 0 && (
+            <div className="mt-2 h-1 w-full rounded-full bg-gray-200 overflow-hidden">
+              <div
+                className="h-full bg-green-500 transition-all"
+                style={{ width: `${Math.round((subtasks.completed / subtasks.total) * 100)}%` }}
+              />
+            </div>
+          )}
           <div className="flex items-center justify-between mt-2">
             <div className="flex items-center space-x-2 flex-wrap">
               {task.priority > 0 && (
@@ -150,6 +263,36 @@ export default function TaskCard({
                   P{task.priority}
                 </Badge>
               )}
+              {subtasks && subtasks.total > 0 && (
+                <Badge
+                  variant="outline"
+                  className={`text-xs px-1 py-0 ${subtasks.completed === subtasks.total ? 'bg-green-50 text-green-700' : 'bg-gray-50 text-gray-600'}`}
+                >
+                  <ListChecks className="h-2.5 w-2.5 mr-0.5" />
+                  {subtasks.completed}/{subtasks.total}
+                </Badge>
+              )}
+              {attachmentCount > 0 && (
+                <Badge variant="outline" className="text-xs px-1 py-0 bg-gray-50 text-gray-600">
+                  <Paperclip className="h-2.5 w-2.5 mr-0.5" />
+                  {attachmentCount}
+                </Badge>
+              )}
+              {isTiming && (
+                <Badge variant="outline" className="text-xs px-1 py-0 bg-red-50 text-red-700 tabular-nums">
+                  <Timer className="h-2.5 w-2.5 mr-0.5" />
+                  {formatElapsed(runningTimer.startedAt)}
+                </Badge>
+              )}
+              {actualHours > 0 && (
+                <Badge
+                  variant="outline"
+                  className={`text-xs px-1 py-0 ${estimatedHours > 0 && actualHours > estimatedHours ? 'bg-red-50 text-red-700' : 'bg-gray-50 text-gray-600'}`}
+                >
+                  <Clock className="h-2.5 w-2.5 mr-0.5" />
+                  {actualHours}h{estimatedHours > 0 ? ` / ${estimatedHours}h` : ''}
+                </Badge>
+              )}
               {task.assignedMemberId && task.assignedMember && (
                 <Badge variant="outline" className="text-xs px-1 py-0 bg-blue-50 text-blue-700">
                   {task.assignedMember.memberType === 'agent' ? (
@@ -199,6 +342,32 @@ export default function TaskCard({
               </Avatar>
             </div>
           )}
+          {workspaceId && (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={handleTimerClick}
+              disabled={isTimerPending}
+              title={isTiming ? "Stop timer" : "Start timer"}
+              className={`h-6 w-6 p-0 ${isTiming ? 'text-red-600 opacity-100' : 'opacity-60 hover:opacity-100'}`}
+            >
+              {isTiming ? <Square className="h-3 w-3" /> : <Play className="h-3 w-3" />}
+            </Button>
+          )}
+          {workspaceId && (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={(e) => {
+                e.stopPropagation();
+                setShowLogTimeModal(true);
+              }}
+              title="Log time"
+              className="h-6 w-6 p-0 opacity-60 hover:opacity-100"
+            >
+              <Clock className="h-3 w-3" />
+            </Button>
+          )}
           {workspaceId && (
             <TaskCommentsModal 
               task={task}
@@ -239,6 +408,60 @@ export default function TaskCard({
       </div>
     </div>
 
+    {/* Log Time Modal */}
+    <Dialog open={showLogTimeModal} onOpenChange={setShowLogTimeModal}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Log Time</DialogTitle>
+        </DialogHeader>
+        <div className="space-y-4 py-2">
+          <p className="text-sm text-gray-600">
+            Record time spent on <span className="font-semibold">"{task.title}"</span>.
+          </p>
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-1">
+              <Label htmlFor={`log-minutes-${task.id}`}>Minutes</Label>
+              <Input
+                id={`log-minutes-${task.id}`}
+                type="number"
+                min={1}
+                max={1440}
+                value={logMinutes}
+                onChange={(e) => setLogMinutes(e.target.value)}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor={`log-date-${task.id}`}>Date</Label>
+              <Input
+                id={`log-date-${task.id}`}
+                type="date"
+                value={logDate}
+                onChange={(e) => setLogDate(e.target.value)}
+              />
+            </div>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor={`log-note-${task.id}`}>Note</Label>
+            <Textarea
+              id={`log-note-${task.id}`}
+              rows={2}
+              placeholder="What did you work on?"
+              value={logNote}
+              onChange={(e) => setLogNote(e.target.value)}
+            />
+          </div>
+        </div>
+        <DialogFooter className="flex justify-end space-x-2">
+          <Button variant="outline" onClick={() => setShowLogTimeModal(false)}>
+            Cancel
+          </Button>
+          <Button onClick={submitLoggedTime} disabled={!parseInt(logMinutes) || parseInt(logMinutes) <= 0}>
+            Log Time
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+
     {/* Delete Confirmation Modal */}
     <Dialog open={showDeleteModal} onOpenChange={setShowDeleteModal}>
       <DialogContent className="sm:max-w-md">
@@ -252,35 +475,7 @@ export default function TaskCard({
           </p>
           
           {task.taskRecurrenceId && (
-            <div className="mt-4 p-3 bg-amber-50 border border-amber-200 rounded-lg">
-              <p className="text-sm font-medium text-amber-800 mb-2">
-                This is a recurring task
-              </p>
-              <div className="space-y-2">
-                <label className="flex items-center">
-                  <input
-                    type="radio"
-                    name="deleteType"
-                    value="single"
-                    checked={deleteType === 'single'}
-                    onChange={(e) => setDeleteType(e.target.value as 'single' | 'all')}
-                    className="mr-2"
-                  />
-                  <span className="text-sm text-gray-700">Delete only this instance</span>
-                </label>
-                <label className="flex items-center">
-                  <input
-                    type="radio"
-                    name="deleteType"
-                    value="all"
-                    checked={deleteType === 'all'}
-                    onChange={(e) => setDeleteType(e.target.value as 'single' | 'all')}
-                    className="mr-2"
-                  />
-                  <span className="text-sm text-gray-700">Delete this instance and all future recurring instances</span>
-                </label>
-              </div>
-            </div>
+            <RecurrenceScopeOptions action="delete" value={deleteScope} onChange={setDeleteScope} />
           )}
         </div>
         <DialogFooter className="flex justify-end space-x-2">
@@ -296,7 +491,7 @@ export default function TaskCard({
             onClick={confirmDelete}
             disabled={isDeleting}
           >
-            {isDeleting ? "Deleting..." : (deleteType === 'all' && task.taskRecurrenceId ? "Delete All" : "Delete Task")}
+            {isDeleting ? "Deleting..." : (deleteScope !== 'this' && task.taskRecurrenceId ? "Delete Occurrences" : "Delete Task")}
           </Button>
         </DialogFooter>
       </DialogContent>
@@ -13,7 +13,16 @@ import {
 } from "@/components/ui/dialog";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { Separator } from "@/components/ui/separator";
-import { apiRequest } from "@/lib/queryClient";
+import { apiRequest, getApiErrorMessage } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import {
+  AttachmentDropzone,
+  AttachmentList,
+  PendingAttachments,
+  uploadTaskAttachment,
+  useInvalidateAttachments,
+} from "@/components/task-attachments";
+import type { TaskAttachment } from "@shared/schema";
 
 interface TaskComment {
   id: number;
@@ -50,8 +59,11 @@ export default function TaskCommentsModal({
   const [showMentions, setShowMentions] = useState(false);
   const [mentionFilter, setMentionFilter] = useState("");
   const [cursorPosition, setCursorPosition] = useState(0);
+  const [pendingFiles, setPendingFiles] = useState<File[]>([]);
   const inputRef = useRef<HTMLInputElement>(null);
   const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const invalidateAttachments = useInvalidateAttachments(workspaceId);
 
   // Fetch task comments
   const { data: commentsData = [], isLoading } = useQuery({
@@ -67,6 +79,14 @@ export default function TaskCommentsModal({
   // Ensure comments is always an array
   const comments = Array.isArray(commentsData) ? commentsData : [];
 
+  const { data: attachments = [] } = useQuery<TaskAttachment[]>({
+    queryKey: [`/api/tasks/${task.id}/attachments`],
+    enabled: isOpen,
+  });
+  const taskAttachments = attachments.filter(attachment => !attachment.commentId);
+  const commentAttachments = (commentId: number) =>
+    attachments.filter(attachment => attachment.commentId === commentId);
+
   // Fetch workspace members for assigned user names
   const { data: membersData } = useQuery({
     queryKey: ['workspace-members', workspaceId],
@@ -171,15 +191,44 @@ export default function TaskCommentsModal({
         body: JSON.stringify({ comment, workspaceId, taggedUserIds }),
       });
       if (!response.ok) throw new Error('Failed to add comment');
-      return response.json();
+      const created = await response.json();
+
+      for (const file of pendingFiles) {
+        try {
+          await uploadTaskAttachment(task.id, file, created.id);
+        } catch (error) {
+          toast({
+            title: "Error",
+            description: getApiErrorMessage(error as Error, `Failed to attach ${file.name}`),
+            variant: "destructive",
+          });
+        }
+      }
+      return created;
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['task-comments', task.id] });
+      if (pendingFiles.length > 0) invalidateAttachments(task.id);
       setNewComment("");
+      setPendingFiles([]);
       setShowMentions(false);
     },
   });
 
+  const removeAttachmentMutation = useMutation({
+    mutationFn: async (attachment: TaskAttachment) => {
+      return await apiRequest("DELETE", `/api/attachments/${attachment.id}`);
+    },
+    onSuccess: () => invalidateAttachments(task.id),
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: getApiErrorMessage(error, "Failed to remove attachment"),
+        variant: "destructive",
+      });
+    },
+  });
+
   // Delete comment
   const deleteCommentMutation = useMutation({
     mutationFn: async (commentId: number) => {
@@ -298,6 +347,8 @@ export default function TaskCommentsModal({
                 </Badge>
               )}
             </div>
+
+            <AttachmentList attachments={taskAttachments} workspaceId={workspaceId} />
           </div>
 
           <Separator />
@@ -347,6 +398,15 @@ export default function TaskCommentsModal({
                         </div>
                       </div>
                       <p className="text-sm">{comment.comment}</p>
+                      {commentAttachments(comment.id).length > 0 && (
+                        <div className="mt-2">
+                          <AttachmentList
+                            attachments={commentAttachments(comment.id)}
+                            workspaceId={workspaceId}
+                            onRemove={(attachment) => removeAttachmentMutation.mutate(attachment)}
+                          />
+                        </div>
+                      )}
                     </div>
                   ))}
                 </div>
@@ -354,7 +414,11 @@ export default function TaskCommentsModal({
             </ScrollArea>
 
             {/* Add Comment Form */}
-            <div className="border-t pt-4 mt-4 relative">
+            <div className="border-t pt-4 mt-4 relative space-y-2">
+              <PendingAttachments
+                files={pendingFiles}
+                onRemove={(index) => setPendingFiles(files => files.filter((_, i) => i !== index))}
+              />
               <form onSubmit={handleAddComment} className="flex space-x-2">
                 <div className="flex-1 relative">
                   <Input
@@ -391,6 +455,11 @@ export default function TaskCommentsModal({
                   <Send className="h-4 w-4" />
                 </Button>
               </form>
+              <AttachmentDropzone
+                compact
+                onFiles={(files) => setPendingFiles(current => [...current, ...files])}
+                disabled={addCommentMutation.isPending}
+              />
               <div className="text-xs text-muted-foreground mt-1">
                 Type @ to mention team members and send them targeted notifications
               </div>
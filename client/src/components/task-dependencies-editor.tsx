@@ -0,0 +1,151 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, getApiErrorMessage } from "@/lib/queryClient";
+import { Link2, X } from "lucide-react";
+
+interface TaskDependenciesEditorProps {
+  task: any;
+  workspaceId: number | null;
+}
+
+const typeLabels: Record<string, string> = {
+  finish_to_start: "must finish before this starts",
+  start_to_finish: "must start before this finishes",
+};
+
+export default function TaskDependenciesEditor({ task, workspaceId }: TaskDependenciesEditorProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [predecessorId, setPredecessorId] = useState<string>("");
+  const [type, setType] = useState<string>("finish_to_start");
+
+  const { data: tasks = [] } = useQuery<any[]>({
+    queryKey: [`/api/workspaces/${workspaceId}/tasks`],
+    enabled: !!workspaceId,
+  });
+
+  const { data: dependencies = [] } = useQuery<any[]>({
+    queryKey: [`/api/workspaces/${workspaceId}/task-dependencies`],
+    enabled: !!workspaceId,
+  });
+
+  const blockers = dependencies.filter((d: any) => d.successorTaskId === task.id);
+  const tasksById = new Map(tasks.map((t: any) => [t.id, t]));
+  const candidates = tasks.filter((t: any) =>
+    t.id !== task.id && !blockers.some((d: any) => d.predecessorTaskId === t.id)
+  );
+
+  const invalidateDependencies = () => {
+    queryClient.invalidateQueries({ queryKey: [`/api/workspaces/${workspaceId}/task-dependencies`] });
+  };
+
+  const addDependencyMutation = useMutation({
+    mutationFn: async () => {
+      return await apiRequest("POST", `/api/tasks/${task.id}/dependencies`, {
+        predecessorTaskId: parseInt(predecessorId),
+        type,
+      });
+    },
+    onSuccess: () => {
+      invalidateDependencies();
+      setPredecessorId("");
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: getApiErrorMessage(error, "Failed to add dependency"),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const removeDependencyMutation = useMutation({
+    mutationFn: async (dependencyId: number) => {
+      return await apiRequest("DELETE", `/api/task-dependencies/${dependencyId}`);
+    },
+    onSuccess: invalidateDependencies,
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: getApiErrorMessage(error, "Failed to remove dependency"),
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <div className="space-y-2">
+      <Label className="flex items-center gap-1">
+        <Link2 className="h-4 w-4" />
+        Blocked By
+      </Label>
+
+      {blockers.length > 0 && (
+        <ul className="space-y-1">
+          {blockers.map((dependency: any) => {
+            const blocker: any = tasksById.get(dependency.predecessorTaskId);
+            return (
+              <li key={dependency.id} className="flex items-center justify-between text-sm bg-gray-50 rounded px-2 py-1">
+                <span className={blocker?.status === 'completed' ? 'line-through text-gray-400' : 'text-gray-700'}>
+                  {blocker?.title || `Task #${dependency.predecessorTaskId}`}
+                  <span className="text-xs text-gray-500 ml-1">{typeLabels[dependency.type]}</span>
+                </span>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  className="h-6 w-6 p-0"
+                  onClick={() => removeDependencyMutation.mutate(dependency.id)}
+                >
+                  <X className="h-3 w-3" />
+                </Button>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      <div className="flex gap-2">
+        <Select value={predecessorId} onValueChange={setPredecessorId}>
+          <SelectTrigger className="flex-1">
+            <SelectValue placeholder="Select blocking task" />
+          </SelectTrigger>
+          <SelectContent>
+            {candidates.map((candidate: any) => (
+              <SelectItem key={candidate.id} value={candidate.id.toString()}>
+                {candidate.title}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select value={type} onValueChange={setType}>
+          <SelectTrigger className="w-28">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="finish_to_start">Finish → Start</SelectItem>
+            <SelectItem value="start_to_finish">Start → Finish</SelectItem>
+          </SelectContent>
+        </Select>
+        <Button
+          type="button"
+          variant="outline"
+          disabled={!predecessorId || addDependencyMutation.isPending}
+          onClick={() => addDependencyMutation.mutate()}
+        >
+          Add
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -1,4 +1,4 @@
-import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
@@ -6,13 +6,15 @@ import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/u
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { useToast } from "@/hooks/use-toast";
-import { apiRequest } from "@/lib/queryClient";
+import { apiRequest, getApiErrorMessage } from "@/lib/queryClient";
+import { computeCriticalPath } from "@shared/dependencies";
 import TaskCard from "./task-card";
-import { Plus, Calendar, Clock, FolderOpen, ChevronLeft, ChevronRight, Users, Bot, LayoutGrid, CalendarDays } from "lucide-react";
+import TimelineView from "./timeline-view";
+import { Plus, Calendar, Clock, FolderOpen, ChevronLeft, ChevronRight, Users, Bot, LayoutGrid, CalendarDays, Lock, Route } from "lucide-react";
 import { useState } from "react";
 
 interface TimeSlotGridProps {
-  viewMode: 'day' | 'week' | 'month' | 'project' | 'category' | 'team' | 'kanban';
+  viewMode: 'day' | 'week' | 'month' | 'project' | 'category' | 'team' | 'kanban' | 'timeline';
   tasks: any[];
   workspaceId: number | null;
   onCreateTask: () => void;
@@ -177,15 +179,25 @@ export default function TimeSlotGrid({
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: [`/api/workspaces/${workspaceId}/tasks`] });
     },
-    onError: () => {
+    onError: (error: Error) => {
       toast({
         title: "Error",
-        description: "Failed to update task",
+        description: getApiErrorMessage(error, "Failed to update task"),
         variant: "destructive",
       });
     },
   });
 
+  const { data: dependencies = [] } = useQuery<any[]>({
+    queryKey: [`/api/workspaces/${workspaceId}/task-dependencies`],
+    enabled: !!workspaceId && viewMode === 'project',
+  });
+
+  const { data: subtaskProgress = {} } = useQuery<Record<number, { total: number; completed: number }>>({
+    queryKey: [`/api/workspaces/${workspaceId}/subtask-progress`],
+    enabled: !!workspaceId && viewMode === 'kanban',
+  });
+
   const handleTaskStatusChange = (taskId: number, completed: boolean) => {
     updateTaskMutation.mutate({
       taskId,
@@ -338,6 +350,7 @@ export default function TimeSlotGrid({
       case 'category':
       case 'team':
       case 'kanban':
+      case 'timeline':
         // For these views, return all filtered tasks (no date restriction)
         return baseFilteredTasks;
       
@@ -1304,6 +1317,18 @@ export default function TimeSlotGrid({
   }
 
   // Kanban View
+  if (viewMode === 'timeline') {
+    return (
+      <TimelineView
+        tasks={getFilteredTasks()}
+        workspaceId={workspaceId}
+        projects={projects}
+        selectedProjectId={selectedProjectId}
+        onEditTask={onEditTask}
+      />
+    );
+  }
+
   if (viewMode === 'kanban') {
     const filteredTasks = getDateRangeFilteredTasks();
     
@@ -1445,6 +1470,14 @@ export default function TimeSlotGrid({
             const progressPercentage = column.id === 'completed' ? 100 : 
               columnTasks.length > 0 ? Math.round((completedTasks.length / columnTasks.length) * 100) : 0;
             
+            // Roll up checklist progress across the column's tasks
+            const columnSubtasks = columnTasks.reduce((totals, task) => {
+              const progress = subtaskProgress[task.id];
+              return progress
+                ? { total: totals.total + progress.total, completed: totals.completed + progress.completed }
+                : totals;
+            }, { total: 0, completed: 0 });
+            
             return (
               <Card 
                 key={column.id}
@@ -1493,6 +1526,11 @@ export default function TimeSlotGrid({
                       >
                         {columnTasks.length} task{columnTasks.length !== 1 ? 's' : ''}
                       </Badge>
+                      {columnSubtasks.total > 0 && (
+                        <Badge variant="outline" className="text-xs">
+                          {columnSubtasks.completed}/{columnSubtasks.total} subtasks
+                        </Badge>
+                      )}
                     </div>
                   </div>
                 </CardHeader>
@@ -1655,6 +1693,20 @@ export default function TimeSlotGrid({
             const projectTasks = filteredTasks.filter(task => task.projectId === project.id);
             const completedTasks = projectTasks.filter(task => task.status === 'completed');
             const progressPercentage = projectTasks.length > 0 ? Math.round((completedTasks.length / projectTasks.length) * 100) : 0;
+
+            // Critical path is computed over the whole project, not just the visible date range
+            const allProjectTasks = tasks.filter(task => task.projectId === project.id);
+            const projectTaskIds = new Set(allProjectTasks.map(task => task.id));
+            const projectDependencies = dependencies.filter((d: any) =>
+              projectTaskIds.has(d.predecessorTaskId) && projectTaskIds.has(d.successorTaskId)
+            );
+            const criticalPath = projectDependencies.length > 0 ? computeCriticalPath(allProjectTasks, projectDependencies) : null;
+            const criticalTaskIds = new Set(criticalPath?.taskIds || []);
+            const taskTitle = (id: number) => allProjectTasks.find(task => task.id === id)?.title || `#${id}`;
+            const openBlockers = (task: any) => projectDependencies.filter((d: any) =>
+              d.successorTaskId === task.id &&
+              allProjectTasks.find(t => t.id === d.predecessorTaskId)?.status !== 'completed'
+            );
             
             const colors = [
               "bg-blue-50 border-blue-200",
@@ -1725,23 +1777,53 @@ export default function TimeSlotGrid({
                       </div>
                     </div>
                   </div>
+
+                  {criticalPath && criticalPath.taskIds.length > 0 && (
+                    <div className="mt-3 rounded-md bg-white/70 border border-red-200 p-2">
+                      <div className="flex items-center text-xs font-medium text-red-700 mb-1">
+                        <Route className="h-3 w-3 mr-1" />
+                        Critical path · {criticalPath.totalHours}h
+                      </div>
+                      <div className="flex flex-wrap items-center gap-1 text-xs text-gray-700">
+                        {criticalPath.taskIds.map((taskId, i) => (
+                          <span key={taskId} className="flex items-center">
+                            {i > 0 && <span className="mx-1 text-red-400">→</span>}
+                            <span className="px-1.5 py-0.5 rounded bg-red-50 border border-red-200">{taskTitle(taskId)}</span>
+                          </span>
+                        ))}
+                      </div>
+                    </div>
+                  )}
                 </CardHeader>
                 
                 <CardContent className="space-y-3 min-h-[200px]">
-                  {projectTasks.slice(0, getVisibleTaskCount(`project-${project.id}`, projectTasks.length)).map((task) => (
-                    <TaskCard
-                      key={task.id}
-                      task={task}
-                      onStatusChange={(completed) => handleTaskStatusChange(task.id, completed)}
-                      onEdit={onEditTask ? () => onEditTask(task) : undefined}
-                      onDelete={() => {/* Task deletion handled automatically by component */}}
-                      workspaceId={workspaceId}
-                      draggable
-                      onDragStart={(e) => {
-                        e.dataTransfer.setData("taskId", task.id.toString());
-                      }}
-                    />
-                  ))}
+                  {projectTasks.slice(0, getVisibleTaskCount(`project-${project.id}`, projectTasks.length)).map((task) => {
+                    const blockers = openBlockers(task);
+                    return (
+                      <div
+                        key={task.id}
+                        className={criticalTaskIds.has(task.id) ? 'rounded-lg ring-2 ring-red-400' : undefined}
+                      >
+                        <TaskCard
+                          task={task}
+                          onStatusChange={(completed) => handleTaskStatusChange(task.id, completed)}
+                          onEdit={onEditTask ? () => onEditTask(task) : undefined}
+                          onDelete={() => {/* Task deletion handled automatically by component */}}
+                          workspaceId={workspaceId}
+                          draggable
+                          onDragStart={(e) => {
+                            e.dataTransfer.setData("taskId", task.id.toString());
+                          }}
+                        />
+                        {blockers.length > 0 && (
+                          <div className="flex items-center text-xs text-amber-700 px-2 py-1">
+                            <Lock className="h-3 w-3 mr-1 flex-shrink-0" />
+                            Waiting on {blockers.map((d: any) => taskTitle(d.predecessorTaskId)).join(', ')}
+                          </div>
+                        )}
+                      </div>
+                    );
+                  })}
                   
                   {projectTasks.length > getVisibleTaskCount(`project-${project.id}`, projectTasks.length) && (
                     <Button
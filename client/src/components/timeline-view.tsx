@@ -0,0 +1,429 @@
+import { useState, useEffect, useRef } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { addDays, differenceInCalendarDays, format, parseISO, startOfWeek } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, getApiErrorMessage } from "@/lib/queryClient";
+import { ChevronLeft, ChevronRight, GanttChart } from "lucide-react";
+
+interface TimelineViewProps {
+  tasks: any[];
+  workspaceId: number | null;
+  projects: any[];
+  selectedProjectId?: string;
+  onEditTask?: (task: any) => void;
+}
+
+type Zoom = 'week' | 'month' | 'quarter';
+
+// Pixels per day and number of days shown for each zoom level
+const zoomLevels: Record<Zoom, { dayWidth: number; days: number; label: string }> = {
+  week: { dayWidth: 36, days: 42, label: 'Weeks' },
+  month: { dayWidth: 12, days: 120, label: 'Months' },
+  quarter: { dayWidth: 4, days: 365, label: 'Quarters' },
+};
+
+const LABEL_WIDTH = 220;
+const ROW_HEIGHT = 36;
+
+type DragMode = 'move' | 'start' | 'end';
+
+interface DragState {
+  key: string;
+  kind: 'component' | 'task';
+  mode: DragMode;
+  item: any;
+  originX: number;
+  deltaDays: number;
+}
+
+// Dates as the timeline shows them, while a save is in flight or a drag is in progress
+type DateOverride = { startDate?: string | null; endDate?: string | null; dueDate?: string | null };
+
+const toDateString = (date: Date) => format(date, 'yyyy-MM-dd');
+const shiftDate = (value: string | null | undefined, days: number) =>
+  value ? toDateString(addDays(parseISO(value), days)) : value;
+
+const componentColors: Record<string, string> = {
+  phase: 'bg-blue-500',
+  section: 'bg-teal-500',
+  milestone: 'bg-purple-500',
+};
+
+const taskMarkerColors: Record<string, string> = {
+  completed: 'bg-green-500 border-green-600',
+  in_progress: 'bg-yellow-400 border-yellow-500',
+  todo: 'bg-white border-gray-500',
+};
+
+export default function TimelineView({ tasks, workspaceId, projects, selectedProjectId = 'all', onEditTask }: TimelineViewProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const [zoom, setZoom] = useState<Zoom>('week');
+  const [rangeStart, setRangeStart] = useState<Date>(() => startOfWeek(addDays(new Date(), -7)));
+  const [drag, setDrag] = useState<DragState | null>(null);
+  const [overrides, setOverrides] = useState<Record<string, DateOverride>>({});
+  const dragRef = useRef<DragState | null>(null);
+
+  const { dayWidth, days } = zoomLevels[zoom];
+  const rangeEnd = addDays(rangeStart, days - 1);
+
+  const { data: components = [] } = useQuery<any[]>({
+    queryKey: [`/api/workspaces/${workspaceId}/components`],
+    enabled: !!workspaceId,
+  });
+
+  const { data: access } = useQuery<any>({
+    queryKey: [`/api/workspaces/${workspaceId}/access`],
+    enabled: !!workspaceId,
+  });
+  const canManageProjects = !!access?.permissions?.manageProjects;
+
+  const clearOverride = (key: string) => {
+    setOverrides(current => {
+      const { [key]: _, ...rest } = current;
+      return rest;
+    });
+  };
+
+  const updateComponentMutation = useMutation({
+    mutationFn: async ({ component, updates }: { component: any; updates: DateOverride }) => {
+      return await apiRequest("PATCH", `/api/projects/${component.projectId}/components/${component.id}`, updates);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: getApiErrorMessage(error, "Failed to reschedule component"),
+        variant: "destructive",
+      });
+    },
+    onSettled: async (_data, _error, { component }) => {
+      await Promise.all([
+        queryClient.invalidateQueries({ queryKey: [`/api/workspaces/${workspaceId}/components`] }),
+        queryClient.invalidateQueries({ queryKey: [`/api/projects/${component.projectId}/components`] }),
+      ]);
+      clearOverride(`component-${component.id}`);
+    },
+  });
+
+  const updateTaskMutation = useMutation({
+    mutationFn: async ({ task, dueDate }: { task: any; dueDate: string }) => {
+      return await apiRequest("PATCH", `/api/tasks/${task.id}`, { dueDate });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: getApiErrorMessage(error, "Failed to reschedule task"),
+        variant: "destructive",
+      });
+    },
+    onSettled: async (_data, _error, { task }) => {
+      await queryClient.invalidateQueries({ queryKey: [`/api/workspaces/${workspaceId}/tasks`] });
+      clearOverride(`task-${task.id}`);
+    },
+  });
+
+  // New dates for an item after shifting it by the drag distance
+  const applyDrag = (state: DragState): DateOverride => {
+    const { item, mode, deltaDays } = state;
+    if (state.kind === 'task') {
+      return { dueDate: shiftDate(item.dueDate, deltaDays) };
+    }
+
+    if (mode === 'start') {
+      const startDate = shiftDate(item.startDate, deltaDays);
+      return { startDate: item.endDate && startDate! > item.endDate ? item.endDate : startDate };
+    }
+    if (mode === 'end') {
+      const endDate = shiftDate(item.endDate, deltaDays);
+      return { endDate: item.startDate && endDate! < item.startDate ? item.startDate : endDate };
+    }
+    return { startDate: shiftDate(item.startDate, deltaDays), endDate: shiftDate(item.endDate, deltaDays) };
+  };
+
+  const commitDrag = (state: DragState) => {
+    if (state.deltaDays === 0) {
+      if (state.kind === 'task' && onEditTask) {
+        onEditTask(state.item);
+      }
+      return;
+    }
+
+    const updates = applyDrag(state);
+    setOverrides(current => ({ ...current, [state.key]: updates }));
+    if (state.kind === 'component') {
+      updateComponentMutation.mutate({ component: state.item, updates });
+    } else {
+      updateTaskMutation.mutate({ task: state.item, dueDate: updates.dueDate! });
+    }
+  };
+
+  useEffect(() => {
+    if (!drag) return;
+
+    const handleMouseMove = (event: MouseEvent) => {
+      setDrag(current => {
+        if (!current) return current;
+        const next = { ...current, deltaDays: Math.round((event.clientX - current.originX) / dayWidth) };
+        dragRef.current = next;
+        return next;
+      });
+    };
+    const handleMouseUp = () => {
+      const finished = dragRef.current;
+      dragRef.current = null;
+      setDrag(null);
+      if (finished) commitDrag(finished);
+    };
+
+    window.addEventListener('mousemove', handleMouseMove);
+    window.addEventListener('mouseup', handleMouseUp);
+    return () => {
+      window.removeEventListener('mousemove', handleMouseMove);
+      window.removeEventListener('mouseup', handleMouseUp);
+    };
+    // Re-bind only when a drag starts or ends, not on every move
+  }, [drag?.key, dayWidth]);
+
+  const startDrag = (event: React.MouseEvent, kind: DragState['kind'], mode: DragMode, item: any) => {
+    if (event.button !== 0) return;
+    event.preventDefault();
+    event.stopPropagation();
+    const state: DragState = { key: `${kind}-${item.id}`, kind, mode, item, originX: event.clientX, deltaDays: 0 };
+    dragRef.current = state;
+    setDrag(state);
+  };
+
+  // The dates to draw: live drag first, then an unsaved change, then the stored value
+  const effectiveDates = (kind: DragState['kind'], item: any): any => {
+    const key = `${kind}-${item.id}`;
+    if (drag?.key === key) return { ...item, ...applyDrag(drag) };
+    if (overrides[key]) return { ...item, ...overrides[key] };
+    return item;
+  };
+
+  const dayOffset = (value: string) => differenceInCalendarDays(parseISO(value), rangeStart);
+  const isVisible = (from: string, to: string) => dayOffset(to) >= 0 && dayOffset(from) < days;
+
+  const navigate = (direction: 'prev' | 'next') => {
+    const step = Math.round(days / 3);
+    setRangeStart(current => addDays(current, direction === 'prev' ? -step : step));
+  };
+
+  const visibleProjects = projects.filter(project =>
+    selectedProjectId === 'all' || project.id.toString() === selectedProjectId
+  );
+  const unassignedTasks = tasks.filter(task => !task.projectId && task.dueDate);
+
+  // Header ticks: one per day when zoomed in, otherwise one per week
+  const ticks: Date[] = [];
+  for (let offset = 0; offset < days; offset++) {
+    const date = addDays(rangeStart, offset);
+    if (zoom === 'week' || date.getDay() === 1) ticks.push(date);
+  }
+  const months: { date: Date; offset: number }[] = [];
+  for (let offset = 0; offset < days; offset++) {
+    const date = addDays(rangeStart, offset);
+    if (offset === 0 || date.getDate() === 1) months.push({ date, offset });
+  }
+  const todayOffset = differenceInCalendarDays(new Date(), rangeStart);
+  const chartWidth = days * dayWidth;
+
+  const renderComponent = (component: any) => {
+    const dates = effectiveDates('component', component);
+    const color = componentColors[component.type] || 'bg-gray-500';
+    const isMilestone = component.type === 'milestone' || !dates.startDate || !dates.endDate;
+    const draggable = canManageProjects;
+
+    if (!dates.startDate && !dates.endDate) {
+      return <span className="text-xs text-gray-400 italic pl-2 leading-9">Unscheduled</span>;
+    }
+
+    if (isMilestone) {
+      const date = dates.endDate || dates.startDate;
+      if (!isVisible(date, date)) return null;
+      return (
+        <div
+          className={`absolute top-1/2 w-3 h-3 rotate-45 ${color} ${draggable ? 'cursor-grab' : ''} ${component.status === 'completed' ? 'opacity-50' : ''}`}
+          style={{ left: dayOffset(date) * dayWidth + dayWidth / 2 - 6, marginTop: -6 }}
+          title={`${component.name} · ${date}`}
+          onMouseDown={draggable ? (e) => startDrag(e, 'component', 'move', component) : undefined}
+        />
+      );
+    }
+
+    if (!isVisible(dates.startDate, dates.endDate)) return null;
+    const left = dayOffset(dates.startDate) * dayWidth;
+    const width = (differenceInCalendarDays(parseISO(dates.endDate), parseISO(dates.startDate)) + 1) * dayWidth;
+
+    return (
+      <div
+        className={`absolute top-1.5 bottom-1.5 rounded ${color} text-white text-xs flex items-center overflow-hidden select-none ${draggable ? 'cursor-grab' : ''} ${component.status === 'completed' ? 'opacity-50' : ''} ${drag?.key === `component-${component.id}` ? 'ring-2 ring-offset-1 ring-gray-400' : ''}`}
+        style={{ left, width: Math.max(width, 4) }}
+        title={`${component.name} · ${dates.startDate} → ${dates.endDate}`}
+        onMouseDown={draggable ? (e) => startDrag(e, 'component', 'move', component) : undefined}
+      >
+        {draggable && (
+          <div className="absolute left-0 top-0 bottom-0 w-1.5 cursor-ew-resize" onMouseDown={(e) => startDrag(e, 'component', 'start', component)} />
+        )}
+        <span className="px-2 truncate">{component.name}</span>
+        {draggable && (
+          <div className="absolute right-0 top-0 bottom-0 w-1.5 cursor-ew-resize" onMouseDown={(e) => startDrag(e, 'component', 'end', component)} />
+        )}
+      </div>
+    );
+  };
+
+  const renderTaskMarkers = (rowTasks: any[]) => rowTasks.map(task => {
+    const dates = effectiveDates('task', task);
+    if (!dates.dueDate || !isVisible(dates.dueDate, dates.dueDate)) return null;
+    return (
+      <div
+        key={task.id}
+        className={`absolute top-1/2 w-3 h-3 -mt-1.5 rounded-full border-2 cursor-grab ${taskMarkerColors[task.status] || taskMarkerColors.todo} ${drag?.key === `task-${task.id}` ? 'ring-2 ring-gray-400' : ''}`}
+        style={{ left: dayOffset(dates.dueDate) * dayWidth + dayWidth / 2 - 6 }}
+        title={`${task.title} · due ${dates.dueDate}`}
+        onMouseDown={(e) => startDrag(e, 'task', 'move', task)}
+      />
+    );
+  });
+
+  const renderRow = (key: string, label: React.ReactNode, content: React.ReactNode, className = '') => (
+    <div key={key} className={`flex border-b border-gray-100 ${className}`} style={{ height: ROW_HEIGHT }}>
+      <div className="flex-shrink-0 px-3 flex items-center text-sm truncate border-r border-gray-200 bg-white sticky left-0 z-10" style={{ width: LABEL_WIDTH }}>
+        {label}
+      </div>
+      <div className="relative" style={{ width: chartWidth }}>
+        {content}
+      </div>
+    </div>
+  );
+
+  return (
+    <Card className="h-full flex flex-col">
+      <CardHeader className="pb-3">
+        <div className="flex items-center justify-between">
+          <CardTitle className="flex items-center gap-2 text-lg">
+            <GanttChart className="h-5 w-5" />
+            Timeline
+          </CardTitle>
+          <div className="flex items-center gap-2">
+            <div className="flex rounded-md border border-gray-200 overflow-hidden">
+              {(Object.keys(zoomLevels) as Zoom[]).map(level => (
+                <Button
+                  key={level}
+                  variant={zoom === level ? "default" : "ghost"}
+                  size="sm"
+                  className="rounded-none"
+                  onClick={() => setZoom(level)}
+                >
+                  {zoomLevels[level].label}
+                </Button>
+              ))}
+            </div>
+            <Button variant="outline" size="sm" onClick={() => navigate('prev')}>
+              <ChevronLeft className="h-4 w-4" />
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => setRangeStart(startOfWeek(addDays(new Date(), -7)))}>
+              Today
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => navigate('next')}>
+              <ChevronRight className="h-4 w-4" />
+            </Button>
+            <span className="text-sm text-gray-500 ml-2">
+              {format(rangeStart, 'MMM d')} – {format(rangeEnd, 'MMM d, yyyy')}
+            </span>
+          </div>
+        </div>
+      </CardHeader>
+
+      <CardContent className="flex-1 overflow-auto p-0">
+        <div style={{ width: LABEL_WIDTH + chartWidth }} className="relative">
+          {/* Month and day/week scale */}
+          <div className="flex sticky top-0 z-20 bg-gray-50 border-b border-gray-200">
+            <div className="flex-shrink-0 sticky left-0 bg-gray-50 border-r border-gray-200 z-30" style={{ width: LABEL_WIDTH }} />
+            <div className="relative h-12" style={{ width: chartWidth }}>
+              {months.map(({ date, offset }) => (
+                <div
+                  key={offset}
+                  className="absolute top-0 h-6 text-xs font-medium text-gray-700 px-1 border-l border-gray-300 whitespace-nowrap"
+                  style={{ left: offset * dayWidth }}
+                >
+                  {format(date, zoom === 'quarter' ? 'MMM yy' : 'MMMM yyyy')}
+                </div>
+              ))}
+              {ticks.map(date => (
+                <div
+                  key={date.getTime()}
+                  className="absolute top-6 h-6 text-[10px] text-gray-500 border-l border-gray-200 pl-0.5"
+                  style={{ left: differenceInCalendarDays(date, rangeStart) * dayWidth }}
+                >
+                  {zoom === 'quarter' ? '' : format(date, 'd')}
+                </div>
+              ))}
+            </div>
+          </div>
+
+          {/* Today marker */}
+          {todayOffset >= 0 && todayOffset < days && (
+            <div
+              className="absolute top-12 bottom-0 w-px bg-red-400 z-10 pointer-events-none"
+              style={{ left: LABEL_WIDTH + todayOffset * dayWidth + dayWidth / 2 }}
+            />
+          )}
+
+          {visibleProjects.length === 0 && unassignedTasks.length === 0 && (
+            <p className="text-sm text-gray-500 text-center py-12">No projects to show</p>
+          )}
+
+          {visibleProjects.map(project => {
+            const projectComponents = components.filter(component => component.projectId === project.id);
+            const projectTasks = tasks.filter(task => task.projectId === project.id && task.dueDate);
+            return (
+              <div key={project.id}>
+                {renderRow(
+                  `project-${project.id}`,
+                  <span className="font-semibold text-gray-900 truncate">{project.name}</span>,
+                  null,
+                  'bg-gray-50'
+                )}
+                {projectComponents.map(component => renderRow(
+                  `component-${component.id}`,
+                  <span className="flex items-center gap-2 pl-3 truncate">
+                    <span className="truncate text-gray-700">{component.name}</span>
+                    <Badge variant="outline" className="text-[10px] px-1 py-0 capitalize">{component.type}</Badge>
+                  </span>,
+                  renderComponent(component)
+                ))}
+                {projectTasks.length > 0 && renderRow(
+                  `tasks-${project.id}`,
+                  <span className="pl-3 text-gray-500">Tasks ({projectTasks.length})</span>,
+                  renderTaskMarkers(projectTasks)
+                )}
+                {projectComponents.length === 0 && projectTasks.length === 0 && renderRow(
+                  `empty-${project.id}`,
+                  <span className="pl-3 text-xs text-gray-400 italic">No components or dated tasks</span>,
+                  null
+                )}
+              </div>
+            );
+          })}
+
+          {selectedProjectId === 'all' && unassignedTasks.length > 0 && (
+            <div>
+              {renderRow('no-project', <span className="font-semibold text-gray-900">No project</span>, null, 'bg-gray-50')}
+              {renderRow(
+                'tasks-none',
+                <span className="pl-3 text-gray-500">Tasks ({unassignedTasks.length})</span>,
+                renderTaskMarkers(unassignedTasks)
+              )}
+            </div>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,469 @@
+import { Fragment, useEffect, useState } from "react";
+import { useQuery, useMutation, useQueryClient, useInfiniteQuery } from "@tanstack/react-query";
+import { formatDistanceToNow } from "date-fns";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from "@/components/ui/alert-dialog";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, getApiErrorMessage } from "@/lib/queryClient";
+import { Copy, Eye, EyeOff, History, Pencil, Plus, RefreshCw, Send, Trash2, Webhook as WebhookIcon } from "lucide-react";
+import { WEBHOOK_EVENT_TYPES, type Webhook, type WebhookDelivery, type WebhookEventType } from "@shared/schema";
+
+// Dates arrive as JSON strings
+type WebhookData = Omit<Webhook, 'createdAt' | 'updatedAt'> & { createdAt: string | null; updatedAt: string | null };
+type DeliveryData = Omit<WebhookDelivery, 'createdAt' | 'lastAttemptAt' | 'nextAttemptAt'> & {
+  createdAt: string | null;
+  lastAttemptAt: string | null;
+  nextAttemptAt: string | null;
+};
+
+const EVENT_GROUPS: { label: string; prefix: string }[] = [
+  { label: "Tasks", prefix: "task." },
+  { label: "Comments", prefix: "comment." },
+  { label: "Outflows", prefix: "outflow." },
+  { label: "Inflows", prefix: "inflow." },
+];
+
+const STATUS_STYLES: Record<string, string> = {
+  succeeded: "bg-green-100 text-green-800",
+  pending: "bg-amber-100 text-amber-800",
+  failed: "bg-red-100 text-red-800",
+};
+
+interface WebhooksSettingsProps {
+  workspaceId: number;
+}
+
+// Workspace admins' list of outbound webhooks, with a form to add or change one and
+// the log of what was sent to it
+export default function WebhooksSettings({ workspaceId }: WebhooksSettingsProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const listKey = [`/api/workspaces/${workspaceId}/webhooks`];
+  const { data: webhooks = [], isLoading } = useQuery<WebhookData[]>({ queryKey: listKey });
+
+  const [editing, setEditing] = useState<WebhookData | null>(null);
+  const [showForm, setShowForm] = useState(false);
+  const [logFor, setLogFor] = useState<WebhookData | null>(null);
+
+  const updateMutation = useMutation({
+    mutationFn: async ({ id, isActive }: { id: number; isActive: boolean }) => {
+      const response = await apiRequest("PATCH", `/api/webhooks/${id}`, { isActive });
+      return await response.json();
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: listKey }),
+    onError: (error: Error) => {
+      toast({ title: "Error", description: getApiErrorMessage(error, "Failed to update webhook"), variant: "destructive" });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: number) => apiRequest("DELETE", `/api/webhooks/${id}`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: listKey });
+      toast({ title: "Webhook deleted" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: getApiErrorMessage(error, "Failed to delete webhook"), variant: "destructive" });
+    },
+  });
+
+  const testMutation = useMutation({
+    mutationFn: async (id: number) => {
+      const response = await apiRequest("POST", `/api/webhooks/${id}/test`);
+      return await response.json();
+    },
+    onSuccess: (delivery: DeliveryData) => {
+      queryClient.invalidateQueries({ queryKey: [`/api/webhooks/${delivery.webhookId}/deliveries`] });
+      toast(delivery.status === 'succeeded'
+        ? { title: "Test event delivered", description: `The endpoint responded with HTTP ${delivery.responseStatus}.` }
+        : { title: "Test event failed", description: delivery.error ?? undefined, variant: "destructive" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: getApiErrorMessage(error, "Failed to send test event"), variant: "destructive" });
+    },
+  });
+
+  return (
+    <Card className="mt-8">
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <div>
+          <CardTitle className="text-lg flex items-center">
+            <WebhookIcon className="h-5 w-5 mr-2" />
+            Webhooks
+          </CardTitle>
+          <p className="text-sm text-gray-600 mt-1">Send task and financial events from this workspace to your own tools.</p>
+        </div>
+        <Button size="sm" onClick={() => { setEditing(null); setShowForm(true); }}>
+          <Plus className="h-4 w-4 mr-2" />
+          Add webhook
+        </Button>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <p className="text-sm text-gray-500">Loading webhooks...</p>
+        ) : webhooks.length === 0 ? (
+          <p className="text-sm text-gray-500">No webhooks yet.</p>
+        ) : (
+          <div className="divide-y">
+            {webhooks.map((webhook) => (
+              <div key={webhook.id} className="flex items-center justify-between py-3 gap-4">
+                <div className="min-w-0 flex-1">
+                  <p className="font-mono text-sm truncate">{webhook.url}</p>
+                  <p className="text-xs text-gray-500 mt-1">
+                    {webhook.description ? `${webhook.description} · ` : ''}
+                    {webhook.events.length} event{webhook.events.length === 1 ? '' : 's'}
+                  </p>
+                </div>
+                <div className="flex items-center space-x-1">
+                  <Switch
+                    checked={webhook.isActive}
+                    onCheckedChange={(isActive) => updateMutation.mutate({ id: webhook.id, isActive })}
+                    title={webhook.isActive ? "Active" : "Paused"}
+                  />
+                  <Button variant="ghost" size="sm" onClick={() => testMutation.mutate(webhook.id)} disabled={!webhook.isActive || testMutation.isPending} title="Send test event">
+                    <Send className="h-4 w-4" />
+                  </Button>
+                  <Button variant="ghost" size="sm" onClick={() => setLogFor(webhook)} title="Delivery log">
+                    <History className="h-4 w-4" />
+                  </Button>
+                  <Button variant="ghost" size="sm" onClick={() => { setEditing(webhook); setShowForm(true); }} title="Edit">
+                    <Pencil className="h-4 w-4" />
+                  </Button>
+                  <AlertDialog>
+                    <AlertDialogTrigger asChild>
+                      <Button variant="ghost" size="sm" className="text-red-600" title="Delete">
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </AlertDialogTrigger>
+                    <AlertDialogContent>
+                      <AlertDialogHeader>
+                        <AlertDialogTitle>Delete webhook</AlertDialogTitle>
+                        <AlertDialogDescription>
+                          Events will no longer be sent to {webhook.url}, and its delivery log is deleted too.
+                        </AlertDialogDescription>
+                      </AlertDialogHeader>
+                      <AlertDialogFooter>
+                        <AlertDialogCancel>Cancel</AlertDialogCancel>
+                        <AlertDialogAction onClick={() => deleteMutation.mutate(webhook.id)} className="bg-red-600 hover:bg-red-700">
+                          Delete
+                        </AlertDialogAction>
+                      </AlertDialogFooter>
+                    </AlertDialogContent>
+                  </AlertDialog>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+
+      <WebhookFormDialog
+        workspaceId={workspaceId}
+        webhook={editing}
+        open={showForm}
+        onOpenChange={setShowForm}
+      />
+      {logFor && (
+        <WebhookDeliveriesDialog webhook={logFor} open={!!logFor} onOpenChange={(open) => !open && setLogFor(null)} />
+      )}
+    </Card>
+  );
+}
+
+interface WebhookFormDialogProps {
+  workspaceId: number;
+  webhook: WebhookData | null; // null to add one
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+function WebhookFormDialog({ workspaceId, webhook, open, onOpenChange }: WebhookFormDialogProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const listKey = [`/api/workspaces/${workspaceId}/webhooks`];
+  const [url, setUrl] = useState('');
+  const [description, setDescription] = useState('');
+  const [events, setEvents] = useState<WebhookEventType[]>([]);
+  const [secret, setSecret] = useState<string | null>(null);
+  const [showSecret, setShowSecret] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    setUrl(webhook?.url ?? '');
+    setDescription(webhook?.description ?? '');
+    setEvents(webhook?.events ?? []);
+    setSecret(webhook?.secret ?? null);
+    setShowSecret(false);
+  }, [open, webhook]);
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const body = { url, description: description || null, events };
+      const response = webhook
+        ? await apiRequest("PATCH", `/api/webhooks/${webhook.id}`, body)
+        : await apiRequest("POST", `/api/workspaces/${workspaceId}/webhooks`, body);
+      return await response.json();
+    },
+    onSuccess: (saved: WebhookData) => {
+      queryClient.invalidateQueries({ queryKey: listKey });
+      if (webhook) {
+        toast({ title: "Webhook saved" });
+        onOpenChange(false);
+      } else {
+        // Stay open so the new secret can be copied
+        setSecret(saved.secret);
+        setShowSecret(true);
+        toast({ title: "Webhook added", description: "Copy the signing secret to verify deliveries." });
+      }
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: getApiErrorMessage(error, "Failed to save webhook"), variant: "destructive" });
+    },
+  });
+
+  const rotateMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/webhooks/${webhook!.id}/rotate-secret`);
+      return await response.json();
+    },
+    onSuccess: (saved: WebhookData) => {
+      queryClient.invalidateQueries({ queryKey: listKey });
+      setSecret(saved.secret);
+      setShowSecret(true);
+      toast({ title: "Secret replaced", description: "Update the receiver, deliveries are signed with the new secret from now on." });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: getApiErrorMessage(error, "Failed to replace secret"), variant: "destructive" });
+    },
+  });
+
+  const toggleEvent = (event: WebhookEventType, checked: boolean) => {
+    setEvents(current => checked ? [...current, event] : current.filter(e => e !== event));
+  };
+
+  const copySecret = async () => {
+    try {
+      await navigator.clipboard.writeText(secret ?? '');
+      toast({ title: "Secret copied" });
+    } catch {
+      toast({ title: "Couldn't copy", description: "Reveal the secret and copy it manually.", variant: "destructive" });
+    }
+  };
+
+  const created = !webhook && !!secret;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>{webhook ? "Edit webhook" : "Add webhook"}</DialogTitle>
+          <DialogDescription>
+            Each event is sent as a JSON POST, signed in the X-Webhook-Signature header with the webhook's secret.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-1">
+            <Label htmlFor="webhook-url">Payload URL</Label>
+            <Input id="webhook-url" value={url} onChange={(e) => setUrl(e.target.value)} placeholder="https://example.com/hooks/tasks" disabled={created} />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="webhook-description">Description</Label>
+            <Input id="webhook-description" value={description} onChange={(e) => setDescription(e.target.value)} placeholder="Optional" disabled={created} />
+          </div>
+
+          <div className="space-y-2">
+            <Label>Events</Label>
+            <div className="grid grid-cols-2 gap-4">
+              {EVENT_GROUPS.map((group) => (
+                <div key={group.prefix}>
+                  <p className="text-xs font-medium uppercase text-gray-500 mb-1">{group.label}</p>
+                  {WEBHOOK_EVENT_TYPES.filter(event => event.startsWith(group.prefix)).map((event) => (
+                    <label key={event} className="flex items-center space-x-2 py-0.5">
+                      <Checkbox
+                        checked={events.includes(event)}
+                        onCheckedChange={(checked) => toggleEvent(event, checked === true)}
+                        disabled={created}
+                      />
+                      <span className="font-mono text-xs">{event}</span>
+                    </label>
+                  ))}
+                </div>
+              ))}
+            </div>
+          </div>
+
+          {secret && (
+            <div className="space-y-1">
+              <Label>Signing secret</Label>
+              <div className="flex space-x-2">
+                <Input value={showSecret ? secret : '•'.repeat(32)} readOnly className="font-mono text-xs" />
+                <Button variant="outline" size="sm" onClick={() => setShowSecret(!showSecret)} title={showSecret ? "Hide" : "Reveal"}>
+                  {showSecret ? <EyeOff className="h-4 w-4" /> : <Eye className="h-4 w-4" />}
+                </Button>
+                <Button variant="outline" size="sm" onClick={copySecret} title="Copy">
+                  <Copy className="h-4 w-4" />
+                </Button>
+                {webhook && (
+                  <Button variant="outline" size="sm" onClick={() => rotateMutation.mutate()} disabled={rotateMutation.isPending} title="Replace secret">
+                    <RefreshCw className="h-4 w-4" />
+                  </Button>
+                )}
+              </div>
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          {created ? (
+            <Button onClick={() => onOpenChange(false)}>Done</Button>
+          ) : (
+            <>
+              <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+              <Button onClick={() => saveMutation.mutate()} disabled={!url || events.length === 0 || saveMutation.isPending}>
+                {saveMutation.isPending ? "Saving..." : webhook ? "Save" : "Add webhook"}
+              </Button>
+            </>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+interface WebhookDeliveriesDialogProps {
+  webhook: WebhookData;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+function WebhookDeliveriesDialog({ webhook, open, onOpenChange }: WebhookDeliveriesDialogProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [expanded, setExpanded] = useState<number | null>(null);
+  const deliveriesUrl = `/api/webhooks/${webhook.id}/deliveries`;
+
+  const { data, isLoading, fetchNextPage, hasNextPage, isFetchingNextPage } = useInfiniteQuery({
+    queryKey: [deliveriesUrl],
+    queryFn: async ({ pageParam }) => {
+      const response = await apiRequest("GET", pageParam ? `${deliveriesUrl}?before=${pageParam}` : deliveriesUrl);
+      return await response.json() as { deliveries: DeliveryData[]; nextBefore: number | null };
+    },
+    initialPageParam: null as number | null,
+    getNextPageParam: (page) => page.nextBefore,
+    enabled: open,
+  });
+  const deliveries = data?.pages.flatMap(page => page.deliveries) ?? [];
+
+  const redeliverMutation = useMutation({
+    mutationFn: async (id: number) => {
+      const response = await apiRequest("POST", `/api/webhook-deliveries/${id}/redeliver`);
+      return await response.json();
+    },
+    onSuccess: (delivery: DeliveryData) => {
+      queryClient.invalidateQueries({ queryKey: [deliveriesUrl] });
+      toast(delivery.status === 'succeeded'
+        ? { title: "Redelivered", description: `The endpoint responded with HTTP ${delivery.responseStatus}.` }
+        : { title: "Redelivery failed", description: delivery.error ?? undefined, variant: "destructive" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: getApiErrorMessage(error, "Failed to redeliver"), variant: "destructive" });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Deliveries</DialogTitle>
+          <DialogDescription className="font-mono text-xs truncate">{webhook.url}</DialogDescription>
+        </DialogHeader>
+
+        <div className="max-h-[60vh] overflow-y-auto">
+          {isLoading ? (
+            <p className="text-sm text-gray-500 py-4">Loading deliveries...</p>
+          ) : deliveries.length === 0 ? (
+            <p className="text-sm text-gray-500 py-4">Nothing has been sent to this webhook yet.</p>
+          ) : (
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-xs uppercase text-gray-500 border-b">
+                  <th className="py-2 pr-2">Status</th>
+                  <th className="py-2 pr-2">Event</th>
+                  <th className="py-2 pr-2">Response</th>
+                  <th className="py-2 pr-2">Attempts</th>
+                  <th className="py-2 pr-2">Sent</th>
+                  <th className="py-2" />
+                </tr>
+              </thead>
+              <tbody>
+                {deliveries.map((delivery) => (
+                  <Fragment key={delivery.id}>
+                    <tr className="border-b cursor-pointer hover:bg-gray-50" onClick={() => setExpanded(expanded === delivery.id ? null : delivery.id)}>
+                      <td className="py-2 pr-2">
+                        <Badge className={STATUS_STYLES[delivery.status] ?? ''} variant="outline">{delivery.status}</Badge>
+                      </td>
+                      <td className="py-2 pr-2 font-mono text-xs">
+                        {delivery.eventType}
+                        {delivery.redeliveryOf && <span className="ml-1 text-gray-400">(redelivery)</span>}
+                      </td>
+                      <td className="py-2 pr-2">{delivery.responseStatus ?? '—'}{delivery.durationMs != null && <span className="text-gray-400 text-xs"> · {delivery.durationMs} ms</span>}</td>
+                      <td className="py-2 pr-2">{delivery.attempts}</td>
+                      <td className="py-2 pr-2 text-gray-500 text-xs">
+                        {delivery.createdAt ? formatDistanceToNow(new Date(delivery.createdAt), { addSuffix: true }) : ''}
+                      </td>
+                      <td className="py-2 text-right">
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={(e) => { e.stopPropagation(); redeliverMutation.mutate(delivery.id); }}
+                          disabled={!webhook.isActive || redeliverMutation.isPending}
+                          title="Redeliver"
+                        >
+                          <RefreshCw className="h-4 w-4" />
+                        </Button>
+                      </td>
+                    </tr>
+                    {expanded === delivery.id && (
+                      <tr className="border-b bg-gray-50">
+                        <td colSpan={6} className="p-3 space-y-2">
+                          {delivery.error && <p className="text-xs text-red-600">{delivery.error}</p>}
+                          {delivery.status === 'pending' && delivery.nextAttemptAt && (
+                            <p className="text-xs text-gray-600">Next attempt {formatDistanceToNow(new Date(delivery.nextAttemptAt), { addSuffix: true })}</p>
+                          )}
+                          <p className="text-xs font-medium text-gray-600">Payload</p>
+                          <pre className="text-xs bg-white border rounded p-2 overflow-x-auto max-h-48">{JSON.stringify(delivery.payload, null, 2)}</pre>
+                          {delivery.responseBody && (
+                            <>
+                              <p className="text-xs font-medium text-gray-600">Response body</p>
+                              <pre className="text-xs bg-white border rounded p-2 overflow-x-auto max-h-32 whitespace-pre-wrap">{delivery.responseBody}</pre>
+                            </>
+                          )}
+                        </td>
+                      </tr>
+                    )}
+                  </Fragment>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+
+        {hasNextPage && (
+          <div className="flex justify-center">
+            <Button variant="outline" size="sm" onClick={() => fetchNextPage()} disabled={isFetchingNextPage}>
+              {isFetchingNextPage ? "Loading..." : "Load older deliveries"}
+            </Button>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,118 @@
+import { useEffect, useRef, useState } from "react";
+import { apiRequest, getApiErrorMessage } from "@/lib/queryClient";
+import type { ChatTurn } from "@shared/schema";
+
+// Dates arrive as JSON strings
+export type ChatTurnData = Omit<ChatTurn, 'createdAt'> & { createdAt: string };
+
+// The turn being answered, shown until the saved one replaces it
+export interface StreamingTurn {
+  message: string;
+  response: string;
+  conversationId: string | null;
+}
+
+interface ChatStreamOptions {
+  // Refresh the chat queries here; the streamed turn stays up until this settles
+  onDone?: (turn: ChatTurnData) => unknown;
+  onError?: (message: string) => void;
+}
+
+function parseEvent(block: string): { event: string; data: any } {
+  let event = 'message';
+  const data: string[] = [];
+  for (const line of block.split('\n')) {
+    if (line.startsWith('event:')) event = line.slice(6).trim();
+    else if (line.startsWith('data:')) data.push(line.slice(5).trimStart());
+  }
+  return { event, data: data.length ? JSON.parse(data.join('\n')) : null };
+}
+
+// Sends a message to the assistant through POST /chat/stream and follows the answer as
+// it's written. `stop` keeps what was written so far as the answer.
+export function useChatStream(workspaceId: number, { onDone, onError }: ChatStreamOptions = {}) {
+  const [streaming, setStreaming] = useState<StreamingTurn | null>(null);
+  const [isStopping, setIsStopping] = useState(false);
+  const controllerRef = useRef<AbortController | null>(null);
+  const streamIdRef = useRef<string | null>(null);
+
+  // Leaving the page stops the answer; the server saves it as it was
+  useEffect(() => () => controllerRef.current?.abort(), []);
+
+  const send = async (message: string, conversationId: string | null) => {
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    streamIdRef.current = null;
+    setStreaming({ message, response: '', conversationId });
+    setIsStopping(false);
+
+    try {
+      const response = await fetch(`/api/workspaces/${workspaceId}/chat/stream`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ message, conversationId }),
+        credentials: "include",
+        signal: controller.signal,
+      });
+      if (!response.ok || !response.body) {
+        throw new Error(`${response.status}: ${await response.text()}`);
+      }
+
+      const reader = response.body.getReader();
+      const decoder = new TextDecoder();
+      let buffer = '';
+      let turn: ChatTurnData | null = null;
+      while (true) {
+        const { value, done } = await reader.read();
+        if (done) break;
+        buffer += decoder.decode(value, { stream: true });
+
+        let boundary: number;
+        while ((boundary = buffer.indexOf('\n\n')) >= 0) {
+          const { event, data } = parseEvent(buffer.slice(0, boundary));
+          buffer = buffer.slice(boundary + 2);
+          if (event === 'start') {
+            streamIdRef.current = data.streamId;
+            setStreaming(current => current && { ...current, conversationId: data.conversationId });
+          } else if (event === 'delta') {
+            setStreaming(current => current && { ...current, response: current.response + data.text });
+          } else if (event === 'done') {
+            turn = data;
+          } else if (event === 'error') {
+            onError?.(data.message);
+          }
+        }
+      }
+
+      if (turn) await onDone?.(turn);
+    } catch (error) {
+      if (!controller.signal.aborted) {
+        onError?.(getApiErrorMessage(error as Error, "Failed to send message"));
+      }
+    } finally {
+      if (controllerRef.current === controller) {
+        controllerRef.current = null;
+        streamIdRef.current = null;
+        setStreaming(null);
+        setIsStopping(false);
+      }
+    }
+  };
+
+  const stop = async () => {
+    const streamId = streamIdRef.current;
+    setIsStopping(true);
+    if (!streamId) {
+      // Not started yet; dropping the connection is enough
+      controllerRef.current?.abort();
+      return;
+    }
+    try {
+      await apiRequest("POST", `/api/workspaces/${workspaceId}/chat/stream/${streamId}/stop`);
+    } catch {
+      // It finished on its own in the meantime
+    }
+  };
+
+  return { streaming, isStreaming: streaming !== null, isStopping, send, stop };
+}
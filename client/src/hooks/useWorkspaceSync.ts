@@ -0,0 +1,150 @@
+import { useEffect } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import type { RealtimeEvent } from "@shared/realtime";
+
+const MAX_RECONNECT_DELAY = 30000;
+
+// Keeps the query cache for a workspace in sync with changes made by other members
+export function useWorkspaceSync(workspaceId: number | null | undefined) {
+  const queryClient = useQueryClient();
+
+  useEffect(() => {
+    if (!workspaceId) return;
+
+    let socket: WebSocket | null = null;
+    let reconnectTimer: ReturnType<typeof setTimeout> | undefined;
+    let reconnectAttempts = 0;
+    let closedByUs = false;
+    let hasConnected = false;
+
+    const tasksKey = [`/api/workspaces/${workspaceId}/tasks`];
+
+    // Filtered task lists can't be patched locally since we don't know whether the task still matches
+    const invalidateFilteredTasks = () => {
+      queryClient.invalidateQueries({ queryKey: tasksKey, predicate: (query) => query.queryKey.length > 1 });
+    };
+
+    const handleEvent = (event: RealtimeEvent) => {
+
+      switch (event.type) {
+        case 'task.created':
+        case 'task.updated':
+          queryClient.setQueryData(tasksKey, (old: any[] | undefined) => {
+            if (!old) return old;
+            const exists = old.some(task => task.id === event.payload.id);
+            return exists
+              ? old.map(task => task.id === event.payload.id ? { ...task, ...event.payload } : task)
+              : [...old, event.payload];
+          });
+          invalidateFilteredTasks();
+          queryClient.invalidateQueries({ queryKey: [`/api/workspaces/${workspaceId}/tasks/due-today`] });
+          queryClient.invalidateQueries({ queryKey: [`/api/workspaces/${workspaceId}/tasks/progress`] });
+          break;
+        case 'task.deleted':
+          queryClient.setQueryData(tasksKey, (old: any[] | undefined) =>
+            old ? old.filter(task => task.id !== event.payload.id) : old
+          );
+          invalidateFilteredTasks();
+          queryClient.invalidateQueries({ queryKey: [`/api/workspaces/${workspaceId}/tasks/due-today`] });
+          queryClient.invalidateQueries({ queryKey: [`/api/workspaces/${workspaceId}/tasks/progress`] });
+          break;
+        case 'subtask.changed':
+          queryClient.invalidateQueries({ queryKey: [`/api/tasks/${event.payload.taskId}/subtasks`] });
+          queryClient.invalidateQueries({ queryKey: [`/api/workspaces/${workspaceId}/subtask-progress`] });
+          break;
+        case 'time_entry.changed':
+          queryClient.invalidateQueries({ queryKey: [`/api/tasks/${event.payload.taskId}/time-entries`] });
+          queryClient.invalidateQueries({ queryKey: [`/api/workspaces/${workspaceId}/timer`] });
+          queryClient.invalidateQueries({ queryKey: [`/api/workspaces/${workspaceId}/timesheet`] });
+          break;
+        case 'dependency.created':
+        case 'dependency.deleted':
+          queryClient.invalidateQueries({ queryKey: [`/api/workspaces/${workspaceId}/task-dependencies`] });
+          break;
+        case 'comment.created':
+          queryClient.invalidateQueries({ queryKey: ['task-comments', event.payload.taskId] });
+          break;
+        case 'comment.deleted':
+          queryClient.invalidateQueries({ queryKey: ['task-comments', event.payload.taskId] });
+          // The comment's attachments were unlinked with it
+          queryClient.invalidateQueries({ queryKey: [`/api/tasks/${event.payload.taskId}/attachments`] });
+          queryClient.invalidateQueries({ queryKey: [`/api/workspaces/${workspaceId}/attachment-counts`] });
+          break;
+        case 'attachment.changed':
+          queryClient.invalidateQueries({ queryKey: [`/api/tasks/${event.payload.taskId}/attachments`] });
+          queryClient.invalidateQueries({ queryKey: [`/api/workspaces/${workspaceId}/attachment-counts`] });
+          break;
+        case 'notification.created':
+          queryClient.invalidateQueries({ queryKey: ['notifications'] });
+          break;
+        case 'file.created':
+        case 'file.updated':
+        case 'file.deleted':
+          queryClient.invalidateQueries({ queryKey: [`/api/workspaces/${workspaceId}/files`] });
+          queryClient.invalidateQueries({ queryKey: [`/api/workspaces/${workspaceId}/files/recent`] });
+          // Renaming or moving a folder changes the breadcrumbs of everything below it
+          queryClient.invalidateQueries({
+            predicate: (query) => String(query.queryKey[0]).startsWith(`/api/workspaces/${workspaceId}/files/`),
+          });
+          // Attachments show the file's name and disappear with it
+          queryClient.invalidateQueries({
+            predicate: (query) => /^\/api\/tasks\/\d+\/attachments$/.test(String(query.queryKey[0])),
+          });
+          queryClient.invalidateQueries({ queryKey: [`/api/workspaces/${workspaceId}/attachment-counts`] });
+          break;
+        case 'financial.changed':
+          queryClient.invalidateQueries({
+            queryKey: [`/api/projects/${event.payload.projectId}/${event.payload.resource}`],
+          });
+          if (event.payload.resource === 'components') {
+            queryClient.invalidateQueries({ queryKey: [`/api/workspaces/${workspaceId}/components`] });
+          }
+          break;
+      }
+    };
+
+    const connect = () => {
+      const protocol = window.location.protocol === "https:" ? "wss:" : "ws:";
+      socket = new WebSocket(`${protocol}//${window.location.host}/ws`);
+
+      socket.onopen = () => {
+        // Events sent while we were disconnected are lost, so refetch what may be stale
+        if (hasConnected) {
+          queryClient.invalidateQueries({ queryKey: [`/api/workspaces/${workspaceId}/tasks`] });
+          queryClient.invalidateQueries({ queryKey: [`/api/workspaces/${workspaceId}/tasks/progress`] });
+          queryClient.invalidateQueries({ queryKey: ['notifications'] });
+        }
+        hasConnected = true;
+        reconnectAttempts = 0;
+        socket?.send(JSON.stringify({ type: 'subscribe', workspaceId }));
+      };
+
+      socket.onmessage = (message) => {
+        try {
+          const event = JSON.parse(message.data);
+          if (event.workspaceId === workspaceId) {
+            handleEvent(event);
+          }
+        } catch (error) {
+          console.error("Failed to parse realtime event:", error);
+        }
+      };
+
+      socket.onclose = () => {
+        if (closedByUs) return;
+        // Back off exponentially so a restarting server isn't flooded with reconnects
+        const delay = Math.min(1000 * 2 ** reconnectAttempts, MAX_RECONNECT_DELAY);
+        reconnectAttempts++;
+        reconnectTimer = setTimeout(connect, delay);
+      };
+    };
+
+    connect();
+
+    return () => {
+      closedByUs = true;
+      clearTimeout(reconnectTimer);
+      socket?.close();
+    };
+  }, [workspaceId, queryClient]);
+}
@@ -7,6 +7,17 @@ async function throwIfResNotOk(res: Response) {
   }
 }
 
+// Pull the server's { message } out of an error thrown by throwIfResNotOk
+export function getApiErrorMessage(error: Error, fallback: string): string {
+  const match = /^\d{3}: ([\s\S]*)$/.exec(error.message);
+  if (!match) return fallback;
+  try {
+    return JSON.parse(match[1]).message || fallback;
+  } catch {
+    return fallback;
+  }
+}
+
 export async function apiRequest(
   method: string,
   url: string,
@@ -0,0 +1,329 @@
+import { Fragment, useState } from "react";
+import { useQuery, useInfiniteQuery } from "@tanstack/react-query";
+import { useParams } from "wouter";
+import { format } from "date-fns";
+import Sidebar from "@/components/sidebar";
+import NotificationsDropdown from "@/components/notifications-dropdown";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { ChevronDown, ChevronRight, Download, ScrollText } from "lucide-react";
+import { useWorkspaceSync } from "@/hooks/useWorkspaceSync";
+import { apiRequest, getApiErrorMessage } from "@/lib/queryClient";
+import type { AuditChanges, AuditLogEntry, AuditLogPage } from "@shared/schema";
+
+// Dates arrive as JSON strings
+type AuditLogEntryData = Omit<AuditLogEntry, 'createdAt'> & { createdAt: string | null };
+type AuditLogPageData = Omit<AuditLogPage, 'entries'> & { entries: AuditLogEntryData[] };
+
+const humanize = (value: string) => value.replace(/_/g, ' ');
+
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined) return '—';
+  if (typeof value === 'string') return value === '' ? '""' : value;
+  return JSON.stringify(value);
+}
+
+function ChangesTable({ changes }: { changes: AuditChanges }) {
+  return (
+    <table className="w-full text-xs">
+      <thead>
+        <tr className="text-left text-gray-500">
+          <th className="py-1 pr-4 font-medium w-48">Field</th>
+          <th className="py-1 pr-4 font-medium">Before</th>
+          <th className="py-1 font-medium">After</th>
+        </tr>
+      </thead>
+      <tbody>
+        {Object.entries(changes).map(([field, change]) => (
+          <tr key={field} className="align-top">
+            <td className="py-1 pr-4 font-mono text-gray-700">{field}</td>
+            <td className="py-1 pr-4 text-red-700 break-all whitespace-pre-wrap">{formatValue(change.from)}</td>
+            <td className="py-1 text-green-700 break-all whitespace-pre-wrap">{formatValue(change.to)}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
+
+// Admin-only: who changed what in the workspace, with before/after values
+export default function AuditLogPage() {
+  const { workspaceId } = useParams();
+  const currentWorkspaceId = parseInt(workspaceId || "1");
+
+  useWorkspaceSync(currentWorkspaceId);
+
+  const [userId, setUserId] = useState("all");
+  const [entityType, setEntityType] = useState("all");
+  const [action, setAction] = useState("all");
+  const [from, setFrom] = useState("");
+  const [to, setTo] = useState("");
+  const [expanded, setExpanded] = useState<Set<number>>(new Set());
+
+  const { data: workspaces = [] } = useQuery<any[]>({
+    queryKey: ["/api/workspaces"],
+  });
+
+  const { data: projects = [] } = useQuery<any[]>({
+    queryKey: [`/api/workspaces/${currentWorkspaceId}/projects`],
+    enabled: !!currentWorkspaceId,
+  });
+
+  const { data: categories = [] } = useQuery<any[]>({
+    queryKey: [`/api/workspaces/${currentWorkspaceId}/categories`],
+    enabled: !!currentWorkspaceId,
+  });
+
+  const { data: members = [] } = useQuery<any[]>({
+    queryKey: [`/api/workspaces/${currentWorkspaceId}/members`],
+    enabled: !!currentWorkspaceId,
+  });
+  const people = members.filter((member: any) => member.userId);
+
+  const params = new URLSearchParams();
+  if (userId !== 'all') params.set('userId', userId);
+  if (entityType !== 'all') params.set('entityType', entityType);
+  if (action !== 'all') params.set('action', action);
+  if (from) params.set('from', from);
+  if (to) params.set('to', to);
+  const queryString = params.toString();
+
+  const auditLogUrl = `/api/workspaces/${currentWorkspaceId}/audit-log`;
+  const { data, isLoading, error, fetchNextPage, hasNextPage, isFetchingNextPage } = useInfiniteQuery({
+    queryKey: [auditLogUrl, queryString],
+    queryFn: async ({ pageParam }) => {
+      const pageParams = new URLSearchParams(params);
+      if (pageParam) pageParams.set('before', String(pageParam));
+      const response = await apiRequest("GET", `${auditLogUrl}?${pageParams.toString()}`);
+      return await response.json() as AuditLogPageData;
+    },
+    initialPageParam: null as number | null,
+    getNextPageParam: (page) => page.nextBefore,
+    enabled: !!currentWorkspaceId && (!from || !to || from <= to),
+  });
+  const entries = data?.pages.flatMap(page => page.entries) ?? [];
+  const facets = data?.pages[0];
+
+  const exportUrl = (fileFormat: 'csv' | 'json') =>
+    `${auditLogUrl}/export?${queryString}${queryString ? '&' : ''}format=${fileFormat}`;
+
+  const toggle = (id: number) => {
+    const next = new Set(expanded);
+    if (next.has(id)) {
+      next.delete(id);
+    } else {
+      next.add(id);
+    }
+    setExpanded(next);
+  };
+
+  return (
+    <div className="flex h-screen bg-gray-50">
+      <Sidebar
+        workspaces={workspaces}
+        currentWorkspaceId={currentWorkspaceId}
+        onWorkspaceChange={(id) => {
+          window.location.href = `/workspace/${id}/audit-log`;
+        }}
+        projects={projects}
+        categories={categories}
+        viewMode="home"
+        onViewModeChange={() => {}}
+        onProjectFilterChange={() => {}}
+        onCreateWorkspace={() => {}}
+        onCreateProject={() => {}}
+        onCreateCategory={() => {}}
+        onCreateMember={() => {}}
+        onEditProject={() => {}}
+        onEditCategory={() => {}}
+        currentPage="audit-log"
+      />
+
+      <main className="flex-1 overflow-y-auto">
+        <header className="bg-white border-b border-gray-200 px-6 py-4">
+          <div className="flex items-center justify-between">
+            <div>
+              <h1 className="text-2xl font-semibold text-gray-900 flex items-center gap-2">
+                <ScrollText className="h-6 w-6" />
+                Audit Log
+              </h1>
+              <p className="text-gray-600 text-sm">
+                Changes made in this workspace{facets ? `, kept for ${facets.retentionDays} days` : ''}
+              </p>
+            </div>
+            <NotificationsDropdown workspaceId={currentWorkspaceId} />
+          </div>
+        </header>
+
+        <div className="p-6 space-y-6">
+          <div className="flex flex-wrap items-end gap-4">
+            <div className="space-y-1">
+              <Label>Member</Label>
+              <Select value={userId} onValueChange={setUserId}>
+                <SelectTrigger className="w-44">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">Everyone</SelectItem>
+                  {people.map((member: any) => (
+                    <SelectItem key={member.id} value={member.userId}>
+                      {member.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label>Entity</Label>
+              <Select value={entityType} onValueChange={setEntityType}>
+                <SelectTrigger className="w-40">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All entities</SelectItem>
+                  {(facets?.entityTypes ?? []).map((type) => (
+                    <SelectItem key={type} value={type}>{humanize(type)}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label>Action</Label>
+              <Select value={action} onValueChange={setAction}>
+                <SelectTrigger className="w-40">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All actions</SelectItem>
+                  {(facets?.actions ?? []).map((name) => (
+                    <SelectItem key={name} value={name}>{humanize(name)}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="audit-log-from">From</Label>
+              <Input id="audit-log-from" type="date" value={from} max={to || undefined} onChange={(e) => setFrom(e.target.value)} />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="audit-log-to">To</Label>
+              <Input id="audit-log-to" type="date" value={to} min={from || undefined} onChange={(e) => setTo(e.target.value)} />
+            </div>
+            <div className="flex gap-2 ml-auto">
+              <Button variant="outline" asChild>
+                <a href={exportUrl('csv')} download>
+                  <Download className="h-4 w-4 mr-2" />
+                  Export CSV
+                </a>
+              </Button>
+              <Button variant="outline" asChild>
+                <a href={exportUrl('json')} download>
+                  <Download className="h-4 w-4 mr-2" />
+                  Export JSON
+                </a>
+              </Button>
+            </div>
+          </div>
+
+          <Card>
+            <CardContent className="pt-6">
+              {isLoading ? (
+                <div className="animate-pulse space-y-2">
+                  <div className="h-8 bg-gray-200 rounded"></div>
+                  <div className="h-8 bg-gray-200 rounded"></div>
+                  <div className="h-8 bg-gray-200 rounded"></div>
+                </div>
+              ) : error ? (
+                <p className="text-sm text-red-600 py-4 text-center">{getApiErrorMessage(error, "Failed to load the audit log")}</p>
+              ) : entries.length === 0 ? (
+                <p className="text-sm text-gray-500 py-4 text-center">No changes match these filters</p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead className="w-8" />
+                      <TableHead>Time</TableHead>
+                      <TableHead>Member</TableHead>
+                      <TableHead>Action</TableHead>
+                      <TableHead>Entity</TableHead>
+                      <TableHead>Changes</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {entries.map((entry) => {
+                      const changeCount = entry.changes ? Object.keys(entry.changes).length : 0;
+                      const isExpanded = expanded.has(entry.id);
+                      return (
+                        <Fragment key={entry.id}>
+                          <TableRow
+                            className={changeCount > 0 ? "cursor-pointer" : undefined}
+                            onClick={() => changeCount > 0 && toggle(entry.id)}
+                          >
+                            <TableCell>
+                              {changeCount > 0 && (isExpanded
+                                ? <ChevronDown className="h-4 w-4 text-gray-400" />
+                                : <ChevronRight className="h-4 w-4 text-gray-400" />)}
+                            </TableCell>
+                            <TableCell className="whitespace-nowrap text-sm">
+                              {entry.createdAt ? format(new Date(entry.createdAt), 'MMM d, yyyy HH:mm:ss') : ''}
+                            </TableCell>
+                            <TableCell>{entry.userName ?? entry.userId}</TableCell>
+                            <TableCell>
+                              <Badge variant="outline" className="text-xs">{humanize(entry.action)}</Badge>
+                            </TableCell>
+                            <TableCell>
+                              <span className="text-gray-500">{humanize(entry.entityType)}</span>
+                              {entry.entityId ? <span className="text-gray-400"> #{entry.entityId}</span> : null}
+                              {entry.entityName ? <span className="ml-2">{entry.entityName}</span> : null}
+                            </TableCell>
+                            <TableCell className="text-sm text-gray-500">
+                              {changeCount > 0 ? `${changeCount} field${changeCount !== 1 ? 's' : ''}` : '—'}
+                            </TableCell>
+                          </TableRow>
+                          {isExpanded && entry.changes && (
+                            <TableRow className="bg-gray-50 hover:bg-gray-50">
+                              <TableCell />
+                              <TableCell colSpan={5}>
+                                <ChangesTable changes={entry.changes} />
+                              </TableCell>
+                            </TableRow>
+                          )}
+                        </Fragment>
+                      );
+                    })}
+                  </TableBody>
+                </Table>
+              )}
+
+              {hasNextPage && (
+                <div className="flex justify-center pt-4">
+                  <Button variant="outline" size="sm" onClick={() => fetchNextPage()} disabled={isFetchingNextPage}>
+                    {isFetchingNextPage ? "Loading..." : "Load more"}
+                  </Button>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </main>
+    </div>
+  );
+}
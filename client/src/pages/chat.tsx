@@ -7,7 +7,7 @@ import { ScrollArea } from '@/components/ui/scroll-area';
 import { Separator } from '@/components/ui/separator';
 import { Badge } from '@/components/ui/badge';
 import { Input } from '@/components/ui/input';
-import { useQuery } from '@tanstack/react-query';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { 
   Bot, 
   MessageCircle, 
@@ -20,20 +20,162 @@ import {
   Building,
   UserCircle,
   LogOut,
-  Settings
+  Settings,
+  Square,
+  Plus
 } from 'lucide-react';
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuSeparator, DropdownMenuTrigger } from '@/components/ui/dropdown-menu';
 import NotificationsDropdown from '@/components/notifications-dropdown';
+import { ToolActions, AssistantMarkdown } from '@/components/chat-turn';
+import { useChatStream, type ChatTurnData } from '@/hooks/useChatStream';
+import { useToast } from '@/hooks/use-toast';
+import { apiRequest, getApiErrorMessage } from '@/lib/queryClient';
 
 
+// The assistant's channel: one conversation, answered as it's written
+function AssistantChannel({ workspaceId }: { workspaceId: number }) {
+  const [message, setMessage] = useState('');
+  const [conversationId, setConversationId] = useState<string | null>(null);
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  const messagesUrl = `/api/workspaces/${workspaceId}/conversations/${conversationId}/messages`;
+  const { data: turns = [] } = useQuery<ChatTurnData[]>({
+    queryKey: [messagesUrl],
+    enabled: !!conversationId,
+  });
+
+  const chat = useChatStream(workspaceId, {
+    onDone: (turn) => {
+      setConversationId(turn.conversationId);
+      return Promise.all([
+        queryClient.invalidateQueries({ queryKey: [`/api/workspaces/${workspaceId}/conversations/${turn.conversationId}/messages`] }),
+        queryClient.invalidateQueries({ queryKey: [`/api/workspaces/${workspaceId}/conversations`] }),
+      ]);
+    },
+    onError: (description) => {
+      toast({ title: "The assistant couldn't answer", description, variant: "destructive" });
+    },
+  });
+
+  // Confirm or cancel a change the assistant proposed
+  const answerAction = useMutation({
+    mutationFn: async ({ id, approve }: { id: number; approve: boolean }) => {
+      const response = await apiRequest("POST", `/api/workspaces/${workspaceId}/chat/actions/${id}`, { approve });
+      return response.json();
+    },
+    onSuccess: (_turn, { approve }) => {
+      queryClient.invalidateQueries({ queryKey: [messagesUrl] });
+      if (approve) {
+        queryClient.invalidateQueries({ queryKey: [`/api/workspaces/${workspaceId}/tasks`] });
+      }
+    },
+    onError: (error) => {
+      toast({ title: "Couldn't answer the assistant", description: getApiErrorMessage(error, "Failed to answer chat action"), variant: "destructive" });
+    },
+  });
+
+  const handleSendMessage = () => {
+    if (!message.trim() || chat.isStreaming) return;
+    chat.send(message.trim(), conversationId);
+    setMessage('');
+  };
+
+  const userBubble = (text: string, time?: string | null) => (
+    <div className="flex gap-3 justify-end">
+      <div className="flex-1 max-w-md">
+        <div className="bg-blue-500 text-white rounded-lg p-3">
+          <p className="text-sm whitespace-pre-wrap">{text}</p>
+        </div>
+        <p className="text-xs text-gray-500 mt-1 text-right">You{time ? ` • ${new Date(time).toLocaleTimeString()}` : ''}</p>
+      </div>
+    </div>
+  );
+
+  const assistantBubble = (text: string, note: string) => (
+    <div className="flex gap-3">
+      <div className="w-8 h-8 bg-blue-100 rounded-full flex items-center justify-center">
+        <Bot className="h-4 w-4 text-blue-600" />
+      </div>
+      <div className="flex-1">
+        <div className="bg-gray-100 rounded-lg p-3">
+          <AssistantMarkdown>{text}</AssistantMarkdown>
+        </div>
+        <p className="text-xs text-gray-500 mt-1">AI Assistant • {note}</p>
+      </div>
+    </div>
+  );
+
+  return (
+    <>
+      <ScrollArea className="flex-1 p-4">
+        <div className="space-y-4">
+          {assistantBubble("Hello! I'm your AI assistant. I can help you with task management, project insights, and productivity tips. What would you like to work on today?", 'just now')}
+
+          {turns.map((turn) => (
+            <div key={turn.id} className="space-y-4">
+              {userBubble(turn.message, turn.createdAt)}
+              {turn.actions.length > 0 && (
+                <ToolActions
+                  actions={turn.actions}
+                  onAnswer={(id, approve) => answerAction.mutate({ id, approve })}
+                  isAnswering={answerAction.isPending}
+                />
+              )}
+              {turn.response && assistantBubble(turn.response, turn.stopped ? 'stopped' : new Date(turn.createdAt).toLocaleTimeString())}
+            </div>
+          ))}
+
+          {chat.streaming && (
+            <div className="space-y-4">
+              {userBubble(chat.streaming.message)}
+              {assistantBubble(chat.streaming.response || '…', chat.isStopping ? 'stopping' : 'writing')}
+            </div>
+          )}
+        </div>
+      </ScrollArea>
+
+      <div className="border-t border-gray-200 p-4">
+        <div className="flex gap-2">
+          <Button
+            variant="outline"
+            onClick={() => setConversationId(null)}
+            disabled={!conversationId || chat.isStreaming}
+            title="Start new conversation"
+          >
+            <Plus className="h-4 w-4" />
+          </Button>
+          <Input
+            value={message}
+            onChange={(e) => setMessage(e.target.value)}
+            placeholder="Ask your AI assistant anything..."
+            className="flex-1"
+            onKeyPress={(e) => e.key === 'Enter' && handleSendMessage()}
+          />
+          {chat.isStreaming ? (
+            <Button onClick={chat.stop} disabled={chat.isStopping} title="Stop generating">
+              <Square className="h-4 w-4 fill-current" />
+            </Button>
+          ) : (
+            <Button onClick={handleSendMessage} disabled={!message.trim()}>
+              <Send className="h-4 w-4" />
+            </Button>
+          )}
+        </div>
+      </div>
+    </>
+  );
+}
+
 interface ChatContentProps {
+  workspaceId: number;
   selectedChannel: string | null;
   channelType: 'bot' | 'recent' | 'project' | 'dm' | null;
   projects: any[];
   members: any[];
 }
 
-function ChatContent({ selectedChannel, channelType, projects, members }: ChatContentProps) {
+function ChatContent({ workspaceId, selectedChannel, channelType, projects, members }: ChatContentProps) {
   const [message, setMessage] = useState('');
 
   const getChannelTitle = () => {
@@ -88,99 +230,89 @@ function ChatContent({ selectedChannel, channelType, projects, members }: ChatCo
         )}
       </div>
 
-      {/* Messages Area */}
-      <ScrollArea className="flex-1 p-4">
-        <div className="space-y-4">
-          {/* Sample messages based on channel type */}
-          {channelType === 'bot' && (
-            <>
-              <div className="flex gap-3">
-                <div className="w-8 h-8 bg-blue-100 rounded-full flex items-center justify-center">
-                  <Bot className="h-4 w-4 text-blue-600" />
-                </div>
-                <div className="flex-1">
-                  <div className="bg-gray-100 rounded-lg p-3">
-                    <p className="text-sm">Hello! I'm your AI assistant. I can help you with task management, project insights, and productivity tips. What would you like to work on today?</p>
-                  </div>
-                  <p className="text-xs text-gray-500 mt-1">AI Assistant • just now</p>
-                </div>
-              </div>
-            </>
-          )}
-          
-          {channelType === 'recent' && selectedChannel === 'recent-1' && (
-            <>
-              <div className="flex gap-3">
-                <div className="w-8 h-8 bg-green-100 rounded-full flex items-center justify-center">
-                  <User className="h-4 w-4 text-green-600" />
-                </div>
-                <div className="flex-1">
-                  <div className="bg-gray-100 rounded-lg p-3">
-                    <p className="text-sm">We need to finalize the project timeline for Q2. Can we schedule a meeting?</p>
+      {channelType === 'bot' ? (
+        <AssistantChannel workspaceId={workspaceId} />
+      ) : (
+        <>
+          {/* Messages Area */}
+          <ScrollArea className="flex-1 p-4">
+            <div className="space-y-4">
+              {/* Sample messages based on channel type */}
+              {channelType === 'recent' && selectedChannel === 'recent-1' && (
+                <>
+                  <div className="flex gap-3">
+                    <div className="w-8 h-8 bg-green-100 rounded-full flex items-center justify-center">
+                      <User className="h-4 w-4 text-green-600" />
+                    </div>
+                    <div className="flex-1">
+                      <div className="bg-gray-100 rounded-lg p-3">
+                        <p className="text-sm">We need to finalize the project timeline for Q2. Can we schedule a meeting?</p>
+                      </div>
+                      <p className="text-xs text-gray-500 mt-1">Team Member • 2 hours ago</p>
+                    </div>
                   </div>
-                  <p className="text-xs text-gray-500 mt-1">Team Member • 2 hours ago</p>
-                </div>
-              </div>
-              <div className="flex gap-3 justify-end">
-                <div className="flex-1 max-w-md">
-                  <div className="bg-blue-500 text-white rounded-lg p-3">
-                    <p className="text-sm">Sure! How about tomorrow at 2 PM?</p>
+                  <div className="flex gap-3 justify-end">
+                    <div className="flex-1 max-w-md">
+                      <div className="bg-blue-500 text-white rounded-lg p-3">
+                        <p className="text-sm">Sure! How about tomorrow at 2 PM?</p>
+                      </div>
+                      <p className="text-xs text-gray-500 mt-1 text-right">You • 1 hour ago</p>
+                    </div>
                   </div>
-                  <p className="text-xs text-gray-500 mt-1 text-right">You • 1 hour ago</p>
-                </div>
-              </div>
-            </>
-          )}
-
-          {channelType === 'project' && (
-            <>
-              <div className="flex gap-3">
-                <div className="w-8 h-8 bg-purple-100 rounded-full flex items-center justify-center">
-                  <Hash className="h-4 w-4 text-purple-600" />
-                </div>
-                <div className="flex-1">
-                  <div className="bg-gray-100 rounded-lg p-3">
-                    <p className="text-sm">Project channel discussion will appear here. Team members can collaborate on project-specific topics.</p>
+                </>
+              )}
+
+              {channelType === 'project' && (
+                <>
+                  <div className="flex gap-3">
+                    <div className="w-8 h-8 bg-purple-100 rounded-full flex items-center justify-center">
+                      <Hash className="h-4 w-4 text-purple-600" />
+                    </div>
+                    <div className="flex-1">
+                      <div className="bg-gray-100 rounded-lg p-3">
+                        <p className="text-sm">Project channel discussion will appear here. Team members can collaborate on project-specific topics.</p>
+                      </div>
+                      <p className="text-xs text-gray-500 mt-1">System • now</p>
+                    </div>
                   </div>
-                  <p className="text-xs text-gray-500 mt-1">System • now</p>
-                </div>
-              </div>
-            </>
-          )}
-
-          {channelType === 'dm' && (
-            <>
-              <div className="flex gap-3">
-                <div className="w-8 h-8 bg-indigo-100 rounded-full flex items-center justify-center">
-                  <User className="h-4 w-4 text-indigo-600" />
-                </div>
-                <div className="flex-1">
-                  <div className="bg-gray-100 rounded-lg p-3">
-                    <p className="text-sm">Direct message conversation will appear here.</p>
+                </>
+              )}
+
+              {channelType === 'dm' && (
+                <>
+                  <div className="flex gap-3">
+                    <div className="w-8 h-8 bg-indigo-100 rounded-full flex items-center justify-center">
+                      <User className="h-4 w-4 text-indigo-600" />
+                    </div>
+                    <div className="flex-1">
+                      <div className="bg-gray-100 rounded-lg p-3">
+                        <p className="text-sm">Direct message conversation will appear here.</p>
+                      </div>
+                      <p className="text-xs text-gray-500 mt-1">Team Member • now</p>
+                    </div>
                   </div>
-                  <p className="text-xs text-gray-500 mt-1">Team Member • now</p>
-                </div>
-              </div>
-            </>
-          )}
-        </div>
-      </ScrollArea>
-
-      {/* Message Input */}
-      <div className="border-t border-gray-200 p-4">
-        <div className="flex gap-2">
-          <Input
-            value={message}
-            onChange={(e) => setMessage(e.target.value)}
-            placeholder={`Message ${getChannelTitle().toLowerCase()}...`}
-            className="flex-1"
-            onKeyPress={(e) => e.key === 'Enter' && handleSendMessage()}
-          />
-          <Button onClick={handleSendMessage} disabled={!message.trim()}>
-            <Send className="h-4 w-4" />
-          </Button>
-        </div>
-      </div>
+                </>
+              )}
+            </div>
+          </ScrollArea>
+
+          {/* Message Input */}
+          <div className="border-t border-gray-200 p-4">
+            <div className="flex gap-2">
+              <Input
+                value={message}
+                onChange={(e) => setMessage(e.target.value)}
+                placeholder={`Message ${getChannelTitle().toLowerCase()}...`}
+                className="flex-1"
+                onKeyPress={(e) => e.key === 'Enter' && handleSendMessage()}
+              />
+              <Button onClick={handleSendMessage} disabled={!message.trim()}>
+                <Send className="h-4 w-4" />
+              </Button>
+            </div>
+          </div>
+        </>
+      )}
     </div>
   );
 }
@@ -447,6 +579,7 @@ export default function ChatPage() {
 
           {/* Chat Content */}
           <ChatContent 
+            workspaceId={currentWorkspaceId}
             selectedChannel={selectedChannel}
             channelType={channelType}
             projects={Array.isArray(projects) ? projects : []}
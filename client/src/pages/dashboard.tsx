@@ -1,8 +1,10 @@
 import { useState, useEffect } from "react";
-import { useQuery } from "@tanstack/react-query";
+import { useQuery, useInfiniteQuery } from "@tanstack/react-query";
 import { useAuth } from "@/hooks/useAuth";
+import { useWorkspaceSync } from "@/hooks/useWorkspaceSync";
 import { useToast } from "@/hooks/use-toast";
 import { isUnauthorizedError } from "@/lib/authUtils";
+import { apiRequest } from "@/lib/queryClient";
 import Sidebar from "@/components/sidebar";
 import AiChat from "@/components/ai-chat";
 import TimeSlotGrid from "@/components/time-slot-grid";
@@ -11,6 +13,7 @@ import NotificationsDropdown from "@/components/notifications-dropdown";
 import { AIAssistantWidget } from "@/components/ai-assistant-widget";
 import { PersonalizedInsightsCard } from "@/components/personalized-insights-card";
 import GlobalSearch from "@/components/global-search";
+import CalendarSync from "@/components/calendar-sync";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
@@ -47,7 +50,8 @@ import {
   LogOut,
   Brain,
   Award,
-  TrendingUp
+  TrendingUp,
+  GanttChart
 } from "lucide-react";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuSeparator, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
@@ -60,13 +64,20 @@ import CreateCategoryModal from "@/components/modals/create-category-modal";
 import EditCategoryModal from "@/components/modals/edit-category-modal";
 import AddMemberModal from "@/components/modals/add-member-modal";
 import TaskCard from "@/components/task-card";
+import type { TaskCounts, TaskPage, TaskProgress } from "@shared/schema";
 
-type ViewMode = 'home' | 'day' | 'week' | 'month' | 'project' | 'category' | 'team' | 'kanban';
+type ViewMode = 'home' | 'day' | 'week' | 'month' | 'project' | 'category' | 'team' | 'kanban' | 'timeline';
+
+const TASK_PAGE_SIZE = 200;
+const NO_TASKS: TaskCounts = { total: 0, completed: 0 };
+const percentCompleted = (counts: TaskCounts) => counts.completed / Math.max(counts.total, 1);
 
 export default function Dashboard() {
   const { user, isLoading, isAuthenticated } = useAuth();
   const { toast } = useToast();
   const [currentWorkspaceId, setCurrentWorkspaceId] = useState<number | null>(null);
+
+  useWorkspaceSync(currentWorkspaceId);
   // Get default view mode from localStorage or use 'home' as fallback
   const getDefaultViewMode = (): ViewMode => {
     const saved = localStorage.getItem('defaultViewMode');
@@ -87,7 +98,7 @@ export default function Dashboard() {
     const urlProject = urlParams.get('project');
     
     // Set URL parameters first (these take priority)
-    if (urlViewMode && ['home', 'day', 'week', 'month', 'project', 'category', 'team', 'kanban'].includes(urlViewMode)) {
+    if (urlViewMode && ['home', 'day', 'week', 'month', 'project', 'category', 'team', 'kanban', 'timeline'].includes(urlViewMode)) {
       setViewMode(urlViewMode as ViewMode);
     }
     
@@ -168,14 +179,6 @@ export default function Dashboard() {
     enabled: !!currentWorkspaceId,
   });
 
-  // Fetch current workspace tasks
-  const { data: tasks = [], isLoading: tasksLoading, error: tasksError } = useQuery<any[]>({
-    queryKey: [`/api/workspaces/${currentWorkspaceId}/tasks`],
-    enabled: !!currentWorkspaceId,
-  });
-
-
-
   // Fetch due today tasks
   const { data: dueTodayTasks = [] } = useQuery<any[]>({
     queryKey: [`/api/workspaces/${currentWorkspaceId}/tasks/due-today`],
@@ -207,9 +210,13 @@ export default function Dashboard() {
   const currentUserMember = members.find((m: any) => m.user?.id === user?.id);
   const currentUserMemberId = currentUserMember?.id;
 
-  // Calculate task sets for progress rings
-  const allTasks = tasks || []; // All workspace tasks
-  const userTasks = allTasks.filter((task: any) => task.assignedMemberId === currentUserMemberId); // User's assigned tasks
+  // Counts for the progress rings, across the whole workspace
+  const { data: workspaceProgress } = useQuery<TaskProgress>({
+    queryKey: [`/api/workspaces/${currentWorkspaceId}/tasks/progress`],
+    enabled: !!currentWorkspaceId,
+  });
+  const workspaceCounts = workspaceProgress ?? NO_TASKS;
+  const userCounts = (currentUserMemberId && workspaceProgress?.byMember[currentUserMemberId]) || NO_TASKS;
   const userDueTodayTasks = dueTodayTasks.filter(task => task.assignedMemberId === currentUserMemberId); // User's due today tasks
 
   // Save selected filters to localStorage
@@ -236,23 +243,41 @@ export default function Dashboard() {
     }
   }, []);
 
-  // Filter tasks by all three filters: member, project, and category
-  const filteredTasks = tasks?.filter(task => {
-    // Filter by workspace member (compare with assignedMemberId, not assignedTo)
-    const memberMatch = selectedUserId === 'all' || task.assignedMemberId?.toString() === selectedUserId;
-    
-    // Filter by project
-    const projectMatch = selectedProjectId === 'all' || task.projectId?.toString() === selectedProjectId;
-    
-    // Filter by category
-    const categoryMatch = selectedCategoryId === 'all' || task.categoryId?.toString() === selectedCategoryId;
-    
-    return memberMatch && projectMatch && categoryMatch;
-  }) || [];
-
-
+  // Filter tasks by all three filters on the server: member, project, and category
+  const taskFilters = new URLSearchParams();
+  if (selectedUserId !== 'all') taskFilters.set('assignee', selectedUserId);
+  if (selectedProjectId !== 'all') taskFilters.set('projectId', selectedProjectId);
+  if (selectedCategoryId !== 'all') taskFilters.set('categoryId', selectedCategoryId);
+  const taskFilterString = taskFilters.toString();
 
+  // The task list is loaded a page at a time; the counts on the home view come from
+  // /tasks/progress so they cover the tasks that haven't been loaded yet
+  const tasksUrl = `/api/workspaces/${currentWorkspaceId}/tasks`;
+  const { data: taskPages, fetchNextPage, hasNextPage, isFetchingNextPage } = useInfiniteQuery({
+    queryKey: [tasksUrl, taskFilterString],
+    queryFn: async ({ pageParam }) => {
+      const pageParams = new URLSearchParams(taskFilters);
+      pageParams.set('limit', String(TASK_PAGE_SIZE));
+      if (pageParam) pageParams.set('cursor', pageParam);
+      const response = await apiRequest("GET", `${tasksUrl}?${pageParams.toString()}`);
+      return await response.json() as TaskPage;
+    },
+    initialPageParam: null as string | null,
+    getNextPageParam: (page) => page.nextCursor,
+    enabled: !!currentWorkspaceId,
+  });
+  const filteredTasks: any[] = taskPages?.pages.flatMap(page => page.tasks) ?? [];
 
+  const { data: serverFilteredProgress } = useQuery<TaskProgress>({
+    queryKey: [`${tasksUrl}/progress`, taskFilterString],
+    queryFn: async () => {
+      const response = await apiRequest("GET", `${tasksUrl}/progress?${taskFilterString}`);
+      return await response.json();
+    },
+    enabled: !!currentWorkspaceId && !!taskFilterString,
+  });
+  const filteredProgress = taskFilterString ? serverFilteredProgress : workspaceProgress;
+  const filteredCounts = filteredProgress ?? NO_TASKS;
 
   const handleEditTask = (task: any) => {
     setSelectedTask(task);
@@ -416,6 +441,7 @@ export default function Dashboard() {
     project: FolderOpen,
     category: Tags,
     team: Users,
+    timeline: GanttChart,
   };
 
   const viewModeLabels = {
@@ -426,6 +452,7 @@ export default function Dashboard() {
     project: 'Project',
     category: 'Category',
     team: 'Team',
+    timeline: 'Timeline',
   };
 
   return (
@@ -568,6 +595,8 @@ export default function Dashboard() {
                 </SelectContent>
               </Select>
 
+              {currentWorkspaceId && <CalendarSync workspaceId={currentWorkspaceId} filters={taskFilterString} />}
+
               {/* Add Task Button */}
               <Button 
                 onClick={() => setShowCreateTask(true)} 
@@ -703,6 +732,18 @@ export default function Dashboard() {
                 onEditTask={handleEditTask}
                 categories={categories}
               />
+            ) : viewMode === 'timeline' ? (
+              <TimeSlotGrid
+                viewMode={viewMode}
+                tasks={filteredTasks}
+                workspaceId={currentWorkspaceId}
+                onCreateTask={() => setShowCreateTask(true)}
+                onEditTask={handleEditTask}
+                projects={projects}
+                selectedProjectId={selectedProjectId}
+                selectedCategoryId={selectedCategoryId}
+                selectedUserId={selectedUserId}
+              />
             ) : viewMode === 'team' ? (
               <TimeSlotGrid
                 viewMode={viewMode}
@@ -749,7 +790,7 @@ export default function Dashboard() {
                               stroke="currentColor"
                               strokeWidth="10"
                               fill="none"
-                              strokeDasharray={`${2 * Math.PI * 50 * (allTasks.filter((t: any) => t.status === 'completed').length / Math.max(allTasks.length, 1))}, ${2 * Math.PI * 50}`}
+                              strokeDasharray={`${2 * Math.PI * 50 * percentCompleted(workspaceCounts)}, ${2 * Math.PI * 50}`}
                               className="text-blue-500 transition-all duration-1000 ease-out"
                               strokeLinecap="round"
                             />
@@ -757,7 +798,7 @@ export default function Dashboard() {
                           <div className="absolute inset-0 flex items-center justify-center">
                             <div className="text-center">
                               <div className="text-lg font-medium text-foreground">
-                                {Math.round((allTasks.filter((t: any) => t.status === 'completed').length / Math.max(allTasks.length, 1)) * 100)}%
+                                {Math.round(percentCompleted(workspaceCounts) * 100)}%
                               </div>
                             </div>
                           </div>
@@ -785,7 +826,7 @@ export default function Dashboard() {
                               stroke="currentColor"
                               strokeWidth="10"
                               fill="none"
-                              strokeDasharray={`${2 * Math.PI * 50 * (userTasks.filter((t: any) => t.status === 'completed').length / Math.max(userTasks.length, 1))}, ${2 * Math.PI * 50}`}
+                              strokeDasharray={`${2 * Math.PI * 50 * percentCompleted(userCounts)}, ${2 * Math.PI * 50}`}
                               className="text-green-500 transition-all duration-1000 ease-out"
                               strokeLinecap="round"
                             />
@@ -793,7 +834,7 @@ export default function Dashboard() {
                           <div className="absolute inset-0 flex items-center justify-center">
                             <div className="text-center">
                               <div className="text-lg font-medium text-foreground">
-                                {Math.round((userTasks.filter((t: any) => t.status === 'completed').length / Math.max(userTasks.length, 1)) * 100)}%
+                                {Math.round(percentCompleted(userCounts) * 100)}%
                               </div>
                             </div>
                           </div>
@@ -823,7 +864,7 @@ export default function Dashboard() {
                       <div className="flex items-center justify-between">
                         <div>
                           <div className="text-2xl font-bold text-orange-700 dark:text-orange-400">
-                            {filteredTasks.filter((t: any) => t.status !== 'completed').length}
+                            {filteredCounts.total - filteredCounts.completed}
                           </div>
                           <div className="text-sm text-orange-600/80 dark:text-orange-400/80 font-medium">
                             Pending Tasks
@@ -837,7 +878,7 @@ export default function Dashboard() {
                       <div className="flex items-center justify-between">
                         <div>
                           <div className="text-2xl font-bold text-green-700 dark:text-green-400">
-                            {filteredTasks.filter((t: any) => t.status === 'completed').length}
+                            {filteredCounts.completed}
                           </div>
                           <div className="text-sm text-green-600/80 dark:text-green-400/80 font-medium">
                             Completed
@@ -968,9 +1009,8 @@ export default function Dashboard() {
                       </div>
                       <div className="space-y-4">
                         {projects.slice(0, 3).map((project: any) => {
-                          const projectTasks = filteredTasks.filter((t: any) => t.projectId === project.id);
-                          const completedTasks = projectTasks.filter((t: any) => t.status === 'completed');
-                          const progress = projectTasks.length > 0 ? (completedTasks.length / projectTasks.length) * 100 : 0;
+                          const projectCounts = filteredProgress?.byProject[project.id] ?? NO_TASKS;
+                          const progress = percentCompleted(projectCounts) * 100;
                           
                           return (
                             <div key={project.id} className="space-y-3">
@@ -985,8 +1025,8 @@ export default function Dashboard() {
                                 ></div>
                               </div>
                               <div className="flex items-center justify-between text-xs text-muted-foreground">
-                                <span>{projectTasks.length} tasks</span>
-                                <span>{completedTasks.length} completed</span>
+                                <span>{projectCounts.total} tasks</span>
+                                <span>{projectCounts.completed} completed</span>
                               </div>
                             </div>
                           );
@@ -1007,8 +1047,8 @@ export default function Dashboard() {
                       </div>
                       <div className="space-y-4">
                         {members.slice(0, 4).map((member: any) => {
-                          const memberTasks = filteredTasks.filter((t: any) => t.assignedMemberId === member.id);
-                          const pendingTasks = memberTasks.filter((t: any) => t.status !== 'completed');
+                          const memberCounts = filteredProgress?.byMember[member.id] ?? NO_TASKS;
+                          const pendingCount = memberCounts.total - memberCounts.completed;
                           
                           return (
                             <div key={member.id} className="flex items-center justify-between p-3 bg-muted/20 rounded-lg">
@@ -1026,12 +1066,12 @@ export default function Dashboard() {
                                     }
                                   </p>
                                   <p className="text-xs text-muted-foreground">
-                                    {pendingTasks.length} pending task{pendingTasks.length !== 1 ? 's' : ''}
+                                    {pendingCount} pending task{pendingCount !== 1 ? 's' : ''}
                                   </p>
                                 </div>
                               </div>
                               <div className="text-right">
-                                <div className="text-sm font-medium">{memberTasks.length}</div>
+                                <div className="text-sm font-medium">{memberCounts.total}</div>
                                 <div className="text-xs text-muted-foreground">total</div>
                               </div>
                             </div>
@@ -1043,6 +1083,14 @@ export default function Dashboard() {
                 </div>
               </div>
             )}
+
+            {hasNextPage && (
+              <div className="flex justify-center pt-4">
+                <Button variant="outline" size="sm" onClick={() => fetchNextPage()} disabled={isFetchingNextPage}>
+                  {isFetchingNextPage ? "Loading..." : "Load more tasks"}
+                </Button>
+              </div>
+            )}
           </div>
 
           {/* Right Panel - Show on all views */}
@@ -2,6 +2,7 @@ import React, { useState, useEffect } from "react";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { useLocation } from "wouter";
 import { useAuth } from "@/hooks/useAuth";
+import { useWorkspaceSync } from "@/hooks/useWorkspaceSync";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import Sidebar from "@/components/sidebar";
@@ -122,6 +123,8 @@ export default function Financials() {
   const { toast } = useToast();
   const [, setLocation] = useLocation();
   const [currentWorkspaceId, setCurrentWorkspaceId] = useState<number | null>(null);
+
+  useWorkspaceSync(currentWorkspaceId);
   const [selectedProject, setSelectedProject] = useState<any>(null);
   const [activeTab, setActiveTab] = useState("overview");
 
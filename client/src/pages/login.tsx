@@ -0,0 +1,216 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { apiRequest, getApiErrorMessage } from "@/lib/queryClient";
+import { Brain, Mail } from "lucide-react";
+import type { AuthProviderInfo } from "@shared/schema";
+
+const ERROR_MESSAGES: Record<string, string> = {
+  link_expired: "That link has expired or was already used. Request a new one below.",
+  sign_in_failed: "Sign-in didn't complete. Please try again.",
+};
+
+// Successful sign-ins answer with where to go next (the dashboard, or the workspace of
+// an invitation)
+async function postForRedirect(url: string, body: unknown) {
+  const response = await apiRequest("POST", url, body);
+  const { redirectTo } = await response.json();
+  window.location.href = redirectTo || '/';
+}
+
+async function postForMessage(url: string, body: unknown): Promise<string> {
+  const response = await apiRequest("POST", url, body);
+  return (await response.json()).message;
+}
+
+// Lists the sign-in methods the server has enabled (AUTH_PROVIDERS)
+export default function Login() {
+  const { data: providers = [], isLoading } = useQuery<AuthProviderInfo[]>({ queryKey: ["/api/auth/providers"] });
+  const errorCode = new URLSearchParams(window.location.search).get('error');
+
+  const redirectProviders = providers.filter(provider => provider.loginUrl);
+  const has = (id: AuthProviderInfo['id']) => providers.some(provider => provider.id === id);
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-gray-50 to-white px-4">
+      <Card className="w-full max-w-md">
+        <CardHeader className="text-center">
+          <div className="w-10 h-10 bg-gradient-to-r from-primary to-secondary rounded-lg flex items-center justify-center mx-auto mb-2">
+            <Brain className="h-6 w-6 text-white" />
+          </div>
+          <CardTitle>Sign in to TasksAI</CardTitle>
+          <CardDescription>Choose how you'd like to sign in.</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          {errorCode && ERROR_MESSAGES[errorCode] && (
+            <Alert variant="destructive">
+              <AlertDescription>{ERROR_MESSAGES[errorCode]}</AlertDescription>
+            </Alert>
+          )}
+
+          {isLoading ? (
+            <p className="text-sm text-center text-gray-500">Loading...</p>
+          ) : providers.length === 0 ? (
+            <p className="text-sm text-center text-gray-500">No sign-in methods are set up on this server.</p>
+          ) : (
+            <>
+              {redirectProviders.map((provider) => (
+                <Button key={provider.id} className="w-full" onClick={() => { window.location.href = provider.loginUrl!; }}>
+                  Continue with {provider.label}
+                </Button>
+              ))}
+              {has('password') && <PasswordForms />}
+              {has('magic_link') && <MagicLinkForm />}
+              {has('local') && <LocalForm />}
+            </>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
+
+function FormMessage({ error, notice }: { error?: string | null; notice?: string | null }) {
+  if (error) return <p className="text-sm text-red-600">{error}</p>;
+  if (notice) return <p className="text-sm text-green-700">{notice}</p>;
+  return null;
+}
+
+function PasswordForms() {
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [firstName, setFirstName] = useState('');
+  const [lastName, setLastName] = useState('');
+  const [notice, setNotice] = useState<string | null>(null);
+
+  const signIn = useMutation({ mutationFn: () => postForRedirect('/api/auth/password/login', { email, password }) });
+  const register = useMutation({
+    mutationFn: () => postForMessage('/api/auth/password/register', { email, password, firstName, lastName }),
+    onSuccess: setNotice,
+  });
+  const forgot = useMutation({
+    mutationFn: () => postForMessage('/api/auth/password/forgot', { email }),
+    onSuccess: setNotice,
+  });
+
+  const reset = () => {
+    setNotice(null);
+    signIn.reset();
+    register.reset();
+    forgot.reset();
+  };
+
+  return (
+    <Tabs defaultValue="sign-in" onValueChange={reset}>
+      <TabsList className="grid w-full grid-cols-2">
+        <TabsTrigger value="sign-in">Sign in</TabsTrigger>
+        <TabsTrigger value="register">Create account</TabsTrigger>
+      </TabsList>
+
+      <TabsContent value="sign-in">
+        <form className="space-y-3" onSubmit={(e) => { e.preventDefault(); setNotice(null); signIn.mutate(); }}>
+          <div className="space-y-1">
+            <Label htmlFor="login-email">Email</Label>
+            <Input id="login-email" type="email" autoComplete="email" value={email} onChange={(e) => setEmail(e.target.value)} required />
+          </div>
+          <div className="space-y-1">
+            <div className="flex items-center justify-between">
+              <Label htmlFor="login-password">Password</Label>
+              <button
+                type="button"
+                className="text-xs text-primary hover:underline"
+                onClick={() => email ? forgot.mutate() : setNotice("Enter your email first, then choose \"Forgot password\".")}
+                disabled={forgot.isPending}
+              >
+                Forgot password?
+              </button>
+            </div>
+            <Input id="login-password" type="password" autoComplete="current-password" value={password} onChange={(e) => setPassword(e.target.value)} required />
+          </div>
+          <FormMessage
+            error={signIn.error ? getApiErrorMessage(signIn.error, "Failed to sign in") : forgot.error ? getApiErrorMessage(forgot.error, "Failed to send reset link") : null}
+            notice={notice}
+          />
+          <Button type="submit" className="w-full" disabled={signIn.isPending}>
+            {signIn.isPending ? "Signing in..." : "Sign in"}
+          </Button>
+        </form>
+      </TabsContent>
+
+      <TabsContent value="register">
+        <form className="space-y-3" onSubmit={(e) => { e.preventDefault(); register.mutate(); }}>
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-1">
+              <Label htmlFor="register-first-name">First name</Label>
+              <Input id="register-first-name" autoComplete="given-name" value={firstName} onChange={(e) => setFirstName(e.target.value)} />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="register-last-name">Last name</Label>
+              <Input id="register-last-name" autoComplete="family-name" value={lastName} onChange={(e) => setLastName(e.target.value)} />
+            </div>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="register-email">Email</Label>
+            <Input id="register-email" type="email" autoComplete="email" value={email} onChange={(e) => setEmail(e.target.value)} required />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="register-password">Password</Label>
+            <Input id="register-password" type="password" autoComplete="new-password" minLength={8} value={password} onChange={(e) => setPassword(e.target.value)} required />
+            <p className="text-xs text-gray-500">At least 8 characters.</p>
+          </div>
+          <FormMessage error={register.error ? getApiErrorMessage(register.error, "Failed to create account") : null} notice={notice} />
+          <Button type="submit" className="w-full" disabled={register.isPending}>
+            {register.isPending ? "Creating account..." : "Create account"}
+          </Button>
+        </form>
+      </TabsContent>
+    </Tabs>
+  );
+}
+
+function MagicLinkForm() {
+  const [email, setEmail] = useState('');
+  const send = useMutation({ mutationFn: () => postForMessage('/api/auth/magic-link', { email }) });
+
+  return (
+    <form className="space-y-3 border-t pt-6" onSubmit={(e) => { e.preventDefault(); send.mutate(); }}>
+      <Label htmlFor="magic-link-email">Sign in without a password</Label>
+      <div className="flex space-x-2">
+        <Input id="magic-link-email" type="email" autoComplete="email" placeholder="you@example.com" value={email} onChange={(e) => setEmail(e.target.value)} required />
+        <Button type="submit" variant="outline" disabled={send.isPending}>
+          <Mail className="h-4 w-4 mr-2" />
+          Email link
+        </Button>
+      </div>
+      <FormMessage error={send.error ? getApiErrorMessage(send.error, "Failed to send sign-in link") : null} notice={send.data} />
+    </form>
+  );
+}
+
+function LocalForm() {
+  const [email, setEmail] = useState('dev@example.com');
+  const [firstName, setFirstName] = useState('');
+  const signIn = useMutation({ mutationFn: () => postForRedirect('/api/auth/local', { email, firstName }) });
+
+  return (
+    <form className="space-y-3 border-t pt-6" onSubmit={(e) => { e.preventDefault(); signIn.mutate(); }}>
+      <div>
+        <Label>Development sign-in</Label>
+        <p className="text-xs text-gray-500">Signs in as any email without a password. Only available in development.</p>
+      </div>
+      <div className="grid grid-cols-2 gap-3">
+        <Input type="email" aria-label="Email" value={email} onChange={(e) => setEmail(e.target.value)} required />
+        <Input aria-label="First name" placeholder="First name" value={firstName} onChange={(e) => setFirstName(e.target.value)} />
+      </div>
+      <FormMessage error={signIn.error ? getApiErrorMessage(signIn.error, "Failed to sign in") : null} />
+      <Button type="submit" variant="secondary" className="w-full" disabled={signIn.isPending}>
+        Sign in
+      </Button>
+    </form>
+  );
+}
@@ -9,7 +9,7 @@ import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { Button } from "@/components/ui/button";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Progress } from "@/components/ui/progress";
-import { Mail, User, Calendar, CheckCircle, Clock, AlertCircle, ArrowLeft, Bot, Settings, Building, UserCircle, LogOut, Trash2, UserMinus } from "lucide-react";
+import { Mail, User, Calendar, CheckCircle, Clock, AlertCircle, ArrowLeft, Bot, Settings, Building, UserCircle, LogOut, Trash2, UserMinus, ScrollText } from "lucide-react";
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuSeparator, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from "@/components/ui/alert-dialog";
 import { useToast } from "@/hooks/use-toast";
@@ -21,6 +21,8 @@ import CreateCategoryModal from "@/components/modals/create-category-modal";
 import EditProjectModal from "@/components/modals/edit-project-modal";
 import EditCategoryModal from "@/components/modals/edit-category-modal";
 import AddMemberModal from "@/components/modals/add-member-modal";
+import WebhooksSettings from "@/components/webhooks-settings";
+import ApiTokensSettings from "@/components/api-tokens-settings";
 
 interface Member {
   id: number;
@@ -104,8 +106,15 @@ export default function MembersPage() {
     queryKey: [`/api/workspaces/${currentWorkspaceId}/categories`],
   });
 
-  // Check if current user is workspace owner
-  const isWorkspaceOwner = workspaces?.find((ws: any) => ws.id === currentWorkspaceId)?.ownerId === user?.id;
+  // Only admins (including the workspace owner) can manage members
+  const { data: access } = useQuery<any>({
+    queryKey: [`/api/workspaces/${currentWorkspaceId}/access`],
+    enabled: !!currentWorkspaceId,
+  });
+  const canManageMembers = !!access?.permissions?.manageMembers;
+  const canManageIntegrations = !!access?.permissions?.manageIntegrations;
+  const canViewAuditLog = !!access?.permissions?.viewAuditLog;
+  const workspaceOwnerId = workspaces?.find((ws: any) => ws.id === currentWorkspaceId)?.ownerId;
 
   // Remove member mutation
   const removeMemberMutation = useMutation({
@@ -230,6 +239,15 @@ export default function MembersPage() {
               <Badge variant="outline" className="text-sm px-2 py-1">
                 {members.length} Member{members.length !== 1 ? 's' : ''}
               </Badge>
+
+              {canViewAuditLog && (
+                <Link href={`/workspace/${currentWorkspaceId}/audit-log`}>
+                  <Button variant="outline" size="sm">
+                    <ScrollText className="h-4 w-4 mr-2" />
+                    Audit log
+                  </Button>
+                </Link>
+              )}
               
               <NotificationsDropdown workspaceId={currentWorkspaceId} />
               
@@ -398,7 +416,7 @@ export default function MembersPage() {
                   )}
                   
                   {/* Remove member button - only for workspace owners */}
-                  {isWorkspaceOwner && member.userId !== user?.id && (
+                  {canManageMembers && member.userId !== user?.id && member.userId !== workspaceOwnerId && (
                     <AlertDialog>
                       <AlertDialogTrigger asChild>
                         <Button variant="outline" size="sm" className="text-red-600 hover:text-red-700 hover:bg-red-50">
@@ -440,6 +458,9 @@ export default function MembersPage() {
           <p className="text-gray-600">This workspace doesn't have any members yet.</p>
         </div>
       )}
+
+      {canManageIntegrations && <WebhooksSettings workspaceId={currentWorkspaceId} />}
+      <ApiTokensSettings workspaceId={currentWorkspaceId} canManageWorkspaceTokens={canManageIntegrations} />
         </div>
       </main>
 
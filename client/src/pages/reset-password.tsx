@@ -0,0 +1,63 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { apiRequest, getApiErrorMessage } from "@/lib/queryClient";
+
+// Opened from the reset email (/reset-password?token=...); signs the user in afterwards
+export default function ResetPassword() {
+  const token = new URLSearchParams(window.location.search).get('token') ?? '';
+  const [password, setPassword] = useState('');
+  const [confirm, setConfirm] = useState('');
+
+  const resetMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/auth/password/reset", { token, password });
+      const { redirectTo } = await response.json();
+      window.location.href = redirectTo || '/';
+    },
+  });
+
+  const mismatch = confirm.length > 0 && password !== confirm;
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-gray-50 to-white px-4">
+      <Card className="w-full max-w-md">
+        <CardHeader>
+          <CardTitle>Choose a new password</CardTitle>
+          <CardDescription>You'll be signed in once it's saved.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {!token ? (
+            <p className="text-sm text-gray-600">
+              This page needs the link from your reset email. <a href="/login" className="text-primary hover:underline">Back to sign in</a>
+            </p>
+          ) : (
+            <form className="space-y-3" onSubmit={(e) => { e.preventDefault(); resetMutation.mutate(); }}>
+              <div className="space-y-1">
+                <Label htmlFor="reset-password">New password</Label>
+                <Input id="reset-password" type="password" autoComplete="new-password" minLength={8} value={password} onChange={(e) => setPassword(e.target.value)} required />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="reset-confirm">Repeat it</Label>
+                <Input id="reset-confirm" type="password" autoComplete="new-password" value={confirm} onChange={(e) => setConfirm(e.target.value)} required />
+              </div>
+              {mismatch && <p className="text-sm text-red-600">The passwords don't match.</p>}
+              {resetMutation.error && (
+                <p className="text-sm text-red-600">
+                  {getApiErrorMessage(resetMutation.error, "Failed to reset password")}{' '}
+                  <a href="/login" className="underline">Request a new link</a>
+                </p>
+              )}
+              <Button type="submit" className="w-full" disabled={mismatch || password.length < 8 || resetMutation.isPending}>
+                {resetMutation.isPending ? "Saving..." : "Save password"}
+              </Button>
+            </form>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
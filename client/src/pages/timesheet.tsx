@@ -0,0 +1,285 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { useParams } from "wouter";
+import Sidebar from "@/components/sidebar";
+import NotificationsDropdown from "@/components/notifications-dropdown";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Download, Clock } from "lucide-react";
+import { useWorkspaceSync } from "@/hooks/useWorkspaceSync";
+import type { Timesheet, TimesheetRow } from "@shared/schema";
+
+const toDateInput = (date: Date) => date.toISOString().split('T')[0];
+
+// Default to the current calendar month
+const startOfMonth = () => {
+  const date = new Date();
+  return toDateInput(new Date(date.getFullYear(), date.getMonth(), 1));
+};
+
+function formatHours(hours: number) {
+  return `${hours.toFixed(2)}h`;
+}
+
+function VarianceBadge({ row }: { row: TimesheetRow }) {
+  if (row.estimatedHours <= 0) {
+    return <span className="text-xs text-gray-400">No estimate</span>;
+  }
+  const variance = row.actualHours - row.estimatedHours;
+  const className = variance > 0
+    ? "bg-red-50 text-red-700 border-red-200"
+    : "bg-green-50 text-green-700 border-green-200";
+  return (
+    <Badge variant="outline" className={`text-xs ${className}`}>
+      {variance > 0 ? '+' : ''}{variance.toFixed(2)}h
+    </Badge>
+  );
+}
+
+function SummaryTable({ title, rows }: { title: string; rows: TimesheetRow[] }) {
+  const totalActual = rows.reduce((sum, row) => sum + row.actualHours, 0);
+  const totalEstimated = rows.reduce((sum, row) => sum + row.estimatedHours, 0);
+
+  return (
+    <Card>
+      <CardHeader className="pb-2">
+        <CardTitle className="text-base">{title}</CardTitle>
+      </CardHeader>
+      <CardContent>
+        {rows.length === 0 ? (
+          <p className="text-sm text-gray-500 py-4 text-center">No time logged in this period</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Name</TableHead>
+                <TableHead className="text-right">Tasks</TableHead>
+                <TableHead className="text-right">Estimated</TableHead>
+                <TableHead className="text-right">Actual</TableHead>
+                <TableHead className="text-right">Variance</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {rows.map((row) => (
+                <TableRow key={row.id ?? 'none'}>
+                  <TableCell className="font-medium">{row.name}</TableCell>
+                  <TableCell className="text-right">{row.taskCount}</TableCell>
+                  <TableCell className="text-right">{formatHours(row.estimatedHours)}</TableCell>
+                  <TableCell className="text-right">{formatHours(row.actualHours)}</TableCell>
+                  <TableCell className="text-right"><VarianceBadge row={row} /></TableCell>
+                </TableRow>
+              ))}
+              <TableRow className="font-semibold">
+                <TableCell>Total</TableCell>
+                <TableCell />
+                <TableCell className="text-right">{formatHours(totalEstimated)}</TableCell>
+                <TableCell className="text-right">{formatHours(totalActual)}</TableCell>
+                <TableCell />
+              </TableRow>
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+export default function TimesheetPage() {
+  const { workspaceId } = useParams();
+  const currentWorkspaceId = parseInt(workspaceId || "1");
+
+  useWorkspaceSync(currentWorkspaceId);
+
+  const [from, setFrom] = useState(startOfMonth);
+  const [to, setTo] = useState(() => toDateInput(new Date()));
+  const [projectId, setProjectId] = useState<string>("all");
+
+  const { data: workspaces = [] } = useQuery<any[]>({
+    queryKey: ["/api/workspaces"],
+  });
+
+  const { data: projects = [] } = useQuery<any[]>({
+    queryKey: [`/api/workspaces/${currentWorkspaceId}/projects`],
+    enabled: !!currentWorkspaceId,
+  });
+
+  const { data: categories = [] } = useQuery<any[]>({
+    queryKey: [`/api/workspaces/${currentWorkspaceId}/categories`],
+    enabled: !!currentWorkspaceId,
+  });
+
+  const { data: access } = useQuery<any>({
+    queryKey: [`/api/workspaces/${currentWorkspaceId}/access`],
+    enabled: !!currentWorkspaceId,
+  });
+  const seesEveryone = !!access?.permissions?.manageFinances;
+
+  const params = new URLSearchParams({ from, to });
+  if (projectId !== 'all') params.set('projectId', projectId);
+  const queryString = params.toString();
+
+  const { data: timesheet, isLoading } = useQuery<Timesheet>({
+    queryKey: [`/api/workspaces/${currentWorkspaceId}/timesheet`, queryString],
+    queryFn: async () => {
+      const response = await fetch(`/api/workspaces/${currentWorkspaceId}/timesheet?${queryString}`, { credentials: "include" });
+      if (!response.ok) throw new Error('Failed to fetch timesheet');
+      return response.json();
+    },
+    enabled: !!currentWorkspaceId && !!from && !!to && from <= to,
+  });
+
+  const exportUrl = (format: 'csv' | 'json') =>
+    `/api/workspaces/${currentWorkspaceId}/timesheet/export?${queryString}&format=${format}`;
+
+  return (
+    <div className="flex h-screen bg-gray-50">
+      <Sidebar
+        workspaces={workspaces}
+        currentWorkspaceId={currentWorkspaceId}
+        onWorkspaceChange={(id) => {
+          window.location.href = `/workspace/${id}/timesheet`;
+        }}
+        projects={projects}
+        categories={categories}
+        viewMode="home"
+        onViewModeChange={() => {}}
+        onProjectFilterChange={() => {}}
+        onCreateWorkspace={() => {}}
+        onCreateProject={() => {}}
+        onCreateCategory={() => {}}
+        onCreateMember={() => {}}
+        onEditProject={() => {}}
+        onEditCategory={() => {}}
+        currentPage="timesheet"
+      />
+
+      <main className="flex-1 overflow-y-auto">
+        <header className="bg-white border-b border-gray-200 px-6 py-4">
+          <div className="flex items-center justify-between">
+            <div>
+              <h1 className="text-2xl font-semibold text-gray-900 flex items-center gap-2">
+                <Clock className="h-6 w-6" />
+                Timesheet
+              </h1>
+              <p className="text-gray-600 text-sm">
+                {seesEveryone ? "Logged time per member and project against estimates" : "Your logged time against estimates"}
+              </p>
+            </div>
+            <NotificationsDropdown workspaceId={currentWorkspaceId} />
+          </div>
+        </header>
+
+        <div className="p-6 space-y-6">
+          <div className="flex flex-wrap items-end gap-4">
+            <div className="space-y-1">
+              <Label htmlFor="timesheet-from">From</Label>
+              <Input id="timesheet-from" type="date" value={from} max={to} onChange={(e) => setFrom(e.target.value)} />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="timesheet-to">To</Label>
+              <Input id="timesheet-to" type="date" value={to} min={from} onChange={(e) => setTo(e.target.value)} />
+            </div>
+            <div className="space-y-1">
+              <Label>Project</Label>
+              <Select value={projectId} onValueChange={setProjectId}>
+                <SelectTrigger className="w-48">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All projects</SelectItem>
+                  {projects.map((project: any) => (
+                    <SelectItem key={project.id} value={project.id.toString()}>
+                      {project.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="flex gap-2 ml-auto">
+              <Button variant="outline" asChild>
+                <a href={exportUrl('csv')} download>
+                  <Download className="h-4 w-4 mr-2" />
+                  Export CSV
+                </a>
+              </Button>
+              <Button variant="outline" asChild>
+                <a href={exportUrl('json')} download>
+                  <Download className="h-4 w-4 mr-2" />
+                  Export JSON
+                </a>
+              </Button>
+            </div>
+          </div>
+
+          {isLoading ? (
+            <div className="animate-pulse space-y-4">
+              <div className="h-40 bg-gray-200 rounded"></div>
+              <div className="h-40 bg-gray-200 rounded"></div>
+            </div>
+          ) : (
+            <>
+              <div className="grid grid-cols-1 xl:grid-cols-2 gap-6">
+                <SummaryTable title="By Member" rows={timesheet?.byMember || []} />
+                <SummaryTable title="By Project" rows={timesheet?.byProject || []} />
+              </div>
+
+              <Card>
+                <CardHeader className="pb-2">
+                  <CardTitle className="text-base">Entries</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  {!timesheet || timesheet.entries.length === 0 ? (
+                    <p className="text-sm text-gray-500 py-4 text-center">No entries</p>
+                  ) : (
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>Date</TableHead>
+                          <TableHead>Member</TableHead>
+                          <TableHead>Project</TableHead>
+                          <TableHead>Task</TableHead>
+                          <TableHead>Note</TableHead>
+                          <TableHead className="text-right">Hours</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {timesheet.entries.map((entry) => (
+                          <TableRow key={entry.id}>
+                            <TableCell>{entry.date}</TableCell>
+                            <TableCell>{entry.userName}</TableCell>
+                            <TableCell>{entry.projectName || '—'}</TableCell>
+                            <TableCell>{entry.taskTitle}</TableCell>
+                            <TableCell className="text-gray-500 max-w-xs truncate">{entry.note}</TableCell>
+                            <TableCell className="text-right">{entry.hours.toFixed(2)}</TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  )}
+                </CardContent>
+              </Card>
+            </>
+          )}
+        </div>
+      </main>
+    </div>
+  );
+}
@@ -24,54 +24,100 @@ import {
   Archive,
   MoreHorizontal,
   Eye,
-  Edit
+  Edit,
+  ChevronRight,
+  FolderInput,
+  History
 } from 'lucide-react';
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuSeparator, DropdownMenuTrigger } from '@/components/ui/dropdown-menu';
-import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
 import { Card, CardContent } from '@/components/ui/card';
 import Sidebar from '@/components/sidebar';
+import FileVersionsDialog from '@/components/file-versions-dialog';
 import NotificationsDropdown from '@/components/notifications-dropdown';
-import { apiRequest } from '@/lib/queryClient';
+import { apiRequest, getApiErrorMessage } from '@/lib/queryClient';
 import { useToast } from '@/hooks/use-toast';
+import { useWorkspaceSync } from '@/hooks/useWorkspaceSync';
+
+const FOLDER_MIME_TYPE = 'application/folder';
 
 interface VaultFile {
   id: number;
   name: string;
-  type: 'file' | 'folder';
+  mimeType: string;
   size?: number;
+  currentVersion?: number;
   extension?: string;
   path: string;
   projectId?: number;
   workspaceId: number;
   createdAt: string;
   updatedAt: string;
-  parentId?: number;
+  parentId?: number | null;
   content?: string;
   url?: string;
 }
 
+interface Breadcrumb {
+  id: number;
+  name: string;
+  path: string;
+  parentId: number | null;
+}
+
+const isFolder = (file: VaultFile) => file.mimeType === FOLDER_MIME_TYPE;
+
 interface FileExplorerProps {
   selectedProject: any;
   workspaceId: number;
   files: VaultFile[];
+  allFiles: VaultFile[];
+  currentFolderId: number | null;
+  breadcrumbs: Breadcrumb[];
+  onOpenFolder: (folderId: number | null) => void;
   onFileUpload: (file: File, projectId?: number, parentId?: number) => void;
   onFolderCreate: (name: string, projectId?: number, parentId?: number) => void;
-  onFileDelete: (fileId: number) => void;
+  onFileDelete: (file: VaultFile) => void;
   onFileRename: (fileId: number, newName: string) => void;
+  onFileMove: (fileId: number, parentId: number | null) => void;
 }
 
-const FileExplorer = ({ selectedProject, workspaceId, files, onFileUpload, onFolderCreate, onFileDelete, onFileRename }: FileExplorerProps) => {
-  const [currentPath, setCurrentPath] = useState<string>('/');
+const FileExplorer = ({
+  selectedProject,
+  workspaceId,
+  files,
+  allFiles,
+  currentFolderId,
+  breadcrumbs,
+  onOpenFolder,
+  onFileUpload,
+  onFolderCreate,
+  onFileDelete,
+  onFileRename,
+  onFileMove,
+}: FileExplorerProps) => {
   const [searchQuery, setSearchQuery] = useState('');
   const [showCreateFolder, setShowCreateFolder] = useState(false);
   const [newFolderName, setNewFolderName] = useState('');
-  const [selectedFiles, setSelectedFiles] = useState<number[]>([]);
-  const [viewMode, setViewMode] = useState<'grid' | 'list'>('grid');
+  const [renameTarget, setRenameTarget] = useState<VaultFile | null>(null);
+  const [renameValue, setRenameValue] = useState('');
+  const [moveTarget, setMoveTarget] = useState<VaultFile | null>(null);
+  const [moveDestination, setMoveDestination] = useState<string>('root');
+  const [versionsTarget, setVersionsTarget] = useState<VaultFile | null>(null);
+  const [draggedFileId, setDraggedFileId] = useState<number | null>(null);
+  const [dropTargetId, setDropTargetId] = useState<number | null>(null);
 
   const getFileIcon = (file: VaultFile) => {
-    if (file.type === 'folder') return Folder;
+    if (isFolder(file)) return Folder;
     
-    const ext = file.extension?.toLowerCase();
+    const ext = (file.extension || file.name.split('.').pop())?.toLowerCase();
     if (['jpg', 'jpeg', 'png', 'gif', 'svg'].includes(ext || '')) return Image;
     if (['mp4', 'avi', 'mov', 'mkv'].includes(ext || '')) return Video;
     if (['zip', 'rar', '7z', 'tar'].includes(ext || '')) return Archive;
@@ -87,12 +133,60 @@ const FileExplorer = ({ selectedProject, workspaceId, files, onFileUpload, onFol
     return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + ' ' + sizes[i];
   };
 
-  const filteredFiles = files.filter(file => {
+  // Searching looks through every folder, browsing shows the current one
+  const filteredFiles = (searchQuery ? allFiles : files).filter(file => {
     const matchesSearch = file.name.toLowerCase().includes(searchQuery.toLowerCase());
     const matchesProject = selectedProject ? file.projectId === selectedProject.id : !file.projectId;
     return matchesSearch && matchesProject;
   });
 
+  // A folder can't be moved into itself or anything below it
+  const moveDestinations = (file: VaultFile) => allFiles.filter(folder =>
+    isFolder(folder) &&
+    folder.id !== file.id &&
+    !(isFolder(file) && folder.path.startsWith(`${file.path}/`))
+  );
+
+  const openRename = (file: VaultFile) => {
+    setRenameTarget(file);
+    setRenameValue(file.name);
+  };
+
+  const handleRename = () => {
+    if (renameTarget && renameValue.trim() && renameValue.trim() !== renameTarget.name) {
+      onFileRename(renameTarget.id, renameValue.trim());
+    }
+    setRenameTarget(null);
+  };
+
+  const openMove = (file: VaultFile) => {
+    setMoveTarget(file);
+    setMoveDestination(file.parentId ? file.parentId.toString() : 'root');
+  };
+
+  const handleMove = () => {
+    if (moveTarget) {
+      const parentId = moveDestination === 'root' ? null : parseInt(moveDestination);
+      if (parentId !== (moveTarget.parentId ?? null)) {
+        onFileMove(moveTarget.id, parentId);
+      }
+    }
+    setMoveTarget(null);
+  };
+
+  const handleDrop = (folder: VaultFile | null) => {
+    const fileId = draggedFileId;
+    setDraggedFileId(null);
+    setDropTargetId(null);
+    if (fileId === null || fileId === folder?.id) return;
+    const file = allFiles.find(f => f.id === fileId);
+    if (!file || (file.parentId ?? null) === (folder?.id ?? null)) return;
+    if (folder && isFolder(file) && folder.path.startsWith(`${file.path}/`)) return;
+    onFileMove(fileId, folder?.id ?? null);
+  };
+
+  const downloadUrl = (file: VaultFile) => `/api/workspaces/${workspaceId}/files/${file.id}/download`;
+
   const handleFileUploadClick = () => {
     const input = document.createElement('input');
     input.type = 'file';
@@ -101,7 +195,7 @@ const FileExplorer = ({ selectedProject, workspaceId, files, onFileUpload, onFol
       const files = (e.target as HTMLInputElement).files;
       if (files) {
         Array.from(files).forEach(file => {
-          onFileUpload(file, selectedProject?.id);
+          onFileUpload(file, selectedProject?.id, currentFolderId ?? undefined);
         });
       }
     };
@@ -110,7 +204,7 @@ const FileExplorer = ({ selectedProject, workspaceId, files, onFileUpload, onFol
 
   const handleCreateFolder = () => {
     if (newFolderName.trim()) {
-      onFolderCreate(newFolderName.trim(), selectedProject?.id);
+      onFolderCreate(newFolderName.trim(), selectedProject?.id, currentFolderId ?? undefined);
       setNewFolderName('');
       setShowCreateFolder(false);
     }
@@ -149,6 +243,40 @@ const FileExplorer = ({ selectedProject, workspaceId, files, onFileUpload, onFol
           </div>
         </div>
         
+        <div className="flex items-center gap-1 text-sm mb-3 flex-wrap">
+          <button
+            className={`px-1 rounded hover:text-blue-600 ${dropTargetId === 0 ? 'bg-blue-50 text-blue-600' : 'text-gray-600'}`}
+            onClick={() => onOpenFolder(null)}
+            onDragOver={(e) => {
+              if (draggedFileId === null) return;
+              e.preventDefault();
+              setDropTargetId(0);
+            }}
+            onDragLeave={() => setDropTargetId(null)}
+            onDrop={(e) => {
+              e.preventDefault();
+              handleDrop(null);
+            }}
+          >
+            {selectedProject ? selectedProject.name : 'Workspace'}
+          </button>
+          {breadcrumbs.map((crumb, index) => (
+            <React.Fragment key={crumb.id}>
+              <ChevronRight className="h-3 w-3 text-gray-400" />
+              {index === breadcrumbs.length - 1 ? (
+                <span className="px-1 font-medium text-gray-900">{crumb.name}</span>
+              ) : (
+                <button
+                  className="px-1 rounded text-gray-600 hover:text-blue-600"
+                  onClick={() => onOpenFolder(crumb.id)}
+                >
+                  {crumb.name}
+                </button>
+              )}
+            </React.Fragment>
+          ))}
+        </div>
+
         <div className="flex items-center gap-2">
           <div className="relative flex-1 max-w-md">
             <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-gray-400" />
@@ -167,7 +295,9 @@ const FileExplorer = ({ selectedProject, workspaceId, files, onFileUpload, onFol
         {filteredFiles.length === 0 ? (
           <div className="flex flex-col items-center justify-center h-64 text-center">
             <Folder className="h-16 w-16 text-gray-300 mb-4" />
-            <h3 className="text-lg font-medium text-gray-500 mb-2">No files yet</h3>
+            <h3 className="text-lg font-medium text-gray-500 mb-2">
+              {searchQuery ? 'No matching files' : currentFolderId ? 'This folder is empty' : 'No files yet'}
+            </h3>
             <p className="text-gray-400 mb-4">
               {selectedProject 
                 ? `Upload files to ${selectedProject.name} project`
@@ -183,13 +313,44 @@ const FileExplorer = ({ selectedProject, workspaceId, files, onFileUpload, onFol
           <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 lg:grid-cols-4 xl:grid-cols-5 gap-4">
             {filteredFiles.map((file) => {
               const IconComponent = getFileIcon(file);
+              const folder = isFolder(file);
               return (
-                <Card key={file.id} className="hover:shadow-md transition-shadow cursor-pointer group">
+                <Card
+                  key={file.id}
+                  className={`hover:shadow-md transition-shadow cursor-pointer group ${
+                    dropTargetId === file.id ? 'ring-2 ring-blue-400' : ''
+                  } ${draggedFileId === file.id ? 'opacity-50' : ''}`}
+                  draggable
+                  onDragStart={(e) => {
+                    e.dataTransfer.effectAllowed = 'move';
+                    setDraggedFileId(file.id);
+                  }}
+                  onDragEnd={() => {
+                    setDraggedFileId(null);
+                    setDropTargetId(null);
+                  }}
+                  onDragOver={(e) => {
+                    if (!folder || draggedFileId === null || draggedFileId === file.id) return;
+                    e.preventDefault();
+                    setDropTargetId(file.id);
+                  }}
+                  onDragLeave={() => setDropTargetId(current => current === file.id ? null : current)}
+                  onDrop={(e) => {
+                    e.preventDefault();
+                    if (folder) handleDrop(file);
+                  }}
+                  onDoubleClick={() => {
+                    if (folder) {
+                      setSearchQuery('');
+                      onOpenFolder(file.id);
+                    }
+                  }}
+                >
                   <CardContent className="p-4">
                     <div className="flex flex-col items-center text-center">
                       <div className="relative mb-3">
                         <IconComponent className={`h-12 w-12 ${
-                          file.type === 'folder' ? 'text-blue-500' : 'text-gray-600'
+                          folder ? 'text-blue-500' : 'text-gray-600'
                         }`} />
                         <DropdownMenu>
                           <DropdownMenuTrigger asChild>
@@ -202,18 +363,37 @@ const FileExplorer = ({ selectedProject, workspaceId, files, onFileUpload, onFol
                             </Button>
                           </DropdownMenuTrigger>
                           <DropdownMenuContent align="end">
-                            <DropdownMenuItem>
-                              <Eye className="h-4 w-4 mr-2" />
-                              Preview
-                            </DropdownMenuItem>
-                            <DropdownMenuItem>
-                              <Download className="h-4 w-4 mr-2" />
-                              Download
-                            </DropdownMenuItem>
-                            <DropdownMenuItem>
+                            {folder ? (
+                              <DropdownMenuItem onClick={() => onOpenFolder(file.id)}>
+                                <Folder className="h-4 w-4 mr-2" />
+                                Open
+                              </DropdownMenuItem>
+                            ) : (
+                              <>
+                                <DropdownMenuItem onClick={() => window.open(`${downloadUrl(file)}?inline=true`, '_blank')}>
+                                  <Eye className="h-4 w-4 mr-2" />
+                                  Preview
+                                </DropdownMenuItem>
+                                <DropdownMenuItem asChild>
+                                  <a href={downloadUrl(file)} download={file.name}>
+                                    <Download className="h-4 w-4 mr-2" />
+                                    Download
+                                  </a>
+                                </DropdownMenuItem>
+                                <DropdownMenuItem onClick={() => setVersionsTarget(file)}>
+                                  <History className="h-4 w-4 mr-2" />
+                                  Version history
+                                </DropdownMenuItem>
+                              </>
+                            )}
+                            <DropdownMenuItem onClick={() => openRename(file)}>
                               <Edit className="h-4 w-4 mr-2" />
                               Rename
                             </DropdownMenuItem>
+                            <DropdownMenuItem onClick={() => openMove(file)}>
+                              <FolderInput className="h-4 w-4 mr-2" />
+                              Move to...
+                            </DropdownMenuItem>
                             <DropdownMenuItem>
                               <Share className="h-4 w-4 mr-2" />
                               Share
@@ -221,7 +401,7 @@ const FileExplorer = ({ selectedProject, workspaceId, files, onFileUpload, onFol
                             <DropdownMenuSeparator />
                             <DropdownMenuItem 
                               className="text-red-600"
-                              onClick={() => onFileDelete(file.id)}
+                              onClick={() => onFileDelete(file)}
                             >
                               <Trash2 className="h-4 w-4 mr-2" />
                               Delete
@@ -234,9 +414,15 @@ const FileExplorer = ({ selectedProject, workspaceId, files, onFileUpload, onFol
                         {file.name}
                       </h4>
                       
-                      {file.type === 'file' && (
+                      {!folder && (
                         <p className="text-xs text-gray-500">
                           {formatFileSize(file.size)}
+                          {(file.currentVersion ?? 1) > 1 && ` · v${file.currentVersion}`}
+                        </p>
+                      )}
+                      {searchQuery && (
+                        <p className="text-xs text-gray-400 truncate w-full" title={file.path}>
+                          {file.path}
                         </p>
                       )}
                       
@@ -276,10 +462,84 @@ const FileExplorer = ({ selectedProject, workspaceId, files, onFileUpload, onFol
           </div>
         </DialogContent>
       </Dialog>
+
+      {/* Rename Dialog */}
+      <Dialog open={!!renameTarget} onOpenChange={(open) => !open && setRenameTarget(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Rename {renameTarget && isFolder(renameTarget) ? 'Folder' : 'File'}</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4">
+            <Input
+              value={renameValue}
+              onChange={(e) => setRenameValue(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && handleRename()}
+            />
+            <div className="flex justify-end gap-2">
+              <Button variant="outline" onClick={() => setRenameTarget(null)}>
+                Cancel
+              </Button>
+              <Button onClick={handleRename} disabled={!renameValue.trim()}>
+                Rename
+              </Button>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      <FileVersionsDialog
+        workspaceId={workspaceId}
+        file={versionsTarget}
+        onClose={() => setVersionsTarget(null)}
+      />
+
+      {/* Move Dialog */}
+      <Dialog open={!!moveTarget} onOpenChange={(open) => !open && setMoveTarget(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Move "{moveTarget?.name}"</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4">
+            <Select value={moveDestination} onValueChange={setMoveDestination}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="root">Workspace root</SelectItem>
+                {moveTarget && moveDestinations(moveTarget).map(folder => (
+                  <SelectItem key={folder.id} value={folder.id.toString()}>
+                    {folder.path}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <div className="flex justify-end gap-2">
+              <Button variant="outline" onClick={() => setMoveTarget(null)}>
+                Cancel
+              </Button>
+              <Button onClick={handleMove}>
+                Move
+              </Button>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
     </div>
   );
 };
 
+// The server answers 409 with requiresConfirmation when a folder still has contents
+const parseDeleteConfirmation = (error: Error): { message: string; itemCount: number } | null => {
+  const match = /^409: ([\s\S]*)$/.exec(error.message);
+  if (!match) return null;
+  try {
+    const body = JSON.parse(match[1]);
+    return body.requiresConfirmation ? { message: body.message, itemCount: body.itemCount } : null;
+  } catch {
+    return null;
+  }
+};
+
 export default function VaultPage() {
   const [, setLocation] = useLocation();
   const { toast } = useToast();
@@ -291,8 +551,17 @@ export default function VaultPage() {
     return saved ? parseInt(saved) : 2;
   });
 
+  useWorkspaceSync(currentWorkspaceId);
+
   // Vault state
   const [selectedProject, setSelectedProject] = useState<any>(null);
+  const [currentFolderId, setCurrentFolderId] = useState<number | null>(null);
+  const [pendingDelete, setPendingDelete] = useState<{ file: VaultFile; message: string } | null>(null);
+
+  // Folders belong to one project vault, so switching vaults starts at the top
+  React.useEffect(() => {
+    setCurrentFolderId(null);
+  }, [selectedProject?.id, currentWorkspaceId]);
 
   // Data queries
   const { data: user } = useQuery({
@@ -330,11 +599,27 @@ export default function VaultPage() {
     enabled: !!currentWorkspaceId,
   });
 
-  const { data: files = [] } = useQuery({
+  const { data: files = [] } = useQuery<VaultFile[]>({
     queryKey: [`/api/workspaces/${currentWorkspaceId}/files`],
     enabled: !!currentWorkspaceId,
   });
 
+  const folderParam = `parentId=${currentFolderId ?? 'root'}`;
+  const { data: folderContents = [] } = useQuery<VaultFile[]>({
+    queryKey: [`/api/workspaces/${currentWorkspaceId}/files`, folderParam],
+    queryFn: async () => {
+      const response = await fetch(`/api/workspaces/${currentWorkspaceId}/files?${folderParam}`, { credentials: "include" });
+      if (!response.ok) throw new Error('Failed to fetch folder');
+      return response.json();
+    },
+    enabled: !!currentWorkspaceId,
+  });
+
+  const { data: breadcrumbs = [] } = useQuery<Breadcrumb[]>({
+    queryKey: [`/api/workspaces/${currentWorkspaceId}/files/${currentFolderId}/breadcrumbs`],
+    enabled: !!currentWorkspaceId && currentFolderId !== null,
+  });
+
   const { data: recentFiles = [] } = useQuery({
     queryKey: [`/api/workspaces/${currentWorkspaceId}/files/recent`],
     enabled: !!currentWorkspaceId,
@@ -359,46 +644,73 @@ export default function VaultPage() {
       const response = await fetch(`/api/workspaces/${currentWorkspaceId}/files/upload`, {
         method: 'POST',
         body: formData,
+        credentials: 'include',
       });
-      if (!response.ok) throw new Error('Upload failed');
+      if (!response.ok) throw new Error(`${response.status}: ${await response.text()}`);
       return response.json();
     },
-    onSuccess: () => {
+    onSuccess: (uploaded) => {
       queryClient.invalidateQueries({ queryKey: [`/api/workspaces/${currentWorkspaceId}/files`] });
       queryClient.invalidateQueries({ queryKey: [`/api/workspaces/${currentWorkspaceId}/files/recent`] });
-      toast({ title: "File uploaded successfully" });
+      toast({
+        title: uploaded.version
+          ? `Uploaded version ${uploaded.version.versionNumber} of ${uploaded.name}`
+          : "File uploaded successfully",
+      });
     },
-    onError: () => {
-      toast({ title: "Failed to upload file", variant: "destructive" });
+    onError: (error: Error) => {
+      toast({ title: getApiErrorMessage(error, "Failed to upload file"), variant: "destructive" });
     },
   });
 
   const createFolderMutation = useMutation({
     mutationFn: async ({ name, projectId, parentId }: { name: string; projectId?: number; parentId?: number }) => {
-      return apiRequest(`/api/workspaces/${currentWorkspaceId}/files/folder`, 'POST', {
-        name, projectId, parentId, workspaceId: currentWorkspaceId
+      return apiRequest('POST', `/api/workspaces/${currentWorkspaceId}/files/folder`, {
+        name, projectId, parentId
       });
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: [`/api/workspaces/${currentWorkspaceId}/files`] });
       toast({ title: "Folder created successfully" });
     },
-    onError: () => {
-      toast({ title: "Failed to create folder", variant: "destructive" });
+    onError: (error: Error) => {
+      toast({ title: getApiErrorMessage(error, "Failed to create folder"), variant: "destructive" });
     },
   });
 
   const deleteFileMutation = useMutation({
-    mutationFn: async (fileId: number) => {
-      return apiRequest(`/api/workspaces/${currentWorkspaceId}/files/${fileId}`, 'DELETE');
+    mutationFn: async ({ file, recursive }: { file: VaultFile; recursive?: boolean }) => {
+      return apiRequest('DELETE', `/api/workspaces/${currentWorkspaceId}/files/${file.id}${recursive ? '?recursive=true' : ''}`);
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: [`/api/workspaces/${currentWorkspaceId}/files`] });
       queryClient.invalidateQueries({ queryKey: [`/api/workspaces/${currentWorkspaceId}/files/recent`] });
+      setPendingDelete(null);
       toast({ title: "File deleted successfully" });
     },
-    onError: () => {
-      toast({ title: "Failed to delete file", variant: "destructive" });
+    onError: (error: Error, { file }) => {
+      const confirmation = parseDeleteConfirmation(error);
+      if (confirmation) {
+        setPendingDelete({ file, message: confirmation.message });
+        return;
+      }
+      toast({ title: getApiErrorMessage(error, "Failed to delete file"), variant: "destructive" });
+    },
+  });
+
+  const updateFileMutation = useMutation({
+    mutationFn: async ({ fileId, updates }: { fileId: number; updates: { name?: string; parentId?: number | null } }) => {
+      return apiRequest('PATCH', `/api/workspaces/${currentWorkspaceId}/files/${fileId}`, updates);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [`/api/workspaces/${currentWorkspaceId}/files`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/workspaces/${currentWorkspaceId}/files/recent`] });
+      if (currentFolderId !== null) {
+        queryClient.invalidateQueries({ queryKey: [`/api/workspaces/${currentWorkspaceId}/files/${currentFolderId}/breadcrumbs`] });
+      }
+    },
+    onError: (error: Error) => {
+      toast({ title: getApiErrorMessage(error, "Failed to update file"), variant: "destructive" });
     },
   });
 
@@ -410,13 +722,16 @@ export default function VaultPage() {
     createFolderMutation.mutate({ name, projectId, parentId });
   };
 
-  const handleFileDelete = (fileId: number) => {
-    deleteFileMutation.mutate(fileId);
+  const handleFileDelete = (file: VaultFile) => {
+    deleteFileMutation.mutate({ file });
   };
 
   const handleFileRename = (fileId: number, newName: string) => {
-    // TODO: Implement rename functionality
-    toast({ title: "Rename functionality coming soon" });
+    updateFileMutation.mutate({ fileId, updates: { name: newName } });
+  };
+
+  const handleFileMove = (fileId: number, parentId: number | null) => {
+    updateFileMutation.mutate({ fileId, updates: { parentId } });
   };
 
   return (
@@ -582,15 +897,44 @@ export default function VaultPage() {
           <FileExplorer
             selectedProject={selectedProject}
             workspaceId={currentWorkspaceId}
-            files={Array.isArray(files) ? files : []}
+            files={folderContents}
+            allFiles={files}
+            currentFolderId={currentFolderId}
+            breadcrumbs={currentFolderId !== null ? breadcrumbs : []}
+            onOpenFolder={setCurrentFolderId}
             onFileUpload={handleFileUpload}
             onFolderCreate={handleFolderCreate}
             onFileDelete={handleFileDelete}
             onFileRename={handleFileRename}
+            onFileMove={handleFileMove}
           />
         </div>
       </div>
 
+      {/* Recursive delete confirmation */}
+      <Dialog open={!!pendingDelete} onOpenChange={(open) => !open && setPendingDelete(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Delete folder "{pendingDelete?.file.name}"?</DialogTitle>
+            <DialogDescription>
+              {pendingDelete?.message}. Everything inside it will be deleted as well. This can't be undone.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="flex justify-end gap-2">
+            <Button variant="outline" onClick={() => setPendingDelete(null)}>
+              Cancel
+            </Button>
+            <Button
+              variant="destructive"
+              disabled={deleteFileMutation.isPending}
+              onClick={() => pendingDelete && deleteFileMutation.mutate({ file: pendingDelete.file, recursive: true })}
+            >
+              Delete everything
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+
       {/* AI Assistant Widget - Available on all pages */}
       {currentWorkspaceId && <AIAssistantWidget workspaceId={currentWorkspaceId} />}
     </div>
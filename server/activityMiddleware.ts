@@ -1,164 +1,75 @@
 import { Request, Response, NextFunction } from "express";
 import { storage } from "./storage";
-import { InsertActivityLog } from "@shared/schema";
+import { dailyAt, type JobDefinition } from "./job-runner";
+import { InsertActivityLog, type AuditChanges } from "@shared/schema";
 
 // Extended Request interface with activity logging
 export interface ActivityRequest extends Request {
   logActivity?: (data: Partial<InsertActivityLog>) => Promise<void>;
 }
 
-// Activity mapping for different HTTP methods and routes
-const getActivityAction = (method: string, path: string): string => {
-  const normalizedPath = path.toLowerCase();
-  
-  // Task-related activities
-  if (normalizedPath.includes('/tasks')) {
-    switch (method) {
-      case 'POST': return 'created';
-      case 'PATCH': return 'updated';
-      case 'DELETE': return 'deleted';
-      case 'GET': return normalizedPath.includes('/due-today') ? 'viewed_due_tasks' : 'viewed';
-      default: return 'accessed';
-    }
-  }
-  
-  // Project-related activities
-  if (normalizedPath.includes('/projects')) {
-    switch (method) {
-      case 'POST': return 'created';
-      case 'PATCH': return 'updated';
-      case 'DELETE': return 'deleted';
-      case 'GET': return 'viewed';
-      default: return 'accessed';
-    }
-  }
-  
-  // Workspace-related activities
-  if (normalizedPath.includes('/workspaces')) {
-    switch (method) {
-      case 'POST': return 'created';
-      case 'PATCH': return 'updated';
-      case 'DELETE': return 'deleted';
-      case 'GET': return 'viewed';
-      default: return 'accessed';
-    }
-  }
-  
-  // Chat activities
-  if (normalizedPath.includes('/chat')) {
-    switch (method) {
-      case 'POST': return 'chatted';
-      case 'GET': return 'viewed_chat';
-      default: return 'accessed_chat';
-    }
-  }
-  
-  // File activities
-  if (normalizedPath.includes('/files')) {
-    switch (method) {
-      case 'POST': return 'uploaded';
-      case 'DELETE': return 'deleted';
-      case 'GET': return 'downloaded';
-      default: return 'accessed';
-    }
-  }
-  
-  // Comment activities
-  if (normalizedPath.includes('/comments')) {
-    switch (method) {
-      case 'POST': return 'commented';
-      case 'PATCH': return 'updated_comment';
-      case 'DELETE': return 'deleted_comment';
-      case 'GET': return 'viewed_comments';
-      default: return 'accessed';
-    }
-  }
-  
-  // Member activities
-  if (normalizedPath.includes('/members')) {
-    switch (method) {
-      case 'POST': return 'invited_member';
-      case 'DELETE': return 'removed_member';
-      case 'GET': return 'viewed_members';
-      default: return 'accessed';
-    }
-  }
-  
-  // Category activities
-  if (normalizedPath.includes('/categories')) {
-    switch (method) {
-      case 'POST': return 'created';
-      case 'PATCH': return 'updated';
-      case 'DELETE': return 'deleted';
-      case 'GET': return 'viewed';
-      default: return 'accessed';
-    }
-  }
-  
-  // Financial activities
-  if (normalizedPath.includes('/inflows') || normalizedPath.includes('/outflows') || 
-      normalizedPath.includes('/budgets') || normalizedPath.includes('/components')) {
-    switch (method) {
-      case 'POST': return 'created';
-      case 'PATCH': return 'updated';
-      case 'DELETE': return 'deleted';
-      case 'GET': return 'viewed';
-      default: return 'accessed';
-    }
-  }
-  
-  // Notification activities
-  if (normalizedPath.includes('/notifications')) {
-    switch (method) {
-      case 'PATCH': return 'marked_read';
-      case 'GET': return 'viewed_notifications';
-      default: return 'accessed';
-    }
-  }
-  
-  // Brain dump activities
-  if (normalizedPath.includes('/brain-dump')) {
-    switch (method) {
-      case 'POST': return 'created_note';
-      case 'PATCH': return 'updated_note';
-      case 'DELETE': return 'deleted_note';
-      case 'GET': return 'viewed_notes';
-      default: return 'accessed';
-    }
-  }
-  
-  // Default activity mapping
-  switch (method) {
-    case 'POST': return 'created';
-    case 'PATCH': return 'updated';
-    case 'DELETE': return 'deleted';
-    case 'GET': return 'viewed';
-    default: return 'accessed';
-  }
+// Path segment → entity type. The last recognised segment wins, so
+// /api/projects/4/expenses/9 is an outflow rather than a project.
+const ENTITY_TYPES: Record<string, string> = {
+  'workspaces': 'workspace',
+  'projects': 'project',
+  'categories': 'category',
+  'tasks': 'task',
+  'subtasks': 'subtask',
+  'task-dependencies': 'task_dependency',
+  'task-recurrences': 'task_recurrence',
+  'time-entries': 'time_entry',
+  'comments': 'comment',
+  'attachments': 'attachment',
+  'files': 'file',
+  'members': 'member',
+  'invitations': 'invitation',
+  'inflows': 'inflow',
+  'revenue': 'inflow',
+  'outflows': 'outflow',
+  'expenses': 'outflow',
+  'inflow-types': 'inflow_type',
+  'outflow-types': 'outflow_type',
+  'budgets': 'budget',
+  'components': 'component',
+  'webhooks': 'webhook',
+  'api-tokens': 'api_token',
+  'notifications': 'notification',
+  'brain-dump': 'brain_dump',
+  'chat': 'chat',
+  'conversations': 'conversation',
+};
+
+// Actions that read better than created/updated/deleted
+const SPECIAL_ACTIONS: Record<string, Partial<Record<string, string>>> = {
+  chat: { POST: 'chatted' },
+  file: { POST: 'uploaded' },
+  comment: { POST: 'commented', PATCH: 'updated_comment', DELETE: 'deleted_comment' },
+  member: { POST: 'invited_member', DELETE: 'removed_member' },
+  notification: { PATCH: 'marked_read', PUT: 'updated_preferences' },
+  brain_dump: { POST: 'created_note', PATCH: 'updated_note', DELETE: 'deleted_note' },
+};
+
+const DEFAULT_ACTIONS: Record<string, string> = {
+  POST: 'created',
+  PUT: 'updated',
+  PATCH: 'updated',
+  DELETE: 'deleted',
 };
 
 // Extract entity type from path
 const getEntityType = (path: string): string => {
-  const normalizedPath = path.toLowerCase();
-  
-  if (normalizedPath.includes('/tasks')) return 'task';
-  if (normalizedPath.includes('/projects')) return 'project';
-  if (normalizedPath.includes('/workspaces')) return 'workspace';
-  if (normalizedPath.includes('/chat')) return 'chat';
-  if (normalizedPath.includes('/files')) return 'file';
-  if (normalizedPath.includes('/comments')) return 'comment';
-  if (normalizedPath.includes('/members')) return 'member';
-  if (normalizedPath.includes('/categories')) return 'category';
-  if (normalizedPath.includes('/inflows')) return 'inflow';
-  if (normalizedPath.includes('/outflows')) return 'outflow';
-  if (normalizedPath.includes('/budgets')) return 'budget';
-  if (normalizedPath.includes('/components')) return 'component';
-  if (normalizedPath.includes('/notifications')) return 'notification';
-  if (normalizedPath.includes('/brain-dump')) return 'brain_dump';
-  
+  const segments = path.toLowerCase().split('/');
+  for (let i = segments.length - 1; i >= 0; i--) {
+    const entityType = ENTITY_TYPES[segments[i]];
+    if (entityType) return entityType;
+  }
   return 'unknown';
 };
 
+const getActivityAction = (method: string, entityType: string): string =>
+  SPECIAL_ACTIONS[entityType]?.[method] ?? DEFAULT_ACTIONS[method] ?? 'accessed';
+
 // Extract workspace ID from path
 const extractWorkspaceId = (path: string): number | null => {
   const match = path.match(/\/workspaces\/(\d+)/);
@@ -179,77 +90,184 @@ const extractEntityId = (path: string): number | null => {
 };
 
 // Extract entity name from request body or response
-const extractEntityName = (req: Request, res: Response): string | null => {
-  // Try to get name from request body
-  if (req.body) {
-    const body = req.body;
-    if (body.name) return body.name;
-    if (body.title) return body.title;
-    if (body.message) return body.message.substring(0, 50) + (body.message.length > 50 ? '...' : '');
-    if (body.fileName) return body.fileName;
+const extractEntityName = (req: Request, snapshot: Record<string, any> | null): string | null => {
+  for (const source of [req.body, snapshot]) {
+    if (!source || typeof source !== 'object') continue;
+    if (typeof source.name === 'string') return source.name;
+    if (typeof source.title === 'string') return source.title;
+    if (typeof source.message === 'string') return source.message.substring(0, 50) + (source.message.length > 50 ? '...' : '');
+    if (typeof source.fileName === 'string') return source.fileName;
   }
-  
   return null;
 };
 
-// Activity logging middleware
-export const activityLogger = (req: ActivityRequest, res: Response, next: NextFunction) => {
+// Records that can be loaded by id, so updates and deletes can store what changed.
+// Personal data (brain dump, chat) is left out of the audit diffs on purpose.
+type SnapshotLoader = (id: number) => Promise<Record<string, any> | undefined>;
+
+const SNAPSHOT_ROUTES: Array<[RegExp, SnapshotLoader]> = [
+  [/^\/api\/workspaces\/(\d+)$/, id => storage.getWorkspaceById(id)],
+  [/^\/api\/projects\/(\d+)$/, id => storage.getProjectById(id)],
+  [/^\/api\/categories\/(\d+)$/, id => storage.getCategoryById(id)],
+  [/^\/api\/tasks\/(\d+)$/, id => storage.getTaskById(id)],
+  [/^\/api\/subtasks\/(\d+)$/, id => storage.getSubtaskById(id)],
+  [/^\/api\/task-dependencies\/(\d+)$/, id => storage.getTaskDependencyById(id)],
+  [/^\/api\/task-recurrences\/(\d+)$/, id => storage.getTaskRecurrence(id)],
+  [/^\/api\/time-entries\/(\d+)$/, id => storage.getTimeEntryById(id)],
+  [/^\/api\/comments\/(\d+)$/, id => storage.getTaskCommentById(id)],
+  [/^\/api\/webhooks\/(\d+)$/, id => storage.getWebhookById(id)],
+  [/^\/api\/workspaces\/\d+\/files\/(\d+)$/, id => storage.getFileById(id)],
+  [/^\/api\/projects\/\d+\/components\/(\d+)$/, id => storage.getProjectComponentById(id)],
+  [/^\/api\/projects\/\d+\/expenses\/(\d+)$/, id => storage.getProjectOutflowById(id)],
+  [/^\/api\/projects\/\d+\/revenue\/(\d+)$/, id => storage.getProjectInflowById(id)],
+];
+
+// Entity types whose create responses are diffed against nothing
+const AUDITED_CREATES = new Set(['workspace', 'project', 'category', 'task', 'subtask', 'task_dependency', 'task_recurrence', 'time_entry', 'comment', 'webhook', 'file', 'component', 'outflow', 'inflow', 'budget', 'inflow_type', 'outflow_type', 'invitation']);
+
+const IGNORED_FIELDS = new Set(['id', 'createdAt', 'updatedAt']);
+const REDACTED_FIELDS = new Set(['secret', 'token', 'tokenHash', 'passwordHash', 'accessToken', 'refreshToken']);
+const MAX_VALUE_LENGTH = 500;
+
+const findSnapshotLoader = (path: string): [SnapshotLoader, number] | null => {
+  for (const [pattern, loader] of SNAPSHOT_ROUTES) {
+    const match = pattern.exec(path);
+    if (match) return [loader, parseInt(match[1], 10)];
+  }
+  return null;
+};
+
+const auditValue = (field: string, value: unknown): unknown => {
+  if (value === undefined) return null;
+  if (REDACTED_FIELDS.has(field) && value !== null) return '[redacted]';
+  if (value instanceof Date) return value.toISOString();
+  if (typeof value === 'string' && value.length > MAX_VALUE_LENGTH) {
+    return value.substring(0, MAX_VALUE_LENGTH) + '...';
+  }
+  return value;
+};
+
+// Field-level differences between two versions of a record; either side may be
+// null for a create or delete
+export const diffRecords = (
+  before: Record<string, any> | null,
+  after: Record<string, any> | null,
+): AuditChanges | null => {
+  const changes: AuditChanges = {};
+  const fields = new Set([...Object.keys(before ?? {}), ...Object.keys(after ?? {})]);
+  Array.from(fields).forEach(field => {
+    if (IGNORED_FIELDS.has(field)) return;
+    const from = auditValue(field, before?.[field]);
+    const to = auditValue(field, after?.[field]);
+    if (JSON.stringify(from) !== JSON.stringify(to)) {
+      changes[field] = { from, to };
+    }
+  });
+  return Object.keys(changes).length > 0 ? changes : null;
+};
+
+const asRecord = (value: unknown): Record<string, any> | null =>
+  value && typeof value === 'object' && !Array.isArray(value) ? value as Record<string, any> : null;
+
+const userIdOf = (req: Request): string | undefined => (req.user as any)?.claims?.sub;
+
+// Activity logging middleware. Only changes are logged; reads would drown them out.
+export const activityLogger = async (req: ActivityRequest, res: Response, next: NextFunction) => {
   // Skip logging for certain routes
   const skipRoutes = [
     '/api/auth',
-    '/api/workspaces/notifications/unread-count',
+    '/api/login',
+    '/api/logout',
+    '/api/callback',
     '/health',
     '/favicon.ico'
   ];
-  
+
   const shouldSkip = skipRoutes.some(route => req.path.startsWith(route));
-  if (shouldSkip || req.method === 'OPTIONS') {
+  if (shouldSkip || !DEFAULT_ACTIONS[req.method] || !req.path.startsWith('/api/')) {
     return next();
   }
-  
+
+  const entityType = getEntityType(req.path);
+
+  // The record as it was, loaded before the handler changes it
+  let before: Record<string, any> | null = null;
+  const snapshot = req.method !== 'POST' ? findSnapshotLoader(req.path) : null;
+  if (snapshot) {
+    try {
+      before = (await snapshot[0](snapshot[1])) ?? null;
+    } catch (error) {
+      console.error('Failed to load audit snapshot:', error);
+    }
+  }
+
+  let responseBody: unknown;
+  const originalResJson = res.json;
+  res.json = function (bodyJson, ...args) {
+    responseBody = bodyJson;
+    return originalResJson.apply(res, [bodyJson, ...args]);
+  };
+
   // Add activity logging function to request
   req.logActivity = async (data: Partial<InsertActivityLog>) => {
     try {
-      const userId = req.user?.id;
+      const userId = userIdOf(req);
       if (!userId) return; // Skip if user not authenticated
-      
-      const workspaceId = data.workspaceId || extractWorkspaceId(req.path);
-      const action = data.action || getActivityAction(req.method, req.path);
-      const entityType = data.entityType || getEntityType(req.path);
-      const entityId = data.entityId || extractEntityId(req.path);
-      const entityName = data.entityName || extractEntityName(req, res);
-      
+
+      const created = req.method === 'POST' ? asRecord(responseBody) : null;
+      const workspaceId = data.workspaceId
+        || (req as any).workspaceAccess?.workspaceId
+        || extractWorkspaceId(req.path)
+        || before?.workspaceId
+        || created?.workspaceId
+        || null;
+      const action = data.action || getActivityAction(req.method, entityType);
+      const entityId = data.entityId
+        || (created && typeof created.id === 'number' ? created.id : null)
+        || extractEntityId(req.path);
+      const entityName = data.entityName || extractEntityName(req, before ?? created);
+
+      let changes: AuditChanges | null = null;
+      if (snapshot && before) {
+        const after = req.method === 'DELETE' ? null : (await snapshot[0](snapshot[1])) ?? null;
+        changes = diffRecords(before, after);
+      } else if (created && AUDITED_CREATES.has(entityType)) {
+        changes = diffRecords(null, created);
+      }
+
       const activityData: InsertActivityLog = {
         userId,
         workspaceId,
         action,
-        entityType,
+        entityType: data.entityType || entityType,
         entityId,
         entityName,
+        changes: data.changes ?? changes,
         details: data.details || {
           method: req.method,
           path: req.path,
           userAgent: req.get('User-Agent'),
-          ip: req.ip || req.connection.remoteAddress,
+          ip: req.ip || req.socket.remoteAddress,
           timestamp: new Date().toISOString()
         },
         metadata: data.metadata || {
           requestId: req.get('X-Request-ID'),
-          referer: req.get('Referer')
+          referer: req.get('Referer'),
+          apiTokenId: (req as any).apiToken?.id,
         }
       };
-      
+
       await storage.logActivity(activityData);
     } catch (error) {
       console.error('Failed to log activity:', error);
       // Don't throw error to avoid breaking the request
     }
   };
-  
+
   // Automatically log the activity after response is sent
   res.on('finish', async () => {
     // Only log successful requests (2xx status codes)
-    if (res.statusCode >= 200 && res.statusCode < 300 && req.user?.id) {
+    if (res.statusCode >= 200 && res.statusCode < 300 && userIdOf(req)) {
       try {
         await req.logActivity!({});
       } catch (error) {
@@ -257,7 +275,7 @@ export const activityLogger = (req: ActivityRequest, res: Response, next: NextFu
       }
     }
   });
-  
+
   next();
 };
 
@@ -270,6 +288,7 @@ export const logActivity = async (
     workspaceId?: number;
     entityId?: number;
     entityName?: string;
+    changes?: AuditChanges | null;
     details?: any;
     metadata?: any;
   } = {}
@@ -282,6 +301,7 @@ export const logActivity = async (
       workspaceId: options.workspaceId || null,
       entityId: options.entityId || null,
       entityName: options.entityName || null,
+      changes: options.changes ?? null,
       details: options.details || {},
       metadata: options.metadata || {}
     };
@@ -350,4 +370,19 @@ const getTimeAgo = (date: Date): string => {
   
   const diffDays = Math.floor(diffHours / 24);
   return `${diffDays}d ago`;
-};
\ No newline at end of file
+};
+// How long audit entries are kept (AUDIT_LOG_RETENTION_DAYS, default a year)
+export const auditLogRetentionDays = (): number => {
+  const days = parseInt(process.env.AUDIT_LOG_RETENTION_DAYS ?? '', 10);
+  return Number.isInteger(days) && days > 0 ? days : 365;
+};
+
+export const auditLogRetentionJob: JobDefinition = {
+  name: 'audit_log_retention',
+  nextRun: dailyAt(4),
+  async run({ now }) {
+    const cutoff = new Date(now.getTime() - auditLogRetentionDays() * 24 * 60 * 60 * 1000);
+    const deleted = await storage.deleteActivityLogsBefore(cutoff);
+    if (deleted > 0) return `deleted ${deleted} audit log entries older than ${auditLogRetentionDays()} days`;
+  },
+};
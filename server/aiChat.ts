@@ -0,0 +1,364 @@
+import { randomUUID } from "crypto";
+import { storage } from "./storage";
+import { buildActivityContext } from "./activityMiddleware";
+import { assistantToolDefinitions, describeToolCall, isWriteTool, runTool, type ToolContext, type ToolOutcome } from "./aiTools";
+import { processAIQuery, summarizeConversation, type AIHistory, type AIQueryResult, type AIToolCall, type AIToolRunner, type AIToolStep } from "./openai";
+import { every, type JobDefinition } from "./job-runner";
+import type {
+  ChatAnswerMetadata,
+  ChatMessage,
+  ChatSummaryMetadata,
+  ChatToolCallMetadata,
+  ChatToolResultMetadata,
+  ChatTurn,
+  Conversation,
+  InsertChatMessage,
+} from "@shared/schema";
+
+// AI chat on conversations/chat_messages. A turn is a `user` message plus the messages
+// that point back to it by `turnId`: the assistant's `ai` answers and its tool calls.
+// Each new message is answered with the conversation's earlier turns as history.
+
+// Roughly how much earlier conversation is sent with each message (about 4 characters
+// a token). Older turns are summarized instead.
+const CHAT_HISTORY_TOKENS = 3000;
+
+// The parts of a turn needed to carry it on
+export type TurnRef = Pick<ChatTurn, 'id' | 'conversationId' | 'message'>;
+
+// Workspace and user context for processAIQuery
+export async function loadChatContext(workspaceId: number, userId: string) {
+  const [tasks, projects, categories, user, userTasks, userActivity] = await Promise.all([
+    storage.getWorkspaceTasks(workspaceId),
+    storage.getWorkspaceProjects(workspaceId),
+    storage.getWorkspaceCategories(workspaceId),
+    storage.getUser(userId),
+    storage.getUserTasks(userId, workspaceId),
+    buildActivityContext(userId, workspaceId),
+  ]);
+
+  return {
+    workspaceId,
+    userId,
+    user: {
+      id: userId,
+      name: user?.firstName || user?.lastName ? `${user.firstName} ${user.lastName}`.trim() : user?.email?.split('@')[0] || 'User',
+      email: user?.email || undefined,
+    },
+    recentTasks: tasks.slice(0, 10),
+    userTasks: userTasks.slice(0, 10), // User's specific tasks
+    projects,
+    categories,
+    recentActivity: userActivity,
+  };
+}
+
+// Runs the assistant's tools as the signed-in user. Outcomes are kept by call id so
+// they can be stored with the turn.
+export function createToolRunner(context: ToolContext): AIToolRunner & { outcomes: Map<string, ToolOutcome> } {
+  const outcomes = new Map<string, ToolOutcome>();
+  return {
+    definitions: assistantToolDefinitions(),
+    needsConfirmation: isWriteTool,
+    outcomes,
+    async run(call) {
+      const outcome = await runTool(call.name, call.arguments, context);
+      outcomes.set(call.id, outcome);
+      return outcome.result;
+    },
+  };
+}
+
+function parseMetadata<T>(message: ChatMessage): T | null {
+  try {
+    return message.metadata ? JSON.parse(message.metadata) as T : null;
+  } catch {
+    return null;
+  }
+}
+
+const toolCallMetadata = (message: ChatMessage) =>
+  message.messageType === 'tool_call' ? parseMetadata<ChatToolCallMetadata>(message) : null;
+
+export const newConversationId = () => `conv_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+
+// The conversation, if it's this user's in this workspace
+export async function findConversation(conversationId: string, workspaceId: number, userId: string): Promise<Conversation | null> {
+  const conversation = await storage.getConversation(conversationId);
+  return conversation && conversation.workspaceId === workspaceId && conversation.userId === userId ? conversation : null;
+}
+
+// Groups messages (ordered by id) into turns. Messages can come before their turn's
+// user message: chats moved over from the legacy table keep their older tool calls.
+function buildTurns(messages: ChatMessage[]): ChatTurn[] {
+  const turns = new Map<number, ChatTurn>();
+  const results = new Map<string, string>();
+  for (const message of messages) {
+    if (message.messageType === 'user') {
+      turns.set(message.id, {
+        id: message.id,
+        conversationId: message.conversationId,
+        message: message.content,
+        response: null,
+        stopped: false,
+        createdAt: message.createdAt,
+        actions: [],
+      });
+    } else if (message.messageType === 'tool_result') {
+      const metadata = parseMetadata<ChatToolResultMetadata>(message);
+      if (metadata) results.set(metadata.toolCallId, message.content);
+    }
+  }
+
+  for (const message of messages) {
+    if (message.messageType === 'ai') {
+      const metadata = parseMetadata<ChatAnswerMetadata>(message);
+      const turn = metadata && turns.get(metadata.turnId);
+      if (!turn) continue;
+      turn.response = turn.response ? `${turn.response}\n\n${message.content}` : message.content;
+      turn.stopped = turn.stopped || !!metadata.stopped;
+    } else {
+      const metadata = toolCallMetadata(message);
+      const turn = metadata && turns.get(metadata.turnId);
+      if (!turn) continue;
+      turn.actions.push({
+        id: message.id,
+        name: metadata.name,
+        summary: message.content,
+        write: metadata.write,
+        status: metadata.status,
+        result: results.get(metadata.toolCallId) ?? null,
+      });
+    }
+  }
+
+  return Array.from(turns.values());
+}
+
+const TURN_MESSAGE_TYPES = ['user', 'ai', 'tool_call', 'tool_result'];
+
+export async function getConversationTurns(conversationId: string): Promise<ChatTurn[]> {
+  return buildTurns(await storage.getChatMessages([conversationId], TURN_MESSAGE_TYPES));
+}
+
+export async function loadTurn(turn: TurnRef): Promise<ChatTurn> {
+  const turns = await getConversationTurns(turn.conversationId);
+  return turns.find(saved => saved.id === turn.id)!;
+}
+
+// The user's latest turns across their conversations, newest first
+export async function getRecentTurns(workspaceId: number, userId: string, limit: number): Promise<ChatTurn[]> {
+  const questions = await storage.getRecentUserChatMessages(workspaceId, userId, limit);
+  const ids = new Set(questions.map(question => question.id));
+  const conversationIds = Array.from(new Set(questions.map(question => question.conversationId)));
+  const turns = buildTurns(await storage.getChatMessages(conversationIds, TURN_MESSAGE_TYPES));
+  return turns.filter(turn => ids.has(turn.id)).sort((a, b) => b.id - a.id);
+}
+
+const estimateTokens = (text: string) => Math.ceil(text.length / 4);
+
+// An earlier turn as the model is reminded of it, including what its tools did
+function historyTurn(turn: ChatTurn): AIHistory['turns'][number] {
+  const actions = turn.actions.map(action => `- ${action.summary} (${action.status})`);
+  const response = [actions.length > 0 ? `Actions:\n${actions.join('\n')}` : null, turn.response]
+    .filter(Boolean)
+    .join('\n\n');
+  return { message: turn.message, response: response || null };
+}
+
+// How many of the newest turns fit in `budget` tokens
+function fitting(turns: AIHistory['turns'], budget: number): number {
+  let used = 0;
+  let count = 0;
+  for (let i = turns.length - 1; i >= 0; i--) {
+    used += estimateTokens(turns[i].message + (turns[i].response ?? ''));
+    if (used > budget) break;
+    count++;
+  }
+  return count;
+}
+
+// The conversation before `beforeTurnId` (all of it by default) for processAIQuery: the
+// newest turns that fit CHAT_HISTORY_TOKENS, after a summary of the rest. When turns
+// drop out of the window they're added to the summary, which is saved with the
+// conversation; it then covers enough that the next few messages can reuse it.
+export async function loadConversationHistory(conversationId: string, beforeTurnId?: number): Promise<AIHistory> {
+  const messages = await storage.getChatMessages([conversationId], [...TURN_MESSAGE_TYPES, 'summary']);
+  const summaries = messages
+    .filter(message => message.messageType === 'summary')
+    .map(message => ({ content: message.content, metadata: parseMetadata<ChatSummaryMetadata>(message) }))
+    .filter(summary => summary.metadata && (beforeTurnId === undefined || summary.metadata.throughTurnId < beforeTurnId));
+  const summary = summaries[summaries.length - 1];
+  const summarizedThrough = summary?.metadata?.throughTurnId ?? 0;
+
+  const turns = buildTurns(messages)
+    .filter(turn => turn.id > summarizedThrough && (beforeTurnId === undefined || turn.id < beforeTurnId));
+  const open = turns.map(historyTurn);
+  const inWindow = fitting(open, CHAT_HISTORY_TOKENS);
+  if (inWindow === open.length) {
+    return { summary: summary?.content ?? null, turns: open };
+  }
+
+  // Keep half the window of recent turns and summarize everything before them
+  const kept = fitting(open, CHAT_HISTORY_TOKENS / 2);
+  const folded = open.slice(0, open.length - kept);
+  const content = await summarizeConversation(summary?.content ?? null, folded);
+  if (!content) {
+    return { summary: summary?.content ?? null, turns: open.slice(open.length - inWindow) };
+  }
+
+  const metadata: ChatSummaryMetadata = { throughTurnId: turns[folded.length - 1].id };
+  await storage.createChatMessages([{ conversationId, messageType: 'summary', content, metadata: JSON.stringify(metadata) }]);
+  return { summary: content, turns: open.slice(folded.length) };
+}
+
+export function toolResultMessage(turn: TurnRef, call: Pick<ChatToolCallMetadata, 'toolCallId' | 'name'>, outcome: ToolOutcome): InsertChatMessage {
+  const metadata: ChatToolResultMetadata = { turnId: turn.id, toolCallId: call.toolCallId, name: call.name, ok: outcome.ok };
+  return { conversationId: turn.conversationId, messageType: 'tool_result', content: outcome.result, metadata: JSON.stringify(metadata) };
+}
+
+// Stores new rounds of tool calls; `firstStep` numbers them after the ones already saved
+async function saveToolSteps(
+  turn: TurnRef,
+  steps: AIToolStep[],
+  firstStep: number,
+  pending: AIToolCall[],
+  outcomes: Map<string, ToolOutcome>,
+): Promise<void> {
+  if (steps.length === 0) return;
+
+  const messages: InsertChatMessage[] = [];
+  steps.forEach((step, index) => {
+    for (const call of step.calls) {
+      const isPending = pending.includes(call);
+      const outcome = outcomes.get(call.id) ?? { ok: false, result: step.results[call.id] ?? '' };
+      const metadata: ChatToolCallMetadata = {
+        turnId: turn.id,
+        step: firstStep + index,
+        toolCallId: call.id,
+        name: call.name,
+        arguments: call.arguments,
+        write: isWriteTool(call.name),
+        status: isPending ? 'pending' : outcome.ok ? 'done' : 'failed',
+      };
+      messages.push({
+        conversationId: turn.conversationId,
+        messageType: 'tool_call',
+        content: describeToolCall(call.name, call.arguments),
+        metadata: JSON.stringify(metadata),
+      });
+      if (!isPending) {
+        messages.push(toolResultMessage(turn, metadata, outcome));
+      }
+    }
+  });
+  await storage.createChatMessages(messages);
+}
+
+// Stores what the assistant did and said in one go at a turn
+export async function saveAnswer(turn: TurnRef, result: AIQueryResult, firstStep: number, outcomes: Map<string, ToolOutcome>): Promise<void> {
+  await saveToolSteps(turn, result.steps, firstStep, result.pending, outcomes);
+  if (result.content) {
+    const metadata: ChatAnswerMetadata = { turnId: turn.id, ...(result.stopped && { stopped: true }) };
+    await storage.createChatMessages([{
+      conversationId: turn.conversationId,
+      messageType: 'ai',
+      content: result.content,
+      metadata: JSON.stringify(metadata),
+    }]);
+  }
+}
+
+// The tool calls a turn has made so far, grouped back into rounds for processAIQuery.
+// Returns null while any of them still waits for the user.
+export async function loadToolSteps(turn: TurnRef): Promise<AIToolStep[] | null> {
+  const messages = await storage.getChatMessages([turn.conversationId], ['tool_call', 'tool_result']);
+  const results = new Map<string, string>();
+  const calls: ChatToolCallMetadata[] = [];
+  for (const message of messages) {
+    if (message.messageType === 'tool_result') {
+      const metadata = parseMetadata<ChatToolResultMetadata>(message);
+      if (metadata?.turnId === turn.id) results.set(metadata.toolCallId, message.content);
+    } else {
+      const metadata = toolCallMetadata(message);
+      if (metadata?.turnId === turn.id) calls.push(metadata);
+    }
+  }
+  if (calls.some(call => call.status === 'pending')) return null;
+
+  const steps: AIToolStep[] = [];
+  for (const call of calls) {
+    const step = steps[call.step] ?? (steps[call.step] = { calls: [], results: {} });
+    step.calls.push({ id: call.toolCallId, name: call.name, arguments: call.arguments });
+    step.results[call.toolCallId] = results.get(call.toolCallId) ?? '';
+  }
+  return steps.filter(Boolean);
+}
+
+// The pending tool call behind a confirmation, if it belongs to this user's turn
+export async function findPendingAction(messageId: number, workspaceId: number, userId: string) {
+  const message = await storage.getChatMessageById(messageId);
+  const metadata = message && toolCallMetadata(message);
+  const conversation = metadata && await findConversation(message.conversationId, workspaceId, userId);
+  const question = conversation && await storage.getChatMessageById(metadata.turnId);
+  if (!message || !metadata || !question || question.conversationId !== message.conversationId) {
+    return null;
+  }
+  const turn: TurnRef = { id: question.id, conversationId: question.conversationId, message: question.content };
+  return { message, metadata, turn };
+}
+
+// Answers a chat message as a new turn of the conversation: runs the assistant with the
+// earlier turns (streaming it when `onToken` is given), then saves the turn with
+// whatever was written, also when `signal` stopped it
+export async function answerChatMessage(
+  request: ToolContext & { message: string; conversationId: string },
+  streaming: { onToken?: (text: string) => void; signal?: AbortSignal } = {},
+): Promise<ChatTurn> {
+  const { workspaceId, userId, message, conversationId } = request;
+  const history = await loadConversationHistory(conversationId);
+
+  // The assistant can act on the workspace as this user; writes wait for a confirmation
+  const tools = createToolRunner(request);
+  const result = await processAIQuery(message, await loadChatContext(workspaceId, userId), { tools, history, ...streaming });
+
+  await storage.ensureConversation({ id: conversationId, workspaceId, userId });
+  const [question] = await storage.createChatMessages([{ conversationId, messageType: 'user', content: message }]);
+  const turn: TurnRef = { id: question.id, conversationId, message };
+  await saveAnswer(turn, result, 0, tools.outcomes);
+  return loadTurn(turn);
+}
+
+// Answers being streamed right now, so the Stop button (a request of its own) can end one
+const activeStreams = new Map<string, { userId: string; controller: AbortController }>();
+
+export function startChatStream(userId: string) {
+  const id = randomUUID();
+  const controller = new AbortController();
+  activeStreams.set(id, { userId, controller });
+  return {
+    id,
+    signal: controller.signal,
+    stop: () => controller.abort(),
+    finish: () => { activeStreams.delete(id); },
+  };
+}
+
+// False when there is no such stream for this user (it may have just finished)
+export function stopChatStream(id: string, userId: string): boolean {
+  const stream = activeStreams.get(id);
+  if (!stream || stream.userId !== userId) return false;
+  stream.controller.abort();
+  return true;
+}
+
+export const chatMigrationJob: JobDefinition = {
+  name: 'legacy_chat_migration',
+  nextRun: every(24 * 60 * 60 * 1000),
+  runAtStartup: true,
+  async run() {
+    // Only has work to do the first time after an upgrade
+    const moved = await storage.migrateLegacyChatConversations();
+    if (moved > 0) return `moved ${moved} legacy chat messages`;
+  },
+};
@@ -0,0 +1,343 @@
+import { z } from "zod";
+import type OpenAI from "openai";
+import { storage } from "./storage";
+import { canPerform, type WorkspaceAccess } from "./permissions";
+import { broadcastToWorkspace } from "./realtime";
+import { emitWebhookEvent } from "./webhooks";
+import { notifyUser } from "./notifications";
+import { divergesFromSeries } from "./recurrence-series";
+import { logActivity, diffRecords } from "./activityMiddleware";
+import { zodToJsonSchema } from "./openapi";
+import { getBlockingReason } from "@shared/dependencies";
+import { insertTaskSchema, taskQuerySchema, type InsertTask, type Task } from "@shared/schema";
+
+// The operations the AI assistant may call. Each one checks the caller's workspace
+// role the same way the matching route does, and changes are written to the audit log
+// like the routes' are. Reads run as soon as the model asks; writes are shown to the
+// user and only run once they confirm (see the chat routes).
+
+export interface ToolContext {
+  workspaceId: number;
+  userId: string;
+  access: WorkspaceAccess;
+  actorName?: string;
+}
+
+export interface ToolOutcome {
+  ok: boolean;
+  result: string; // JSON for the model
+}
+
+// Problems the model should hear about and can fix, like a task id that doesn't exist
+class ToolError extends Error {}
+
+interface AssistantTool<Args> {
+  description: string;
+  parameters: z.ZodType<Args>;
+  write: boolean;
+  summarize(args: Args): string; // what the confirmation asks
+  run(args: Args, context: ToolContext): Promise<unknown>;
+}
+
+const dateField = z.string().regex(/^\d{4}-\d{2}-\d{2}$/);
+const TASK_STATUSES = ['todo', 'in_progress', 'review', 'completed'] as const;
+
+const taskSummary = (task: Task) => ({
+  id: task.id,
+  title: task.title,
+  status: task.status,
+  priority: task.priority,
+  dueDate: task.dueDate,
+  assignedMemberId: task.assignedMemberId,
+  projectId: task.projectId,
+});
+
+async function loadTask(taskId: number, context: ToolContext): Promise<Task> {
+  const task = await storage.getTaskById(taskId);
+  if (!task || task.workspaceId !== context.workspaceId) {
+    throw new ToolError(`There is no task ${taskId} in this workspace`);
+  }
+  if (!canPerform(context.access, 'edit', context.userId, {
+    workspaceId: task.workspaceId,
+    owner: { userId: task.createdBy, memberId: task.assignedMemberId },
+  })) {
+    throw new ToolError(`You don't have permission to change task ${taskId}`);
+  }
+  return task;
+}
+
+async function checkMember(memberId: number, context: ToolContext) {
+  const members = await storage.getWorkspaceMembers(context.workspaceId);
+  const member = members.find(m => m.id === memberId);
+  if (!member) throw new ToolError(`There is no member ${memberId} in this workspace`);
+  return member;
+}
+
+async function notifyAssignee(task: Task, context: ToolContext) {
+  if (!task.assignedMemberId) return;
+  const member = await checkMember(task.assignedMemberId, context);
+  if (!member.userId || member.userId === context.userId) return;
+  try {
+    await notifyUser({
+      type: 'task_assigned',
+      userId: member.userId,
+      workspaceId: task.workspaceId,
+      taskId: task.id,
+      title: 'New Task Assigned',
+      message: `You have been assigned to task: ${task.title}`,
+      email: { taskTitle: task.title, taskDescription: task.description, actorName: context.actorName },
+    });
+  } catch (error) {
+    console.error('Failed to create task notification:', error);
+  }
+}
+
+// The single-task part of PATCH /api/tasks/:id: dependency checks, series exceptions,
+// realtime and webhooks
+async function updateTask(task: Task, updates: Partial<InsertTask>, context: ToolContext) {
+  if (updates.status && updates.status !== task.status) {
+    const dependencies = await storage.getTaskDependencies(task.id);
+    if (dependencies.length > 0) {
+      const workspaceTasks = await storage.getWorkspaceTasks(task.workspaceId);
+      const reason = getBlockingReason(task, updates.status, dependencies, new Map(workspaceTasks.map(t => [t.id, t])));
+      if (reason) throw new ToolError(reason);
+    }
+  }
+  if (task.taskRecurrenceId && divergesFromSeries(task, updates)) {
+    updates.isRecurrenceException = true;
+  }
+
+  const updated = await storage.updateTask(task.id, updates);
+  await logActivity(context.userId, 'updated', 'task', {
+    workspaceId: updated.workspaceId,
+    entityId: updated.id,
+    entityName: updated.title,
+    changes: diffRecords(task, updated),
+    details: { via: 'ai_assistant' },
+  });
+  broadcastToWorkspace({ type: 'task.updated', workspaceId: updated.workspaceId, payload: updated });
+  emitWebhookEvent(updated.workspaceId, 'task.updated', { task: updated });
+  if (updates.status && updates.status !== task.status) {
+    emitWebhookEvent(updated.workspaceId, 'task.status_changed', { task: updated, from: task.status, to: updates.status });
+    if (updates.status === 'completed') {
+      emitWebhookEvent(updated.workspaceId, 'task.completed', { task: updated });
+    }
+  }
+  if (updates.assignedMemberId && updates.assignedMemberId !== task.assignedMemberId) {
+    await notifyAssignee(updated, context);
+  }
+  return taskSummary(updated);
+}
+
+const findTasks: AssistantTool<{
+  search?: string;
+  status?: typeof TASK_STATUSES[number];
+  assignee?: string;
+  dueFrom?: string;
+  dueTo?: string;
+  limit?: number;
+}> = {
+  description: 'Search the workspace tasks. Use it to find task ids before changing tasks.',
+  parameters: z.object({
+    search: z.string().optional().describe('Words to match in the title or description'),
+    status: z.enum(TASK_STATUSES).optional(),
+    assignee: z.string().optional().describe("'me', 'unassigned' or a member id"),
+    dueFrom: dateField.optional().describe('YYYY-MM-DD'),
+    dueTo: dateField.optional().describe('YYYY-MM-DD'),
+    limit: z.number().int().min(1).max(50).optional(),
+  }),
+  write: false,
+  summarize: () => 'Search tasks',
+  async run(args, context) {
+    const assignee = args.assignee === 'me' ? String(context.access.memberId ?? 'unassigned') : args.assignee;
+    const query = taskQuerySchema.parse({
+      q: args.search,
+      status: args.status,
+      assignee,
+      dueFrom: args.dueFrom,
+      dueTo: args.dueTo,
+      sort: 'dueDate',
+      order: 'asc',
+      limit: args.limit ?? 20,
+    });
+    const page = await storage.queryWorkspaceTasks(context.workspaceId, query);
+    return page.tasks.map(taskSummary);
+  },
+};
+
+const listMembers: AssistantTool<Record<string, never>> = {
+  description: 'List the workspace members with their ids, for assigning tasks.',
+  parameters: z.object({}),
+  write: false,
+  summarize: () => 'List members',
+  async run(_args, context) {
+    const members = await storage.getWorkspaceMembers(context.workspaceId);
+    return members.map(m => ({ id: m.id, name: m.name, role: m.role, type: m.memberType, isYou: m.id === context.access.memberId }));
+  },
+};
+
+const createTask: AssistantTool<{
+  title: string;
+  description?: string;
+  dueDate?: string;
+  priority?: number;
+  projectId?: number;
+  categoryId?: number;
+  assignedMemberId?: number;
+}> = {
+  description: 'Create a task. The user is asked to confirm first.',
+  parameters: z.object({
+    title: z.string().trim().min(1).max(255),
+    description: z.string().optional(),
+    dueDate: dateField.optional().describe('YYYY-MM-DD'),
+    priority: z.number().int().min(0).max(3).optional().describe('0 low to 3 urgent'),
+    projectId: z.number().int().optional(),
+    categoryId: z.number().int().optional(),
+    assignedMemberId: z.number().int().optional(),
+  }),
+  write: true,
+  summarize: (args) => `Create task "${args.title}"${args.dueDate ? ` due ${args.dueDate}` : ''}`,
+  async run(args, context) {
+    if (!canPerform(context.access, 'create', context.userId)) {
+      throw new ToolError("You don't have permission to create tasks");
+    }
+    if (args.projectId) {
+      const project = await storage.getProjectById(args.projectId);
+      if (project?.workspaceId !== context.workspaceId) throw new ToolError(`There is no project ${args.projectId} in this workspace`);
+    }
+    if (args.categoryId) {
+      const category = await storage.getCategoryById(args.categoryId);
+      if (category?.workspaceId !== context.workspaceId) throw new ToolError(`There is no category ${args.categoryId} in this workspace`);
+    }
+    if (args.assignedMemberId) await checkMember(args.assignedMemberId, context);
+
+    const task = await storage.createTask(insertTaskSchema.parse({
+      ...args,
+      workspaceId: context.workspaceId,
+      createdBy: context.userId,
+    }));
+    await logActivity(context.userId, 'created', 'task', {
+      workspaceId: task.workspaceId,
+      entityId: task.id,
+      entityName: task.title,
+      changes: diffRecords(null, task),
+      details: { via: 'ai_assistant' },
+    });
+    broadcastToWorkspace({ type: 'task.created', workspaceId: task.workspaceId, payload: task });
+    emitWebhookEvent(task.workspaceId, 'task.created', { task });
+    await notifyAssignee(task, context);
+    return taskSummary(task);
+  },
+};
+
+const changeTask: AssistantTool<{
+  taskId: number;
+  title?: string;
+  description?: string;
+  dueDate?: string;
+  priority?: number;
+  status?: typeof TASK_STATUSES[number];
+}> = {
+  description: 'Change a task: rename it, reschedule it (dueDate), reprioritise it or move it to another status. The user is asked to confirm first.',
+  parameters: z.object({
+    taskId: z.number().int(),
+    title: z.string().trim().min(1).max(255).optional(),
+    description: z.string().optional(),
+    dueDate: dateField.optional().describe('YYYY-MM-DD'),
+    priority: z.number().int().min(0).max(3).optional(),
+    status: z.enum(TASK_STATUSES).optional(),
+  }),
+  write: true,
+  summarize: ({ taskId, ...changes }) =>
+    `Update task ${taskId}: ${Object.entries(changes).map(([field, value]) => `${field} → ${value}`).join(', ')}`,
+  async run({ taskId, ...changes }, context) {
+    const task = await loadTask(taskId, context);
+    return updateTask(task, changes, context);
+  },
+};
+
+const assignTask: AssistantTool<{ taskId: number; memberId?: number }> = {
+  description: 'Assign a task to a member, or unassign it by leaving out memberId. The user is asked to confirm first.',
+  parameters: z.object({
+    taskId: z.number().int(),
+    memberId: z.number().int().optional(),
+  }),
+  write: true,
+  summarize: ({ taskId, memberId }) => memberId ? `Assign task ${taskId} to member ${memberId}` : `Unassign task ${taskId}`,
+  async run({ taskId, memberId }, context) {
+    const task = await loadTask(taskId, context);
+    if (memberId) await checkMember(memberId, context);
+    return updateTask(task, { assignedMemberId: memberId ?? null }, context);
+  },
+};
+
+const completeTask: AssistantTool<{ taskId: number }> = {
+  description: 'Mark a task as completed. The user is asked to confirm first.',
+  parameters: z.object({ taskId: z.number().int() }),
+  write: true,
+  summarize: ({ taskId }) => `Complete task ${taskId}`,
+  async run({ taskId }, context) {
+    const task = await loadTask(taskId, context);
+    return updateTask(task, { status: 'completed' }, context);
+  },
+};
+
+const TOOLS: Record<string, AssistantTool<any>> = {
+  find_tasks: findTasks,
+  list_members: listMembers,
+  create_task: createTask,
+  update_task: changeTask,
+  assign_task: assignTask,
+  complete_task: completeTask,
+};
+
+export function assistantToolDefinitions(): OpenAI.Chat.Completions.ChatCompletionTool[] {
+  return Object.entries(TOOLS).map(([name, tool]) => ({
+    type: 'function',
+    function: { name, description: tool.description, parameters: zodToJsonSchema(tool.parameters) },
+  }));
+}
+
+export function isWriteTool(name: string): boolean {
+  return TOOLS[name]?.write ?? false;
+}
+
+function parseArguments(name: string, rawArguments: string) {
+  const tool = TOOLS[name];
+  if (!tool) throw new ToolError(`Unknown tool ${name}`);
+  let json: unknown;
+  try {
+    json = JSON.parse(rawArguments || '{}');
+  } catch {
+    throw new ToolError('The arguments are not valid JSON');
+  }
+  const parsed = tool.parameters.safeParse(json);
+  if (!parsed.success) {
+    throw new ToolError(`Invalid arguments: ${JSON.stringify(parsed.error.flatten().fieldErrors)}`);
+  }
+  return { tool, args: parsed.data };
+}
+
+// The line the chat shows for a call, e.g. on the confirmation card
+export function describeToolCall(name: string, rawArguments: string): string {
+  try {
+    const { tool, args } = parseArguments(name, rawArguments);
+    return tool.summarize(args);
+  } catch {
+    return `${name} (invalid arguments)`;
+  }
+}
+
+export async function runTool(name: string, rawArguments: string, context: ToolContext): Promise<ToolOutcome> {
+  try {
+    const { tool, args } = parseArguments(name, rawArguments);
+    const result = await tool.run(args, context);
+    return { ok: true, result: JSON.stringify(result) };
+  } catch (error) {
+    if (!(error instanceof ToolError)) {
+      console.error(`AI tool ${name} failed:`, error);
+    }
+    const message = error instanceof ToolError ? error.message : 'The action failed';
+    return { ok: false, result: JSON.stringify({ error: message }) };
+  }
+}
@@ -0,0 +1,88 @@
+import { createHash, randomBytes } from "crypto";
+import type { NextFunction, Request, Response } from "express";
+import { storage } from "./storage";
+import type { ApiToken, ApiTokenResource } from "@shared/schema";
+
+// Bearer tokens for scripts and CI. A token is only ever stored as its SHA-256 hash;
+// its scopes decide which /api paths it can call (resourceForPath), and the owner's
+// workspace role still applies on top of that in requireWorkspaceAccess.
+
+const TOKEN_PREFIX = 'tai_';
+const LAST_USED_PRECISION_MS = 60 * 1000; // don't write lastUsedAt on every request
+
+export const hashApiToken = (token: string) => createHash('sha256').update(token).digest('hex');
+
+export function generateApiToken() {
+  const token = `${TOKEN_PREFIX}${randomBytes(32).toString('base64url')}`;
+  return { token, tokenHash: hashApiToken(token), tokenPrefix: token.slice(0, 12) };
+}
+
+// The resource each path belongs to; more specific paths first. Paths that aren't
+// listed (sign-in, chat, notifications, token management...) need a browser session.
+const RESOURCE_ROUTES: [RegExp, ApiTokenResource][] = [
+  [/^\/api\/tasks\/\d+\/comments$|^\/api\/comments\/\d+$/, 'comments'],
+  [/^\/api\/tasks\/\d+\/(time-entries|timer\/start)$|^\/api\/time-entries\/\d+(\/stop)?$|^\/api\/workspaces\/\d+\/(timer|timesheet(\/export)?)$/, 'time'],
+  [/^\/api\/tasks\/\d+\/attachments$|^\/api\/attachments\/\d+$|^\/api\/workspaces\/\d+\/(files|attachment-counts)(\/.*)?$|^\/api\/projects\/\d+\/files$/, 'files'],
+  [/^\/api\/projects\/\d+\/(budgets|expenses|revenue|outflow-types|inflow-types)(\/\d+)?$|^\/api\/workspaces\/\d+\/seed-default-types$/, 'finances'],
+  [/^\/api\/workspaces\/\d+\/(tasks(\/due-today)?|tasks\.ics|subtask-progress|task-dependencies|task-recurrences)$|^\/api\/tasks\/\d+(\/(subtasks(\/order)?|dependencies))?$|^\/api\/(subtasks|task-dependencies|task-recurrences)\/\d+$/, 'tasks'],
+  [/^\/api\/workspaces\/\d+\/(projects|components)$|^\/api\/projects\/\d+(\/(pages|components(\/\d+)?))?$/, 'projects'],
+  [/^\/api\/workspaces\/\d+\/categories$|^\/api\/categories\/\d+$/, 'categories'],
+  [/^\/api\/workspaces\/\d+\/(members(\/\d+)?|invitations)$/, 'members'],
+  [/^\/api\/workspaces(\/\d+(\/access)?)?$/, 'workspaces'],
+  [/^\/api\/search$/, 'search'],
+];
+
+export function resourceForPath(path: string): ApiTokenResource | null {
+  const match = RESOURCE_ROUTES.find(([pattern]) => pattern.test(path));
+  return match ? match[1] : null;
+}
+
+const isReadMethod = (method: string) => method === 'GET' || method === 'HEAD';
+
+export function tokenAllows(token: Pick<ApiToken, 'scopes'>, resource: ApiTokenResource, method: string): boolean {
+  return token.scopes.includes(`${resource}:write`) || (isReadMethod(method) && token.scopes.includes(`${resource}:read`));
+}
+
+// What the API returns about a token; the hash never leaves the server
+export function apiTokenResponse(token: ApiToken) {
+  const { tokenHash, ...rest } = token;
+  return rest;
+}
+
+// Signs a request in with `Authorization: Bearer <token>`. Called by isAuthenticated,
+// and sets req.user the way a session would, plus req.apiToken.
+export async function authenticateApiToken(req: Request, res: Response, next: NextFunction, rawToken: string) {
+  try {
+    const token = await storage.getApiTokenByHash(hashApiToken(rawToken));
+    const now = new Date();
+    if (!token || token.revokedAt || (token.expiresAt && token.expiresAt <= now)) {
+      return res.status(401).json({ message: "Invalid or expired API token" });
+    }
+
+    const resource = resourceForPath(req.path);
+    if (!resource) {
+      return res.status(403).json({ message: "This endpoint can't be used with an API token" });
+    }
+    if (!tokenAllows(token, resource, req.method)) {
+      return res.status(403).json({ message: `This API token needs the ${resource}:${isReadMethod(req.method) ? 'read' : 'write'} scope` });
+    }
+
+    const user = await storage.getUser(token.userId);
+    if (!user) {
+      return res.status(401).json({ message: "Invalid or expired API token" });
+    }
+
+    if (!token.lastUsedAt || now.getTime() - token.lastUsedAt.getTime() > LAST_USED_PRECISION_MS) {
+      storage.markApiTokenUsed(token.id, now).catch(error => console.error("Error recording API token use:", error));
+    }
+
+    (req as any).user = {
+      claims: { sub: user.id, email: user.email, first_name: user.firstName, last_name: user.lastName },
+    };
+    (req as any).apiToken = token;
+    next();
+  } catch (error) {
+    console.error("Error checking API token:", error);
+    res.status(500).json({ message: "Failed to check API token" });
+  }
+}
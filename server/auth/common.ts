@@ -0,0 +1,177 @@
+import { createHash, randomBytes, randomUUID } from "crypto";
+import type { Express, Request } from "express";
+import { storage } from "../storage";
+import { sendAuthLink } from "../email";
+import { dailyAt, type JobDefinition } from "../job-runner";
+import type { AuthProviderId, AuthTokenPurpose, PendingRegistration, User } from "@shared/schema";
+
+// What passport keeps in the session. Sessions from before there were several
+// providers have no `provider` and came from the Replit OIDC login.
+export interface SessionUser {
+  provider?: AuthProviderId;
+  claims: {
+    sub: string;
+    email?: string | null;
+    first_name?: string | null;
+    last_name?: string | null;
+    profile_image_url?: string | null;
+  };
+  expires_at?: number; // unix seconds; past it the provider must refresh the session
+  access_token?: string;
+  refresh_token?: string;
+}
+
+export interface AuthProvider {
+  id: AuthProviderId;
+  label: string;
+  loginUrl?: string; // for providers that redirect to another site to sign in
+  setup(app: Express): Promise<void> | void;
+  // Renews an expired session in place; false means the user has to sign in again
+  refresh?(user: SessionUser): Promise<boolean>;
+  // Where to send the browser after the local session is gone
+  logoutUrl?(req: Request): Promise<string>;
+}
+
+export interface SignInProfile {
+  id?: string; // the issuer's subject, used as the id of new users
+  email: string | null; // only an address the person has proven they own
+  firstName?: string | null;
+  lastName?: string | null;
+  profileImageUrl?: string | null;
+}
+
+// Finds or creates the user, makes sure they have a personal workspace and accepts
+// the invitations waiting for their email address. Callers must have checked that
+// the person owns the email.
+export async function signInUser(profile: SignInProfile): Promise<User> {
+  // An account with this email keeps its id whichever way its owner signs in; without
+  // an email the provider's id is all there is to go on
+  const existing = profile.email
+    ? await storage.getUserByEmail(profile.email)
+    : profile.id ? await storage.getUser(profile.id) : undefined;
+  if (existing) {
+    // A password nobody confirmed may have been set by someone else before the owner
+    // arrived, so it goes now that the owner has shown up
+    await storage.deleteUnverifiedCredentials(existing.id);
+  }
+  const user = await storage.upsertUser({
+    id: existing?.id ?? profile.id ?? randomUUID(),
+    email: profile.email ?? existing?.email ?? null,
+    firstName: profile.firstName ?? existing?.firstName ?? null,
+    lastName: profile.lastName ?? existing?.lastName ?? null,
+    profileImageUrl: profile.profileImageUrl ?? existing?.profileImageUrl ?? null,
+  });
+
+  await storage.ensureUserSetup(user.id);
+
+  if (user.email) {
+    const pendingInvitations = await storage.getPendingInvitations(user.email);
+    for (const invitation of pendingInvitations) {
+      try {
+        await storage.acceptInvitation(invitation.id, user.id);
+        console.log(`Auto-accepted invitation ${invitation.id} for user ${user.email}`);
+      } catch (error) {
+        console.error(`Failed to auto-accept invitation ${invitation.id}:`, error);
+      }
+    }
+  }
+  return user;
+}
+
+// Logs the user in and returns where to send them: the workspace of the invitation
+// they arrived with (see /api/login?invitation=), or the dashboard
+export async function startSession(req: Request, user: User, provider: AuthProviderId, tokens: Partial<SessionUser> = {}): Promise<string> {
+  // Logging in starts a new session, so read this first
+  const pendingInvitation = (req.session as any).pendingInvitation;
+  const sessionUser: SessionUser = {
+    ...tokens,
+    provider,
+    claims: {
+      sub: user.id,
+      email: user.email,
+      first_name: user.firstName,
+      last_name: user.lastName,
+      profile_image_url: user.profileImageUrl,
+    },
+  };
+  await new Promise<void>((resolve, reject) => req.login(sessionUser, error => error ? reject(error) : resolve()));
+
+  if (pendingInvitation) {
+    try {
+      const invitation = await storage.getInvitationById(parseInt(pendingInvitation));
+      if (invitation && invitation.email === user.email) {
+        if (invitation.status === 'pending') {
+          await storage.acceptInvitation(invitation.id, user.id);
+        }
+        const workspace = await storage.getWorkspaceById(invitation.workspaceId);
+        return `/?workspace=${invitation.workspaceId}&invited=true&workspaceName=${encodeURIComponent(workspace?.name || 'workspace')}`;
+      }
+    } catch (error) {
+      console.error('Auto-accept invitation failed:', error);
+    }
+  }
+  return '/';
+}
+
+export const configuredAppUrl = () =>
+  process.env.SITE_URL || (process.env.REPLIT_DOMAINS ? `https://${process.env.REPLIT_DOMAINS.split(',')[0]}` : undefined);
+
+// The app's public address, for emailed links and redirects: SITE_URL or the first of
+// REPLIT_DOMAINS. The request's Host header is up to the client, so it's only used in
+// development.
+export function appUrl(req: Request): string {
+  const configured = configuredAppUrl();
+  if (configured) return configured;
+  if (process.env.NODE_ENV === 'development') return `${req.protocol}://${req.get('host')}`;
+  throw new Error('SITE_URL is not set');
+}
+
+// Emailed links (password reset, email confirmation, magic links)
+const LINK_TTL_MINUTES: Record<AuthTokenPurpose, number> = {
+  password_reset: 60,
+  verify_email: 24 * 60,
+  magic_link: 15,
+};
+const RESEND_INTERVAL_MS = 60 * 1000; // one email per address and purpose a minute
+
+const hashToken = (token: string) => createHash('sha256').update(token).digest('hex');
+
+// Emails a single-use link to `path?token=...`. Requests for the same address within
+// a minute of the last one are dropped quietly, so the form can't be used to flood
+// someone's inbox. A verify_email link carries the registration it confirms.
+export async function sendEmailLink(req: Request, email: string, purpose: AuthTokenPurpose, path: string, registration: PendingRegistration | null = null): Promise<void> {
+  const latest = await storage.getLatestAuthToken(email, purpose);
+  if (latest?.createdAt && Date.now() - latest.createdAt.getTime() < RESEND_INTERVAL_MS) return;
+
+  const token = randomBytes(32).toString('base64url');
+  const expiresInMinutes = LINK_TTL_MINUTES[purpose];
+  await storage.createAuthToken({
+    purpose,
+    email,
+    tokenHash: hashToken(token),
+    expiresAt: new Date(Date.now() + expiresInMinutes * 60 * 1000),
+    registration,
+  });
+
+  const link = `${appUrl(req)}${path}?token=${encodeURIComponent(token)}`;
+  const sent = await sendAuthLink({ toEmail: email, purpose, link, expiresInMinutes });
+  if (!sent && process.env.NODE_ENV === 'development') {
+    // No SMTP in local development: the link in the log is enough to carry on
+    console.log(`[auth] ${purpose} link for ${email}: ${link}`);
+  }
+}
+
+// The link's token if it's valid, marking it used
+export function consumeEmailLink(token: string, purpose: AuthTokenPurpose) {
+  return storage.consumeAuthToken(hashToken(token), purpose, new Date());
+}
+
+export const authTokenCleanupJob: JobDefinition = {
+  name: 'auth_token_cleanup',
+  nextRun: dailyAt(3),
+  runAtStartup: true,
+  async run({ now }) {
+    const deleted = await storage.deleteAuthTokensBefore(new Date(now.getTime() - 24 * 60 * 60 * 1000));
+    if (deleted > 0) return `deleted ${deleted} expired sign-in links`;
+  },
+};
@@ -0,0 +1,127 @@
+import passport from "passport";
+import type { Express, RequestHandler } from "express";
+import { authenticateApiToken } from "../apiTokens";
+import { getSession } from "./session";
+import { oidcProvider } from "./oidc";
+import { passwordProvider } from "./password";
+import { magicLinkProvider } from "./magicLink";
+import { localProvider } from "./local";
+import { configuredAppUrl, type AuthProvider, type SessionUser } from "./common";
+import { AUTH_PROVIDER_IDS, type AuthProviderId, type AuthProviderInfo } from "@shared/schema";
+
+export { getSession } from "./session";
+export { authTokenCleanupJob, appUrl } from "./common";
+
+// Sign-in is handled by providers, switched on with AUTH_PROVIDERS (comma separated,
+// in the order the login page shows them):
+//
+//   oidc        any OpenID Connect issuer, Replit by default (oidc.ts)
+//   password    email and password with confirmation and reset emails (password.ts)
+//   magic_link  emailed single-use sign-in links (magicLink.ts)
+//   local       development only, no checks (local.ts)
+//
+// Without AUTH_PROVIDERS it's oidc when an issuer is configured (OIDC_ISSUER_URL or
+// REPL_ID), otherwise local in development.
+
+const PROVIDERS: Record<AuthProviderId, AuthProvider> = {
+  oidc: oidcProvider,
+  password: passwordProvider,
+  magic_link: magicLinkProvider,
+  local: localProvider,
+};
+
+function enabledProviderIds(): AuthProviderId[] {
+  const configured = (process.env.AUTH_PROVIDERS ?? '').split(',').map(id => id.trim()).filter(Boolean);
+  if (configured.length === 0) {
+    if (process.env.OIDC_ISSUER_URL || process.env.REPL_ID) return ['oidc'];
+    return process.env.NODE_ENV === 'development' ? ['local'] : [];
+  }
+
+  const unknown = configured.filter(id => !(AUTH_PROVIDER_IDS as readonly string[]).includes(id));
+  if (unknown.length > 0) {
+    throw new Error(`Unknown AUTH_PROVIDERS: ${unknown.join(', ')} (expected ${AUTH_PROVIDER_IDS.join(', ')})`);
+  }
+  if (configured.includes('local') && process.env.NODE_ENV !== 'development') {
+    throw new Error('The local auth provider only runs with NODE_ENV=development');
+  }
+  return configured as AuthProviderId[];
+}
+
+let providers: AuthProvider[] = [];
+
+export async function setupAuth(app: Express) {
+  if (process.env.NODE_ENV !== 'development' && !configuredAppUrl()) {
+    throw new Error('Set SITE_URL to the address the app is served from; emailed links and redirects use it');
+  }
+  app.set("trust proxy", 1);
+  app.use(getSession());
+  app.use(passport.initialize());
+  app.use(passport.session());
+
+  passport.serializeUser((user: Express.User, cb) => cb(null, user));
+  passport.deserializeUser((user: Express.User, cb) => cb(null, user));
+
+  providers = enabledProviderIds().map(id => PROVIDERS[id]);
+  if (providers.length === 0) {
+    console.warn('No sign-in providers are enabled; set AUTH_PROVIDERS');
+  }
+  for (const provider of providers) {
+    await provider.setup(app);
+  }
+
+  // For the login page
+  app.get('/api/auth/providers', (_req, res) => {
+    res.json(providers.map(({ id, label, loginUrl }): AuthProviderInfo => ({ id, label, loginUrl })));
+  });
+
+  // Where "Sign in" buttons go. A lone redirect provider is used straight away,
+  // otherwise the login page lets the user choose.
+  app.get("/api/login", (req, res) => {
+    // Store invitation token in session if provided
+    const invitationToken = req.query.invitation;
+    if (invitationToken) {
+      (req.session as any).pendingInvitation = invitationToken;
+    }
+
+    if (providers.length === 1 && providers[0].loginUrl) {
+      return res.redirect(providers[0].loginUrl);
+    }
+    res.redirect('/login');
+  });
+
+  app.get("/api/logout", async (req, res, next) => {
+    try {
+      const user = req.user as SessionUser | undefined;
+      const provider = user && providers.find(p => p.id === (user.provider ?? 'oidc'));
+      const redirectTo = provider?.logoutUrl ? await provider.logoutUrl(req) : '/';
+      req.logout(() => res.redirect(redirectTo));
+    } catch (error) {
+      next(error);
+    }
+  });
+}
+
+export const isAuthenticated: RequestHandler = async (req, res, next) => {
+  // Scripts and CI sign in with an API token instead of a session
+  const bearer = /^Bearer\s+(\S+)$/i.exec(req.headers.authorization ?? '');
+  if (bearer) {
+    return authenticateApiToken(req, res, next, bearer[1]);
+  }
+
+  const user = req.user as SessionUser | undefined;
+  if (!req.isAuthenticated() || !user?.claims?.sub) {
+    return res.status(401).json({ message: "Unauthorized" });
+  }
+
+  // Only sessions backed by an identity provider's tokens expire before the cookie does
+  const now = Math.floor(Date.now() / 1000);
+  if (!user.expires_at || now <= user.expires_at) {
+    return next();
+  }
+
+  const provider = providers.find(p => p.id === (user.provider ?? 'oidc'));
+  if (provider?.refresh && await provider.refresh(user)) {
+    return next();
+  }
+  res.status(401).json({ message: "Unauthorized" });
+};
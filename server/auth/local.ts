@@ -0,0 +1,28 @@
+import { signInUser, startSession, type AuthProvider } from "./common";
+import { localLoginSchema } from "@shared/schema";
+
+// Development only: signs in as any email address without checking anything, so the
+// app runs offline without an identity provider or SMTP. setupAuth refuses to enable
+// it outside NODE_ENV=development.
+export const localProvider: AuthProvider = {
+  id: 'local',
+  label: 'Development sign-in',
+
+  setup(app) {
+    app.post('/api/auth/local', async (req, res) => {
+      try {
+        const parsed = localLoginSchema.safeParse(req.body);
+        if (!parsed.success) {
+          return res.status(400).json({ message: "Enter a valid email address", errors: parsed.error.flatten().fieldErrors });
+        }
+        const { email, firstName, lastName } = parsed.data;
+        const user = await signInUser({ email, firstName: firstName || null, lastName: lastName || null });
+        const redirectTo = await startSession(req, user, 'local');
+        res.json({ redirectTo });
+      } catch (error) {
+        console.error("Error signing in locally:", error);
+        res.status(500).json({ message: "Failed to sign in" });
+      }
+    });
+  },
+};
@@ -0,0 +1,38 @@
+import { consumeEmailLink, sendEmailLink, signInUser, startSession, type AuthProvider } from "./common";
+import { emailLinkRequestSchema } from "@shared/schema";
+
+// Passwordless sign-in: a single-use link is emailed and opening it signs the person
+// in, creating their account the first time
+export const magicLinkProvider: AuthProvider = {
+  id: 'magic_link',
+  label: 'Email me a sign-in link',
+
+  setup(app) {
+    app.post('/api/auth/magic-link', async (req, res) => {
+      try {
+        const parsed = emailLinkRequestSchema.safeParse(req.body);
+        if (!parsed.success) {
+          return res.status(400).json({ message: "Enter a valid email address", errors: parsed.error.flatten().fieldErrors });
+        }
+        await sendEmailLink(req, parsed.data.email, 'magic_link', '/api/auth/magic-link/verify');
+        res.json({ message: "Check your email for a sign-in link." });
+      } catch (error) {
+        console.error("Error sending magic link:", error);
+        res.status(500).json({ message: "Failed to send sign-in link" });
+      }
+    });
+
+    app.get('/api/auth/magic-link/verify', async (req, res, next) => {
+      try {
+        const token = await consumeEmailLink(String(req.query.token ?? ''), 'magic_link');
+        if (!token) {
+          return res.redirect('/login?error=link_expired');
+        }
+        const user = await signInUser({ email: token.email });
+        res.redirect(await startSession(req, user, 'magic_link'));
+      } catch (error) {
+        next(error);
+      }
+    });
+  },
+};
@@ -0,0 +1,131 @@
+import * as client from "openid-client";
+import { Strategy, type VerifyFunction } from "openid-client/passport";
+
+import passport from "passport";
+import memoize from "memoizee";
+import { signInUser, startSession, appUrl, type AuthProvider, type SessionUser } from "./common";
+
+// Any OpenID Connect issuer. Without OIDC_* settings this is the Replit login, which
+// takes its client id from REPL_ID:
+//
+//   OIDC_ISSUER_URL     issuer to discover (falls back to ISSUER_URL, then Replit)
+//   OIDC_CLIENT_ID      (falls back to REPL_ID)
+//   OIDC_CLIENT_SECRET  for confidential clients
+//   OIDC_SCOPE          defaults to "openid email profile offline_access"
+//   OIDC_LABEL          the login button's text
+//
+// The issuer must redirect back to <SITE_URL or the first REPLIT_DOMAINS>/api/callback.
+
+const REPLIT_ISSUER = "https://replit.com/oidc";
+const issuerUrl = process.env.OIDC_ISSUER_URL ?? process.env.ISSUER_URL ?? REPLIT_ISSUER;
+const clientId = () => process.env.OIDC_CLIENT_ID ?? process.env.REPL_ID!;
+const scope = process.env.OIDC_SCOPE ?? "openid email profile offline_access";
+
+const getOidcConfig = memoize(
+  async () => {
+    return await client.discovery(new URL(issuerUrl), clientId(), process.env.OIDC_CLIENT_SECRET);
+  },
+  { maxAge: 3600 * 1000 }
+);
+
+function callbackUrl(): string {
+  // REPLIT_DOMAINS is optional for development
+  const domain = (process.env.REPLIT_DOMAINS || 'localhost').split(",")[0];
+  return `${process.env.SITE_URL || `https://${domain}`}/api/callback`;
+}
+
+function sessionTokens(tokens: client.TokenEndpointResponse & client.TokenEndpointResponseHelpers): Partial<SessionUser> {
+  return {
+    access_token: tokens.access_token,
+    refresh_token: tokens.refresh_token,
+    expires_at: tokens.claims()?.exp,
+  };
+}
+
+// Accounts are keyed on the issuer and its subject. Replit logins keep the bare subject
+// they have always used as the user id.
+function userIdFor(claims: client.IDToken): string {
+  return issuerUrl === REPLIT_ISSUER ? String(claims.sub) : `${claims.iss}|${claims.sub}`;
+}
+
+// Replit sends first_name/last_name/profile_image_url, other issuers the standard claims.
+// An email the issuer hasn't verified is left out, so it can't link to someone else's
+// account.
+function profileFromClaims(claims: client.IDToken) {
+  return {
+    id: userIdFor(claims),
+    email: claims.email_verified === true ? (claims.email as string | undefined) ?? null : null,
+    firstName: (claims.first_name ?? claims.given_name) as string | undefined,
+    lastName: (claims.last_name ?? claims.family_name) as string | undefined,
+    profileImageUrl: (claims.profile_image_url ?? claims.picture) as string | undefined,
+  };
+}
+
+export const oidcProvider: AuthProvider = {
+  id: 'oidc',
+  label: process.env.OIDC_LABEL ?? (process.env.OIDC_ISSUER_URL ? 'Single sign-on' : 'Replit'),
+  loginUrl: '/api/auth/oidc/login',
+
+  async setup(app) {
+    const config = await getOidcConfig();
+
+    // The user is created here, but the session is started in the callback route so it
+    // can pick up the invitation the login began with
+    const verify: VerifyFunction = async (tokens, verified) => {
+      try {
+        const claims = tokens.claims();
+        if (!claims) throw new Error('The identity provider returned no ID token');
+        const user = await signInUser(profileFromClaims(claims));
+        verified(null, { user, tokens: sessionTokens(tokens) });
+      } catch (error) {
+        console.error('OIDC verification failed:', error);
+        verified(error as Error);
+      }
+    };
+
+    passport.use(new Strategy({ name: 'oidc', config, scope, callbackURL: callbackUrl() }, verify));
+
+    app.get('/api/auth/oidc/login', passport.authenticate('oidc', {
+      prompt: "login consent",
+      scope: scope.split(' '),
+    }));
+
+    app.get("/api/callback", (req, res, next) => {
+      passport.authenticate('oidc', async (err: any, result: any) => {
+        if (err) {
+          console.error('OIDC authentication error:', err);
+          return res.redirect('/login?error=sign_in_failed');
+        }
+        if (!result) {
+          return res.redirect('/login?error=sign_in_failed');
+        }
+        try {
+          res.redirect(await startSession(req, result.user, 'oidc', result.tokens));
+        } catch (error) {
+          next(error);
+        }
+      })(req, res, next);
+    });
+  },
+
+  async refresh(user) {
+    if (!user.refresh_token) return false;
+    try {
+      const config = await getOidcConfig();
+      const tokens = await client.refreshTokenGrant(config, user.refresh_token);
+      // Not every issuer rotates the refresh token
+      Object.assign(user, sessionTokens(tokens), { refresh_token: tokens.refresh_token ?? user.refresh_token });
+      return true;
+    } catch (error) {
+      return false;
+    }
+  },
+
+  async logoutUrl(req) {
+    const config = await getOidcConfig();
+    return client.buildEndSessionUrl(config, {
+      client_id: clientId(),
+      post_logout_redirect_uri: appUrl(req),
+    }).href;
+  },
+};
@@ -0,0 +1,149 @@
+import { randomBytes, randomUUID, scrypt, timingSafeEqual } from "crypto";
+import { promisify } from "util";
+import { storage } from "../storage";
+import { consumeEmailLink, sendEmailLink, signInUser, startSession, type AuthProvider } from "./common";
+import { emailLinkRequestSchema, passwordLoginSchema, registerSchema, resetPasswordSchema } from "@shared/schema";
+
+// Email and password accounts. A registration waits in its confirmation link and the
+// account is only created when the link is opened; a password reset also confirms the
+// email, and is how users from other providers add a password. Passwords are stored
+// as scrypt hashes.
+
+const scryptAsync = promisify(scrypt) as (password: string, salt: Buffer, keyLength: number) => Promise<Buffer>;
+const KEY_LENGTH = 64;
+
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16);
+  const hash = await scryptAsync(password, salt, KEY_LENGTH);
+  return `scrypt$${salt.toString('base64')}$${hash.toString('base64')}`;
+}
+
+export async function verifyPassword(password: string, stored: string): Promise<boolean> {
+  const [scheme, salt, hash] = stored.split('$');
+  if (scheme !== 'scrypt' || !salt || !hash) return false;
+  const expected = Buffer.from(hash, 'base64');
+  const actual = await scryptAsync(password, Buffer.from(salt, 'base64'), expected.length);
+  return timingSafeEqual(actual, expected);
+}
+
+// Compared against when the email is unknown, so a wrong email takes as long as a
+// wrong password
+const dummyHash = hashPassword(randomUUID());
+
+const CHECK_EMAIL = "Check your email for a link to continue.";
+
+export const passwordProvider: AuthProvider = {
+  id: 'password',
+  label: 'Email and password',
+
+  setup(app) {
+    // Always answers the same way, so the form doesn't tell who has an account. An
+    // existing account gets a reset link instead of a second registration.
+    app.post('/api/auth/password/register', async (req, res) => {
+      try {
+        const parsed = registerSchema.safeParse(req.body);
+        if (!parsed.success) {
+          return res.status(400).json({ message: "Invalid registration", errors: parsed.error.flatten().fieldErrors });
+        }
+        const { email, password, firstName, lastName } = parsed.data;
+
+        const existing = await storage.getUserByEmail(email);
+        if (existing) {
+          await sendEmailLink(req, email, 'password_reset', '/reset-password');
+        } else {
+          await sendEmailLink(req, email, 'verify_email', '/api/auth/password/verify', {
+            passwordHash: await hashPassword(password),
+            firstName: firstName || null,
+            lastName: lastName || null,
+          });
+        }
+        res.status(201).json({ message: CHECK_EMAIL });
+      } catch (error) {
+        console.error("Error registering:", error);
+        res.status(500).json({ message: "Failed to create account" });
+      }
+    });
+
+    app.get('/api/auth/password/verify', async (req, res, next) => {
+      try {
+        const token = await consumeEmailLink(String(req.query.token ?? ''), 'verify_email');
+        if (!token?.registration) {
+          return res.redirect('/login?error=link_expired');
+        }
+        const { passwordHash, firstName, lastName } = token.registration;
+        const user = await signInUser({ email: token.email, firstName, lastName });
+        await storage.setUserPassword(user.id, passwordHash, new Date());
+        res.redirect(await startSession(req, user, 'password'));
+      } catch (error) {
+        next(error);
+      }
+    });
+
+    app.post('/api/auth/password/login', async (req, res) => {
+      try {
+        const parsed = passwordLoginSchema.safeParse(req.body);
+        if (!parsed.success) {
+          return res.status(400).json({ message: "Enter your email and password", errors: parsed.error.flatten().fieldErrors });
+        }
+        const { email, password } = parsed.data;
+
+        const user = await storage.getUserByEmail(email);
+        const credentials = user && await storage.getUserCredentials(user.id);
+        const valid = await verifyPassword(password, credentials?.passwordHash ?? await dummyHash);
+        if (!user || !credentials || !valid) {
+          return res.status(401).json({ message: "Incorrect email or password" });
+        }
+        if (!credentials.emailVerifiedAt) {
+          // Left from before registrations waited for confirmation. Whoever set this
+          // password may not own the address, so its owner picks the password instead.
+          await sendEmailLink(req, email, 'password_reset', '/reset-password');
+          return res.status(403).json({ message: "Confirm your email address first. We've sent you a link to set your password." });
+        }
+
+        const redirectTo = await startSession(req, await signInUser({ email }), 'password');
+        res.json({ redirectTo });
+      } catch (error) {
+        console.error("Error signing in:", error);
+        res.status(500).json({ message: "Failed to sign in" });
+      }
+    });
+
+    app.post('/api/auth/password/forgot', async (req, res) => {
+      try {
+        const parsed = emailLinkRequestSchema.safeParse(req.body);
+        if (!parsed.success) {
+          return res.status(400).json({ message: "Enter a valid email address", errors: parsed.error.flatten().fieldErrors });
+        }
+        if (await storage.getUserByEmail(parsed.data.email)) {
+          await sendEmailLink(req, parsed.data.email, 'password_reset', '/reset-password');
+        }
+        res.json({ message: CHECK_EMAIL });
+      } catch (error) {
+        console.error("Error requesting password reset:", error);
+        res.status(500).json({ message: "Failed to send reset link" });
+      }
+    });
+
+    app.post('/api/auth/password/reset', async (req, res) => {
+      try {
+        const parsed = resetPasswordSchema.safeParse(req.body);
+        if (!parsed.success) {
+          return res.status(400).json({ message: "Invalid password", errors: parsed.error.flatten().fieldErrors });
+        }
+        const token = await consumeEmailLink(parsed.data.token, 'password_reset');
+        const user = token && await storage.getUserByEmail(token.email);
+        if (!user) {
+          return res.status(400).json({ message: "This reset link has expired or was already used" });
+        }
+
+        // The link came to this address, so it's confirmed too
+        await storage.setUserPassword(user.id, await hashPassword(parsed.data.password), new Date());
+        const redirectTo = await startSession(req, await signInUser({ email: user.email }), 'password');
+        res.json({ redirectTo });
+      } catch (error) {
+        console.error("Error resetting password:", error);
+        res.status(500).json({ message: "Failed to reset password" });
+      }
+    });
+  },
+};
@@ -0,0 +1,42 @@
+import session from "express-session";
+import connectPg from "connect-pg-simple";
+import type { RequestHandler } from "express";
+
+// Shared between the Express app and the WebSocket upgrade handler
+let sessionHandler: RequestHandler | null = null;
+
+function sessionSecret(): string {
+  if (process.env.SESSION_SECRET) return process.env.SESSION_SECRET;
+  if (process.env.NODE_ENV === 'development') {
+    console.warn('SESSION_SECRET is not set; using an insecure development secret');
+    return 'development-session-secret';
+  }
+  throw new Error('SESSION_SECRET must be set');
+}
+
+export function getSession(): RequestHandler {
+  if (sessionHandler) {
+    return sessionHandler;
+  }
+
+  const sessionTtl = 7 * 24 * 60 * 60 * 1000; // 1 week
+  const pgStore = connectPg(session);
+  const sessionStore = new pgStore({
+    conString: process.env.DATABASE_URL,
+    createTableIfMissing: false,
+    ttl: sessionTtl,
+    tableName: "sessions",
+  });
+  sessionHandler = session({
+    secret: sessionSecret(),
+    store: sessionStore,
+    resave: false,
+    saveUninitialized: false,
+    cookie: {
+      httpOnly: true,
+      secure: process.env.NODE_ENV === 'production',
+      maxAge: sessionTtl,
+    },
+  });
+  return sessionHandler;
+}
@@ -0,0 +1,11 @@
+// Minimal RFC 4180 CSV writer for report exports
+
+function escapeCell(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  const text = value instanceof Date ? value.toISOString() : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function toCsv(headers: string[], rows: unknown[][]): string {
+  return [headers, ...rows].map(row => row.map(escapeCell).join(',')).join('\r\n') + '\r\n';
+}
@@ -283,4 +283,231 @@ export async function sendTaskNotification(data: TaskNotificationEmailData): Pro
     console.error('Failed to send task notification email:', error);
     return false;
   }
-}
\ No newline at end of file
+}
+export interface ReminderTask {
+  title: string;
+  dueDate: string | null;
+  dueTime?: string | null;
+  projectName?: string | null;
+}
+
+const escapeHtml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+function renderTaskRows(tasks: ReminderTask[], accent: string): string {
+  return tasks.map(task => `
+                <div style="background: white; padding: 12px 16px; border-radius: 8px; border-left: 4px solid ${accent}; margin: 8px 0;">
+                  <strong style="color: #333;">${escapeHtml(task.title)}</strong>
+                  <div style="color: #666; font-size: 13px; margin-top: 4px;">
+                    ${[task.dueDate && `Due ${task.dueDate}${task.dueTime ? ` at ${task.dueTime.slice(0, 5)}` : ''}`, task.projectName && escapeHtml(task.projectName)].filter(Boolean).join(' · ')}
+                  </div>
+                </div>`).join('');
+}
+
+function renderEmail(title: string, gradient: string, body: string): string {
+  return `
+          <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto; padding: 20px;">
+            <div style="background: ${gradient}; color: white; padding: 30px; border-radius: 10px 10px 0 0; text-align: center;">
+              <h1 style="margin: 0; font-size: 24px;">${title}</h1>
+            </div>
+            <div style="background: #f8f9fa; padding: 30px; border-radius: 0 0 10px 10px; border: 1px solid #e9ecef;">${body}
+            </div>
+          </div>
+        `;
+}
+
+export interface TaskReminderEmailData {
+  toEmail: string;
+  recipientName: string;
+  kind: 'due_soon' | 'overdue';
+  task: ReminderTask;
+  workspaceName?: string;
+}
+
+export async function sendTaskReminder(data: TaskReminderEmailData): Promise<boolean> {
+  try {
+    const transporter = createTransporter();
+    const overdue = data.kind === 'overdue';
+
+    await transporter.sendMail({
+      from: process.env.SMTP_FROM_EMAIL,
+      to: data.toEmail,
+      subject: overdue ? `Overdue: ${data.task.title}` : `Due soon: ${data.task.title}`,
+      html: renderEmail(overdue ? 'Task Overdue' : 'Task Due Soon', overdue
+        ? 'linear-gradient(135deg, #ff416c 0%, #ff4b2b 100%)'
+        : 'linear-gradient(135deg, #f7971e 0%, #ffd200 100%)', `
+              <p style="font-size: 16px; color: #333; margin-bottom: 20px;">
+                Hello ${escapeHtml(data.recipientName)},
+              </p>
+              <p style="font-size: 16px; color: #333; margin-bottom: 20px;">
+                ${overdue ? 'This task assigned to you is past its due date:' : 'This task assigned to you is due soon:'}
+              </p>${renderTaskRows([data.task], overdue ? '#ff416c' : '#f7971e')}
+              <p style="font-size: 14px; color: #666; margin-top: 30px;">
+                Open your ${escapeHtml(data.workspaceName || 'TasksAI')} workspace to update the task.
+              </p>`),
+    });
+    console.log(`Task reminder email sent to ${data.toEmail}`);
+    return true;
+  } catch (error) {
+    console.error('Failed to send task reminder email:', error);
+    return false;
+  }
+}
+
+export interface DueTodayDigestEmailData {
+  toEmail: string;
+  recipientName: string;
+  workspaceName: string;
+  tasks: ReminderTask[];
+}
+
+export async function sendDueTodayDigest(data: DueTodayDigestEmailData): Promise<boolean> {
+  try {
+    const transporter = createTransporter();
+
+    await transporter.sendMail({
+      from: process.env.SMTP_FROM_EMAIL,
+      to: data.toEmail,
+      subject: `${data.tasks.length} task${data.tasks.length === 1 ? '' : 's'} due today in ${data.workspaceName}`,
+      html: renderEmail('Due Today', 'linear-gradient(135deg, #667eea 0%, #764ba2 100%)', `
+              <p style="font-size: 16px; color: #333; margin-bottom: 20px;">
+                Good morning ${escapeHtml(data.recipientName)}, here's what's due today in ${escapeHtml(data.workspaceName)}:
+              </p>${renderTaskRows(data.tasks, '#667eea')}`),
+    });
+    console.log(`Due today digest sent to ${data.toEmail}`);
+    return true;
+  } catch (error) {
+    console.error('Failed to send due today digest:', error);
+    return false;
+  }
+}
+
+export interface WeeklySummaryEmailData {
+  toEmail: string;
+  recipientName: string;
+  workspaceName: string;
+  completed: ReminderTask[];
+  overdue: ReminderTask[];
+  upcoming: ReminderTask[]; // due in the coming week
+  openCount: number;
+}
+
+export async function sendWeeklySummary(data: WeeklySummaryEmailData): Promise<boolean> {
+  try {
+    const transporter = createTransporter();
+    const section = (heading: string, tasks: ReminderTask[], accent: string) => tasks.length === 0 ? '' : `
+              <h3 style="color: #333; margin: 24px 0 8px 0;">${heading} (${tasks.length})</h3>${renderTaskRows(tasks, accent)}`;
+
+    await transporter.sendMail({
+      from: process.env.SMTP_FROM_EMAIL,
+      to: data.toEmail,
+      subject: `Your week in ${data.workspaceName}`,
+      html: renderEmail('Weekly Summary', 'linear-gradient(135deg, #4facfe 0%, #00f2fe 100%)', `
+              <p style="font-size: 16px; color: #333; margin-bottom: 20px;">
+                Hello ${escapeHtml(data.recipientName)}, you completed ${data.completed.length} task${data.completed.length === 1 ? '' : 's'}
+                last week and have ${data.openCount} open in ${escapeHtml(data.workspaceName)}.
+              </p>${section('Overdue', data.overdue, '#ff416c')}${section('Due this week', data.upcoming, '#4facfe')}${section('Completed last week', data.completed, '#56ab2f')}`),
+    });
+    console.log(`Weekly summary sent to ${data.toEmail}`);
+    return true;
+  } catch (error) {
+    console.error('Failed to send weekly summary:', error);
+    return false;
+  }
+}
+
+export interface NotificationDigestItem {
+  title: string;
+  message: string;
+}
+
+export interface NotificationDigestEmailData {
+  toEmail: string;
+  recipientName: string;
+  workspaceName: string;
+  notifications: NotificationDigestItem[];
+}
+
+export async function sendNotificationDigest(data: NotificationDigestEmailData): Promise<boolean> {
+  try {
+    const transporter = createTransporter();
+    const count = data.notifications.length;
+    const rows = data.notifications.map(item => `
+                <div style="background: white; padding: 12px 16px; border-radius: 8px; border-left: 4px solid #667eea; margin: 8px 0;">
+                  <strong style="color: #333;">${escapeHtml(item.title)}</strong>
+                  <div style="color: #666; font-size: 13px; margin-top: 4px;">${escapeHtml(item.message)}</div>
+                </div>`).join('');
+
+    await transporter.sendMail({
+      from: process.env.SMTP_FROM_EMAIL,
+      to: data.toEmail,
+      subject: `${count} notification${count === 1 ? '' : 's'} from ${data.workspaceName}`,
+      html: renderEmail('Your Daily Digest', 'linear-gradient(135deg, #667eea 0%, #764ba2 100%)', `
+              <p style="font-size: 16px; color: #333; margin-bottom: 20px;">
+                Hello ${escapeHtml(data.recipientName)}, here's what happened in ${escapeHtml(data.workspaceName)} since your last digest:
+              </p>${rows}
+              <p style="font-size: 14px; color: #666; margin-top: 30px;">
+                You can change which notifications are emailed in the notification settings.
+              </p>`),
+    });
+    console.log(`Notification digest sent to ${data.toEmail}`);
+    return true;
+  } catch (error) {
+    console.error('Failed to send notification digest:', error);
+    return false;
+  }
+}
+
+export interface AuthLinkEmailData {
+  toEmail: string;
+  purpose: 'password_reset' | 'verify_email' | 'magic_link';
+  link: string;
+  expiresInMinutes: number;
+}
+
+const AUTH_LINK_COPY: Record<AuthLinkEmailData['purpose'], { subject: string; title: string; intro: string; action: string }> = {
+  password_reset: {
+    subject: 'Reset your TasksAI password',
+    title: 'Reset Your Password',
+    intro: 'Someone asked to reset the password for this email address. If it was you, choose a new password below.',
+    action: 'Choose a new password',
+  },
+  verify_email: {
+    subject: 'Confirm your email for TasksAI',
+    title: 'Confirm Your Email',
+    intro: 'Confirm this address to finish creating your TasksAI account.',
+    action: 'Confirm email',
+  },
+  magic_link: {
+    subject: 'Your TasksAI sign-in link',
+    title: 'Sign In to TasksAI',
+    intro: 'Use the button below to sign in. The link works once.',
+    action: 'Sign in',
+  },
+};
+
+export async function sendAuthLink(data: AuthLinkEmailData): Promise<boolean> {
+  try {
+    const transporter = createTransporter();
+    const copy = AUTH_LINK_COPY[data.purpose];
+
+    await transporter.sendMail({
+      from: process.env.SMTP_FROM_EMAIL,
+      to: data.toEmail,
+      subject: copy.subject,
+      html: renderEmail(copy.title, 'linear-gradient(135deg, #667eea 0%, #764ba2 100%)', `
+              <p style="font-size: 16px; color: #333; margin-bottom: 20px;">${copy.intro}</p>
+              <div style="text-align: center; margin: 30px 0;">
+                <a href="${escapeHtml(data.link)}" style="background: #667eea; color: white; padding: 12px 24px; border-radius: 6px; text-decoration: none; font-weight: bold;">${copy.action}</a>
+              </div>
+              <p style="font-size: 14px; color: #666; margin-top: 30px;">
+                The link expires in ${data.expiresInMinutes} minutes. If you didn't ask for this email, you can ignore it.
+              </p>`),
+    });
+    console.log(`Auth email (${data.purpose}) sent to ${data.toEmail}`);
+    return true;
+  } catch (error) {
+    console.error('Failed to send auth email:', error);
+    return false;
+  }
+}
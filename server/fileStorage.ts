@@ -0,0 +1,183 @@
+import { createHash, createHmac, randomUUID } from "crypto";
+import { createReadStream } from "fs";
+import { mkdir, writeFile, unlink, stat } from "fs/promises";
+import path from "path";
+import { Readable } from "stream";
+import type { ReadableStream } from "stream/web";
+
+// Where uploaded file contents live. The files table only keeps the key.
+//
+// FILE_STORAGE_DRIVER=local (default) writes under FILE_STORAGE_DIR (./uploads).
+// FILE_STORAGE_DRIVER=s3 talks to any S3-compatible service (AWS, MinIO, R2, ...) using
+// S3_ENDPOINT, S3_REGION, S3_BUCKET, S3_ACCESS_KEY_ID and S3_SECRET_ACCESS_KEY.
+
+export interface StoredObject {
+  stream: Readable;
+  size?: number;
+}
+
+export interface FileStorageAdapter {
+  put(key: string, data: Buffer, contentType: string): Promise<void>;
+  get(key: string): Promise<StoredObject | null>;
+  delete(key: string): Promise<void>;
+}
+
+export class LocalFileStorage implements FileStorageAdapter {
+  private root: string;
+
+  constructor(root: string) {
+    this.root = path.resolve(root);
+  }
+
+  // Keys are generated by us, but never let one escape the storage root
+  private resolve(key: string): string {
+    const target = path.resolve(this.root, key);
+    if (!target.startsWith(this.root + path.sep)) {
+      throw new Error(`Invalid storage key: ${key}`);
+    }
+    return target;
+  }
+
+  async put(key: string, data: Buffer): Promise<void> {
+    const target = this.resolve(key);
+    await mkdir(path.dirname(target), { recursive: true });
+    await writeFile(target, data);
+  }
+
+  async get(key: string): Promise<StoredObject | null> {
+    const target = this.resolve(key);
+    try {
+      const { size } = await stat(target);
+      return { stream: createReadStream(target), size };
+    } catch (error: any) {
+      if (error.code === 'ENOENT') return null;
+      throw error;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    try {
+      await unlink(this.resolve(key));
+    } catch (error: any) {
+      if (error.code !== 'ENOENT') throw error;
+    }
+  }
+}
+
+interface S3Config {
+  endpoint: string;
+  region: string;
+  bucket: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+}
+
+const sha256 = (data: string | Buffer) => createHash('sha256').update(data).digest('hex');
+const hmac = (key: string | Buffer, data: string) => createHmac('sha256', key).update(data).digest();
+
+// AWS-style URI encoding for each path segment
+const encodeKey = (key: string) =>
+  key.split('/').map(segment =>
+    encodeURIComponent(segment).replace(/[!'()*]/g, c => `%${c.charCodeAt(0).toString(16).toUpperCase()}`)
+  ).join('/');
+
+// Minimal S3 client: path-style requests signed with Signature Version 4
+export class S3FileStorage implements FileStorageAdapter {
+  constructor(private config: S3Config) {}
+
+  private async request(method: string, key: string, body?: Buffer, contentType?: string): Promise<Response> {
+    const { endpoint, region, bucket, accessKeyId, secretAccessKey } = this.config;
+    const canonicalPath = `/${encodeURIComponent(bucket)}/${encodeKey(key)}`;
+    const url = new URL(endpoint.replace(/\/+$/, '') + canonicalPath);
+
+    const amzDate = new Date().toISOString().replace(/[:-]|\.\d{3}/g, '');
+    const dateStamp = amzDate.slice(0, 8);
+    const payloadHash = sha256(body ?? '');
+
+    const headers: Record<string, string> = {
+      host: url.host,
+      'x-amz-content-sha256': payloadHash,
+      'x-amz-date': amzDate,
+    };
+    if (contentType) headers['content-type'] = contentType;
+
+    const signedHeaderNames = Object.keys(headers).sort();
+    const canonicalRequest = [
+      method,
+      canonicalPath,
+      '',
+      ...signedHeaderNames.map(name => `${name}:${headers[name]}`),
+      '',
+      signedHeaderNames.join(';'),
+      payloadHash,
+    ].join('\n');
+
+    const scope = `${dateStamp}/${region}/s3/aws4_request`;
+    const stringToSign = ['AWS4-HMAC-SHA256', amzDate, scope, sha256(canonicalRequest)].join('\n');
+    const signingKey = hmac(hmac(hmac(hmac(`AWS4${secretAccessKey}`, dateStamp), region), 's3'), 'aws4_request');
+    const signature = createHmac('sha256', signingKey).update(stringToSign).digest('hex');
+
+    const { host, ...requestHeaders } = headers;
+    return fetch(url, {
+      method,
+      headers: {
+        ...requestHeaders,
+        authorization: `AWS4-HMAC-SHA256 Credential=${accessKeyId}/${scope}, SignedHeaders=${signedHeaderNames.join(';')}, Signature=${signature}`,
+      },
+      body,
+    });
+  }
+
+  async put(key: string, data: Buffer, contentType: string): Promise<void> {
+    const response = await this.request('PUT', key, data, contentType);
+    if (!response.ok) {
+      throw new Error(`S3 upload failed (${response.status}): ${await response.text()}`);
+    }
+  }
+
+  async get(key: string): Promise<StoredObject | null> {
+    const response = await this.request('GET', key);
+    if (response.status === 404) return null;
+    if (!response.ok || !response.body) {
+      throw new Error(`S3 download failed (${response.status}): ${await response.text()}`);
+    }
+    const length = response.headers.get('content-length');
+    return {
+      stream: Readable.fromWeb(response.body as ReadableStream<Uint8Array>),
+      size: length ? parseInt(length) : undefined,
+    };
+  }
+
+  async delete(key: string): Promise<void> {
+    const response = await this.request('DELETE', key);
+    // S3 answers 204 whether or not the object existed
+    if (!response.ok && response.status !== 404) {
+      throw new Error(`S3 delete failed (${response.status}): ${await response.text()}`);
+    }
+  }
+}
+
+export function createFileStorage(): FileStorageAdapter {
+  if (process.env.FILE_STORAGE_DRIVER === 's3') {
+    const { S3_ENDPOINT, S3_BUCKET, S3_ACCESS_KEY_ID, S3_SECRET_ACCESS_KEY } = process.env;
+    if (!S3_ENDPOINT || !S3_BUCKET || !S3_ACCESS_KEY_ID || !S3_SECRET_ACCESS_KEY) {
+      throw new Error('S3 file storage requires S3_ENDPOINT, S3_BUCKET, S3_ACCESS_KEY_ID and S3_SECRET_ACCESS_KEY');
+    }
+    return new S3FileStorage({
+      endpoint: S3_ENDPOINT,
+      region: process.env.S3_REGION || 'us-east-1',
+      bucket: S3_BUCKET,
+      accessKeyId: S3_ACCESS_KEY_ID,
+      secretAccessKey: S3_SECRET_ACCESS_KEY,
+    });
+  }
+  return new LocalFileStorage(process.env.FILE_STORAGE_DIR || 'uploads');
+}
+
+export const fileStorage = createFileStorage();
+
+// Storage key for a new upload: grouped by workspace, unique, and safe on any backend
+export function createStorageKey(workspaceId: number, originalName: string): string {
+  const safeName = originalName.replace(/[^A-Za-z0-9._-]+/g, '_').slice(-100) || 'file';
+  return `${workspaceId}/${randomUUID()}-${safeName}`;
+}
@@ -0,0 +1,194 @@
+// Minimal RFC 5545 writer for the calendar feed and .ics exports. Tasks become VEVENTs
+// (or VTODOs for apps that show to-dos); a recurring series is written once with its
+// RRULE, and its generated instances as overrides of that series.
+
+import { occurrenceIterator, stringifyRRule, type RRule } from "@shared/rrule";
+import type { Task, TaskRecurrence } from "@shared/schema";
+import { occurrenceOf } from "./recurrence-utils";
+
+export type CalendarComponent = 'event' | 'todo';
+
+export interface CalendarSeries {
+  recurrence: TaskRecurrence;
+  rule: RRule;
+  exdates: string[]; // the series' EXDATEs plus occurrences left out by the filters
+}
+
+export interface CalendarOptions {
+  name: string;
+  component: CalendarComponent;
+  host: string; // makes UIDs globally unique
+  now?: Date;
+}
+
+function escapeText(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+}
+
+// Content lines are limited to 75 octets; longer ones continue on lines starting with a space
+function foldLine(line: string): string {
+  const bytes = Buffer.from(line, 'utf8');
+  if (bytes.length <= 75) return line;
+
+  const parts: string[] = [];
+  let start = 0;
+  while (start < bytes.length) {
+    let end = Math.min(start + (start === 0 ? 75 : 74), bytes.length);
+    // Don't cut a multi-byte character in half
+    while (end < bytes.length && (bytes[end] & 0xc0) === 0x80) end--;
+    parts.push(bytes.subarray(start, end).toString('utf8'));
+    start = end;
+  }
+  return parts.join('\r\n ');
+}
+
+const formatDate = (date: string) => date.replace(/-/g, '');
+const formatUtc = (date: Date) => date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+// dueTime has no zone, so it's written as floating local time
+const formatLocal = (date: string, time: string) => `${formatDate(date)}T${time.replace(/:/g, '').padEnd(6, '0').slice(0, 6)}`;
+
+function nextDay(date: string): string {
+  const day = new Date(`${date}T00:00:00Z`);
+  day.setUTCDate(day.getUTCDate() + 1);
+  return day.toISOString().split('T')[0];
+}
+
+// Tasks use 0-3 (3 urgent); iCalendar uses 1 (highest) to 9 (lowest)
+const PRIORITIES: Record<number, number> = { 3: 1, 2: 3, 1: 5, 0: 9 };
+
+const TODO_STATUSES: Record<string, string> = {
+  todo: 'NEEDS-ACTION',
+  in_progress: 'IN-PROCESS',
+  review: 'IN-PROCESS',
+  completed: 'COMPLETED',
+};
+
+function durationMinutes(task: Task, fallback: number): number {
+  const hours = task.estimatedHours ? parseFloat(task.estimatedHours) : 0;
+  return hours > 0 ? Math.round(hours * 60) : fallback;
+}
+
+// When the task happens, as DTSTART/DTEND (events) or DTSTART/DUE (to-dos)
+function timingLines(task: Task, component: CalendarComponent): string[] | null {
+  if (component === 'todo') {
+    const lines: string[] = [];
+    if (task.startTime) lines.push(`DTSTART:${formatUtc(task.startTime)}`);
+    if (task.dueDate && task.dueTime) lines.push(`DUE:${formatLocal(task.dueDate, task.dueTime)}`);
+    else if (task.dueDate) lines.push(`DUE;VALUE=DATE:${formatDate(task.dueDate)}`);
+    return lines;
+  }
+
+  if (task.startTime) {
+    const end = task.endTime && task.endTime > task.startTime
+      ? task.endTime
+      : new Date(task.startTime.getTime() + durationMinutes(task, 60) * 60_000);
+    return [`DTSTART:${formatUtc(task.startTime)}`, `DTEND:${formatUtc(end)}`];
+  }
+  if (task.dueDate && task.dueTime) {
+    return [`DTSTART:${formatLocal(task.dueDate, task.dueTime)}`, `DURATION:PT${durationMinutes(task, 30)}M`];
+  }
+  if (task.dueDate) {
+    return [`DTSTART;VALUE=DATE:${formatDate(task.dueDate)}`, `DTEND;VALUE=DATE:${formatDate(nextDay(task.dueDate))}`];
+  }
+  // Events need a start; undated tasks only appear as to-dos
+  return null;
+}
+
+function taskComponent(task: Task, options: Required<CalendarOptions>, recurrenceId?: { uid: string; date: string }): string[] {
+  const timing = timingLines(task, options.component);
+  if (!timing) return [];
+
+  const type = options.component === 'todo' ? 'VTODO' : 'VEVENT';
+  const lines = [
+    `BEGIN:${type}`,
+    `UID:${recurrenceId?.uid ?? `task-${task.id}@${options.host}`}`,
+    `DTSTAMP:${formatUtc(options.now)}`,
+  ];
+  if (recurrenceId) lines.push(`RECURRENCE-ID;VALUE=DATE:${formatDate(recurrenceId.date)}`);
+  lines.push(...timing, `SUMMARY:${escapeText(task.title)}`);
+  if (task.description) lines.push(`DESCRIPTION:${escapeText(task.description)}`);
+  lines.push(`PRIORITY:${PRIORITIES[task.priority ?? 0] ?? 0}`);
+  if (options.component === 'todo') {
+    lines.push(`STATUS:${TODO_STATUSES[task.status ?? 'todo'] ?? 'NEEDS-ACTION'}`);
+    if (task.status === 'completed' && task.updatedAt) lines.push(`COMPLETED:${formatUtc(task.updatedAt)}`);
+  }
+  if (task.updatedAt) lines.push(`LAST-MODIFIED:${formatUtc(task.updatedAt)}`);
+  lines.push(`END:${type}`);
+  return lines;
+}
+
+// The series itself, all-day on its occurrence dates; instances override individual days
+function seriesComponent(series: CalendarSeries, options: Required<CalendarOptions>): string[] {
+  const { recurrence } = series;
+  const type = options.component === 'todo' ? 'VTODO' : 'VEVENT';
+  const lines = [
+    `BEGIN:${type}`,
+    `UID:recurrence-${recurrence.id}@${options.host}`,
+    `DTSTAMP:${formatUtc(options.now)}`,
+    `DTSTART;VALUE=DATE:${formatDate(recurrence.startDate!)}`,
+  ];
+  if (type === 'VEVENT') lines.push(`DTEND;VALUE=DATE:${formatDate(nextDay(recurrence.startDate!))}`);
+  lines.push(`RRULE:${stringifyRRule(series.rule)}`);
+  if (series.exdates.length > 0) {
+    lines.push(`EXDATE;VALUE=DATE:${Array.from(new Set(series.exdates)).sort().map(formatDate).join(',')}`);
+  }
+  lines.push(`SUMMARY:${escapeText(recurrence.title ?? 'Recurring task')}`);
+  if (recurrence.description) lines.push(`DESCRIPTION:${escapeText(recurrence.description)}`);
+  lines.push(`PRIORITY:${PRIORITIES[recurrence.priority ?? 0] ?? 0}`);
+  if (recurrence.updatedAt) lines.push(`LAST-MODIFIED:${formatUtc(recurrence.updatedAt)}`);
+  lines.push(`END:${type}`);
+  return lines;
+}
+
+// Occurrence dates of a series up to and including the last one asked about
+function seriesOccurrences(series: CalendarSeries, last: string): Set<string> {
+  const dates = new Set<string>();
+  const next = occurrenceIterator(series.rule, series.recurrence.startDate!);
+  for (let date = next(); date && date <= last; date = next()) dates.add(date);
+  return dates;
+}
+
+export function buildCalendar(tasks: Task[], series: CalendarSeries[], calendarOptions: CalendarOptions): string {
+  const options: Required<CalendarOptions> = { now: new Date(), ...calendarOptions };
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//TasksAI//Tasks//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(options.name)}`,
+    'REFRESH-INTERVAL;VALUE=DURATION:PT1H',
+    'X-PUBLISHED-TTL:PT1H',
+  ];
+
+  const seriesById = new Map(series.map(entry => [entry.recurrence.id, entry]));
+  const instancesBySeries = new Map<number, Task[]>();
+  for (const task of tasks) {
+    const entry = task.taskRecurrenceId ? seriesById.get(task.taskRecurrenceId) : undefined;
+    if (!entry) {
+      lines.push(...taskComponent(task, options));
+      continue;
+    }
+    instancesBySeries.set(entry.recurrence.id, [...(instancesBySeries.get(entry.recurrence.id) ?? []), task]);
+  }
+
+  for (const entry of series) {
+    const instances = instancesBySeries.get(entry.recurrence.id) ?? [];
+    lines.push(...seriesComponent(entry, options));
+
+    const last = instances.reduce((max, task) => ((occurrenceOf(task) ?? '') > max ? occurrenceOf(task)! : max), '');
+    const occurrences = seriesOccurrences(entry, last);
+    for (const task of instances) {
+      const date = occurrenceOf(task);
+      // Instances left stranded by a rule change no longer line up with the series
+      if (date && occurrences.has(date) && !entry.exdates.includes(date)) {
+        lines.push(...taskComponent(task, options, { uid: `recurrence-${entry.recurrence.id}@${options.host}`, date }));
+      } else {
+        lines.push(...taskComponent(task, options));
+      }
+    }
+  }
+
+  lines.push('END:VCALENDAR');
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
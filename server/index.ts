@@ -1,7 +1,14 @@
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
-import { activityLogger } from "./activityMiddleware";
+import { activityLogger, auditLogRetentionJob } from "./activityMiddleware";
+import { startJobRunner } from "./job-runner";
+import { recurrenceJob } from "./recurrence-scheduler";
+import { taskReminderJob, dueTodayDigestJob, weeklySummaryJob, invitationCleanupJob } from "./reminders";
+import { notificationEmailJob, notificationDigestJob } from "./notifications";
+import { webhookDeliveryJob } from "./webhooks";
+import { authTokenCleanupJob } from "./auth";
+import { chatMigrationJob } from "./aiChat";
 
 const app = express();
 app.use(express.json());
@@ -70,5 +77,18 @@ app.use((req, res, next) => {
     reusePort: true,
   }, () => {
     log(`serving on port ${port}`);
+    startJobRunner([
+      recurrenceJob,
+      taskReminderJob,
+      notificationEmailJob,
+      notificationDigestJob,
+      webhookDeliveryJob,
+      dueTodayDigestJob,
+      weeklySummaryJob,
+      invitationCleanupJob,
+      authTokenCleanupJob,
+      auditLogRetentionJob,
+      chatMigrationJob,
+    ]);
   });
 })();
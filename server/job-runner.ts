@@ -0,0 +1,108 @@
+import { storage } from "./storage";
+import { log } from "./vite";
+
+// Background jobs. Each job's schedule, lease, retry count and progress live in the
+// scheduled_jobs table, so a restart picks up where it left off and, with several
+// server instances, only the one holding the lease runs a job.
+
+export interface JobContext {
+  now: Date; // when this run was claimed
+  state: Record<string, unknown>;
+  // Persists progress straight away, so a retry can skip work that already succeeded
+  saveState(state: Record<string, unknown>): Promise<void>;
+}
+
+export interface JobDefinition {
+  name: string;
+  // When to run next after a successful run (or a run that used up its retries) at `from`
+  nextRun(from: Date): Date;
+  runAtStartup?: boolean; // first run straight away rather than at nextRun
+  maxAttempts?: number;
+  leaseMs?: number; // longest a run may take before another instance may take over
+  // Returns a short summary for the log; throws to retry with backoff
+  run(context: JobContext): Promise<string | void>;
+}
+
+const TICK_MS = 60 * 1000;
+const DEFAULT_MAX_ATTEMPTS = 5;
+const DEFAULT_LEASE_MS = 10 * 60 * 1000;
+const RETRY_BASE_MS = 60 * 1000; // 1, 2, 4, 8... minutes
+
+export const every = (ms: number) => (from: Date) => new Date(from.getTime() + ms);
+
+// Server local time
+export const dailyAt = (hour: number, minute = 0) => (from: Date) => {
+  const next = new Date(from);
+  next.setHours(hour, minute, 0, 0);
+  if (next <= from) next.setDate(next.getDate() + 1);
+  return next;
+};
+
+export const weeklyAt = (weekday: number, hour: number, minute = 0) => (from: Date) => {
+  const next = dailyAt(hour, minute)(from);
+  next.setDate(next.getDate() + ((weekday - next.getDay() + 7) % 7));
+  return next;
+};
+
+async function runJob(job: JobDefinition, now: Date) {
+  const claimed = await storage.claimScheduledJob(job.name, now, new Date(now.getTime() + (job.leaseMs ?? DEFAULT_LEASE_MS)));
+  if (!claimed) return;
+
+  try {
+    const result = await job.run({
+      now,
+      state: claimed.state ?? {},
+      saveState: state => storage.updateScheduledJob(job.name, { state }),
+    });
+    await storage.updateScheduledJob(job.name, {
+      status: 'idle',
+      attempts: 0,
+      lockedUntil: null,
+      lastSucceededAt: new Date(),
+      lastError: null,
+      lastResult: result || null,
+      nextRunAt: job.nextRun(now),
+    });
+    if (result) log(`${job.name}: ${result}`, "jobs");
+  } catch (error) {
+    const attempts = claimed.attempts + 1;
+    const maxAttempts = job.maxAttempts ?? DEFAULT_MAX_ATTEMPTS;
+    const retry = attempts < maxAttempts;
+    console.error(`Job ${job.name} failed (attempt ${attempts} of ${maxAttempts}):`, error);
+    await storage.updateScheduledJob(job.name, {
+      status: 'failed',
+      // After the last attempt, wait for the next regular run and start counting again
+      attempts: retry ? attempts : 0,
+      lockedUntil: null,
+      lastError: error instanceof Error ? error.message : String(error),
+      nextRunAt: retry ? new Date(Date.now() + RETRY_BASE_MS * 2 ** (attempts - 1)) : job.nextRun(now),
+    });
+  }
+}
+
+export function startJobRunner(jobs: JobDefinition[]) {
+  let ticking = false;
+  const tick = async () => {
+    // A slow job shouldn't get a second tick piled on top of it
+    if (ticking) return;
+    ticking = true;
+    try {
+      for (const job of jobs) {
+        await runJob(job, new Date());
+      }
+    } catch (error) {
+      console.error("Error running scheduled jobs:", error);
+    } finally {
+      ticking = false;
+    }
+  };
+
+  const now = new Date();
+  Promise.all(jobs.map(job => storage.ensureScheduledJob(job.name, job.runAtStartup ? now : job.nextRun(now))))
+    .catch(error => console.error("Error registering scheduled jobs:", error))
+    .finally(tick);
+
+  const timer = setInterval(tick, TICK_MS);
+  timer.unref();
+  return timer;
+}
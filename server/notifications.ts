@@ -0,0 +1,252 @@
+import { storage } from "./storage";
+import { sendToUser } from "./realtime";
+import { sendNotificationDigest, sendTaskNotification, sendTaskReminder } from "./email";
+import { dailyAt, every, type JobDefinition } from "./job-runner";
+import {
+  DEFAULT_NOTIFICATION_PREFERENCE,
+  NOTIFICATION_TYPES,
+  type Notification,
+  type NotificationChannelPreference,
+  type NotificationEmailContent,
+  type NotificationPreferences,
+  type NotificationType,
+  type User,
+} from "@shared/schema";
+
+// Delivery of notifications by the user's preferences. In-app notifications are pushed
+// straight away; an email is either sent straight away (or when quiet hours end),
+// saved for the daily digest, or skipped. The notification row tracks the email until
+// it has actually gone out, so failed sends are retried by notificationEmailJob.
+
+const MAX_EMAIL_ATTEMPTS = 5;
+const EMAIL_RETRY_BASE_MS = 2 * 60 * 1000; // 2, 4, 8, 16 minutes
+const EMAIL_BATCH_SIZE = 100;
+
+export interface NotifyInput {
+  type: NotificationType;
+  userId: string;
+  workspaceId: number;
+  taskId?: number | null;
+  commentId?: number | null;
+  title: string;
+  message: string;
+  email: NotificationEmailContent;
+}
+
+export function channelPreference(preferences: NotificationPreferences | undefined, type: NotificationType): NotificationChannelPreference {
+  return preferences?.types?.[type] ?? DEFAULT_NOTIFICATION_PREFERENCE;
+}
+
+// Every type's channels with the defaults filled in, as the settings screen shows them
+export function effectivePreferences(preferences: NotificationPreferences | undefined) {
+  return {
+    types: Object.fromEntries(NOTIFICATION_TYPES.map(type => [type, channelPreference(preferences, type)])) as Record<NotificationType, NotificationChannelPreference>,
+    quietHoursStart: preferences?.quietHoursStart?.slice(0, 5) ?? null,
+    quietHoursEnd: preferences?.quietHoursEnd?.slice(0, 5) ?? null,
+    timeZone: preferences?.timeZone ?? 'UTC',
+  };
+}
+
+const toMinutes = (time: string) => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+// Minutes past midnight in the given zone
+function minutesInZone(date: Date, timeZone: string): number {
+  const parts = new Intl.DateTimeFormat('en-US', { timeZone, hour: 'numeric', minute: 'numeric', hourCycle: 'h23' }).formatToParts(date);
+  const value = (type: string) => Number(parts.find(part => part.type === type)?.value ?? 0);
+  return value('hour') * 60 + value('minute');
+}
+
+// When the user's quiet hours end, or null if it isn't quiet hours at `now`
+export function quietHoursEnd(preferences: NotificationPreferences | undefined, now: Date): Date | null {
+  if (!preferences?.quietHoursStart || !preferences.quietHoursEnd) return null;
+
+  const start = toMinutes(preferences.quietHoursStart);
+  const end = toMinutes(preferences.quietHoursEnd);
+  const current = minutesInZone(now, preferences.timeZone);
+  const quiet = start < end ? current >= start && current < end : current >= start || current < end;
+  if (!quiet) return null;
+
+  const wait = (end - current + 24 * 60) % (24 * 60);
+  const resume = new Date(now.getTime() + wait * 60 * 1000);
+  resume.setSeconds(0, 0);
+  return resume;
+}
+
+const recipientName = (user: User) => user.firstName || user.email!.split('@')[0];
+
+// Creates the notification the user's preferences ask for, pushes it to their open
+// tabs and sends the email if it's due now. Returns null if the user turned this type
+// off on every channel.
+export async function notifyUser(input: NotifyInput): Promise<Notification | null> {
+  const now = new Date();
+  const [preferences, user] = await Promise.all([
+    storage.getNotificationPreferences(input.userId, input.workspaceId),
+    storage.getUser(input.userId),
+  ]);
+  const channel = channelPreference(preferences, input.type);
+  const email = user?.email ? channel.email : 'off';
+  if (!channel.inApp && email === 'off') return null;
+
+  const quietUntil = email === 'instant' ? quietHoursEnd(preferences, now) : null;
+  const notification = await storage.createNotification({
+    workspaceId: input.workspaceId,
+    userId: input.userId,
+    type: input.type,
+    title: input.title,
+    message: input.message,
+    taskId: input.taskId ?? null,
+    commentId: input.commentId ?? null,
+    isRead: false,
+    inApp: channel.inApp,
+    emailSent: false,
+    emailStatus: email === 'instant' ? 'pending' : email === 'digest' ? 'digest' : 'none',
+    // Sending now holds the row for one retry interval, so the email job won't pick
+    // it up at the same time; if this process dies, the job sends it after that
+    emailNextAttemptAt: email === 'instant' ? quietUntil ?? new Date(now.getTime() + EMAIL_RETRY_BASE_MS) : null,
+    emailData: input.email,
+  });
+
+  if (channel.inApp) {
+    sendToUser(input.userId, { type: 'notification.created', workspaceId: input.workspaceId, payload: notification });
+  }
+  if (email === 'instant' && !quietUntil) {
+    await deliverNotificationEmail(notification, user);
+  }
+  return notification;
+}
+
+// Sends a pending notification's email and records the outcome: sent, retry later,
+// or failed for good after MAX_EMAIL_ATTEMPTS
+export async function deliverNotificationEmail(notification: Notification, recipient?: User): Promise<boolean> {
+  const user = recipient ?? await storage.getUser(notification.userId);
+  if (!user?.email) {
+    await storage.updateNotification(notification.id, { emailStatus: 'failed', emailNextAttemptAt: null, emailError: 'Recipient has no email address' });
+    return false;
+  }
+
+  const workspace = await storage.getWorkspaceById(notification.workspaceId);
+  const content: NotificationEmailContent = notification.emailData ?? { taskTitle: notification.title };
+  let sent: boolean;
+  if (notification.type === 'task_due_soon' || notification.type === 'task_overdue') {
+    sent = await sendTaskReminder({
+      toEmail: user.email,
+      recipientName: recipientName(user),
+      kind: notification.type === 'task_overdue' ? 'overdue' : 'due_soon',
+      task: { title: content.taskTitle, dueDate: content.dueDate ?? null, dueTime: content.dueTime, projectName: content.projectName },
+      workspaceName: workspace?.name,
+    });
+  } else {
+    sent = await sendTaskNotification({
+      toEmail: user.email,
+      recipientName: recipientName(user),
+      taskTitle: content.taskTitle,
+      taskDescription: content.taskDescription || '',
+      notificationType: notification.type as 'task_assigned' | 'task_completed' | 'comment_added' | 'task_status_changed',
+      assignerName: content.actorName ?? undefined,
+      commenterName: content.actorName ?? undefined,
+      commentText: content.commentText ?? undefined,
+      workspaceName: workspace?.name,
+      statusChange: content.statusChange ?? undefined,
+    });
+  }
+
+  const attempts = notification.emailAttempts + 1;
+  if (sent) {
+    await storage.updateNotification(notification.id, {
+      emailSent: true,
+      emailStatus: 'sent',
+      emailAttempts: attempts,
+      emailNextAttemptAt: null,
+      emailError: null,
+    });
+  } else {
+    const retry = attempts < MAX_EMAIL_ATTEMPTS;
+    await storage.updateNotification(notification.id, {
+      emailStatus: retry ? 'pending' : 'failed',
+      emailAttempts: attempts,
+      emailNextAttemptAt: retry ? new Date(Date.now() + EMAIL_RETRY_BASE_MS * 2 ** (attempts - 1)) : null,
+      emailError: 'The email could not be sent',
+    });
+  }
+  return sent;
+}
+
+// Sends emails that were held back by quiet hours, and retries failed ones
+export const notificationEmailJob: JobDefinition = {
+  name: 'notification_emails',
+  nextRun: every(60 * 1000),
+  runAtStartup: true,
+  async run({ now }) {
+    const due = await storage.getDueNotificationEmails(now, EMAIL_BATCH_SIZE);
+    const preferences = new Map<string, NotificationPreferences | undefined>();
+    let sent = 0;
+    let failed = 0;
+
+    for (const notification of due) {
+      const key = `${notification.workspaceId}:${notification.userId}`;
+      if (!preferences.has(key)) {
+        preferences.set(key, await storage.getNotificationPreferences(notification.userId, notification.workspaceId));
+      }
+      // Quiet hours may have been set since the email was queued
+      const quietUntil = quietHoursEnd(preferences.get(key), now);
+      if (quietUntil) {
+        await storage.updateNotification(notification.id, { emailNextAttemptAt: quietUntil });
+        continue;
+      }
+
+      if (await deliverNotificationEmail(notification)) sent++;
+      else failed++;
+    }
+
+    if (sent > 0 || failed > 0) return `sent ${sent} notification emails${failed > 0 ? `, ${failed} failed` : ''}`;
+  },
+};
+
+// One email per user and workspace with everything set to 'digest' since the last one.
+// It goes out at a fixed time and doesn't wait for quiet hours.
+export const notificationDigestJob: JobDefinition = {
+  name: 'notification_digest',
+  nextRun: dailyAt(7),
+  async run() {
+    const groups = new Map<string, Notification[]>();
+    for (const notification of await storage.getDigestNotifications()) {
+      const key = `${notification.workspaceId}:${notification.userId}`;
+      groups.set(key, [...(groups.get(key) ?? []), notification]);
+    }
+
+    let delivered = 0;
+    let failed = 0;
+    for (const [, group] of Array.from(groups)) {
+      const { userId, workspaceId } = group[0];
+      const ids = group.map(notification => notification.id);
+      const user = await storage.getUser(userId);
+      if (!user?.email) {
+        await storage.updateNotifications(ids, { emailStatus: 'failed', emailError: 'Recipient has no email address' });
+        continue;
+      }
+
+      const workspace = await storage.getWorkspaceById(workspaceId);
+      const sent = await sendNotificationDigest({
+        toEmail: user.email,
+        recipientName: recipientName(user),
+        workspaceName: workspace?.name ?? 'TasksAI',
+        notifications: group.map(notification => ({ title: notification.title, message: notification.message })),
+      });
+      if (sent) {
+        // Sent ones are marked straight away, so a retry only covers the failures
+        await storage.updateNotifications(ids, { emailSent: true, emailStatus: 'sent', emailError: null });
+        delivered++;
+      } else {
+        failed++;
+      }
+    }
+
+    if (failed > 0) {
+      throw new Error(`${failed} digest${failed === 1 ? '' : 's'} failed to send (${delivered} sent)`);
+    }
+    if (delivered > 0) return `sent ${delivered} digest${delivered === 1 ? '' : 's'}`;
+  },
+};
@@ -26,6 +26,101 @@ export interface PersonalizedInsight {
   isLengthy: boolean;
 }
 
+export interface AIToolCall {
+  id: string;
+  name: string;
+  arguments: string;
+}
+
+// One round of tool calls the model made, with the results sent back (by call id)
+export interface AIToolStep {
+  calls: AIToolCall[];
+  results: Record<string, string>;
+}
+
+export interface AIToolRunner {
+  definitions: OpenAI.Chat.Completions.ChatCompletionTool[];
+  needsConfirmation(name: string): boolean;
+  run(call: AIToolCall): Promise<string>;
+}
+
+export interface AIQueryResult {
+  content: string;
+  steps: AIToolStep[]; // new this time, after the `steps` passed in
+  pending: AIToolCall[]; // waiting for the user; the turn continues once they have results
+  stopped: boolean; // cut short through `signal`; `content` is what was written until then
+}
+
+// Earlier turns of the conversation, oldest first, after a summary of any older ones
+export interface AIHistory {
+  summary: string | null;
+  turns: { message: string; response: string | null }[];
+}
+
+// Rounds of tool calls allowed before the model has to answer
+const MAX_TOOL_STEPS = 5;
+
+// Room for a full answer in one round
+const CHAT_MAX_TOKENS = 1500;
+
+type AIReply = Pick<OpenAI.Chat.Completions.ChatCompletionMessage, 'content' | 'tool_calls'>;
+
+// One completion. With `onToken` it is streamed and the text handed over as it arrives;
+// aborting `signal` ends it early, keeping the text so far.
+async function completeRound(
+  body: Omit<OpenAI.Chat.Completions.ChatCompletionCreateParamsNonStreaming, 'stream'>,
+  onToken: ((text: string) => void) | undefined,
+  signal: AbortSignal | undefined,
+): Promise<{ reply: AIReply; stopped: boolean }> {
+  let streamed = '';
+  try {
+    if (!onToken) {
+      const response = await openai!.chat.completions.create(body, { signal });
+      return { reply: response.choices[0].message, stopped: false };
+    }
+    const stream = openai!.chat.completions.stream(body, { signal });
+    stream.on('content', (delta) => {
+      streamed += delta;
+      onToken(delta);
+    });
+    const completion = await stream.finalChatCompletion();
+    return { reply: completion.choices[0].message, stopped: false };
+  } catch (error) {
+    if (!signal?.aborted) throw error;
+    return { reply: { content: streamed }, stopped: true };
+  }
+}
+
+function replayHistory(history: AIHistory | undefined): OpenAI.Chat.Completions.ChatCompletionMessageParam[] {
+  if (!history) return [];
+  return [
+    ...(history.summary ? [{ role: 'system' as const, content: `Summary of the conversation so far:\n${history.summary}` }] : []),
+    ...history.turns.flatMap(turn => [
+      { role: 'user' as const, content: turn.message },
+      ...(turn.response ? [{ role: 'assistant' as const, content: turn.response }] : []),
+    ]),
+  ];
+}
+
+function replaySteps(steps: AIToolStep[]): OpenAI.Chat.Completions.ChatCompletionMessageParam[] {
+  return steps.flatMap(step => [
+    {
+      role: 'assistant' as const,
+      content: null,
+      tool_calls: step.calls.map(call => ({
+        id: call.id,
+        type: 'function' as const,
+        function: { name: call.name, arguments: call.arguments },
+      })),
+    },
+    ...step.calls.map(call => ({
+      role: 'tool' as const,
+      tool_call_id: call.id,
+      content: step.results[call.id] ?? JSON.stringify({ error: 'No result' }),
+    })),
+  ]);
+}
+
 export async function processAIQuery(
   query: string,
   context: {
@@ -41,8 +136,15 @@ export async function processAIQuery(
     projects?: any[];
     categories?: any[];
     recentActivity?: string;
-  }
-): Promise<string> {
+  },
+  options: {
+    tools?: AIToolRunner;
+    steps?: AIToolStep[]; // earlier rounds of this turn, when continuing after a confirmation
+    history?: AIHistory; // the conversation before this message
+    onToken?: (text: string) => void; // streams the answer
+    signal?: AbortSignal; // stops it
+  } = {}
+): Promise<AIQueryResult> {
   if (!openai) {
     throw new Error("AI features are not available. Please configure your OpenAI API key.");
   }
@@ -91,22 +193,108 @@ Provide helpful, actionable responses. You can:
 - Reference their recent work patterns and activities
 - Suggest improvements based on their activity history
 
-Keep responses concise, practical, and personalized to ${context.user?.name || 'the user'}.`;
+Keep responses concise, practical, and personalized to ${context.user?.name || 'the user'}.${options.tools ? `
+
+You can look up tasks and members, and create, update, assign or complete tasks with the tools provided. Look up ids instead of guessing them. Changes are shown to the user to confirm before they happen; if they decline, don't try again unless asked.` : ''}`;
+
+    const { tools, onToken, signal } = options;
+    const messages: OpenAI.Chat.Completions.ChatCompletionMessageParam[] = [
+      { role: "system", content: systemPrompt },
+      ...replayHistory(options.history),
+      { role: "user", content: query },
+      ...replaySteps(options.steps ?? []),
+    ];
+    const steps: AIToolStep[] = [];
+    // What the model says across rounds, including any words alongside its tool calls
+    const said: string[] = [];
+    const content = () => said.join('\n\n');
+
+    for (let round = (options.steps ?? []).length; round <= MAX_TOOL_STEPS; round++) {
+      let separated = said.length === 0;
+      const { reply, stopped } = await completeRound(
+        {
+          model: "gpt-4o",
+          messages,
+          // The last round has to answer in words
+          ...(tools && round < MAX_TOOL_STEPS && { tools: tools.definitions }),
+          max_tokens: CHAT_MAX_TOKENS,
+          temperature: 0.7,
+        },
+        onToken && ((text) => {
+          if (!separated) onToken('\n\n');
+          separated = true;
+          onToken(text);
+        }),
+        signal,
+      );
+      if (reply.content) said.push(reply.content);
+      if (stopped) {
+        return { content: content(), steps, pending: [], stopped: true };
+      }
+
+      const calls = (reply.tool_calls ?? [])
+        .filter(call => call.type === 'function')
+        .map(call => ({ id: call.id, name: call.function.name, arguments: call.function.arguments }));
+      if (!tools || calls.length === 0) {
+        return {
+          content: content() || "I'm sorry, I couldn't generate a response to that query.",
+          steps,
+          pending: [],
+          stopped: false,
+        };
+      }
+
+      const step: AIToolStep = { calls, results: {} };
+      const pending = calls.filter(call => tools.needsConfirmation(call.name));
+      for (const call of calls) {
+        if (!pending.includes(call)) {
+          step.results[call.id] = await tools.run(call);
+        }
+      }
+      steps.push(step);
+      if (pending.length > 0) {
+        return { content: content(), steps, pending, stopped: false };
+      }
+      messages.push(...replaySteps([step]));
+    }
+
+    return { content: content() || "I'm sorry, I couldn't finish that request.", steps, pending: [], stopped: false };
+  } catch (error) {
+    console.error("Error processing AI query:", error);
+    throw new Error("Failed to process AI query");
+  }
+}
+
+// Folds earlier turns into the running summary of a conversation, so the assistant keeps
+// the gist once they no longer fit its history. Null if it couldn't be written.
+export async function summarizeConversation(
+  previousSummary: string | null,
+  turns: AIHistory['turns'],
+): Promise<string | null> {
+  if (!openai) {
+    return null;
+  }
+
+  try {
+    const transcript = turns
+      .map(turn => `User: ${turn.message}${turn.response ? `\nAssistant: ${turn.response}` : ''}`)
+      .join('\n\n');
+    const prompt = `Summarize this conversation between a user and their task management assistant, so the assistant can carry on from it. Keep the user's goals, decisions, preferences, and the tasks, projects and people mentioned (with ids where given). Leave out small talk. Write at most 200 words.
+
+${previousSummary ? `Summary of what came before:\n${previousSummary}\n\n` : ''}Conversation:
+${transcript}`;
 
     const response = await openai.chat.completions.create({
       model: "gpt-4o",
-      messages: [
-        { role: "system", content: systemPrompt },
-        { role: "user", content: query }
-      ],
-      max_tokens: 500,
-      temperature: 0.7,
+      messages: [{ role: "user", content: prompt }],
+      max_tokens: 400,
+      temperature: 0.3,
     });
 
-    return response.choices[0].message.content || "I'm sorry, I couldn't generate a response to that query.";
+    return response.choices[0].message.content || null;
   } catch (error) {
-    console.error("Error processing AI query:", error);
-    throw new Error("Failed to process AI query");
+    console.error("Error summarizing conversation:", error);
+    return null;
   }
 }
 
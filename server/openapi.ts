@@ -0,0 +1,267 @@
+import { z } from "zod";
+import {
+  insertCategorySchema,
+  insertProjectInflowSchema,
+  insertProjectOutflowSchema,
+  insertProjectSchema,
+  insertSubtaskSchema,
+  insertTaskSchema,
+  insertWorkspaceSchema,
+  manualTimeEntrySchema,
+  searchQuerySchema,
+  taskQuerySchema,
+  timesheetQuerySchema,
+  API_TOKEN_RESOURCES,
+  type ApiTokenResource,
+} from "@shared/schema";
+
+// The OpenAPI 3.0 document served at /api/openapi.json. Request bodies and query
+// parameters come from the zod schemas the routes validate with, so the document
+// follows shared/schema.ts; only the list of operations is written out here.
+
+type JsonSchema = Record<string, unknown>;
+
+// Converts the zod types drizzle-zod and shared/schema.ts produce. Anything it doesn't
+// recognise becomes {} (any value), which is still accurate, just less specific.
+// `.describe()` texts are kept as descriptions.
+export function zodToJsonSchema(schema: z.ZodTypeAny): JsonSchema {
+  const converted = convertZodType(schema);
+  return schema.description ? { ...converted, description: schema.description } : converted;
+}
+
+function convertZodType(schema: z.ZodTypeAny): JsonSchema {
+  const def = schema._def;
+
+  if (schema instanceof z.ZodOptional) return zodToJsonSchema(def.innerType);
+  if (schema instanceof z.ZodNullable) return { ...zodToJsonSchema(def.innerType), nullable: true };
+  if (schema instanceof z.ZodDefault) return { ...zodToJsonSchema(def.innerType), default: def.defaultValue() };
+  if (schema instanceof z.ZodEffects) return zodToJsonSchema(def.schema);
+  if (schema instanceof z.ZodPipeline) return zodToJsonSchema(def.in);
+
+  if (schema instanceof z.ZodObject) {
+    const properties: Record<string, JsonSchema> = {};
+    const required: string[] = [];
+    for (const [key, value] of Object.entries(schema.shape as z.ZodRawShape)) {
+      properties[key] = zodToJsonSchema(value);
+      if (!value.isOptional()) required.push(key);
+    }
+    return { type: 'object', properties, ...(required.length > 0 && { required }) };
+  }
+
+  if (schema instanceof z.ZodString) {
+    const result: JsonSchema = { type: 'string' };
+    for (const check of def.checks as { kind: string; value?: number; regex?: RegExp }[]) {
+      if (check.kind === 'min') result.minLength = check.value;
+      else if (check.kind === 'max') result.maxLength = check.value;
+      else if (check.kind === 'regex') result.pattern = check.regex!.source;
+      else if (check.kind === 'email') result.format = 'email';
+      else if (check.kind === 'url') result.format = 'uri';
+      else if (check.kind === 'uuid') result.format = 'uuid';
+      else if (check.kind === 'datetime') result.format = 'date-time';
+    }
+    return result;
+  }
+
+  if (schema instanceof z.ZodNumber) {
+    const result: JsonSchema = { type: 'number' };
+    for (const check of def.checks as { kind: string; value?: number; inclusive?: boolean }[]) {
+      if (check.kind === 'int') result.type = 'integer';
+      else if (check.kind === 'min') result[check.inclusive ? 'minimum' : 'exclusiveMinimum'] = check.value;
+      else if (check.kind === 'max') result[check.inclusive ? 'maximum' : 'exclusiveMaximum'] = check.value;
+    }
+    return result;
+  }
+
+  if (schema instanceof z.ZodBoolean) return { type: 'boolean' };
+  if (schema instanceof z.ZodDate) return { type: 'string', format: 'date-time' };
+  if (schema instanceof z.ZodEnum) return { type: 'string', enum: def.values };
+  if (schema instanceof z.ZodLiteral) return { type: typeof def.value, enum: [def.value] };
+  if (schema instanceof z.ZodArray) return { type: 'array', items: zodToJsonSchema(def.type) };
+  if (schema instanceof z.ZodRecord) return { type: 'object', additionalProperties: zodToJsonSchema(def.valueType) };
+  if (schema instanceof z.ZodUnion) return { oneOf: (def.options as z.ZodTypeAny[]).map(zodToJsonSchema) };
+  return {};
+}
+
+// Query strings are flat, so each field of an object schema is one parameter
+function queryParameters(schema: z.AnyZodObject) {
+  return Object.entries(schema.shape as z.ZodRawShape).map(([name, value]) => ({
+    name,
+    in: 'query',
+    required: !value.isOptional(),
+    schema: zodToJsonSchema(value),
+  }));
+}
+
+const idParameter = (name: string) => ({ name, in: 'path', required: true, schema: { type: 'integer' } });
+
+const ref = (name: string) => ({ $ref: `#/components/schemas/${name}` });
+
+// Stored rows: the insert fields plus what the server fills in
+const stored = (input: string) => ({
+  allOf: [
+    ref(input),
+    {
+      type: 'object',
+      properties: { id: { type: 'integer' }, createdAt: { type: 'string', format: 'date-time' } },
+      required: ['id'],
+    },
+  ],
+});
+
+const list = (items: JsonSchema) => ({ type: 'array', items });
+const message = { type: 'object', properties: { message: { type: 'string' } }, required: ['message'] };
+
+interface Operation {
+  summary: string;
+  resource: ApiTokenResource;
+  parameters?: unknown[];
+  body?: JsonSchema;
+  response?: JsonSchema;
+}
+
+function operation(method: string, { summary, resource, parameters = [], body, response }: Operation) {
+  const scope = `${resource}:${method === 'get' ? 'read' : 'write'}`;
+  return {
+    summary,
+    tags: [resource],
+    'x-required-scope': scope,
+    ...(parameters.length > 0 && { parameters }),
+    ...(body && { requestBody: { required: true, content: { 'application/json': { schema: body } } } }),
+    responses: {
+      '200': {
+        description: 'Success',
+        content: { 'application/json': { schema: response ?? message } },
+      },
+      '401': { $ref: '#/components/responses/Unauthorized' },
+      '403': { $ref: '#/components/responses/Forbidden' },
+    },
+  };
+}
+
+export function buildOpenApiDocument() {
+  // The routes take the workspace, project or task from the path and the creator from
+  // the token, so those fields aren't part of the request bodies
+  const inputs: Record<string, z.AnyZodObject> = {
+    Workspace: insertWorkspaceSchema.pick({ name: true, type: true }),
+    Project: insertProjectSchema.omit({ workspaceId: true }),
+    Category: insertCategorySchema.omit({ workspaceId: true }),
+    Task: insertTaskSchema.omit({ workspaceId: true, createdBy: true }),
+    Subtask: insertSubtaskSchema.pick({ title: true, status: true, assignedMemberId: true }),
+    TimeEntry: manualTimeEntrySchema,
+    Comment: z.object({ comment: z.string().min(1), taggedUserIds: z.array(z.string()).optional() }),
+    Expense: insertProjectOutflowSchema.omit({ projectId: true, createdBy: true }),
+    Revenue: insertProjectInflowSchema.omit({ projectId: true, createdBy: true }),
+  };
+  // PATCH takes any subset of the fields
+  const schemas = Object.fromEntries(Object.entries(inputs).flatMap(([name, schema]) => [
+    [`${name}Input`, zodToJsonSchema(schema)],
+    [`${name}Update`, zodToJsonSchema(schema.partial())],
+  ]));
+
+  const workspaceId = idParameter('id');
+  const paths: Record<string, Record<string, unknown>> = {
+    '/workspaces': {
+      get: operation('get', { summary: "List the workspaces you're a member of", resource: 'workspaces', response: list(stored('WorkspaceInput')) }),
+      post: operation('post', { summary: 'Create a workspace', resource: 'workspaces', body: ref('WorkspaceInput'), response: stored('WorkspaceInput') }),
+    },
+    '/workspaces/{id}/members': {
+      get: operation('get', { summary: "List a workspace's members", resource: 'members', parameters: [workspaceId], response: list({ type: 'object' }) }),
+    },
+    '/workspaces/{id}/projects': {
+      get: operation('get', { summary: 'List projects', resource: 'projects', parameters: [workspaceId], response: list(stored('ProjectInput')) }),
+      post: operation('post', { summary: 'Create a project', resource: 'projects', parameters: [workspaceId], body: ref('ProjectInput'), response: stored('ProjectInput') }),
+    },
+    '/projects/{id}': {
+      get: operation('get', { summary: 'Get a project', resource: 'projects', parameters: [idParameter('id')], response: stored('ProjectInput') }),
+      patch: operation('patch', { summary: 'Update a project', resource: 'projects', parameters: [idParameter('id')], body: ref('ProjectUpdate'), response: stored('ProjectInput') }),
+    },
+    '/workspaces/{id}/categories': {
+      get: operation('get', { summary: 'List categories', resource: 'categories', parameters: [workspaceId], response: list(stored('CategoryInput')) }),
+      post: operation('post', { summary: 'Create a category', resource: 'categories', parameters: [workspaceId], body: ref('CategoryInput'), response: stored('CategoryInput') }),
+    },
+    '/categories/{id}': {
+      patch: operation('patch', { summary: 'Update a category', resource: 'categories', parameters: [idParameter('id')], body: ref('CategoryUpdate'), response: stored('CategoryInput') }),
+    },
+    '/workspaces/{id}/tasks': {
+      get: operation('get', {
+        summary: 'List tasks, a page at a time',
+        resource: 'tasks',
+        parameters: [workspaceId, ...queryParameters(taskQuerySchema)],
+        response: {
+          type: 'object',
+          properties: { tasks: list(stored('TaskInput')), nextCursor: { type: 'string', nullable: true } },
+        },
+      }),
+      post: operation('post', { summary: 'Create a task', resource: 'tasks', parameters: [workspaceId], body: ref('TaskInput'), response: stored('TaskInput') }),
+    },
+    '/tasks/{id}': {
+      patch: operation('patch', { summary: 'Update a task', resource: 'tasks', parameters: [idParameter('id')], body: ref('TaskUpdate'), response: stored('TaskInput') }),
+      delete: operation('delete', { summary: 'Delete a task', resource: 'tasks', parameters: [idParameter('id')] }),
+    },
+    '/tasks/{id}/subtasks': {
+      get: operation('get', { summary: "List a task's subtasks", resource: 'tasks', parameters: [idParameter('id')], response: list(stored('SubtaskInput')) }),
+      post: operation('post', { summary: 'Add a subtask', resource: 'tasks', parameters: [idParameter('id')], body: ref('SubtaskInput'), response: stored('SubtaskInput') }),
+    },
+    '/subtasks/{id}': {
+      patch: operation('patch', { summary: 'Update a subtask', resource: 'tasks', parameters: [idParameter('id')], body: ref('SubtaskUpdate'), response: stored('SubtaskInput') }),
+      delete: operation('delete', { summary: 'Delete a subtask', resource: 'tasks', parameters: [idParameter('id')] }),
+    },
+    '/tasks/{id}/comments': {
+      get: operation('get', { summary: "List a task's comments", resource: 'comments', parameters: [idParameter('id')], response: list({ type: 'object' }) }),
+      post: operation('post', { summary: 'Comment on a task', resource: 'comments', parameters: [idParameter('id')], body: ref('CommentInput'), response: { type: 'object' } }),
+    },
+    '/comments/{id}': {
+      delete: operation('delete', { summary: 'Delete a comment', resource: 'comments', parameters: [idParameter('id')] }),
+    },
+    '/tasks/{id}/time-entries': {
+      get: operation('get', { summary: 'List time logged on a task', resource: 'time', parameters: [idParameter('id')], response: list({ type: 'object' }) }),
+      post: operation('post', { summary: 'Log time on a task', resource: 'time', parameters: [idParameter('id')], body: ref('TimeEntryInput'), response: { type: 'object' } }),
+    },
+    '/workspaces/{id}/timesheet': {
+      get: operation('get', { summary: 'Time logged per person and project', resource: 'time', parameters: [workspaceId, ...queryParameters(timesheetQuerySchema)], response: { type: 'object' } }),
+    },
+    '/projects/{projectId}/expenses': {
+      get: operation('get', { summary: "List a project's expenses", resource: 'finances', parameters: [idParameter('projectId')], response: list(stored('ExpenseInput')) }),
+      post: operation('post', { summary: 'Add an expense', resource: 'finances', parameters: [idParameter('projectId')], body: ref('ExpenseInput'), response: stored('ExpenseInput') }),
+    },
+    '/projects/{projectId}/expenses/{expenseId}': {
+      patch: operation('patch', { summary: 'Update an expense', resource: 'finances', parameters: [idParameter('projectId'), idParameter('expenseId')], body: ref('ExpenseUpdate'), response: stored('ExpenseInput') }),
+      delete: operation('delete', { summary: 'Delete an expense', resource: 'finances', parameters: [idParameter('projectId'), idParameter('expenseId')] }),
+    },
+    '/projects/{projectId}/revenue': {
+      get: operation('get', { summary: "List a project's revenue", resource: 'finances', parameters: [idParameter('projectId')], response: list(stored('RevenueInput')) }),
+      post: operation('post', { summary: 'Add revenue', resource: 'finances', parameters: [idParameter('projectId')], body: ref('RevenueInput'), response: stored('RevenueInput') }),
+    },
+    '/projects/{projectId}/revenue/{revenueId}': {
+      patch: operation('patch', { summary: 'Update revenue', resource: 'finances', parameters: [idParameter('projectId'), idParameter('revenueId')], body: ref('RevenueUpdate'), response: stored('RevenueInput') }),
+      delete: operation('delete', { summary: 'Delete revenue', resource: 'finances', parameters: [idParameter('projectId'), idParameter('revenueId')] }),
+    },
+    '/search': {
+      get: operation('get', { summary: 'Search a workspace', resource: 'search', parameters: queryParameters(searchQuerySchema), response: { type: 'object' } }),
+    },
+  };
+
+  return {
+    openapi: '3.0.3',
+    info: {
+      title: 'TasksAI API',
+      version: '1.0.0',
+      description: [
+        'Authenticate with `Authorization: Bearer <token>` using a personal or workspace API token.',
+        'Each operation lists the scope it needs in `x-required-scope`; a `:write` scope also allows reads.',
+        `Resources: ${API_TOKEN_RESOURCES.join(', ')}.`,
+      ].join('\n\n'),
+    },
+    servers: [{ url: '/api' }],
+    security: [{ bearerAuth: [] }],
+    paths,
+    components: {
+      securitySchemes: { bearerAuth: { type: 'http', scheme: 'bearer' } },
+      schemas,
+      responses: {
+        Unauthorized: { description: 'Missing, revoked or expired token', content: { 'application/json': { schema: message } } },
+        Forbidden: { description: "The token doesn't have the scope, or you don't have the role, for this", content: { 'application/json': { schema: message } } },
+      },
+    },
+  };
+}
@@ -0,0 +1,259 @@
+import type { RequestHandler } from "express";
+import { storage } from "./storage";
+
+export type WorkspaceRole = 'admin' | 'manager' | 'member' | 'viewer';
+
+// Actions a route can require:
+// - read: view workspace content
+// - create: add tasks, comments, files and pages
+// - edit: change or delete an existing item (members only their own)
+// - personal: act on something that belongs to the caller alone (notifications, brain dump)
+// - manage_projects: projects, categories and project components
+// - manage_finances: budgets, expenses, revenue and financial types
+// - manage_members: invite and remove members
+// - manage_integrations: webhooks and other connections to outside systems
+// - view_audit_log: read and export the workspace's audit trail
+export type WorkspaceAction =
+  | 'read'
+  | 'create'
+  | 'edit'
+  | 'personal'
+  | 'manage_projects'
+  | 'manage_finances'
+  | 'manage_members'
+  | 'manage_integrations'
+  | 'view_audit_log';
+
+interface RolePermissions {
+  read: boolean;
+  create: boolean;
+  editOwn: boolean;
+  editAny: boolean;
+  manageProjects: boolean;
+  manageFinances: boolean;
+  manageMembers: boolean;
+  manageIntegrations: boolean;
+  viewAuditLog: boolean;
+}
+
+export const rolePermissions: Record<WorkspaceRole, RolePermissions> = {
+  viewer:  { read: true, create: false, editOwn: false, editAny: false, manageProjects: false, manageFinances: false, manageMembers: false, manageIntegrations: false, viewAuditLog: false },
+  member:  { read: true, create: true,  editOwn: true,  editAny: false, manageProjects: false, manageFinances: false, manageMembers: false, manageIntegrations: false, viewAuditLog: false },
+  manager: { read: true, create: true,  editOwn: true,  editAny: true,  manageProjects: true,  manageFinances: true,  manageMembers: false, manageIntegrations: false, viewAuditLog: false },
+  admin:   { read: true, create: true,  editOwn: true,  editAny: true,  manageProjects: true,  manageFinances: true,  manageMembers: true,  manageIntegrations: true,  viewAuditLog: true },
+};
+
+// The workspace a request targets, and who owns the item it touches (if any)
+export interface ResolvedResource {
+  workspaceId: number;
+  owner?: {
+    userId?: string | null;
+    memberId?: number | null;
+  };
+}
+
+export type ResourceResolver = (req: any) => Promise<ResolvedResource | undefined>;
+
+export interface WorkspaceAccess {
+  workspaceId: number;
+  role: WorkspaceRole;
+  memberId: number | null;
+  isOwner: boolean;
+}
+
+function normalizeRole(role: string | null | undefined): WorkspaceRole {
+  return role && role in rolePermissions ? role as WorkspaceRole : 'viewer';
+}
+
+// Resolve the caller's role in a workspace. The workspace owner is always an admin.
+export async function getWorkspaceAccess(workspaceId: number, userId: string): Promise<WorkspaceAccess | null> {
+  const [workspace, membership] = await Promise.all([
+    storage.getWorkspaceById(workspaceId),
+    storage.getActiveMembership(workspaceId, userId),
+  ]);
+
+  if (!workspace) return null;
+
+  if (workspace.ownerId === userId) {
+    return { workspaceId, role: 'admin', memberId: membership?.id ?? null, isOwner: true };
+  }
+
+  if (!membership) return null;
+
+  return { workspaceId, role: normalizeRole(membership.role), memberId: membership.id, isOwner: false };
+}
+
+export function canPerform(access: WorkspaceAccess, action: WorkspaceAction, userId: string, resource?: ResolvedResource): boolean {
+  const permissions = rolePermissions[access.role];
+  const owner = resource?.owner;
+  const ownsResource = !!owner && (
+    (!!owner.userId && owner.userId === userId) ||
+    (!!owner.memberId && owner.memberId === access.memberId)
+  );
+
+  switch (action) {
+    case 'read':
+      return permissions.read;
+    case 'create':
+      return permissions.create;
+    case 'edit':
+      return permissions.editAny || (permissions.editOwn && ownsResource);
+    case 'personal':
+      return ownsResource;
+    case 'manage_projects':
+      return permissions.manageProjects;
+    case 'manage_finances':
+      return permissions.manageFinances;
+    case 'manage_members':
+      return permissions.manageMembers;
+    case 'manage_integrations':
+      return permissions.manageIntegrations;
+    case 'view_audit_log':
+      return permissions.viewAuditLog;
+  }
+}
+
+// Route middleware: resolves the target workspace, checks the caller's role against the
+// action and exposes the result as req.workspaceAccess for the handler.
+export function requireWorkspaceAccess(action: WorkspaceAction, resolve: ResourceResolver): RequestHandler {
+  return async (req: any, res, next) => {
+    try {
+      const userId = req.user?.claims?.sub;
+      if (!userId) {
+        return res.status(401).json({ message: "Unauthorized" });
+      }
+
+      const resource = await resolve(req);
+      if (!resource || !Number.isInteger(resource.workspaceId)) {
+        return res.status(404).json({ message: "Not found" });
+      }
+
+      // Tokens limited to one workspace can't reach the others
+      if (req.apiToken?.workspaceId && req.apiToken.workspaceId !== resource.workspaceId) {
+        return res.status(403).json({ message: "This API token is limited to another workspace" });
+      }
+
+      const access = await getWorkspaceAccess(resource.workspaceId, userId);
+      if (!access) {
+        return res.status(403).json({ message: "You are not a member of this workspace" });
+      }
+
+      if (!canPerform(access, action, userId, resource)) {
+        return res.status(403).json({ message: "You don't have permission to do this" });
+      }
+
+      req.workspaceAccess = access;
+      next();
+    } catch (error) {
+      console.error("Error checking workspace permissions:", error);
+      res.status(500).json({ message: "Failed to check permissions" });
+    }
+  };
+}
+
+// Resolvers for the ways routes identify their workspace
+
+export const workspaceParam = (name: string = 'id'): ResourceResolver => async (req) =>
+  ({ workspaceId: parseInt(req.params[name]) });
+
+export const workspaceQuery = (name: string = 'workspaceId'): ResourceResolver => async (req) =>
+  ({ workspaceId: parseInt(req.query[name]) });
+
+export const projectParam = (name: string = 'id'): ResourceResolver => async (req) => {
+  const project = await storage.getProjectById(parseInt(req.params[name]));
+  return project && { workspaceId: project.workspaceId };
+};
+
+export const categoryParam = (name: string = 'id'): ResourceResolver => async (req) => {
+  const category = await storage.getCategoryById(parseInt(req.params[name]));
+  return category && { workspaceId: category.workspaceId };
+};
+
+export const taskParam = (name: string = 'id'): ResourceResolver => async (req) => {
+  const task = await storage.getTaskById(parseInt(req.params[name]));
+  return task && {
+    workspaceId: task.workspaceId,
+    owner: { userId: task.createdBy, memberId: task.assignedMemberId },
+  };
+};
+
+// A recurring series is owned by whoever owns its first task
+export const taskRecurrenceParam = (name: string = 'id'): ResourceResolver => async (req) => {
+  const recurrenceId = parseInt(req.params[name]);
+  const recurrence = await storage.getTaskRecurrence(recurrenceId);
+  if (!recurrence) return undefined;
+
+  const [firstTask] = await storage.getTasksByRecurrenceId(recurrenceId);
+  return {
+    workspaceId: recurrence.workspaceId,
+    owner: firstTask && { userId: firstTask.createdBy, memberId: firstTask.assignedMemberId },
+  };
+};
+
+// Subtasks can be changed by the parent task's owner or by the member they're assigned to
+export const subtaskParam = (name: string = 'id'): ResourceResolver => async (req) => {
+  const subtask = await storage.getSubtaskById(parseInt(req.params[name]));
+  if (!subtask) return undefined;
+
+  const parent = await storage.getTaskById(subtask.taskId);
+  return {
+    workspaceId: subtask.workspaceId,
+    owner: {
+      userId: parent?.createdBy,
+      memberId: subtask.assignedMemberId ?? parent?.assignedMemberId,
+    },
+  };
+};
+
+// Time entries belong to the person who logged them
+export const timeEntryParam = (name: string = 'id'): ResourceResolver => async (req) => {
+  const entry = await storage.getTimeEntryById(parseInt(req.params[name]));
+  return entry && { workspaceId: entry.workspaceId, owner: { userId: entry.userId } };
+};
+
+// Dependencies belong to the task they block
+export const taskDependencyParam = (name: string = 'id'): ResourceResolver => async (req) => {
+  const dependency = await storage.getTaskDependencyById(parseInt(req.params[name]));
+  if (!dependency) return undefined;
+
+  const successor = await storage.getTaskById(dependency.successorTaskId);
+  return {
+    workspaceId: dependency.workspaceId,
+    owner: successor && { userId: successor.createdBy, memberId: successor.assignedMemberId },
+  };
+};
+
+export const commentParam = (name: string = 'id'): ResourceResolver => async (req) => {
+  const comment = await storage.getTaskCommentById(parseInt(req.params[name]));
+  return comment && { workspaceId: comment.workspaceId, owner: { userId: comment.userId } };
+};
+
+export const taskAttachmentParam = (name: string = 'id'): ResourceResolver => async (req) => {
+  const attachment = await storage.getTaskAttachmentById(parseInt(req.params[name]));
+  return attachment && { workspaceId: attachment.workspaceId, owner: { userId: attachment.attachedBy } };
+};
+
+export const fileParam = (name: string = 'fileId'): ResourceResolver => async (req) => {
+  const file = await storage.getFileById(parseInt(req.params[name]));
+  return file && { workspaceId: file.workspaceId, owner: { userId: file.uploadedBy } };
+};
+
+export const brainDumpItemParam = (name: string = 'id'): ResourceResolver => async (req) => {
+  const item = await storage.getBrainDumpItemById(parseInt(req.params[name]));
+  return item && { workspaceId: item.workspaceId, owner: { userId: item.userId } };
+};
+
+export const notificationParam = (name: string = 'id'): ResourceResolver => async (req) => {
+  const notification = await storage.getNotificationById(parseInt(req.params[name]));
+  return notification && { workspaceId: notification.workspaceId, owner: { userId: notification.userId } };
+};
+
+export const webhookParam = (name: string = 'id'): ResourceResolver => async (req) => {
+  const webhook = await storage.getWebhookById(parseInt(req.params[name]));
+  return webhook && { workspaceId: webhook.workspaceId };
+};
+
+export const webhookDeliveryParam = (name: string = 'id'): ResourceResolver => async (req) => {
+  const delivery = await storage.getWebhookDeliveryById(parseInt(req.params[name]));
+  return delivery && { workspaceId: delivery.workspaceId };
+};
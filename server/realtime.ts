@@ -0,0 +1,182 @@
+import type { Server, IncomingMessage } from "http";
+import type { Request, Response } from "express";
+import { WebSocketServer, WebSocket } from "ws";
+import { storage } from "./storage";
+import { getSession } from "./auth";
+import type { RealtimeEvent, RealtimeClientMessage } from "@shared/realtime";
+
+interface RealtimeClient {
+  socket: WebSocket;
+  userId: string;
+  request: Request; // the upgrade request, which carries the session
+  workspaceIds: Set<number>;
+  isAlive: boolean;
+}
+
+// Subscribed clients per workspace
+const workspaceClients = new Map<number, Set<RealtimeClient>>();
+
+// Every open connection, subscribed or not
+const connectedClients = new Map<WebSocket, RealtimeClient>();
+
+// Resolve the logged-in user from the session cookie on the upgrade request
+function authenticateUpgrade(req: IncomingMessage): Promise<string | null> {
+  return new Promise((resolve) => {
+    const sessionParser = getSession();
+    sessionParser(req as Request, {} as Response, () => {
+      const sessionUser = (req as any).session?.passport?.user;
+      resolve(sessionUser?.claims?.sub || null);
+    });
+  });
+}
+
+// Close the connection once its session has expired or been logged out. Reloading
+// replaces req.session, so it's read again afterwards.
+function checkSession(client: RealtimeClient) {
+  client.request.session.reload((error) => {
+    if (error || (client.request.session as any).passport?.user?.claims?.sub !== client.userId) {
+      client.socket.close(4401, 'Session expired');
+    }
+  });
+}
+
+function subscribe(client: RealtimeClient, workspaceId: number) {
+  if (!workspaceClients.has(workspaceId)) {
+    workspaceClients.set(workspaceId, new Set());
+  }
+  workspaceClients.get(workspaceId)!.add(client);
+  client.workspaceIds.add(workspaceId);
+}
+
+function unsubscribe(client: RealtimeClient, workspaceId: number) {
+  const clients = workspaceClients.get(workspaceId);
+  if (clients) {
+    clients.delete(client);
+    if (clients.size === 0) {
+      workspaceClients.delete(workspaceId);
+    }
+  }
+  client.workspaceIds.delete(workspaceId);
+}
+
+async function handleClientMessage(client: RealtimeClient, raw: string) {
+  let message: RealtimeClientMessage;
+  try {
+    message = JSON.parse(raw);
+  } catch {
+    return;
+  }
+
+  const workspaceId = Number(message.workspaceId);
+  if (!workspaceId) return;
+
+  if (message.type === 'subscribe') {
+    // Only members (or owners) of a workspace may listen to its events
+    const workspaces = await storage.getUserWorkspaces(client.userId);
+    if (!workspaces.some(w => w.id === workspaceId)) {
+      client.socket.send(JSON.stringify({ type: 'error', message: 'Not a member of this workspace' }));
+      return;
+    }
+    subscribe(client, workspaceId);
+    client.socket.send(JSON.stringify({ type: 'subscribed', workspaceId }));
+  } else if (message.type === 'unsubscribe') {
+    unsubscribe(client, workspaceId);
+  }
+}
+
+export function setupRealtime(httpServer: Server) {
+  const wss = new WebSocketServer({ noServer: true });
+
+  // Handle our own upgrade path only, so Vite's HMR socket keeps working in development
+  httpServer.on('upgrade', async (req, socket, head) => {
+    if (req.url?.split('?')[0] !== '/ws') return;
+
+    try {
+      const userId = await authenticateUpgrade(req);
+      if (!userId) {
+        socket.write('HTTP/1.1 401 Unauthorized\r\n\r\n');
+        socket.destroy();
+        return;
+      }
+
+      wss.handleUpgrade(req, socket, head, (ws) => {
+        const client: RealtimeClient = { socket: ws, userId, request: req as Request, workspaceIds: new Set(), isAlive: true };
+        connectedClients.set(ws, client);
+
+        ws.on('pong', () => { client.isAlive = true; });
+        ws.on('message', (data) => {
+          handleClientMessage(client, data.toString()).catch((error) => {
+            console.error('Failed to handle realtime message:', error);
+          });
+        });
+        ws.on('close', () => {
+          connectedClients.delete(ws);
+          for (const workspaceId of Array.from(client.workspaceIds)) {
+            unsubscribe(client, workspaceId);
+          }
+        });
+
+        wss.emit('connection', ws, req);
+      });
+    } catch (error) {
+      console.error('Realtime upgrade failed:', error);
+      socket.destroy();
+    }
+  });
+
+  // Drop connections that stopped answering pings or whose session has ended
+  const heartbeat = setInterval(() => {
+    wss.clients.forEach((socket) => {
+      const client = connectedClients.get(socket);
+      if (!client?.isAlive) {
+        socket.terminate();
+        return;
+      }
+      client.isAlive = false;
+      socket.ping();
+      checkSession(client);
+    });
+  }, 30000);
+
+  wss.on('close', () => clearInterval(heartbeat));
+}
+
+// Stop sending a workspace's events to a user who is no longer a member of it
+export function unsubscribeUser(userId: string, workspaceId: number) {
+  const clients = workspaceClients.get(workspaceId);
+  if (!clients) return;
+
+  Array.from(clients).forEach((client) => {
+    if (client.userId !== userId) return;
+    unsubscribe(client, workspaceId);
+    if (client.socket.readyState === WebSocket.OPEN) {
+      client.socket.send(JSON.stringify({ type: 'error', message: 'No longer a member of this workspace' }));
+    }
+  });
+}
+
+// Send an event to everyone subscribed to the workspace
+export function broadcastToWorkspace(event: RealtimeEvent) {
+  const clients = workspaceClients.get(event.workspaceId);
+  if (!clients) return;
+
+  const data = JSON.stringify(event);
+  clients.forEach((client) => {
+    if (client.socket.readyState === WebSocket.OPEN) {
+      client.socket.send(data);
+    }
+  });
+}
+
+// Send an event only to one user's connections within a workspace
+export function sendToUser(userId: string, event: RealtimeEvent) {
+  const clients = workspaceClients.get(event.workspaceId);
+  if (!clients) return;
+
+  const data = JSON.stringify(event);
+  clients.forEach((client) => {
+    if (client.userId === userId && client.socket.readyState === WebSocket.OPEN) {
+      client.socket.send(data);
+    }
+  });
+}
@@ -0,0 +1,41 @@
+import { addDays, format } from "date-fns";
+import { storage } from "./storage";
+import { broadcastToWorkspace } from "./realtime";
+import { RECURRENCE_WINDOW_DAYS } from "./recurrence-utils";
+import { every, type JobDefinition } from "./job-runner";
+
+// Recurring series only have a rolling window of instances in the database. This
+// job tops every active series up; creating a series fills its first window directly.
+const RECURRENCE_JOB_INTERVAL_MS = 60 * 60 * 1000; // hourly
+
+export async function generateRecurringInstances(today: Date = new Date()): Promise<number> {
+  const windowEnd = format(addDays(today, RECURRENCE_WINDOW_DAYS), 'yyyy-MM-dd');
+  const recurrences = await storage.getRecurrencesNeedingInstances(windowEnd);
+
+  let created = 0;
+  for (const recurrence of recurrences) {
+    try {
+      const instances = await storage.materializeRecurrenceInstances(recurrence.id, today);
+      for (const task of instances) {
+        broadcastToWorkspace({ type: 'task.created', workspaceId: task.workspaceId, payload: task });
+      }
+      created += instances.length;
+    } catch (error) {
+      // One broken series shouldn't hold up the rest
+      console.error(`Error generating instances for recurrence ${recurrence.id}:`, error);
+    }
+  }
+  return created;
+}
+
+export const recurrenceJob: JobDefinition = {
+  name: 'recurring_instances',
+  nextRun: every(RECURRENCE_JOB_INTERVAL_MS),
+  runAtStartup: true,
+  async run({ now }) {
+    // Only has work to do the first time after an upgrade
+    await storage.backfillRecurrenceTemplates();
+    const created = await generateRecurringInstances(now);
+    if (created > 0) return `generated ${created} recurring task instances`;
+  },
+};
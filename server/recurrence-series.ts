@@ -0,0 +1,195 @@
+import { format } from "date-fns";
+import { storage } from "./storage";
+import {
+  SERIES_FIELDS,
+  daysBetween,
+  occurrenceOf,
+  recurrenceColumnsFromRule,
+  ruleForRecurrence,
+  shiftDate,
+  splitRule,
+} from "./recurrence-utils";
+import { occurrenceIterator, stringifyRRule, type RRule } from "@shared/rrule";
+import type { InsertTask, InsertTaskRecurrence, Task, TaskRecurrence } from "@shared/schema";
+
+// Series-aware edits and deletes, like a calendar app. "this" touches one instance
+// (an edit marks it as an exception so later series edits leave it alone),
+// "following" splits the series at the instance, and "all" changes the whole series.
+// Completed instances and exceptions are history and are never rewritten.
+
+export interface SeriesChanges {
+  task: Task | null; // the instance the change was made from, after the change
+  updated: Task[];
+  created: Task[];
+  deletedIds: number[];
+}
+
+const toDateString = (date: Date) => format(date, 'yyyy-MM-dd');
+
+const ruleColumns = (rule: RRule): Partial<InsertTaskRecurrence> => ({
+  ...recurrenceColumnsFromRule(rule),
+  rrule: stringifyRRule(rule),
+  recurrencePattern: rule,
+});
+
+// Instances a series-wide change may rewrite
+const isSeriesManaged = (task: Task) => !task.isRecurrenceException && task.status !== 'completed';
+
+type SeriesFields = Pick<InsertTask, typeof SERIES_FIELDS[number]>;
+
+function pickSeriesFields(updates: Partial<InsertTask>): Partial<SeriesFields> {
+  return Object.fromEntries(SERIES_FIELDS.filter(field => field in updates).map(field => [field, updates[field]])) as Partial<SeriesFields>;
+}
+
+const sameValue = (a: unknown, b: unknown) => (a ?? '') === (b ?? '');
+
+// Whether an edit made to just this instance changes anything the series controls
+export function divergesFromSeries(task: Task, updates: Partial<InsertTask>): boolean {
+  return [...SERIES_FIELDS, 'dueDate' as const].some(field => field in updates && !sameValue(updates[field], task[field]));
+}
+
+function occurrencesUpTo(rule: RRule, startDate: string, exdates: string[], last: string): Set<string> {
+  const excluded = new Set(exdates);
+  const dates = new Set<string>();
+  const next = occurrenceIterator(rule, startDate);
+  for (let date = next(); date && date <= last; date = next()) {
+    if (!excluded.has(date)) dates.add(date);
+  }
+  return dates;
+}
+
+// After the rule or anchor of a series changed: drop instances from fromDate on that
+// no longer fall on an occurrence, then fill the window again from fromDate
+export async function reconcileSeries(recurrence: TaskRecurrence, fromDate: string, keepTaskId: number | null = null, today: Date = new Date()) {
+  const instances = (await storage.getTasksByRecurrenceId(recurrence.id))
+    .filter(instance => isSeriesManaged(instance) && instance.id !== keepTaskId && (occurrenceOf(instance) ?? '') >= fromDate);
+  const last = instances.reduce((max, instance) => (occurrenceOf(instance)! > max ? occurrenceOf(instance)! : max), fromDate);
+  const valid = occurrencesUpTo(ruleForRecurrence(recurrence), recurrence.startDate!, recurrence.exdates ?? [], last);
+
+  const deletedIds: number[] = [];
+  for (const instance of instances) {
+    if (!valid.has(occurrenceOf(instance)!)) {
+      await storage.deleteTask(instance.id);
+      deletedIds.push(instance.id);
+    }
+  }
+
+  await storage.updateTaskRecurrence(recurrence.id, { generatedUntil: shiftDate(fromDate, -1), isActive: true });
+  const created = await storage.materializeRecurrenceInstances(recurrence.id, today);
+  return { created, deletedIds };
+}
+
+export async function editRecurringTask(
+  task: Task,
+  scope: 'following' | 'all',
+  updates: Partial<InsertTask>,
+  rrule: RRule | null,
+  today: Date = new Date()
+): Promise<SeriesChanges> {
+  const recurrence = task.taskRecurrenceId ? await storage.getTaskRecurrence(task.taskRecurrenceId) : undefined;
+  const occurrence = occurrenceOf(task);
+  if (!recurrence?.startDate || !occurrence) {
+    return { task: await storage.updateTask(task.id, updates), updated: [], created: [], deletedIds: [] };
+  }
+
+  const todayString = toDateString(today);
+  const oldRule = ruleForRecurrence(recurrence);
+  // Moving the instance's due date moves the series with it
+  const shift = updates.dueDate && task.dueDate ? daysBetween(task.dueDate, updates.dueDate) : 0;
+  const template = pickSeriesFields(updates);
+  const splitting = scope === 'following' && occurrence > recurrence.startDate;
+
+  let series: TaskRecurrence;
+  let fromDate: string;
+  if (splitting) {
+    const { before, after } = splitRule(oldRule, recurrence.startDate, occurrence);
+    const rule = rrule ?? after ?? { ...oldRule, count: 1 };
+    const startDate = shiftDate(occurrence, shift);
+    series = await storage.splitTaskRecurrence(recurrence.id, occurrence, ruleColumns(before), {
+      ...template,
+      ...ruleColumns(rule),
+      startDate,
+      exdates: (recurrence.exdates ?? []).filter(date => date >= startDate),
+      generatedUntil: recurrence.generatedUntil,
+      isActive: true,
+    });
+    fromDate = occurrence;
+  } else {
+    series = await storage.updateTaskRecurrence(recurrence.id, {
+      ...template,
+      ...(rrule ? ruleColumns(rrule) : {}),
+      startDate: shiftDate(recurrence.startDate, shift),
+    });
+    fromDate = occurrence < todayString ? occurrence : todayString;
+  }
+
+  // The instance itself moves onto the new series date when there is one
+  const seriesDate = shiftDate(occurrence, shift);
+  const ruleChanged = !!rrule && stringifyRRule(rrule) !== stringifyRRule(oldRule);
+  let created: Task[] = [];
+  let deletedIds: number[] = [];
+  let occurrenceUpdates: Partial<InsertTask> = {};
+  if (ruleChanged || shift !== 0) {
+    const valid = occurrencesUpTo(ruleForRecurrence(series), series.startDate!, series.exdates ?? [], seriesDate);
+    occurrenceUpdates = valid.has(seriesDate) ? { occurrenceDate: seriesDate } : { isRecurrenceException: true };
+    await storage.updateTask(task.id, occurrenceUpdates);
+    ({ created, deletedIds } = await reconcileSeries(series, fromDate, task.id, today));
+  }
+
+  const createdIds = new Set(created.map(instance => instance.id));
+  const instanceIds = (await storage.getTasksByRecurrenceId(series.id))
+    .filter(instance => isSeriesManaged(instance) && instance.id !== task.id && !createdIds.has(instance.id))
+    .filter(instance => scope === 'all' || (occurrenceOf(instance) ?? '') >= occurrence)
+    .map(instance => instance.id);
+  const updated = Object.keys(template).length > 0 ? await storage.updateTasks(instanceIds, template) : [];
+
+  return {
+    task: await storage.updateTask(task.id, { ...updates, ...occurrenceUpdates }),
+    updated,
+    created,
+    deletedIds,
+  };
+}
+
+export async function deleteRecurringTask(task: Task, scope: 'this' | 'following' | 'all', today: Date = new Date()): Promise<SeriesChanges> {
+  const recurrence = task.taskRecurrenceId ? await storage.getTaskRecurrence(task.taskRecurrenceId) : undefined;
+  const occurrence = occurrenceOf(task);
+  const result: SeriesChanges = { task: null, updated: [], created: [], deletedIds: [task.id] };
+
+  await storage.deleteTask(task.id);
+  if (!recurrence) return result;
+
+  if (scope === 'this') {
+    // Excluded so a later series edit doesn't bring it back
+    if (occurrence) {
+      await storage.updateTaskRecurrence(recurrence.id, { exdates: [...(recurrence.exdates ?? []), occurrence] });
+    }
+    return result;
+  }
+
+  const instances = (await storage.getTasksByRecurrenceId(recurrence.id)).filter(instance => instance.id !== task.id);
+
+  if (scope === 'following' && occurrence && recurrence.startDate && occurrence > recurrence.startDate) {
+    const { before } = splitRule(ruleForRecurrence(recurrence), recurrence.startDate, occurrence);
+    await storage.updateTaskRecurrence(recurrence.id, ruleColumns(before));
+    for (const instance of instances) {
+      if ((occurrenceOf(instance) ?? '') >= occurrence) {
+        await storage.deleteTask(instance.id);
+        result.deletedIds.push(instance.id);
+      }
+    }
+    return result;
+  }
+
+  // The whole series: upcoming instances go, past ones stay as ordinary tasks
+  const todayString = toDateString(today);
+  for (const instance of instances) {
+    if (!instance.dueDate || instance.dueDate >= todayString) {
+      await storage.deleteTask(instance.id);
+      result.deletedIds.push(instance.id);
+    }
+  }
+  await storage.deleteRecurringTaskInstances(recurrence.id);
+  await storage.deleteTaskRecurrence(recurrence.id);
+  return result;
+}
@@ -1,5 +1,16 @@
-import { addDays, addWeeks, addMonths, addYears, format, parseISO, isBefore } from "date-fns";
+import { addDays, differenceInCalendarDays, format, parseISO } from "date-fns";
+import {
+  parseRRule,
+  occurrenceIterator,
+  isValidDate,
+  RRuleError,
+  WEEKDAY_NAMES,
+  type RRule,
+} from "@shared/rrule";
+import type { Task, TaskRecurrence } from "@shared/schema";
 
+// The simple form fields the create-task form sent before rules were RRULEs. Still
+// accepted from API clients, and found in recurrencePattern on older series.
 export interface RecurrenceConfig {
   type: 'daily' | 'weekly' | 'monthly' | 'yearly' | 'custom';
   interval: number;
@@ -10,121 +21,158 @@ export interface RecurrenceConfig {
   monthlyOption?: 'date' | 'day'; // specific date or relative day
 }
 
-export interface TaskRecurrenceData {
-  title: string;
-  description?: string;
-  projectId?: number;
-  categoryId?: number;
-  assignedMemberId?: number;
-  priority: number;
-  status: string;
-  timeSlot?: string;
-  workspaceId: number;
-}
+// How far ahead instances are materialized. The scheduler keeps topping the
+// window up, so an open-ended series never runs out.
+export const RECURRENCE_WINDOW_DAYS = 60;
 
-export function generateRecurringTasks(
-  baseTask: TaskRecurrenceData,
-  startDate: Date,
-  config: RecurrenceConfig,
-  maxInstances: number = 50
-): Array<TaskRecurrenceData & { dueDate: string }> {
-  const tasks: Array<TaskRecurrenceData & { dueDate: string }> = [];
-  let currentDate = new Date(startDate);
-  let instanceCount = 0;
-
-  // Generate first task (original)
-  tasks.push({
-    ...baseTask,
-    dueDate: format(currentDate, 'yyyy-MM-dd'),
-  });
-  instanceCount++;
-
-  // Check end conditions
-  const shouldContinue = (date: Date, count: number): boolean => {
-    if (count >= maxInstances) return false;
-    
-    switch (config.endType) {
-      case 'never':
-        return true;
-      case 'after_count':
-        return config.endCount ? count < config.endCount : false;
-      case 'on_date':
-        return config.endDate ? isBefore(date, parseISO(config.endDate)) : false;
-      default:
-        return false;
-    }
-  };
+const toDateString = (date: Date) => format(date, 'yyyy-MM-dd');
 
-  // Generate recurring instances
-  while (shouldContinue(currentDate, instanceCount)) {
-    currentDate = calculateNextDate(currentDate, config);
-    
-    if (!shouldContinue(currentDate, instanceCount + 1)) break;
-
-    // For weekly recurrence with specific days
-    if (config.type === 'weekly' && config.weeklyDays && config.weeklyDays.length > 0) {
-      const weeklyTasks = generateWeeklyTasks(baseTask, currentDate, config.weeklyDays, config.interval);
-      tasks.push(...weeklyTasks.filter(task => shouldContinue(parseISO(task.dueDate), instanceCount + 1)));
-      instanceCount += weeklyTasks.length;
-    } else {
-      tasks.push({
-        ...baseTask,
-        dueDate: format(currentDate, 'yyyy-MM-dd'),
-      });
-      instanceCount++;
-    }
-  }
+export const shiftDate = (date: string, days: number) => toDateString(addDays(parseISO(date), days));
+export const daysBetween = (from: string, to: string) => differenceInCalendarDays(parseISO(to), parseISO(from));
+
+// Task fields that belong to the series template; everything else (status, time
+// logged, ...) is specific to one occurrence
+export const SERIES_FIELDS = ['title', 'description', 'projectId', 'categoryId', 'assignedMemberId', 'priority', 'timeSlot'] as const;
 
-  return tasks.slice(0, maxInstances);
+// Instances generated before occurrenceDate existed fall back to their due date
+export const occurrenceOf = (task: Pick<Task, 'occurrenceDate' | 'dueDate'>) => task.occurrenceDate ?? task.dueDate;
+
+// Older rows stored the config as a JSON string inside the jsonb column
+export function parseRecurrencePattern(pattern: unknown): RecurrenceConfig {
+  return (typeof pattern === 'string' ? JSON.parse(pattern) : pattern) as RecurrenceConfig;
 }
 
-function calculateNextDate(currentDate: Date, config: RecurrenceConfig): Date {
+export function configToRRule(config: RecurrenceConfig, startDate: string): RRule {
+  const interval = Math.max(1, config.interval || 1);
+  const [, , day] = startDate.split('-').map(Number);
+  // Legacy weekly series counted weeks from Sunday
+  const rule: RRule = { freq: 'DAILY', interval, wkst: 0 };
+
   switch (config.type) {
-    case 'daily':
-      return addDays(currentDate, config.interval);
     case 'weekly':
-      return addWeeks(currentDate, config.interval);
+      rule.freq = 'WEEKLY';
+      if (config.weeklyDays?.length) {
+        rule.byDay = Array.from(new Set(config.weeklyDays)).sort((a, b) => a - b).map(weekday => ({ weekday }));
+      }
+      break;
     case 'monthly':
-      return addMonths(currentDate, config.interval);
+      rule.freq = 'MONTHLY';
+      if (config.monthlyOption === 'day') {
+        // "Relative day": the same weekday in the same week of the month, e.g. 3rd Thursday
+        const weekday = new Date(`${startDate}T00:00:00Z`).getUTCDay();
+        rule.byDay = [{ weekday, n: Math.ceil(day / 7) }];
+      } else {
+        rule.byMonthDay = [day];
+      }
+      break;
     case 'yearly':
-      return addYears(currentDate, config.interval);
-    case 'custom':
-      return addDays(currentDate, config.interval);
-    default:
-      return addDays(currentDate, 1);
+      rule.freq = 'YEARLY';
+      break;
   }
+
+  if (config.endType === 'after_count' && config.endCount) rule.count = config.endCount;
+  if (config.endType === 'on_date' && config.endDate) rule.until = config.endDate;
+  return rule;
 }
 
-function generateWeeklyTasks(
-  baseTask: TaskRecurrenceData,
-  weekStart: Date,
-  weeklyDays: number[],
-  interval: number
-): Array<TaskRecurrenceData & { dueDate: string }> {
-  const tasks: Array<TaskRecurrenceData & { dueDate: string }> = [];
-  
-  // Find the start of the week (Sunday = 0)
-  const startOfWeek = new Date(weekStart);
-  startOfWeek.setDate(weekStart.getDate() - weekStart.getDay());
-  
-  // Generate tasks for each selected day of the week
-  weeklyDays.forEach(dayOfWeek => {
-    const taskDate = new Date(startOfWeek);
-    taskDate.setDate(startOfWeek.getDate() + dayOfWeek);
-    
-    tasks.push({
-      ...baseTask,
-      dueDate: format(taskDate, 'yyyy-MM-dd'),
-    });
-  });
-  
-  return tasks;
+export function ruleForRecurrence(recurrence: Pick<TaskRecurrence, 'rrule' | 'recurrencePattern' | 'startDate'>): RRule {
+  if (recurrence.rrule) return parseRRule(recurrence.rrule);
+  return configToRRule(parseRecurrencePattern(recurrence.recurrencePattern), recurrence.startDate!);
 }
 
-export function createRecurrenceFromFormData(formData: any): RecurrenceConfig | null {
-  if (!formData.hasRecurrence) return null;
-  
+// The older descriptive columns, kept in step with the rule for anything still reading them
+export function recurrenceColumnsFromRule(rule: RRule) {
+  const monthlyDay = rule.byDay?.find(day => day.n !== undefined);
   return {
+    recurrenceType: rule.freq.toLowerCase(),
+    interval: rule.interval,
+    endType: rule.count !== undefined ? 'after_count' : rule.until ? 'on_date' : 'never',
+    endCount: rule.count ?? null,
+    endDate: rule.until ?? null,
+    daysOfWeek: rule.byDay?.map(day => WEEKDAY_NAMES[day.weekday].toLowerCase()).join(',') || null,
+    dayOfMonth: rule.byMonthDay?.[0] ?? null,
+    weekOfMonth: monthlyDay?.n ?? null,
+    monthOfYear: rule.byMonth?.[0] ?? null,
+  };
+}
+
+// Splits a series at an occurrence: the rule up to the day before it, and the rule for
+// the rest (null if COUNT was already used up before the split)
+export function splitRule(rule: RRule, startDate: string, splitDate: string): { before: RRule; after: RRule | null } {
+  const lastDay = shiftDate(splitDate, -1);
+  const before: RRule = { ...rule, count: undefined, until: rule.until && rule.until < lastDay ? rule.until : lastDay };
+  if (rule.count === undefined) {
+    return { before, after: { ...rule } };
+  }
+
+  const next = occurrenceIterator(rule, startDate);
+  let used = 0;
+  for (let date = next(); date && date < splitDate; date = next()) used++;
+  return { before, after: rule.count > used ? { ...rule, count: rule.count - used } : null };
+}
+
+export interface RecurrencePlan {
+  dueDates: string[];
+  generatedUntil: string | null;
+  finished: boolean; // no occurrences left after this batch
+}
+
+// Which instances to create next. Everything after generatedUntil up to the end of
+// the window is due; if that leaves nothing upcoming (a yearly task, say) the next
+// occurrence is created anyway so the series stays visible. EXDATEs are skipped, as
+// are occurrences that already have an instance (kept when a series is re-planned).
+export function planRecurrenceInstances(
+  startDate: string,
+  rule: RRule,
+  exdates: string[],
+  generatedUntil: string | null,
+  today: Date = new Date(),
+  existing: string[] = []
+): RecurrencePlan {
+  const todayString = toDateString(today);
+  const windowEnd = toDateString(addDays(today, RECURRENCE_WINDOW_DAYS));
+  const excluded = new Set(exdates);
+  const alreadyCreated = new Set(existing);
+  const dueDates: string[] = [];
+  let reached = generatedUntil;
+  let hasUpcoming = !!generatedUntil && generatedUntil >= todayString;
+
+  const next = occurrenceIterator(rule, startDate);
+  for (let dueDate = next(); dueDate; dueDate = next()) {
+    if ((generatedUntil && dueDate <= generatedUntil) || excluded.has(dueDate)) continue;
+    if (dueDate > windowEnd && hasUpcoming) {
+      return { dueDates, generatedUntil: reached, finished: false };
+    }
+    if (!alreadyCreated.has(dueDate)) dueDates.push(dueDate);
+    reached = dueDate;
+    if (dueDate >= todayString) hasUpcoming = true;
+  }
+
+  return { dueDates, generatedUntil: reached, finished: true };
+}
+
+export interface RecurrenceInput {
+  rule: RRule;
+  exdates: string[];
+}
+
+// Reads the recurrence from the create-task form: an RRULE string (plus optional
+// exdates), or the older simple fields. Throws RRuleError for anything invalid.
+export function createRecurrenceFromFormData(formData: any): RecurrenceInput | null {
+  // A series is anchored on its first due date
+  if (!formData.hasRecurrence || !formData.dueDate) return null;
+
+  const exdates: string[] = Array.isArray(formData.exdates) ? formData.exdates : [];
+  const invalid = exdates.find(date => typeof date !== 'string' || !isValidDate(date));
+  if (invalid !== undefined) {
+    throw new RRuleError(`Invalid excluded date "${invalid}"`);
+  }
+
+  if (formData.rrule) {
+    return { rule: parseRRule(String(formData.rrule)), exdates };
+  }
+
+  const config: RecurrenceConfig = {
     type: formData.recurrenceType || 'daily',
     interval: formData.recurrenceInterval || 1,
     endType: formData.recurrenceEndType || 'never',
@@ -133,4 +181,5 @@ export function createRecurrenceFromFormData(formData: any): RecurrenceConfig |
     weeklyDays: formData.weeklyDays,
     monthlyOption: formData.monthlyOption,
   };
-}
\ No newline at end of file
+  return { rule: configToRRule(config, formData.dueDate), exdates };
+}
@@ -0,0 +1,216 @@
+import { addDays, format, subDays } from "date-fns";
+import { storage } from "./storage";
+import { channelPreference, notifyUser } from "./notifications";
+import { sendDueTodayDigest, sendWeeklySummary, type ReminderTask } from "./email";
+import { dailyAt, every, weeklyAt, type JobContext, type JobDefinition } from "./job-runner";
+import { NOTIFICATION_TYPES, type NotificationPreferences, type Task, type User, type Workspace, type WorkspaceMember } from "@shared/schema";
+
+// Scheduled emails about due dates, and housekeeping. Reminders are sent once per task
+// and kind (the notification row is the record of it, and tracks its email); digests
+// keep the recipients they've reached in the job state so a retry only re-sends to the
+// ones that failed. Digests follow the member's email preferences but, like the
+// notification digest, go out at a fixed time regardless of quiet hours.
+
+const OVERDUE_LOOKBACK_DAYS = 7; // older overdue tasks don't get a first reminder
+const toDateString = (date: Date) => format(date, 'yyyy-MM-dd');
+
+interface Recipient {
+  userId: string;
+  user: User;
+  name: string;
+  preferences: NotificationPreferences | undefined;
+}
+
+// The workspace's members who can receive email, by member id
+async function getRecipients(workspace: Workspace, users: Map<string, User | undefined>): Promise<Map<number, Recipient>> {
+  const members: WorkspaceMember[] = await storage.getWorkspaceMembers(workspace.id);
+  const recipients = new Map<number, Recipient>();
+  for (const member of members) {
+    if (!member.userId) continue;
+    if (!users.has(member.userId)) users.set(member.userId, await storage.getUser(member.userId));
+    const user = users.get(member.userId);
+    if (!user?.email) continue;
+    const preferences = await storage.getNotificationPreferences(member.userId, workspace.id);
+    recipients.set(member.id, { userId: member.userId, user, name: user.firstName || user.email.split('@')[0], preferences });
+  }
+  return recipients;
+}
+
+async function getProjectNames(workspaceId: number): Promise<Map<number, string>> {
+  const projects = await storage.getWorkspaceProjects(workspaceId);
+  return new Map(projects.map(project => [project.id, project.name]));
+}
+
+const toReminderTask = (task: Task, projectNames: Map<number, string>): ReminderTask => ({
+  title: task.title,
+  dueDate: task.dueDate,
+  dueTime: task.dueTime,
+  projectName: task.projectId ? projectNames.get(task.projectId) : null,
+});
+
+interface DigestState {
+  period?: string;
+  sent?: string[]; // `${workspaceId}:${userId}`
+}
+
+// Sends one email per workspace member who wants it, skipping members already reached
+// in this period. Failures are retried by the job runner.
+async function sendDigest(
+  period: string,
+  context: JobContext,
+  wantsEmail: (preferences: NotificationPreferences | undefined) => boolean,
+  send: (workspace: Workspace, recipient: Recipient, memberId: number) => Promise<boolean | null>
+): Promise<string> {
+  const previous = context.state as DigestState;
+  const sent = new Set(previous.period === period ? previous.sent ?? [] : []);
+  const users = new Map<string, User | undefined>();
+  let delivered = 0;
+  let failed = 0;
+
+  for (const workspace of await storage.getAllWorkspaces()) {
+    const recipients = await getRecipients(workspace, users);
+    for (const [memberId, recipient] of Array.from(recipients)) {
+      const key = `${workspace.id}:${recipient.userId}`;
+      if (sent.has(key) || !wantsEmail(recipient.preferences)) continue;
+
+      const result = await send(workspace, recipient, memberId);
+      if (result === false) {
+        failed++;
+        continue;
+      }
+      if (result) delivered++;
+      sent.add(key);
+      await context.saveState({ period, sent: Array.from(sent) });
+    }
+  }
+
+  if (failed > 0) {
+    throw new Error(`${failed} email${failed === 1 ? '' : 's'} failed to send (${delivered} sent)`);
+  }
+  return `sent ${delivered} email${delivered === 1 ? '' : 's'}`;
+}
+
+export const taskReminderJob: JobDefinition = {
+  name: 'task_reminders',
+  nextRun: every(15 * 60 * 1000),
+  runAtStartup: true,
+  async run({ now }) {
+    const today = toDateString(now);
+    const tomorrow = toDateString(addDays(now, 1));
+    const overdueFrom = toDateString(subDays(now, OVERDUE_LOOKBACK_DAYS));
+    const users = new Map<string, User | undefined>();
+    let notified = 0;
+
+    for (const workspace of await storage.getAllWorkspaces()) {
+      const tasks = (await storage.getWorkspaceTasks(workspace.id))
+        .filter(task => task.status !== 'completed' && task.assignedMemberId && task.dueDate && task.dueDate >= overdueFrom && task.dueDate <= tomorrow);
+      if (tasks.length === 0) continue;
+
+      const recipients = await getRecipients(workspace, users);
+      const projectNames = await getProjectNames(workspace.id);
+      for (const task of tasks) {
+        const recipient = recipients.get(task.assignedMemberId!);
+        if (!recipient) continue;
+
+        const overdue = task.dueDate! < today;
+        const type = overdue ? 'task_overdue' : 'task_due_soon';
+        if (await storage.hasTaskNotification(recipient.userId, task.id, type)) continue;
+
+        // The email follows the recipient's preferences and is retried by notificationEmailJob
+        const reminder = toReminderTask(task, projectNames);
+        const notification = await notifyUser({
+          type,
+          userId: recipient.userId,
+          workspaceId: workspace.id,
+          taskId: task.id,
+          title: overdue ? 'Task Overdue' : 'Task Due Soon',
+          message: overdue
+            ? `"${task.title}" was due on ${task.dueDate}`
+            : `"${task.title}" is due ${task.dueDate === today ? 'today' : 'tomorrow'}`,
+          email: { taskTitle: reminder.title, dueDate: reminder.dueDate, dueTime: reminder.dueTime, projectName: reminder.projectName },
+        });
+        if (notification) notified++;
+      }
+    }
+
+    if (notified > 0) return `created ${notified} reminders`;
+  },
+};
+
+export const dueTodayDigestJob: JobDefinition = {
+  name: 'due_today_digest',
+  nextRun: dailyAt(7),
+  async run(context) {
+    const byWorkspace = new Map<number, Task[]>();
+    const projectNames = new Map<number, Map<number, string>>();
+
+    // Follows the due-soon reminders: members who get those in the notification digest
+    // already hear about today's tasks there
+    const wantsEmail = (preferences: NotificationPreferences | undefined) => channelPreference(preferences, 'task_due_soon').email === 'instant';
+
+    return await sendDigest(toDateString(context.now), context, wantsEmail, async (workspace, recipient, memberId) => {
+      if (!byWorkspace.has(workspace.id)) {
+        byWorkspace.set(workspace.id, await storage.getDueTodayTasks(workspace.id));
+        projectNames.set(workspace.id, await getProjectNames(workspace.id));
+      }
+      const tasks = byWorkspace.get(workspace.id)!.filter(task => task.assignedMemberId === memberId);
+      if (tasks.length === 0) return null;
+
+      return await sendDueTodayDigest({
+        toEmail: recipient.user.email!,
+        recipientName: recipient.name,
+        workspaceName: workspace.name,
+        tasks: tasks.map(task => toReminderTask(task, projectNames.get(workspace.id)!)),
+      });
+    });
+  },
+};
+
+export const weeklySummaryJob: JobDefinition = {
+  name: 'weekly_summary',
+  nextRun: weeklyAt(1, 8), // Mondays
+  async run(context) {
+    const today = toDateString(context.now);
+    const nextWeek = toDateString(addDays(context.now, 7));
+    const weekAgo = subDays(context.now, 7);
+    const byWorkspace = new Map<number, Task[]>();
+    const projectNames = new Map<number, Map<number, string>>();
+
+    // Skipped for members who turned email off for everything
+    const wantsEmail = (preferences: NotificationPreferences | undefined) =>
+      NOTIFICATION_TYPES.some(type => channelPreference(preferences, type).email !== 'off');
+
+    return await sendDigest(today, context, wantsEmail, async (workspace, recipient, memberId) => {
+      if (!byWorkspace.has(workspace.id)) {
+        byWorkspace.set(workspace.id, await storage.getWorkspaceTasks(workspace.id));
+        projectNames.set(workspace.id, await getProjectNames(workspace.id));
+      }
+      const names = projectNames.get(workspace.id)!;
+      const assigned = byWorkspace.get(workspace.id)!.filter(task => task.assignedMemberId === memberId);
+      const open = assigned.filter(task => task.status !== 'completed');
+      const completed = assigned.filter(task => task.status === 'completed' && task.updatedAt && task.updatedAt >= weekAgo);
+      if (open.length === 0 && completed.length === 0) return null;
+
+      const byDueDate = (a: Task, b: Task) => (a.dueDate ?? '').localeCompare(b.dueDate ?? '');
+      return await sendWeeklySummary({
+        toEmail: recipient.user.email!,
+        recipientName: recipient.name,
+        workspaceName: workspace.name,
+        completed: completed.map(task => toReminderTask(task, names)),
+        overdue: open.filter(task => task.dueDate && task.dueDate < today).sort(byDueDate).map(task => toReminderTask(task, names)),
+        upcoming: open.filter(task => task.dueDate && task.dueDate >= today && task.dueDate < nextWeek).sort(byDueDate).map(task => toReminderTask(task, names)),
+        openCount: open.length,
+      });
+    });
+  },
+};
+
+export const invitationCleanupJob: JobDefinition = {
+  name: 'invitation_cleanup',
+  nextRun: dailyAt(3),
+  runAtStartup: true,
+  async run({ now }) {
+    const deleted = await storage.deleteExpiredInvitations(now);
+    if (deleted > 0) return `deleted ${deleted} expired invitations`;
+  },
+};
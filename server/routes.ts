@@ -1,13 +1,64 @@
-import type { Express } from "express";
+import type { Express, Response } from "express";
 import { createServer, type Server } from "http";
 import multer from "multer";
-import { storage } from "./storage";
-import { setupAuth, isAuthenticated } from "./replitAuth";
+import { z } from "zod";
+import { storage, InvalidCursorError } from "./storage";
+import { setupAuth, isAuthenticated, appUrl } from "./auth";
+import {
+  rolePermissions,
+  requireWorkspaceAccess,
+  getWorkspaceAccess,
+  workspaceParam,
+  workspaceQuery,
+  projectParam,
+  categoryParam,
+  taskParam,
+  taskRecurrenceParam,
+  taskDependencyParam,
+  subtaskParam,
+  timeEntryParam,
+  commentParam,
+  taskAttachmentParam,
+  fileParam,
+  brainDumpItemParam,
+  notificationParam,
+  webhookParam,
+  webhookDeliveryParam,
+} from "./permissions";
 import { processAIQuery, generateTaskSuggestions, generateProjectInsights } from "./openai";
-import { buildActivityContext } from "./activityMiddleware";
-import { sendWorkspaceInvitation, sendTaskNotification } from "./email";
-import { generateRecurringTasks, createRecurrenceFromFormData } from "./recurrence-utils";
-import { parseISO } from "date-fns";
+import { auditLogRetentionDays } from "./activityMiddleware";
+import {
+  loadChatContext,
+  createToolRunner,
+  loadToolSteps,
+  findPendingAction,
+  toolResultMessage,
+  answerChatMessage,
+  startChatStream,
+  stopChatStream,
+  findConversation,
+  newConversationId,
+  getConversationTurns,
+  getRecentTurns,
+  loadTurn,
+  loadConversationHistory,
+  saveAnswer,
+} from "./aiChat";
+import { runTool } from "./aiTools";
+import { sendWorkspaceInvitation } from "./email";
+import { notifyUser, effectivePreferences } from "./notifications";
+import { checkWebhookUrl, emitWebhookEvent, redeliver, sendTestEvent } from "./webhooks";
+import { generateApiToken, apiTokenResponse } from "./apiTokens";
+import { buildOpenApiDocument } from "./openapi";
+import { createRecurrenceFromFormData, recurrenceColumnsFromRule, ruleForRecurrence, occurrenceOf } from "./recurrence-utils";
+import { editRecurringTask, deleteRecurringTask, divergesFromSeries, reconcileSeries, type SeriesChanges } from "./recurrence-series";
+import { parseRRule, stringifyRRule, isValidDate, RRuleError } from "@shared/rrule";
+import { setupRealtime, broadcastToWorkspace, sendToUser, unsubscribeUser } from "./realtime";
+import { wouldCreateCycle, getBlockingReason } from "@shared/dependencies";
+import { toCsv } from "./csv";
+import { buildCalendar, type CalendarSeries } from "./ical";
+import { parseSearchQuery } from "./search";
+import { fileStorage, createStorageKey } from "./fileStorage";
 import { 
   insertWorkspaceSchema,
   insertWorkspaceMemberSchema,
@@ -17,7 +68,6 @@ import {
   insertTaskSchema,
   insertProjectPageSchema,
   insertBrainDumpItemSchema,
-  insertChatConversationSchema,
   insertNotificationSchema,
   insertTaskCommentSchema,
   insertProjectComponentSchema,
@@ -27,6 +77,30 @@ import {
   insertOutflowTypeSchema,
   insertInflowTypeSchema,
   insertTaskRecurrenceSchema,
+  insertTaskDependencySchema,
+  insertSubtaskSchema,
+  insertTimeEntrySchema,
+  manualTimeEntrySchema,
+  timesheetQuerySchema,
+  auditLogQuerySchema,
+  resolveChatActionSchema,
+  taskQuerySchema,
+  taskFilterSchema,
+  searchQuerySchema,
+  recurrenceScopeSchema,
+  calendarQuerySchema,
+  notificationPreferencesSchema,
+  webhookInputSchema,
+  webhookDeliveryQuerySchema,
+  createApiTokenSchema,
+  SEARCH_RESULT_TYPES,
+  FOLDER_MIME_TYPE,
+  type Task,
+  type File,
+  type FileVersion,
+  type SearchResultType,
+  type CalendarQuery,
+  type CalendarFeed,
 } from "@shared/schema";
 
 // Configure multer for file uploads
@@ -37,6 +111,175 @@ const upload = multer({
   }
 });
 
+// Roll logged time up into the affected tasks' actualHours and let the workspace know
+async function publishTimeEntryChanges(workspaceId: number, taskIds: number[]) {
+  for (const taskId of Array.from(new Set(taskIds))) {
+    const task = await storage.recalculateTaskActualHours(taskId);
+    if (task) {
+      broadcastToWorkspace({ type: 'task.updated', workspaceId: task.workspaceId, payload: task });
+    }
+    broadcastToWorkspace({ type: 'time_entry.changed', workspaceId, payload: { taskId } });
+  }
+}
+
+// Pipes a stored blob to the response with headers that keep it from running in our origin
+async function sendStoredFile(res: Response, storageKey: string, fileName: string, mimeType: string, inline: boolean) {
+  const stored = await fileStorage.get(storageKey);
+  if (!stored) {
+    res.status(404).json({ message: "File contents are missing" });
+    return;
+  }
+
+  const asciiName = fileName.replace(/[^\x20-\x7e]|"/g, '_');
+  res.setHeader('Content-Type', mimeType);
+  res.setHeader('Content-Disposition', `${inline ? 'inline' : 'attachment'}; filename="${asciiName}"; filename*=UTF-8''${encodeURIComponent(fileName)}`);
+  // Uploaded HTML or SVG must not run as part of our origin
+  res.setHeader('X-Content-Type-Options', 'nosniff');
+  res.setHeader('Content-Security-Policy', "default-src 'none'; img-src 'self'; media-src 'self'; style-src 'unsafe-inline'; sandbox");
+  if (stored.size !== undefined) {
+    res.setHeader('Content-Length', stored.size.toString());
+  }
+
+  stored.stream.on('error', (error) => {
+    console.error("Error streaming file:", error);
+    res.destroy(error);
+  });
+  stored.stream.pipe(res);
+}
+
+class UploadRejectedError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+  }
+}
+
+interface UploadTarget {
+  workspaceId: number;
+  folder: File | null;
+  projectId: number | null;
+  userId: string;
+  canEditAny: boolean;
+}
+
+// Saves an uploaded file into a vault folder. A name that already exists there
+// becomes a new version of that file instead of a duplicate.
+async function storeUpload(upload: Express.Multer.File, target: UploadTarget): Promise<{ file: File; version?: FileVersion }> {
+  const { workspaceId, folder, userId } = target;
+  const fileName = upload.originalname;
+  const mimeType = upload.mimetype || 'application/octet-stream';
+  if (!isValidFileName(fileName)) {
+    throw new UploadRejectedError(400, "File name is required and cannot contain '/'");
+  }
+  if (target.projectId) {
+    const project = await storage.getProjectById(target.projectId);
+    if (project?.workspaceId !== workspaceId) {
+      throw new UploadRejectedError(400, "Project not found in this workspace");
+    }
+  }
+
+  const existing = await storage.findFileByName(workspaceId, folder?.id ?? null, fileName);
+  if (existing?.mimeType === FOLDER_MIME_TYPE) {
+    throw new UploadRejectedError(409, `A folder named "${fileName}" already exists here`);
+  }
+  if (existing && existing.uploadedBy !== userId && !target.canEditAny) {
+    throw new UploadRejectedError(403, `You can't upload a new version of someone else's file "${fileName}"`);
+  }
+
+  // Store the bytes first so a row never points at a missing blob
+  const storageKey = createStorageKey(workspaceId, fileName);
+  await fileStorage.put(storageKey, upload.buffer, mimeType);
+
+  try {
+    if (existing) {
+      const { file, version } = await storage.addFileVersion(existing.id, { storageKey, mimeType, size: upload.size, uploadedBy: userId });
+      broadcastToWorkspace({ type: 'file.updated', workspaceId, payload: file });
+      return { file, version };
+    }
+
+    const file = await storage.createFile({
+      name: fileName,
+      originalName: fileName,
+      mimeType,
+      size: upload.size,
+      path: `${folder?.path ?? ''}/${fileName}`,
+      parentId: folder?.id ?? null,
+      storageKey,
+      workspaceId,
+      projectId: target.projectId,
+      uploadedBy: userId,
+    });
+    broadcastToWorkspace({ type: 'file.created', workspaceId, payload: file });
+    return { file };
+  } catch (error) {
+    await fileStorage.delete(storageKey).catch(() => {});
+    throw error;
+  }
+}
+
+// Task attachments live in the vault under /Attachments/Task <id>, created on first use
+async function ensureAttachmentFolder(workspaceId: number, taskId: number, userId: string): Promise<File> {
+  let parent: File | null = null;
+  for (const name of ['Attachments', `Task ${taskId}`]) {
+    const parentId = parent ? parent.id : null;
+    const parentPath = parent ? parent.path : '';
+    const existing = await storage.findFileByName(workspaceId, parentId, name);
+    if (existing && existing.mimeType !== FOLDER_MIME_TYPE) {
+      throw new UploadRejectedError(409, `"${existing.path}" is a file, so attachments can't be stored there`);
+    }
+    if (existing) {
+      parent = existing;
+      continue;
+    }
+    parent = await storage.createFile({
+      name,
+      originalName: name,
+      mimeType: FOLDER_MIME_TYPE,
+      size: 0,
+      path: `${parentPath}/${name}`,
+      parentId,
+      workspaceId,
+      projectId: null,
+      uploadedBy: userId,
+    });
+    broadcastToWorkspace({ type: 'file.created', workspaceId, payload: parent });
+  }
+  return parent!;
+}
+
+function isValidFileName(name: string): boolean {
+  return name.length > 0 && name.length <= 255 && !name.includes('/');
+}
+
+// The folder an item should go into: null for the vault root, undefined if the id
+// doesn't name a folder in this workspace
+async function resolveTargetFolder(workspaceId: number, parentId: unknown): Promise<File | null | undefined> {
+  if (parentId === null || parentId === undefined || parentId === '' || parentId === 'root') return null;
+  const folder = await storage.getFileById(Number(parentId));
+  if (!folder || folder.workspaceId !== workspaceId || folder.mimeType !== FOLDER_MIME_TYPE) return undefined;
+  return folder;
+}
+
+// Projects, categories and assignees a task points at must come from the task's own
+// workspace; returns the complaint for the first one that doesn't
+async function findForeignTaskReference(
+  workspaceId: number,
+  refs: { projectId?: unknown; categoryId?: unknown; assignedMemberId?: unknown },
+): Promise<string | null> {
+  if (refs.projectId) {
+    const project = await storage.getProjectById(Number(refs.projectId));
+    if (project?.workspaceId !== workspaceId) return `There is no project ${refs.projectId} in this workspace`;
+  }
+  if (refs.categoryId) {
+    const category = await storage.getCategoryById(Number(refs.categoryId));
+    if (category?.workspaceId !== workspaceId) return `There is no category ${refs.categoryId} in this workspace`;
+  }
+  if (refs.assignedMemberId) {
+    const members = await storage.getWorkspaceMembers(workspaceId);
+    if (!members.some(m => m.id === Number(refs.assignedMemberId))) return `There is no member ${refs.assignedMemberId} in this workspace`;
+  }
+  return null;
+}
+
 // Helper function for creating task notifications with email alerts
 async function getProjectInvolvedUsers(projectId: number, workspaceId: number): Promise<any[]> {
   try {
@@ -83,11 +326,11 @@ async function createTaskNotification(data: {
   userId: string;
   workspaceId: number;
   taskId: number;
+  commentId?: number;
   title: string;
   message: string;
-  assignedUser: any;
   task: any;
-  commenterName?: string;
+  actorName?: string;
   commentText?: string;
   statusChange?: {
     from: string;
@@ -95,39 +338,104 @@ async function createTaskNotification(data: {
   };
 }) {
   try {
-    // Create notification in database
-    await storage.createNotification({
-      workspaceId: data.workspaceId,
-      userId: data.userId,
+    // Which channels it goes to depends on the recipient's notification preferences
+    await notifyUser({
       type: data.type,
+      userId: data.userId,
+      workspaceId: data.workspaceId,
+      taskId: data.taskId,
+      commentId: data.commentId,
       title: data.title,
       message: data.message,
-      taskId: data.taskId,
-      isRead: false,
-      emailSent: true,
-    });
-
-    // Get workspace name for context
-    const workspace = await storage.getWorkspaceById(data.workspaceId);
-
-    // Send email notification
-    await sendTaskNotification({
-      toEmail: data.assignedUser.email,
-      recipientName: data.assignedUser.firstName || data.assignedUser.email.split('@')[0],
-      taskTitle: data.task.title,
-      taskDescription: data.task.description || '',
-      notificationType: data.type,
-      assignerName: data.commenterName,
-      commenterName: data.commenterName,
-      commentText: data.commentText,
-      workspaceName: workspace?.name,
-      statusChange: data.statusChange,
+      email: {
+        taskTitle: data.task.title,
+        taskDescription: data.task.description,
+        actorName: data.actorName,
+        commentText: data.commentText,
+        statusChange: data.statusChange,
+      },
     });
   } catch (error) {
     console.error('Failed to create task notification:', error);
   }
 }
 
+// Publish the other instances a series-wide edit or delete touched, to open tabs and webhooks
+function broadcastSeriesChanges(workspaceId: number, changes: SeriesChanges) {
+  for (const task of changes.created) {
+    broadcastToWorkspace({ type: 'task.created', workspaceId, payload: task });
+    emitWebhookEvent(workspaceId, 'task.created', { task });
+  }
+  for (const task of changes.updated) {
+    broadcastToWorkspace({ type: 'task.updated', workspaceId, payload: task });
+    emitWebhookEvent(workspaceId, 'task.updated', { task });
+  }
+  for (const id of changes.deletedIds) {
+    broadcastToWorkspace({ type: 'task.deleted', workspaceId, payload: { id } });
+    emitWebhookEvent(workspaceId, 'task.deleted', { id });
+  }
+}
+
+// Tasks for a calendar feed or export, plus the recurring series they belong to. A
+// series is written with its RRULE only when its template matches the filters; its
+// instances that the filters leave out are excluded from it.
+async function loadCalendar(workspaceId: number, query: CalendarQuery, memberId: number | null) {
+  const { component, ...filters } = query;
+  // Owners without a membership have nothing assigned, and member ids start at 1
+  const assignee = filters.assignee?.split(',').map(value => (value.trim() === 'me' ? String(memberId ?? 0) : value)).join(',');
+  const { tasks } = await storage.queryWorkspaceTasks(workspaceId, { ...filters, assignee, sort: 'dueDate', order: 'asc' });
+
+  const included = new Set(tasks.map(task => task.id));
+  const assigneeIds = assignee?.split(',').map(value => value.trim());
+  const series: CalendarSeries[] = [];
+  const recurrenceIds = Array.from(new Set(tasks.map(task => task.taskRecurrenceId).filter((id): id is number => !!id)));
+  for (const recurrenceId of recurrenceIds) {
+    const recurrence = await storage.getTaskRecurrence(recurrenceId);
+    if (!recurrence?.startDate || !recurrence.title) continue;
+
+    const templateMatches =
+      !filters.dueFrom && !filters.dueTo && !filters.q &&
+      (!filters.status || filters.status.includes('todo')) &&
+      (!filters.priority || filters.priority.includes(recurrence.priority ?? 0)) &&
+      (!filters.projectId || (!!recurrence.projectId && filters.projectId.includes(recurrence.projectId))) &&
+      (!filters.categoryId || (!!recurrence.categoryId && filters.categoryId.includes(recurrence.categoryId))) &&
+      (!assigneeIds || (recurrence.assignedMemberId ? assigneeIds.includes(String(recurrence.assignedMemberId)) : assigneeIds.includes('unassigned')));
+    if (!templateMatches) continue;
+
+    const hidden = (await storage.getTasksByRecurrenceId(recurrenceId))
+      .filter(task => !included.has(task.id))
+      .map(occurrenceOf)
+      .filter((date): date is string => !!date);
+    try {
+      series.push({ recurrence, rule: ruleForRecurrence(recurrence), exdates: [...(recurrence.exdates ?? []), ...hidden] });
+    } catch (error) {
+      // A series with an unreadable rule still shows its instances as single tasks
+      console.error(`Skipping rule of task recurrence ${recurrenceId}:`, error);
+    }
+  }
+  return { tasks, series, component };
+}
+
+function calendarFeedResponse(req: any, feed: CalendarFeed) {
+  return {
+    url: `${appUrl(req)}/api/calendar/${feed.token}.ics`,
+    createdAt: feed.createdAt,
+    lastAccessedAt: feed.lastAccessedAt,
+  };
+}
+
+// Tell workspace members that a project's financial data changed so they refetch it
+async function broadcastFinancialChange(projectId: number, resource: string) {
+  const project = await storage.getProjectById(projectId);
+  if (project) {
+    broadcastToWorkspace({
+      type: 'financial.changed',
+      workspaceId: project.workspaceId,
+      payload: { projectId, resource },
+    });
+  }
+}
+
 export async function registerRoutes(app: Express): Promise<Server> {
   // Auth middleware
   await setupAuth(app);
@@ -173,7 +481,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
     try {
       const userId = req.user.claims.sub;
       const workspaces = await storage.getUserWorkspaces(userId);
-      res.json(workspaces);
+      const tokenWorkspaceId = req.apiToken?.workspaceId;
+      res.json(tokenWorkspaceId ? workspaces.filter(workspace => workspace.id === tokenWorkspaceId) : workspaces);
     } catch (error) {
       console.error("Error fetching workspaces:", error);
       res.status(500).json({ message: "Failed to fetch workspaces" });
@@ -182,6 +491,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.post('/api/workspaces', isAuthenticated, async (req: any, res) => {
     try {
+      if (req.apiToken?.workspaceId) {
+        return res.status(403).json({ message: "This API token is limited to one workspace" });
+      }
       const userId = req.user.claims.sub;
       const { name, type } = req.body;
       
@@ -237,7 +549,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get('/api/workspaces/:id', isAuthenticated, async (req: any, res) => {
+  app.get('/api/workspaces/:id', isAuthenticated, requireWorkspaceAccess('read', workspaceParam()), async (req: any, res) => {
     try {
       const workspaceId = parseInt(req.params.id);
       const workspace = await storage.getWorkspaceById(workspaceId);
@@ -253,8 +565,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Caller's role and what it allows, so the client can hide actions it can't perform
+  app.get('/api/workspaces/:id/access', isAuthenticated, requireWorkspaceAccess('read', workspaceParam()), async (req: any, res) => {
+    const access = req.workspaceAccess;
+    res.json({ ...access, permissions: rolePermissions[access.role as keyof typeof rolePermissions] });
+  });
+
   // Workspace members routes
-  app.get('/api/workspaces/:id/members', isAuthenticated, async (req: any, res) => {
+  app.get('/api/workspaces/:id/members', isAuthenticated, requireWorkspaceAccess('read', workspaceParam()), async (req: any, res) => {
     try {
       const workspaceId = parseInt(req.params.id);
       const members = await storage.getWorkspaceMembers(workspaceId);
@@ -265,24 +583,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Helper function to check if user is workspace owner
-  async function isWorkspaceOwner(workspaceId: number, userId: string): Promise<boolean> {
-    const workspace = await storage.getWorkspaceById(workspaceId);
-    return workspace?.ownerId === userId;
-  }
-
-  app.post('/api/workspaces/:id/members', isAuthenticated, async (req: any, res) => {
+  app.post('/api/workspaces/:id/members', isAuthenticated, requireWorkspaceAccess('manage_members', workspaceParam()), async (req: any, res) => {
     try {
       const workspaceId = parseInt(req.params.id);
       const { memberType, email, name, alias, systemPrompt } = req.body;
       const userId = req.user.claims.sub;
       
-      // Check if user is workspace owner
-      const isOwner = await isWorkspaceOwner(workspaceId, userId);
-      if (!isOwner) {
-        return res.status(403).json({ message: "Only workspace owners can add members" });
-      }
-      
       if (memberType === 'agent') {
         // For AI agents, create directly as workspace member
         const memberData = {
@@ -319,7 +625,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
             inviterName: inviter.firstName && inviter.lastName 
               ? `${inviter.firstName} ${inviter.lastName}`
               : inviter.email || 'Team Member',
-            invitationLink: `${process.env.SITE_URL || `https://${req.hostname}`}/accept-invitation?token=${invitation.id}`,
+            invitationLink: `${appUrl(req)}/accept-invitation?token=${invitation.id}`,
           });
           
           res.json({ 
@@ -339,18 +645,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Remove workspace member
-  app.delete('/api/workspaces/:workspaceId/members/:memberId', isAuthenticated, async (req: any, res) => {
+  app.delete('/api/workspaces/:workspaceId/members/:memberId', isAuthenticated, requireWorkspaceAccess('manage_members', workspaceParam('workspaceId')), async (req: any, res) => {
     try {
       const workspaceId = parseInt(req.params.workspaceId);
       const memberId = parseInt(req.params.memberId);
       const userId = req.user.claims.sub;
       
-      // Check if user is workspace owner
-      const isOwner = await isWorkspaceOwner(workspaceId, userId);
-      if (!isOwner) {
-        return res.status(403).json({ message: "Only workspace owners can remove members" });
-      }
-      
       // Get the member to check if it's the owner trying to remove themselves
       const member = await storage.getWorkspaceMembers(workspaceId);
       const memberToRemove = member.find((m: any) => m.id === memberId);
@@ -359,12 +659,19 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "Member not found" });
       }
       
-      // Prevent owner from removing themselves
+      // Prevent admins from removing themselves
       if (memberToRemove.userId === userId) {
-        return res.status(400).json({ message: "Workspace owners cannot remove themselves" });
+        return res.status(400).json({ message: "You cannot remove yourself from the workspace" });
+      }
+      
+      // The workspace owner can't be removed by anyone
+      const workspace = await storage.getWorkspaceById(workspaceId);
+      if (workspace && memberToRemove.userId === workspace.ownerId) {
+        return res.status(403).json({ message: "The workspace owner cannot be removed" });
       }
       
       await storage.removeWorkspaceMember(memberId);
+      if (memberToRemove.userId) unsubscribeUser(memberToRemove.userId, workspaceId);
       res.json({ message: "Member removed successfully" });
     } catch (error) {
       console.error("Error removing workspace member:", error);
@@ -373,7 +680,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Invitation routes
-  app.get('/api/workspaces/:id/invitations', isAuthenticated, async (req: any, res) => {
+  app.get('/api/workspaces/:id/invitations', isAuthenticated, requireWorkspaceAccess('manage_members', workspaceParam()), async (req: any, res) => {
     try {
       const workspaceId = parseInt(req.params.id);
       const invitations = await storage.getWorkspaceInvitations(workspaceId);
@@ -453,7 +760,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Project routes
-  app.get('/api/workspaces/:id/projects', isAuthenticated, async (req: any, res) => {
+  app.get('/api/workspaces/:id/projects', isAuthenticated, requireWorkspaceAccess('read', workspaceParam()), async (req: any, res) => {
     try {
       const workspaceId = parseInt(req.params.id);
       const projects = await storage.getWorkspaceProjects(workspaceId);
@@ -464,7 +771,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post('/api/workspaces/:id/projects', isAuthenticated, async (req: any, res) => {
+  app.post('/api/workspaces/:id/projects', isAuthenticated, requireWorkspaceAccess('manage_projects', workspaceParam()), async (req: any, res) => {
     try {
       const workspaceId = parseInt(req.params.id);
       const projectData = insertProjectSchema.parse({
@@ -484,7 +791,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get('/api/projects/:id', isAuthenticated, async (req: any, res) => {
+  app.get('/api/projects/:id', isAuthenticated, requireWorkspaceAccess('read', projectParam()), async (req: any, res) => {
     try {
       const projectId = parseInt(req.params.id);
       const project = await storage.getProjectById(projectId);
@@ -500,10 +807,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.patch('/api/projects/:id', isAuthenticated, async (req: any, res) => {
+  app.patch('/api/projects/:id', isAuthenticated, requireWorkspaceAccess('manage_projects', projectParam()), async (req: any, res) => {
     try {
       const projectId = parseInt(req.params.id);
-      const updates = req.body;
+      const parsed = insertProjectSchema.omit({ workspaceId: true }).partial().safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid project", errors: parsed.error.flatten().fieldErrors });
+      }
+      const updates = parsed.data;
       
       const project = await storage.updateProject(projectId, updates);
       res.json(project);
@@ -514,7 +825,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Category routes
-  app.get('/api/workspaces/:id/categories', isAuthenticated, async (req: any, res) => {
+  app.get('/api/workspaces/:id/categories', isAuthenticated, requireWorkspaceAccess('read', workspaceParam()), async (req: any, res) => {
     try {
       const workspaceId = parseInt(req.params.id);
       const categories = await storage.getWorkspaceCategories(workspaceId);
@@ -525,7 +836,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post('/api/workspaces/:id/categories', isAuthenticated, async (req: any, res) => {
+  app.post('/api/workspaces/:id/categories', isAuthenticated, requireWorkspaceAccess('manage_projects', workspaceParam()), async (req: any, res) => {
     try {
       const workspaceId = parseInt(req.params.id);
       const categoryData = insertCategorySchema.parse({
@@ -541,10 +852,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.patch('/api/categories/:id', isAuthenticated, async (req: any, res) => {
+  app.patch('/api/categories/:id', isAuthenticated, requireWorkspaceAccess('manage_projects', categoryParam()), async (req: any, res) => {
     try {
       const categoryId = parseInt(req.params.id);
-      const updates = req.body;
+      const parsed = insertCategorySchema.omit({ workspaceId: true }).partial().safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid category", errors: parsed.error.flatten().fieldErrors });
+      }
+      const updates = parsed.data;
       
       const category = await storage.updateCategory(categoryId, updates);
       res.json(category);
@@ -555,31 +870,49 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Task routes
-  app.get('/api/workspaces/:id/tasks', isAuthenticated, async (req: any, res) => {
+  // Without query parameters this returns every task (array). Filters and sort narrow that list;
+  // passing `limit` switches to a page of the form { tasks, nextCursor }.
+  app.get('/api/workspaces/:id/tasks', isAuthenticated, requireWorkspaceAccess('read', workspaceParam()), async (req: any, res) => {
     try {
       const workspaceId = parseInt(req.params.id);
-      console.log(`Fetching tasks for workspace ${workspaceId}`);
-      const tasks = await storage.getWorkspaceTasks(workspaceId);
-      console.log(`Found ${tasks.length} tasks for workspace ${workspaceId}`);
-      console.log(`Sample task IDs: ${tasks.slice(0, 5).map(t => t.id).join(', ')}`);
-      console.log(`Response size: ${JSON.stringify(tasks).length} characters`);
-      
-      // Check for JSON serialization issues
-      try {
-        const serialized = JSON.stringify(tasks);
-        console.log(`JSON serialization successful: ${serialized.length} chars`);
-      } catch (jsonError) {
-        console.error('JSON serialization error:', jsonError);
+
+      if (Object.keys(req.query).length === 0) {
+        const tasks = await storage.getWorkspaceTasks(workspaceId);
+        return res.json(tasks);
       }
-      
-      res.json(tasks);
+
+      const parsedQuery = taskQuerySchema.safeParse(req.query);
+      if (!parsedQuery.success) {
+        return res.status(400).json({ message: "Invalid task query", errors: parsedQuery.error.flatten().fieldErrors });
+      }
+
+      const page = await storage.queryWorkspaceTasks(workspaceId, parsedQuery.data);
+      res.json(parsedQuery.data.limit ? page : page.tasks);
     } catch (error) {
+      if (error instanceof InvalidCursorError) {
+        return res.status(400).json({ message: error.message });
+      }
       console.error("Error fetching tasks:", error);
       res.status(500).json({ message: "Failed to fetch tasks" });
     }
   });
 
-  app.get('/api/workspaces/:id/tasks/due-today', isAuthenticated, async (req: any, res) => {
+  app.get('/api/workspaces/:id/tasks/progress', isAuthenticated, requireWorkspaceAccess('read', workspaceParam()), async (req: any, res) => {
+    try {
+      const workspaceId = parseInt(req.params.id);
+      const parsedQuery = taskFilterSchema.safeParse(req.query);
+      if (!parsedQuery.success) {
+        return res.status(400).json({ message: "Invalid task query", errors: parsedQuery.error.flatten().fieldErrors });
+      }
+      const progress = await storage.getWorkspaceTaskProgress(workspaceId, parsedQuery.data);
+      res.json(progress);
+    } catch (error) {
+      console.error("Error fetching task progress:", error);
+      res.status(500).json({ message: "Failed to fetch task progress" });
+    }
+  });
+
+  app.get('/api/workspaces/:id/tasks/due-today', isAuthenticated, requireWorkspaceAccess('read', workspaceParam()), async (req: any, res) => {
     try {
       const workspaceId = parseInt(req.params.id);
       const tasks = await storage.getDueTodayTasks(workspaceId);
@@ -590,52 +923,43 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post('/api/workspaces/:id/tasks', isAuthenticated, async (req: any, res) => {
+  app.post('/api/workspaces/:id/tasks', isAuthenticated, requireWorkspaceAccess('create', workspaceParam()), async (req: any, res) => {
     try {
       const workspaceId = parseInt(req.params.id);
+      const userId = req.user.claims.sub;
       const formData = req.body;
+      const foreignReference = await findForeignTaskReference(workspaceId, formData);
+      if (foreignReference) {
+        return res.status(400).json({ message: foreignReference });
+      }
       
       // Extract recurrence configuration
       const recurrenceConfig = createRecurrenceFromFormData(formData);
       
       if (recurrenceConfig && formData.dueDate) {
-        // Handle recurring task creation
-        const baseTaskData = {
+        // The recurrence row is the template; instances are generated from it a
+        // rolling window at a time (see recurrence-scheduler.ts)
+        const taskRecurrence = await storage.createTaskRecurrence({
+          workspaceId,
+          ...recurrenceColumnsFromRule(recurrenceConfig.rule),
+          recurrencePattern: recurrenceConfig.rule,
+          rrule: stringifyRRule(recurrenceConfig.rule),
+          exdates: recurrenceConfig.exdates,
+          startDate: formData.dueDate,
           title: formData.title,
           description: formData.description,
           projectId: formData.projectId,
           categoryId: formData.categoryId,
           assignedMemberId: formData.assignedMemberId,
           priority: formData.priority || 0,
-          status: formData.status || 'todo',
           timeSlot: formData.timeSlot,
-          workspaceId,
-        };
-        
-        // First create the task recurrence record
-        const taskRecurrence = await storage.createTaskRecurrence({
-          workspaceId,
-          recurrenceType: recurrenceConfig.type,
-          recurrencePattern: JSON.stringify(recurrenceConfig),
-          interval: recurrenceConfig.interval,
-          endType: recurrenceConfig.endType,
-          endCount: recurrenceConfig.endCount,
-          endDate: recurrenceConfig.endDate,
+          createdBy: userId,
         });
-        
-        // Generate recurring task instances
-        const startDate = parseISO(formData.dueDate);
-        const recurringTasks = generateRecurringTasks(baseTaskData, startDate, recurrenceConfig);
-        
-        // Create all task instances with recurrence reference
-        const createdTasks = [];
-        for (const taskData of recurringTasks) {
-          const taskWithRecurrence = insertTaskSchema.parse({
-            ...taskData,
-            taskRecurrenceId: taskRecurrence.id,
-          });
-          const task = await storage.createTask(taskWithRecurrence);
-          createdTasks.push(task);
+
+        const createdTasks = await storage.materializeRecurrenceInstances(taskRecurrence.id);
+        for (const task of createdTasks) {
+          broadcastToWorkspace({ type: 'task.created', workspaceId, payload: task });
+          emitWebhookEvent(workspaceId, 'task.created', { task });
         }
         
         res.json({ 
@@ -648,24 +972,83 @@ export async function registerRoutes(app: Express): Promise<Server> {
         const taskData = insertTaskSchema.parse({
           ...formData,
           workspaceId,
+          createdBy: userId,
         });
         
         const task = await storage.createTask(taskData);
+        broadcastToWorkspace({ type: 'task.created', workspaceId, payload: task });
+        emitWebhookEvent(workspaceId, 'task.created', { task });
         res.json(task);
       }
     } catch (error) {
+      if (error instanceof RRuleError) {
+        return res.status(400).json({ message: error.message });
+      }
       console.error("Error creating task:", error);
       res.status(500).json({ message: "Failed to create task" });
     }
   });
 
-  app.patch('/api/tasks/:id', isAuthenticated, async (req: any, res) => {
+  app.patch('/api/tasks/:id', isAuthenticated, requireWorkspaceAccess('edit', taskParam()), async (req: any, res) => {
     try {
       const taskId = parseInt(req.params.id);
-      const updates = req.body;
+      const { rrule, ...body } = req.body;
+      const parsed = insertTaskSchema
+        .omit({ workspaceId: true, createdBy: true, taskRecurrenceId: true, isRecurringInstance: true })
+        .extend({ startTime: z.coerce.date().nullable(), endTime: z.coerce.date().nullable() }) // sent as ISO strings
+        .partial()
+        .safeParse(body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid task", errors: parsed.error.flatten().fieldErrors });
+      }
+      const updates = parsed.data;
+      const scope = recurrenceScopeSchema.safeParse(req.query.scope);
+      if (!scope.success) {
+        return res.status(400).json({ message: "Invalid scope", errors: scope.error.flatten().formErrors });
+      }
       
       const originalTask = await storage.getTaskById(taskId);
-      const task = await storage.updateTask(taskId, updates);
+      const foreignReference = originalTask && await findForeignTaskReference(originalTask.workspaceId, updates);
+      if (foreignReference) {
+        return res.status(400).json({ message: foreignReference });
+      }
+      const seriesScope = originalTask?.taskRecurrenceId && scope.data !== 'this' ? scope.data : null;
+      if (rrule && !seriesScope) {
+        return res.status(400).json({ message: "The repeat rule can only be changed for following or all occurrences" });
+      }
+      
+      // Tasks can't start (or finish) while their dependencies are still open
+      if (originalTask && updates.status && updates.status !== originalTask.status) {
+        const dependencies = await storage.getTaskDependencies(taskId);
+        if (dependencies.length > 0) {
+          const workspaceTasks = await storage.getWorkspaceTasks(originalTask.workspaceId);
+          const reason = getBlockingReason(originalTask, updates.status, dependencies, new Map(workspaceTasks.map(t => [t.id, t])));
+          if (reason) {
+            return res.status(409).json({ message: reason, blocked: true });
+          }
+        }
+      }
+      
+      let task: Task;
+      if (originalTask && seriesScope) {
+        const changes = await editRecurringTask(originalTask, seriesScope, updates, rrule ? parseRRule(String(rrule)) : null);
+        task = changes.task!;
+        broadcastSeriesChanges(task.workspaceId, changes);
+      } else {
+        // Editing just this occurrence turns it into an exception to the series
+        if (originalTask?.taskRecurrenceId && divergesFromSeries(originalTask, updates)) {
+          updates.isRecurrenceException = true;
+        }
+        task = await storage.updateTask(taskId, updates);
+      }
+      broadcastToWorkspace({ type: 'task.updated', workspaceId: task.workspaceId, payload: task });
+      emitWebhookEvent(task.workspaceId, 'task.updated', { task });
+      if (originalTask && updates.status && updates.status !== originalTask.status) {
+        emitWebhookEvent(task.workspaceId, 'task.status_changed', { task, from: originalTask.status, to: updates.status });
+        if (updates.status === 'completed') {
+          emitWebhookEvent(task.workspaceId, 'task.completed', { task });
+        }
+      }
       
       // Handle notifications for task updates
       if (originalTask) {
@@ -674,19 +1057,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
           const member = await storage.getWorkspaceMembers(originalTask.workspaceId);
           const assignedMember = member.find(m => m.id === updates.assignedMemberId);
           if (assignedMember && assignedMember.userId) {
-            const assignedUser = await storage.getUser(assignedMember.userId);
-            if (assignedUser) {
-              await createTaskNotification({
-                type: 'task_assigned',
-                userId: assignedMember.userId,
-                workspaceId: originalTask.workspaceId,
-                taskId: taskId,
-                title: 'New Task Assigned',
-                message: `You have been assigned to task: ${task.title}`,
-                assignedUser,
-                task
-              });
-            }
+            await createTaskNotification({
+              type: 'task_assigned',
+              userId: assignedMember.userId,
+              workspaceId: originalTask.workspaceId,
+              taskId: taskId,
+              title: 'New Task Assigned',
+              message: `You have been assigned to task: ${task.title}`,
+              task,
+              actorName: req.user.firstName || undefined
+            });
           }
         }
         
@@ -708,14 +1088,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
           if (originalTask.assignedMemberId) {
             const members = await storage.getWorkspaceMembers(originalTask.workspaceId);
             const assignedMember = members.find(m => m.id === originalTask.assignedMemberId);
-            if (assignedMember && assignedMember.userId && assignedMember.userId !== req.user.id) {
+            if (assignedMember && assignedMember.userId && assignedMember.userId !== req.user.claims.sub) {
               usersToNotify.add(assignedMember.userId);
             }
           }
           
           // Also notify workspace owner/admin for oversight
           const workspace = await storage.getWorkspaceById(originalTask.workspaceId);
-          if (workspace && workspace.ownerId && workspace.ownerId !== req.user.id) {
+          if (workspace && workspace.ownerId && workspace.ownerId !== req.user.claims.sub) {
             usersToNotify.add(workspace.ownerId);
           }
           
@@ -723,7 +1103,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
           if (updates.status === 'completed' && originalTask.projectId) {
             const involvedUsers = await getProjectInvolvedUsers(originalTask.projectId, originalTask.workspaceId);
             for (const { member } of involvedUsers) {
-              if (member.userId && member.userId !== req.user.id) {
+              if (member.userId && member.userId !== req.user.claims.sub) {
                 usersToNotify.add(member.userId);
               }
             }
@@ -731,38 +1111,54 @@ export async function registerRoutes(app: Express): Promise<Server> {
           
           // Send notifications to all relevant users
           for (const userId of Array.from(usersToNotify)) {
-            const user = await storage.getUser(userId);
-            if (user) {
-              await createTaskNotification({
-                type: updates.status === 'completed' ? 'task_completed' : 'task_status_changed',
-                userId: userId,
-                workspaceId: originalTask.workspaceId,
-                taskId: taskId,
-                title: `Task Status Changed`,
-                message: `${req.user.firstName || 'Someone'} ${statusMessage} task: "${task.title}"`,
-                assignedUser: user,
-                task,
-                statusChange: {
-                  from: originalTask.status || 'todo',
-                  to: updates.status
-                }
-              });
-            }
+            await createTaskNotification({
+              type: updates.status === 'completed' ? 'task_completed' : 'task_status_changed',
+              userId: userId,
+              workspaceId: originalTask.workspaceId,
+              taskId: taskId,
+              title: `Task Status Changed`,
+              message: `${req.user.firstName || 'Someone'} ${statusMessage} task: "${task.title}"`,
+              task,
+              actorName: req.user.firstName || undefined,
+              statusChange: {
+                from: originalTask.status || 'todo',
+                to: updates.status
+              }
+            });
           }
         }
       }
       
       res.json(task);
     } catch (error) {
+      if (error instanceof RRuleError) {
+        return res.status(400).json({ message: error.message });
+      }
       console.error("Error updating task:", error);
       res.status(500).json({ message: "Failed to update task" });
     }
   });
 
-  app.delete('/api/tasks/:id', isAuthenticated, async (req: any, res) => {
+  app.delete('/api/tasks/:id', isAuthenticated, requireWorkspaceAccess('edit', taskParam()), async (req: any, res) => {
     try {
       const taskId = parseInt(req.params.id);
+      const scope = recurrenceScopeSchema.safeParse(req.query.scope);
+      if (!scope.success) {
+        return res.status(400).json({ message: "Invalid scope", errors: scope.error.flatten().formErrors });
+      }
+
+      const task = await storage.getTaskById(taskId);
+      if (task?.taskRecurrenceId) {
+        const changes = await deleteRecurringTask(task, scope.data);
+        broadcastSeriesChanges(task.workspaceId, changes);
+        return res.json({ message: "Task deleted successfully", deletedTaskIds: changes.deletedIds });
+      }
+
       await storage.deleteTask(taskId);
+      if (task) {
+        broadcastToWorkspace({ type: 'task.deleted', workspaceId: task.workspaceId, payload: { id: taskId } });
+        emitWebhookEvent(task.workspaceId, 'task.deleted', { id: taskId });
+      }
       res.json({ message: "Task deleted successfully" });
     } catch (error) {
       console.error("Error deleting task:", error);
@@ -770,169 +1166,627 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Task recurrence routes
-  app.get('/api/workspaces/:id/task-recurrences', isAuthenticated, async (req: any, res) => {
+  // Subtask routes
+  app.get('/api/workspaces/:id/subtask-progress', isAuthenticated, requireWorkspaceAccess('read', workspaceParam()), async (req: any, res) => {
     try {
       const workspaceId = parseInt(req.params.id);
-      const recurrences = await storage.getWorkspaceTaskRecurrences(workspaceId);
-      res.json(recurrences);
+      const progress = await storage.getWorkspaceSubtaskProgress(workspaceId);
+      res.json(progress);
     } catch (error) {
-      console.error("Error fetching task recurrences:", error);
-      res.status(500).json({ message: "Failed to fetch task recurrences" });
+      console.error("Error fetching subtask progress:", error);
+      res.status(500).json({ message: "Failed to fetch subtask progress" });
     }
   });
 
-  app.get('/api/task-recurrences/:id', isAuthenticated, async (req: any, res) => {
+  app.get('/api/tasks/:id/subtasks', isAuthenticated, requireWorkspaceAccess('read', taskParam()), async (req: any, res) => {
     try {
-      const recurrenceId = parseInt(req.params.id);
-      const recurrence = await storage.getTaskRecurrenceById(recurrenceId);
-      
-      if (!recurrence) {
-        return res.status(404).json({ message: "Task recurrence not found" });
-      }
-      
-      res.json(recurrence);
+      const taskId = parseInt(req.params.id);
+      const items = await storage.getTaskSubtasks(taskId);
+      res.json(items);
     } catch (error) {
-      console.error("Error fetching task recurrence:", error);
-      res.status(500).json({ message: "Failed to fetch task recurrence" });
+      console.error("Error fetching subtasks:", error);
+      res.status(500).json({ message: "Failed to fetch subtasks" });
     }
   });
 
-  app.patch('/api/task-recurrences/:id', isAuthenticated, async (req: any, res) => {
+  app.post('/api/tasks/:id/subtasks', isAuthenticated, requireWorkspaceAccess('edit', taskParam()), async (req: any, res) => {
     try {
-      const recurrenceId = parseInt(req.params.id);
-      const updates = req.body;
-      
-      const recurrence = await storage.updateTaskRecurrence(recurrenceId, updates);
-      res.json(recurrence);
+      const taskId = parseInt(req.params.id);
+      const workspaceId = req.workspaceAccess.workspaceId;
+      const subtaskData = insertSubtaskSchema.parse({
+        title: req.body.title,
+        status: req.body.status,
+        assignedMemberId: req.body.assignedMemberId,
+        taskId,
+        workspaceId,
+      });
+
+      const subtask = await storage.createSubtask(subtaskData);
+      broadcastToWorkspace({ type: 'subtask.changed', workspaceId, payload: { taskId } });
+      res.json(subtask);
     } catch (error) {
-      console.error("Error updating task recurrence:", error);
-      res.status(500).json({ message: "Failed to update task recurrence" });
+      console.error("Error creating subtask:", error);
+      res.status(400).json({ message: "Failed to create subtask" });
     }
   });
 
-  app.delete('/api/task-recurrences/:id', isAuthenticated, async (req: any, res) => {
+  // Body: { subtaskIds: number[] } in the new order
+  app.put('/api/tasks/:id/subtasks/order', isAuthenticated, requireWorkspaceAccess('edit', taskParam()), async (req: any, res) => {
     try {
-      const recurrenceId = parseInt(req.params.id);
-      const today = new Date().toISOString().split('T')[0];
-      
-      // Find all tasks associated with this recurrence
-      const allTasks = await storage.getTasksByRecurrenceId(recurrenceId);
-      
-      // Filter to only delete current and future tasks (not past ones)
-      const tasksToDelete = allTasks.filter(task => 
-        !task.dueDate || task.dueDate >= today
-      );
-      
-      // Delete only current and future task instances
-      for (const task of tasksToDelete) {
-        await storage.deleteTask(task.id);
+      const taskId = parseInt(req.params.id);
+      const { subtaskIds } = req.body;
+
+      if (!Array.isArray(subtaskIds)) {
+        return res.status(400).json({ message: "subtaskIds must be an array" });
       }
-      
-      // Delete the recurrence record
-      await storage.deleteTaskRecurrence(recurrenceId);
-      
-      res.json({ 
-        message: `Task recurrence and ${tasksToDelete.length} future tasks deleted successfully`,
-        deletedTasksCount: tasksToDelete.length,
-        totalTasksInSeries: allTasks.length
-      });
+
+      const items = await storage.reorderSubtasks(taskId, subtaskIds.map(Number));
+      broadcastToWorkspace({ type: 'subtask.changed', workspaceId: req.workspaceAccess.workspaceId, payload: { taskId } });
+      res.json(items);
     } catch (error) {
-      console.error("Error deleting task recurrence:", error);
-      res.status(500).json({ message: "Failed to delete task recurrence" });
+      console.error("Error reordering subtasks:", error);
+      res.status(500).json({ message: "Failed to reorder subtasks" });
     }
   });
 
-  // Project pages routes
-  app.get('/api/projects/:id/pages', isAuthenticated, async (req: any, res) => {
+  app.patch('/api/subtasks/:id', isAuthenticated, requireWorkspaceAccess('edit', subtaskParam()), async (req: any, res) => {
     try {
-      const projectId = parseInt(req.params.id);
-      const pages = await storage.getProjectPages(projectId);
-      res.json(pages);
+      const subtaskId = parseInt(req.params.id);
+      const updates = insertSubtaskSchema
+        .pick({ title: true, status: true, assignedMemberId: true })
+        .partial()
+        .parse(req.body);
+
+      const subtask = await storage.updateSubtask(subtaskId, updates);
+      broadcastToWorkspace({ type: 'subtask.changed', workspaceId: subtask.workspaceId, payload: { taskId: subtask.taskId } });
+      res.json(subtask);
     } catch (error) {
-      console.error("Error fetching project pages:", error);
-      res.status(500).json({ message: "Failed to fetch project pages" });
+      console.error("Error updating subtask:", error);
+      res.status(400).json({ message: "Failed to update subtask" });
     }
   });
 
-  app.post('/api/projects/:id/pages', isAuthenticated, async (req: any, res) => {
+  app.delete('/api/subtasks/:id', isAuthenticated, requireWorkspaceAccess('edit', subtaskParam()), async (req: any, res) => {
     try {
-      const projectId = parseInt(req.params.id);
-      const pageData = insertProjectPageSchema.parse({
-        ...req.body,
-        projectId,
-      });
-      
-      const page = await storage.createProjectPage(pageData);
-      res.json(page);
+      const subtaskId = parseInt(req.params.id);
+      const subtask = await storage.getSubtaskById(subtaskId);
+      await storage.deleteSubtask(subtaskId);
+      if (subtask) {
+        broadcastToWorkspace({ type: 'subtask.changed', workspaceId: subtask.workspaceId, payload: { taskId: subtask.taskId } });
+      }
+      res.json({ message: "Subtask deleted successfully" });
     } catch (error) {
-      console.error("Error creating project page:", error);
-      res.status(500).json({ message: "Failed to create project page" });
+      console.error("Error deleting subtask:", error);
+      res.status(500).json({ message: "Failed to delete subtask" });
     }
   });
 
-  // Brain dump routes
-  app.get('/api/workspaces/:id/brain-dump', isAuthenticated, async (req: any, res) => {
+  // Time tracking routes
+  app.get('/api/tasks/:id/time-entries', isAuthenticated, requireWorkspaceAccess('read', taskParam()), async (req: any, res) => {
     try {
-      const workspaceId = parseInt(req.params.id);
-      const userId = req.user.claims.sub;
-      const items = await storage.getUserBrainDumpItems(workspaceId, userId);
-      res.json(items);
+      const taskId = parseInt(req.params.id);
+      const entries = await storage.getTaskTimeEntries(taskId);
+      res.json(entries);
     } catch (error) {
-      console.error("Error fetching brain dump items:", error);
-      res.status(500).json({ message: "Failed to fetch brain dump items" });
+      console.error("Error fetching time entries:", error);
+      res.status(500).json({ message: "Failed to fetch time entries" });
     }
   });
 
-  app.post('/api/workspaces/:id/brain-dump', isAuthenticated, async (req: any, res) => {
+  // Log time by hand. Body: { minutes, date?, note? }
+  app.post('/api/tasks/:id/time-entries', isAuthenticated, requireWorkspaceAccess('create', taskParam()), async (req: any, res) => {
     try {
-      const workspaceId = parseInt(req.params.id);
-      const userId = req.user.claims.sub;
-      const itemData = insertBrainDumpItemSchema.parse({
-        ...req.body,
+      const taskId = parseInt(req.params.id);
+      const workspaceId = req.workspaceAccess.workspaceId;
+      const { minutes, date, note } = manualTimeEntrySchema.parse(req.body);
+
+      const startedAt = date ? new Date(`${date}T09:00:00`) : new Date(Date.now() - minutes * 60000);
+      const entry = await storage.createTimeEntry({
         workspaceId,
-        userId,
+        taskId,
+        userId: req.user.claims.sub,
+        source: 'manual',
+        startedAt,
+        endedAt: new Date(startedAt.getTime() + minutes * 60000),
+        durationMinutes: minutes,
+        note: note || null,
       });
-      
-      const item = await storage.createBrainDumpItem(itemData);
-      res.json(item);
+
+      await publishTimeEntryChanges(workspaceId, [taskId]);
+      res.json(entry);
     } catch (error) {
-      console.error("Error creating brain dump item:", error);
-      res.status(500).json({ message: "Failed to create brain dump item" });
+      console.error("Error logging time:", error);
+      res.status(400).json({ message: "Failed to log time" });
     }
   });
 
-  app.delete('/api/brain-dump/:id', isAuthenticated, async (req: any, res) => {
+  app.post('/api/tasks/:id/timer/start', isAuthenticated, requireWorkspaceAccess('create', taskParam()), async (req: any, res) => {
     try {
-      const itemId = parseInt(req.params.id);
-      await storage.deleteBrainDumpItem(itemId);
-      res.json({ message: "Brain dump item deleted successfully" });
+      const taskId = parseInt(req.params.id);
+      const workspaceId = req.workspaceAccess.workspaceId;
+      const { entry, stopped } = await storage.startTimer(workspaceId, taskId, req.user.claims.sub);
+
+      // The previous timer may have been running in another workspace
+      for (const stoppedEntry of stopped) {
+        await publishTimeEntryChanges(stoppedEntry.workspaceId, [stoppedEntry.taskId]);
+      }
+      broadcastToWorkspace({ type: 'time_entry.changed', workspaceId, payload: { taskId } });
+      res.json(entry);
     } catch (error) {
-      console.error("Error deleting brain dump item:", error);
-      res.status(500).json({ message: "Failed to delete brain dump item" });
+      console.error("Error starting timer:", error);
+      res.status(500).json({ message: "Failed to start timer" });
     }
   });
 
-  app.delete('/api/workspaces/:id/brain-dump', isAuthenticated, async (req: any, res) => {
+  // The caller's running timer in this workspace, or null
+  app.get('/api/workspaces/:id/timer', isAuthenticated, requireWorkspaceAccess('read', workspaceParam()), async (req: any, res) => {
     try {
       const workspaceId = parseInt(req.params.id);
-      const userId = req.user.claims.sub;
-      await storage.clearUserBrainDump(workspaceId, userId);
-      res.json({ message: "Brain dump cleared successfully" });
+      const entry = await storage.getRunningTimeEntry(req.user.claims.sub);
+      res.json(entry && entry.workspaceId === workspaceId ? entry : null);
     } catch (error) {
-      console.error("Error clearing brain dump:", error);
-      res.status(500).json({ message: "Failed to clear brain dump" });
+      console.error("Error fetching running timer:", error);
+      res.status(500).json({ message: "Failed to fetch running timer" });
     }
   });
 
-
-
+  app.post('/api/time-entries/:id/stop', isAuthenticated, requireWorkspaceAccess('edit', timeEntryParam()), async (req: any, res) => {
+    try {
+      const entry = await storage.stopTimeEntry(parseInt(req.params.id));
+      await publishTimeEntryChanges(entry.workspaceId, [entry.taskId]);
+      res.json(entry);
+    } catch (error) {
+      console.error("Error stopping timer:", error);
+      res.status(500).json({ message: "Failed to stop timer" });
+    }
+  });
+
+  app.patch('/api/time-entries/:id', isAuthenticated, requireWorkspaceAccess('edit', timeEntryParam()), async (req: any, res) => {
+    try {
+      const entryId = parseInt(req.params.id);
+      const existing = await storage.getTimeEntryById(entryId);
+      const updates = insertTimeEntrySchema
+        .pick({ durationMinutes: true, note: true })
+        .partial()
+        .parse(req.body);
+
+      // A running timer's duration is set when it stops
+      if (updates.durationMinutes !== undefined && !existing?.endedAt) {
+        return res.status(400).json({ message: "Stop the timer before changing its duration" });
+      }
+      if (updates.durationMinutes && existing) {
+        Object.assign(updates, { endedAt: new Date(existing.startedAt.getTime() + updates.durationMinutes * 60000) });
+      }
+
+      const entry = await storage.updateTimeEntry(entryId, updates);
+      await publishTimeEntryChanges(entry.workspaceId, [entry.taskId]);
+      res.json(entry);
+    } catch (error) {
+      console.error("Error updating time entry:", error);
+      res.status(400).json({ message: "Failed to update time entry" });
+    }
+  });
+
+  app.delete('/api/time-entries/:id', isAuthenticated, requireWorkspaceAccess('edit', timeEntryParam()), async (req: any, res) => {
+    try {
+      const entryId = parseInt(req.params.id);
+      const entry = await storage.getTimeEntryById(entryId);
+      await storage.deleteTimeEntry(entryId);
+      if (entry) {
+        await publishTimeEntryChanges(entry.workspaceId, [entry.taskId]);
+      }
+      res.json({ message: "Time entry deleted successfully" });
+    } catch (error) {
+      console.error("Error deleting time entry:", error);
+      res.status(500).json({ message: "Failed to delete time entry" });
+    }
+  });
+
+  // Timesheet report: hours per member and per project over a date range.
+  // Only roles that manage finances see everyone's time; others get their own.
+  const parseTimesheetQuery = (req: any) => {
+    const parsedQuery = timesheetQuerySchema.safeParse(req.query);
+    if (parsedQuery.success && !rolePermissions[req.workspaceAccess.role as keyof typeof rolePermissions].manageFinances) {
+      parsedQuery.data.userId = req.user.claims.sub;
+    }
+    return parsedQuery;
+  };
+
+  app.get('/api/workspaces/:id/timesheet', isAuthenticated, requireWorkspaceAccess('read', workspaceParam()), async (req: any, res) => {
+    try {
+      const workspaceId = parseInt(req.params.id);
+      const parsedQuery = parseTimesheetQuery(req);
+      if (!parsedQuery.success) {
+        return res.status(400).json({ message: "Invalid timesheet query", errors: parsedQuery.error.flatten().fieldErrors });
+      }
+
+      const timesheet = await storage.getTimesheet(workspaceId, parsedQuery.data);
+      res.json(timesheet);
+    } catch (error) {
+      console.error("Error fetching timesheet:", error);
+      res.status(500).json({ message: "Failed to fetch timesheet" });
+    }
+  });
+
+  // One row per time entry, for payroll. ?format=csv (default) or json
+  app.get('/api/workspaces/:id/timesheet/export', isAuthenticated, requireWorkspaceAccess('read', workspaceParam()), async (req: any, res) => {
+    try {
+      const workspaceId = parseInt(req.params.id);
+      const parsedQuery = parseTimesheetQuery(req);
+      if (!parsedQuery.success) {
+        return res.status(400).json({ message: "Invalid timesheet query", errors: parsedQuery.error.flatten().fieldErrors });
+      }
+
+      const query = parsedQuery.data;
+      const { entries } = await storage.getTimesheet(workspaceId, query);
+      const filename = `timesheet-${query.from}-to-${query.to}`;
+
+      if (req.query.format === 'json') {
+        res.setHeader('Content-Disposition', `attachment; filename="${filename}.json"`);
+        return res.json(entries);
+      }
+
+      const csv = toCsv(
+        ['Date', 'Member', 'Project', 'Task', 'Hours', 'Note'],
+        entries.map(entry => [entry.date, entry.userName, entry.projectName, entry.taskTitle, entry.hours.toFixed(2), entry.note])
+      );
+      res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+      res.setHeader('Content-Disposition', `attachment; filename="${filename}.csv"`);
+      res.send(csv);
+    } catch (error) {
+      console.error("Error exporting timesheet:", error);
+      res.status(500).json({ message: "Failed to export timesheet" });
+    }
+  });
+
+  // Task dependency routes
+  app.get('/api/workspaces/:id/task-dependencies', isAuthenticated, requireWorkspaceAccess('read', workspaceParam()), async (req: any, res) => {
+    try {
+      const workspaceId = parseInt(req.params.id);
+      const dependencies = await storage.getWorkspaceTaskDependencies(workspaceId);
+      res.json(dependencies);
+    } catch (error) {
+      console.error("Error fetching task dependencies:", error);
+      res.status(500).json({ message: "Failed to fetch task dependencies" });
+    }
+  });
+
+  app.get('/api/tasks/:id/dependencies', isAuthenticated, requireWorkspaceAccess('read', taskParam()), async (req: any, res) => {
+    try {
+      const taskId = parseInt(req.params.id);
+      const dependencies = await storage.getTaskDependencies(taskId);
+      res.json(dependencies);
+    } catch (error) {
+      console.error("Error fetching task dependencies:", error);
+      res.status(500).json({ message: "Failed to fetch task dependencies" });
+    }
+  });
+
+  // The task in the URL is the successor: it waits on predecessorTaskId
+  app.post('/api/tasks/:id/dependencies', isAuthenticated, requireWorkspaceAccess('edit', taskParam()), async (req: any, res) => {
+    try {
+      const successorTaskId = parseInt(req.params.id);
+      const workspaceId = req.workspaceAccess.workspaceId;
+      const dependencyData = insertTaskDependencySchema.parse({
+        workspaceId,
+        successorTaskId,
+        predecessorTaskId: parseInt(req.body.predecessorTaskId),
+        type: req.body.type || 'finish_to_start',
+      });
+
+      const predecessor = await storage.getTaskById(dependencyData.predecessorTaskId);
+      if (!predecessor || predecessor.workspaceId !== workspaceId) {
+        return res.status(400).json({ message: "Blocking task must be in the same workspace" });
+      }
+
+      const existing = await storage.getWorkspaceTaskDependencies(workspaceId);
+      if (existing.some(d => d.predecessorTaskId === dependencyData.predecessorTaskId && d.successorTaskId === successorTaskId)) {
+        return res.status(409).json({ message: "This dependency already exists" });
+      }
+      if (wouldCreateCycle(existing, dependencyData.predecessorTaskId, successorTaskId)) {
+        return res.status(409).json({ message: "This dependency would create a cycle" });
+      }
+
+      const dependency = await storage.createTaskDependency(dependencyData);
+      broadcastToWorkspace({ type: 'dependency.created', workspaceId, payload: dependency });
+      res.json(dependency);
+    } catch (error) {
+      console.error("Error creating task dependency:", error);
+      res.status(400).json({ message: "Failed to create task dependency" });
+    }
+  });
+
+  app.delete('/api/task-dependencies/:id', isAuthenticated, requireWorkspaceAccess('edit', taskDependencyParam()), async (req: any, res) => {
+    try {
+      const dependencyId = parseInt(req.params.id);
+      await storage.deleteTaskDependency(dependencyId);
+      broadcastToWorkspace({ type: 'dependency.deleted', workspaceId: req.workspaceAccess.workspaceId, payload: { id: dependencyId } });
+      res.json({ message: "Task dependency deleted successfully" });
+    } catch (error) {
+      console.error("Error deleting task dependency:", error);
+      res.status(500).json({ message: "Failed to delete task dependency" });
+    }
+  });
+
+  // Task recurrence routes
+  app.get('/api/workspaces/:id/task-recurrences', isAuthenticated, requireWorkspaceAccess('read', workspaceParam()), async (req: any, res) => {
+    try {
+      const workspaceId = parseInt(req.params.id);
+      const recurrences = await storage.getWorkspaceTaskRecurrences(workspaceId);
+      res.json(recurrences);
+    } catch (error) {
+      console.error("Error fetching task recurrences:", error);
+      res.status(500).json({ message: "Failed to fetch task recurrences" });
+    }
+  });
+
+  app.get('/api/task-recurrences/:id', isAuthenticated, requireWorkspaceAccess('read', taskRecurrenceParam()), async (req: any, res) => {
+    try {
+      const recurrenceId = parseInt(req.params.id);
+      const recurrence = await storage.getTaskRecurrenceById(recurrenceId);
+      
+      if (!recurrence) {
+        return res.status(404).json({ message: "Task recurrence not found" });
+      }
+      
+      res.json(recurrence);
+    } catch (error) {
+      console.error("Error fetching task recurrence:", error);
+      res.status(500).json({ message: "Failed to fetch task recurrence" });
+    }
+  });
+
+  app.patch('/api/task-recurrences/:id', isAuthenticated, requireWorkspaceAccess('edit', taskRecurrenceParam()), async (req: any, res) => {
+    try {
+      const recurrenceId = parseInt(req.params.id);
+      const parsed = insertTaskRecurrenceSchema
+        .omit({ workspaceId: true, createdBy: true, generatedUntil: true })
+        .partial()
+        .safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid task recurrence", errors: parsed.error.flatten().fieldErrors });
+      }
+      const updates = parsed.data;
+      const foreignReference = await findForeignTaskReference(req.workspaceAccess.workspaceId, updates);
+      if (foreignReference) {
+        return res.status(400).json({ message: foreignReference });
+      }
+
+      // Keep the stored rule normalized and the descriptive columns in step with it
+      if (updates.rrule) {
+        const rule = parseRRule(String(updates.rrule));
+        Object.assign(updates, recurrenceColumnsFromRule(rule), { rrule: stringifyRRule(rule), recurrencePattern: rule });
+      }
+      if (updates.exdates !== undefined) {
+        const exdates = updates.exdates;
+        if (!Array.isArray(exdates) || exdates.some(date => typeof date !== 'string' || !isValidDate(date))) {
+          return res.status(400).json({ message: "exdates must be a list of yyyy-MM-dd dates" });
+        }
+      }
+      
+      const recurrence = await storage.updateTaskRecurrence(recurrenceId, updates);
+
+      // Bring upcoming instances in line with the new schedule
+      if ((updates.rrule || updates.exdates !== undefined || updates.startDate) && recurrence.startDate) {
+        const changes = await reconcileSeries(recurrence, new Date().toISOString().split('T')[0]);
+        broadcastSeriesChanges(recurrence.workspaceId, { task: null, updated: [], ...changes });
+      }
+      res.json(recurrence);
+    } catch (error) {
+      if (error instanceof RRuleError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error("Error updating task recurrence:", error);
+      res.status(500).json({ message: "Failed to update task recurrence" });
+    }
+  });
+
+  app.delete('/api/task-recurrences/:id', isAuthenticated, requireWorkspaceAccess('edit', taskRecurrenceParam()), async (req: any, res) => {
+    try {
+      const recurrenceId = parseInt(req.params.id);
+      const today = new Date().toISOString().split('T')[0];
+      
+      // Find all tasks associated with this recurrence
+      const allTasks = await storage.getTasksByRecurrenceId(recurrenceId);
+      
+      // Filter to only delete current and future tasks (not past ones)
+      const tasksToDelete = allTasks.filter(task => 
+        !task.dueDate || task.dueDate >= today
+      );
+      
+      // Delete only current and future task instances
+      for (const task of tasksToDelete) {
+        await storage.deleteTask(task.id);
+        broadcastToWorkspace({ type: 'task.deleted', workspaceId: task.workspaceId, payload: { id: task.id } });
+      }
+      
+      // Past instances stay as ordinary tasks
+      await storage.deleteRecurringTaskInstances(recurrenceId);
+      await storage.deleteTaskRecurrence(recurrenceId);
+      
+      res.json({ 
+        message: `Task recurrence and ${tasksToDelete.length} future tasks deleted successfully`,
+        deletedTasksCount: tasksToDelete.length,
+        totalTasksInSeries: allTasks.length
+      });
+    } catch (error) {
+      console.error("Error deleting task recurrence:", error);
+      res.status(500).json({ message: "Failed to delete task recurrence" });
+    }
+  });
+
+  // Calendar feed routes. The feed itself is fetched by calendar apps, which can't log
+  // in, so it's authorized by its token and the owner's current workspace access.
+  app.get('/api/calendar/:token.ics', async (req: any, res) => {
+    try {
+      const feed = /^[a-f0-9]{64}$/.test(req.params.token) ? await storage.getCalendarFeedByToken(req.params.token) : undefined;
+      const access = feed ? await getWorkspaceAccess(feed.workspaceId, feed.userId) : null;
+      const workspace = feed && access ? await storage.getWorkspaceById(feed.workspaceId) : undefined;
+      if (!feed || !workspace) {
+        return res.status(404).json({ message: "Calendar feed not found" });
+      }
+
+      const parsed = calendarQuerySchema.safeParse(req.query);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid calendar filters", errors: parsed.error.flatten().fieldErrors });
+      }
+
+      const { tasks, series, component } = await loadCalendar(feed.workspaceId, parsed.data, access!.memberId);
+      await storage.markCalendarFeedAccessed(feed.id);
+
+      res.setHeader('Content-Type', 'text/calendar; charset=utf-8');
+      res.setHeader('Cache-Control', 'private, max-age=300');
+      res.send(buildCalendar(tasks, series, { name: `${workspace.name} tasks`, component, host: req.hostname }));
+    } catch (error) {
+      console.error("Error building calendar feed:", error);
+      res.status(500).json({ message: "Failed to build calendar feed" });
+    }
+  });
+
+  app.get('/api/workspaces/:id/calendar-feed', isAuthenticated, requireWorkspaceAccess('read', workspaceParam()), async (req: any, res) => {
+    try {
+      const feed = await storage.getCalendarFeed(req.workspaceAccess.workspaceId, req.user.claims.sub);
+      res.json({ feed: feed ? calendarFeedResponse(req, feed) : null });
+    } catch (error) {
+      console.error("Error fetching calendar feed:", error);
+      res.status(500).json({ message: "Failed to fetch calendar feed" });
+    }
+  });
+
+  // Creates the caller's feed URL, or replaces it if it has leaked
+  app.post('/api/workspaces/:id/calendar-feed', isAuthenticated, requireWorkspaceAccess('read', workspaceParam()), async (req: any, res) => {
+    try {
+      const feed = await storage.rotateCalendarFeed(req.workspaceAccess.workspaceId, req.user.claims.sub);
+      res.status(201).json({ feed: calendarFeedResponse(req, feed) });
+    } catch (error) {
+      console.error("Error creating calendar feed:", error);
+      res.status(500).json({ message: "Failed to create calendar feed" });
+    }
+  });
+
+  app.delete('/api/workspaces/:id/calendar-feed', isAuthenticated, requireWorkspaceAccess('read', workspaceParam()), async (req: any, res) => {
+    try {
+      await storage.deleteCalendarFeed(req.workspaceAccess.workspaceId, req.user.claims.sub);
+      res.json({ message: "Calendar feed revoked" });
+    } catch (error) {
+      console.error("Error revoking calendar feed:", error);
+      res.status(500).json({ message: "Failed to revoke calendar feed" });
+    }
+  });
+
+  // One-off download of a project or a filtered task view
+  app.get('/api/workspaces/:id/tasks.ics', isAuthenticated, requireWorkspaceAccess('read', workspaceParam()), async (req: any, res) => {
+    try {
+      const parsed = calendarQuerySchema.safeParse(req.query);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid calendar filters", errors: parsed.error.flatten().fieldErrors });
+      }
+
+      const workspace = await storage.getWorkspaceById(req.workspaceAccess.workspaceId);
+      const { tasks, series, component } = await loadCalendar(req.workspaceAccess.workspaceId, parsed.data, req.workspaceAccess.memberId);
+      const projectIds = parsed.data.projectId ?? [];
+      const project = projectIds.length === 1 ? await storage.getProjectById(projectIds[0]) : undefined;
+      const name = project && project.workspaceId === workspace?.id ? project.name : `${workspace?.name ?? 'Workspace'} tasks`;
+      const filename = name.replace(/[^A-Za-z0-9._-]+/g, '-').replace(/^-+|-+$/g, '') || 'tasks';
+
+      res.setHeader('Content-Type', 'text/calendar; charset=utf-8');
+      res.setHeader('Content-Disposition', `attachment; filename="${filename}.ics"`);
+      res.send(buildCalendar(tasks, series, { name, component, host: req.hostname }));
+    } catch (error) {
+      console.error("Error exporting calendar:", error);
+      res.status(500).json({ message: "Failed to export calendar" });
+    }
+  });
+
+  // Project pages routes
+  app.get('/api/projects/:id/pages', isAuthenticated, requireWorkspaceAccess('read', projectParam()), async (req: any, res) => {
+    try {
+      const projectId = parseInt(req.params.id);
+      const pages = await storage.getProjectPages(projectId);
+      res.json(pages);
+    } catch (error) {
+      console.error("Error fetching project pages:", error);
+      res.status(500).json({ message: "Failed to fetch project pages" });
+    }
+  });
+
+  app.post('/api/projects/:id/pages', isAuthenticated, requireWorkspaceAccess('create', projectParam()), async (req: any, res) => {
+    try {
+      const projectId = parseInt(req.params.id);
+      const pageData = insertProjectPageSchema.parse({
+        ...req.body,
+        projectId,
+      });
+      
+      const page = await storage.createProjectPage(pageData);
+      res.json(page);
+    } catch (error) {
+      console.error("Error creating project page:", error);
+      res.status(500).json({ message: "Failed to create project page" });
+    }
+  });
+
+  // Brain dump routes
+  app.get('/api/workspaces/:id/brain-dump', isAuthenticated, requireWorkspaceAccess('read', workspaceParam()), async (req: any, res) => {
+    try {
+      const workspaceId = parseInt(req.params.id);
+      const userId = req.user.claims.sub;
+      const items = await storage.getUserBrainDumpItems(workspaceId, userId);
+      res.json(items);
+    } catch (error) {
+      console.error("Error fetching brain dump items:", error);
+      res.status(500).json({ message: "Failed to fetch brain dump items" });
+    }
+  });
+
+  app.post('/api/workspaces/:id/brain-dump', isAuthenticated, requireWorkspaceAccess('read', workspaceParam()), async (req: any, res) => {
+    try {
+      const workspaceId = parseInt(req.params.id);
+      const userId = req.user.claims.sub;
+      const itemData = insertBrainDumpItemSchema.parse({
+        ...req.body,
+        workspaceId,
+        userId,
+      });
+      
+      const item = await storage.createBrainDumpItem(itemData);
+      res.json(item);
+    } catch (error) {
+      console.error("Error creating brain dump item:", error);
+      res.status(500).json({ message: "Failed to create brain dump item" });
+    }
+  });
+
+  app.delete('/api/brain-dump/:id', isAuthenticated, requireWorkspaceAccess('personal', brainDumpItemParam()), async (req: any, res) => {
+    try {
+      const itemId = parseInt(req.params.id);
+      await storage.deleteBrainDumpItem(itemId);
+      res.json({ message: "Brain dump item deleted successfully" });
+    } catch (error) {
+      console.error("Error deleting brain dump item:", error);
+      res.status(500).json({ message: "Failed to delete brain dump item" });
+    }
+  });
+
+  app.delete('/api/workspaces/:id/brain-dump', isAuthenticated, requireWorkspaceAccess('read', workspaceParam()), async (req: any, res) => {
+    try {
+      const workspaceId = parseInt(req.params.id);
+      const userId = req.user.claims.sub;
+      await storage.clearUserBrainDump(workspaceId, userId);
+      res.json({ message: "Brain dump cleared successfully" });
+    } catch (error) {
+      console.error("Error clearing brain dump:", error);
+      res.status(500).json({ message: "Failed to clear brain dump" });
+    }
+  });
+
+
+
   // AI Chat routes - enhanced with conversation management
-  app.get('/api/workspaces/:id/chat', isAuthenticated, async (req: any, res) => {
+  app.get('/api/workspaces/:id/chat', isAuthenticated, requireWorkspaceAccess('read', workspaceParam()), async (req: any, res) => {
     try {
       const workspaceId = parseInt(req.params.id);
-      const conversations = await storage.getWorkspaceChatHistory(workspaceId, 20);
-      res.json(conversations);
+      res.json(await getRecentTurns(workspaceId, req.user.claims.sub, 20));
     } catch (error) {
       console.error("Error fetching chat history:", error);
       res.status(500).json({ message: "Failed to fetch chat history" });
@@ -940,7 +1794,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Get all conversations for a workspace
-  app.get('/api/workspaces/:id/conversations', isAuthenticated, async (req: any, res) => {
+  app.get('/api/workspaces/:id/conversations', isAuthenticated, requireWorkspaceAccess('read', workspaceParam()), async (req: any, res) => {
     try {
       const workspaceId = parseInt(req.params.id);
       const userId = req.user?.id || req.user?.claims?.sub || req.user?.sub || req.user?.userId;
@@ -953,19 +1807,21 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Get messages for a specific conversation
-  app.get('/api/workspaces/:id/conversations/:conversationId/messages', isAuthenticated, async (req: any, res) => {
+  app.get('/api/workspaces/:id/conversations/:conversationId/messages', isAuthenticated, requireWorkspaceAccess('read', workspaceParam()), async (req: any, res) => {
     try {
       const workspaceId = parseInt(req.params.id);
       const { conversationId } = req.params;
-      const messages = await storage.getConversationMessages(workspaceId, conversationId);
-      res.json(messages);
+      if (!await findConversation(conversationId, workspaceId, req.user.claims.sub)) {
+        return res.status(404).json({ message: "Conversation not found" });
+      }
+      res.json(await getConversationTurns(conversationId));
     } catch (error) {
       console.error("Error fetching conversation messages:", error);
       res.status(500).json({ message: "Failed to fetch conversation messages" });
     }
   });
 
-  app.post('/api/workspaces/:id/chat', isAuthenticated, async (req: any, res) => {
+  app.post('/api/workspaces/:id/chat', isAuthenticated, requireWorkspaceAccess('read', workspaceParam()), async (req: any, res) => {
     try {
       const workspaceId = parseInt(req.params.id);
       const userId = req.user?.id || req.user?.claims?.sub || req.user?.sub || req.user?.userId;
@@ -980,54 +1836,147 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: "Message is required" });
       }
 
+      if (conversationId && !await findConversation(conversationId, workspaceId, userId)) {
+        return res.status(404).json({ message: "Conversation not found" });
+      }
       // Generate conversation ID if not provided (new conversation)
-      const finalConversationId = conversationId || `conv_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-
-      // Get context for AI including user-specific data
-      const [tasks, projects, categories, user, userTasks, userActivity] = await Promise.all([
-        storage.getWorkspaceTasks(workspaceId),
-        storage.getWorkspaceProjects(workspaceId),
-        storage.getWorkspaceCategories(workspaceId),
-        storage.getUser(userId),
-        storage.getUserTasks(userId, workspaceId),
-        buildActivityContext(userId, workspaceId),
-      ]);
+      const finalConversationId = conversationId || newConversationId();
 
-      // Process AI query with enhanced user context
-      const response = await processAIQuery(message, {
+      const turn = await answerChatMessage({
         workspaceId,
         userId,
-        user: {
-          id: userId,
-          name: user?.firstName || user?.lastName ? `${user.firstName} ${user.lastName}`.trim() : user?.email?.split('@')[0] || 'User',
-          email: user?.email || undefined,
-        },
-        recentTasks: tasks.slice(0, 10),
-        userTasks: userTasks.slice(0, 10), // User's specific tasks
-        projects,
-        categories,
-        recentActivity: userActivity,
-      });
-
-      // Save conversation
-      const conversationData = insertChatConversationSchema.parse({
-        workspaceId,
-        userId,
-        conversationId: finalConversationId,
+        access: req.workspaceAccess,
+        actorName: req.user.claims.first_name || undefined,
         message,
-        response,
+        conversationId: finalConversationId,
       });
-
-      const conversation = await storage.createChatConversation(conversationData);
-      res.json(conversation);
+      res.json(turn);
     } catch (error) {
       console.error("Error processing chat message:", error);
       res.status(500).json({ message: "Failed to process chat message" });
     }
   });
 
+  // The same as POST /chat, but the answer arrives as Server-Sent Events while it's being
+  // written: `start` {streamId, conversationId}, then `delta` {text} as often as needed, and
+  // finally `done` with the saved turn or `error` {message}. Stopping the stream (or closing
+  // the connection) keeps the answer so far.
+  app.post('/api/workspaces/:id/chat/stream', isAuthenticated, requireWorkspaceAccess('read', workspaceParam()), async (req: any, res) => {
+    const workspaceId = parseInt(req.params.id);
+    const userId = req.user.claims.sub;
+    const { message, conversationId } = req.body;
+
+    if (typeof message !== 'string' || !message.trim()) {
+      return res.status(400).json({ message: "Message is required" });
+    }
+    try {
+      if (conversationId && !await findConversation(conversationId, workspaceId, userId)) {
+        return res.status(404).json({ message: "Conversation not found" });
+      }
+    } catch (error) {
+      console.error("Error streaming chat message:", error);
+      return res.status(500).json({ message: "Failed to process chat message" });
+    }
+    const finalConversationId = conversationId || newConversationId();
+
+    const stream = startChatStream(userId);
+    res.on('close', () => {
+      if (!res.writableEnded) stream.stop();
+    });
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      'Connection': 'keep-alive',
+      'X-Accel-Buffering': 'no',
+    });
+    res.flushHeaders();
+    const send = (event: string, data: unknown) => {
+      if (!res.destroyed) res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+    };
+
+    send('start', { streamId: stream.id, conversationId: finalConversationId });
+    try {
+      const turn = await answerChatMessage(
+        {
+          workspaceId,
+          userId,
+          access: req.workspaceAccess,
+          actorName: req.user.claims.first_name || undefined,
+          message,
+          conversationId: finalConversationId,
+        },
+        { onToken: (text) => send('delta', { text }), signal: stream.signal },
+      );
+      send('done', turn);
+    } catch (error) {
+      console.error("Error streaming chat message:", error);
+      send('error', { message: "Failed to process chat message" });
+    } finally {
+      stream.finish();
+      res.end();
+    }
+  });
+
+  // Stop generating; the stream still ends with `done` and the partial answer saved
+  app.post('/api/workspaces/:id/chat/stream/:streamId/stop', isAuthenticated, requireWorkspaceAccess('read', workspaceParam()), async (req: any, res) => {
+    if (!stopChatStream(req.params.streamId, req.user.claims.sub)) {
+      return res.status(404).json({ message: "Nothing is being generated" });
+    }
+    res.json({ success: true });
+  });
+
+  // Confirm or decline a change the assistant wants to make. Once nothing in the turn
+  // is waiting any more, the assistant carries on and its answer is added to the turn.
+  app.post('/api/workspaces/:id/chat/actions/:messageId', isAuthenticated, requireWorkspaceAccess('read', workspaceParam()), async (req: any, res) => {
+    try {
+      const workspaceId = parseInt(req.params.id);
+      const userId = req.user.claims.sub;
+      const parsed = resolveChatActionSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid confirmation", errors: parsed.error.flatten().fieldErrors });
+      }
+
+      const action = await findPendingAction(parseInt(req.params.messageId), workspaceId, userId);
+      if (!action) {
+        return res.status(404).json({ message: "Action not found" });
+      }
+      const { message, metadata, turn } = action;
+
+      // Mark it answered before running it; only the request that flips it from
+      // pending runs the tool, so a second click can't run it twice
+      const { approve } = parsed.data;
+      const answered = await storage.answerPendingChatAction(message.id, JSON.stringify({ ...metadata, status: approve ? 'approved' : 'rejected' }));
+      if (!answered) {
+        return res.status(409).json({ message: "This action has already been answered" });
+      }
+
+      const toolContext = { workspaceId, userId, access: req.workspaceAccess, actorName: req.user.claims.first_name || undefined };
+      const outcome = approve
+        ? await runTool(metadata.name, metadata.arguments, toolContext)
+        : { ok: false, result: JSON.stringify({ error: 'The user declined this action' }) };
+      if (approve && !outcome.ok) {
+        await storage.updateChatMessageMetadata(message.id, JSON.stringify({ ...metadata, status: 'failed' }));
+      }
+      await storage.createChatMessages([toolResultMessage(turn, metadata, outcome)]);
+
+      const steps = await loadToolSteps(turn);
+      if (!steps) {
+        return res.json(await loadTurn(turn));
+      }
+
+      const tools = createToolRunner(toolContext);
+      const history = await loadConversationHistory(turn.conversationId, turn.id);
+      const result = await processAIQuery(turn.message, await loadChatContext(workspaceId, userId), { tools, steps, history });
+      await saveAnswer(turn, result, steps.length, tools.outcomes);
+      res.json(await loadTurn(turn));
+    } catch (error) {
+      console.error("Error answering chat action:", error);
+      res.status(500).json({ message: "Failed to answer chat action" });
+    }
+  });
+
   // Update conversation title
-  app.patch('/api/workspaces/:id/conversations/:conversationId', isAuthenticated, async (req: any, res) => {
+  app.patch('/api/workspaces/:id/conversations/:conversationId', isAuthenticated, requireWorkspaceAccess('read', workspaceParam()), async (req: any, res) => {
     try {
       const workspaceId = parseInt(req.params.id);
       const { conversationId } = req.params;
@@ -1036,127 +1985,398 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (!title || typeof title !== 'string') {
         return res.status(400).json({ message: "Title is required" });
       }
+      if (!await findConversation(conversationId, workspaceId, req.user.claims.sub)) {
+        return res.status(404).json({ message: "Conversation not found" });
+      }
 
       await storage.updateConversationTitle(workspaceId, conversationId, title);
       res.json({ message: "Conversation title updated successfully" });
     } catch (error) {
-      console.error("Error updating conversation title:", error);
-      res.status(500).json({ message: "Failed to update conversation title" });
+      console.error("Error updating conversation title:", error);
+      res.status(500).json({ message: "Failed to update conversation title" });
+    }
+  });
+
+  // Delete conversation
+  app.delete('/api/workspaces/:id/conversations/:conversationId', isAuthenticated, requireWorkspaceAccess('read', workspaceParam()), async (req: any, res) => {
+    try {
+      const workspaceId = parseInt(req.params.id);
+      const { conversationId } = req.params;
+      if (!await findConversation(conversationId, workspaceId, req.user.claims.sub)) {
+        return res.status(404).json({ message: "Conversation not found" });
+      }
+
+      await storage.deleteConversation(workspaceId, conversationId);
+      res.json({ message: "Conversation deleted successfully" });
+    } catch (error) {
+      console.error("Error deleting conversation:", error);
+      res.status(500).json({ message: "Failed to delete conversation" });
+    }
+  });
+
+  // AI Task suggestions
+  app.post('/api/projects/:id/ai-suggestions', isAuthenticated, requireWorkspaceAccess('read', projectParam()), async (req: any, res) => {
+    try {
+      const projectId = parseInt(req.params.id);
+      const project = await storage.getProjectById(projectId);
+      
+      if (!project) {
+        return res.status(404).json({ message: "Project not found" });
+      }
+
+      const existingTasks = await storage.getProjectTasks(projectId);
+      
+      const suggestions = await generateTaskSuggestions({
+        projectName: project.name,
+        existingTasks,
+        budget: project.budget ? parseFloat(project.budget) : undefined,
+      });
+
+      res.json({ suggestions });
+    } catch (error) {
+      console.error("Error generating task suggestions:", error);
+      res.status(500).json({ message: "Failed to generate task suggestions" });
+    }
+  });
+
+  // AI Project insights
+  app.get('/api/projects/:id/insights', isAuthenticated, requireWorkspaceAccess('read', projectParam()), async (req: any, res) => {
+    try {
+      const projectId = parseInt(req.params.id);
+      const project = await storage.getProjectById(projectId);
+      
+      if (!project) {
+        return res.status(404).json({ message: "Project not found" });
+      }
+
+      const tasks = await storage.getProjectTasks(projectId);
+      
+      const insights = await generateProjectInsights({
+        name: project.name,
+        tasks,
+        budget: project.budget ? parseFloat(project.budget) : undefined,
+        spent: project.spent ? parseFloat(project.spent) : undefined,
+      });
+
+      res.json({ insights });
+    } catch (error) {
+      console.error("Error generating project insights:", error);
+      res.status(500).json({ message: "Failed to generate project insights" });
+    }
+  });
+
+  // Notification routes
+  app.get('/api/workspaces/:id/notifications', isAuthenticated, requireWorkspaceAccess('read', workspaceParam()), async (req: any, res) => {
+    try {
+      const workspaceId = parseInt(req.params.id);
+      const notifications = await storage.getUserNotifications(req.user.claims.sub, workspaceId);
+      res.json(notifications);
+    } catch (error) {
+      console.error("Error fetching notifications:", error);
+      res.status(500).json({ message: "Failed to fetch notifications" });
+    }
+  });
+
+  app.get('/api/workspaces/:id/notifications/unread-count', isAuthenticated, requireWorkspaceAccess('read', workspaceParam()), async (req: any, res) => {
+    try {
+      const workspaceId = parseInt(req.params.id);
+      const count = await storage.getUnreadNotificationCount(req.user.claims.sub, workspaceId);
+      res.json({ count });
+    } catch (error) {
+      console.error("Error fetching unread notification count:", error);
+      res.status(500).json({ message: "Failed to fetch unread notification count" });
+    }
+  });
+
+  app.patch('/api/notifications/:id/read', isAuthenticated, requireWorkspaceAccess('personal', notificationParam()), async (req: any, res) => {
+    try {
+      const notificationId = parseInt(req.params.id);
+      await storage.markNotificationAsRead(notificationId);
+      res.json({ message: "Notification marked as read" });
+    } catch (error) {
+      console.error("Error marking notification as read:", error);
+      res.status(500).json({ message: "Failed to mark notification as read" });
+    }
+  });
+
+  app.patch('/api/workspaces/:id/notifications/mark-all-read', isAuthenticated, requireWorkspaceAccess('read', workspaceParam()), async (req: any, res) => {
+    try {
+      const workspaceId = parseInt(req.params.id);
+      await storage.markAllNotificationsAsRead(req.user.claims.sub, workspaceId);
+      res.json({ message: "All notifications marked as read" });
+    } catch (error) {
+      console.error("Error marking all notifications as read:", error);
+      res.status(500).json({ message: "Failed to mark all notifications as read" });
+    }
+  });
+
+  // The caller's own notification settings for the workspace
+  app.get('/api/workspaces/:id/notification-preferences', isAuthenticated, requireWorkspaceAccess('read', workspaceParam()), async (req: any, res) => {
+    try {
+      const workspaceId = parseInt(req.params.id);
+      const preferences = await storage.getNotificationPreferences(req.user.claims.sub, workspaceId);
+      res.json(effectivePreferences(preferences));
+    } catch (error) {
+      console.error("Error fetching notification preferences:", error);
+      res.status(500).json({ message: "Failed to fetch notification preferences" });
+    }
+  });
+
+  app.put('/api/workspaces/:id/notification-preferences', isAuthenticated, requireWorkspaceAccess('read', workspaceParam()), async (req: any, res) => {
+    try {
+      const parsed = notificationPreferencesSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid notification preferences", errors: parsed.error.flatten().fieldErrors });
+      }
+      const workspaceId = parseInt(req.params.id);
+      const preferences = await storage.upsertNotificationPreferences(req.user.claims.sub, workspaceId, parsed.data);
+      res.json(effectivePreferences(preferences));
+    } catch (error) {
+      console.error("Error saving notification preferences:", error);
+      res.status(500).json({ message: "Failed to save notification preferences" });
+    }
+  });
+
+  // Webhook routes (workspace admins)
+  app.get('/api/workspaces/:id/webhooks', isAuthenticated, requireWorkspaceAccess('manage_integrations', workspaceParam()), async (req: any, res) => {
+    try {
+      const webhooks = await storage.getWorkspaceWebhooks(parseInt(req.params.id));
+      res.json(webhooks);
+    } catch (error) {
+      console.error("Error fetching webhooks:", error);
+      res.status(500).json({ message: "Failed to fetch webhooks" });
+    }
+  });
+
+  app.post('/api/workspaces/:id/webhooks', isAuthenticated, requireWorkspaceAccess('manage_integrations', workspaceParam()), async (req: any, res) => {
+    try {
+      const parsed = webhookInputSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid webhook", errors: parsed.error.flatten().fieldErrors });
+      }
+      const urlError = await checkWebhookUrl(parsed.data.url);
+      if (urlError) {
+        return res.status(400).json({ message: "Invalid webhook", errors: { url: [urlError] } });
+      }
+      const webhook = await storage.createWebhook(parseInt(req.params.id), req.user.claims.sub, parsed.data);
+      res.status(201).json(webhook);
+    } catch (error) {
+      console.error("Error creating webhook:", error);
+      res.status(500).json({ message: "Failed to create webhook" });
+    }
+  });
+
+  app.patch('/api/webhooks/:id', isAuthenticated, requireWorkspaceAccess('manage_integrations', webhookParam()), async (req: any, res) => {
+    try {
+      const parsed = webhookInputSchema.partial().safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid webhook", errors: parsed.error.flatten().fieldErrors });
+      }
+      const urlError = parsed.data.url ? await checkWebhookUrl(parsed.data.url) : null;
+      if (urlError) {
+        return res.status(400).json({ message: "Invalid webhook", errors: { url: [urlError] } });
+      }
+      const webhook = await storage.updateWebhook(parseInt(req.params.id), parsed.data);
+      res.json(webhook);
+    } catch (error) {
+      console.error("Error updating webhook:", error);
+      res.status(500).json({ message: "Failed to update webhook" });
+    }
+  });
+
+  app.delete('/api/webhooks/:id', isAuthenticated, requireWorkspaceAccess('manage_integrations', webhookParam()), async (req: any, res) => {
+    try {
+      await storage.deleteWebhook(parseInt(req.params.id));
+      res.json({ message: "Webhook deleted successfully" });
+    } catch (error) {
+      console.error("Error deleting webhook:", error);
+      res.status(500).json({ message: "Failed to delete webhook" });
+    }
+  });
+
+  app.post('/api/webhooks/:id/rotate-secret', isAuthenticated, requireWorkspaceAccess('manage_integrations', webhookParam()), async (req: any, res) => {
+    try {
+      const webhook = await storage.rotateWebhookSecret(parseInt(req.params.id));
+      res.json(webhook);
+    } catch (error) {
+      console.error("Error rotating webhook secret:", error);
+      res.status(500).json({ message: "Failed to rotate webhook secret" });
+    }
+  });
+
+  // Sends a 'ping' event and returns the delivery with the endpoint's response
+  app.post('/api/webhooks/:id/test', isAuthenticated, requireWorkspaceAccess('manage_integrations', webhookParam()), async (req: any, res) => {
+    try {
+      const webhook = await storage.getWebhookById(parseInt(req.params.id));
+      if (!webhook) {
+        return res.status(404).json({ message: "Webhook not found" });
+      }
+      if (!webhook.isActive) {
+        return res.status(409).json({ message: "Enable the webhook before sending a test event" });
+      }
+      const delivery = await sendTestEvent(webhook);
+      res.json(delivery);
+    } catch (error) {
+      console.error("Error sending test webhook:", error);
+      res.status(500).json({ message: "Failed to send test event" });
     }
   });
 
-  // Delete conversation
-  app.delete('/api/workspaces/:id/conversations/:conversationId', isAuthenticated, async (req: any, res) => {
+  app.get('/api/webhooks/:id/deliveries', isAuthenticated, requireWorkspaceAccess('manage_integrations', webhookParam()), async (req: any, res) => {
     try {
-      const workspaceId = parseInt(req.params.id);
-      const { conversationId } = req.params;
-
-      await storage.deleteConversation(workspaceId, conversationId);
-      res.json({ message: "Conversation deleted successfully" });
+      const parsedQuery = webhookDeliveryQuerySchema.safeParse(req.query);
+      if (!parsedQuery.success) {
+        return res.status(400).json({ message: "Invalid delivery query", errors: parsedQuery.error.flatten().fieldErrors });
+      }
+      const { limit, before } = parsedQuery.data;
+      const deliveries = await storage.getWebhookDeliveries(parseInt(req.params.id), limit + 1, before);
+      res.json({
+        deliveries: deliveries.slice(0, limit),
+        nextBefore: deliveries.length > limit ? deliveries[limit - 1].id : null,
+      });
     } catch (error) {
-      console.error("Error deleting conversation:", error);
-      res.status(500).json({ message: "Failed to delete conversation" });
+      console.error("Error fetching webhook deliveries:", error);
+      res.status(500).json({ message: "Failed to fetch webhook deliveries" });
     }
   });
 
-  // AI Task suggestions
-  app.post('/api/projects/:id/ai-suggestions', isAuthenticated, async (req: any, res) => {
+  // Sends the same event again as a new delivery and returns its result
+  app.post('/api/webhook-deliveries/:id/redeliver', isAuthenticated, requireWorkspaceAccess('manage_integrations', webhookDeliveryParam()), async (req: any, res) => {
     try {
-      const projectId = parseInt(req.params.id);
-      const project = await storage.getProjectById(projectId);
-      
-      if (!project) {
-        return res.status(404).json({ message: "Project not found" });
+      const original = await storage.getWebhookDeliveryById(parseInt(req.params.id));
+      if (!original) {
+        return res.status(404).json({ message: "Delivery not found" });
       }
+      const webhook = await storage.getWebhookById(original.webhookId);
+      if (!webhook?.isActive) {
+        return res.status(409).json({ message: "Enable the webhook before redelivering" });
+      }
+      const delivery = await redeliver(original);
+      res.json(delivery);
+    } catch (error) {
+      console.error("Error redelivering webhook:", error);
+      res.status(500).json({ message: "Failed to redeliver webhook" });
+    }
+  });
 
-      const existingTasks = await storage.getProjectTasks(projectId);
-      
-      const suggestions = await generateTaskSuggestions({
-        projectName: project.name,
-        existingTasks,
-        budget: project.budget ? parseFloat(project.budget) : undefined,
-      });
+  // API tokens. Personal tokens act as their owner in any of their workspaces, or in
+  // one if workspaceId is set; workspace tokens are managed by the workspace's admins.
+  // The token itself is only returned when it's created.
+  const expiresAtFor = (days: number | null | undefined) => days ? new Date(Date.now() + days * 24 * 60 * 60 * 1000) : null;
 
-      res.json({ suggestions });
+  app.get('/api/api-tokens', isAuthenticated, async (req: any, res) => {
+    try {
+      const tokens = await storage.getUserApiTokens(req.user.claims.sub);
+      res.json(tokens.map(apiTokenResponse));
     } catch (error) {
-      console.error("Error generating task suggestions:", error);
-      res.status(500).json({ message: "Failed to generate task suggestions" });
+      console.error("Error fetching API tokens:", error);
+      res.status(500).json({ message: "Failed to fetch API tokens" });
     }
   });
 
-  // AI Project insights
-  app.get('/api/projects/:id/insights', isAuthenticated, async (req: any, res) => {
+  app.post('/api/api-tokens', isAuthenticated, async (req: any, res) => {
     try {
-      const projectId = parseInt(req.params.id);
-      const project = await storage.getProjectById(projectId);
-      
-      if (!project) {
-        return res.status(404).json({ message: "Project not found" });
+      if (req.apiToken) {
+        return res.status(403).json({ message: "API tokens can't create other tokens" });
+      }
+      const parsed = createApiTokenSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid API token", errors: parsed.error.flatten().fieldErrors });
+      }
+      const userId = req.user.claims.sub;
+      const { name, scopes, workspaceId, expiresInDays } = parsed.data;
+      if (workspaceId && !await getWorkspaceAccess(workspaceId, userId)) {
+        return res.status(403).json({ message: "You are not a member of this workspace" });
       }
 
-      const tasks = await storage.getProjectTasks(projectId);
-      
-      const insights = await generateProjectInsights({
-        name: project.name,
-        tasks,
-        budget: project.budget ? parseFloat(project.budget) : undefined,
-        spent: project.spent ? parseFloat(project.spent) : undefined,
+      const { token, tokenHash, tokenPrefix } = generateApiToken();
+      const apiToken = await storage.createApiToken({
+        name,
+        kind: 'personal',
+        userId,
+        workspaceId: workspaceId ?? null,
+        tokenHash,
+        tokenPrefix,
+        scopes,
+        expiresAt: expiresAtFor(expiresInDays),
       });
-
-      res.json({ insights });
+      res.status(201).json({ token, apiToken: apiTokenResponse(apiToken) });
     } catch (error) {
-      console.error("Error generating project insights:", error);
-      res.status(500).json({ message: "Failed to generate project insights" });
+      console.error("Error creating API token:", error);
+      res.status(500).json({ message: "Failed to create API token" });
     }
   });
 
-  // Notification routes
-  app.get('/api/workspaces/:id/notifications', isAuthenticated, async (req: any, res) => {
+  app.delete('/api/api-tokens/:id', isAuthenticated, async (req: any, res) => {
     try {
-      const workspaceId = parseInt(req.params.id);
-      const notifications = await storage.getUserNotifications(req.user.id, workspaceId);
-      res.json(notifications);
+      const apiToken = await storage.getApiTokenById(parseInt(req.params.id));
+      if (!apiToken || apiToken.kind !== 'personal' || apiToken.userId !== req.user.claims.sub) {
+        return res.status(404).json({ message: "API token not found" });
+      }
+      await storage.revokeApiToken(apiToken.id);
+      res.json({ message: "API token revoked" });
     } catch (error) {
-      console.error("Error fetching notifications:", error);
-      res.status(500).json({ message: "Failed to fetch notifications" });
+      console.error("Error revoking API token:", error);
+      res.status(500).json({ message: "Failed to revoke API token" });
     }
   });
 
-  app.get('/api/workspaces/:id/notifications/unread-count', isAuthenticated, async (req: any, res) => {
+  app.get('/api/workspaces/:id/api-tokens', isAuthenticated, requireWorkspaceAccess('manage_integrations', workspaceParam()), async (req: any, res) => {
     try {
-      const workspaceId = parseInt(req.params.id);
-      const count = await storage.getUnreadNotificationCount(req.user.id, workspaceId);
-      res.json({ count });
+      const tokens = await storage.getWorkspaceApiTokens(parseInt(req.params.id));
+      res.json(tokens.map(apiTokenResponse));
     } catch (error) {
-      console.error("Error fetching unread notification count:", error);
-      res.status(500).json({ message: "Failed to fetch unread notification count" });
+      console.error("Error fetching workspace API tokens:", error);
+      res.status(500).json({ message: "Failed to fetch API tokens" });
     }
   });
 
-  app.patch('/api/notifications/:id/read', isAuthenticated, async (req: any, res) => {
+  app.post('/api/workspaces/:id/api-tokens', isAuthenticated, requireWorkspaceAccess('manage_integrations', workspaceParam()), async (req: any, res) => {
     try {
-      const notificationId = parseInt(req.params.id);
-      await storage.markNotificationAsRead(notificationId);
-      res.json({ message: "Notification marked as read" });
+      const parsed = createApiTokenSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid API token", errors: parsed.error.flatten().fieldErrors });
+      }
+      const { name, scopes, expiresInDays } = parsed.data;
+      const { token, tokenHash, tokenPrefix } = generateApiToken();
+      const apiToken = await storage.createApiToken({
+        name,
+        kind: 'workspace',
+        userId: req.user.claims.sub,
+        workspaceId: parseInt(req.params.id),
+        tokenHash,
+        tokenPrefix,
+        scopes,
+        expiresAt: expiresAtFor(expiresInDays),
+      });
+      res.status(201).json({ token, apiToken: apiTokenResponse(apiToken) });
     } catch (error) {
-      console.error("Error marking notification as read:", error);
-      res.status(500).json({ message: "Failed to mark notification as read" });
+      console.error("Error creating workspace API token:", error);
+      res.status(500).json({ message: "Failed to create API token" });
     }
   });
 
-  app.patch('/api/workspaces/:id/notifications/mark-all-read', isAuthenticated, async (req: any, res) => {
+  app.delete('/api/workspaces/:id/api-tokens/:tokenId', isAuthenticated, requireWorkspaceAccess('manage_integrations', workspaceParam()), async (req: any, res) => {
     try {
-      const workspaceId = parseInt(req.params.id);
-      await storage.markAllNotificationsAsRead(req.user.id, workspaceId);
-      res.json({ message: "All notifications marked as read" });
+      const apiToken = await storage.getApiTokenById(parseInt(req.params.tokenId));
+      if (!apiToken || apiToken.kind !== 'workspace' || apiToken.workspaceId !== parseInt(req.params.id)) {
+        return res.status(404).json({ message: "API token not found" });
+      }
+      await storage.revokeApiToken(apiToken.id);
+      res.json({ message: "API token revoked" });
     } catch (error) {
-      console.error("Error marking all notifications as read:", error);
-      res.status(500).json({ message: "Failed to mark all notifications as read" });
+      console.error("Error revoking workspace API token:", error);
+      res.status(500).json({ message: "Failed to revoke API token" });
     }
   });
 
+  // The public API's description, built from the insert schemas in shared/schema.ts
+  app.get('/api/openapi.json', (_req, res) => {
+    res.json(buildOpenApiDocument());
+  });
+
   // Task comment routes
-  app.get('/api/tasks/:id/comments', isAuthenticated, async (req: any, res) => {
+  app.get('/api/tasks/:id/comments', isAuthenticated, requireWorkspaceAccess('read', taskParam()), async (req: any, res) => {
     try {
       const taskId = parseInt(req.params.id);
       const comments = await storage.getTaskComments(taskId);
@@ -1167,10 +2387,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post('/api/tasks/:id/comments', isAuthenticated, async (req: any, res) => {
+  app.post('/api/tasks/:id/comments', isAuthenticated, requireWorkspaceAccess('create', taskParam()), async (req: any, res) => {
     try {
       const taskId = parseInt(req.params.id);
-      const { comment, workspaceId, taggedUserIds = [] } = req.body || {};
+      const { comment, taggedUserIds = [] } = req.body || {};
+      const workspaceId = req.workspaceAccess.workspaceId;
       
       // Fix user ID retrieval - handle different user object structures
       const userId = req.user?.id || req.user?.claims?.sub || req.user?.sub || req.user?.userId;
@@ -1182,7 +2403,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const commentData = {
         taskId,
         userId: userId,
-        workspaceId: parseInt(workspaceId),
+        workspaceId,
         comment: String(comment || '').trim(),
       };
       
@@ -1190,11 +2411,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: 'Comment text is required' });
       }
       
-      if (!commentData.workspaceId) {
-        return res.status(400).json({ message: 'Workspace ID is required' });
-      }
-      
       const newComment = await storage.createTaskComment(commentData);
+      broadcastToWorkspace({ type: 'comment.created', workspaceId: commentData.workspaceId, payload: newComment });
+      emitWebhookEvent(commentData.workspaceId, 'comment.added', { comment: newComment });
       
       // Get task details for notification
       const task = await storage.getTaskById(taskId);
@@ -1232,18 +2451,18 @@ export async function registerRoutes(app: Express): Promise<Server> {
         }
         
         // Send notifications to determined users
-        for (const { member, user } of usersToNotify) {
+        for (const { member } of usersToNotify) {
           if (member.userId && member.userId !== userId) {
             await createTaskNotification({
               type: 'comment_added',
               userId: member.userId,
               workspaceId: workspaceId,
               taskId: taskId,
+              commentId: newComment.id,
               title: 'New Comment on Task',
               message: `${req.user.firstName || 'Someone'} added a comment to task: ${task.title}`,
-              assignedUser: user,
               task,
-              commenterName: req.user.firstName || req.user.email?.split('@')[0] || 'Someone',
+              actorName: req.user.firstName || req.user.email?.split('@')[0] || 'Someone',
               commentText: comment
             });
           }
@@ -1257,10 +2476,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.delete('/api/comments/:id', isAuthenticated, async (req: any, res) => {
+  app.delete('/api/comments/:id', isAuthenticated, requireWorkspaceAccess('edit', commentParam()), async (req: any, res) => {
     try {
       const commentId = parseInt(req.params.id);
+      const comment = await storage.getTaskCommentById(commentId);
       await storage.deleteTaskComment(commentId);
+      if (comment) {
+        broadcastToWorkspace({ type: 'comment.deleted', workspaceId: comment.workspaceId, payload: { id: commentId, taskId: comment.taskId } });
+        emitWebhookEvent(comment.workspaceId, 'comment.deleted', { id: commentId, taskId: comment.taskId });
+      }
       res.json({ message: "Comment deleted successfully" });
     } catch (error) {
       console.error("Error deleting comment:", error);
@@ -1268,11 +2492,114 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Task attachment routes
+  app.get('/api/workspaces/:id/attachment-counts', isAuthenticated, requireWorkspaceAccess('read', workspaceParam()), async (req: any, res) => {
+    try {
+      const counts = await storage.getWorkspaceAttachmentCounts(parseInt(req.params.id));
+      res.json(counts);
+    } catch (error) {
+      console.error("Error fetching attachment counts:", error);
+      res.status(500).json({ message: "Failed to fetch attachment counts" });
+    }
+  });
+
+  app.get('/api/tasks/:id/attachments', isAuthenticated, requireWorkspaceAccess('read', taskParam()), async (req: any, res) => {
+    try {
+      const attachments = await storage.getTaskAttachments(parseInt(req.params.id));
+      res.json(attachments);
+    } catch (error) {
+      console.error("Error fetching task attachments:", error);
+      res.status(500).json({ message: "Failed to fetch attachments" });
+    }
+  });
+
+  // Uploads a file into the vault and attaches it to the task, or to one of its comments with commentId
+  app.post('/api/tasks/:id/attachments', isAuthenticated, requireWorkspaceAccess('create', taskParam()), upload.single('file'), async (req: any, res) => {
+    try {
+      const taskId = parseInt(req.params.id);
+      const workspaceId = req.workspaceAccess.workspaceId;
+      const userId = req.user.claims.sub;
+
+      if (!req.file && !req.body.fileId) {
+        return res.status(400).json({ message: "No file provided" });
+      }
+
+      let commentId: number | null = null;
+      if (req.body.commentId) {
+        const comment = await storage.getTaskCommentById(parseInt(req.body.commentId));
+        if (!comment || comment.taskId !== taskId) {
+          return res.status(400).json({ message: "Comment not found on this task" });
+        }
+        commentId = comment.id;
+      }
+
+      let file: File;
+      if (req.file) {
+        const folder = await ensureAttachmentFolder(workspaceId, taskId, userId);
+        ({ file } = await storeUpload(req.file, {
+          workspaceId,
+          folder,
+          projectId: null,
+          userId,
+          canEditAny: rolePermissions[req.workspaceAccess.role as keyof typeof rolePermissions].editAny,
+        }));
+      } else {
+        // A JSON body { fileId } attaches a file that's already in the vault
+        const existingFile = await storage.getFileById(parseInt(req.body.fileId));
+        if (!existingFile || existingFile.workspaceId !== workspaceId || existingFile.mimeType === FOLDER_MIME_TYPE) {
+          return res.status(400).json({ message: "File not found in this workspace" });
+        }
+        file = existingFile;
+      }
+
+      // Re-uploading the same name adds a version to the file that is already attached,
+      // and attaching a file twice keeps the one link
+      const existing = (await storage.getTaskAttachments(taskId))
+        .find(attachment => attachment.fileId === file.id && attachment.commentId === commentId);
+      const attachment = existing ?? await storage.createTaskAttachment({
+        workspaceId,
+        taskId,
+        commentId,
+        fileId: file.id,
+        attachedBy: userId,
+      });
+
+      broadcastToWorkspace({ type: 'attachment.changed', workspaceId, payload: { taskId } });
+      res.json(attachment);
+    } catch (error) {
+      if (error instanceof UploadRejectedError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      console.error("Error uploading attachment:", error);
+      res.status(500).json({ message: "Failed to upload attachment" });
+    }
+  });
+
+  // Detaches only; the file stays in the vault
+  app.delete('/api/attachments/:id', isAuthenticated, requireWorkspaceAccess('edit', taskAttachmentParam()), async (req: any, res) => {
+    try {
+      const attachment = await storage.getTaskAttachmentById(parseInt(req.params.id));
+      if (!attachment) {
+        return res.status(404).json({ message: "Attachment not found" });
+      }
+      await storage.deleteTaskAttachment(attachment.id);
+      broadcastToWorkspace({ type: 'attachment.changed', workspaceId: attachment.workspaceId, payload: { taskId: attachment.taskId } });
+      res.json({ message: "Attachment removed" });
+    } catch (error) {
+      console.error("Error removing attachment:", error);
+      res.status(500).json({ message: "Failed to remove attachment" });
+    }
+  });
+
   // File Management API endpoints for Vault
-  app.get('/api/workspaces/:workspaceId/files', isAuthenticated, async (req: any, res) => {
+  // ?parentId=<folder id> or ?parentId=root lists one folder; without it every file is returned
+  app.get('/api/workspaces/:workspaceId/files', isAuthenticated, requireWorkspaceAccess('read', workspaceParam('workspaceId')), async (req: any, res) => {
     try {
       const workspaceId = parseInt(req.params.workspaceId);
-      const files = await storage.getWorkspaceFiles(workspaceId);
+      const { parentId } = req.query;
+      const files = parentId === undefined
+        ? await storage.getWorkspaceFiles(workspaceId)
+        : await storage.getFolderContents(workspaceId, parentId === 'root' ? null : parseInt(parentId));
       res.json(files);
     } catch (error) {
       console.error("Error fetching workspace files:", error);
@@ -1280,12 +2607,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get('/api/workspaces/:workspaceId/files/recent', isAuthenticated, async (req: any, res) => {
+  app.get('/api/workspaces/:workspaceId/files/recent', isAuthenticated, requireWorkspaceAccess('read', workspaceParam('workspaceId')), async (req: any, res) => {
     try {
       const workspaceId = parseInt(req.params.workspaceId);
       const files = await storage.getWorkspaceFiles(workspaceId);
       // Return the 10 most recently created files
       const recentFiles = files
+        .filter(file => file.mimeType !== FOLDER_MIME_TYPE)
         .sort((a, b) => new Date(b.createdAt || 0).getTime() - new Date(a.createdAt || 0).getTime())
         .slice(0, 10);
       res.json(recentFiles);
@@ -1295,7 +2623,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get('/api/projects/:projectId/files', isAuthenticated, async (req: any, res) => {
+  app.get('/api/projects/:projectId/files', isAuthenticated, requireWorkspaceAccess('read', projectParam('projectId')), async (req: any, res) => {
     try {
       const projectId = parseInt(req.params.projectId);
       const files = await storage.getProjectFiles(projectId);
@@ -1306,47 +2634,128 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post('/api/workspaces/:workspaceId/files/upload', isAuthenticated, upload.single('file'), async (req: any, res) => {
+  // The folders leading to an item, outermost first, ending with the item itself
+  app.get('/api/workspaces/:workspaceId/files/:fileId/breadcrumbs', isAuthenticated, requireWorkspaceAccess('read', fileParam()), async (req: any, res) => {
+    try {
+      const ancestors = await storage.getFileAncestors(parseInt(req.params.fileId));
+      res.json(ancestors.map(({ id, name, path, parentId }) => ({ id, name, path, parentId })));
+    } catch (error) {
+      console.error("Error fetching breadcrumbs:", error);
+      res.status(500).json({ message: "Failed to fetch breadcrumbs" });
+    }
+  });
+
+  app.post('/api/workspaces/:workspaceId/files/upload', isAuthenticated, requireWorkspaceAccess('create', workspaceParam('workspaceId')), upload.single('file'), async (req: any, res) => {
     try {
       const workspaceId = parseInt(req.params.workspaceId);
       const { projectId, parentId } = req.body;
       
-      // For now, we'll simulate file upload by creating file records
-      // In a real implementation, you'd handle actual file uploads to cloud storage
       const file = req.file || req.files?.[0];
       if (!file) {
         return res.status(400).json({ message: "No file provided" });
       }
 
+      const folder = await resolveTargetFolder(workspaceId, parentId);
+      if (folder === undefined) {
+        return res.status(400).json({ message: "Folder not found" });
+      }
+
       const userId = req.user.claims?.sub || req.user.id;
-      const fileName = file.originalname || file.name;
-      
-      const fileData = {
-        name: fileName,
-        originalName: fileName,
-        mimeType: file.mimetype || 'application/octet-stream',
-        size: file.size || 0,
-        path: `/uploads/${workspaceId}/${Date.now()}-${fileName}`,
+      const result = await storeUpload(file, {
         workspaceId,
+        folder,
         projectId: projectId ? parseInt(projectId) : null,
-        uploadedBy: userId
-      };
-
-      const newFile = await storage.createFile(fileData);
-      res.json(newFile);
+        userId,
+        canEditAny: rolePermissions[req.workspaceAccess.role as keyof typeof rolePermissions].editAny,
+      });
+      res.json(result.version ? { ...result.file, version: result.version } : result.file);
     } catch (error) {
+      if (error instanceof UploadRejectedError) {
+        return res.status(error.status).json({ message: error.message });
+      }
       console.error("Error uploading file:", error);
       res.status(500).json({ message: "Failed to upload file" });
     }
   });
 
-  app.post('/api/workspaces/:workspaceId/files/folder', isAuthenticated, async (req: any, res) => {
+  // Streams the file contents. ?inline=true lets the browser preview it instead of downloading.
+  app.get('/api/workspaces/:workspaceId/files/:fileId/download', isAuthenticated, requireWorkspaceAccess('read', fileParam()), async (req: any, res) => {
+    try {
+      const file = await storage.getFileById(parseInt(req.params.fileId));
+      if (!file || !file.storageKey) {
+        return res.status(404).json({ message: "File not found" });
+      }
+      await sendStoredFile(res, file.storageKey, file.name, file.mimeType, req.query.inline === 'true');
+    } catch (error) {
+      console.error("Error downloading file:", error);
+      res.status(500).json({ message: "Failed to download file" });
+    }
+  });
+
+  app.get('/api/workspaces/:workspaceId/files/:fileId/versions', isAuthenticated, requireWorkspaceAccess('read', fileParam()), async (req: any, res) => {
+    try {
+      const versions = await storage.getFileVersions(parseInt(req.params.fileId));
+      res.json(versions);
+    } catch (error) {
+      console.error("Error fetching file versions:", error);
+      res.status(500).json({ message: "Failed to fetch file versions" });
+    }
+  });
+
+  app.get('/api/workspaces/:workspaceId/files/:fileId/versions/:versionId/download', isAuthenticated, requireWorkspaceAccess('read', fileParam()), async (req: any, res) => {
+    try {
+      const file = await storage.getFileById(parseInt(req.params.fileId));
+      const version = await storage.getFileVersionById(parseInt(req.params.versionId));
+      if (!file || !version || version.fileId !== file.id) {
+        return res.status(404).json({ message: "Version not found" });
+      }
+      await sendStoredFile(res, version.storageKey, file.name, version.mimeType, req.query.inline === 'true');
+    } catch (error) {
+      console.error("Error downloading file version:", error);
+      res.status(500).json({ message: "Failed to download file version" });
+    }
+  });
+
+  // Restoring adds a new version with the old contents, so the history is never rewritten
+  app.post('/api/workspaces/:workspaceId/files/:fileId/versions/:versionId/restore', isAuthenticated, requireWorkspaceAccess('edit', fileParam()), async (req: any, res) => {
+    try {
+      const fileId = parseInt(req.params.fileId);
+      const version = await storage.getFileVersionById(parseInt(req.params.versionId));
+      if (!version || version.fileId !== fileId) {
+        return res.status(404).json({ message: "Version not found" });
+      }
+
+      const { file, version: restored } = await storage.addFileVersion(fileId, {
+        storageKey: version.storageKey,
+        mimeType: version.mimeType,
+        size: version.size,
+        uploadedBy: req.user.claims.sub,
+        restoredFromVersion: version.versionNumber,
+      });
+      broadcastToWorkspace({ type: 'file.updated', workspaceId: file.workspaceId, payload: file });
+      res.json({ ...file, version: restored });
+    } catch (error) {
+      console.error("Error restoring file version:", error);
+      res.status(500).json({ message: "Failed to restore file version" });
+    }
+  });
+
+  app.post('/api/workspaces/:workspaceId/files/folder', isAuthenticated, requireWorkspaceAccess('create', workspaceParam('workspaceId')), async (req: any, res) => {
     try {
       const workspaceId = parseInt(req.params.workspaceId);
-      const { name, projectId, parentId } = req.body;
+      const { projectId, parentId } = req.body;
+      const name = typeof req.body.name === 'string' ? req.body.name.trim() : '';
+
+      if (!isValidFileName(name)) {
+        return res.status(400).json({ message: "Folder name is required and cannot contain '/'" });
+      }
 
-      if (!name) {
-        return res.status(400).json({ message: "Folder name is required" });
+      const folder = await resolveTargetFolder(workspaceId, parentId);
+      if (folder === undefined) {
+        return res.status(400).json({ message: "Folder not found" });
+      }
+      if (await storage.findFileByName(workspaceId, folder?.id ?? null, name)) {
+        return res.status(409).json({ message: `"${name}" already exists in this folder` });
       }
 
       const userId = req.user.claims?.sub || req.user.id;
@@ -1354,15 +2763,17 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const folderData = {
         name,
         originalName: name,
-        mimeType: 'application/folder',
+        mimeType: FOLDER_MIME_TYPE,
         size: 0,
-        path: `/${name}`,
+        path: `${folder?.path ?? ''}/${name}`,
+        parentId: folder?.id ?? null,
         workspaceId,
         projectId: projectId ? parseInt(projectId) : null,
         uploadedBy: userId
       };
 
       const newFolder = await storage.createFile(folderData);
+      broadcastToWorkspace({ type: 'file.created', workspaceId, payload: newFolder });
       res.json(newFolder);
     } catch (error) {
       console.error("Error creating folder:", error);
@@ -1370,38 +2781,113 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.delete('/api/workspaces/:workspaceId/files/:fileId', isAuthenticated, async (req: any, res) => {
+  // Deleting a folder that still has contents needs ?recursive=true
+  app.delete('/api/workspaces/:workspaceId/files/:fileId', isAuthenticated, requireWorkspaceAccess('edit', fileParam()), async (req: any, res) => {
     try {
+      const workspaceId = req.workspaceAccess.workspaceId;
       const fileId = parseInt(req.params.fileId);
-      await storage.deleteFile(fileId);
-      res.json({ message: "File deleted successfully" });
+      const file = await storage.getFileById(fileId);
+      if (!file) {
+        return res.status(404).json({ message: "File not found" });
+      }
+
+      const descendants = file.mimeType === FOLDER_MIME_TYPE ? await storage.getFileDescendants(fileId) : [];
+      if (descendants.length > 0 && req.query.recursive !== 'true') {
+        return res.status(409).json({
+          message: `"${file.name}" contains ${descendants.length} item${descendants.length === 1 ? '' : 's'}`,
+          requiresConfirmation: true,
+          itemCount: descendants.length,
+        });
+      }
+
+      // Members may only remove a folder if everything inside it is theirs too
+      const userId = req.user.claims.sub;
+      const canEditAny = rolePermissions[req.workspaceAccess.role as keyof typeof rolePermissions].editAny;
+      if (!canEditAny && descendants.some(descendant => descendant.uploadedBy !== userId)) {
+        return res.status(403).json({ message: "This folder contains items uploaded by others" });
+      }
+
+      const removed = [file, ...descendants];
+      const storageKeys = await storage.deleteFiles(removed.map(item => item.id));
+
+      // The rows are gone either way; a blob left behind is only logged
+      for (const storageKey of storageKeys) {
+        await fileStorage.delete(storageKey).catch((error) => {
+          console.error("Error removing stored file contents:", error);
+        });
+      }
+      for (const item of removed) {
+        broadcastToWorkspace({ type: 'file.deleted', workspaceId, payload: { id: item.id } });
+      }
+      res.json({ message: "File deleted successfully", deletedCount: removed.length });
     } catch (error) {
       console.error("Error deleting file:", error);
       res.status(500).json({ message: "Failed to delete file" });
     }
   });
 
-  app.patch('/api/workspaces/:workspaceId/files/:fileId', isAuthenticated, async (req: any, res) => {
+  // Rename and/or move. Body: { name?, parentId? } where parentId null means the root.
+  app.patch('/api/workspaces/:workspaceId/files/:fileId', isAuthenticated, requireWorkspaceAccess('edit', fileParam()), async (req: any, res) => {
     try {
       const fileId = parseInt(req.params.fileId);
-      const { name } = req.body;
+      const file = await storage.getFileById(fileId);
+      if (!file) {
+        return res.status(404).json({ message: "File not found" });
+      }
+
+      const name = req.body.name !== undefined ? String(req.body.name).trim() : file.name;
+      if (!isValidFileName(name)) {
+        return res.status(400).json({ message: "Name is required and cannot contain '/'" });
+      }
+
+      let parentId = file.parentId;
+      if (req.body.parentId !== undefined) {
+        const folder = await resolveTargetFolder(file.workspaceId, req.body.parentId);
+        if (folder === undefined) {
+          return res.status(400).json({ message: "Folder not found" });
+        }
+        // A folder can't go inside itself or anything below it
+        if (folder && file.mimeType === FOLDER_MIME_TYPE) {
+          const targetChain = await storage.getFileAncestors(folder.id);
+          if (targetChain.some(ancestor => ancestor.id === file.id)) {
+            return res.status(400).json({ message: "A folder can't be moved into itself" });
+          }
+        }
+        parentId = folder?.id ?? null;
+      }
 
-      if (!name) {
-        return res.status(400).json({ message: "New name is required" });
+      if (name === file.name && parentId === file.parentId) {
+        return res.json(file);
       }
 
-      // For now, we'll implement a simple rename by updating the name field
-      // In a real implementation, you'd also update the file path and handle file system changes
-      const updatedFile = await storage.updateFile(fileId, { name });
+      const existing = await storage.findFileByName(file.workspaceId, parentId, name);
+      if (existing && existing.id !== file.id) {
+        return res.status(409).json({ message: `"${name}" already exists in that folder` });
+      }
+
+      const updatedFile = await storage.relocateFile(fileId, parentId, name);
+      broadcastToWorkspace({ type: 'file.updated', workspaceId: updatedFile.workspaceId, payload: updatedFile });
       res.json(updatedFile);
     } catch (error) {
-      console.error("Error renaming file:", error);
-      res.status(500).json({ message: "Failed to rename file" });
+      console.error("Error updating file:", error);
+      res.status(500).json({ message: "Failed to update file" });
     }
   });
 
   // Project Components API Routes
-  app.get('/api/projects/:projectId/components', isAuthenticated, async (req: any, res) => {
+  // Every component in the workspace, for the timeline view
+  app.get('/api/workspaces/:id/components', isAuthenticated, requireWorkspaceAccess('read', workspaceParam()), async (req: any, res) => {
+    try {
+      const workspaceId = parseInt(req.params.id);
+      const components = await storage.getWorkspaceComponents(workspaceId);
+      res.json(components);
+    } catch (error) {
+      console.error("Error fetching workspace components:", error);
+      res.status(500).json({ message: "Failed to fetch components" });
+    }
+  });
+
+  app.get('/api/projects/:projectId/components', isAuthenticated, requireWorkspaceAccess('read', projectParam('projectId')), async (req: any, res) => {
     try {
       const projectId = parseInt(req.params.projectId);
       const components = await storage.getProjectComponents(projectId);
@@ -1412,11 +2898,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post('/api/projects/:projectId/components', isAuthenticated, async (req: any, res) => {
+  app.post('/api/projects/:projectId/components', isAuthenticated, requireWorkspaceAccess('manage_projects', projectParam('projectId')), async (req: any, res) => {
     try {
       const projectId = parseInt(req.params.projectId);
       const parsed = insertProjectComponentSchema.parse({ ...req.body, projectId });
       const component = await storage.createProjectComponent(parsed);
+      await broadcastFinancialChange(projectId, 'components');
       res.json(component);
     } catch (error) {
       console.error("Error creating component:", error);
@@ -1424,11 +2911,24 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.patch('/api/projects/:projectId/components/:componentId', isAuthenticated, async (req: any, res) => {
+  app.patch('/api/projects/:projectId/components/:componentId', isAuthenticated, requireWorkspaceAccess('manage_projects', projectParam('projectId')), async (req: any, res) => {
     try {
       const componentId = parseInt(req.params.componentId);
-      const updates = req.body;
+      const existing = await storage.getProjectComponentById(componentId);
+      if (!existing || existing.projectId !== parseInt(req.params.projectId)) {
+        return res.status(404).json({ message: "Component not found" });
+      }
+
+      // A component stays in its project; only its own fields can change
+      const { projectId, workspaceId, ...updates } = req.body;
+      const startDate = updates.startDate !== undefined ? updates.startDate : existing.startDate;
+      const endDate = updates.endDate !== undefined ? updates.endDate : existing.endDate;
+      if (startDate && endDate && startDate > endDate) {
+        return res.status(400).json({ message: "Start date must be on or before the end date" });
+      }
+
       const component = await storage.updateProjectComponent(componentId, updates);
+      await broadcastFinancialChange(parseInt(req.params.projectId), 'components');
       res.json(component);
     } catch (error) {
       console.error("Error updating component:", error);
@@ -1436,10 +2936,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.delete('/api/projects/:projectId/components/:componentId', isAuthenticated, async (req: any, res) => {
+  app.delete('/api/projects/:projectId/components/:componentId', isAuthenticated, requireWorkspaceAccess('manage_projects', projectParam('projectId')), async (req: any, res) => {
     try {
       const componentId = parseInt(req.params.componentId);
+      const existing = await storage.getProjectComponentById(componentId);
+      if (!existing || existing.projectId !== parseInt(req.params.projectId)) {
+        return res.status(404).json({ message: "Component not found" });
+      }
       await storage.deleteProjectComponent(componentId);
+      await broadcastFinancialChange(parseInt(req.params.projectId), 'components');
       res.json({ success: true });
     } catch (error) {
       console.error("Error deleting component:", error);
@@ -1449,7 +2954,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   // Financial API Routes
   // Budget Management
-  app.get('/api/projects/:projectId/budgets', isAuthenticated, async (req: any, res) => {
+  app.get('/api/projects/:projectId/budgets', isAuthenticated, requireWorkspaceAccess('read', projectParam('projectId')), async (req: any, res) => {
     try {
       const projectId = parseInt(req.params.projectId);
       const budgets = await storage.getProjectBudgets(projectId);
@@ -1460,11 +2965,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post('/api/projects/:projectId/budgets', isAuthenticated, async (req: any, res) => {
+  app.post('/api/projects/:projectId/budgets', isAuthenticated, requireWorkspaceAccess('manage_finances', projectParam('projectId')), async (req: any, res) => {
     try {
       const projectId = parseInt(req.params.projectId);
       const parsed = insertProjectBudgetSchema.parse({ ...req.body, projectId });
       const budget = await storage.createProjectBudget(parsed);
+      await broadcastFinancialChange(projectId, 'budgets');
       res.json(budget);
     } catch (error) {
       console.error("Error creating budget:", error);
@@ -1472,11 +2978,17 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.patch('/api/projects/:projectId/budgets/:budgetId', isAuthenticated, async (req: any, res) => {
+  app.patch('/api/projects/:projectId/budgets/:budgetId', isAuthenticated, requireWorkspaceAccess('manage_finances', projectParam('projectId')), async (req: any, res) => {
     try {
       const budgetId = parseInt(req.params.budgetId);
-      const updates = req.body;
+      const existing = await storage.getProjectBudgetById(budgetId);
+      if (!existing || existing.projectId !== parseInt(req.params.projectId)) {
+        return res.status(404).json({ message: "Budget not found" });
+      }
+      // A budget stays in its project
+      const { projectId, workspaceId, ...updates } = req.body;
       const budget = await storage.updateProjectBudget(budgetId, updates);
+      await broadcastFinancialChange(parseInt(req.params.projectId), 'budgets');
       res.json(budget);
     } catch (error) {
       console.error("Error updating budget:", error);
@@ -1484,10 +2996,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.delete('/api/projects/:projectId/budgets/:budgetId', isAuthenticated, async (req: any, res) => {
+  app.delete('/api/projects/:projectId/budgets/:budgetId', isAuthenticated, requireWorkspaceAccess('manage_finances', projectParam('projectId')), async (req: any, res) => {
     try {
       const budgetId = parseInt(req.params.budgetId);
+      const existing = await storage.getProjectBudgetById(budgetId);
+      if (!existing || existing.projectId !== parseInt(req.params.projectId)) {
+        return res.status(404).json({ message: "Budget not found" });
+      }
       await storage.deleteProjectBudget(budgetId);
+      await broadcastFinancialChange(parseInt(req.params.projectId), 'budgets');
       res.json({ message: "Budget deleted successfully" });
     } catch (error) {
       console.error("Error deleting budget:", error);
@@ -1496,7 +3013,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Expense Management
-  app.get('/api/projects/:projectId/expenses', isAuthenticated, async (req: any, res) => {
+  app.get('/api/projects/:projectId/expenses', isAuthenticated, requireWorkspaceAccess('read', projectParam('projectId')), async (req: any, res) => {
     try {
       const projectId = parseInt(req.params.projectId);
       const expenses = await storage.getProjectExpenses(projectId);
@@ -1507,12 +3024,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post('/api/projects/:projectId/expenses', isAuthenticated, async (req: any, res) => {
+  app.post('/api/projects/:projectId/expenses', isAuthenticated, requireWorkspaceAccess('manage_finances', projectParam('projectId')), async (req: any, res) => {
     try {
       const projectId = parseInt(req.params.projectId);
       const userId = req.user.claims?.sub || req.user.id;
       const parsed = insertProjectExpenseSchema.parse({ ...req.body, projectId, createdBy: userId });
       const expense = await storage.createProjectExpense(parsed);
+      await broadcastFinancialChange(projectId, 'expenses');
+      emitWebhookEvent(req.workspaceAccess.workspaceId, 'outflow.created', { outflow: expense });
       res.json(expense);
     } catch (error) {
       console.error("Error creating expense:", error);
@@ -1520,11 +3039,21 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.patch('/api/projects/:projectId/expenses/:expenseId', isAuthenticated, async (req: any, res) => {
+  app.patch('/api/projects/:projectId/expenses/:expenseId', isAuthenticated, requireWorkspaceAccess('manage_finances', projectParam('projectId')), async (req: any, res) => {
     try {
       const expenseId = parseInt(req.params.expenseId);
-      const updates = req.body;
+      const previous = await storage.getProjectOutflowById(expenseId);
+      if (!previous || previous.projectId !== parseInt(req.params.projectId)) {
+        return res.status(404).json({ message: "Expense not found" });
+      }
+      // An expense stays in its project
+      const { projectId, workspaceId, ...updates } = req.body;
       const expense = await storage.updateProjectExpense(expenseId, updates);
+      await broadcastFinancialChange(parseInt(req.params.projectId), 'expenses');
+      emitWebhookEvent(req.workspaceAccess.workspaceId, 'outflow.updated', { outflow: expense });
+      if (expense.status !== previous.status && (expense.status === 'approved' || expense.status === 'rejected')) {
+        emitWebhookEvent(req.workspaceAccess.workspaceId, expense.status === 'approved' ? 'outflow.approved' : 'outflow.rejected', { outflow: expense });
+      }
       res.json(expense);
     } catch (error) {
       console.error("Error updating expense:", error);
@@ -1532,10 +3061,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.delete('/api/projects/:projectId/expenses/:expenseId', isAuthenticated, async (req: any, res) => {
+  app.delete('/api/projects/:projectId/expenses/:expenseId', isAuthenticated, requireWorkspaceAccess('manage_finances', projectParam('projectId')), async (req: any, res) => {
     try {
       const expenseId = parseInt(req.params.expenseId);
+      const existing = await storage.getProjectOutflowById(expenseId);
+      if (!existing || existing.projectId !== parseInt(req.params.projectId)) {
+        return res.status(404).json({ message: "Expense not found" });
+      }
       await storage.deleteProjectExpense(expenseId);
+      await broadcastFinancialChange(parseInt(req.params.projectId), 'expenses');
+      emitWebhookEvent(req.workspaceAccess.workspaceId, 'outflow.deleted', { id: expenseId });
       res.json({ message: "Expense deleted successfully" });
     } catch (error) {
       console.error("Error deleting expense:", error);
@@ -1544,7 +3079,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Revenue Management
-  app.get('/api/projects/:projectId/revenue', isAuthenticated, async (req: any, res) => {
+  app.get('/api/projects/:projectId/revenue', isAuthenticated, requireWorkspaceAccess('read', projectParam('projectId')), async (req: any, res) => {
     try {
       const projectId = parseInt(req.params.projectId);
       const revenue = await storage.getProjectRevenue(projectId);
@@ -1555,12 +3090,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post('/api/projects/:projectId/revenue', isAuthenticated, async (req: any, res) => {
+  app.post('/api/projects/:projectId/revenue', isAuthenticated, requireWorkspaceAccess('manage_finances', projectParam('projectId')), async (req: any, res) => {
     try {
       const projectId = parseInt(req.params.projectId);
       const userId = req.user.claims?.sub || req.user.id;
       const parsed = insertProjectRevenueSchema.parse({ ...req.body, projectId, createdBy: userId });
       const revenue = await storage.createProjectRevenue(parsed);
+      await broadcastFinancialChange(projectId, 'revenue');
+      emitWebhookEvent(req.workspaceAccess.workspaceId, 'inflow.created', { inflow: revenue });
       res.json(revenue);
     } catch (error) {
       console.error("Error creating revenue:", error);
@@ -1568,11 +3105,21 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.patch('/api/projects/:projectId/revenue/:revenueId', isAuthenticated, async (req: any, res) => {
+  app.patch('/api/projects/:projectId/revenue/:revenueId', isAuthenticated, requireWorkspaceAccess('manage_finances', projectParam('projectId')), async (req: any, res) => {
     try {
       const revenueId = parseInt(req.params.revenueId);
-      const updates = req.body;
+      const previous = await storage.getProjectInflowById(revenueId);
+      if (!previous || previous.projectId !== parseInt(req.params.projectId)) {
+        return res.status(404).json({ message: "Revenue not found" });
+      }
+      // Revenue stays in its project
+      const { projectId, workspaceId, ...updates } = req.body;
       const revenue = await storage.updateProjectRevenue(revenueId, updates);
+      await broadcastFinancialChange(parseInt(req.params.projectId), 'revenue');
+      emitWebhookEvent(req.workspaceAccess.workspaceId, 'inflow.updated', { inflow: revenue });
+      if (revenue.status === 'received' && previous.status !== 'received') {
+        emitWebhookEvent(req.workspaceAccess.workspaceId, 'inflow.received', { inflow: revenue });
+      }
       res.json(revenue);
     } catch (error) {
       console.error("Error updating revenue:", error);
@@ -1580,10 +3127,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.delete('/api/projects/:projectId/revenue/:revenueId', isAuthenticated, async (req: any, res) => {
+  app.delete('/api/projects/:projectId/revenue/:revenueId', isAuthenticated, requireWorkspaceAccess('manage_finances', projectParam('projectId')), async (req: any, res) => {
     try {
       const revenueId = parseInt(req.params.revenueId);
+      const existing = await storage.getProjectInflowById(revenueId);
+      if (!existing || existing.projectId !== parseInt(req.params.projectId)) {
+        return res.status(404).json({ message: "Revenue not found" });
+      }
       await storage.deleteProjectRevenue(revenueId);
+      await broadcastFinancialChange(parseInt(req.params.projectId), 'revenue');
+      emitWebhookEvent(req.workspaceAccess.workspaceId, 'inflow.deleted', { id: revenueId });
       res.json({ message: "Revenue deleted successfully" });
     } catch (error) {
       console.error("Error deleting revenue:", error);
@@ -1592,7 +3145,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Outflow Types API Routes
-  app.get('/api/projects/:projectId/outflow-types', isAuthenticated, async (req: any, res) => {
+  app.get('/api/projects/:projectId/outflow-types', isAuthenticated, requireWorkspaceAccess('read', projectParam('projectId')), async (req: any, res) => {
     try {
       const projectId = parseInt(req.params.projectId);
       const outflowTypes = await storage.getProjectOutflowTypes(projectId);
@@ -1603,7 +3156,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post('/api/projects/:projectId/outflow-types', isAuthenticated, async (req: any, res) => {
+  app.post('/api/projects/:projectId/outflow-types', isAuthenticated, requireWorkspaceAccess('manage_finances', projectParam('projectId')), async (req: any, res) => {
     try {
       const projectId = parseInt(req.params.projectId);
       // Get the project to retrieve workspaceId
@@ -1613,6 +3166,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
       const parsed = insertOutflowTypeSchema.parse({ ...req.body, projectId, workspaceId: project.workspaceId });
       const outflowType = await storage.createOutflowType(parsed);
+      await broadcastFinancialChange(projectId, 'outflow-types');
       res.json(outflowType);
     } catch (error) {
       console.error("Error creating outflow type:", error);
@@ -1620,11 +3174,17 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.patch('/api/projects/:projectId/outflow-types/:typeId', isAuthenticated, async (req: any, res) => {
+  app.patch('/api/projects/:projectId/outflow-types/:typeId', isAuthenticated, requireWorkspaceAccess('manage_finances', projectParam('projectId')), async (req: any, res) => {
     try {
       const typeId = parseInt(req.params.typeId);
-      const updates = req.body;
+      const existing = await storage.getOutflowTypeById(typeId);
+      if (!existing || existing.projectId !== parseInt(req.params.projectId)) {
+        return res.status(404).json({ message: "Outflow type not found" });
+      }
+      // A type stays in its project and workspace
+      const { projectId, workspaceId, ...updates } = req.body;
       const outflowType = await storage.updateOutflowType(typeId, updates);
+      await broadcastFinancialChange(parseInt(req.params.projectId), 'outflow-types');
       res.json(outflowType);
     } catch (error) {
       console.error("Error updating outflow type:", error);
@@ -1632,10 +3192,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.delete('/api/projects/:projectId/outflow-types/:typeId', isAuthenticated, async (req: any, res) => {
+  app.delete('/api/projects/:projectId/outflow-types/:typeId', isAuthenticated, requireWorkspaceAccess('manage_finances', projectParam('projectId')), async (req: any, res) => {
     try {
       const typeId = parseInt(req.params.typeId);
+      const existing = await storage.getOutflowTypeById(typeId);
+      if (!existing || existing.projectId !== parseInt(req.params.projectId)) {
+        return res.status(404).json({ message: "Outflow type not found" });
+      }
       await storage.deleteOutflowType(typeId);
+      await broadcastFinancialChange(parseInt(req.params.projectId), 'outflow-types');
       res.json({ message: "Outflow type deleted successfully" });
     } catch (error) {
       console.error("Error deleting outflow type:", error);
@@ -1644,7 +3209,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Inflow Types API Routes
-  app.get('/api/projects/:projectId/inflow-types', isAuthenticated, async (req: any, res) => {
+  app.get('/api/projects/:projectId/inflow-types', isAuthenticated, requireWorkspaceAccess('read', projectParam('projectId')), async (req: any, res) => {
     try {
       const projectId = parseInt(req.params.projectId);
       const inflowTypes = await storage.getProjectInflowTypes(projectId);
@@ -1655,7 +3220,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post('/api/projects/:projectId/inflow-types', isAuthenticated, async (req: any, res) => {
+  app.post('/api/projects/:projectId/inflow-types', isAuthenticated, requireWorkspaceAccess('manage_finances', projectParam('projectId')), async (req: any, res) => {
     try {
       const projectId = parseInt(req.params.projectId);
       // Get the project to retrieve workspaceId
@@ -1665,6 +3230,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
       const parsed = insertInflowTypeSchema.parse({ ...req.body, projectId, workspaceId: project.workspaceId });
       const inflowType = await storage.createInflowType(parsed);
+      await broadcastFinancialChange(projectId, 'inflow-types');
       res.json(inflowType);
     } catch (error) {
       console.error("Error creating inflow type:", error);
@@ -1672,11 +3238,17 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.patch('/api/projects/:projectId/inflow-types/:typeId', isAuthenticated, async (req: any, res) => {
+  app.patch('/api/projects/:projectId/inflow-types/:typeId', isAuthenticated, requireWorkspaceAccess('manage_finances', projectParam('projectId')), async (req: any, res) => {
     try {
       const typeId = parseInt(req.params.typeId);
-      const updates = req.body;
+      const existing = await storage.getInflowTypeById(typeId);
+      if (!existing || existing.projectId !== parseInt(req.params.projectId)) {
+        return res.status(404).json({ message: "Inflow type not found" });
+      }
+      // A type stays in its project and workspace
+      const { projectId, workspaceId, ...updates } = req.body;
       const inflowType = await storage.updateInflowType(typeId, updates);
+      await broadcastFinancialChange(parseInt(req.params.projectId), 'inflow-types');
       res.json(inflowType);
     } catch (error) {
       console.error("Error updating inflow type:", error);
@@ -1684,10 +3256,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.delete('/api/projects/:projectId/inflow-types/:typeId', isAuthenticated, async (req: any, res) => {
+  app.delete('/api/projects/:projectId/inflow-types/:typeId', isAuthenticated, requireWorkspaceAccess('manage_finances', projectParam('projectId')), async (req: any, res) => {
     try {
       const typeId = parseInt(req.params.typeId);
+      const existing = await storage.getInflowTypeById(typeId);
+      if (!existing || existing.projectId !== parseInt(req.params.projectId)) {
+        return res.status(404).json({ message: "Inflow type not found" });
+      }
       await storage.deleteInflowType(typeId);
+      await broadcastFinancialChange(parseInt(req.params.projectId), 'inflow-types');
       res.json({ message: "Inflow type deleted successfully" });
     } catch (error) {
       console.error("Error deleting inflow type:", error);
@@ -1696,7 +3273,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Seed default types for existing workspace
-  app.post('/api/workspaces/:workspaceId/seed-default-types', isAuthenticated, async (req: any, res) => {
+  app.post('/api/workspaces/:workspaceId/seed-default-types', isAuthenticated, requireWorkspaceAccess('manage_finances', workspaceParam('workspaceId')), async (req: any, res) => {
     try {
       const workspaceId = parseInt(req.params.workspaceId);
       await storage.seedDefaultTypesForWorkspace(workspaceId);
@@ -1708,21 +3285,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Personalized AI insights endpoint
-  app.get('/api/ai/personalized-insights', isAuthenticated, async (req: any, res) => {
+  app.get('/api/ai/personalized-insights', isAuthenticated, requireWorkspaceAccess('read', workspaceQuery()), async (req: any, res) => {
     try {
-      const workspaceId = req.query.workspaceId ? parseInt(req.query.workspaceId as string) : null;
-      
-      if (!workspaceId || isNaN(workspaceId)) {
-        return res.status(400).json({ error: 'Workspace ID is required' });
-      }
+      const workspaceId = req.workspaceAccess.workspaceId;
 
       const { generatePersonalizedInsights } = await import("./openai");
-      
-      // Simplified access check - if user is authenticated and workspace exists, allow access
-      const workspace = await storage.getWorkspaceById(workspaceId);
-      if (!workspace) {
-        return res.status(404).json({ error: 'Workspace not found' });
-      }
 
       // Get workspace data for context
       const allTasks = await storage.getWorkspaceTasks(workspaceId);
@@ -1760,7 +3327,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Activity tracking API routes
-  app.get('/api/workspaces/:workspaceId/activities', isAuthenticated, async (req: any, res) => {
+  app.get('/api/workspaces/:workspaceId/activities', isAuthenticated, requireWorkspaceAccess('read', workspaceParam('workspaceId')), async (req: any, res) => {
     try {
       const workspaceId = parseInt(req.params.workspaceId);
       const limit = parseInt(req.query.limit) || 50;
@@ -1779,8 +3346,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const limit = parseInt(req.query.limit) || 50;
       const hours = parseInt(req.query.hours) || 24;
       
-      // Only allow users to access their own activities or if they're workspace admin
-      if (req.user.id !== userId) {
+      // Only allow users to access their own activities
+      if (req.user.claims.sub !== userId) {
         return res.status(403).json({ message: "Access denied" });
       }
       
@@ -1795,52 +3362,87 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Global Search Endpoint
-  app.get('/api/search', isAuthenticated, async (req: any, res) => {
+  // Audit log: every change made in the workspace, with field-level diffs
+  app.get('/api/workspaces/:id/audit-log', isAuthenticated, requireWorkspaceAccess('view_audit_log', workspaceParam()), async (req: any, res) => {
     try {
-      const { workspaceId, q: searchQuery } = req.query;
-      
-      if (!workspaceId || !searchQuery || searchQuery.length < 2) {
-        return res.json({ tasks: [], projects: [], members: [], categories: [] });
+      const workspaceId = parseInt(req.params.id);
+      const parsedQuery = auditLogQuerySchema.safeParse(req.query);
+      if (!parsedQuery.success) {
+        return res.status(400).json({ message: "Invalid audit log query", errors: parsedQuery.error.flatten().fieldErrors });
       }
 
-      const query = searchQuery.toLowerCase().trim();
-      
-      // Search tasks
-      const allTasks = await storage.getWorkspaceTasks(parseInt(workspaceId));
-      const tasks = allTasks.filter(task => 
-        task.title.toLowerCase().includes(query) ||
-        (task.description && task.description.toLowerCase().includes(query))
-      ).slice(0, 10); // Limit to 10 results
+      const query = parsedQuery.data;
+      const [entries, facets] = await Promise.all([
+        storage.getAuditLog(workspaceId, query),
+        storage.getAuditLogFacets(workspaceId),
+      ]);
+      res.json({
+        entries,
+        ...facets,
+        nextBefore: entries.length === query.limit ? entries[entries.length - 1].id : null,
+        retentionDays: auditLogRetentionDays(),
+      });
+    } catch (error) {
+      console.error("Error fetching audit log:", error);
+      res.status(500).json({ message: "Failed to fetch audit log" });
+    }
+  });
 
-      // Search projects
-      const allProjects = await storage.getWorkspaceProjects(parseInt(workspaceId));
-      const projects = allProjects.filter(project =>
-        project.name.toLowerCase().includes(query) ||
-        (project.description && project.description.toLowerCase().includes(query))
-      ).slice(0, 10);
+  // Exports ignore paging, up to this many of the newest matching entries
+  const AUDIT_LOG_EXPORT_LIMIT = 10000;
 
-      // Search members
-      const allMembers = await storage.getWorkspaceMembers(parseInt(workspaceId));
-      const members = allMembers.filter(member => {
-        const name = (member.name || '').toLowerCase();
-        const email = (member.email || '').toLowerCase();
-        
-        return name.includes(query) || email.includes(query);
-      }).slice(0, 10);
+  app.get('/api/workspaces/:id/audit-log/export', isAuthenticated, requireWorkspaceAccess('view_audit_log', workspaceParam()), async (req: any, res) => {
+    try {
+      const workspaceId = parseInt(req.params.id);
+      const parsedQuery = auditLogQuerySchema.safeParse(req.query);
+      if (!parsedQuery.success) {
+        return res.status(400).json({ message: "Invalid audit log query", errors: parsedQuery.error.flatten().fieldErrors });
+      }
 
-      // Search categories
-      const allCategories = await storage.getWorkspaceCategories(parseInt(workspaceId));
-      const categories = allCategories.filter(category =>
-        category.name.toLowerCase().includes(query)
-      ).slice(0, 10);
+      const entries = await storage.getAuditLog(workspaceId, { ...parsedQuery.data, limit: AUDIT_LOG_EXPORT_LIMIT });
+      const filename = `audit-log-${workspaceId}-${new Date().toISOString().slice(0, 10)}`;
 
-      res.json({
-        tasks,
-        projects,
-        members,
-        categories
-      });
+      if (req.query.format === 'json') {
+        res.setHeader('Content-Disposition', `attachment; filename="${filename}.json"`);
+        return res.json(entries);
+      }
+
+      const csv = toCsv(
+        ['Time', 'User', 'Action', 'Entity', 'Entity ID', 'Name', 'Changes'],
+        entries.map(entry => [
+          entry.createdAt?.toISOString() ?? '',
+          entry.userName ?? entry.userId,
+          entry.action,
+          entry.entityType,
+          entry.entityId,
+          entry.entityName,
+          entry.changes ? JSON.stringify(entry.changes) : '',
+        ])
+      );
+      res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+      res.setHeader('Content-Disposition', `attachment; filename="${filename}.csv"`);
+      res.send(csv);
+    } catch (error) {
+      console.error("Error exporting audit log:", error);
+      res.status(500).json({ message: "Failed to export audit log" });
+    }
+  });
+
+  // Global Search Endpoint
+  app.get('/api/search', isAuthenticated, requireWorkspaceAccess('read', workspaceQuery()), async (req: any, res) => {
+    try {
+      const parsedQuery = searchQuerySchema.safeParse(req.query);
+      if (!parsedQuery.success) {
+        return res.status(400).json({ message: "Invalid search query", errors: parsedQuery.error.flatten().fieldErrors });
+      }
+
+      const { workspaceId, q, types, limit } = parsedQuery.data;
+      const requestedTypes = (types ?? '').split(',')
+        .filter((type): type is SearchResultType => (SEARCH_RESULT_TYPES as readonly string[]).includes(type));
+
+      const query = parseSearchQuery(q, requestedTypes);
+      const response = await storage.searchWorkspace(workspaceId, req.user.claims.sub, query, limit);
+      res.json(response);
     } catch (error) {
       console.error("Error performing global search:", error);
       res.status(500).json({ message: "Search failed" });
@@ -1848,5 +3450,6 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   const httpServer = createServer(app);
+  setupRealtime(httpServer);
   return httpServer;
 }
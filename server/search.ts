@@ -0,0 +1,182 @@
+import { SEARCH_RESULT_TYPES, type SearchResultType } from "@shared/schema";
+
+// Parses the global search box. Free text becomes a prefix-matching tsquery; these
+// operators narrow the results (values with spaces can be quoted):
+//
+//   type:task,page        only these result types
+//   assignee:me           tasks assigned to a member name, "me" or "none"
+//   status:todo,done      task status (backlog/doing/done are accepted too)
+//   due:<2025-01-31       due date compared with <, <=, >, >= or an exact date;
+//                         also due:today, due:overdue and due:none
+//   project:website       tasks in projects whose name contains the value
+//   priority:3            task priority 0-3
+//
+// A leading "-" on a word excludes it, e.g. "invoice -draft".
+
+export type DueFilter =
+  | { op: '<' | '<=' | '>' | '>=' | '='; date: string }
+  | { op: 'overdue' }
+  | { op: 'none' };
+
+export interface TaskSearchFilters {
+  assignee?: string; // 'me', 'none' or part of a member name
+  status?: string[];
+  due?: DueFilter;
+  project?: string;
+  priority?: number;
+}
+
+export interface ParsedSearchQuery {
+  tsQuery: string | null; // to_tsquery syntax; null when only operators were given
+  text: string | null; // the words as typed, for prefix matches on values like email addresses
+  types: SearchResultType[];
+  taskFilters: TaskSearchFilters;
+  errors: string[];
+}
+
+const STATUS_ALIASES: Record<string, string> = {
+  todo: 'todo',
+  backlog: 'todo',
+  in_progress: 'in_progress',
+  doing: 'in_progress',
+  review: 'review',
+  completed: 'completed',
+  done: 'completed',
+};
+
+const TYPE_ALIASES: Record<string, SearchResultType> = {
+  tasks: 'task',
+  projects: 'project',
+  members: 'member',
+  categories: 'category',
+  comments: 'comment',
+  pages: 'page',
+  files: 'file',
+  notes: 'brain_dump',
+  brain_dump: 'brain_dump',
+  inflows: 'inflow',
+  revenue: 'inflow',
+  outflows: 'outflow',
+  expenses: 'outflow',
+};
+
+const toDateString = (date: Date) => date.toISOString().split('T')[0];
+
+function resolveDate(value: string, today: Date): string | null {
+  const lower = value.toLowerCase();
+  const offset = { yesterday: -1, today: 0, tomorrow: 1 }[lower];
+  if (offset !== undefined) {
+    const date = new Date(today);
+    date.setUTCDate(date.getUTCDate() + offset);
+    return toDateString(date);
+  }
+  if (/^\d{4}-\d{2}-\d{2}$/.test(value) && !isNaN(Date.parse(value))) {
+    return value;
+  }
+  return null;
+}
+
+// Splits on whitespace but keeps quoted values together: assignee:"Jane Doe"
+function tokenize(input: string): string[] {
+  return input.match(/(?:[^\s"]+|"[^"]*")+/g) ?? [];
+}
+
+const unquote = (value: string) => value.replace(/"/g, '');
+
+// Words become prefix terms so results show up while the user is still typing
+function buildTsQuery(words: string[]): string | null {
+  const terms: string[] = [];
+  for (const word of words) {
+    const negated = word.startsWith('-');
+    for (const part of unquote(negated ? word.slice(1) : word).split(/[^A-Za-z0-9\u00C0-\uFFFF]+/)) {
+      if (!part) continue;
+      terms.push(`${negated ? '!' : ''}${part.toLowerCase()}:*`);
+    }
+  }
+  // A query made only of exclusions would match nearly everything
+  if (!terms.some(term => !term.startsWith('!'))) return null;
+  return terms.join(' & ');
+}
+
+export function parseSearchQuery(input: string, requestedTypes: SearchResultType[] = [], today: Date = new Date()): ParsedSearchQuery {
+  const words: string[] = [];
+  const types = new Set<SearchResultType>(requestedTypes);
+  const taskFilters: TaskSearchFilters = {};
+  const errors: string[] = [];
+
+  for (const token of tokenize(input)) {
+    const match = /^([a-z]+):(.+)$/i.exec(token);
+    if (!match) {
+      words.push(token);
+      continue;
+    }
+
+    const key = match[1].toLowerCase();
+    const value = unquote(match[2]).trim();
+
+    switch (key) {
+      case 'type':
+        for (const name of value.toLowerCase().split(',')) {
+          const type = TYPE_ALIASES[name] ?? (SEARCH_RESULT_TYPES as readonly string[]).find(t => t === name);
+          if (type) types.add(type as SearchResultType);
+          else errors.push(`Unknown type "${name}"`);
+        }
+        break;
+      case 'assignee':
+        taskFilters.assignee = value.toLowerCase() === 'me' || value.toLowerCase() === 'none' ? value.toLowerCase() : value;
+        break;
+      case 'status': {
+        const statuses = value.toLowerCase().split(',').map(status => STATUS_ALIASES[status]);
+        if (statuses.some(status => !status)) {
+          errors.push(`Unknown status in "${value}"`);
+        } else {
+          taskFilters.status = statuses;
+        }
+        break;
+      }
+      case 'due': {
+        const lower = value.toLowerCase();
+        if (lower === 'overdue' || lower === 'none') {
+          taskFilters.due = { op: lower };
+          break;
+        }
+        const [, op = '=', dateValue] = /^(<=|>=|<|>|=)?(.+)$/.exec(value) ?? [];
+        const date = dateValue ? resolveDate(dateValue, today) : null;
+        if (date) {
+          taskFilters.due = { op: op as '<' | '<=' | '>' | '>=' | '=', date };
+        } else {
+          errors.push(`Couldn't read the date in "due:${value}"`);
+        }
+        break;
+      }
+      case 'project':
+        taskFilters.project = value;
+        break;
+      case 'priority': {
+        const priority = parseInt(value);
+        if (priority >= 0 && priority <= 3) {
+          taskFilters.priority = priority;
+        } else {
+          errors.push('Priority must be between 0 and 3');
+        }
+        break;
+      }
+      default:
+        // Not an operator we know, so treat it as text (e.g. a time like 10:30)
+        words.push(token);
+    }
+  }
+
+  // Task operators only make sense for tasks
+  if (types.size === 0 && Object.keys(taskFilters).length > 0) {
+    types.add('task');
+  }
+
+  return {
+    tsQuery: buildTsQuery(words),
+    text: words.filter(word => !word.startsWith('-')).map(unquote).join(' ') || null,
+    types: types.size > 0 ? Array.from(types) : [...SEARCH_RESULT_TYPES],
+    taskFilters,
+    errors,
+  };
+}
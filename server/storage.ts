@@ -7,10 +7,25 @@ import {
   categories,
   tasks,
   taskRecurrences,
+  taskDependencies,
+  subtasks,
+  timeEntries,
   projectPages,
   brainDumpItems,
   files,
+  fileVersions,
+  taskAttachments,
+  calendarFeeds,
+  scheduledJobs,
+  notificationPreferences,
+  webhooks,
+  webhookDeliveries,
+  apiTokens,
+  userCredentials,
+  authTokens,
   chatConversations,
+  conversations,
+  chatMessages,
   notifications,
   taskComments,
   projectComponents,
@@ -22,6 +37,10 @@ import {
   projectInflows,
   projectOutflows,
   activityLogs,
+  FOLDER_MIME_TYPE,
+  SEARCH_HIGHLIGHT_START,
+  SEARCH_HIGHLIGHT_END,
+  searchDocument,
 
   type User,
   type UpsertUser,
@@ -43,8 +62,27 @@ import {
   type InsertBrainDumpItem,
   type File,
   type InsertFile,
+  type FileVersion,
+  type NewFileVersion,
+  type TaskAttachment,
+  type InsertTaskAttachment,
+  type AttachmentCounts,
+  type CalendarFeed,
+  type ScheduledJob,
+  type NotificationPreferences,
+  type NotificationPreferencesInput,
+  type Webhook,
+  type WebhookDelivery,
+  type WebhookInput,
+  type ApiToken,
+  type UserCredentials,
+  type AuthToken,
+  type AuthTokenPurpose,
   type ChatConversation,
-  type InsertChatConversation,
+  type Conversation,
+  type InsertConversation,
+  type ChatMessage,
+  type InsertChatMessage,
   type WorkspaceInvitation,
   type InsertWorkspaceInvitation,
   type Notification,
@@ -69,22 +107,52 @@ import {
   type InsertProjectOutflow,
   type ActivityLog,
   type InsertActivityLog,
-
+  type ActivityFeedEntry,
+  type AuditLogQuery,
+  type AuditLogEntry,
+  type AuditLogFacets,
+  type Subtask,
+  type InsertSubtask,
+  type SubtaskProgress,
+  type TimeEntry,
+  type InsertTimeEntry,
+  type TimesheetQuery,
+  type Timesheet,
+  type TimesheetRow,
+  type TaskDependency,
+  type InsertTaskDependency,
+  type TaskQuery,
+  type TaskFilters,
+  type TaskCounts,
+  type TaskProgress,
+  type TaskPage,
+  type SearchResult,
+  type SearchResponse,
+  type SearchResultType,
 } from "@shared/schema";
+import { randomBytes } from "crypto";
+import { z } from "zod";
 import { db } from "./db";
-import { eq, and, desc, asc, gte, lte, count, sql, not } from "drizzle-orm";
+import type { ParsedSearchQuery } from "./search";
+import { planRecurrenceInstances, ruleForRecurrence } from "./recurrence-utils";
+import { isValidDate } from "@shared/rrule";
+import type { AnyPgColumn } from "drizzle-orm/pg-core";
+import { eq, and, or, desc, asc, gte, lt, lte, count, sql, not, inArray, isNull, isNotNull, ilike, getTableColumns, type SQL } from "drizzle-orm";
 
 export interface IStorage {
   // User operations (required for Replit Auth)
   getUser(id: string): Promise<User | undefined>;
   upsertUser(user: UpsertUser): Promise<User>;
+  getUserByEmail(email: string): Promise<User | undefined>;
   ensureUserSetup(userId: string): Promise<{ workspace: Workspace; project: Project }>;
 
   // Workspace operations
   getUserWorkspaces(userId: string): Promise<Workspace[]>;
+  getAllWorkspaces(): Promise<Workspace[]>;
   getWorkspaceById(id: number): Promise<Workspace | undefined>;
   createWorkspace(workspace: InsertWorkspace): Promise<Workspace>;
   getWorkspaceMembers(workspaceId: number): Promise<WorkspaceMember[]>;
+  getActiveMembership(workspaceId: number, userId: string): Promise<WorkspaceMember | undefined>;
   addWorkspaceMember(member: InsertWorkspaceMember): Promise<WorkspaceMember>;
   updateWorkspaceMember(id: number, updates: Partial<InsertWorkspaceMember>): Promise<WorkspaceMember>;
   removeWorkspaceMember(id: number): Promise<void>;
@@ -98,17 +166,21 @@ export interface IStorage {
 
   // Category operations
   getWorkspaceCategories(workspaceId: number): Promise<Category[]>;
+  getCategoryById(id: number): Promise<Category | undefined>;
   createCategory(category: InsertCategory): Promise<Category>;
   updateCategory(id: number, updates: Partial<InsertCategory>): Promise<Category>;
   deleteCategory(id: number): Promise<void>;
 
   // Task operations
   getWorkspaceTasks(workspaceId: number): Promise<Task[]>;
+  queryWorkspaceTasks(workspaceId: number, query: TaskQuery): Promise<TaskPage>;
+  getWorkspaceTaskProgress(workspaceId: number, filters: TaskFilters): Promise<TaskProgress>;
   getProjectTasks(projectId: number): Promise<Task[]>;
   getUserTasks(userId: string, workspaceId: number): Promise<Task[]>;
   getTaskById(id: number): Promise<Task | undefined>;
   createTask(task: InsertTask): Promise<Task>;
   updateTask(id: number, updates: Partial<InsertTask>): Promise<Task>;
+  updateTasks(ids: number[], updates: Partial<InsertTask>): Promise<Task[]>;
   deleteTask(id: number): Promise<void>;
   getDueTodayTasks(workspaceId: number): Promise<Task[]>;
 
@@ -120,6 +192,7 @@ export interface IStorage {
 
   // Brain dump operations
   getUserBrainDumpItems(workspaceId: number, userId: string): Promise<BrainDumpItem[]>;
+  getBrainDumpItemById(id: number): Promise<BrainDumpItem | undefined>;
   createBrainDumpItem(item: InsertBrainDumpItem): Promise<BrainDumpItem>;
   deleteBrainDumpItem(id: number): Promise<void>;
   clearUserBrainDump(workspaceId: number, userId: string): Promise<void>;
@@ -127,13 +200,30 @@ export interface IStorage {
   // File operations
   getWorkspaceFiles(workspaceId: number): Promise<File[]>;
   getProjectFiles(projectId: number): Promise<File[]>;
+  getFileById(id: number): Promise<File | undefined>;
   createFile(file: InsertFile): Promise<File>;
   updateFile(id: number, updates: Partial<InsertFile>): Promise<File>;
   deleteFile(id: number): Promise<void>;
+  getFolderContents(workspaceId: number, parentId: number | null): Promise<File[]>;
+  getFileAncestors(id: number): Promise<File[]>;
+  getFileDescendants(id: number): Promise<File[]>;
+  findFileByName(workspaceId: number, parentId: number | null, name: string): Promise<File | undefined>;
+  relocateFile(id: number, parentId: number | null, name: string): Promise<File>;
+  deleteFiles(ids: number[]): Promise<string[]>;
+  getFileVersions(fileId: number): Promise<FileVersion[]>;
+  getFileVersionById(id: number): Promise<FileVersion | undefined>;
+  addFileVersion(fileId: number, version: NewFileVersion): Promise<{ file: File; version: FileVersion }>;
 
   // Chat operations
-  getWorkspaceChatHistory(workspaceId: number, limit?: number): Promise<ChatConversation[]>;
-  createChatConversation(conversation: InsertChatConversation): Promise<ChatConversation>;
+  getConversation(id: string): Promise<Conversation | undefined>;
+  ensureConversation(conversation: InsertConversation): Promise<void>;
+  createChatMessages(messages: InsertChatMessage[]): Promise<ChatMessage[]>;
+  getChatMessages(conversationIds: string[], messageTypes?: string[]): Promise<ChatMessage[]>;
+  getRecentUserChatMessages(workspaceId: number, userId: string, limit: number): Promise<ChatMessage[]>;
+  getChatMessageById(id: number): Promise<ChatMessage | undefined>;
+  updateChatMessageMetadata(id: number, metadata: string): Promise<ChatMessage>;
+  answerPendingChatAction(id: number, metadata: string): Promise<ChatMessage | undefined>;
+  migrateLegacyChatConversations(): Promise<number>;
 
   // Invitation operations
   createWorkspaceInvitation(invitation: InsertWorkspaceInvitation): Promise<WorkspaceInvitation>;
@@ -141,28 +231,125 @@ export interface IStorage {
   getInvitationById(id: number): Promise<WorkspaceInvitation | undefined>;
   getPendingInvitations(email: string): Promise<WorkspaceInvitation[]>;
   acceptInvitation(invitationId: number, userId: string): Promise<void>;
+  deleteExpiredInvitations(now: Date): Promise<number>;
 
   // Notification operations
   getUserNotifications(userId: string, workspaceId: number): Promise<Notification[]>;
+  getNotificationById(id: number): Promise<Notification | undefined>;
   createNotification(notification: InsertNotification): Promise<Notification>;
+  updateNotification(id: number, updates: Partial<InsertNotification>): Promise<Notification>;
+  updateNotifications(ids: number[], updates: Partial<InsertNotification>): Promise<void>;
+  hasTaskNotification(userId: string, taskId: number, type: string): Promise<boolean>;
   markNotificationAsRead(id: number): Promise<void>;
   markAllNotificationsAsRead(userId: string, workspaceId: number): Promise<void>;
   getUnreadNotificationCount(userId: string, workspaceId: number): Promise<number>;
+  getDueNotificationEmails(now: Date, limit: number): Promise<Notification[]>;
+  getDigestNotifications(): Promise<Notification[]>;
+  getNotificationPreferences(userId: string, workspaceId: number): Promise<NotificationPreferences | undefined>;
+  upsertNotificationPreferences(userId: string, workspaceId: number, preferences: NotificationPreferencesInput): Promise<NotificationPreferences>;
 
   // Task comment operations
   getTaskComments(taskId: number): Promise<TaskComment[]>;
+  getTaskCommentById(id: number): Promise<TaskComment | undefined>;
   createTaskComment(comment: InsertTaskComment): Promise<TaskComment>;
   deleteTaskComment(id: number): Promise<void>;
 
+  // Task attachment operations
+  getTaskAttachments(taskId: number): Promise<TaskAttachment[]>;
+  getTaskAttachmentById(id: number): Promise<TaskAttachment | undefined>;
+  getWorkspaceAttachmentCounts(workspaceId: number): Promise<AttachmentCounts>;
+  createTaskAttachment(attachment: InsertTaskAttachment): Promise<TaskAttachment>;
+  deleteTaskAttachment(id: number): Promise<void>;
+
+  // Subtask operations
+  getTaskSubtasks(taskId: number): Promise<Subtask[]>;
+  getSubtaskById(id: number): Promise<Subtask | undefined>;
+  getWorkspaceSubtaskProgress(workspaceId: number): Promise<SubtaskProgress>;
+  createSubtask(subtask: InsertSubtask): Promise<Subtask>;
+  updateSubtask(id: number, updates: Partial<InsertSubtask>): Promise<Subtask>;
+  deleteSubtask(id: number): Promise<void>;
+  reorderSubtasks(taskId: number, subtaskIds: number[]): Promise<Subtask[]>;
+
+  // Time tracking operations
+  getTaskTimeEntries(taskId: number): Promise<TimeEntry[]>;
+  getTimeEntryById(id: number): Promise<TimeEntry | undefined>;
+  getRunningTimeEntry(userId: string): Promise<TimeEntry | undefined>;
+  createTimeEntry(entry: InsertTimeEntry): Promise<TimeEntry>;
+  updateTimeEntry(id: number, updates: Partial<InsertTimeEntry>): Promise<TimeEntry>;
+  deleteTimeEntry(id: number): Promise<void>;
+  startTimer(workspaceId: number, taskId: number, userId: string): Promise<{ entry: TimeEntry; stopped: TimeEntry[] }>;
+  stopTimeEntry(id: number): Promise<TimeEntry>;
+  recalculateTaskActualHours(taskId: number): Promise<Task>;
+  getTimesheet(workspaceId: number, query: TimesheetQuery): Promise<Timesheet>;
+
+  // Task dependency operations
+  getWorkspaceTaskDependencies(workspaceId: number): Promise<TaskDependency[]>;
+  getTaskDependencies(taskId: number): Promise<TaskDependency[]>;
+  getTaskDependencyById(id: number): Promise<TaskDependency | undefined>;
+  createTaskDependency(dependency: InsertTaskDependency): Promise<TaskDependency>;
+  deleteTaskDependency(id: number): Promise<void>;
+
   // Task recurrence operations
   createTaskRecurrence(recurrence: InsertTaskRecurrence): Promise<TaskRecurrence>;
   getTaskRecurrence(id: number): Promise<TaskRecurrence | undefined>;
   updateTaskRecurrence(id: number, updates: Partial<InsertTaskRecurrence>): Promise<TaskRecurrence>;
   deleteTaskRecurrence(id: number): Promise<void>;
+  getRecurrencesNeedingInstances(windowEnd: string): Promise<TaskRecurrence[]>;
+  materializeRecurrenceInstances(recurrenceId: number, today?: Date): Promise<Task[]>;
+  backfillRecurrenceTemplates(): Promise<number>;
   deleteRecurringTaskInstances(recurrenceId: number, fromDate?: Date): Promise<void>;
+  splitTaskRecurrence(recurrenceId: number, splitDate: string, before: Partial<InsertTaskRecurrence>, after: Partial<InsertTaskRecurrence>): Promise<TaskRecurrence>;
+
+  // Calendar feed operations
+  getCalendarFeed(workspaceId: number, userId: string): Promise<CalendarFeed | undefined>;
+  getCalendarFeedByToken(token: string): Promise<CalendarFeed | undefined>;
+  rotateCalendarFeed(workspaceId: number, userId: string): Promise<CalendarFeed>;
+  deleteCalendarFeed(workspaceId: number, userId: string): Promise<void>;
+  markCalendarFeedAccessed(id: number): Promise<void>;
+
+  // Scheduled job operations
+  getScheduledJobs(): Promise<ScheduledJob[]>;
+  ensureScheduledJob(name: string, firstRunAt: Date): Promise<void>;
+  claimScheduledJob(name: string, now: Date, lockedUntil: Date): Promise<ScheduledJob | undefined>;
+  updateScheduledJob(name: string, updates: Partial<Omit<ScheduledJob, 'name'>>): Promise<void>;
+
+  // Webhook operations
+  getWorkspaceWebhooks(workspaceId: number): Promise<Webhook[]>;
+  getWebhookById(id: number): Promise<Webhook | undefined>;
+  getWebhooksForEvent(workspaceId: number, eventType: string): Promise<Webhook[]>;
+  createWebhook(workspaceId: number, createdBy: string, webhook: WebhookInput): Promise<Webhook>;
+  updateWebhook(id: number, updates: Partial<WebhookInput>): Promise<Webhook>;
+  rotateWebhookSecret(id: number): Promise<Webhook>;
+  deleteWebhook(id: number): Promise<void>;
+  getWebhookDeliveries(webhookId: number, limit: number, before?: number): Promise<WebhookDelivery[]>;
+  getWebhookDeliveryById(id: number): Promise<WebhookDelivery | undefined>;
+  createWebhookDeliveries(deliveries: Omit<WebhookDelivery, 'id' | 'createdAt' | 'status' | 'attempts' | 'lastAttemptAt' | 'responseStatus' | 'responseBody' | 'error' | 'durationMs'>[]): Promise<WebhookDelivery[]>;
+  updateWebhookDelivery(id: number, updates: Partial<Omit<WebhookDelivery, 'id'>>): Promise<WebhookDelivery>;
+  getDueWebhookDeliveries(now: Date, limit: number): Promise<WebhookDelivery[]>;
+  deleteWebhookDeliveriesBefore(date: Date): Promise<number>;
+
+  // API token operations
+  getUserApiTokens(userId: string): Promise<ApiToken[]>;
+  getWorkspaceApiTokens(workspaceId: number): Promise<ApiToken[]>;
+  getApiTokenById(id: number): Promise<ApiToken | undefined>;
+  getApiTokenByHash(tokenHash: string): Promise<ApiToken | undefined>;
+  createApiToken(token: Omit<ApiToken, 'id' | 'createdAt' | 'lastUsedAt' | 'revokedAt'>): Promise<ApiToken>;
+  revokeApiToken(id: number): Promise<void>;
+  markApiTokenUsed(id: number, usedAt: Date): Promise<void>;
+
+  // Sign-in credential operations
+  getUserCredentials(userId: string): Promise<UserCredentials | undefined>;
+  setUserPassword(userId: string, passwordHash: string, emailVerifiedAt: Date | null): Promise<void>;
+  deleteUnverifiedCredentials(userId: string): Promise<void>;
+  createAuthToken(token: Omit<AuthToken, 'id' | 'createdAt' | 'usedAt'>): Promise<AuthToken>;
+  getLatestAuthToken(email: string, purpose: AuthTokenPurpose): Promise<AuthToken | undefined>;
+  consumeAuthToken(tokenHash: string, purpose: AuthTokenPurpose, now: Date): Promise<AuthToken | undefined>;
+  deleteAuthTokensBefore(date: Date): Promise<number>;
 
   // Project component operations
   getProjectComponents(projectId: number): Promise<ProjectComponent[]>;
+  getWorkspaceComponents(workspaceId: number): Promise<ProjectComponent[]>;
+  getProjectComponentById(id: number): Promise<ProjectComponent | undefined>;
   createProjectComponent(component: InsertProjectComponent): Promise<ProjectComponent>;
   updateProjectComponent(id: number, updates: Partial<InsertProjectComponent>): Promise<ProjectComponent>;
   deleteProjectComponent(id: number): Promise<void>;
@@ -170,26 +357,31 @@ export interface IStorage {
   // Inflow/Outflow Type operations
   getProjectInflowTypes(projectId: number): Promise<InflowType[]>;
   createInflowType(inflowType: InsertInflowType): Promise<InflowType>;
+  getInflowTypeById(id: number): Promise<InflowType | undefined>;
   updateInflowType(id: number, updates: Partial<InsertInflowType>): Promise<InflowType>;
   deleteInflowType(id: number): Promise<void>;
 
   getProjectOutflowTypes(projectId: number): Promise<OutflowType[]>;
   createOutflowType(outflowType: InsertOutflowType): Promise<OutflowType>;
+  getOutflowTypeById(id: number): Promise<OutflowType | undefined>;
   updateOutflowType(id: number, updates: Partial<InsertOutflowType>): Promise<OutflowType>;
   deleteOutflowType(id: number): Promise<void>;
 
   // Financial operations
   getProjectBudgets(projectId: number): Promise<ProjectBudget[]>;
   createProjectBudget(budget: InsertProjectBudget): Promise<ProjectBudget>;
+  getProjectBudgetById(id: number): Promise<ProjectBudget | undefined>;
   updateProjectBudget(id: number, updates: Partial<InsertProjectBudget>): Promise<ProjectBudget>;
   deleteProjectBudget(id: number): Promise<void>;
 
   getProjectInflows(projectId: number): Promise<ProjectInflow[]>;
+  getProjectInflowById(id: number): Promise<ProjectInflow | undefined>;
   createProjectInflow(inflow: InsertProjectInflow): Promise<ProjectInflow>;
   updateProjectInflow(id: number, updates: Partial<InsertProjectInflow>): Promise<ProjectInflow>;
   deleteProjectInflow(id: number): Promise<void>;
 
   getProjectOutflows(projectId: number): Promise<ProjectOutflow[]>;
+  getProjectOutflowById(id: number): Promise<ProjectOutflow | undefined>;
   createProjectOutflow(outflow: InsertProjectOutflow): Promise<ProjectOutflow>;
   updateProjectOutflow(id: number, updates: Partial<InsertProjectOutflow>): Promise<ProjectOutflow>;
   deleteProjectOutflow(id: number): Promise<void>;
@@ -208,14 +400,114 @@ export interface IStorage {
   // Activity tracking operations
   logActivity(activity: InsertActivityLog): Promise<ActivityLog>;
   getUserActivities(userId: string, limit?: number): Promise<ActivityLog[]>;
-  getWorkspaceActivities(workspaceId: number, limit?: number): Promise<ActivityLog[]>;
+  getWorkspaceActivities(workspaceId: number, limit?: number): Promise<ActivityFeedEntry[]>;
   getRecentUserActivities(userId: string, hours?: number): Promise<ActivityLog[]>;
+  getAuditLog(workspaceId: number, query: AuditLogQuery): Promise<AuditLogEntry[]>;
+  getAuditLogFacets(workspaceId: number): Promise<AuditLogFacets>;
+  deleteActivityLogsBefore(date: Date): Promise<number>;
+
+  // Search operations
+  searchWorkspace(workspaceId: number, userId: string, query: ParsedSearchQuery, limit: number): Promise<SearchResponse>;
 
   // Seeding operations
   seedDefaultTypesForProject(projectId: number, workspaceId: number): Promise<void>;
 
 }
 
+// What a cursor's sort value may be for each column type, as Postgres prints it, so only
+// values the cast accepts reach the query
+const cursorValueSchemas = {
+  timestamp: z.string().refine(value => {
+    const [date, time] = value.split(' ');
+    return isValidDate(date) && /^([01]\d|2[0-3]):[0-5]\d:[0-5]\d(\.\d{1,6})?$/.test(time ?? '');
+  }),
+  date: z.string().refine(isValidDate),
+  integer: z.string().regex(/^-?\d{1,9}$/),
+  varchar: z.string().max(255),
+};
+
+// Sort expressions for task queries. Nulls are coalesced so keyset comparisons stay well-defined.
+const taskSortKeys: Record<TaskQuery['sort'], { expression: SQL; type: keyof typeof cursorValueSchemas }> = {
+  updatedAt: { expression: sql`coalesce(${tasks.updatedAt}, 'epoch'::timestamp)`, type: 'timestamp' },
+  createdAt: { expression: sql`coalesce(${tasks.createdAt}, 'epoch'::timestamp)`, type: 'timestamp' },
+  dueDate: { expression: sql`coalesce(${tasks.dueDate}, '9999-12-31'::date)`, type: 'date' },
+  priority: { expression: sql`coalesce(${tasks.priority}, 0)`, type: 'integer' },
+  title: { expression: sql`${tasks.title}`, type: 'varchar' },
+  status: { expression: sql`coalesce(${tasks.status}, '')`, type: 'varchar' },
+};
+
+// The WHERE conditions for the task list filters
+function taskFilterConditions(workspaceId: number, query: TaskFilters): SQL[] {
+  const conditions: SQL[] = [eq(tasks.workspaceId, workspaceId)];
+
+  if (query.status?.length) {
+    conditions.push(inArray(tasks.status, query.status));
+  }
+  if (query.priority?.length) {
+    conditions.push(inArray(tasks.priority, query.priority));
+  }
+  if (query.assignee) {
+    const values = query.assignee.split(',').map(v => v.trim());
+    const memberIds = values.filter(v => v !== 'unassigned').map(Number).filter(Number.isInteger);
+    const assigneeConditions: SQL[] = [];
+    if (memberIds.length) assigneeConditions.push(inArray(tasks.assignedMemberId, memberIds));
+    if (values.includes('unassigned')) assigneeConditions.push(isNull(tasks.assignedMemberId));
+    if (assigneeConditions.length) conditions.push(or(...assigneeConditions)!);
+  }
+  if (query.projectId?.length) {
+    conditions.push(inArray(tasks.projectId, query.projectId));
+  }
+  if (query.categoryId?.length) {
+    conditions.push(inArray(tasks.categoryId, query.categoryId));
+  }
+  if (query.dueFrom) {
+    conditions.push(gte(tasks.dueDate, query.dueFrom));
+  }
+  if (query.dueTo) {
+    conditions.push(lte(tasks.dueDate, query.dueTo));
+  }
+  if (query.recurring === 'true') {
+    conditions.push(or(eq(tasks.isRecurringInstance, true), isNotNull(tasks.taskRecurrenceId))!);
+  } else if (query.recurring === 'false') {
+    // NOT (x = true) would also drop rows where the flag is NULL
+    conditions.push(and(sql`coalesce(${tasks.isRecurringInstance}, false) = false`, isNull(tasks.taskRecurrenceId))!);
+  }
+  if (query.q) {
+    const pattern = `%${query.q.replace(/[\\%_]/g, '\\$&')}%`;
+    conditions.push(or(ilike(tasks.title, pattern), ilike(tasks.description, pattern))!);
+  }
+  return conditions;
+}
+
+function encodeTaskCursor(sortValue: string, id: number): string {
+  return Buffer.from(JSON.stringify([sortValue, id])).toString('base64url');
+}
+
+// The cursor's sort value has to match the type of the column being sorted by
+function decodeTaskCursor(cursor: string, type: keyof typeof cursorValueSchemas): [string, number] {
+  try {
+    const parsed = z.tuple([cursorValueSchemas[type], z.number().int()])
+      .safeParse(JSON.parse(Buffer.from(cursor, 'base64url').toString()));
+    if (parsed.success) {
+      return parsed.data;
+    }
+  } catch {
+    // fall through
+  }
+  throw new InvalidCursorError();
+}
+
+export class InvalidCursorError extends Error {
+  constructor() {
+    super("Invalid cursor");
+  }
+}
+
+// Whole minutes between two instants, used for the duration of a finished time entry
+function minutesBetween(start: Date, end: Date): number {
+  return Math.max(Math.round((end.getTime() - start.getTime()) / 60000), 0);
+}
+
 export class DatabaseStorage implements IStorage {
   // User operations
   async getUser(id: string): Promise<User | undefined> {
@@ -223,6 +515,11 @@ export class DatabaseStorage implements IStorage {
     return user;
   }
 
+  async getUserByEmail(email: string): Promise<User | undefined> {
+    const [user] = await db.select().from(users).where(eq(users.email, email));
+    return user;
+  }
+
   async upsertUser(userData: UpsertUser): Promise<User> {
     try {
       console.log('Database upsertUser called with:', userData);
@@ -351,6 +648,10 @@ export class DatabaseStorage implements IStorage {
     return uniqueWorkspaces;
   }
 
+  async getAllWorkspaces(): Promise<Workspace[]> {
+    return await db.select().from(workspaces).orderBy(asc(workspaces.id));
+  }
+
   async getWorkspaceById(id: number): Promise<Workspace | undefined> {
     const [workspace] = await db.select().from(workspaces).where(eq(workspaces.id, id));
     return workspace;
@@ -405,6 +706,18 @@ export class DatabaseStorage implements IStorage {
     }));
   }
 
+  async getActiveMembership(workspaceId: number, userId: string): Promise<WorkspaceMember | undefined> {
+    const [member] = await db
+      .select()
+      .from(workspaceMembers)
+      .where(and(
+        eq(workspaceMembers.workspaceId, workspaceId),
+        eq(workspaceMembers.userId, userId),
+        eq(workspaceMembers.isActive, true)
+      ));
+    return member;
+  }
+
   async addWorkspaceMember(member: InsertWorkspaceMember): Promise<WorkspaceMember> {
     const [newMember] = await db.insert(workspaceMembers).values(member).returning();
     return newMember;
@@ -466,6 +779,11 @@ export class DatabaseStorage implements IStorage {
       .orderBy(asc(categories.name));
   }
 
+  async getCategoryById(id: number): Promise<Category | undefined> {
+    const [category] = await db.select().from(categories).where(eq(categories.id, id));
+    return category;
+  }
+
   async createCategory(category: InsertCategory): Promise<Category> {
     const [newCategory] = await db.insert(categories).values(category).returning();
     return newCategory;
@@ -493,6 +811,60 @@ export class DatabaseStorage implements IStorage {
       .orderBy(desc(tasks.updatedAt));
   }
 
+  async queryWorkspaceTasks(workspaceId: number, query: TaskQuery): Promise<TaskPage> {
+    const conditions = taskFilterConditions(workspaceId, query);
+
+    // Keyset pagination: order by (sort value, id) and continue after the cursor's pair
+    const sortKey = taskSortKeys[query.sort];
+    const direction = query.order === 'asc' ? asc : desc;
+    if (query.cursor) {
+      const [value, id] = decodeTaskCursor(query.cursor, sortKey.type);
+      const operator = sql.raw(query.order === 'asc' ? '>' : '<');
+      conditions.push(sql`(${sortKey.expression}, ${tasks.id}) ${operator} (cast(${value} as ${sql.raw(sortKey.type)}), ${id})`);
+    }
+
+    const baseQuery = db
+      .select({ ...getTableColumns(tasks), sortValue: sql<string>`(${sortKey.expression})::text` })
+      .from(tasks)
+      .where(and(...conditions))
+      .orderBy(direction(sortKey.expression), direction(tasks.id));
+
+    const rows = query.limit ? await baseQuery.limit(query.limit + 1) : await baseQuery;
+    const hasMore = !!query.limit && rows.length > query.limit;
+    const page = hasMore ? rows.slice(0, query.limit) : rows;
+    const last = page[page.length - 1];
+
+    return {
+      tasks: page.map(({ sortValue, ...task }) => task),
+      nextCursor: hasMore && last ? encodeTaskCursor(last.sortValue, last.id) : null,
+    };
+  }
+
+  async getWorkspaceTaskProgress(workspaceId: number, filters: TaskFilters): Promise<TaskProgress> {
+    const rows = await db
+      .select({
+        projectId: tasks.projectId,
+        assignedMemberId: tasks.assignedMemberId,
+        total: count(),
+        completed: sql<number>`count(*) filter (where ${tasks.status} = 'completed')`.mapWith(Number),
+      })
+      .from(tasks)
+      .where(and(...taskFilterConditions(workspaceId, filters)))
+      .groupBy(tasks.projectId, tasks.assignedMemberId);
+
+    const progress: TaskProgress = { total: 0, completed: 0, byProject: {}, byMember: {} };
+    const add = (counts: TaskCounts, row: TaskCounts) => {
+      counts.total += row.total;
+      counts.completed += row.completed;
+    };
+    for (const row of rows) {
+      add(progress, row);
+      if (row.projectId !== null) add(progress.byProject[row.projectId] ??= { total: 0, completed: 0 }, row);
+      if (row.assignedMemberId !== null) add(progress.byMember[row.assignedMemberId] ??= { total: 0, completed: 0 }, row);
+    }
+    return progress;
+  }
+
   async getProjectTasks(projectId: number): Promise<Task[]> {
     return await db
       .select()
@@ -546,13 +918,37 @@ export class DatabaseStorage implements IStorage {
     return updatedTask;
   }
 
+  async updateTasks(ids: number[], updates: Partial<InsertTask>): Promise<Task[]> {
+    if (ids.length === 0) return [];
+    return await db
+      .update(tasks)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(inArray(tasks.id, ids))
+      .returning();
+  }
+
   async deleteTask(id: number): Promise<void> {
     // Delete related notifications first to avoid foreign key constraint violations
     await db.delete(notifications).where(eq(notifications.taskId, id));
     
+    // Unlink attachments; the files themselves stay in the vault
+    await db.delete(taskAttachments).where(eq(taskAttachments.taskId, id));
+
     // Delete related task comments
     await db.delete(taskComments).where(eq(taskComments.taskId, id));
     
+    // Delete subtasks
+    await db.delete(subtasks).where(eq(subtasks.taskId, id));
+    
+    // Delete logged time
+    await db.delete(timeEntries).where(eq(timeEntries.taskId, id));
+    
+    // Delete dependency links in either direction
+    await db.delete(taskDependencies).where(or(
+      eq(taskDependencies.predecessorTaskId, id),
+      eq(taskDependencies.successorTaskId, id)
+    ));
+    
     // Delete the task
     await db.delete(tasks).where(eq(tasks.id, id));
   }
@@ -561,7 +957,8 @@ export class DatabaseStorage implements IStorage {
     return await db
       .select()
       .from(tasks)
-      .where(eq(tasks.taskRecurrenceId, recurrenceId));
+      .where(eq(tasks.taskRecurrenceId, recurrenceId))
+      .orderBy(asc(tasks.id));
   }
 
   async getDueTodayTasks(workspaceId: number): Promise<Task[]> {
@@ -621,6 +1018,11 @@ export class DatabaseStorage implements IStorage {
     return newItem;
   }
 
+  async getBrainDumpItemById(id: number): Promise<BrainDumpItem | undefined> {
+    const [item] = await db.select().from(brainDumpItems).where(eq(brainDumpItems.id, id));
+    return item;
+  }
+
   async deleteBrainDumpItem(id: number): Promise<void> {
     await db.delete(brainDumpItems).where(eq(brainDumpItems.id, id));
   }
@@ -649,9 +1051,27 @@ export class DatabaseStorage implements IStorage {
       .orderBy(desc(files.createdAt));
   }
 
+  async getFileById(id: number): Promise<File | undefined> {
+    const [file] = await db.select().from(files).where(eq(files.id, id));
+    return file;
+  }
+
+  // Uploaded files start their history with version 1; folders have none
   async createFile(file: InsertFile): Promise<File> {
-    const [newFile] = await db.insert(files).values(file).returning();
-    return newFile;
+    return await db.transaction(async (tx) => {
+      const [newFile] = await tx.insert(files).values({ ...file, currentVersion: 1 }).returning();
+      if (newFile.storageKey) {
+        await tx.insert(fileVersions).values({
+          fileId: newFile.id,
+          versionNumber: 1,
+          storageKey: newFile.storageKey,
+          mimeType: newFile.mimeType,
+          size: newFile.size,
+          uploadedBy: newFile.uploadedBy,
+        });
+      }
+      return newFile;
+    });
   }
 
   async updateFile(id: number, updates: Partial<InsertFile>): Promise<File> {
@@ -667,27 +1087,175 @@ export class DatabaseStorage implements IStorage {
     await db.delete(files).where(eq(files.id, id));
   }
 
-  // Chat operations - enhanced with conversation threads
-  async getWorkspaceChatHistory(workspaceId: number, limit: number = 50): Promise<ChatConversation[]> {
+  // Direct children of a folder (or of the root), folders first
+  async getFolderContents(workspaceId: number, parentId: number | null): Promise<File[]> {
     return await db
       .select()
-      .from(chatConversations)
-      .where(eq(chatConversations.workspaceId, workspaceId))
-      .orderBy(desc(chatConversations.createdAt))
-      .limit(limit);
+      .from(files)
+      .where(and(
+        eq(files.workspaceId, workspaceId),
+        parentId === null ? isNull(files.parentId) : eq(files.parentId, parentId)
+      ))
+      .orderBy(sql`${files.mimeType} = ${FOLDER_MIME_TYPE} desc`, asc(files.name));
+  }
+
+  // The chain from the top-level folder down to the item itself
+  async getFileAncestors(id: number): Promise<File[]> {
+    const chain: File[] = [];
+    const seen = new Set<number>();
+    let current = await this.getFileById(id);
+    while (current && !seen.has(current.id)) {
+      chain.unshift(current);
+      seen.add(current.id);
+      current = current.parentId ? await this.getFileById(current.parentId) : undefined;
+    }
+    return chain;
+  }
+
+  // Everything below a folder, level by level
+  async getFileDescendants(id: number): Promise<File[]> {
+    const descendants: File[] = [];
+    const seen = new Set<number>([id]);
+    let parentIds = [id];
+    while (parentIds.length > 0) {
+      const children = await db.select().from(files).where(inArray(files.parentId, parentIds));
+      const fresh = children.filter(child => !seen.has(child.id));
+      fresh.forEach(child => seen.add(child.id));
+      descendants.push(...fresh);
+      parentIds = fresh.filter(child => child.mimeType === FOLDER_MIME_TYPE).map(child => child.id);
+    }
+    return descendants;
   }
 
-  async getConversationMessages(workspaceId: number, conversationId: string): Promise<ChatConversation[]> {
-    return await db
+  async findFileByName(workspaceId: number, parentId: number | null, name: string): Promise<File | undefined> {
+    const [file] = await db
       .select()
-      .from(chatConversations)
-      .where(
-        and(
-          eq(chatConversations.workspaceId, workspaceId),
-          eq(chatConversations.conversationId, conversationId)
-        )
-      )
-      .orderBy(chatConversations.createdAt);
+      .from(files)
+      .where(and(
+        eq(files.workspaceId, workspaceId),
+        parentId === null ? isNull(files.parentId) : eq(files.parentId, parentId),
+        eq(files.name, name)
+      ))
+      .limit(1);
+    return file;
+  }
+
+  // Move and/or rename an item, rewriting the stored paths of everything beneath it
+  async relocateFile(id: number, parentId: number | null, name: string): Promise<File> {
+    const file = await this.getFileById(id);
+    if (!file) throw new Error(`File ${id} not found`);
+
+    const parent = parentId !== null ? await this.getFileById(parentId) : undefined;
+    const newPath = `${parent ? parent.path : ''}/${name}`;
+    const descendants = file.mimeType === FOLDER_MIME_TYPE ? await this.getFileDescendants(id) : [];
+
+    return await db.transaction(async (tx) => {
+      const [updated] = await tx
+        .update(files)
+        .set({ parentId, name, path: newPath })
+        .where(eq(files.id, id))
+        .returning();
+
+      if (descendants.length > 0) {
+        await tx
+          .update(files)
+          .set({ path: sql`${newPath} || substring(${files.path} from ${file.path.length + 1})` })
+          .where(inArray(files.id, descendants.map(descendant => descendant.id)));
+      }
+      return updated;
+    });
+  }
+
+  // Returns every storage key the removed rows referenced, versions included
+  async deleteFiles(ids: number[]): Promise<string[]> {
+    if (ids.length === 0) return [];
+    return await db.transaction(async (tx) => {
+      await tx.delete(taskAttachments).where(inArray(taskAttachments.fileId, ids));
+      const removedVersions = await tx
+        .delete(fileVersions)
+        .where(inArray(fileVersions.fileId, ids))
+        .returning({ storageKey: fileVersions.storageKey });
+      const removedFiles = await tx
+        .delete(files)
+        .where(inArray(files.id, ids))
+        .returning({ storageKey: files.storageKey });
+
+      const keys = new Set<string>();
+      for (const { storageKey } of [...removedVersions, ...removedFiles]) {
+        if (storageKey) keys.add(storageKey);
+      }
+      return Array.from(keys);
+    });
+  }
+
+  async getFileVersions(fileId: number): Promise<FileVersion[]> {
+    const versions = await db
+      .select({
+        ...getTableColumns(fileVersions),
+        uploaderName: sql<string>`COALESCE(${users.firstName} || ' ' || ${users.lastName}, ${users.email}, ${fileVersions.uploadedBy})`,
+      })
+      .from(fileVersions)
+      .leftJoin(users, eq(fileVersions.uploadedBy, users.id))
+      .where(eq(fileVersions.fileId, fileId))
+      .orderBy(desc(fileVersions.versionNumber));
+
+    return versions as FileVersion[];
+  }
+
+  async getFileVersionById(id: number): Promise<FileVersion | undefined> {
+    const [version] = await db.select().from(fileVersions).where(eq(fileVersions.id, id));
+    return version;
+  }
+
+  // Makes the given blob the newest version. The file row is locked so two uploads
+  // of the same name can't both claim the next version number.
+  async addFileVersion(fileId: number, version: NewFileVersion): Promise<{ file: File; version: FileVersion }> {
+    return await db.transaction(async (tx) => {
+      const [file] = await tx.select().from(files).where(eq(files.id, fileId)).for('update');
+      if (!file) throw new Error(`File ${fileId} not found`);
+
+      // Files uploaded before versioning existed have no history row for their current contents
+      const [existing] = await tx
+        .select({ id: fileVersions.id })
+        .from(fileVersions)
+        .where(eq(fileVersions.fileId, fileId))
+        .limit(1);
+      if (!existing && file.storageKey) {
+        await tx.insert(fileVersions).values({
+          fileId,
+          versionNumber: file.currentVersion,
+          storageKey: file.storageKey,
+          mimeType: file.mimeType,
+          size: file.size,
+          uploadedBy: file.uploadedBy,
+          createdAt: file.updatedAt ?? file.createdAt ?? undefined,
+        });
+      }
+
+      const versionNumber = file.currentVersion + 1;
+      const [created] = await tx
+        .insert(fileVersions)
+        .values({ ...version, fileId, versionNumber })
+        .returning();
+      const [updated] = await tx
+        .update(files)
+        .set({
+          storageKey: version.storageKey,
+          mimeType: version.mimeType,
+          size: version.size,
+          currentVersion: versionNumber,
+          updatedAt: new Date(),
+        })
+        .where(eq(files.id, fileId))
+        .returning();
+      return { file: updated, version: created };
+    });
+  }
+
+  // Chat operations - a conversation's turns are its chat_messages; see server/aiChat.ts
+  async getConversation(id: string): Promise<Conversation | undefined> {
+    const [conversation] = await db.select().from(conversations).where(eq(conversations.id, id));
+    return conversation;
   }
 
   async getWorkspaceConversations(workspaceId: number, userId: string): Promise<{
@@ -697,46 +1265,39 @@ export class DatabaseStorage implements IStorage {
     lastActivity: Date;
     messageCount: number;
   }[]> {
-    const conversations = await db
-      .select({
-        conversationId: chatConversations.conversationId,
-        title: chatConversations.title,
-        message: chatConversations.message,
-        createdAt: chatConversations.createdAt,
-      })
-      .from(chatConversations)
+    const userConversations = await db
+      .select()
+      .from(conversations)
       .where(
         and(
-          eq(chatConversations.workspaceId, workspaceId),
-          eq(chatConversations.userId, userId)
+          eq(conversations.workspaceId, workspaceId),
+          eq(conversations.userId, userId)
         )
       )
-      .orderBy(desc(chatConversations.createdAt));
-
-    // Group by conversationId and get summary info
-    const conversationMap = new Map();
-    
-    conversations.forEach(conv => {
-      if (!conversationMap.has(conv.conversationId)) {
-        conversationMap.set(conv.conversationId, {
-          conversationId: conv.conversationId,
-          title: conv.title || this.generateConversationTitle(conv.message),
-          lastMessage: conv.message,
-          lastActivity: conv.createdAt,
-          messageCount: 1
-        });
-      } else {
-        const existing = conversationMap.get(conv.conversationId);
-        existing.messageCount += 1;
-        if (conv.createdAt && existing.lastActivity && conv.createdAt > existing.lastActivity) {
-          existing.lastActivity = conv.createdAt;
-          existing.lastMessage = conv.message;
-        }
-      }
+      .orderBy(desc(conversations.updatedAt));
+
+    // The user's messages, oldest first: the first names the conversation, the last is shown
+    const questions = await this.getChatMessages(userConversations.map(conv => conv.id), ['user']);
+    const byConversation = new Map<string, ChatMessage[]>();
+    questions.forEach(message => {
+      const messages = byConversation.get(message.conversationId) ?? [];
+      messages.push(message);
+      byConversation.set(message.conversationId, messages);
     });
 
-    return Array.from(conversationMap.values())
-      .sort((a, b) => new Date(b.lastActivity).getTime() - new Date(a.lastActivity).getTime());
+    return userConversations
+      .filter(conv => byConversation.has(conv.id))
+      .map(conv => {
+        const messages = byConversation.get(conv.id)!;
+        const last = messages[messages.length - 1];
+        return {
+          conversationId: conv.id,
+          title: conv.title || this.generateConversationTitle(messages[0].content),
+          lastMessage: last.content,
+          lastActivity: conv.updatedAt ?? last.createdAt ?? new Date(),
+          messageCount: messages.length,
+        };
+      });
   }
 
   private generateConversationTitle(firstMessage: string): string {
@@ -745,24 +1306,163 @@ export class DatabaseStorage implements IStorage {
     return words.join(' ') + (firstMessage.split(' ').length > 6 ? '...' : '');
   }
 
-  async createChatConversation(conversation: InsertChatConversation): Promise<ChatConversation> {
-    const [newConversation] = await db.insert(chatConversations).values(conversation).returning();
-    return newConversation;
+  async ensureConversation(conversation: InsertConversation): Promise<void> {
+    await db.insert(conversations).values(conversation).onConflictDoNothing();
+  }
+
+  async createChatMessages(messages: InsertChatMessage[]): Promise<ChatMessage[]> {
+    if (messages.length === 0) return [];
+    const created = await db.insert(chatMessages).values(messages).returning();
+    const conversationIds = Array.from(new Set(messages.map(message => message.conversationId)));
+    await db.update(conversations).set({ updatedAt: new Date() }).where(inArray(conversations.id, conversationIds));
+    return created;
+  }
+
+  async getChatMessages(conversationIds: string[], messageTypes?: string[]): Promise<ChatMessage[]> {
+    if (conversationIds.length === 0) return [];
+    const conditions: SQL[] = [inArray(chatMessages.conversationId, conversationIds)];
+    if (messageTypes) conditions.push(inArray(chatMessages.messageType, messageTypes));
+    return await db
+      .select()
+      .from(chatMessages)
+      .where(and(...conditions))
+      .orderBy(asc(chatMessages.id));
+  }
+
+  // The user's latest messages across their conversations in the workspace, newest first
+  async getRecentUserChatMessages(workspaceId: number, userId: string, limit: number): Promise<ChatMessage[]> {
+    return await db
+      .select({ ...getTableColumns(chatMessages) })
+      .from(chatMessages)
+      .innerJoin(conversations, eq(chatMessages.conversationId, conversations.id))
+      .where(and(
+        eq(conversations.workspaceId, workspaceId),
+        eq(conversations.userId, userId),
+        eq(chatMessages.messageType, 'user'),
+      ))
+      .orderBy(desc(chatMessages.id))
+      .limit(limit);
+  }
+
+  async getChatMessageById(id: number): Promise<ChatMessage | undefined> {
+    const [message] = await db.select().from(chatMessages).where(eq(chatMessages.id, id));
+    return message;
+  }
+
+  async updateChatMessageMetadata(id: number, metadata: string): Promise<ChatMessage> {
+    const [updated] = await db
+      .update(chatMessages)
+      .set({ metadata })
+      .where(eq(chatMessages.id, id))
+      .returning();
+    return updated;
+  }
+
+  // Sets a tool call's metadata only while its status is still 'pending', so of two
+  // answers arriving together just one gets the row back
+  async answerPendingChatAction(id: number, metadata: string): Promise<ChatMessage | undefined> {
+    const [updated] = await db
+      .update(chatMessages)
+      .set({ metadata })
+      .where(and(eq(chatMessages.id, id), sql`(${chatMessages.metadata})::jsonb ->> 'status' = 'pending'`))
+      .returning();
+    return updated;
+  }
+
+  // Moves legacy chat_conversations rows into conversations/chat_messages, one
+  // conversation per transaction. Each row becomes a user message and, if it was
+  // answered, an ai message; tool calls saved against the row are re-pointed at the new
+  // user message. Returns how many rows were moved.
+  async migrateLegacyChatConversations(): Promise<number> {
+    const legacy = await db.select().from(chatConversations).orderBy(asc(chatConversations.id));
+    const byConversation = new Map<string, ChatConversation[]>();
+    legacy.forEach(row => {
+      const rows = byConversation.get(row.conversationId) ?? [];
+      rows.push(row);
+      byConversation.set(row.conversationId, rows);
+    });
+
+    const turnIdOf = (message: ChatMessage): number | undefined => {
+      try {
+        return message.metadata ? JSON.parse(message.metadata).turnId : undefined;
+      } catch {
+        return undefined;
+      }
+    };
+
+    for (const rows of Array.from(byConversation.values())) {
+      const first = rows[0];
+      await db.transaction(async (tx) => {
+        await tx.insert(conversations).values({
+          id: first.conversationId,
+          workspaceId: first.workspaceId,
+          userId: first.userId,
+          title: rows.find(row => row.title)?.title ?? null,
+          createdAt: first.createdAt,
+          updatedAt: rows[rows.length - 1].createdAt,
+        }).onConflictDoNothing();
+
+        const toolMessages = await tx
+          .select()
+          .from(chatMessages)
+          .where(and(
+            eq(chatMessages.conversationId, first.conversationId),
+            inArray(chatMessages.messageType, ['tool_call', 'tool_result'])
+          ));
+
+        for (const row of rows) {
+          const [question] = await tx.insert(chatMessages).values({
+            conversationId: row.conversationId,
+            messageType: 'user',
+            content: row.message,
+            createdAt: row.createdAt,
+          }).returning();
+          if (row.response) {
+            await tx.insert(chatMessages).values({
+              conversationId: row.conversationId,
+              messageType: 'ai',
+              content: row.response,
+              metadata: JSON.stringify({ turnId: question.id }),
+              createdAt: row.createdAt,
+            });
+          }
+          for (const message of toolMessages.filter(message => turnIdOf(message) === row.id)) {
+            await tx
+              .update(chatMessages)
+              .set({ metadata: JSON.stringify({ ...JSON.parse(message.metadata!), turnId: question.id }) })
+              .where(eq(chatMessages.id, message.id));
+          }
+        }
+
+        await tx.delete(chatConversations).where(inArray(chatConversations.id, rows.map(row => row.id)));
+      });
+    }
+    return legacy.length;
   }
 
   async updateConversationTitle(workspaceId: number, conversationId: string, title: string): Promise<void> {
     await db
-      .update(chatConversations)
+      .update(conversations)
       .set({ title })
       .where(
         and(
-          eq(chatConversations.workspaceId, workspaceId),
-          eq(chatConversations.conversationId, conversationId)
+          eq(conversations.workspaceId, workspaceId),
+          eq(conversations.id, conversationId)
         )
       );
   }
 
   async deleteConversation(workspaceId: number, conversationId: string): Promise<void> {
+    const [conversation] = await db
+      .select({ id: conversations.id })
+      .from(conversations)
+      .where(and(eq(conversations.id, conversationId), eq(conversations.workspaceId, workspaceId)));
+    if (conversation) {
+      await db.delete(chatMessages).where(eq(chatMessages.conversationId, conversationId));
+      await db.delete(conversations).where(eq(conversations.id, conversationId));
+    }
+
+    // Rows the migration hasn't moved yet
     await db
       .delete(chatConversations)
       .where(
@@ -863,22 +1563,55 @@ export class DatabaseStorage implements IStorage {
       .where(eq(workspaceInvitations.id, invitationId));
   }
 
+  async deleteExpiredInvitations(now: Date): Promise<number> {
+    const deleted = await db
+      .delete(workspaceInvitations)
+      .where(and(eq(workspaceInvitations.status, 'pending'), lte(workspaceInvitations.expiresAt, now)))
+      .returning({ id: workspaceInvitations.id });
+    return deleted.length;
+  }
+
   // Notification operations
   async getUserNotifications(userId: string, workspaceId: number): Promise<Notification[]> {
     return db.select()
       .from(notifications)
       .where(and(
         eq(notifications.userId, userId),
-        eq(notifications.workspaceId, workspaceId)
+        eq(notifications.workspaceId, workspaceId),
+        eq(notifications.inApp, true)
       ))
       .orderBy(desc(notifications.createdAt));
   }
 
+  async getNotificationById(id: number): Promise<Notification | undefined> {
+    const [notification] = await db.select().from(notifications).where(eq(notifications.id, id));
+    return notification;
+  }
+
   async createNotification(notification: InsertNotification): Promise<Notification> {
     const [created] = await db.insert(notifications).values(notification).returning();
     return created;
   }
 
+  async updateNotification(id: number, updates: Partial<InsertNotification>): Promise<Notification> {
+    const [updated] = await db.update(notifications).set(updates).where(eq(notifications.id, id)).returning();
+    return updated;
+  }
+
+  async updateNotifications(ids: number[], updates: Partial<InsertNotification>): Promise<void> {
+    if (ids.length === 0) return;
+    await db.update(notifications).set(updates).where(inArray(notifications.id, ids));
+  }
+
+  async hasTaskNotification(userId: string, taskId: number, type: string): Promise<boolean> {
+    const [existing] = await db
+      .select({ id: notifications.id })
+      .from(notifications)
+      .where(and(eq(notifications.userId, userId), eq(notifications.taskId, taskId), eq(notifications.type, type)))
+      .limit(1);
+    return !!existing;
+  }
+
   async markNotificationAsRead(id: number): Promise<void> {
     await db.update(notifications)
       .set({ isRead: true })
@@ -891,6 +1624,7 @@ export class DatabaseStorage implements IStorage {
       .where(and(
         eq(notifications.userId, userId),
         eq(notifications.workspaceId, workspaceId),
+        eq(notifications.inApp, true),
         eq(notifications.isRead, false)
       ));
   }
@@ -901,11 +1635,50 @@ export class DatabaseStorage implements IStorage {
       .where(and(
         eq(notifications.userId, userId),
         eq(notifications.workspaceId, workspaceId),
+        eq(notifications.inApp, true),
         eq(notifications.isRead, false)
       ));
     return result[0]?.count || 0;
   }
 
+  // Pending emails whose (re)try time has come, oldest first
+  async getDueNotificationEmails(now: Date, limit: number): Promise<Notification[]> {
+    return db.select()
+      .from(notifications)
+      .where(and(
+        eq(notifications.emailStatus, 'pending'),
+        or(isNull(notifications.emailNextAttemptAt), lte(notifications.emailNextAttemptAt, now))
+      ))
+      .orderBy(asc(notifications.createdAt))
+      .limit(limit);
+  }
+
+  async getDigestNotifications(): Promise<Notification[]> {
+    return db.select()
+      .from(notifications)
+      .where(eq(notifications.emailStatus, 'digest'))
+      .orderBy(asc(notifications.createdAt));
+  }
+
+  async getNotificationPreferences(userId: string, workspaceId: number): Promise<NotificationPreferences | undefined> {
+    const [preferences] = await db.select()
+      .from(notificationPreferences)
+      .where(and(eq(notificationPreferences.userId, userId), eq(notificationPreferences.workspaceId, workspaceId)));
+    return preferences;
+  }
+
+  async upsertNotificationPreferences(userId: string, workspaceId: number, preferences: NotificationPreferencesInput): Promise<NotificationPreferences> {
+    const values = { ...preferences, updatedAt: new Date() };
+    const [saved] = await db.insert(notificationPreferences)
+      .values({ userId, workspaceId, ...values })
+      .onConflictDoUpdate({
+        target: [notificationPreferences.userId, notificationPreferences.workspaceId],
+        set: values,
+      })
+      .returning();
+    return saved;
+  }
+
   // Task comment operations
   async getTaskComments(taskId: number): Promise<TaskComment[]> {
     const comments = await db
@@ -926,15 +1699,355 @@ export class DatabaseStorage implements IStorage {
     return comments as TaskComment[];
   }
 
+  async getTaskCommentById(id: number): Promise<TaskComment | undefined> {
+    const [comment] = await db.select().from(taskComments).where(eq(taskComments.id, id));
+    return comment;
+  }
+
   async createTaskComment(comment: InsertTaskComment): Promise<TaskComment> {
     const [created] = await db.insert(taskComments).values(comment).returning();
     return created;
   }
 
   async deleteTaskComment(id: number): Promise<void> {
+    await db.delete(taskAttachments).where(eq(taskAttachments.commentId, id));
     await db.delete(taskComments).where(eq(taskComments.id, id));
   }
 
+  // Task attachment operations
+  private selectTaskAttachments() {
+    return db
+      .select({
+        ...getTableColumns(taskAttachments),
+        fileName: files.name,
+        mimeType: files.mimeType,
+        size: files.size,
+      })
+      .from(taskAttachments)
+      .innerJoin(files, eq(taskAttachments.fileId, files.id));
+  }
+
+  async getTaskAttachments(taskId: number): Promise<TaskAttachment[]> {
+    return await this.selectTaskAttachments()
+      .where(eq(taskAttachments.taskId, taskId))
+      .orderBy(asc(taskAttachments.createdAt), asc(taskAttachments.id));
+  }
+
+  async getTaskAttachmentById(id: number): Promise<TaskAttachment | undefined> {
+    const [attachment] = await this.selectTaskAttachments().where(eq(taskAttachments.id, id));
+    return attachment;
+  }
+
+  async getWorkspaceAttachmentCounts(workspaceId: number): Promise<AttachmentCounts> {
+    const rows = await db
+      .select({ taskId: taskAttachments.taskId, total: count() })
+      .from(taskAttachments)
+      .where(eq(taskAttachments.workspaceId, workspaceId))
+      .groupBy(taskAttachments.taskId);
+
+    const counts: AttachmentCounts = {};
+    for (const row of rows) {
+      counts[row.taskId] = row.total;
+    }
+    return counts;
+  }
+
+  async createTaskAttachment(attachment: InsertTaskAttachment): Promise<TaskAttachment> {
+    const [created] = await db.insert(taskAttachments).values(attachment).returning();
+    return (await this.getTaskAttachmentById(created.id))!;
+  }
+
+  async deleteTaskAttachment(id: number): Promise<void> {
+    await db.delete(taskAttachments).where(eq(taskAttachments.id, id));
+  }
+
+  // Subtask operations
+  async getTaskSubtasks(taskId: number): Promise<Subtask[]> {
+    return await db
+      .select()
+      .from(subtasks)
+      .where(eq(subtasks.taskId, taskId))
+      .orderBy(asc(subtasks.position), asc(subtasks.id));
+  }
+
+  async getSubtaskById(id: number): Promise<Subtask | undefined> {
+    const [subtask] = await db.select().from(subtasks).where(eq(subtasks.id, id));
+    return subtask;
+  }
+
+  async getWorkspaceSubtaskProgress(workspaceId: number): Promise<SubtaskProgress> {
+    const rows = await db
+      .select({
+        taskId: subtasks.taskId,
+        total: count(),
+        completed: sql<number>`count(*) filter (where ${subtasks.status} = 'completed')`.mapWith(Number),
+      })
+      .from(subtasks)
+      .where(eq(subtasks.workspaceId, workspaceId))
+      .groupBy(subtasks.taskId);
+
+    const progress: SubtaskProgress = {};
+    for (const row of rows) {
+      progress[row.taskId] = { total: row.total, completed: row.completed };
+    }
+    return progress;
+  }
+
+  async createSubtask(subtask: InsertSubtask): Promise<Subtask> {
+    // New items go to the end of the list unless a position is given
+    const [{ maxPosition }] = await db
+      .select({ maxPosition: sql<number>`coalesce(max(${subtasks.position}), -1)`.mapWith(Number) })
+      .from(subtasks)
+      .where(eq(subtasks.taskId, subtask.taskId));
+
+    const [created] = await db
+      .insert(subtasks)
+      .values({ ...subtask, position: subtask.position ?? maxPosition + 1 })
+      .returning();
+    return created;
+  }
+
+  async updateSubtask(id: number, updates: Partial<InsertSubtask>): Promise<Subtask> {
+    const [updated] = await db
+      .update(subtasks)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(subtasks.id, id))
+      .returning();
+    return updated;
+  }
+
+  async deleteSubtask(id: number): Promise<void> {
+    await db.delete(subtasks).where(eq(subtasks.id, id));
+  }
+
+  async reorderSubtasks(taskId: number, subtaskIds: number[]): Promise<Subtask[]> {
+    await db.transaction(async (tx) => {
+      for (let position = 0; position < subtaskIds.length; position++) {
+        await tx
+          .update(subtasks)
+          .set({ position })
+          .where(and(eq(subtasks.id, subtaskIds[position]), eq(subtasks.taskId, taskId)));
+      }
+    });
+    return this.getTaskSubtasks(taskId);
+  }
+
+  // Time tracking operations
+  async getTaskTimeEntries(taskId: number): Promise<TimeEntry[]> {
+    const entries = await db
+      .select({
+        ...getTableColumns(timeEntries),
+        userName: sql<string>`COALESCE(${users.firstName} || ' ' || ${users.lastName}, ${users.email})`.as('userName')
+      })
+      .from(timeEntries)
+      .leftJoin(users, eq(timeEntries.userId, users.id))
+      .where(eq(timeEntries.taskId, taskId))
+      .orderBy(desc(timeEntries.startedAt));
+
+    return entries as TimeEntry[];
+  }
+
+  async getTimeEntryById(id: number): Promise<TimeEntry | undefined> {
+    const [entry] = await db.select().from(timeEntries).where(eq(timeEntries.id, id));
+    return entry;
+  }
+
+  async getRunningTimeEntry(userId: string): Promise<TimeEntry | undefined> {
+    const [entry] = await db
+      .select()
+      .from(timeEntries)
+      .where(and(eq(timeEntries.userId, userId), isNull(timeEntries.endedAt)))
+      .orderBy(desc(timeEntries.startedAt))
+      .limit(1);
+    return entry;
+  }
+
+  async createTimeEntry(entry: InsertTimeEntry): Promise<TimeEntry> {
+    const [created] = await db.insert(timeEntries).values(entry).returning();
+    return created;
+  }
+
+  async updateTimeEntry(id: number, updates: Partial<InsertTimeEntry>): Promise<TimeEntry> {
+    const [updated] = await db
+      .update(timeEntries)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(timeEntries.id, id))
+      .returning();
+    return updated;
+  }
+
+  async deleteTimeEntry(id: number): Promise<void> {
+    await db.delete(timeEntries).where(eq(timeEntries.id, id));
+  }
+
+  // A user runs at most one timer, so starting a new one stops whatever was running
+  async startTimer(workspaceId: number, taskId: number, userId: string): Promise<{ entry: TimeEntry; stopped: TimeEntry[] }> {
+    return await db.transaction(async (tx) => {
+      const now = new Date();
+      const running = await tx
+        .select()
+        .from(timeEntries)
+        .where(and(eq(timeEntries.userId, userId), isNull(timeEntries.endedAt)));
+
+      const stopped: TimeEntry[] = [];
+      for (const runningEntry of running) {
+        const [updated] = await tx
+          .update(timeEntries)
+          .set({ endedAt: now, durationMinutes: minutesBetween(runningEntry.startedAt, now), updatedAt: now })
+          .where(eq(timeEntries.id, runningEntry.id))
+          .returning();
+        stopped.push(updated);
+      }
+
+      const [entry] = await tx
+        .insert(timeEntries)
+        .values({ workspaceId, taskId, userId, source: 'timer', startedAt: now })
+        .returning();
+
+      return { entry, stopped };
+    });
+  }
+
+  async stopTimeEntry(id: number): Promise<TimeEntry> {
+    const entry = await this.getTimeEntryById(id);
+    if (!entry || entry.endedAt) {
+      return entry as TimeEntry;
+    }
+
+    const endedAt = new Date();
+    return this.updateTimeEntry(id, { endedAt, durationMinutes: minutesBetween(entry.startedAt, endedAt) });
+  }
+
+  // actualHours is the sum of all finished entries; running timers count once stopped
+  async recalculateTaskActualHours(taskId: number): Promise<Task> {
+    const [{ minutes }] = await db
+      .select({ minutes: sql<number>`coalesce(sum(${timeEntries.durationMinutes}), 0)`.mapWith(Number) })
+      .from(timeEntries)
+      .where(and(eq(timeEntries.taskId, taskId), isNotNull(timeEntries.endedAt)));
+
+    const [task] = await db
+      .update(tasks)
+      .set({ actualHours: (minutes / 60).toFixed(2), updatedAt: new Date() })
+      .where(eq(tasks.id, taskId))
+      .returning();
+    return task;
+  }
+
+  async getTimesheet(workspaceId: number, query: TimesheetQuery): Promise<Timesheet> {
+    // Dates are inclusive, so the range ends at the start of the day after `to`
+    const rangeStart = new Date(`${query.from}T00:00:00`);
+    const rangeEnd = new Date(`${query.to}T00:00:00`);
+    rangeEnd.setDate(rangeEnd.getDate() + 1);
+
+    const conditions: SQL[] = [
+      eq(timeEntries.workspaceId, workspaceId),
+      isNotNull(timeEntries.endedAt),
+      gte(timeEntries.startedAt, rangeStart),
+      sql`${timeEntries.startedAt} < ${rangeEnd}`,
+    ];
+    if (query.projectId) conditions.push(eq(tasks.projectId, query.projectId));
+    if (query.userId) conditions.push(eq(timeEntries.userId, query.userId));
+
+    const rows = await db
+      .select({
+        id: timeEntries.id,
+        startedAt: timeEntries.startedAt,
+        durationMinutes: timeEntries.durationMinutes,
+        note: timeEntries.note,
+        userId: timeEntries.userId,
+        userName: sql<string>`COALESCE(${users.firstName} || ' ' || ${users.lastName}, ${users.email}, ${timeEntries.userId})`,
+        taskId: tasks.id,
+        taskTitle: tasks.title,
+        estimatedHours: tasks.estimatedHours,
+        projectId: projects.id,
+        projectName: projects.name,
+      })
+      .from(timeEntries)
+      .innerJoin(tasks, eq(timeEntries.taskId, tasks.id))
+      .leftJoin(projects, eq(tasks.projectId, projects.id))
+      .leftJoin(users, eq(timeEntries.userId, users.id))
+      .where(and(...conditions))
+      .orderBy(asc(timeEntries.startedAt), asc(timeEntries.id));
+
+    // Estimates are counted once per task within each group, however many entries it has
+    const summarize = (keyOf: (row: typeof rows[number]) => string | number | null, nameOf: (row: typeof rows[number]) => string) => {
+      const groups = new Map<string | number | null, TimesheetRow & { taskIds: Set<number> }>();
+      for (const row of rows) {
+        const key = keyOf(row);
+        let group = groups.get(key);
+        if (!group) {
+          group = { id: key, name: nameOf(row), actualHours: 0, estimatedHours: 0, taskCount: 0, entryCount: 0, taskIds: new Set() };
+          groups.set(key, group);
+        }
+        group.actualHours += (row.durationMinutes || 0) / 60;
+        group.entryCount++;
+        if (!group.taskIds.has(row.taskId)) {
+          group.taskIds.add(row.taskId);
+          group.taskCount++;
+          group.estimatedHours += row.estimatedHours ? parseFloat(row.estimatedHours) : 0;
+        }
+      }
+      return Array.from(groups.values())
+        .map(({ taskIds, ...group }) => ({
+          ...group,
+          actualHours: Math.round(group.actualHours * 100) / 100,
+          estimatedHours: Math.round(group.estimatedHours * 100) / 100,
+        }))
+        .sort((a, b) => b.actualHours - a.actualHours);
+    };
+
+    return {
+      from: query.from,
+      to: query.to,
+      byMember: summarize(row => row.userId, row => row.userName),
+      byProject: summarize(row => row.projectId, row => row.projectName || 'No project'),
+      entries: rows.map(row => ({
+        id: row.id,
+        date: row.startedAt.toISOString().split('T')[0],
+        userId: row.userId,
+        userName: row.userName,
+        projectId: row.projectId,
+        projectName: row.projectName,
+        taskId: row.taskId,
+        taskTitle: row.taskTitle,
+        hours: Math.round((row.durationMinutes || 0) / 60 * 100) / 100,
+        note: row.note,
+      })),
+    };
+  }
+
+  // Task dependency operations
+  async getWorkspaceTaskDependencies(workspaceId: number): Promise<TaskDependency[]> {
+    return await db
+      .select()
+      .from(taskDependencies)
+      .where(eq(taskDependencies.workspaceId, workspaceId));
+  }
+
+  async getTaskDependencies(taskId: number): Promise<TaskDependency[]> {
+    return await db
+      .select()
+      .from(taskDependencies)
+      .where(or(
+        eq(taskDependencies.predecessorTaskId, taskId),
+        eq(taskDependencies.successorTaskId, taskId)
+      ));
+  }
+
+  async getTaskDependencyById(id: number): Promise<TaskDependency | undefined> {
+    const [dependency] = await db.select().from(taskDependencies).where(eq(taskDependencies.id, id));
+    return dependency;
+  }
+
+  async createTaskDependency(dependency: InsertTaskDependency): Promise<TaskDependency> {
+    const [created] = await db.insert(taskDependencies).values(dependency).returning();
+    return created;
+  }
+
+  async deleteTaskDependency(id: number): Promise<void> {
+    await db.delete(taskDependencies).where(eq(taskDependencies.id, id));
+  }
+
   // Task recurrence operations
   async createTaskRecurrence(recurrence: InsertTaskRecurrence): Promise<TaskRecurrence> {
     const [created] = await db.insert(taskRecurrences).values(recurrence).returning();
@@ -959,6 +2072,113 @@ export class DatabaseStorage implements IStorage {
     await db.delete(taskRecurrences).where(eq(taskRecurrences.id, id));
   }
 
+  async getRecurrencesNeedingInstances(windowEnd: string): Promise<TaskRecurrence[]> {
+    return await db
+      .select()
+      .from(taskRecurrences)
+      .where(and(
+        eq(taskRecurrences.isActive, true),
+        isNotNull(taskRecurrences.startDate),
+        or(isNull(taskRecurrences.generatedUntil), sql`${taskRecurrences.generatedUntil} < ${windowEnd}`),
+      ))
+      .orderBy(asc(taskRecurrences.id));
+  }
+
+  // Creates the series' next instances from its template. The recurrence row is locked
+  // so concurrent runs can't create the same occurrence twice, and generatedUntil only
+  // moves forward, so instances that were deleted or moved are never recreated. When a
+  // series edit winds generatedUntil back, occurrences that still have an instance are
+  // skipped rather than duplicated.
+  async materializeRecurrenceInstances(recurrenceId: number, today: Date = new Date()): Promise<Task[]> {
+    return await db.transaction(async (tx) => {
+      const [recurrence] = await tx
+        .select()
+        .from(taskRecurrences)
+        .where(eq(taskRecurrences.id, recurrenceId))
+        .for('update');
+      if (!recurrence || !recurrence.isActive || !recurrence.startDate || !recurrence.title) return [];
+
+      const occurrence = sql<string>`coalesce(${tasks.occurrenceDate}, ${tasks.dueDate})`;
+      const existing = await tx
+        .select({ date: occurrence })
+        .from(tasks)
+        .where(and(
+          eq(tasks.taskRecurrenceId, recurrenceId),
+          recurrence.generatedUntil ? sql`${occurrence} > ${recurrence.generatedUntil}` : undefined,
+        ));
+
+      const plan = planRecurrenceInstances(
+        recurrence.startDate,
+        ruleForRecurrence(recurrence),
+        recurrence.exdates ?? [],
+        recurrence.generatedUntil,
+        today,
+        existing.map(row => row.date),
+      );
+
+      const created = plan.dueDates.length === 0 ? [] : await tx
+        .insert(tasks)
+        .values(plan.dueDates.map(dueDate => ({
+          workspaceId: recurrence.workspaceId,
+          projectId: recurrence.projectId,
+          categoryId: recurrence.categoryId,
+          assignedMemberId: recurrence.assignedMemberId,
+          title: recurrence.title!,
+          description: recurrence.description,
+          priority: recurrence.priority,
+          timeSlot: recurrence.timeSlot,
+          dueDate,
+          occurrenceDate: dueDate,
+          taskRecurrenceId: recurrence.id,
+          isRecurringInstance: true,
+          createdBy: recurrence.createdBy,
+        })))
+        .returning();
+
+      await tx
+        .update(taskRecurrences)
+        .set({ generatedUntil: plan.generatedUntil, isActive: !plan.finished, updatedAt: new Date() })
+        .where(eq(taskRecurrences.id, recurrenceId));
+
+      return created;
+    });
+  }
+
+  // Series created before lazy generation have no template; rebuild it from their
+  // first instance so they can keep generating past the old 50-instance cap
+  async backfillRecurrenceTemplates(): Promise<number> {
+    const legacy = await db
+      .select()
+      .from(taskRecurrences)
+      .where(isNull(taskRecurrences.startDate));
+
+    for (const recurrence of legacy) {
+      const instances = await db
+        .select()
+        .from(tasks)
+        .where(and(eq(tasks.taskRecurrenceId, recurrence.id), isNotNull(tasks.dueDate)))
+        .orderBy(asc(tasks.dueDate));
+      const first = instances[0];
+      if (!first) {
+        if (recurrence.isActive) await this.updateTaskRecurrence(recurrence.id, { isActive: false });
+        continue;
+      }
+      await this.updateTaskRecurrence(recurrence.id, {
+        startDate: first.dueDate,
+        title: first.title,
+        description: first.description,
+        projectId: first.projectId,
+        categoryId: first.categoryId,
+        assignedMemberId: first.assignedMemberId,
+        priority: first.priority,
+        timeSlot: first.timeSlot,
+        createdBy: first.createdBy,
+        generatedUntil: instances[instances.length - 1].dueDate,
+      });
+    }
+    return legacy.length;
+  }
+
   async deleteRecurringTaskInstances(recurrenceId: number, fromDate?: Date): Promise<void> {
     if (fromDate) {
       // Delete only future instances from the specified date
@@ -975,6 +2195,293 @@ export class DatabaseStorage implements IStorage {
     }
   }
 
+  // Ends a series the day before splitDate and continues it as a new series, moving the
+  // instances from splitDate on across. Returns the new series.
+  async splitTaskRecurrence(
+    recurrenceId: number,
+    splitDate: string,
+    before: Partial<InsertTaskRecurrence>,
+    after: Partial<InsertTaskRecurrence>
+  ): Promise<TaskRecurrence> {
+    return await db.transaction(async (tx) => {
+      const [recurrence] = await tx
+        .select()
+        .from(taskRecurrences)
+        .where(eq(taskRecurrences.id, recurrenceId))
+        .for('update');
+
+      const { id, createdAt, updatedAt, ...template } = recurrence;
+      const [next] = await tx
+        .insert(taskRecurrences)
+        .values({ ...template, ...after })
+        .returning();
+
+      await tx
+        .update(taskRecurrences)
+        .set({ ...before, updatedAt: new Date() })
+        .where(eq(taskRecurrences.id, recurrenceId));
+
+      await tx
+        .update(tasks)
+        .set({ taskRecurrenceId: next.id, updatedAt: new Date() })
+        .where(and(
+          eq(tasks.taskRecurrenceId, recurrenceId),
+          sql`coalesce(${tasks.occurrenceDate}, ${tasks.dueDate}) >= ${splitDate}`,
+        ));
+
+      return next;
+    });
+  }
+
+  // Calendar feed operations
+  async getCalendarFeed(workspaceId: number, userId: string): Promise<CalendarFeed | undefined> {
+    const [feed] = await db
+      .select()
+      .from(calendarFeeds)
+      .where(and(eq(calendarFeeds.workspaceId, workspaceId), eq(calendarFeeds.userId, userId)));
+    return feed;
+  }
+
+  async getCalendarFeedByToken(token: string): Promise<CalendarFeed | undefined> {
+    const [feed] = await db.select().from(calendarFeeds).where(eq(calendarFeeds.token, token));
+    return feed;
+  }
+
+  // Creates the user's feed, or replaces its token so the old URL stops working
+  async rotateCalendarFeed(workspaceId: number, userId: string): Promise<CalendarFeed> {
+    const token = randomBytes(32).toString('hex');
+    const [feed] = await db
+      .insert(calendarFeeds)
+      .values({ workspaceId, userId, token })
+      .onConflictDoUpdate({
+        target: [calendarFeeds.workspaceId, calendarFeeds.userId],
+        set: { token, lastAccessedAt: null, createdAt: new Date() },
+      })
+      .returning();
+    return feed;
+  }
+
+  async deleteCalendarFeed(workspaceId: number, userId: string): Promise<void> {
+    await db.delete(calendarFeeds).where(and(eq(calendarFeeds.workspaceId, workspaceId), eq(calendarFeeds.userId, userId)));
+  }
+
+  async markCalendarFeedAccessed(id: number): Promise<void> {
+    await db.update(calendarFeeds).set({ lastAccessedAt: new Date() }).where(eq(calendarFeeds.id, id));
+  }
+
+  // Scheduled job operations
+  async getScheduledJobs(): Promise<ScheduledJob[]> {
+    return await db.select().from(scheduledJobs).orderBy(asc(scheduledJobs.name));
+  }
+
+  async ensureScheduledJob(name: string, firstRunAt: Date): Promise<void> {
+    await db.insert(scheduledJobs).values({ name, nextRunAt: firstRunAt }).onConflictDoNothing();
+  }
+
+  // Takes the job if it's due and no other instance holds its lease. The check and the
+  // update are one statement, so two servers can't both claim the same run.
+  async claimScheduledJob(name: string, now: Date, lockedUntil: Date): Promise<ScheduledJob | undefined> {
+    const [job] = await db
+      .update(scheduledJobs)
+      .set({ status: 'running', lockedUntil, lastRunAt: now, updatedAt: now })
+      .where(and(
+        eq(scheduledJobs.name, name),
+        lte(scheduledJobs.nextRunAt, now),
+        or(isNull(scheduledJobs.lockedUntil), lte(scheduledJobs.lockedUntil, now)),
+      ))
+      .returning();
+    return job;
+  }
+
+  async updateScheduledJob(name: string, updates: Partial<Omit<ScheduledJob, 'name'>>): Promise<void> {
+    await db.update(scheduledJobs).set({ ...updates, updatedAt: new Date() }).where(eq(scheduledJobs.name, name));
+  }
+
+  // Webhook operations
+  async getWorkspaceWebhooks(workspaceId: number): Promise<Webhook[]> {
+    return db.select().from(webhooks).where(eq(webhooks.workspaceId, workspaceId)).orderBy(asc(webhooks.createdAt));
+  }
+
+  async getWebhookById(id: number): Promise<Webhook | undefined> {
+    const [webhook] = await db.select().from(webhooks).where(eq(webhooks.id, id));
+    return webhook;
+  }
+
+  async getWebhooksForEvent(workspaceId: number, eventType: string): Promise<Webhook[]> {
+    return db.select()
+      .from(webhooks)
+      .where(and(
+        eq(webhooks.workspaceId, workspaceId),
+        eq(webhooks.isActive, true),
+        sql`${webhooks.events} @> ${JSON.stringify([eventType])}::jsonb`
+      ));
+  }
+
+  async createWebhook(workspaceId: number, createdBy: string, webhook: WebhookInput): Promise<Webhook> {
+    const [created] = await db.insert(webhooks)
+      .values({ ...webhook, workspaceId, createdBy, secret: `whsec_${randomBytes(24).toString('hex')}` })
+      .returning();
+    return created;
+  }
+
+  async updateWebhook(id: number, updates: Partial<WebhookInput>): Promise<Webhook> {
+    const [updated] = await db.update(webhooks).set({ ...updates, updatedAt: new Date() }).where(eq(webhooks.id, id)).returning();
+    return updated;
+  }
+
+  async rotateWebhookSecret(id: number): Promise<Webhook> {
+    const [updated] = await db.update(webhooks)
+      .set({ secret: `whsec_${randomBytes(24).toString('hex')}`, updatedAt: new Date() })
+      .where(eq(webhooks.id, id))
+      .returning();
+    return updated;
+  }
+
+  async deleteWebhook(id: number): Promise<void> {
+    // Deliveries go with it (ON DELETE CASCADE)
+    await db.delete(webhooks).where(eq(webhooks.id, id));
+  }
+
+  async getWebhookDeliveries(webhookId: number, limit: number, before?: number): Promise<WebhookDelivery[]> {
+    return db.select()
+      .from(webhookDeliveries)
+      .where(and(
+        eq(webhookDeliveries.webhookId, webhookId),
+        before ? lt(webhookDeliveries.id, before) : undefined
+      ))
+      .orderBy(desc(webhookDeliveries.id))
+      .limit(limit);
+  }
+
+  async getWebhookDeliveryById(id: number): Promise<WebhookDelivery | undefined> {
+    const [delivery] = await db.select().from(webhookDeliveries).where(eq(webhookDeliveries.id, id));
+    return delivery;
+  }
+
+  async createWebhookDeliveries(deliveries: Omit<WebhookDelivery, 'id' | 'createdAt' | 'status' | 'attempts' | 'lastAttemptAt' | 'responseStatus' | 'responseBody' | 'error' | 'durationMs'>[]): Promise<WebhookDelivery[]> {
+    if (deliveries.length === 0) return [];
+    return db.insert(webhookDeliveries).values(deliveries).returning();
+  }
+
+  async updateWebhookDelivery(id: number, updates: Partial<Omit<WebhookDelivery, 'id'>>): Promise<WebhookDelivery> {
+    const [updated] = await db.update(webhookDeliveries).set(updates).where(eq(webhookDeliveries.id, id)).returning();
+    return updated;
+  }
+
+  // Pending deliveries whose (re)try time has come, oldest first
+  async getDueWebhookDeliveries(now: Date, limit: number): Promise<WebhookDelivery[]> {
+    return db.select()
+      .from(webhookDeliveries)
+      .where(and(
+        eq(webhookDeliveries.status, 'pending'),
+        or(isNull(webhookDeliveries.nextAttemptAt), lte(webhookDeliveries.nextAttemptAt, now))
+      ))
+      .orderBy(asc(webhookDeliveries.id))
+      .limit(limit);
+  }
+
+  async deleteWebhookDeliveriesBefore(date: Date): Promise<number> {
+    const deleted = await db.delete(webhookDeliveries)
+      .where(and(lt(webhookDeliveries.createdAt, date), not(eq(webhookDeliveries.status, 'pending'))))
+      .returning({ id: webhookDeliveries.id });
+    return deleted.length;
+  }
+
+  // API token operations
+  async getUserApiTokens(userId: string): Promise<ApiToken[]> {
+    return db.select()
+      .from(apiTokens)
+      .where(and(eq(apiTokens.userId, userId), eq(apiTokens.kind, 'personal'), isNull(apiTokens.revokedAt)))
+      .orderBy(desc(apiTokens.createdAt));
+  }
+
+  async getWorkspaceApiTokens(workspaceId: number): Promise<ApiToken[]> {
+    return db.select()
+      .from(apiTokens)
+      .where(and(eq(apiTokens.workspaceId, workspaceId), eq(apiTokens.kind, 'workspace'), isNull(apiTokens.revokedAt)))
+      .orderBy(desc(apiTokens.createdAt));
+  }
+
+  async getApiTokenById(id: number): Promise<ApiToken | undefined> {
+    const [token] = await db.select().from(apiTokens).where(eq(apiTokens.id, id));
+    return token;
+  }
+
+  async getApiTokenByHash(tokenHash: string): Promise<ApiToken | undefined> {
+    const [token] = await db.select().from(apiTokens).where(eq(apiTokens.tokenHash, tokenHash));
+    return token;
+  }
+
+  async createApiToken(token: Omit<ApiToken, 'id' | 'createdAt' | 'lastUsedAt' | 'revokedAt'>): Promise<ApiToken> {
+    const [created] = await db.insert(apiTokens).values(token).returning();
+    return created;
+  }
+
+  async revokeApiToken(id: number): Promise<void> {
+    await db.update(apiTokens).set({ revokedAt: new Date() }).where(eq(apiTokens.id, id));
+  }
+
+  async markApiTokenUsed(id: number, usedAt: Date): Promise<void> {
+    await db.update(apiTokens).set({ lastUsedAt: usedAt }).where(eq(apiTokens.id, id));
+  }
+
+  // Sign-in credential operations
+  async getUserCredentials(userId: string): Promise<UserCredentials | undefined> {
+    const [credentials] = await db.select().from(userCredentials).where(eq(userCredentials.userId, userId));
+    return credentials;
+  }
+
+  async setUserPassword(userId: string, passwordHash: string, emailVerifiedAt: Date | null): Promise<void> {
+    await db.insert(userCredentials)
+      .values({ userId, passwordHash, emailVerifiedAt })
+      .onConflictDoUpdate({
+        target: userCredentials.userId,
+        // Never un-verify an address that was confirmed before
+        set: { passwordHash, emailVerifiedAt: sql`coalesce(${userCredentials.emailVerifiedAt}, ${emailVerifiedAt})`, updatedAt: new Date() },
+      });
+  }
+
+  async deleteUnverifiedCredentials(userId: string): Promise<void> {
+    await db.delete(userCredentials)
+      .where(and(eq(userCredentials.userId, userId), isNull(userCredentials.emailVerifiedAt)));
+  }
+
+  async createAuthToken(token: Omit<AuthToken, 'id' | 'createdAt' | 'usedAt'>): Promise<AuthToken> {
+    const [created] = await db.insert(authTokens).values(token).returning();
+    return created;
+  }
+
+  async getLatestAuthToken(email: string, purpose: AuthTokenPurpose): Promise<AuthToken | undefined> {
+    const [token] = await db.select()
+      .from(authTokens)
+      .where(and(eq(authTokens.email, email), eq(authTokens.purpose, purpose)))
+      .orderBy(desc(authTokens.createdAt))
+      .limit(1);
+    return token;
+  }
+
+  // Marks an unexpired, unused token as used and returns it; a token can only be
+  // consumed once even if the link is opened twice at the same time
+  async consumeAuthToken(tokenHash: string, purpose: AuthTokenPurpose, now: Date): Promise<AuthToken | undefined> {
+    const [token] = await db.update(authTokens)
+      .set({ usedAt: now })
+      .where(and(
+        eq(authTokens.tokenHash, tokenHash),
+        eq(authTokens.purpose, purpose),
+        isNull(authTokens.usedAt),
+        gte(authTokens.expiresAt, now),
+      ))
+      .returning();
+    return token;
+  }
+
+  async deleteAuthTokensBefore(date: Date): Promise<number> {
+    const deleted = await db.delete(authTokens)
+      .where(lt(authTokens.expiresAt, date))
+      .returning({ id: authTokens.id });
+    return deleted.length;
+  }
+
   // Project component operations
   async getProjectComponents(projectId: number): Promise<ProjectComponent[]> {
     return await db
@@ -984,6 +2491,19 @@ export class DatabaseStorage implements IStorage {
       .orderBy(asc(projectComponents.order), asc(projectComponents.name));
   }
 
+  async getWorkspaceComponents(workspaceId: number): Promise<ProjectComponent[]> {
+    return await db
+      .select()
+      .from(projectComponents)
+      .where(eq(projectComponents.workspaceId, workspaceId))
+      .orderBy(asc(projectComponents.projectId), asc(projectComponents.order), asc(projectComponents.name));
+  }
+
+  async getProjectComponentById(id: number): Promise<ProjectComponent | undefined> {
+    const [component] = await db.select().from(projectComponents).where(eq(projectComponents.id, id));
+    return component;
+  }
+
   async createProjectComponent(component: InsertProjectComponent): Promise<ProjectComponent> {
     const [newComponent] = await db.insert(projectComponents).values(component).returning();
     return newComponent;
@@ -1012,6 +2532,11 @@ export class DatabaseStorage implements IStorage {
     return created;
   }
 
+  async getInflowTypeById(id: number): Promise<InflowType | undefined> {
+    const [inflowType] = await db.select().from(inflowTypes).where(eq(inflowTypes.id, id));
+    return inflowType;
+  }
+
   async updateInflowType(id: number, updates: Partial<InsertInflowType>): Promise<InflowType> {
     const [updated] = await db.update(inflowTypes).set(updates).where(eq(inflowTypes.id, id)).returning();
     return updated;
@@ -1030,6 +2555,11 @@ export class DatabaseStorage implements IStorage {
     return created;
   }
 
+  async getOutflowTypeById(id: number): Promise<OutflowType | undefined> {
+    const [outflowType] = await db.select().from(outflowTypes).where(eq(outflowTypes.id, id));
+    return outflowType;
+  }
+
   async updateOutflowType(id: number, updates: Partial<InsertOutflowType>): Promise<OutflowType> {
     const [updated] = await db.update(outflowTypes).set(updates).where(eq(outflowTypes.id, id)).returning();
     return updated;
@@ -1044,6 +2574,11 @@ export class DatabaseStorage implements IStorage {
     return await db.select().from(projectInflows).where(eq(projectInflows.projectId, projectId)).orderBy(desc(projectInflows.date));
   }
 
+  async getProjectInflowById(id: number): Promise<ProjectInflow | undefined> {
+    const [inflow] = await db.select().from(projectInflows).where(eq(projectInflows.id, id));
+    return inflow;
+  }
+
   async createProjectInflow(inflow: InsertProjectInflow): Promise<ProjectInflow> {
     const [created] = await db.insert(projectInflows).values(inflow).returning();
     return created;
@@ -1062,6 +2597,11 @@ export class DatabaseStorage implements IStorage {
     return await db.select().from(projectOutflows).where(eq(projectOutflows.projectId, projectId)).orderBy(desc(projectOutflows.date));
   }
 
+  async getProjectOutflowById(id: number): Promise<ProjectOutflow | undefined> {
+    const [outflow] = await db.select().from(projectOutflows).where(eq(projectOutflows.id, id));
+    return outflow;
+  }
+
   async createProjectOutflow(outflow: InsertProjectOutflow): Promise<ProjectOutflow> {
     const [created] = await db.insert(projectOutflows).values(outflow).returning();
     return created;
@@ -1119,6 +2659,11 @@ export class DatabaseStorage implements IStorage {
     return created;
   }
 
+  async getProjectBudgetById(id: number): Promise<ProjectBudget | undefined> {
+    const [budget] = await db.select().from(projectBudgets).where(eq(projectBudgets.id, id));
+    return budget;
+  }
+
   async updateProjectBudget(id: number, updates: Partial<InsertProjectBudget>): Promise<ProjectBudget> {
     const [updated] = await db.update(projectBudgets).set(updates).where(eq(projectBudgets.id, id)).returning();
     return updated;
@@ -1145,9 +2690,10 @@ export class DatabaseStorage implements IStorage {
       .limit(limit);
   }
 
-  async getWorkspaceActivities(workspaceId: number, limit: number = 50): Promise<ActivityLog[]> {
+  async getWorkspaceActivities(workspaceId: number, limit: number = 50): Promise<ActivityFeedEntry[]> {
+    const { changes, metadata, ...feedColumns } = getTableColumns(activityLogs);
     return await db
-      .select()
+      .select(feedColumns)
       .from(activityLogs)
       .where(eq(activityLogs.workspaceId, workspaceId))
       .orderBy(desc(activityLogs.createdAt))
@@ -1168,6 +2714,50 @@ export class DatabaseStorage implements IStorage {
       .orderBy(desc(activityLogs.createdAt));
   }
 
+  // Newest first, paged by id; `to` includes the whole day
+  async getAuditLog(workspaceId: number, query: AuditLogQuery): Promise<AuditLogEntry[]> {
+    const conditions: SQL[] = [eq(activityLogs.workspaceId, workspaceId)];
+    if (query.userId) conditions.push(eq(activityLogs.userId, query.userId));
+    if (query.entityType) conditions.push(eq(activityLogs.entityType, query.entityType));
+    if (query.action) conditions.push(eq(activityLogs.action, query.action));
+    if (query.from) conditions.push(gte(activityLogs.createdAt, new Date(`${query.from}T00:00:00Z`)));
+    if (query.to) conditions.push(lt(activityLogs.createdAt, sql`${query.to}::date + interval '1 day'`));
+    if (query.before) conditions.push(lt(activityLogs.id, query.before));
+
+    const entries = await db
+      .select({
+        ...getTableColumns(activityLogs),
+        userName: sql<string | null>`COALESCE(${users.firstName} || ' ' || ${users.lastName}, ${users.email})`,
+      })
+      .from(activityLogs)
+      .leftJoin(users, eq(activityLogs.userId, users.id))
+      .where(and(...conditions))
+      .orderBy(desc(activityLogs.id))
+      .limit(query.limit);
+
+    return entries;
+  }
+
+  async getAuditLogFacets(workspaceId: number): Promise<AuditLogFacets> {
+    const [entityTypes, actions] = await Promise.all([
+      db.selectDistinct({ value: activityLogs.entityType }).from(activityLogs)
+        .where(eq(activityLogs.workspaceId, workspaceId)).orderBy(asc(activityLogs.entityType)),
+      db.selectDistinct({ value: activityLogs.action }).from(activityLogs)
+        .where(eq(activityLogs.workspaceId, workspaceId)).orderBy(asc(activityLogs.action)),
+    ]);
+    return {
+      entityTypes: entityTypes.map(row => row.value),
+      actions: actions.map(row => row.value),
+    };
+  }
+
+  async deleteActivityLogsBefore(date: Date): Promise<number> {
+    const deleted = await db.delete(activityLogs)
+      .where(lt(activityLogs.createdAt, date))
+      .returning({ id: activityLogs.id });
+    return deleted.length;
+  }
+
   // Seeding functionality for default types
   async seedDefaultOutflowTypes(projectId: number, workspaceId: number): Promise<void> {
     const defaultOutflowTypes = [
@@ -1190,6 +2780,293 @@ export class DatabaseStorage implements IStorage {
     }
   }
 
+  // Search operations
+  async searchWorkspace(workspaceId: number, userId: string, query: ParsedSearchQuery, limit: number): Promise<SearchResponse> {
+    const { tsQuery, text, taskFilters } = query;
+    const tsq = sql`to_tsquery('english', ${tsQuery})`;
+    const titleHeadline = (column: AnyPgColumn) =>
+      sql<string>`ts_headline('english', coalesce(${column}, ''), ${tsq}, ${`StartSel=${SEARCH_HIGHLIGHT_START}, StopSel=${SEARCH_HIGHLIGHT_END}, HighlightAll=true`})`;
+    const snippet = (column: AnyPgColumn) =>
+      sql<string>`ts_headline('english', coalesce(${column}, ''), ${tsq}, ${`StartSel=${SEARCH_HIGHLIGHT_START}, StopSel=${SEARCH_HIGHLIGHT_END}, MaxWords=30, MinWords=10, MaxFragments=2`})`;
+    const rankBy = (document: SQL) => sql<number>`ts_rank(${document}, ${tsq})`.mapWith(Number);
+    const matches = (document: SQL) => sql`${document} @@ ${tsq}`;
+    // Total matches before the limit, so the type filters can show real counts
+    const total = sql<number>`count(*) over ()`.mapWith(Number);
+    const escapeLike = (value: string) => value.replace(/[%_\\]/g, '\\$&');
+    const likePattern = (value: string) => `%${escapeLike(value)}%`;
+
+    const searches: Partial<Record<SearchResultType, () => Promise<{ results: SearchResult[]; total: number }>>> = {};
+    const collect = <T extends { id: number; total: number }>(rows: T[], toResult: (row: T) => Omit<SearchResult, 'id'>) => ({
+      results: rows.map(row => ({ id: row.id, ...toResult(row) })),
+      total: rows[0]?.total ?? 0,
+    });
+
+    // Tasks are the only type that can be listed by operators alone, e.g. "status:todo due:<today"
+    searches.task = async () => {
+      const document = searchDocument(tasks.title, tasks.description);
+      const conditions: SQL[] = [eq(tasks.workspaceId, workspaceId)];
+      if (tsQuery) conditions.push(matches(document));
+      if (taskFilters.status) conditions.push(inArray(tasks.status, taskFilters.status));
+      if (taskFilters.priority !== undefined) conditions.push(eq(tasks.priority, taskFilters.priority));
+      if (taskFilters.project) conditions.push(ilike(projects.name, likePattern(taskFilters.project)));
+      if (taskFilters.assignee === 'none') {
+        conditions.push(isNull(tasks.assignedMemberId));
+      } else if (taskFilters.assignee === 'me') {
+        conditions.push(eq(workspaceMembers.userId, userId));
+      } else if (taskFilters.assignee) {
+        conditions.push(ilike(workspaceMembers.name, likePattern(taskFilters.assignee)));
+      }
+      const due = taskFilters.due;
+      if (due?.op === 'none') {
+        conditions.push(isNull(tasks.dueDate));
+      } else if (due?.op === 'overdue') {
+        conditions.push(sql`${tasks.dueDate} < current_date`, sql`${tasks.status} is distinct from 'completed'`);
+      } else if (due) {
+        conditions.push(sql`${tasks.dueDate} ${sql.raw(due.op)} ${due.date}`);
+      }
+
+      const rows = await db
+        .select({
+          id: tasks.id,
+          title: tsQuery ? titleHeadline(tasks.title) : tasks.title,
+          snippet: tsQuery ? snippet(tasks.description) : sql<string | null>`left(${tasks.description}, 160)`,
+          rank: tsQuery ? rankBy(document) : sql<number>`0`.mapWith(Number),
+          total,
+          projectId: tasks.projectId,
+          status: tasks.status,
+          priority: tasks.priority,
+          dueDate: tasks.dueDate,
+          projectName: projects.name,
+          assigneeName: workspaceMembers.name,
+        })
+        .from(tasks)
+        .leftJoin(projects, eq(tasks.projectId, projects.id))
+        .leftJoin(workspaceMembers, eq(tasks.assignedMemberId, workspaceMembers.id))
+        .where(and(...conditions))
+        .orderBy(...(tsQuery ? [desc(rankBy(document))] : [sql`${tasks.dueDate} asc nulls last`, asc(tasks.id)]))
+        .limit(limit);
+
+      return collect(rows, row => ({
+        type: 'task',
+        title: row.title,
+        snippet: row.snippet || null,
+        rank: row.rank,
+        projectId: row.projectId,
+        taskId: row.id,
+        meta: {
+          status: row.status,
+          priority: row.priority,
+          dueDate: row.dueDate,
+          projectName: row.projectName,
+          assigneeName: row.assigneeName,
+        },
+      }));
+    };
+
+    if (tsQuery) {
+      searches.project = async () => {
+        const document = searchDocument(projects.name, projects.description);
+        const rows = await db
+          .select({
+            id: projects.id,
+            title: titleHeadline(projects.name),
+            snippet: snippet(projects.description),
+            rank: rankBy(document),
+            total,
+            status: projects.status,
+          })
+          .from(projects)
+          .where(and(eq(projects.workspaceId, workspaceId), matches(document)))
+          .orderBy(desc(rankBy(document)))
+          .limit(limit);
+        return collect(rows, row => ({
+          type: 'project', title: row.title, snippet: row.snippet || null, rank: row.rank,
+          projectId: row.id, taskId: null, meta: { status: row.status },
+        }));
+      };
+
+      searches.member = async () => {
+        const document = searchDocument(workspaceMembers.name);
+        const rows = await db
+          .select({
+            id: workspaceMembers.id,
+            title: titleHeadline(workspaceMembers.name),
+            rank: rankBy(document),
+            total,
+            email: users.email,
+            role: workspaceMembers.role,
+          })
+          .from(workspaceMembers)
+          .leftJoin(users, eq(workspaceMembers.userId, users.id))
+          .where(and(
+            eq(workspaceMembers.workspaceId, workspaceId),
+            eq(workspaceMembers.isActive, true),
+            // The name's words, or the start of the email address ("alice@exa")
+            text ? or(matches(document), ilike(users.email, `${escapeLike(text)}%`)) : matches(document),
+          ))
+          .orderBy(desc(rankBy(document)))
+          .limit(limit);
+        return collect(rows, row => ({
+          type: 'member', title: row.title, snippet: null, rank: row.rank,
+          projectId: null, taskId: null, meta: { email: row.email, role: row.role },
+        }));
+      };
+
+      searches.category = async () => {
+        const document = searchDocument(categories.name);
+        const rows = await db
+          .select({
+            id: categories.id,
+            title: titleHeadline(categories.name),
+            rank: rankBy(document),
+            total,
+            color: categories.color,
+          })
+          .from(categories)
+          .where(and(eq(categories.workspaceId, workspaceId), matches(document)))
+          .orderBy(desc(rankBy(document)))
+          .limit(limit);
+        return collect(rows, row => ({
+          type: 'category', title: row.title, snippet: null, rank: row.rank,
+          projectId: null, taskId: null, meta: { color: row.color },
+        }));
+      };
+
+      searches.comment = async () => {
+        const document = searchDocument(taskComments.comment);
+        const rows = await db
+          .select({
+            id: taskComments.id,
+            snippet: snippet(taskComments.comment),
+            rank: rankBy(document),
+            total,
+            taskId: taskComments.taskId,
+            taskTitle: tasks.title,
+            projectId: tasks.projectId,
+            authorName: sql<string>`COALESCE(${users.firstName} || ' ' || ${users.lastName}, ${users.email})`,
+          })
+          .from(taskComments)
+          .innerJoin(tasks, eq(taskComments.taskId, tasks.id))
+          .leftJoin(users, eq(taskComments.userId, users.id))
+          .where(and(eq(taskComments.workspaceId, workspaceId), matches(document)))
+          .orderBy(desc(rankBy(document)))
+          .limit(limit);
+        return collect(rows, row => ({
+          type: 'comment', title: row.taskTitle, snippet: row.snippet, rank: row.rank,
+          projectId: row.projectId, taskId: row.taskId, meta: { authorName: row.authorName },
+        }));
+      };
+
+      searches.page = async () => {
+        const document = searchDocument(projectPages.title, projectPages.content);
+        const rows = await db
+          .select({
+            id: projectPages.id,
+            title: titleHeadline(projectPages.title),
+            snippet: snippet(projectPages.content),
+            rank: rankBy(document),
+            total,
+            projectId: projectPages.projectId,
+            projectName: projects.name,
+          })
+          .from(projectPages)
+          .innerJoin(projects, eq(projectPages.projectId, projects.id))
+          .where(and(eq(projects.workspaceId, workspaceId), matches(document)))
+          .orderBy(desc(rankBy(document)))
+          .limit(limit);
+        return collect(rows, row => ({
+          type: 'page', title: row.title, snippet: row.snippet || null, rank: row.rank,
+          projectId: row.projectId, taskId: null, meta: { projectName: row.projectName },
+        }));
+      };
+
+      searches.file = async () => {
+        const document = searchDocument(files.name);
+        const rows = await db
+          .select({
+            id: files.id,
+            title: titleHeadline(files.name),
+            rank: rankBy(document),
+            total,
+            projectId: files.projectId,
+            path: files.path,
+            mimeType: files.mimeType,
+          })
+          .from(files)
+          .where(and(eq(files.workspaceId, workspaceId), matches(document)))
+          .orderBy(desc(rankBy(document)))
+          .limit(limit);
+        return collect(rows, row => ({
+          type: 'file', title: row.title, snippet: null, rank: row.rank,
+          projectId: row.projectId, taskId: null, meta: { path: row.path, mimeType: row.mimeType },
+        }));
+      };
+
+      // Brain dump items are private notes, so only the caller's own are searched
+      searches.brain_dump = async () => {
+        const document = searchDocument(brainDumpItems.text);
+        const rows = await db
+          .select({
+            id: brainDumpItems.id,
+            title: snippet(brainDumpItems.text),
+            rank: rankBy(document),
+            total,
+            createdAt: brainDumpItems.createdAt,
+          })
+          .from(brainDumpItems)
+          .where(and(eq(brainDumpItems.workspaceId, workspaceId), eq(brainDumpItems.userId, userId), matches(document)))
+          .orderBy(desc(rankBy(document)))
+          .limit(limit);
+        return collect(rows, row => ({
+          type: 'brain_dump', title: row.title, snippet: null, rank: row.rank,
+          projectId: null, taskId: null, meta: { createdAt: row.createdAt?.toISOString() ?? null },
+        }));
+      };
+
+      for (const [type, table] of [['inflow', projectInflows], ['outflow', projectOutflows]] as const) {
+        searches[type] = async () => {
+          const document = searchDocument(table.title, table.description);
+          const rows = await db
+            .select({
+              id: table.id,
+              title: titleHeadline(table.title),
+              snippet: snippet(table.description),
+              rank: rankBy(document),
+              total,
+              projectId: table.projectId,
+              projectName: projects.name,
+              amount: table.amount,
+              date: table.date,
+              status: table.status,
+            })
+            .from(table)
+            .innerJoin(projects, eq(table.projectId, projects.id))
+            .where(and(eq(table.workspaceId, workspaceId), matches(document)))
+            .orderBy(desc(rankBy(document)))
+            .limit(limit);
+          return collect(rows, row => ({
+            type, title: row.title, snippet: row.snippet || null, rank: row.rank,
+            projectId: row.projectId, taskId: null,
+            meta: { projectName: row.projectName, amount: row.amount, date: row.date, status: row.status },
+          }));
+        };
+      }
+    }
+
+    const selected = query.types.filter(type => searches[type]);
+    const outcomes = await Promise.all(selected.map(type => searches[type]!()));
+
+    const counts: SearchResponse['counts'] = {};
+    const results: SearchResult[] = [];
+    selected.forEach((type, index) => {
+      counts[type] = outcomes[index].total;
+      results.push(...outcomes[index].results);
+    });
+    results.sort((a, b) => b.rank - a.rank);
+
+    return { results, counts, errors: query.errors };
+  }
+
   async seedDefaultInflowTypes(projectId: number, workspaceId: number): Promise<void> {
     const defaultInflowTypes = [
       { name: "Revenue Income", description: "Primary business revenue and sales" },
@@ -0,0 +1,235 @@
+import { createHmac, randomUUID } from "crypto";
+import type { LookupAddress } from "dns";
+import { lookup as dnsLookup } from "dns/promises";
+import { request as httpRequest } from "http";
+import { request as httpsRequest } from "https";
+import { BlockList, isIP, type LookupFunction } from "net";
+import { storage } from "./storage";
+import { every, type JobDefinition } from "./job-runner";
+import type { Webhook, WebhookDelivery, WebhookEventType, WebhookPayload } from "@shared/schema";
+
+// Outbound webhooks. Every event a webhook subscribes to becomes a delivery row that
+// is sent straight away and, if the endpoint doesn't answer with a 2xx, retried by
+// webhookDeliveryJob with backoff. The body is signed so receivers can check it came
+// from us:
+//
+//   X-Webhook-Signature: t=<unix seconds>,v1=<hex HMAC-SHA256 of "<t>.<body>" with the secret>
+
+const MAX_ATTEMPTS = 6;
+const RETRY_BASE_MS = 60 * 1000; // 1, 4, 16, 64, 256 minutes
+const REQUEST_TIMEOUT_MS = 10 * 1000;
+const RESPONSE_BODY_LIMIT = 2000;
+const DELIVERY_BATCH_SIZE = 50;
+const DELIVERY_RETENTION_DAYS = 30;
+
+// Where webhooks may not be sent: this machine, private networks and cloud metadata
+// endpoints (169.254.169.254, fd00:ec2::254), so a URL can't be used to reach them
+const blockedAddresses = new BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16],
+  ['172.16.0.0', 12], ['192.0.0.0', 24], ['192.168.0.0', 16], ['198.18.0.0', 15], ['224.0.0.0', 3],
+] as const) {
+  blockedAddresses.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [
+  ['::', 127], ['64:ff9b::', 96], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8],
+] as const) {
+  blockedAddresses.addSubnet(network, prefix, 'ipv6');
+}
+
+class BlockedAddressError extends Error {}
+
+async function resolvePublicAddresses(hostname: string): Promise<LookupAddress[]> {
+  const host = hostname.replace(/^\[|\]$/g, '');
+  const addresses = await dnsLookup(host, { all: true, verbatim: true });
+  const blocked = addresses.length === 0 || addresses.some(({ address, family }) =>
+    blockedAddresses.check(address, family === 6 ? 'ipv6' : 'ipv4'));
+  if (blocked) throw new BlockedAddressError(`${host} is a private or local address`);
+  return addresses;
+}
+
+// Connects to the addresses that were checked, so a host can't pass the check with a
+// public address and then be reached at a private one
+const publicOnlyLookup: LookupFunction = (hostname, options, callback) => {
+  resolvePublicAddresses(hostname).then(
+    addresses => options.all ? callback(null, addresses) : callback(null, addresses[0].address, addresses[0].family),
+    error => callback(error, ''),
+  );
+};
+
+// Why webhooks can't be sent to the URL, or null if they can. Checked when the URL is
+// saved; every delivery checks again when it connects.
+export async function checkWebhookUrl(url: string): Promise<string | null> {
+  const { hostname } = new URL(url);
+  try {
+    await resolvePublicAddresses(hostname);
+    return null;
+  } catch (error) {
+    return error instanceof BlockedAddressError ? error.message : `Couldn't find the host ${hostname}`;
+  }
+}
+
+// POSTs the body once. Redirects aren't followed, and the connection only goes to
+// public addresses (host names through publicOnlyLookup, IP addresses checked here).
+async function postToEndpoint(url: string, headers: Record<string, string>, body: string, signal: AbortSignal) {
+  const target = new URL(url);
+  if (isIP(target.hostname.replace(/^\[|\]$/g, ''))) await resolvePublicAddresses(target.hostname);
+
+  const send = target.protocol === 'https:' ? httpsRequest : httpRequest;
+  return await new Promise<{ status: number; body: string }>((resolve, reject) => {
+    const request = send(target, {
+      method: 'POST',
+      headers: { ...headers, 'Content-Length': Buffer.byteLength(body) },
+      lookup: publicOnlyLookup,
+      signal,
+    }, response => {
+      let text = '';
+      response.setEncoding('utf8');
+      response.on('data', chunk => { if (text.length < RESPONSE_BODY_LIMIT) text += chunk; });
+      response.on('end', () => resolve({ status: response.statusCode ?? 0, body: text.slice(0, RESPONSE_BODY_LIMIT) }));
+      response.on('error', reject);
+    });
+    request.on('error', reject);
+    request.end(body);
+  });
+}
+
+export function signPayload(secret: string, timestamp: number, body: string): string {
+  return createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+}
+
+function buildPayload(workspaceId: number, type: WebhookPayload['type'], data: Record<string, unknown>): WebhookPayload {
+  return { id: randomUUID(), type, createdAt: new Date().toISOString(), workspaceId, data };
+}
+
+// Queues and sends an event to the workspace's webhooks that subscribe to it. Doesn't
+// wait for the requests or throw, so routes can call it like broadcastToWorkspace.
+export function emitWebhookEvent(workspaceId: number, type: WebhookEventType, data: Record<string, unknown>) {
+  queueEvent(workspaceId, type, data).catch(error => console.error(`Error queueing webhook event ${type}:`, error));
+}
+
+async function queueEvent(workspaceId: number, type: WebhookEventType, data: Record<string, unknown>) {
+  const subscribed = await storage.getWebhooksForEvent(workspaceId, type);
+  if (subscribed.length === 0) return;
+
+  const payload = buildPayload(workspaceId, type, data);
+  const deliveries = await storage.createWebhookDeliveries(subscribed.map(webhook => ({
+    webhookId: webhook.id,
+    workspaceId,
+    eventId: payload.id,
+    eventType: type,
+    payload,
+    // Sending now holds the row until the request has had time to finish, so the
+    // delivery job won't send it at the same time
+    nextAttemptAt: new Date(Date.now() + RETRY_BASE_MS),
+    redeliveryOf: null,
+  })));
+
+  const byId = new Map(subscribed.map(webhook => [webhook.id, webhook]));
+  await Promise.all(deliveries.map(delivery => attemptDelivery(delivery, byId.get(delivery.webhookId))));
+}
+
+// Sends a delivery once and records the response. Failures are retried with backoff
+// until MAX_ATTEMPTS; a deleted or paused webhook fails the delivery straight away.
+export async function attemptDelivery(delivery: WebhookDelivery, loaded?: Webhook): Promise<WebhookDelivery> {
+  const webhook = loaded ?? await storage.getWebhookById(delivery.webhookId);
+  const attempts = delivery.attempts + 1;
+  if (!webhook || !webhook.isActive) {
+    return await storage.updateWebhookDelivery(delivery.id, {
+      status: 'failed',
+      nextAttemptAt: null,
+      error: webhook ? 'The webhook is paused' : 'The webhook was deleted',
+    });
+  }
+
+  const body = JSON.stringify(delivery.payload);
+  const timestamp = Math.floor(Date.now() / 1000);
+  const started = Date.now();
+  let responseStatus: number | null = null;
+  let responseBody: string | null = null;
+  let error: string | null = null;
+
+  const signal = AbortSignal.timeout(REQUEST_TIMEOUT_MS);
+  try {
+    const response = await postToEndpoint(webhook.url, {
+      'Content-Type': 'application/json',
+      'User-Agent': 'TasksAI-Webhooks/1.0',
+      'X-Webhook-Event': delivery.eventType,
+      'X-Webhook-Id': delivery.eventId,
+      'X-Webhook-Delivery': String(delivery.id),
+      'X-Webhook-Signature': `t=${timestamp},v1=${signPayload(webhook.secret, timestamp, body)}`,
+    }, body, signal);
+    responseStatus = response.status;
+    responseBody = response.body;
+    if (response.status < 200 || response.status > 299) error = `Endpoint responded with HTTP ${response.status}`;
+  } catch (requestError) {
+    error = signal.aborted
+      ? `No response within ${REQUEST_TIMEOUT_MS / 1000} seconds`
+      : requestError instanceof Error ? requestError.message : String(requestError);
+  }
+
+  const retry = !!error && attempts < MAX_ATTEMPTS;
+  return await storage.updateWebhookDelivery(delivery.id, {
+    status: !error ? 'succeeded' : retry ? 'pending' : 'failed',
+    attempts,
+    lastAttemptAt: new Date(),
+    nextAttemptAt: retry ? new Date(Date.now() + RETRY_BASE_MS * 4 ** (attempts - 1)) : null,
+    responseStatus,
+    responseBody,
+    error,
+    durationMs: Date.now() - started,
+  });
+}
+
+// Sends a delivery's payload again as a new delivery and waits for the result
+export async function redeliver(original: WebhookDelivery): Promise<WebhookDelivery> {
+  const [delivery] = await storage.createWebhookDeliveries([{
+    webhookId: original.webhookId,
+    workspaceId: original.workspaceId,
+    eventId: original.eventId,
+    eventType: original.eventType,
+    payload: original.payload,
+    nextAttemptAt: new Date(Date.now() + RETRY_BASE_MS),
+    redeliveryOf: original.id,
+  }]);
+  return await attemptDelivery(delivery);
+}
+
+// A 'ping' event to one webhook, for checking the endpoint and its signature check
+export async function sendTestEvent(webhook: Webhook): Promise<WebhookDelivery> {
+  const payload = buildPayload(webhook.workspaceId, 'ping', { webhookId: webhook.id, message: 'Test event' });
+  const [delivery] = await storage.createWebhookDeliveries([{
+    webhookId: webhook.id,
+    workspaceId: webhook.workspaceId,
+    eventId: payload.id,
+    eventType: 'ping',
+    payload,
+    nextAttemptAt: new Date(Date.now() + RETRY_BASE_MS),
+    redeliveryOf: null,
+  }]);
+  return await attemptDelivery(delivery, webhook);
+}
+
+// Retries failed deliveries and clears out old ones from the log
+export const webhookDeliveryJob: JobDefinition = {
+  name: 'webhook_deliveries',
+  nextRun: every(60 * 1000),
+  runAtStartup: true,
+  async run({ now }) {
+    const due = await storage.getDueWebhookDeliveries(now, DELIVERY_BATCH_SIZE);
+    let succeeded = 0;
+    let failed = 0;
+    for (const delivery of due) {
+      const result = await attemptDelivery(delivery);
+      if (result.status === 'succeeded') succeeded++;
+      else failed++;
+    }
+
+    const removed = await storage.deleteWebhookDeliveriesBefore(new Date(now.getTime() - DELIVERY_RETENTION_DAYS * 24 * 60 * 60 * 1000));
+    const summary = [
+      (succeeded > 0 || failed > 0) && `retried ${succeeded + failed} deliveries (${failed} still failing)`,
+      removed > 0 && `removed ${removed} old deliveries`,
+    ].filter(Boolean).join(', ');
+    if (summary) return summary;
+  },
+};
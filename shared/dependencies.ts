@@ -0,0 +1,150 @@
+// Task dependency helpers shared by the API (validation) and the client (critical path display).
+//
+// A dependency links a predecessor task to a successor task:
+// - finish_to_start: the successor can't start until the predecessor is completed
+// - start_to_finish: the successor can't finish until the predecessor has started
+
+export type DependencyType = 'finish_to_start' | 'start_to_finish';
+
+export const dependencyTypes: DependencyType[] = ['finish_to_start', 'start_to_finish'];
+
+export interface DependencyEdge {
+  predecessorTaskId: number;
+  successorTaskId: number;
+  type: DependencyType | string;
+}
+
+export interface SchedulableTask {
+  id: number;
+  estimatedHours?: string | number | null;
+}
+
+export interface CriticalPathResult {
+  taskIds: number[];      // critical tasks in schedule order
+  totalHours: number;     // length of the critical path
+  slack: Map<number, number>;
+}
+
+// True if adding predecessor -> successor would let the successor (transitively) block itself
+export function wouldCreateCycle(edges: DependencyEdge[], predecessorTaskId: number, successorTaskId: number): boolean {
+  if (predecessorTaskId === successorTaskId) return true;
+
+  const successorsOf = new Map<number, number[]>();
+  for (const edge of edges) {
+    const list = successorsOf.get(edge.predecessorTaskId) || [];
+    list.push(edge.successorTaskId);
+    successorsOf.set(edge.predecessorTaskId, list);
+  }
+
+  // Walk forward from the new successor; reaching the predecessor closes a loop
+  const stack = [successorTaskId];
+  const visited = new Set<number>();
+  while (stack.length > 0) {
+    const current = stack.pop()!;
+    if (current === predecessorTaskId) return true;
+    if (visited.has(current)) continue;
+    visited.add(current);
+    stack.push(...(successorsOf.get(current) || []));
+  }
+  return false;
+}
+
+function durationOf(task: SchedulableTask): number {
+  const hours = typeof task.estimatedHours === 'string' ? parseFloat(task.estimatedHours) : task.estimatedHours;
+  return hours && hours > 0 ? hours : 0;
+}
+
+// Critical path method over the given tasks, using estimatedHours as durations.
+// Edges pointing outside the task set are ignored.
+export function computeCriticalPath(tasks: SchedulableTask[], edges: DependencyEdge[]): CriticalPathResult {
+  const taskById = new Map(tasks.map(task => [task.id, task]));
+  const relevantEdges = edges.filter(edge =>
+    taskById.has(edge.predecessorTaskId) && taskById.has(edge.successorTaskId)
+  );
+
+  // Topological order (Kahn); tasks caught in a cycle are left out
+  const inDegree = new Map<number, number>(tasks.map(task => [task.id, 0]));
+  for (const edge of relevantEdges) {
+    inDegree.set(edge.successorTaskId, (inDegree.get(edge.successorTaskId) || 0) + 1);
+  }
+  const queue = tasks.filter(task => inDegree.get(task.id) === 0).map(task => task.id);
+  const order: number[] = [];
+  while (queue.length > 0) {
+    const id = queue.shift()!;
+    order.push(id);
+    for (const edge of relevantEdges) {
+      if (edge.predecessorTaskId !== id) continue;
+      const remaining = inDegree.get(edge.successorTaskId)! - 1;
+      inDegree.set(edge.successorTaskId, remaining);
+      if (remaining === 0) queue.push(edge.successorTaskId);
+    }
+  }
+
+  const duration = (id: number) => durationOf(taskById.get(id)!);
+
+  // Forward pass: earliest start / finish
+  const earliestStart = new Map<number, number>();
+  for (const id of order) {
+    let start = 0;
+    for (const edge of relevantEdges) {
+      if (edge.successorTaskId !== id || !earliestStart.has(edge.predecessorTaskId)) continue;
+      const predecessorStart = earliestStart.get(edge.predecessorTaskId)!;
+      start = Math.max(start, edge.type === 'start_to_finish'
+        ? predecessorStart - duration(id)
+        : predecessorStart + duration(edge.predecessorTaskId));
+    }
+    earliestStart.set(id, start);
+  }
+
+  const totalHours = order.reduce((max, id) => Math.max(max, earliestStart.get(id)! + duration(id)), 0);
+
+  // Backward pass: latest finish
+  const latestFinish = new Map<number, number>();
+  for (const id of [...order].reverse()) {
+    let finish = totalHours;
+    for (const edge of relevantEdges) {
+      if (edge.predecessorTaskId !== id || !latestFinish.has(edge.successorTaskId)) continue;
+      const successorFinish = latestFinish.get(edge.successorTaskId)!;
+      finish = Math.min(finish, edge.type === 'start_to_finish'
+        ? successorFinish + duration(id)
+        : successorFinish - duration(edge.successorTaskId));
+    }
+    latestFinish.set(id, finish);
+  }
+
+  const slack = new Map<number, number>();
+  for (const id of order) {
+    slack.set(id, latestFinish.get(id)! - duration(id) - earliestStart.get(id)!);
+  }
+
+  // Zero-length tasks with no links don't say anything about the schedule
+  const linked = new Set(relevantEdges.flatMap(edge => [edge.predecessorTaskId, edge.successorTaskId]));
+  const taskIds = order
+    .filter(id => Math.abs(slack.get(id)!) < 1e-9 && (duration(id) > 0 || linked.has(id)))
+    .sort((a, b) => earliestStart.get(a)! - earliestStart.get(b)!);
+
+  return { taskIds, totalHours, slack };
+}
+
+// Explains why a task may not move to the given status, or returns null if it may
+export function getBlockingReason(
+  task: { id: number; status?: string | null },
+  newStatus: string,
+  dependencies: DependencyEdge[],
+  tasksById: Map<number, { id: number; title: string; status?: string | null }>
+): string | null {
+  for (const dependency of dependencies) {
+    if (dependency.successorTaskId !== task.id) continue;
+    const predecessor = tasksById.get(dependency.predecessorTaskId);
+    if (!predecessor) continue;
+
+    if (dependency.type === 'start_to_finish') {
+      if (newStatus === 'completed' && (!predecessor.status || predecessor.status === 'todo')) {
+        return `"${predecessor.title}" must be started before this task can be completed`;
+      }
+    } else if ((newStatus === 'in_progress' || newStatus === 'completed') && predecessor.status !== 'completed') {
+      return `Blocked by "${predecessor.title}", which is not completed yet`;
+    }
+  }
+  return null;
+}
@@ -0,0 +1,28 @@
+// Events pushed to browsers over the workspace WebSocket channel (/ws)
+export type RealtimeEventType =
+  | 'task.created'
+  | 'task.updated'
+  | 'task.deleted'
+  | 'subtask.changed'
+  | 'time_entry.changed'
+  | 'dependency.created'
+  | 'dependency.deleted'
+  | 'comment.created'
+  | 'comment.deleted'
+  | 'attachment.changed'
+  | 'notification.created'
+  | 'file.created'
+  | 'file.updated'
+  | 'file.deleted'
+  | 'financial.changed';
+
+export interface RealtimeEvent {
+  type: RealtimeEventType;
+  workspaceId: number;
+  payload: any;
+}
+
+// Messages sent by the browser to the server
+export type RealtimeClientMessage =
+  | { type: 'subscribe'; workspaceId: number }
+  | { type: 'unsubscribe'; workspaceId: number };
@@ -0,0 +1,373 @@
+// iCalendar (RFC 5545) recurrence rules, shared by the API (instance generation) and the
+// client (rule builder preview).
+//
+// Tasks only have due dates, so rules are evaluated on whole days: FREQ is limited to
+// DAILY, WEEKLY, MONTHLY and YEARLY, and UNTIL/EXDATE values are dates. Supported parts
+// are INTERVAL, COUNT, UNTIL, BYDAY (with ordinals, e.g. -1FR), BYMONTHDAY, BYMONTH,
+// BYSETPOS and WKST. Dates are "yyyy-MM-dd" strings and all math is done in UTC so the
+// result doesn't depend on the machine's timezone.
+
+export type Frequency = 'DAILY' | 'WEEKLY' | 'MONTHLY' | 'YEARLY';
+
+export const frequencies: Frequency[] = ['DAILY', 'WEEKLY', 'MONTHLY', 'YEARLY'];
+
+export interface WeekdayNum {
+  weekday: number; // 0-6 for Sun-Sat
+  n?: number;      // ordinal within the month (or year): 1 = first, -1 = last
+}
+
+export interface RRule {
+  freq: Frequency;
+  interval: number;
+  count?: number;
+  until?: string; // inclusive
+  byDay?: WeekdayNum[];
+  byMonthDay?: number[]; // negative values count from the end of the month
+  byMonth?: number[];    // 1-12
+  bySetPos?: number[];
+  wkst?: number;         // week start, defaults to Monday as in the RFC
+}
+
+export class RRuleError extends Error {}
+
+export const WEEKDAY_CODES = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+export const WEEKDAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+export const MONTH_NAMES = ['January', 'February', 'March', 'April', 'May', 'June', 'July', 'August', 'September', 'October', 'November', 'December'];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Stop looking if a rule produces nothing for this many periods in a row (e.g. Feb 30)
+const MAX_EMPTY_PERIODS = 1000;
+
+// Day numbers (days since the epoch) keep the arithmetic simple
+const toDayNumber = (year: number, month: number, day: number) => Date.UTC(year, month - 1, day) / DAY_MS;
+const dayNumberOf = (date: string) => {
+  const [year, month, day] = date.split('-').map(Number);
+  return toDayNumber(year, month, day);
+};
+const dateOf = (dayNumber: number) => new Date(dayNumber * DAY_MS).toISOString().split('T')[0];
+const weekdayOf = (dayNumber: number) => new Date(dayNumber * DAY_MS).getUTCDay();
+const daysInMonth = (year: number, month: number) => new Date(Date.UTC(year, month, 0)).getUTCDate();
+const partsOf = (dayNumber: number) => {
+  const date = new Date(dayNumber * DAY_MS);
+  return { year: date.getUTCFullYear(), month: date.getUTCMonth() + 1, day: date.getUTCDate() };
+};
+
+export function isValidDate(value: string): boolean {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(value)) return false;
+  return dateOf(dayNumberOf(value)) === value;
+}
+
+function parseIntegerList(name: string, value: string, min: number, max: number): number[] {
+  return value.split(',').map(part => {
+    const number = Number(part);
+    if (!Number.isInteger(number) || number < min || number > max || number === 0 && min < 0) {
+      throw new RRuleError(`${name} value "${part}" is out of range`);
+    }
+    return number;
+  });
+}
+
+// Accepts the value of an RRULE property, with or without the "RRULE:" prefix
+export function parseRRule(text: string): RRule {
+  const body = text.trim().replace(/^RRULE:/i, '');
+  if (!body) throw new RRuleError('Recurrence rule is empty');
+
+  const parts = new Map<string, string>();
+  for (const part of body.split(';')) {
+    if (!part) continue;
+    const [key, value] = part.split('=');
+    if (!key || value === undefined || value === '') throw new RRuleError(`Invalid rule part "${part}"`);
+    const name = key.toUpperCase();
+    if (parts.has(name)) throw new RRuleError(`${name} is given more than once`);
+    parts.set(name, value.toUpperCase());
+  }
+
+  const freq = parts.get('FREQ') as Frequency | undefined;
+  if (!freq) throw new RRuleError('FREQ is required');
+  if (!frequencies.includes(freq)) {
+    throw new RRuleError('Only DAILY, WEEKLY, MONTHLY and YEARLY rules are supported for tasks');
+  }
+
+  const rule: RRule = { freq, interval: 1 };
+
+  for (const [name, value] of Array.from(parts)) {
+    switch (name) {
+      case 'FREQ':
+        break;
+      case 'INTERVAL':
+        rule.interval = parseIntegerList(name, value, 1, 1000)[0];
+        break;
+      case 'COUNT':
+        rule.count = parseIntegerList(name, value, 1, 10000)[0];
+        break;
+      case 'UNTIL': {
+        const match = /^(\d{4})(\d{2})(\d{2})(T\d{6}Z?)?$/.exec(value);
+        const until = match ? `${match[1]}-${match[2]}-${match[3]}` : '';
+        if (!isValidDate(until)) throw new RRuleError(`Invalid UNTIL date "${value}"`);
+        rule.until = until;
+        break;
+      }
+      case 'BYDAY':
+        rule.byDay = value.split(',').map(part => {
+          const match = /^([+-]?\d{1,2})?(SU|MO|TU|WE|TH|FR|SA)$/.exec(part);
+          if (!match) throw new RRuleError(`Invalid BYDAY value "${part}"`);
+          const weekday = WEEKDAY_CODES.indexOf(match[2]);
+          if (!match[1]) return { weekday };
+          const n = parseInt(match[1]);
+          if (n === 0 || Math.abs(n) > 53) throw new RRuleError(`Invalid BYDAY value "${part}"`);
+          return { weekday, n };
+        });
+        break;
+      case 'BYMONTHDAY':
+        rule.byMonthDay = parseIntegerList(name, value, -31, 31);
+        break;
+      case 'BYMONTH':
+        rule.byMonth = parseIntegerList(name, value, 1, 12);
+        break;
+      case 'BYSETPOS':
+        rule.bySetPos = parseIntegerList(name, value, -366, 366);
+        break;
+      case 'WKST': {
+        const weekday = WEEKDAY_CODES.indexOf(value);
+        if (weekday === -1) throw new RRuleError(`Invalid WKST value "${value}"`);
+        rule.wkst = weekday;
+        break;
+      }
+      default:
+        throw new RRuleError(`${name} is not supported for task recurrences`);
+    }
+  }
+
+  if (rule.count !== undefined && rule.until) {
+    throw new RRuleError('COUNT and UNTIL cannot both be set');
+  }
+  if (rule.byDay?.some(day => day.n !== undefined) && rule.freq !== 'MONTHLY' && rule.freq !== 'YEARLY') {
+    throw new RRuleError('Numbered BYDAY values (like 2TU) need FREQ=MONTHLY or YEARLY');
+  }
+  if (rule.byMonthDay && rule.freq === 'WEEKLY') {
+    throw new RRuleError('BYMONTHDAY cannot be used with FREQ=WEEKLY');
+  }
+
+  return rule;
+}
+
+export function stringifyRRule(rule: RRule): string {
+  const parts = [`FREQ=${rule.freq}`];
+  if (rule.interval > 1) parts.push(`INTERVAL=${rule.interval}`);
+  if (rule.byMonth?.length) parts.push(`BYMONTH=${rule.byMonth.join(',')}`);
+  if (rule.byMonthDay?.length) parts.push(`BYMONTHDAY=${rule.byMonthDay.join(',')}`);
+  if (rule.byDay?.length) {
+    parts.push(`BYDAY=${rule.byDay.map(day => `${day.n ?? ''}${WEEKDAY_CODES[day.weekday]}`).join(',')}`);
+  }
+  if (rule.bySetPos?.length) parts.push(`BYSETPOS=${rule.bySetPos.join(',')}`);
+  if (rule.wkst !== undefined && rule.wkst !== 1) parts.push(`WKST=${WEEKDAY_CODES[rule.wkst]}`);
+  if (rule.count !== undefined) parts.push(`COUNT=${rule.count}`);
+  if (rule.until) parts.push(`UNTIL=${rule.until.replace(/-/g, '')}`);
+  return parts.join(';');
+}
+
+// Picks the weekdays (optionally the nth of them) out of a run of days
+function matchWeekdays(firstDay: number, lastDay: number, byDay: WeekdayNum[]): number[] {
+  const result: number[] = [];
+  for (const { weekday, n } of byDay) {
+    const matches: number[] = [];
+    const offset = (weekday - weekdayOf(firstDay) + 7) % 7;
+    for (let day = firstDay + offset; day <= lastDay; day += 7) matches.push(day);
+    if (n === undefined) {
+      result.push(...matches);
+    } else {
+      const match = n > 0 ? matches[n - 1] : matches[matches.length + n];
+      if (match !== undefined) result.push(match);
+    }
+  }
+  return result;
+}
+
+function monthDays(rule: RRule, year: number, month: number, startDay: number): number[] {
+  const first = toDayNumber(year, month, 1);
+  const length = daysInMonth(year, month);
+
+  if (rule.byMonthDay?.length) {
+    const weekdays = rule.byDay?.map(day => day.weekday);
+    return rule.byMonthDay
+      .map(day => (day > 0 ? day : length + 1 + day))
+      .filter(day => day >= 1 && day <= length)
+      .map(day => first + day - 1)
+      .filter(day => !weekdays || weekdays.includes(weekdayOf(day)));
+  }
+  if (rule.byDay?.length) {
+    return matchWeekdays(first, first + length - 1, rule.byDay);
+  }
+  // Like the RFC, months without the start's day (e.g. the 31st) are skipped
+  return startDay <= length ? [first + startDay - 1] : [];
+}
+
+// All candidate days in the period'th period of the rule, before COUNT/UNTIL are applied
+function periodDays(rule: RRule, start: number, period: number): number[] {
+  const { year: startYear, month: startMonth, day: startDay } = partsOf(start);
+  const step = period * rule.interval;
+  let days: number[];
+
+  switch (rule.freq) {
+    case 'DAILY': {
+      const day = start + step;
+      const { year, month, day: dayOfMonth } = partsOf(day);
+      const length = daysInMonth(year, month);
+      const matches =
+        (!rule.byMonth || rule.byMonth.includes(month)) &&
+        (!rule.byMonthDay || rule.byMonthDay.some(d => (d > 0 ? d : length + 1 + d) === dayOfMonth)) &&
+        (!rule.byDay || rule.byDay.some(d => d.weekday === weekdayOf(day)));
+      days = matches ? [day] : [];
+      break;
+    }
+    case 'WEEKLY': {
+      const wkst = rule.wkst ?? 1;
+      const weekStart = start - ((weekdayOf(start) - wkst + 7) % 7) + step * 7;
+      const weekdays = rule.byDay?.map(day => day.weekday) ?? [weekdayOf(start)];
+      days = [];
+      for (let day = weekStart; day < weekStart + 7; day++) {
+        if (weekdays.includes(weekdayOf(day)) && (!rule.byMonth || rule.byMonth.includes(partsOf(day).month))) {
+          days.push(day);
+        }
+      }
+      break;
+    }
+    case 'MONTHLY': {
+      const monthIndex = startMonth - 1 + step;
+      const year = startYear + Math.floor(monthIndex / 12);
+      const month = (monthIndex % 12) + 1;
+      days = !rule.byMonth || rule.byMonth.includes(month) ? monthDays(rule, year, month, startDay) : [];
+      break;
+    }
+    case 'YEARLY': {
+      const year = startYear + step;
+      if (rule.byMonth?.length) {
+        days = rule.byMonth.flatMap(month => monthDays(rule, year, month, startDay));
+      } else if (rule.byMonthDay?.length) {
+        days = Array.from({ length: 12 }, (_, i) => i + 1).flatMap(month => monthDays(rule, year, month, startDay));
+      } else if (rule.byDay?.length) {
+        // Without BYMONTH, ordinals count through the whole year (20MO = 20th Monday)
+        days = matchWeekdays(toDayNumber(year, 1, 1), toDayNumber(year, 12, 31), rule.byDay);
+      } else {
+        days = monthDays(rule, year, startMonth, startDay);
+      }
+      break;
+    }
+  }
+
+  days = Array.from(new Set(days)).sort((a, b) => a - b);
+
+  if (rule.bySetPos?.length) {
+    const selected = rule.bySetPos
+      .map(pos => (pos > 0 ? days[pos - 1] : days[days.length + pos]))
+      .filter((day): day is number => day !== undefined);
+    days = Array.from(new Set(selected)).sort((a, b) => a - b);
+  }
+
+  return days;
+}
+
+// Returns a function that yields the next occurrence on each call, or null once the
+// series has ended. EXDATEs are not applied here: per the RFC, COUNT counts them.
+export function occurrenceIterator(rule: RRule, dtstart: string): () => string | null {
+  const start = dayNumberOf(dtstart);
+  const until = rule.until ? dayNumberOf(rule.until) : Infinity;
+  let period = 0;
+  let emitted = 0;
+  let buffer: number[] = [];
+  let done = false;
+
+  return () => {
+    if (done) return null;
+    let emptyPeriods = 0;
+    while (buffer.length === 0) {
+      buffer = periodDays(rule, start, period++).filter(day => day >= start);
+      if (buffer.length === 0 && ++emptyPeriods >= MAX_EMPTY_PERIODS) {
+        done = true;
+        return null;
+      }
+    }
+    const day = buffer.shift()!;
+    if (day > until || (rule.count !== undefined && emitted >= rule.count)) {
+      done = true;
+      return null;
+    }
+    emitted++;
+    return dateOf(day);
+  };
+}
+
+export interface OccurrenceOptions {
+  exdates?: string[];
+  after?: string;  // exclusive
+  before?: string; // inclusive
+  limit?: number;
+}
+
+export function listOccurrences(rule: RRule, dtstart: string, options: OccurrenceOptions = {}): string[] {
+  const { exdates = [], after, before, limit = 100 } = options;
+  const excluded = new Set(exdates);
+  const next = occurrenceIterator(rule, dtstart);
+  const result: string[] = [];
+
+  for (let date = next(); date && result.length < limit; date = next()) {
+    if (before && date > before) break;
+    if ((after && date <= after) || excluded.has(date)) continue;
+    result.push(date);
+  }
+  return result;
+}
+
+const ordinal = (n: number): string => {
+  if (n === -1) return 'last';
+  if (n === -2) return 'second to last';
+  if (n < 0) return `${ordinal(-n)} from last`;
+  const suffix = n % 100 >= 11 && n % 100 <= 13 ? 'th' : ['th', 'st', 'nd', 'rd'][n % 10] ?? 'th';
+  return `${n}${suffix}`;
+};
+
+const joinList = (items: string[]) =>
+  items.length <= 1 ? items.join('') : `${items.slice(0, -1).join(', ')} and ${items[items.length - 1]}`;
+
+const formatDate = (date: string) => {
+  const { year, month, day } = partsOf(dayNumberOf(date));
+  return `${MONTH_NAMES[month - 1]} ${day}, ${year}`;
+};
+
+// Human readable summary, e.g. "Every 2 weeks on Monday and Friday, 10 times"
+export function describeRRule(rule: RRule): string {
+  const units = { DAILY: 'day', WEEKLY: 'week', MONTHLY: 'month', YEARLY: 'year' };
+  const unit = units[rule.freq];
+  const weekdaySet = rule.byDay?.length === 5 &&
+    [1, 2, 3, 4, 5].every(weekday => rule.byDay!.some(day => day.weekday === weekday && day.n === undefined));
+  const isWeekdays = rule.freq === 'WEEKLY' && weekdaySet;
+
+  let text = isWeekdays
+    ? (rule.interval > 1 ? `Every ${rule.interval} weeks on weekdays` : 'Every weekday')
+    : (rule.interval > 1 ? `Every ${rule.interval} ${unit}s` : `Every ${unit}`);
+
+  const dayText = weekdaySet ? ['weekday'] : rule.byDay?.map(day =>
+    day.n !== undefined ? `the ${ordinal(day.n)} ${WEEKDAY_NAMES[day.weekday]}` : WEEKDAY_NAMES[day.weekday]
+  );
+  const monthDayText = rule.byMonthDay?.map(day => (day === -1 ? 'the last day' : `the ${ordinal(day)}`));
+
+  if (rule.byMonth?.length && rule.freq !== 'MONTHLY') {
+    text += ` in ${joinList(rule.byMonth.map(month => MONTH_NAMES[month - 1]))}`;
+  }
+  if (rule.bySetPos?.length && dayText) {
+    text += ` on the ${joinList(rule.bySetPos.map(ordinal))} ${joinList(dayText)}`;
+  } else if (monthDayText && dayText) {
+    text += ` on ${joinList(monthDayText)} when it is a ${joinList(dayText)}`;
+  } else if (monthDayText) {
+    text += ` on ${joinList(monthDayText)}`;
+  } else if (dayText && !isWeekdays) {
+    text += ` on ${joinList(dayText)}`;
+  }
+  if (rule.byMonth?.length && rule.freq === 'MONTHLY') {
+    text += ` (${joinList(rule.byMonth.map(month => MONTH_NAMES[month - 1]))} only)`;
+  }
+
+  if (rule.count !== undefined) text += rule.count === 1 ? ', once' : `, ${rule.count} times`;
+  if (rule.until) text += `, until ${formatDate(rule.until)}`;
+  return text;
+}
@@ -5,17 +5,29 @@ import {
   timestamp,
   jsonb,
   index,
+  uniqueIndex,
   serial,
   integer,
   boolean,
   decimal,
   date,
   time,
+  type AnyPgColumn,
 } from "drizzle-orm/pg-core";
-import { relations } from "drizzle-orm";
+import { relations, sql, type SQL } from "drizzle-orm";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
+// Full-text search document for a row: the title words rank above the body words.
+// The GIN indexes below and the queries in storage.searchWorkspace must build the
+// exact same expression, otherwise Postgres can't use the index.
+export function searchDocument(title: AnyPgColumn, body?: AnyPgColumn): SQL {
+  const titleVector = sql`setweight(to_tsvector('english', coalesce(${title}, '')), 'A')`;
+  return body
+    ? sql`(${titleVector} || setweight(to_tsvector('english', coalesce(${body}, '')), 'B'))`
+    : titleVector;
+}
+
 // Session storage table (required for Replit Auth)
 export const sessions = pgTable(
   "sessions",
@@ -38,6 +50,37 @@ export const users = pgTable("users", {
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+// Password sign-in (server/auth/password.ts). Users from an OIDC issuer or magic links
+// have no row here until they set a password with the reset flow.
+export const userCredentials = pgTable("user_credentials", {
+  userId: varchar("user_id").primaryKey().references(() => users.id, { onDelete: 'cascade' }),
+  passwordHash: varchar("password_hash", { length: 255 }).notNull(), // scrypt$<salt>$<hash>
+  emailVerifiedAt: timestamp("email_verified_at"), // password sign-in is refused until set
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// The account a registration creates once its email is confirmed
+export interface PendingRegistration {
+  passwordHash: string;
+  firstName: string | null;
+  lastName: string | null;
+}
+
+// Single-use links emailed for password resets, email confirmation and magic-link
+// sign-in. Only the SHA-256 of the token is stored.
+export const authTokens = pgTable("auth_tokens", {
+  id: serial("id").primaryKey(),
+  purpose: varchar("purpose", { length: 30 }).notNull(), // see AUTH_TOKEN_PURPOSES
+  email: varchar("email").notNull(),
+  tokenHash: varchar("token_hash", { length: 64 }).notNull().unique(),
+  expiresAt: timestamp("expires_at").notNull(),
+  usedAt: timestamp("used_at"),
+  registration: jsonb("registration").$type<PendingRegistration>(), // verify_email links only
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("IDX_auth_tokens_email").on(table.email, table.purpose),
+]);
+
 // Workspaces
 export const workspaces = pgTable("workspaces", {
   id: serial("id").primaryKey(),
@@ -61,7 +104,9 @@ export const workspaceMembers = pgTable("workspace_members", {
   isActive: boolean("is_active").default(true),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
-});
+}, (table) => [
+  index("IDX_workspace_members_search").using("gin", searchDocument(table.name)),
+]);
 
 // Workspace invitations (for pending user invites)
 export const workspaceInvitations = pgTable("workspace_invitations", {
@@ -85,7 +130,9 @@ export const projects = pgTable("projects", {
   spent: decimal("spent", { precision: 10, scale: 2 }).default("0"),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
-});
+}, (table) => [
+  index("IDX_projects_search").using("gin", searchDocument(table.name, table.description)),
+]);
 
 // Categories
 export const categories = pgTable("categories", {
@@ -94,7 +141,9 @@ export const categories = pgTable("categories", {
   name: varchar("name", { length: 255 }).notNull(),
   color: varchar("color", { length: 7 }).default("#6366F1"), // hex color
   createdAt: timestamp("created_at").defaultNow(),
-});
+}, (table) => [
+  index("IDX_categories_search").using("gin", searchDocument(table.name)),
+]);
 
 // Task recurrences
 export const taskRecurrences = pgTable("task_recurrences", {
@@ -110,6 +159,20 @@ export const taskRecurrences = pgTable("task_recurrences", {
   endType: varchar("end_type", { length: 20 }), // 'never', 'after_count', 'on_date'
   endCount: integer("end_count"), // Number of occurrences
   endDate: date("end_date"), // End date for recurrence
+  rrule: text("rrule"), // RFC 5545 rule, e.g. "FREQ=MONTHLY;BYDAY=-1FR"; the columns above mirror it
+  exdates: jsonb("exdates").$type<string[]>().default([]), // occurrences skipped, as yyyy-MM-dd
+  // Template that each generated instance is created from
+  startDate: date("start_date"), // Due date of the first occurrence
+  title: varchar("title", { length: 255 }),
+  description: text("description"),
+  projectId: integer("project_id").references(() => projects.id),
+  categoryId: integer("category_id").references(() => categories.id),
+  assignedMemberId: integer("assigned_member_id").references(() => workspaceMembers.id),
+  priority: integer("priority").default(0),
+  timeSlot: varchar("time_slot", { length: 20 }),
+  createdBy: varchar("created_by").references(() => users.id),
+  // Instances are materialized lazily; everything up to this date already exists
+  generatedUntil: date("generated_until"),
   isActive: boolean("is_active").default(true),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
@@ -131,15 +194,20 @@ export const tasks = pgTable("tasks", {
   startTime: timestamp("start_time"),
   endTime: timestamp("end_time"),
   estimatedHours: decimal("estimated_hours", { precision: 4, scale: 2 }),
-  actualHours: decimal("actual_hours", { precision: 4, scale: 2 }),
+  actualHours: decimal("actual_hours", { precision: 8, scale: 2 }), // rolled up from time entries
   timeSlot: varchar("time_slot", { length: 20 }), // e.g., "6:00-9:00"
   agentExecutionLog: text("agent_execution_log"),
   taskRecurrenceId: integer("task_recurrence_id"),
   isRecurringInstance: boolean("is_recurring_instance").default(false),
+  occurrenceDate: date("occurrence_date"), // The series date this instance was generated for, even if its due date moved
+  isRecurrenceException: boolean("is_recurrence_exception").default(false), // Edited on its own; series-wide edits skip it
   originalTaskId: integer("original_task_id"), // References the original task that spawned this recurring instance
+  createdBy: varchar("created_by").references(() => users.id),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
-});
+}, (table) => [
+  index("IDX_tasks_search").using("gin", searchDocument(table.title, table.description)),
+]);
 
 // Project pages (documentation)
 export const projectPages = pgTable("project_pages", {
@@ -149,7 +217,9 @@ export const projectPages = pgTable("project_pages", {
   content: text("content"),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
-});
+}, (table) => [
+  index("IDX_project_pages_search").using("gin", searchDocument(table.title, table.content)),
+]);
 
 // Brain dump items
 export const brainDumpItems = pgTable("brain_dump_items", {
@@ -158,21 +228,47 @@ export const brainDumpItems = pgTable("brain_dump_items", {
   userId: varchar("user_id").notNull().references(() => users.id),
   text: text("text").notNull(),
   createdAt: timestamp("created_at").defaultNow(),
-});
+}, (table) => [
+  index("IDX_brain_dump_items_search").using("gin", searchDocument(table.text)),
+]);
 
-// File vault
+// File vault. Folders are rows with mimeType 'application/folder'; path is the full
+// slash-separated location (e.g. "/Designs/Logos/logo.png") and is kept in sync on rename/move.
 export const files = pgTable("files", {
   id: serial("id").primaryKey(),
   workspaceId: integer("workspace_id").notNull().references(() => workspaces.id),
   projectId: integer("project_id").references(() => projects.id),
+  parentId: integer("parent_id"), // containing folder; null at the vault root
   name: varchar("name", { length: 255 }).notNull(),
   originalName: varchar("original_name", { length: 255 }).notNull(),
   mimeType: varchar("mime_type", { length: 100 }).notNull(),
   size: integer("size").notNull(),
   path: varchar("path", { length: 500 }).notNull(),
+  storageKey: varchar("storage_key", { length: 500 }), // blob location in file storage; null for folders
+  currentVersion: integer("current_version").notNull().default(1), // mirrors the latest file_versions row
   uploadedBy: varchar("uploaded_by").notNull().references(() => users.id),
   createdAt: timestamp("created_at").defaultNow(),
-});
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  index("IDX_files_parent").on(table.parentId),
+  index("IDX_files_search").using("gin", searchDocument(table.name)),
+]);
+
+export const FOLDER_MIME_TYPE = 'application/folder';
+
+// Every upload of a file; the files row always describes the newest one.
+// Restoring an old version adds a new row pointing at the same blob.
+export const fileVersions = pgTable("file_versions", {
+  id: serial("id").primaryKey(),
+  fileId: integer("file_id").notNull().references(() => files.id),
+  versionNumber: integer("version_number").notNull(),
+  storageKey: varchar("storage_key", { length: 500 }).notNull(),
+  mimeType: varchar("mime_type", { length: 100 }).notNull(),
+  size: integer("size").notNull(),
+  uploadedBy: varchar("uploaded_by").notNull().references(() => users.id),
+  restoredFromVersion: integer("restored_from_version"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [uniqueIndex("UQ_file_versions_number").on(table.fileId, table.versionNumber)]);
 
 // AI chat conversations - conversation metadata
 export const conversations = pgTable("conversations", {
@@ -188,13 +284,14 @@ export const conversations = pgTable("conversations", {
 export const chatMessages = pgTable("chat_messages", {
   id: serial("id").primaryKey(),
   conversationId: varchar("conversation_id").notNull().references(() => conversations.id),
-  messageType: varchar("message_type", { length: 50 }).notNull(), // system, context, user, ai, tool_call, tool_result
+  messageType: varchar("message_type", { length: 50 }).notNull(), // system, context, user, ai, tool_call, tool_result, summary
   content: text("content").notNull(),
   metadata: text("metadata"), // JSON string for additional data (tool info, context data, etc.)
   createdAt: timestamp("created_at").defaultNow(),
 });
 
-// Legacy chat conversations table (for backward compatibility)
+// Legacy chat table, one row per message and answer. Chat no longer writes here; rows
+// are moved into conversations/chat_messages at startup (chatMigrationJob).
 export const chatConversations = pgTable("chat_conversations", {
   id: serial("id").primaryKey(),
   workspaceId: integer("workspace_id").notNull().references(() => workspaces.id),
@@ -275,7 +372,9 @@ export const projectOutflows = pgTable("project_outflows", {
   createdBy: varchar("created_by").notNull().references(() => users.id),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
-});
+}, (table) => [
+  index("IDX_project_outflows_search").using("gin", searchDocument(table.title, table.description)),
+]);
 
 // Project inflows (formerly revenue)
 export const projectInflows = pgTable("project_inflows", {
@@ -293,7 +392,9 @@ export const projectInflows = pgTable("project_inflows", {
   createdBy: varchar("created_by").notNull().references(() => users.id),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
-});
+}, (table) => [
+  index("IDX_project_inflows_search").using("gin", searchDocument(table.title, table.description)),
+]);
 
 // Keep legacy tables for backward compatibility
 export const projectExpenses = projectOutflows;
@@ -304,15 +405,23 @@ export const notifications = pgTable("notifications", {
   id: serial("id").primaryKey(),
   workspaceId: integer("workspace_id").notNull().references(() => workspaces.id),
   userId: varchar("user_id").notNull().references(() => users.id),
-  type: varchar("type", { length: 50 }).notNull(), // 'task_assigned', 'task_completed', 'comment_added'
+  type: varchar("type", { length: 50 }).notNull(), // a NotificationType
   title: varchar("title", { length: 255 }).notNull(),
   message: text("message").notNull(),
   taskId: integer("task_id").references(() => tasks.id),
   commentId: integer("comment_id"),
   isRead: boolean("is_read").default(false),
-  emailSent: boolean("email_sent").default(false),
+  inApp: boolean("in_app").notNull().default(true), // false when the user only wants this type by email
+  emailSent: boolean("email_sent").default(false), // true once the email actually went out
+  emailStatus: varchar("email_status", { length: 20 }).notNull().default("none"), // 'none', 'pending', 'digest', 'sent', 'failed'
+  emailAttempts: integer("email_attempts").notNull().default(0),
+  emailNextAttemptAt: timestamp("email_next_attempt_at"), // when a pending email is (re)tried
+  emailError: text("email_error"),
+  emailData: jsonb("email_data").$type<NotificationEmailContent>(), // what the email shows, kept for retries and digests
   createdAt: timestamp("created_at").defaultNow(),
-});
+}, (table) => [
+  index("IDX_notifications_email").on(table.emailStatus, table.emailNextAttemptAt),
+]);
 
 // Task comments
 export const taskComments = pgTable("task_comments", {
@@ -322,8 +431,176 @@ export const taskComments = pgTable("task_comments", {
   workspaceId: integer("workspace_id").notNull().references(() => workspaces.id),
   comment: text("comment").notNull(),
   createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("IDX_task_comments_search").using("gin", searchDocument(table.comment)),
+]);
+
+// Subtasks / checklist items inside a task
+export const subtasks = pgTable("subtasks", {
+  id: serial("id").primaryKey(),
+  taskId: integer("task_id").notNull().references(() => tasks.id),
+  workspaceId: integer("workspace_id").notNull().references(() => workspaces.id),
+  title: varchar("title", { length: 255 }).notNull(),
+  status: varchar("status", { length: 50 }).default("todo"), // 'todo', 'in_progress', 'completed'
+  assignedMemberId: integer("assigned_member_id").references(() => workspaceMembers.id),
+  position: integer("position").notNull().default(0),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [index("IDX_subtasks_task").on(table.taskId)]);
+
+// Task dependencies (predecessor blocks successor)
+export const taskDependencies = pgTable("task_dependencies", {
+  id: serial("id").primaryKey(),
+  workspaceId: integer("workspace_id").notNull().references(() => workspaces.id),
+  predecessorTaskId: integer("predecessor_task_id").notNull().references(() => tasks.id),
+  successorTaskId: integer("successor_task_id").notNull().references(() => tasks.id),
+  type: varchar("type", { length: 20 }).notNull().default("finish_to_start"), // 'finish_to_start', 'start_to_finish'
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("IDX_task_dependencies_predecessor").on(table.predecessorTaskId),
+  index("IDX_task_dependencies_successor").on(table.successorTaskId),
+]);
+
+// Time logged against a task, either by a timer or entered by hand. A running timer has no endedAt.
+export const timeEntries = pgTable("time_entries", {
+  id: serial("id").primaryKey(),
+  workspaceId: integer("workspace_id").notNull().references(() => workspaces.id),
+  taskId: integer("task_id").notNull().references(() => tasks.id),
+  userId: varchar("user_id").notNull().references(() => users.id),
+  source: varchar("source", { length: 20 }).notNull().default("timer"), // 'timer' or 'manual'
+  startedAt: timestamp("started_at").notNull(),
+  endedAt: timestamp("ended_at"),
+  durationMinutes: integer("duration_minutes"), // set once the entry is finished
+  note: text("note"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  index("IDX_time_entries_task").on(table.taskId),
+  index("IDX_time_entries_user").on(table.userId),
+]);
+
+// Vault files attached to a task, or to one of its comments when commentId is set.
+// Removing an attachment only drops the link; the file stays in the vault.
+export const taskAttachments = pgTable("task_attachments", {
+  id: serial("id").primaryKey(),
+  workspaceId: integer("workspace_id").notNull().references(() => workspaces.id),
+  taskId: integer("task_id").notNull().references(() => tasks.id),
+  commentId: integer("comment_id").references(() => taskComments.id),
+  fileId: integer("file_id").notNull().references(() => files.id),
+  attachedBy: varchar("attached_by").notNull().references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("IDX_task_attachments_task").on(table.taskId),
+  index("IDX_task_attachments_file").on(table.fileId),
+]);
+
+// Calendar subscription URLs, one per user and workspace. The token is the only
+// credential a calendar app sends, so it's long, random and can be rotated.
+export const calendarFeeds = pgTable("calendar_feeds", {
+  id: serial("id").primaryKey(),
+  workspaceId: integer("workspace_id").notNull().references(() => workspaces.id),
+  userId: varchar("user_id").notNull().references(() => users.id),
+  token: varchar("token", { length: 64 }).notNull(),
+  lastAccessedAt: timestamp("last_accessed_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("UQ_calendar_feeds_token").on(table.token),
+  uniqueIndex("UQ_calendar_feeds_user").on(table.workspaceId, table.userId),
+]);
+
+// State of each background job (server/job-runner.ts), so schedules, retries and progress
+// survive restarts and only one server instance runs a job at a time
+export const scheduledJobs = pgTable("scheduled_jobs", {
+  name: varchar("name", { length: 64 }).primaryKey(),
+  status: varchar("status", { length: 20 }).notNull().default("idle"), // 'idle', 'running', 'failed'
+  nextRunAt: timestamp("next_run_at").notNull(),
+  lockedUntil: timestamp("locked_until"), // lease held by the instance running it
+  attempts: integer("attempts").notNull().default(0), // consecutive failures
+  lastRunAt: timestamp("last_run_at"),
+  lastSucceededAt: timestamp("last_succeeded_at"),
+  lastError: text("last_error"),
+  lastResult: text("last_result"),
+  state: jsonb("state").$type<Record<string, unknown>>().default({}), // job-specific progress, e.g. who a digest already went to
+  updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+// Which channels each notification type goes to, per user and workspace. Types without
+// an entry use the defaults (in-app, and email straight away). During quiet hours emails
+// wait until the quiet hours end.
+export const notificationPreferences = pgTable("notification_preferences", {
+  id: serial("id").primaryKey(),
+  userId: varchar("user_id").notNull().references(() => users.id),
+  workspaceId: integer("workspace_id").notNull().references(() => workspaces.id),
+  types: jsonb("types").$type<NotificationTypePreferences>().notNull().default({}),
+  quietHoursStart: time("quiet_hours_start"), // both set or both null; may wrap past midnight
+  quietHoursEnd: time("quiet_hours_end"),
+  timeZone: varchar("time_zone", { length: 64 }).notNull().default("UTC"), // IANA zone the quiet hours are in
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("UQ_notification_preferences_user").on(table.userId, table.workspaceId),
+]);
+
+// Outbound webhooks: a workspace's subscriptions to events, signed with their secret
+export const webhooks = pgTable("webhooks", {
+  id: serial("id").primaryKey(),
+  workspaceId: integer("workspace_id").notNull().references(() => workspaces.id),
+  url: text("url").notNull(),
+  description: varchar("description", { length: 255 }),
+  events: jsonb("events").$type<WebhookEventType[]>().notNull().default([]),
+  secret: varchar("secret", { length: 80 }).notNull(), // HMAC-SHA256 key for the signature header
+  isActive: boolean("is_active").notNull().default(true),
+  createdBy: varchar("created_by").notNull().references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [index("IDX_webhooks_workspace").on(table.workspaceId)]);
+
+// One attempt series at sending an event to a webhook. A redelivery is a new row with
+// the same event id and payload.
+export const webhookDeliveries = pgTable("webhook_deliveries", {
+  id: serial("id").primaryKey(),
+  webhookId: integer("webhook_id").notNull().references(() => webhooks.id, { onDelete: "cascade" }),
+  workspaceId: integer("workspace_id").notNull().references(() => workspaces.id),
+  eventId: varchar("event_id", { length: 64 }).notNull(),
+  eventType: varchar("event_type", { length: 50 }).notNull(),
+  payload: jsonb("payload").$type<WebhookPayload>().notNull(), // the exact body sent
+  status: varchar("status", { length: 20 }).notNull().default("pending"), // 'pending', 'succeeded', 'failed'
+  attempts: integer("attempts").notNull().default(0),
+  nextAttemptAt: timestamp("next_attempt_at"),
+  lastAttemptAt: timestamp("last_attempt_at"),
+  responseStatus: integer("response_status"),
+  responseBody: text("response_body"), // truncated
+  error: text("error"),
+  durationMs: integer("duration_ms"),
+  redeliveryOf: integer("redelivery_of"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("IDX_webhook_deliveries_webhook").on(table.webhookId, table.createdAt),
+  index("IDX_webhook_deliveries_due").on(table.status, table.nextAttemptAt),
+]);
+
+// Tokens for scripts and CI. Only a hash is stored; the token itself is shown once.
+// A personal token acts as its owner, optionally in one workspace only. A workspace
+// token is managed by the workspace's admins and acts with the access of the admin
+// who created it, in that workspace only.
+export const apiTokens = pgTable("api_tokens", {
+  id: serial("id").primaryKey(),
+  name: varchar("name", { length: 100 }).notNull(),
+  kind: varchar("kind", { length: 20 }).notNull().default("personal"), // 'personal' or 'workspace'
+  userId: varchar("user_id").notNull().references(() => users.id),
+  workspaceId: integer("workspace_id").references(() => workspaces.id), // required for workspace tokens
+  tokenHash: varchar("token_hash", { length: 64 }).notNull(), // SHA-256, hex
+  tokenPrefix: varchar("token_prefix", { length: 16 }).notNull(), // start of the token, to tell them apart
+  scopes: jsonb("scopes").$type<ApiTokenScope[]>().notNull().default([]),
+  expiresAt: timestamp("expires_at"),
+  lastUsedAt: timestamp("last_used_at"),
+  revokedAt: timestamp("revoked_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("UQ_api_tokens_hash").on(table.tokenHash),
+  index("IDX_api_tokens_user").on(table.userId),
+  index("IDX_api_tokens_workspace").on(table.workspaceId),
+]);
+
 // Relations
 export const usersRelations = relations(users, ({ many }) => ({
   ownedWorkspaces: many(workspaces),
@@ -464,6 +741,69 @@ export const tasksRelations = relations(tasks, ({ one }) => ({
   }),
 }));
 
+export const subtasksRelations = relations(subtasks, ({ one }) => ({
+  task: one(tasks, {
+    fields: [subtasks.taskId],
+    references: [tasks.id],
+  }),
+  assignedMember: one(workspaceMembers, {
+    fields: [subtasks.assignedMemberId],
+    references: [workspaceMembers.id],
+  }),
+}));
+
+export const timeEntriesRelations = relations(timeEntries, ({ one }) => ({
+  task: one(tasks, {
+    fields: [timeEntries.taskId],
+    references: [tasks.id],
+  }),
+  user: one(users, {
+    fields: [timeEntries.userId],
+    references: [users.id],
+  }),
+}));
+
+export const taskAttachmentsRelations = relations(taskAttachments, ({ one }) => ({
+  task: one(tasks, {
+    fields: [taskAttachments.taskId],
+    references: [tasks.id],
+  }),
+  comment: one(taskComments, {
+    fields: [taskAttachments.commentId],
+    references: [taskComments.id],
+  }),
+  file: one(files, {
+    fields: [taskAttachments.fileId],
+    references: [files.id],
+  }),
+}));
+
+export const calendarFeedsRelations = relations(calendarFeeds, ({ one }) => ({
+  workspace: one(workspaces, {
+    fields: [calendarFeeds.workspaceId],
+    references: [workspaces.id],
+  }),
+  user: one(users, {
+    fields: [calendarFeeds.userId],
+    references: [users.id],
+  }),
+}));
+
+export const taskDependenciesRelations = relations(taskDependencies, ({ one }) => ({
+  workspace: one(workspaces, {
+    fields: [taskDependencies.workspaceId],
+    references: [workspaces.id],
+  }),
+  predecessor: one(tasks, {
+    fields: [taskDependencies.predecessorTaskId],
+    references: [tasks.id],
+  }),
+  successor: one(tasks, {
+    fields: [taskDependencies.successorTaskId],
+    references: [tasks.id],
+  }),
+}));
+
 export const projectPagesRelations = relations(projectPages, ({ one }) => ({
   project: one(projects, {
     fields: [projectPages.projectId],
@@ -482,7 +822,7 @@ export const brainDumpItemsRelations = relations(brainDumpItems, ({ one }) => ({
   }),
 }));
 
-export const filesRelations = relations(files, ({ one }) => ({
+export const filesRelations = relations(files, ({ one, many }) => ({
   workspace: one(workspaces, {
     fields: [files.workspaceId],
     references: [workspaces.id],
@@ -495,6 +835,18 @@ export const filesRelations = relations(files, ({ one }) => ({
     fields: [files.uploadedBy],
     references: [users.id],
   }),
+  versions: many(fileVersions),
+}));
+
+export const fileVersionsRelations = relations(fileVersions, ({ one }) => ({
+  file: one(files, {
+    fields: [fileVersions.fileId],
+    references: [files.id],
+  }),
+  uploader: one(users, {
+    fields: [fileVersions.uploadedBy],
+    references: [users.id],
+  }),
 }));
 
 export const chatConversationsRelations = relations(chatConversations, ({ one }) => ({
@@ -633,17 +985,33 @@ export const insertWorkspaceSchema = createInsertSchema(workspaces).omit({ id: t
 export const insertWorkspaceMemberSchema = createInsertSchema(workspaceMembers).omit({ id: true, createdAt: true, updatedAt: true });
 export const insertProjectSchema = createInsertSchema(projects).omit({ id: true, createdAt: true, updatedAt: true });
 export const insertCategorySchema = createInsertSchema(categories).omit({ id: true, createdAt: true });
-export const insertTaskRecurrenceSchema = createInsertSchema(taskRecurrences).omit({ id: true, createdAt: true, updatedAt: true });
+export const insertTaskRecurrenceSchema = createInsertSchema(taskRecurrences).omit({ id: true, createdAt: true, updatedAt: true }).extend({
+  exdates: z.array(z.string()).optional(),
+});
 export const insertTaskSchema = createInsertSchema(tasks).omit({ id: true, createdAt: true, updatedAt: true });
 export const insertProjectPageSchema = createInsertSchema(projectPages).omit({ id: true, createdAt: true, updatedAt: true });
 export const insertBrainDumpItemSchema = createInsertSchema(brainDumpItems).omit({ id: true, createdAt: true });
-export const insertFileSchema = createInsertSchema(files).omit({ id: true, createdAt: true });
+export const insertFileSchema = createInsertSchema(files).omit({ id: true, createdAt: true, updatedAt: true });
+export const insertFileVersionSchema = createInsertSchema(fileVersions).omit({ id: true, createdAt: true });
 export const insertChatConversationSchema = createInsertSchema(chatConversations).omit({ id: true, createdAt: true });
 export const insertConversationSchema = createInsertSchema(conversations).omit({ createdAt: true, updatedAt: true });
 export const insertChatMessageSchema = createInsertSchema(chatMessages).omit({ id: true, createdAt: true });
 export const insertWorkspaceInvitationSchema = createInsertSchema(workspaceInvitations).omit({ id: true, createdAt: true, expiresAt: true });
-export const insertNotificationSchema = createInsertSchema(notifications).omit({ id: true, createdAt: true });
+export const insertNotificationSchema = createInsertSchema(notifications).omit({ id: true, createdAt: true }).extend({
+  emailData: z.custom<NotificationEmailContent>().nullable().optional(),
+});
 export const insertTaskCommentSchema = createInsertSchema(taskComments).omit({ id: true, createdAt: true });
+export const insertSubtaskSchema = createInsertSchema(subtasks, {
+  status: z.enum(['todo', 'in_progress', 'completed']).optional(),
+}).omit({ id: true, createdAt: true, updatedAt: true });
+export const insertTaskAttachmentSchema = createInsertSchema(taskAttachments).omit({ id: true, createdAt: true });
+export const insertTimeEntrySchema = createInsertSchema(timeEntries, {
+  source: z.enum(['timer', 'manual']).optional(),
+  durationMinutes: z.number().int().min(1).max(24 * 60).nullable().optional(),
+}).omit({ id: true, createdAt: true, updatedAt: true });
+export const insertTaskDependencySchema = createInsertSchema(taskDependencies, {
+  type: z.enum(['finish_to_start', 'start_to_finish']),
+}).omit({ id: true, createdAt: true });
 export const insertProjectComponentSchema = createInsertSchema(projectComponents).omit({ id: true, createdAt: true, updatedAt: true });
 export const insertProjectBudgetSchema = createInsertSchema(projectBudgets).omit({ id: true, createdAt: true, updatedAt: true });
 export const insertInflowTypeSchema = createInsertSchema(inflowTypes).omit({ id: true, createdAt: true });
@@ -677,6 +1045,12 @@ export type InsertBrainDumpItem = z.infer<typeof insertBrainDumpItemSchema>;
 export type BrainDumpItem = typeof brainDumpItems.$inferSelect;
 export type InsertFile = z.infer<typeof insertFileSchema>;
 export type File = typeof files.$inferSelect;
+export type InsertFileVersion = z.infer<typeof insertFileVersionSchema>;
+export type FileVersion = typeof fileVersions.$inferSelect & {
+  uploaderName?: string; // computed from user relation
+};
+// What an upload or restore supplies; the file and number are assigned when it's added
+export type NewFileVersion = Omit<InsertFileVersion, 'fileId' | 'versionNumber'>;
 export type InsertChatConversation = z.infer<typeof insertChatConversationSchema>;
 export type ChatConversation = typeof chatConversations.$inferSelect;
 export type InsertConversation = z.infer<typeof insertConversationSchema>;
@@ -691,6 +1065,31 @@ export type InsertTaskComment = z.infer<typeof insertTaskCommentSchema>;
 export type TaskComment = typeof taskComments.$inferSelect & {
   userName?: string; // computed from user relation
 };
+export type InsertSubtask = z.infer<typeof insertSubtaskSchema>;
+export type Subtask = typeof subtasks.$inferSelect;
+export type SubtaskProgress = Record<number, { total: number; completed: number }>;
+export type InsertTimeEntry = z.infer<typeof insertTimeEntrySchema>;
+export type TimeEntry = typeof timeEntries.$inferSelect & {
+  userName?: string; // computed from user relation
+};
+export type InsertTaskAttachment = z.infer<typeof insertTaskAttachmentSchema>;
+export type TaskAttachment = typeof taskAttachments.$inferSelect & {
+  // computed from the attached file
+  fileName: string;
+  mimeType: string;
+  size: number;
+};
+export type AttachmentCounts = Record<number, number>;
+export type CalendarFeed = typeof calendarFeeds.$inferSelect;
+export type NotificationPreferences = typeof notificationPreferences.$inferSelect;
+export type Webhook = typeof webhooks.$inferSelect;
+export type WebhookDelivery = typeof webhookDeliveries.$inferSelect;
+export type ApiToken = typeof apiTokens.$inferSelect;
+export type UserCredentials = typeof userCredentials.$inferSelect;
+export type AuthToken = typeof authTokens.$inferSelect;
+export type ScheduledJob = typeof scheduledJobs.$inferSelect;
+export type InsertTaskDependency = z.infer<typeof insertTaskDependencySchema>;
+export type TaskDependency = typeof taskDependencies.$inferSelect;
 export type InsertProjectComponent = z.infer<typeof insertProjectComponentSchema>;
 export type ProjectComponent = typeof projectComponents.$inferSelect;
 export type InsertProjectBudget = z.infer<typeof insertProjectBudgetSchema>;
@@ -709,6 +1108,334 @@ export type ProjectExpense = ProjectOutflow;
 export type InsertProjectRevenue = InsertProjectInflow;
 export type ProjectRevenue = ProjectInflow;
 
+// Task list query (GET /api/workspaces/:id/tasks). Values arrive as query-string text.
+const commaList = z.string().transform(value => value.split(',').map(v => v.trim()).filter(Boolean));
+const idList = commaList.pipe(z.array(z.coerce.number().int()));
+
+export const taskSortFields = ['updatedAt', 'createdAt', 'dueDate', 'priority', 'title', 'status'] as const;
+
+export const taskQuerySchema = z.object({
+  status: commaList.optional(),
+  priority: idList.optional(),
+  assignee: z.string().optional(), // comma-separated member ids, or 'unassigned'
+  projectId: idList.optional(),
+  categoryId: idList.optional(),
+  dueFrom: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional(),
+  dueTo: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional(),
+  recurring: z.enum(['true', 'false']).optional(),
+  q: z.string().trim().min(1).optional(),
+  sort: z.enum(taskSortFields).default('updatedAt'),
+  order: z.enum(['asc', 'desc']).default('desc'),
+  cursor: z.string().optional(),
+  limit: z.coerce.number().int().min(1).max(500).optional(),
+});
+
+export type TaskQuery = z.infer<typeof taskQuerySchema>;
+export type TaskPage = { tasks: Task[]; nextCursor: string | null };
+
+// The list filters without sorting and paging (GET /api/workspaces/:id/tasks/progress)
+export const taskFilterSchema = taskQuerySchema.omit({ sort: true, order: true, cursor: true, limit: true });
+export type TaskFilters = z.infer<typeof taskFilterSchema>;
+
+// How many of the matching tasks there are and how many are completed, overall and
+// per project and assigned member
+export type TaskCounts = { total: number; completed: number };
+export type TaskProgress = TaskCounts & { byProject: Record<number, TaskCounts>; byMember: Record<number, TaskCounts> };
+
+// Calendar feed and .ics export (GET /api/calendar/:token.ics, /api/workspaces/:id/tasks.ics).
+// Takes the task list filters, where assignee also accepts 'me'; component=todo writes VTODOs.
+export const calendarQuerySchema = taskFilterSchema.extend({
+  component: z.enum(['event', 'todo']).default('event'),
+});
+
+export type CalendarQuery = z.infer<typeof calendarQuerySchema>;
+
+// Which occurrences of a recurring series an edit or delete applies to (?scope= on /api/tasks/:id)
+export const recurrenceScopes = ['this', 'following', 'all'] as const;
+export const recurrenceScopeSchema = z.enum(recurrenceScopes).default('this');
+export type RecurrenceScope = typeof recurrenceScopes[number];
+
+// Notification types and how each one is delivered
+export const NOTIFICATION_TYPES = [
+  'task_assigned',
+  'task_status_changed',
+  'task_completed',
+  'comment_added',
+  'task_due_soon',
+  'task_overdue',
+] as const;
+
+export type NotificationType = typeof NOTIFICATION_TYPES[number];
+
+// 'instant' emails each notification, 'digest' collects them into one daily email
+export const emailDeliveryModes = ['instant', 'digest', 'off'] as const;
+export type EmailDeliveryMode = typeof emailDeliveryModes[number];
+
+export interface NotificationChannelPreference {
+  inApp: boolean;
+  email: EmailDeliveryMode;
+}
+
+export type NotificationTypePreferences = Partial<Record<NotificationType, NotificationChannelPreference>>;
+
+export const DEFAULT_NOTIFICATION_PREFERENCE: NotificationChannelPreference = { inApp: true, email: 'instant' };
+
+// What a notification email shows, stored on the notification so a retry or the
+// daily digest doesn't have to look the task up again
+export interface NotificationEmailContent {
+  taskTitle: string;
+  taskDescription?: string | null;
+  actorName?: string | null; // who assigned, commented or changed the status
+  commentText?: string | null;
+  statusChange?: { from: string; to: string } | null;
+  dueDate?: string | null;
+  dueTime?: string | null;
+  projectName?: string | null;
+}
+
+const isTimeZone = (zone: string) => {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: zone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+const timeOfDay = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d(:[0-5]\d)?$/);
+
+// PUT /api/workspaces/:id/notification-preferences
+export const notificationPreferencesSchema = z.object({
+  types: z.record(
+    z.enum(NOTIFICATION_TYPES),
+    z.object({ inApp: z.boolean(), email: z.enum(emailDeliveryModes) }),
+  ).default({}),
+  quietHoursStart: timeOfDay.nullable().default(null),
+  quietHoursEnd: timeOfDay.nullable().default(null),
+  timeZone: z.string().refine(isTimeZone, 'Unknown time zone').default('UTC'),
+}).refine(
+  prefs => (prefs.quietHoursStart === null) === (prefs.quietHoursEnd === null),
+  { message: 'Set both the start and the end of quiet hours, or neither', path: ['quietHoursEnd'] },
+).refine(
+  prefs => prefs.quietHoursStart === null || prefs.quietHoursStart !== prefs.quietHoursEnd,
+  { message: 'Quiet hours must start and end at different times', path: ['quietHoursEnd'] },
+);
+
+export type NotificationPreferencesInput = z.infer<typeof notificationPreferencesSchema>;
+
+// Events a webhook can subscribe to. 'ping' is only sent by the "send test" button.
+export const WEBHOOK_EVENT_TYPES = [
+  'task.created',
+  'task.updated',
+  'task.status_changed',
+  'task.completed',
+  'task.deleted',
+  'comment.added',
+  'comment.deleted',
+  'outflow.created',
+  'outflow.updated',
+  'outflow.approved',
+  'outflow.rejected',
+  'outflow.deleted',
+  'inflow.created',
+  'inflow.updated',
+  'inflow.received',
+  'inflow.deleted',
+] as const;
+
+export type WebhookEventType = typeof WEBHOOK_EVENT_TYPES[number];
+
+// The JSON body of every delivery
+export interface WebhookPayload {
+  id: string; // event id, the same for redeliveries
+  type: WebhookEventType | 'ping';
+  createdAt: string;
+  workspaceId: number;
+  data: Record<string, unknown>;
+}
+
+// POST /api/workspaces/:id/webhooks; PATCH /api/webhooks/:id takes any of the fields.
+// The routes also refuse URLs whose host is private (checkWebhookUrl).
+export const webhookInputSchema = z.object({
+  url: z.string().trim().url().max(2000).refine(url => /^https?:\/\//i.test(url), 'The URL must start with http:// or https://'),
+  description: z.string().trim().max(255).nullable().optional(),
+  events: z.array(z.enum(WEBHOOK_EVENT_TYPES)).min(1, 'Pick at least one event'),
+  isActive: z.boolean().optional(),
+});
+
+export type WebhookInput = z.infer<typeof webhookInputSchema>;
+
+// GET /api/webhooks/:id/deliveries, newest first
+export const webhookDeliveryQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(100).default(25),
+  before: z.coerce.number().int().optional(), // delivery id to page back from
+});
+
+// What an API token can reach. Reading needs `<resource>:read` or `<resource>:write`;
+// anything else needs `<resource>:write`. The token owner's workspace role still applies.
+export const API_TOKEN_RESOURCES = [
+  'workspaces',
+  'members',
+  'projects',
+  'categories',
+  'tasks',
+  'comments',
+  'time',
+  'files',
+  'finances',
+  'search',
+] as const;
+
+export type ApiTokenResource = typeof API_TOKEN_RESOURCES[number];
+export type ApiTokenScope = `${ApiTokenResource}:${'read' | 'write'}`;
+
+export const API_TOKEN_SCOPES = API_TOKEN_RESOURCES.flatMap(resource => [`${resource}:read`, `${resource}:write`] as const);
+
+// POST /api/api-tokens (personal) and POST /api/workspaces/:id/api-tokens
+export const createApiTokenSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  scopes: z.array(z.enum(API_TOKEN_SCOPES as [ApiTokenScope, ...ApiTokenScope[]])).min(1, 'Pick at least one scope'),
+  workspaceId: z.number().int().nullable().optional(), // personal tokens only; null for all the owner's workspaces
+  expiresInDays: z.number().int().min(1).max(365).nullable().optional(), // null never expires
+});
+
+export type CreateApiTokenInput = z.infer<typeof createApiTokenSchema>;
+
+// Sign-in methods (server/auth). Which ones are on is set by AUTH_PROVIDERS.
+export const AUTH_PROVIDER_IDS = ['oidc', 'password', 'magic_link', 'local'] as const;
+export type AuthProviderId = typeof AUTH_PROVIDER_IDS[number];
+
+// What the login page gets from GET /api/auth/providers
+export interface AuthProviderInfo {
+  id: AuthProviderId;
+  label: string;
+  loginUrl?: string; // providers that sign in by redirecting to another site
+}
+
+export const AUTH_TOKEN_PURPOSES = ['password_reset', 'verify_email', 'magic_link'] as const;
+export type AuthTokenPurpose = typeof AUTH_TOKEN_PURPOSES[number];
+
+const emailField = z.string().trim().toLowerCase().email().max(255);
+const passwordField = z.string().min(8, 'Use at least 8 characters').max(200);
+
+export const registerSchema = z.object({
+  email: emailField,
+  password: passwordField,
+  firstName: z.string().trim().max(100).optional(),
+  lastName: z.string().trim().max(100).optional(),
+});
+
+export const passwordLoginSchema = z.object({
+  email: emailField,
+  password: z.string().min(1).max(200),
+});
+
+// Forgot password and magic-link requests
+export const emailLinkRequestSchema = z.object({ email: emailField });
+
+export const resetPasswordSchema = z.object({
+  token: z.string().min(1),
+  password: passwordField,
+});
+
+// Development only: sign in as anyone by email
+export const localLoginSchema = z.object({
+  email: emailField,
+  firstName: z.string().trim().max(100).optional(),
+  lastName: z.string().trim().max(100).optional(),
+});
+
+// Manually logged time (POST /api/tasks/:id/time-entries)
+export const manualTimeEntrySchema = z.object({
+  minutes: z.coerce.number().int().min(1).max(24 * 60),
+  date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional(), // defaults to today
+  note: z.string().trim().max(1000).optional(),
+});
+
+// Timesheet report (GET /api/workspaces/:id/timesheet). Dates are inclusive.
+export const timesheetQuerySchema = z.object({
+  from: z.string().regex(/^\d{4}-\d{2}-\d{2}$/),
+  to: z.string().regex(/^\d{4}-\d{2}-\d{2}$/),
+  projectId: z.coerce.number().int().optional(),
+  userId: z.string().optional(),
+});
+
+export type TimesheetQuery = z.infer<typeof timesheetQuerySchema>;
+
+export interface TimesheetRow {
+  id: string | number | null; // user id or project id; null for tasks without a project
+  name: string;
+  actualHours: number;
+  estimatedHours: number; // estimates of the tasks time was logged against
+  taskCount: number;
+  entryCount: number;
+}
+
+export interface TimesheetEntry {
+  id: number;
+  date: string;
+  userId: string;
+  userName: string;
+  projectId: number | null;
+  projectName: string | null;
+  taskId: number;
+  taskTitle: string;
+  hours: number;
+  note: string | null;
+}
+
+export interface Timesheet {
+  from: string;
+  to: string;
+  byMember: TimesheetRow[];
+  byProject: TimesheetRow[];
+  entries: TimesheetEntry[];
+}
+
+export const SEARCH_RESULT_TYPES = [
+  'task',
+  'project',
+  'member',
+  'category',
+  'comment',
+  'page',
+  'file',
+  'brain_dump',
+  'inflow',
+  'outflow',
+] as const;
+
+export type SearchResultType = typeof SEARCH_RESULT_TYPES[number];
+
+// ts_headline wraps matched words in these private-use characters so the client can
+// highlight them without rendering any HTML from the database
+export const SEARCH_HIGHLIGHT_START = '\uE000';
+export const SEARCH_HIGHLIGHT_END = '\uE001';
+
+export const searchQuerySchema = z.object({
+  workspaceId: z.coerce.number().int(),
+  q: z.string().trim().min(1).max(500),
+  types: z.string().optional(), // comma-separated SearchResultType values
+  limit: z.coerce.number().int().min(1).max(50).default(10),
+});
+
+export interface SearchResult {
+  type: SearchResultType;
+  id: number;
+  title: string; // may contain highlight markers
+  snippet: string | null; // may contain highlight markers
+  rank: number;
+  projectId: number | null;
+  taskId: number | null; // the task a comment belongs to
+  meta: Record<string, string | number | null>;
+}
+
+export interface SearchResponse {
+  results: SearchResult[]; // best match first, across all types
+  counts: Partial<Record<SearchResultType, number>>; // total matches per type before the limit
+  errors: string[]; // operators that couldn't be understood
+}
+
 // Activity Tracking
 export const activityLogs = pgTable("activity_logs", {
   id: serial("id").primaryKey(),
@@ -720,8 +1447,12 @@ export const activityLogs = pgTable("activity_logs", {
   entityName: varchar("entity_name", { length: 255 }), // Name/title of the entity for context
   details: jsonb("details"), // Additional context data (old values, new values, etc.)
   metadata: jsonb("metadata"), // Extra metadata (IP, user agent, etc.)
+  changes: jsonb("changes").$type<AuditChanges>(), // field-level before/after of a create, update or delete
   createdAt: timestamp("created_at").defaultNow(),
-});
+}, (table) => [
+  index("IDX_activity_logs_workspace").on(table.workspaceId, table.createdAt),
+  index("IDX_activity_logs_user").on(table.userId, table.createdAt),
+]);
 
 // Activity logs relations
 export const activityLogsRelations = relations(activityLogs, ({ one }) => ({
@@ -739,9 +1470,102 @@ export const activityLogsRelations = relations(activityLogs, ({ one }) => ({
 export const insertActivityLogSchema = createInsertSchema(activityLogs).omit({
   id: true,
   createdAt: true,
+}).extend({
+  changes: z.custom<AuditChanges>().nullable().optional(),
 });
 
 export type InsertActivityLog = z.infer<typeof insertActivityLogSchema>;
 export type ActivityLog = typeof activityLogs.$inferSelect;
 
+// A field that changed: null `from` for creates, null `to` for deletes
+export interface AuditChange {
+  from: unknown;
+  to: unknown;
+}
+export type AuditChanges = Record<string, AuditChange>;
+
+// The audit log screen and its export (GET /api/workspaces/:id/audit-log[/export])
+export const auditLogQuerySchema = z.object({
+  userId: z.string().optional(),
+  entityType: z.string().optional(),
+  action: z.string().optional(),
+  from: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional(),
+  to: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional(), // inclusive
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+  before: z.coerce.number().int().optional(), // id cursor from the previous page
+});
+
+export type AuditLogQuery = z.infer<typeof auditLogQuerySchema>;
+// What every member sees in the activity feed; field diffs and request metadata stay in the audit log
+export type ActivityFeedEntry = Omit<ActivityLog, 'changes' | 'metadata'>;
+export type AuditLogEntry = ActivityLog & { userName: string | null };
+export interface AuditLogFacets {
+  entityTypes: string[];
+  actions: string[];
+}
+export interface AuditLogPage extends AuditLogFacets {
+  entries: AuditLogEntry[];
+  nextBefore: number | null;
+  retentionDays: number;
+}
+
+
+
+// AI assistant tool calls, stored as chat_messages rows of type tool_call and
+// tool_result. Reads run straight away; writes wait in `pending` until the user
+// confirms or rejects them (POST /api/workspaces/:id/chat/actions/:messageId).
+export const CHAT_TOOL_STATUSES = ['pending', 'approved', 'rejected', 'done', 'failed'] as const;
+export type ChatToolStatus = typeof CHAT_TOOL_STATUSES[number];
+
+export interface ChatToolCallMetadata {
+  turnId: number; // the user message that started it
+  step: number; // calls the model made together share a step
+  toolCallId: string;
+  name: string;
+  arguments: string; // JSON, as the model sent it
+  write: boolean;
+  status: ChatToolStatus;
+}
+
+export interface ChatToolResultMetadata {
+  turnId: number;
+  toolCallId: string;
+  name: string;
+  ok: boolean;
+}
+
+// A tool call as the chat UI shows it
+export interface ChatToolAction {
+  id: number; // the tool_call message
+  name: string;
+  summary: string;
+  write: boolean;
+  status: ChatToolStatus;
+  result: string | null;
+}
+
+// The assistant's answer to a turn (type `ai`). A turn that carries on after a
+// confirmation gets another one.
+export interface ChatAnswerMetadata {
+  turnId: number;
+  stopped?: boolean; // the user stopped it while it was being written
+}
+
+// The gist of a conversation's older turns (type `summary`), sent to the model in their
+// place once they no longer fit its history window
+export interface ChatSummaryMetadata {
+  throughTurnId: number; // the last turn it covers
+}
+
+// A user message and everything the assistant did about it, as the chat UI shows it
+export interface ChatTurn {
+  id: number; // the user message; the turn's other messages point back to it as `turnId`
+  conversationId: string;
+  message: string;
+  response: string | null;
+  stopped: boolean;
+  createdAt: Date | null;
+  actions: ChatToolAction[];
+}
 
+export const resolveChatActionSchema = z.object({ approve: z.boolean() });